@@ -0,0 +1,102 @@
+// Comprehensive tests for bytes patterns and Uint8Array subjects
+import { describe, it, expect } from 'vitest';
+import { bytesToLatin1, latin1ToBytes, utf8ToLatin1 } from '../src/bytes';
+import { regex } from '../src/regex';
+
+const b = (text: string) => latin1ToBytes(text);
+
+describe('Bytes', () => {
+  describe('Latin-1 conversion', () => {
+    it('should map every byte to one character and back', () => {
+      const all = new Uint8Array(256).map((_, i) => i);
+      const text = bytesToLatin1(all);
+      expect(text.length).toBe(256);
+      expect(text.charCodeAt(0x80)).toBe(0x80);
+      expect(latin1ToBytes(text)).toEqual(all);
+    });
+
+    it('should convert long inputs', () => {
+      expect(bytesToLatin1(new Uint8Array(100000).fill(0x61))).toBe('a'.repeat(100000));
+    });
+
+    it('should encode str patterns as UTF-8', () => {
+      expect(utf8ToLatin1('café')).toBe('caf\xc3\xa9');
+    });
+  });
+
+  describe('Matching', () => {
+    it('should match Uint8Array subjects and return byte slices', async () => {
+      const pattern = await regex.compile(b('(\\w+)@(\\w+)'));
+      const m = pattern.search(b('mail: user@host'))!;
+      expect(m.group()).toEqual(b('user@host'));
+      expect(m.group(1)).toEqual(b('user'));
+      expect(m.groups()).toEqual([b('user'), b('host')]);
+      expect(m.span(2)).toEqual([11, 15]);
+      expect(m[1]).toEqual(b('user'));
+    });
+
+    it('should count offsets in bytes', async () => {
+      const pattern = await regex.compile('b', 0, { bytes: true });
+      const subject = new TextEncoder().encode('éb');
+      expect(pattern.search(subject)!.span()).toEqual([2, 3]);
+    });
+
+    it('should accept Buffers', async () => {
+      const m = await regex.search(b('\\d+'), Buffer.from('abc 123'));
+      expect(m!.group()).toEqual(b('123'));
+    });
+
+    it('should use ASCII semantics', async () => {
+      expect(await regex.match(b('\\w'), b('\xe9'))).toBeNull();
+      expect(await regex.match(b('\\s'), b('\x85'))).toBeNull();
+      expect(await regex.match(b('\xe9'), b('\xc9'), regex.IGNORECASE)).toBeNull();
+      expect(await regex.match(b('\xe9'), b('\xe9'))).not.toBeNull();
+      expect(await regex.fullmatch(b('.'), b('\xff'))).not.toBeNull();
+    });
+
+    it('should return bytes from findall, split and sub', async () => {
+      expect(await regex.findall(b('\\d'), b('a1b2'))).toEqual([b('1'), b('2')]);
+      expect(await regex.split(b(','), b('a,b'))).toEqual([b('a'), b('b')]);
+      expect(await regex.sub(b('(\\d)'), b('<\\1>'), b('a1'))).toEqual(b('a<1>'));
+      expect(await regex.sub(b('\\d'), m => b('#'), b('a1'))).toEqual(b('a#'));
+    });
+
+    it('should report flags without UNICODE', async () => {
+      expect((await regex.compile(b('a'))).flags).toBe(0);
+      expect((await regex.compile(b('(?L)a'))).flags).toBe(regex.LOCALE);
+    });
+  });
+
+  describe('Type errors', () => {
+    it('should reject mixing str and bytes', async () => {
+      const bytesPattern = await regex.compile(b('a'));
+      const strPattern = await regex.compile('a');
+      expect(() => bytesPattern.match('a' as never)).toThrow(new TypeError('cannot use a bytes pattern on a string-like object'));
+      expect(() => strPattern.match(b('a') as never)).toThrow(new TypeError('cannot use a string pattern on a bytes-like object'));
+    });
+
+    it('should reject replacements of the other type', async () => {
+      const bytesPattern = await regex.compile(b('a'));
+      expect(() => bytesPattern.sub('x' as never, b('a'))).toThrow('expected a bytes-like object, str found');
+      expect(() => bytesPattern.sub((() => 'x') as never, b('a'))).toThrow('expected a bytes-like object, str found');
+      expect(() => bytesPattern.match(b('a'))!.expand('x' as never)).toThrow('expected a bytes-like object, str found');
+      await expect(regex.sub('a', b('x') as never, 'a')).rejects.toThrow('expected str instance, bytes found');
+    });
+
+    it('should reject the UNICODE flag and Unicode escapes', async () => {
+      await expect(regex.compile(b('a'), regex.UNICODE)).rejects.toThrow('cannot use UNICODE flag with a bytes pattern');
+      await expect(regex.compile(b('\\u0041'))).rejects.toThrow('bad escape \\u at position 0');
+    });
+  });
+
+  describe('Cache and escape', () => {
+    it('should cache str and bytes patterns separately', async () => {
+      expect((await regex.match('a', 'a'))!.group()).toBe('a');
+      expect((await regex.match(b('a'), b('a')))!.group()).toEqual(b('a'));
+    });
+
+    it('should escape bytes', () => {
+      expect(regex.escape(b('a.\xe9'))).toEqual(b('a\\.\xe9'));
+    });
+  });
+});
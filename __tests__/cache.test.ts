@@ -0,0 +1,66 @@
+// Comprehensive tests for the compiled-pattern cache
+import { describe, it, expect } from 'vitest';
+import { PatternCache, DEFAULT_CACHE_SIZE } from '../src/cache';
+
+describe('PatternCache', () => {
+  it('should default to the size of Python\'s re cache', () => {
+    expect(new PatternCache().info().maxSize).toBe(DEFAULT_CACHE_SIZE);
+    expect(DEFAULT_CACHE_SIZE).toBe(512);
+  });
+
+  it('should create values on a miss and reuse them on a hit', () => {
+    const cache = new PatternCache<object>(4);
+    let created = 0;
+    const create = () => ({ id: ++created });
+
+    const first = cache.get('a', create);
+    const second = cache.get('a', create);
+    expect(second).toBe(first);
+    expect(created).toBe(1);
+    expect(cache.info()).toEqual({ hits: 1, misses: 1, size: 1, maxSize: 4 });
+  });
+
+  it('should evict the least recently used entry', () => {
+    const cache = new PatternCache<string>(2);
+    cache.get('a', () => 'A');
+    cache.get('b', () => 'B');
+    cache.get('a', () => 'A2'); // 'a' is now most recently used
+    cache.get('c', () => 'C'); // evicts 'b'
+
+    expect(cache.get('a', () => 'A3')).toBe('A');
+    expect(cache.get('b', () => 'B2')).toBe('B2');
+    expect(cache.info().size).toBe(2);
+  });
+
+  it('should shrink when resized', () => {
+    const cache = new PatternCache<string>(3);
+    cache.get('a', () => 'A');
+    cache.get('b', () => 'B');
+    cache.get('c', () => 'C');
+    cache.resize(1);
+
+    expect(cache.info().size).toBe(1);
+    expect(cache.get('c', () => 'C2')).toBe('C');
+  });
+
+  it('should not store anything with a size of 0', () => {
+    const cache = new PatternCache<string>(0);
+    cache.get('a', () => 'A');
+    expect(cache.info().size).toBe(0);
+    expect(cache.get('a', () => 'A2')).toBe('A2');
+  });
+
+  it('should reject invalid sizes', () => {
+    const cache = new PatternCache<string>();
+    expect(() => cache.resize(-1)).toThrow('Invalid cache size');
+    expect(() => cache.resize(1.5)).toThrow('Invalid cache size');
+  });
+
+  it('should clear entries and counters', () => {
+    const cache = new PatternCache<string>();
+    cache.get('a', () => 'A');
+    cache.get('a', () => 'A');
+    cache.clear();
+    expect(cache.info()).toEqual({ hits: 0, misses: 0, size: 0, maxSize: DEFAULT_CACHE_SIZE });
+  });
+});
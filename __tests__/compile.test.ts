@@ -1,6 +1,7 @@
 // Comprehensive tests for compilation functionality
 import { describe, it, expect } from 'vitest';
 import { compileRegex, compileRegexPartial, compileRegexAnchored, convertNamedGroups } from '../src/compile';
+import { RegexFlag } from '../src/flags';
 
 describe('Compilation Functionality', () => {
   describe('convertNamedGroups()', () => {
@@ -175,6 +176,11 @@ describe('Compilation Functionality', () => {
       await expect(compileRegexPartial('*invalid')).rejects.toThrow();
     });
 
+    it('should read patterns with the given profile', async () => {
+      await expect(compileRegex('(?P<a>x)|(?P<a>y)', 0, false, {}, 're')).rejects.toThrow('redefinition of group name');
+      expect((await compileRegexPartial('(?P<a>x)|(?P<a>y)', 0, false, {}, 'regex')).test('y', 0)).toBe(true);
+    });
+
     it('should handle very long patterns', async () => {
       const longPattern = 'a'.repeat(1000);
       const regex = await compileRegex(longPattern);
@@ -206,8 +212,30 @@ describe('Compilation Functionality', () => {
       
       expect(regex1.test('non-capturing', 0)).toBe(true);
       expect(regex2.test('word space', 0)).toBe(false); // fullmatch fails due to space
-      expect(regex3.test('word123', 0)).toBe(false);
+      expect(regex3.test('word123', 0)).toBe(true); // \w+ takes every character, as in re.fullmatch
       expect(regex3.test('word', 0)).toBe(true);
     });
+
+    it('should anchor alternations as a whole', async () => {
+      const regex = await compileRegex('a|ab');
+      expect(regex.test('ab', 0)).toBe(true);
+      expect(regex.test('abab', 0)).toBe(false);
+
+      const anchored = await compileRegex('^a|b$');
+      expect(anchored.test('b', 0)).toBe(true);
+      expect(anchored.test('ab', 0)).toBe(false);
+    });
+
+    it('should not match before a trailing newline', async () => {
+      expect((await compileRegex('a')).test('a\n', 0)).toBe(false);
+      expect((await compileRegex('\\d+$')).test('12\n', 0)).toBe(false);
+      expect((await compileRegex('a\\n?')).test('a\n', 0)).toBe(true);
+    });
+
+    it('should close the wrapper after a verbose comment', async () => {
+      const regex = await compileRegex('a # trailing comment', RegexFlag.VERBOSE);
+      expect(regex.test('a', 0)).toBe(true);
+      expect(regex.test('ab', 0)).toBe(false);
+    });
   });
 });
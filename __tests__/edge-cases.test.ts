@@ -70,7 +70,7 @@ describe('Edge Cases and Error Conditions', () => {
     });
 
     it('should handle Unicode edge cases', async () => {
-      const pattern = await regex.compile('(?P<emoji>[\\u{1F600}-\\u{1F64F}])');
+      const pattern = await regex.compile('(?P<emoji>[\\U0001F600-\\U0001F64F])');
       
       expect(pattern.test('😀')).toBe(true);
       expect(pattern.test('😔')).toBe(true);
@@ -91,7 +91,7 @@ describe('Edge Cases and Error Conditions', () => {
       const testString = 'abcdefghijklmnopqrst';
       const match = pattern.match(testString);
       
-      expect(match?.groups).toEqual(expectedGroups);
+      expect(match?.groupdict()).toEqual(expectedGroups);
     });
   });
 
@@ -110,9 +110,9 @@ describe('Edge Cases and Error Conditions', () => {
       const pattern = await regex.compile(nestedPattern);
       const match = pattern.match('test');
       
-      expect(match?.groups.outer).toBe('test');
-      expect(match?.groups.level0).toBe('test');
-      expect(match?.groups.level9).toBe('test');
+      expect(match?.groupdict().outer).toBe('test');
+      expect(match?.groupdict().level0).toBe('test');
+      expect(match?.groupdict().level9).toBe('test');
     });
 
     it('should handle patterns with many alternations', async () => {
@@ -170,9 +170,9 @@ describe('Edge Cases and Error Conditions', () => {
         pattern.match('test')
       ];
       
-      expect(results[0]?.groups.word).toBe('hello');
-      expect(results[1]?.groups.word).toBe('world');
-      expect(results[2]?.groups.word).toBe('test');
+      expect(results[0]?.groupdict().word).toBe('hello');
+      expect(results[1]?.groupdict().word).toBe('world');
+      expect(results[2]?.groupdict().word).toBe('test');
     });
   });
 
@@ -202,9 +202,9 @@ describe('Edge Cases and Error Conditions', () => {
       const match2 = pattern.match('undefined');
       const match3 = pattern.match('');
       
-      expect(match1?.groups.value).toBe('null');
-      expect(match2?.groups.value).toBe('undefined');
-      expect(match3?.groups.value).toBe('');
+      expect(match1?.groupdict().value).toBe('null');
+      expect(match2?.groupdict().value).toBe('undefined');
+      expect(match3?.groupdict().value).toBe('');
     });
   });
 
@@ -291,13 +291,13 @@ describe('Edge Cases and Error Conditions', () => {
       // Optional everything
       const optionalAll = await regex.compile('(?P<opt>\\w*)');
       const match = optionalAll.match('');
-      expect(match?.groups.opt).toBe('');
+      expect(match?.groupdict().opt).toBe('');
     });
 
     it('should handle escape sequences in patterns', async () => {
       const pattern = await regex.compile('(?P<escaped>\\\\\\[\\]\\{\\}\\(\\))');
       const match = pattern.match('\\[]{}()');
-      expect(match?.groups.escaped).toBe('\\[]{}()');
+      expect(match?.groupdict().escaped).toBe('\\[]{}()');
     });
 
     it('should handle patterns with Unicode properties', async () => {
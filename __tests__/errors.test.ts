@@ -0,0 +1,103 @@
+// Comprehensive tests for PatternError (Python re.error compatibility)
+import { describe, it, expect } from 'vitest';
+import { PatternError } from '../src/errors';
+import { translatePattern, sourceOffset } from '../src/translate';
+import { parseTemplate } from '../src/template';
+import { regex } from '../src/regex';
+
+function errorFor(fn: () => unknown): PatternError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof PatternError) return error;
+    throw error;
+  }
+  throw new Error('expected a PatternError');
+}
+
+describe('PatternError', () => {
+  describe('Attributes', () => {
+    it('should format the position like Python', () => {
+      const error = new PatternError('unbalanced parenthesis', 'a)', 1);
+      expect(error.message).toBe('unbalanced parenthesis at position 1');
+      expect(error.msg).toBe('unbalanced parenthesis');
+      expect(error.pattern).toBe('a)');
+      expect(error.pos).toBe(1);
+      expect(error.lineno).toBe(1);
+      expect(error.colno).toBe(2);
+      expect(error.name).toBe('PatternError');
+    });
+
+    it('should add the line and column for multi-line patterns', () => {
+      const error = new PatternError('unterminated character set', '(?x)\n  a\n  [b', 11);
+      expect(error.message).toBe('unterminated character set at position 11 (line 3, column 3)');
+      expect(error.lineno).toBe(3);
+      expect(error.colno).toBe(3);
+    });
+
+    it('should leave the position out when it is unknown', () => {
+      const error = new PatternError('look-behind requires fixed-width pattern');
+      expect(error.message).toBe('look-behind requires fixed-width pattern');
+      expect(error.pos).toBeNull();
+      expect(error.lineno).toBeNull();
+      expect(error.colno).toBeNull();
+    });
+
+    it('should be exposed as regex.error', () => {
+      expect(regex.error).toBe(PatternError);
+      expect(new regex.error('x')).toBeInstanceOf(Error);
+    });
+  });
+
+  describe('Raised errors', () => {
+    it('should be raised by the translator', () => {
+      const error = errorFor(() => translatePattern('a\n(b', 0));
+      expect(error.message).toBe('missing ), unterminated subpattern at position 2 (line 2, column 1)');
+      expect(error.pattern).toBe('a\n(b');
+      expect(error.pos).toBe(2);
+    });
+
+    it('should be raised for bad inline flags', () => {
+      const error = errorFor(() => translatePattern('(?iz)', 0));
+      expect(error.msg).toBe('unknown flag');
+      expect(error.pos).toBe(3);
+    });
+
+    it('should be raised for bad replacement templates', () => {
+      const error = errorFor(() => parseTemplate('\\g<>', 0, {}));
+      expect(error.message).toBe('missing group name at position 3');
+      expect(error.pattern).toBe('\\g<>');
+    });
+
+    it('should report PCRE errors at the offending part of the pattern', async () => {
+      const pattern = '(?P<x>a)(?<=x+)b';
+      const error = await regex.compile(pattern).catch(e => e);
+      expect(error).toBeInstanceOf(regex.error);
+      expect(error.pattern).toBe(pattern);
+      expect(error.pos).toBeGreaterThanOrEqual(8);
+      expect(error.pos).toBeLessThanOrEqual(pattern.length);
+    });
+  });
+
+  describe('sourceOffset()', () => {
+    it('should map offsets through rewritten items', () => {
+      const translated = translatePattern('(?P<x>a){,3}b', 0);
+      expect(translated.pattern).toBe('(?<x>a){0,3}b');
+      expect(sourceOffset(translated, 0, 13)).toBe(0);
+      expect(sourceOffset(translated, 5, 13)).toBe(6);
+      expect(sourceOffset(translated, 12, 13)).toBe(12);
+    });
+
+    it('should keep offsets inside an expanded item on that item', () => {
+      const translated = translatePattern('$x', 0);
+      expect(sourceOffset(translated, 4, 2)).toBe(0);
+      expect(sourceOffset(translated, translated.pattern.length - 1, 2)).toBe(1);
+    });
+
+    it('should account for resolved conditions', () => {
+      const translated = translatePattern('(?P<n>a)?(?(n)b|c)d', 0);
+      const d = translated.pattern.lastIndexOf('d');
+      expect(sourceOffset(translated, d, 19)).toBe(18);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+// Comprehensive tests for Pattern.findall()
+import { describe, it, expect } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('Pattern.findall()', () => {
+  describe('Result shapes', () => {
+    it('should return whole matches when there are no groups', async () => {
+      const pattern = await regex.compile('\\d+');
+      expect(pattern.findall('a1b22c333')).toEqual(['1', '22', '333']);
+      expect(pattern.findall('no digits')).toEqual([]);
+    });
+
+    it('should return the group when there is exactly one', async () => {
+      const pattern = await regex.compile('(?P<volume>\\d+) U\\.S\\.');
+      expect(pattern.findall('See 410 U.S. 113 and 505 U.S. 833')).toEqual(['410', '505']);
+    });
+
+    it('should return tuples when there are several groups', async () => {
+      const pattern = await regex.compile('(\\w)=(\\d)');
+      expect(pattern.findall('a=1 b=2')).toEqual([['a', '1'], ['b', '2']]);
+    });
+
+    it('should report unmatched groups as empty strings', async () => {
+      const pattern = await regex.compile('(a)|b');
+      expect(pattern.findall('ab')).toEqual(['a', '']);
+
+      const tuples = await regex.compile('(a)(x)?');
+      expect(tuples.findall('aa')).toEqual([['a', ''], ['a', '']]);
+    });
+
+    it('should ignore non-capturing groups', async () => {
+      const pattern = await regex.compile('(?:ab)+');
+      expect(pattern.findall('abab x ab')).toEqual(['abab', 'ab']);
+    });
+  });
+
+  describe('Empty matches (Python 3.7+)', () => {
+    it('should allow empty matches next to non-empty ones', async () => {
+      const pattern = await regex.compile('x*');
+      expect(pattern.findall('axbc')).toEqual(['', 'x', '', '', '']);
+    });
+
+    it('should find a non-empty match at the position of a previous empty match', async () => {
+      const pattern = await regex.compile('|a');
+      expect(pattern.findall('a')).toEqual(['', 'a', '']);
+    });
+
+    it('should handle zero-width assertions', async () => {
+      const pattern = await regex.compile('\\b');
+      expect(pattern.findall('ab cd')).toEqual(['', '', '', '']);
+    });
+
+    it('should advance past astral-plane characters', async () => {
+      const pattern = await regex.compile('');
+      expect(pattern.findall('😀a')).toEqual(['', '', '']);
+    });
+  });
+
+  describe('pos and endpos', () => {
+    it('should limit the search to the given range', async () => {
+      const pattern = await regex.compile('\\d');
+      expect(pattern.findall('a1b2c3', 2, 5)).toEqual(['2']);
+      expect(pattern.findall('a1b2c3', 2)).toEqual(['2', '3']);
+    });
+
+    it('should let lookbehind see text before pos', async () => {
+      const pattern = await regex.compile('(?<=a)b');
+      expect(pattern.findall('ab', 1)).toEqual(['b']);
+    });
+
+    it('should not match ^ at pos', async () => {
+      const pattern = await regex.compile('^a');
+      expect(pattern.findall('ba', 1)).toEqual([]);
+    });
+
+    it('should treat endpos as the end of the string', async () => {
+      const pattern = await regex.compile('\\d+$');
+      expect(pattern.findall('12a34', 0, 2)).toEqual(['12']);
+    });
+
+    it('should clamp out-of-range positions', async () => {
+      const pattern = await regex.compile('a');
+      expect(pattern.findall('aaa', -5, 100)).toEqual(['a', 'a', 'a']);
+      expect(pattern.findall('aaa', 2, 1)).toEqual([]);
+    });
+  });
+});
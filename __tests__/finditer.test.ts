@@ -0,0 +1,95 @@
+// Comprehensive tests for Pattern.finditer()
+import { describe, it, expect } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('Pattern.finditer()', () => {
+  describe('Iterator behavior', () => {
+    it('should return an iterable iterator of Match objects', async () => {
+      const pattern = await regex.compile('(?P<num>\\d+)');
+      const iter = pattern.finditer('a1b22c333');
+
+      expect(typeof iter.next).toBe('function');
+      expect(iter[Symbol.iterator]()).toBe(iter);
+
+      const values = [...iter].map(m => m.group('num'));
+      expect(values).toEqual(['1', '22', '333']);
+    });
+
+    it('should produce matches on demand so callers can stop early', async () => {
+      const pattern = await regex.compile('(?P<volume>\\d+) F\\.\\d?d');
+      const document = '1 F.2d '.repeat(10000);
+
+      const first = pattern.finditer(document).next();
+      expect(first.done).toBe(false);
+      expect(first.value?.group('volume')).toBe('1');
+
+      let seen = 0;
+      for (const match of pattern.finditer(document)) {
+        seen++;
+        expect(match.group('volume')).toBe('1');
+        if (seen === 3) break;
+      }
+      expect(seen).toBe(3);
+    });
+
+    it('should check its arguments when called, not on the first next()', async () => {
+      const pattern = await regex.compile('a');
+      expect(() => pattern.finditer(new TextEncoder().encode('a') as any)).toThrow(
+        'cannot use a string pattern on a bytes-like object'
+      );
+      expect(() => pattern.finditer('a', 0, undefined, { matchLimit: 0 })).toThrow(RangeError);
+    });
+
+    it('should be exhausted after the last match', async () => {
+      const pattern = await regex.compile('a');
+      const iter = pattern.finditer('a');
+      expect(iter.next().done).toBe(false);
+      expect(iter.next().done).toBe(true);
+      expect(iter.next().done).toBe(true);
+    });
+  });
+
+  describe('Consistency with search()', () => {
+    it('should report the same named groups as search()', async () => {
+      const pattern = await regex.compile('(?P<volume>\\d+) (?P<reporter>[A-Z][\\w.]*) (?P<page>\\d+)');
+      const text = 'See 123 F.2d 456 and 789 U.S. 101.';
+
+      const first = pattern.finditer(text).next().value;
+      const searched = pattern.search(text);
+      expect(first?.groupdict()).toEqual(searched?.groupdict());
+
+      const reporters = [...pattern.finditer(text)].map(m => m.groupdict().reporter);
+      expect(reporters).toEqual(['F.2d', 'U.S.']);
+    });
+
+    it('should agree with findall()', async () => {
+      const pattern = await regex.compile('x*');
+      const fromIter = [...pattern.finditer('axbc')].map(m => m.group(0));
+      expect(fromIter).toEqual(pattern.findall('axbc'));
+    });
+  });
+
+  describe('Empty matches and astral characters', () => {
+    it('should advance past empty matches', async () => {
+      const pattern = await regex.compile('|a');
+      expect([...pattern.finditer('a')].map(m => m.group(0))).toEqual(['', 'a', '']);
+    });
+
+    it('should advance past astral-plane characters', async () => {
+      const pattern = await regex.compile('\\w*');
+      const text = 'a😀b😀';
+      expect([...pattern.finditer(text)].map(m => m.group(0))).toEqual(['a', '', 'b', '', '']);
+
+      const emoji = await regex.compile('(?P<e>😀)');
+      expect([...emoji.finditer(text)].map(m => m.group('e'))).toEqual(['😀', '😀']);
+    });
+  });
+
+  describe('pos and endpos', () => {
+    it('should respect pos and endpos', async () => {
+      const pattern = await regex.compile('\\d');
+      expect([...pattern.finditer('a1b2c3', 2, 5)].map(m => m.group(0))).toEqual(['2']);
+      expect([...pattern.finditer('a1b2c3', 4, 2)]).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+// Comprehensive tests for Python-style regex flags
+import { describe, it, expect } from 'vitest';
+import { RegexFlag, parseFlags } from '../src/flags';
+import { regex } from '../src/regex';
+
+describe('Regex Flags', () => {
+  describe('RegexFlag values', () => {
+    it('should use the same numeric values as Python re.RegexFlag', () => {
+      expect(RegexFlag.NOFLAG).toBe(0);
+      expect(RegexFlag.IGNORECASE).toBe(2);
+      expect(RegexFlag.MULTILINE).toBe(8);
+      expect(RegexFlag.DOTALL).toBe(16);
+      expect(RegexFlag.UNICODE).toBe(32);
+      expect(RegexFlag.VERBOSE).toBe(64);
+      expect(RegexFlag.ASCII).toBe(256);
+    });
+
+    it('should provide single-letter aliases', () => {
+      expect(RegexFlag.I).toBe(RegexFlag.IGNORECASE);
+      expect(RegexFlag.M).toBe(RegexFlag.MULTILINE);
+      expect(RegexFlag.S).toBe(RegexFlag.DOTALL);
+      expect(RegexFlag.X).toBe(RegexFlag.VERBOSE);
+      expect(RegexFlag.A).toBe(RegexFlag.ASCII);
+      expect(RegexFlag.U).toBe(RegexFlag.UNICODE);
+    });
+
+    it('should expose flags on the regex object like the re module', () => {
+      expect(regex.I).toBe(RegexFlag.IGNORECASE);
+      expect(regex.MULTILINE).toBe(RegexFlag.MULTILINE);
+      expect(regex.RegexFlag).toBe(RegexFlag);
+    });
+  });
+
+  describe('parseFlags()', () => {
+    it('should accept combined numeric flags', () => {
+      expect(parseFlags(RegexFlag.I | RegexFlag.M)).toBe(10);
+      expect(parseFlags(RegexFlag.NOFLAG)).toBe(0);
+      expect(parseFlags(undefined)).toBe(0);
+    });
+
+    it('should accept the string form', () => {
+      expect(parseFlags('i')).toBe(RegexFlag.IGNORECASE);
+      expect(parseFlags('imsx')).toBe(RegexFlag.I | RegexFlag.M | RegexFlag.S | RegexFlag.X);
+      expect(parseFlags('a')).toBe(RegexFlag.ASCII);
+      expect(parseFlags('')).toBe(0);
+    });
+
+    it('should reject unknown flags', () => {
+      expect(() => parseFlags('q')).toThrow(/Unknown regex flag/);
+      expect(() => parseFlags(1 << 20)).toThrow(/Invalid regex flags/);
+      expect(() => parseFlags(-1)).toThrow(/Invalid regex flags/);
+    });
+
+    it('should reject combinations Python rejects for str patterns', () => {
+      expect(() => parseFlags(RegexFlag.ASCII | RegexFlag.UNICODE)).toThrow('ASCII and UNICODE flags are incompatible');
+      expect(() => parseFlags('au')).toThrow('ASCII and UNICODE flags are incompatible');
+      expect(() => parseFlags(RegexFlag.LOCALE)).toThrow('cannot use LOCALE flag with a str pattern');
+    });
+
+    it('should follow the bytes pattern rules when asked', () => {
+      expect(parseFlags(RegexFlag.LOCALE, true)).toBe(RegexFlag.LOCALE);
+      expect(parseFlags('Li', true)).toBe(RegexFlag.LOCALE | RegexFlag.IGNORECASE);
+      expect(() => parseFlags(RegexFlag.UNICODE, true)).toThrow('cannot use UNICODE flag with a bytes pattern');
+      expect(() => parseFlags('aL', true)).toThrow('ASCII and LOCALE flags are incompatible');
+    });
+  });
+
+  describe('regex.compile() with flags', () => {
+    it('should support IGNORECASE', async () => {
+      const pattern = await regex.compile('hello', regex.IGNORECASE);
+      expect(pattern.fullmatch('HeLLo')).not.toBeNull();
+
+      const sameWithString = await regex.compile('hello', 'i');
+      expect(sameWithString.fullmatch('HELLO')).not.toBeNull();
+
+      const caseSensitive = await regex.compile('hello');
+      expect(caseSensitive.fullmatch('HELLO')).toBeNull();
+    });
+
+    it('should support MULTILINE', async () => {
+      const pattern = await regex.compile('^(?P<word>\\w+)$', regex.M);
+      expect(pattern.search('first\nsecond')?.group('word')).toBe('first');
+
+      const singleLine = await regex.compile('^(?P<word>\\w+)$');
+      expect(singleLine.search('first\nsecond')).toBeNull();
+    });
+
+    it('should support DOTALL', async () => {
+      const pattern = await regex.compile('a.b', regex.S);
+      expect(pattern.fullmatch('a\nb')).not.toBeNull();
+
+      const noDotall = await regex.compile('a.b');
+      expect(noDotall.fullmatch('a\nb')).toBeNull();
+    });
+
+    it('should support VERBOSE', async () => {
+      const pattern = await regex.compile(`
+        (?P<volume>\\d+)   # volume number
+        \\s+
+        (?P<page>\\d+)     # page number
+      `, regex.VERBOSE);
+      const match = pattern.fullmatch('123 456');
+      expect(match?.group('volume')).toBe('123');
+      expect(match?.group('page')).toBe('456');
+    });
+
+    it('should combine flags with bitwise-or', async () => {
+      const pattern = await regex.compile('^abc.def$', regex.I | regex.M | regex.S);
+      expect(pattern.search('xyz\nABC\nDEF\n')).not.toBeNull();
+    });
+
+    it('should reject invalid flags at compile time', async () => {
+      await expect(regex.compile('abc', 'z')).rejects.toThrow();
+      await expect(regex.compile('abc', regex.A | regex.U)).rejects.toThrow();
+    });
+  });
+
+  describe('Inline flags', () => {
+    it('should apply global inline flags', async () => {
+      const pattern = await regex.compile('(?i)foo');
+      expect(pattern.fullmatch('FOO')).not.toBeNull();
+
+      const verbose = await regex.compile('(?x) (?P<num> \\d+ )  # digits');
+      expect(verbose.fullmatch('42')?.group('num')).toBe('42');
+    });
+
+    it('should apply scoped inline flags', async () => {
+      const dotall = await regex.compile('a(?s:.)b.');
+      expect(dotall.fullmatch('a\nbc')).not.toBeNull();
+      expect(dotall.fullmatch('a\nb\n')).toBeNull();
+
+      const caseSensitivePart = await regex.compile('foo(?-i:Bar)', regex.I);
+      expect(caseSensitivePart.fullmatch('FOOBar')).not.toBeNull();
+      expect(caseSensitivePart.fullmatch('FOOBAR')).toBeNull();
+    });
+
+    it('should support scoped ASCII semantics', async () => {
+      const pattern = await regex.compile('(?a:\\w+)-\\w+', regex.UNICODE);
+      expect(pattern.fullmatch('abc-café')).not.toBeNull();
+      expect(pattern.fullmatch('café-abc')).toBeNull();
+    });
+
+    it('should reject global flags after the start of the pattern', async () => {
+      await expect(regex.compile('foo(?i)bar')).rejects.toThrow('global flags not at the start of the expression');
+    });
+
+    it('should expose the flags in effect on the Pattern', async () => {
+      expect((await regex.compile('foo')).flags).toBe(regex.UNICODE);
+      expect((await regex.compile('(?i)foo')).flags).toBe(regex.I | regex.U);
+      expect((await regex.compile('(?a)foo', regex.M)).flags).toBe(regex.A | regex.M);
+      expect((await regex.compile('(?s:foo)')).flags).toBe(regex.UNICODE);
+    });
+  });
+});
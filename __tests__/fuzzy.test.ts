@@ -0,0 +1,186 @@
+// Comprehensive tests for regex-module fuzzy matching
+import { describe, it, expect, beforeAll } from 'vitest';
+import { compileRegexSync } from '../src/compile';
+import { PatternError, RegexTimeoutError } from '../src/errors';
+import { RegexFlag } from '../src/flags';
+import { regex } from '../src/regex';
+
+const fuzzy = (m: { span(): [number, number]; fuzzy_counts: unknown; fuzzy_changes: unknown } | null) =>
+  m && { span: m.span(), counts: m.fuzzy_counts, changes: m.fuzzy_changes };
+
+describe('Fuzzy matching', () => {
+  beforeAll(async () => {
+    await regex.init();
+  });
+
+  describe('Constraints', () => {
+    it('should allow any kind of error with e', async () => {
+      expect(fuzzy(await regex.search('(?:cat){e<=1}', 'a cut'))).toEqual({ span: [2, 5], counts: [1, 0, 0], changes: [[3], [], []] });
+      expect(fuzzy(await regex.search('(?:cat){e<=1}', 'xx cut'))).toEqual({ span: [3, 6], counts: [1, 0, 0], changes: [[4], [], []] });
+      expect(await regex.search('(?:cat){e<=1}', 'dog')).toBeNull();
+    });
+
+    it('should only allow the kinds of error it names', async () => {
+      expect(fuzzy(await regex.search('(?:cat){s<=1}', 'a cut'))!.changes).toEqual([[3], [], []]);
+      expect(fuzzy(await regex.search('(?:cat){i<=1}', 'a cart'))).toEqual({ span: [2, 6], counts: [0, 1, 0], changes: [[], [4], []] });
+      expect(fuzzy(await regex.search('(?:cat){d<=1}', 'a ct'))).toEqual({ span: [2, 4], counts: [0, 0, 1], changes: [[], [], [3]] });
+      expect(await regex.search('(?:cat){s<=1}', 'a ct')).toBeNull();
+      expect(await regex.search('(?:cat){i<=1,e<=2}', 'aXc')).toBeNull();
+      expect((await regex.fullmatch('(?:hello){i<=1,d<=1,s<=2}', 'jallo'))!.fuzzy_changes).toEqual([[0, 1], [], []]);
+    });
+
+    it('should weigh errors in a cost equation', async () => {
+      expect(fuzzy(await regex.search('(?:cat){2i+2d+1s<=4}', 'dog'))!.counts).toEqual([3, 0, 0]);
+      expect(fuzzy(await regex.search('(?:cat){2i+2d+1s<=4}', 'ca'))!.counts).toEqual([0, 0, 1]);
+      expect(await regex.search('(?:cat){2i+2d+1s<=1}', 'ca')).toBeNull();
+    });
+
+    it('should only substitute and insert characters that pass the test', async () => {
+      expect((await regex.search('(?:cat){e<=1:[a-z]}', 'c4t cxt'))!.span()).toEqual([4, 7]);
+    });
+
+    it('should give each repeat of a fuzzy item its own limits', async () => {
+      expect(fuzzy(await regex.search('(a{e<=1})+', 'abxa'))).toEqual({ span: [0, 4], counts: [2, 0, 0], changes: [[1, 2], [], []] });
+    });
+
+    it('should count errors of a nested item against the outer one', async () => {
+      expect(await regex.search('(?:a(?:bc){e<=1}d){e<=1}', 'bd')).toBeNull();
+      expect((await regex.search('(?:a(?:bc){e<=1}d){e<=1}', 'abd'))!.fuzzy_changes).toEqual([[], [], [2]]);
+    });
+
+    it('should require the minimum number of errors', async () => {
+      expect((await regex.search('(?:cat){1<=e<=2}', 'cat'))!.span()).toEqual([1, 3]);
+    });
+  });
+
+  describe('Order of matching', () => {
+    it('should try substitution, then insertion, then deletion', async () => {
+      expect(fuzzy(await regex.match('(?:cat){e<=1}', 'cart'))!.span).toEqual([0, 3]);
+      expect((await regex.match('(?:cat){e<=1}', 'cart'))!.fuzzy_changes).toEqual([[2], [], []]);
+      expect((await regex.fullmatch('(?:cat){e<=1}', 'ct'))!.fuzzy_changes).toEqual([[], [], [1]]);
+    });
+
+    it('should insert at the end of an item when what follows needs it', async () => {
+      expect((await regex.search('x(?:cat){e<=1}y', 'xcatty'))!.fuzzy_changes).toEqual([[], [4], []]);
+      expect((await regex.fullmatch('(?:cat){e<=1}', 'catx'))!.fuzzy_changes).toEqual([[], [3], []]);
+    });
+
+    it('should give deletion positions after earlier deletions', async () => {
+      expect(fuzzy(await regex.search('(?:abcde){e<=2}', 'ace'))).toEqual({ span: [0, 3], counts: [0, 0, 2], changes: [[], [], [1, 3]] });
+    });
+
+    it('should not insert a character where a search was asked to start', async () => {
+      expect((await regex.search('(?:cat){e<=1}', 'xcat'))!.span()).toEqual([1, 4]);
+      expect((await regex.compile('(?:cat){e<=1}')).search('the cat', 3)!.span()).toEqual([4, 7]);
+      expect(fuzzy(await regex.match('(?:cat){e<=1}', 'xcat'))).toEqual({ span: [0, 4], counts: [0, 1, 0], changes: [[], [0], []] });
+      expect((await regex.search('^(?:cat){e<=1}', 'xcat'))!.span()).toEqual([0, 4]);
+    });
+
+    it('should let later start positions begin with an inserted character', async () => {
+      expect(fuzzy(await regex.search('(?:cat){e<=1}', 'the cat'))).toEqual({ span: [3, 7], counts: [0, 1, 0], changes: [[], [3], []] });
+      expect((await regex.compile('(?:cat){e<=1}')).search('the cat', 1)!.span()).toEqual([3, 7]);
+    });
+
+    it('should find each match after the last', async () => {
+      const matches = [...(await regex.finditer('(?:cat){e<=1}', 'a cat bat'))].map(fuzzy);
+      expect(matches).toEqual([
+        { span: [1, 5], counts: [0, 1, 0], changes: [[], [1], []] },
+        { span: [6, 9], counts: [1, 0, 0], changes: [[6], [], []] },
+      ]);
+      expect(await regex.findall('(?:cat){e<=1}', 'the cat sat on a hat')).toEqual([' cat', 'sat', 'hat']);
+      expect(await regex.sub('(?:colour){e<=1}', 'X', 'color colour culour clr')).toBe('X X X clr');
+    });
+  });
+
+  describe('BESTMATCH and ENHANCEMATCH', () => {
+    it('should find the first match by default', async () => {
+      expect(fuzzy(await regex.search('(?:cat){e<=1}', 'ccat'))).toEqual({ span: [0, 4], counts: [0, 1, 0], changes: [[], [1], []] });
+      expect((await regex.search('(?:cat){e<=1}', 'cacat'))!.span()).toEqual([0, 3]);
+    });
+
+    it('should find the best match with BESTMATCH', async () => {
+      expect(fuzzy(await regex.search('(?:cat){e<=1}', 'ccat', RegexFlag.BESTMATCH))!.counts).toEqual([0, 0, 0]);
+      expect((await regex.search('(?:cat){e<=1}', 'cacat', RegexFlag.B))!.span()).toEqual([2, 5]);
+      expect((await regex.search('(?b)(?:cat){e<=1}', 'cacat'))!.span()).toEqual([2, 5]);
+      expect((await regex.search('(?:cat){e<=1}', 'cxatt', 'b'))!.span()).toEqual([0, 4]);
+    });
+
+    it('should improve the first match with ENHANCEMATCH', async () => {
+      expect((await regex.search('(?:cat){e<=1}', 'ccat', RegexFlag.ENHANCEMATCH))!.span()).toEqual([1, 4]);
+      expect((await regex.search('(?e)(?:cat){e<=1}', 'cacat'))!.span()).toEqual([0, 3]);
+    });
+
+    it('should make b and e global flags', async () => {
+      expect((await regex.compile('(?b:cat){e<=1}')).flags & RegexFlag.BESTMATCH).toBeTruthy();
+      await expect(regex.compile('(?-b:cat)')).rejects.toThrow('bad inline flags: cannot turn off global flag at position 4');
+    });
+  });
+
+  describe('Matches', () => {
+    it('should report no errors for exact matches', async () => {
+      expect(fuzzy(await regex.search('(?:cat){e<=1}', 'cat'))!.counts).toEqual([0, 0, 0]);
+      expect(fuzzy(await regex.search('cat', 'cat'))).toEqual({ span: [0, 3], counts: [0, 0, 0], changes: [[], [], []] });
+    });
+
+    it('should capture groups', async () => {
+      const m = (await regex.search('(\\w+)@(?:example){e<=2}\\.com', 'mail bob@exampel.com now'))!;
+      expect(m.span()).toEqual([5, 20]);
+      expect(m.groups()).toEqual(['bob']);
+      expect(m.fuzzy_changes).toEqual([[14, 15], [], []]);
+    });
+
+    it('should match backreferences with errors', async () => {
+      expect(fuzzy(await regex.search('(a)(?:b\\1){e<=1}', 'ab '))).toEqual({ span: [0, 3], counts: [1, 0, 0], changes: [[2], [], []] });
+    });
+
+    it('should follow flags and work on bytes', async () => {
+      expect(fuzzy(await regex.search('(?i)(?:hello){e<=1}', 'say HALLO'))!.counts).toEqual([1, 0, 0]);
+      const m = (await regex.search(new TextEncoder().encode('(?:cat){e<=1}'), new TextEncoder().encode('a cot')))!;
+      expect(m.group()).toEqual(new TextEncoder().encode('cot'));
+      expect(m.fuzzy_changes).toEqual([[3], [], []]);
+    });
+
+    it('should apply match limits', async () => {
+      const pattern = await regex.compile('(?:x){e<=1}(a+)+b', 0, { matchLimit: 10000 });
+      expect(() => pattern.search('x' + 'a'.repeat(40) + 'c')).toThrow(RegexTimeoutError);
+    });
+
+    it('should give each start position its own match limit', async () => {
+      const pattern = await regex.compile('(?:Ala\\. Admin\\. Code){e<=3}', 0, { matchLimit: 10000 });
+      expect(pattern.search('x'.repeat(5000) + 'Ala. Admn. Code')!.span()).toEqual([4998, 5015]);
+    });
+  });
+
+  describe('Syntax', () => {
+    it.each([
+      ['a*{e<=1}', 'nothing for fuzzy constraint at position 2'],
+      ['{e<=1}', 'nothing for fuzzy constraint at position 0'],
+      ['a{e<=1}{e<=1}', 'nothing for fuzzy constraint at position 7'],
+      ['a{e<=1}?', 'multiple repeat at position 7'],
+      ['a{e<=x}', 'bad fuzzy cost limit at position 5'],
+      ['a{2<=e<=1}', 'bad fuzzy cost limit at position 8'],
+      ['a{e<=1', 'expected } at position 6'],
+      ['a{e<=1:}', 'expected } at position 8'],
+      ['a{2i+2i<=3}', 'repeated fuzzy cost at position 7'],
+      ['a{1i<=3,2d<=3}', 'more than one cost equation at position 8'],
+    ])('should reject %s', async (pattern, message) => {
+      await expect(regex.compile(pattern)).rejects.toThrow(new PatternError(message.replace(/ at position \d+$/, ''), pattern, Number(/\d+$/.exec(message)![0])));
+    });
+
+    it('should read other braces as literals', async () => {
+      expect((await regex.search('a{x<=1}', 'a{x<=1}'))!.group()).toBe('a{x<=1}');
+      expect((await regex.search('a{e<=1,}', 'a{e<=1,}'))!.group()).toBe('a{e<=1,}');
+    });
+
+    it('should leave fuzzy syntax literal in the re profile', async () => {
+      const pattern = await regex.compile('a{e<=1}', 0, { profile: 're' });
+      expect(pattern.search('a{e<=1}')!.group()).toBe('a{e<=1}');
+      expect(pattern.search('b')).toBeNull();
+      await expect(regex.compile('(?b)a', 0, { profile: 're' })).rejects.toThrow(PatternError);
+    });
+
+    it('should not compile fuzzy patterns to PCRE regexes', () => {
+      expect(() => compileRegexSync('(?:cat){e<=1}')).toThrow('fuzzy matching needs regex.compile(), not a PCRE regex');
+    });
+  });
+});
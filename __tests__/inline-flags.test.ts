@@ -0,0 +1,129 @@
+// Comprehensive tests for Python inline flag translation
+import { describe, it, expect } from 'vitest';
+import { translatePattern } from '../src/translate';
+import { RegexFlag } from '../src/flags';
+
+describe('Inline Flag Translation', () => {
+  describe('Global inline flags', () => {
+    it('should fold global flags into the compile flags', () => {
+      expect(translatePattern('(?i)foo', 0)).toMatchObject({ pattern: 'foo', flags: RegexFlag.I });
+      expect(translatePattern('(?im)foo', 0).flags).toBe(RegexFlag.I | RegexFlag.M);
+      expect(translatePattern('(?i)(?s)foo', RegexFlag.M).flags).toBe(RegexFlag.I | RegexFlag.S | RegexFlag.M);
+    });
+
+    it('should enable verbose parsing for the rest of the pattern', () => {
+      const result = translatePattern('(?x) a  b # comment with (?i)\n c', 0);
+      expect(result.flags).toBe(RegexFlag.VERBOSE);
+      expect(result.pattern).toBe(' a  b # comment with (?i)\n c');
+    });
+
+    it('should accept (?a) and (?u)', () => {
+      expect(translatePattern('(?a)\\w+', 0).flags).toBe(RegexFlag.ASCII);
+      expect(translatePattern('(?u)\\w+', 0)).toMatchObject({ pattern: '\\w+', flags: RegexFlag.UNICODE, ucp: true });
+    });
+
+    it('should use Unicode semantics unless ASCII is requested', () => {
+      expect(translatePattern('\\w+', 0).ucp).toBe(true);
+      expect(translatePattern('\\w+', RegexFlag.ASCII).ucp).toBe(false);
+      expect(translatePattern('(?a)\\w+', 0)).toMatchObject({ pattern: '\\w+', flags: RegexFlag.ASCII, ucp: false });
+      expect(() => translatePattern('(?a)\\w', RegexFlag.UNICODE)).toThrow('ASCII and UNICODE flags are incompatible');
+    });
+
+    it('should reject global flags that are not at the start', () => {
+      expect(() => translatePattern('foo(?i)', 0)).toThrow('global flags not at the start of the expression at position 3');
+      expect(() => translatePattern('a|(?i)b', 0)).toThrow('global flags not at the start of the expression');
+      expect(() => translatePattern('((?i)a)', 0)).toThrow('global flags not at the start of the expression');
+    });
+
+    it('should count capturing groups', () => {
+      expect(translatePattern('(a)(?:b)(?<name>c)(?=d)(?<=e)(?<!f)', 0).groups).toBe(2);
+      expect(translatePattern('(?P<x>a)\\(b\\)[(]', 0).groups).toBe(1);
+      expect(translatePattern('(?x) a # (not a group)\n (b)', 0).groups).toBe(1);
+    });
+
+    it('should ignore flag-like text inside classes and escapes', () => {
+      expect(translatePattern('[(?i)]', 0)).toMatchObject({ pattern: '[(?i)]', flags: 0, groups: 0 });
+      expect(translatePattern('\\(?i\\)', 0)).toMatchObject({ pattern: '\\(?i\\)', flags: 0, groups: 0 });
+    });
+  });
+
+  describe('Scoped inline flags', () => {
+    it('should pass PCRE-compatible scoped flags through', () => {
+      expect(translatePattern('(?s:.*)', 0).pattern).toBe('(?s:.*)');
+      expect(translatePattern('(?-i:Bar)', RegexFlag.I).pattern).toBe('(?-i:Bar)');
+      expect(translatePattern('(?i-s:a.b)', 0).pattern).toBe('(?i-s:a.b)');
+      expect(translatePattern('(?s:.*)', 0).flags).toBe(0);
+    });
+
+    it('should emulate (?a:...) inside a Unicode pattern', () => {
+      const result = translatePattern('\\w(?a:\\w\\d[\\s])\\w', RegexFlag.UNICODE);
+      expect(result.ucp).toBe(true);
+      expect(result.pattern).toBe('\\w(?:[a-zA-Z0-9_][0-9][ \\t\\n\\r\\f\\x0b])\\w');
+    });
+
+    it('should emulate (?a:...) inside a default pattern', () => {
+      const result = translatePattern('(?a:\\w)\\w', 0);
+      expect(result.ucp).toBe(true);
+      expect(result.pattern).toBe('(?:[a-zA-Z0-9_])\\w');
+    });
+
+    it('should emulate (?u:...) after a global (?a)', () => {
+      const result = translatePattern('(?a)\\d(?u:\\d)', 0);
+      expect(result.ucp).toBe(true);
+      expect(result.pattern).toBe('[0-9](?:\\d)');
+    });
+
+    it('should emulate (?u:...) inside an ASCII pattern', () => {
+      const result = translatePattern('\\w(?u:\\w)', RegexFlag.ASCII);
+      expect(result.ucp).toBe(true);
+      expect(result.pattern).toBe('[a-zA-Z0-9_](?:\\w)');
+    });
+
+    it('should spell out ASCII word boundaries when UCP is on', () => {
+      const result = translatePattern('(?a:\\bx)', RegexFlag.UNICODE);
+      expect(result.pattern).toContain('(?<=[a-zA-Z0-9_])');
+      expect(result.pattern).not.toContain('\\b');
+    });
+
+    it('should keep \\b inside a class as backspace', () => {
+      expect(translatePattern('(?a:[\\b])', RegexFlag.UNICODE).pattern).toBe('(?:[\\b])');
+    });
+
+    it('should restore the outer scope after the group closes', () => {
+      const result = translatePattern('(?a:(\\d))\\d', RegexFlag.UNICODE);
+      expect(result.pattern).toBe('(?:([0-9]))\\d');
+    });
+  });
+
+  describe('Python error behavior', () => {
+    it('should reject the L flag for str patterns', () => {
+      expect(() => translatePattern('(?L)a', 0)).toThrow("bad inline flags: cannot use 'L' flag with a str pattern");
+      expect(() => translatePattern('(?L:a)', 0)).toThrow("cannot use 'L' flag with a str pattern");
+    });
+
+    it('should reject incompatible type flags', () => {
+      expect(() => translatePattern('(?au)a', 0)).toThrow("bad inline flags: flags 'a', 'u' and 'L' are incompatible");
+      expect(() => translatePattern('(?a)a', RegexFlag.UNICODE)).toThrow('ASCII and UNICODE flags are incompatible');
+    });
+
+    it('should reject turning off type flags', () => {
+      expect(() => translatePattern('(?-a:a)', 0)).toThrow("bad inline flags: cannot turn off flags 'a', 'u' and 'L' at position 4");
+      expect(() => translatePattern('(?a-u:x)', 0)).toThrow("bad inline flags: cannot turn off flags 'a', 'u' and 'L' at position 5");
+      expect(() => translatePattern('(?-ia:x)', 0)).toThrow("bad inline flags: cannot turn off flags 'a', 'u' and 'L' at position 5");
+    });
+
+    it('should reject a flag turned on and off', () => {
+      expect(() => translatePattern('(?i-i:a)', 0)).toThrow('bad inline flags: flag turned on and off at position 5');
+      expect(() => translatePattern('(?im-mi:a)', 0)).toThrow('bad inline flags: flag turned on and off at position 7');
+    });
+
+    it('should reject malformed flag groups', () => {
+      expect(() => translatePattern('(?i', 0)).toThrow('missing -, : or )');
+      expect(() => translatePattern('(?iz)', 0)).toThrow('unknown flag');
+      expect(() => translatePattern('(?i!)', 0)).toThrow('missing -, : or )');
+      expect(() => translatePattern('(?-', 0)).toThrow('missing flag');
+      expect(() => translatePattern('(?-)', 0)).toThrow('missing flag');
+      expect(() => translatePattern('(?-i)', 0)).toThrow('missing :');
+    });
+  });
+});
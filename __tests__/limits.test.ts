@@ -0,0 +1,142 @@
+// Comprehensive tests for match limits and timeouts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RegexTimeoutError } from '../src/errors';
+import { regex } from '../src/regex';
+
+// Fails after exponential backtracking at every start position
+const CATASTROPHIC = '(a+)+$';
+const SUBJECT = 'a'.repeat(30) + '!';
+
+function limitErrorFor(fn: () => unknown): RegexTimeoutError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof RegexTimeoutError) return error;
+    throw error;
+  }
+  throw new Error('expected a RegexTimeoutError');
+}
+
+describe('Match limits', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('RegexTimeoutError', () => {
+    it('should say which limit was hit', () => {
+      const error = new RegexTimeoutError('matchLimit', 10000);
+      expect(error.message).toBe('match limit exceeded (matchLimit: 10000)');
+      expect(error.limit).toBe('matchLimit');
+      expect(error.value).toBe(10000);
+      expect(error.name).toBe('RegexTimeoutError');
+      expect(error).toBeInstanceOf(Error);
+    });
+
+    it('should leave the value out for built-in limits', () => {
+      expect(new RegexTimeoutError('recursionLimit').message).toBe('recursion limit exceeded');
+      expect(new RegexTimeoutError('timeoutMs', 50).message).toBe('regex timed out (timeoutMs: 50)');
+    });
+
+    it('should be exposed on regex', () => {
+      expect(regex.RegexTimeoutError).toBe(RegexTimeoutError);
+    });
+  });
+
+  describe('matchLimit and recursionLimit', () => {
+    it('should stop catastrophic backtracking with a per-pattern match limit', async () => {
+      const pattern = await regex.compile(CATASTROPHIC, 0, { matchLimit: 10000 });
+      const error = limitErrorFor(() => pattern.search(SUBJECT));
+      expect(error.limit).toBe('matchLimit');
+      expect(error.value).toBe(10000);
+    });
+
+    it('should leave ordinary matches alone', async () => {
+      const pattern = await regex.compile('(\\w+)@(\\w+)', 0, { matchLimit: 10000, recursionLimit: 1000 });
+      expect(pattern.search('mail user@host')!.group(2)).toBe('host');
+      expect(pattern.findall('a@b c@d')).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    it('should take per-call limits over the pattern limits', async () => {
+      const pattern = await regex.compile(CATASTROPHIC);
+      expect(limitErrorFor(() => pattern.match(SUBJECT, 0, undefined, { matchLimit: 5000 })).value).toBe(5000);
+      expect(limitErrorFor(() => pattern.findall(SUBJECT, 0, undefined, { matchLimit: 5000 })).limit).toBe('matchLimit');
+      expect(limitErrorFor(() => pattern.sub('x', SUBJECT, 0, { matchLimit: 5000 })).limit).toBe('matchLimit');
+      expect(limitErrorFor(() => pattern.split(SUBJECT, 0, { matchLimit: 5000 })).limit).toBe('matchLimit');
+    });
+
+    it('should keep applying per-call limits after many different ones', async () => {
+      const pattern = await regex.compile(CATASTROPHIC, 0, { matchLimit: 10000 });
+      for (let limit = 5000; limit < 5020; limit++) {
+        expect(limitErrorFor(() => pattern.search(SUBJECT, 0, undefined, { matchLimit: limit })).value).toBe(limit);
+      }
+      expect(limitErrorFor(() => pattern.search(SUBJECT, 0, undefined, { matchLimit: 5000 })).value).toBe(5000);
+      expect(limitErrorFor(() => pattern.search(SUBJECT)).value).toBe(10000);
+    });
+
+    it('should report the recursion limit', async () => {
+      const pattern = await regex.compile('(?:(a)|b)*c', 0, { recursionLimit: 10 });
+      const error = limitErrorFor(() => pattern.search('ab'.repeat(100) + 'c'));
+      expect(error.limit).toBe('recursionLimit');
+    });
+
+    it('should apply module-function limits without caching them', async () => {
+      await expect(regex.search(CATASTROPHIC, SUBJECT, 0, { matchLimit: 5000 })).rejects.toThrow(RegexTimeoutError);
+      expect(await regex.search(CATASTROPHIC, 'aaa')).not.toBeNull();
+    });
+
+    it('should apply lexicon limits to a Scanner', async () => {
+      await regex.init();
+      const scanner = new regex.Scanner([[CATASTROPHIC, 'x']], 0, { matchLimit: 5000 });
+      expect(() => scanner.scan(SUBJECT)).toThrow(RegexTimeoutError);
+    });
+
+    it('should reject invalid limits', async () => {
+      await expect(regex.compile('a', 0, { matchLimit: 0 })).rejects.toThrow(RangeError);
+      await expect(regex.compile('a', 0, { recursionLimit: 1.5 })).rejects.toThrow('recursionLimit must be a positive integer');
+      await expect(regex.compile('a', 0, { timeoutMs: -1 })).rejects.toThrow('timeoutMs must be a non-negative number');
+    });
+
+    it('should reject limits above the ones PCRE already applies', async () => {
+      await expect(regex.compile('a', 0, { matchLimit: 10000001 })).rejects.toThrow("matchLimit must be at most 10000000, PCRE's built-in limit");
+      await expect(regex.compile('a', 0, { recursionLimit: 10000001 })).rejects.toThrow(RangeError);
+      expect((await regex.compile('a', 0, { matchLimit: 10000000 })).search('a')).not.toBeNull();
+    });
+  });
+
+  describe('timeoutMs', () => {
+    it('should throw once the deadline has passed', async () => {
+      const pattern = await regex.compile('a', 0, { timeoutMs: 50 });
+      vi.spyOn(Date, 'now').mockReturnValueOnce(0).mockReturnValue(100);
+      const error = limitErrorFor(() => pattern.findall('aaa'));
+      expect(error.limit).toBe('timeoutMs');
+      expect(error.value).toBe(50);
+    });
+
+    it('should count time spent in replacement functions', async () => {
+      const pattern = await regex.compile('a');
+      let now = 0;
+      vi.spyOn(Date, 'now').mockImplementation(() => now);
+      const slow = () => {
+        now += 30;
+        return 'b';
+      };
+      expect(pattern.sub(slow, 'aaa', 0, { timeoutMs: 100 })).toBe('bbb');
+      now = 0;
+      expect(() => pattern.sub(slow, 'aaaaaa', 0, { timeoutMs: 100 })).toThrow('regex timed out (timeoutMs: 100)');
+    });
+
+    it('should start the clock when finditer() is called', async () => {
+      const pattern = await regex.compile('a', 0, { timeoutMs: 50 });
+      let now = 0;
+      vi.spyOn(Date, 'now').mockImplementation(() => now);
+      const iter = pattern.finditer('aaa');
+      now = 100;
+      expect(() => iter.next()).toThrow('regex timed out (timeoutMs: 50)');
+    });
+
+    it('should not time out within the budget', async () => {
+      const pattern = await regex.compile('\\d+', 0, { timeoutMs: 60000 });
+      expect(pattern.findall('1 22 333')).toEqual(['1', '22', '333']);
+    });
+  });
+});
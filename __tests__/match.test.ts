@@ -0,0 +1,179 @@
+// Comprehensive tests for the Match object (Python re.Match compatibility)
+import { describe, it, expect } from 'vitest';
+import { regex } from '../src/regex';
+
+const CITATION = '(?P<volume>\\d+) (?P<reporter>[A-Z][\\w.]*)(?: (?P<page>\\d+))?';
+
+describe('Match Object', () => {
+  describe('group()', () => {
+    it('should return the whole match without arguments', async () => {
+      const pattern = await regex.compile(CITATION);
+      const match = pattern.search('See 123 F.2d 456.');
+      expect(match?.group()).toBe('123 F.2d 456');
+    });
+
+    it('should return a tuple for several arguments', async () => {
+      const pattern = await regex.compile(CITATION);
+      const match = pattern.search('See 123 F.2d.');
+      expect(match?.group(1, 'page')).toEqual(['123', null]);
+      expect(match?.group(0, 'volume', 2)).toEqual(['123 F.2d.', '123', 'F.2d.']);
+    });
+
+    it('should report unmatched groups as null', async () => {
+      const pattern = await regex.compile(CITATION);
+      const match = pattern.search('See 123 F.2d.');
+      expect(match?.group('page')).toBeNull();
+      expect(match?.group(3)).toBeNull();
+    });
+
+    it('should distinguish an empty match from a group that did not participate', async () => {
+      const pattern = await regex.compile('(?P<empty>x*)(?P<missing>y)?z');
+      const match = pattern.match('z');
+      expect(match?.group('empty')).toBe('');
+      expect(match?.group('missing')).toBeNull();
+    });
+  });
+
+  describe('groups() and groupdict()', () => {
+    it('should return all groups as a tuple', async () => {
+      const pattern = await regex.compile(CITATION);
+      expect(pattern.search('See 123 F.2d 456.')?.groups()).toEqual(['123', 'F.2d', '456']);
+      expect(pattern.search('See 123 F.2d.')?.groups()).toEqual(['123', 'F.2d.', null]);
+    });
+
+    it('should use the default for unmatched groups', async () => {
+      const pattern = await regex.compile(CITATION);
+      const match = pattern.search('See 123 F.2d.');
+      expect(match?.groups('-')).toEqual(['123', 'F.2d.', '-']);
+      expect(match?.groupdict('')).toEqual({ volume: '123', reporter: 'F.2d.', page: '' });
+    });
+
+    it('should return named groups as a dictionary', async () => {
+      const pattern = await regex.compile(CITATION);
+      expect(pattern.search('See 123 F.2d.')?.groupdict()).toEqual({ volume: '123', reporter: 'F.2d.', page: null });
+    });
+
+    it('should include unnamed groups in groups() but not groupdict()', async () => {
+      const pattern = await regex.compile('(\\d+)-(?P<suffix>\\w+)');
+      const match = pattern.match('12-ab');
+      expect(match?.groups()).toEqual(['12', 'ab']);
+      expect(match?.groupdict()).toEqual({ suffix: 'ab' });
+    });
+  });
+
+  describe('start(), end() and span()', () => {
+    it('should report offsets into the original string', async () => {
+      const pattern = await regex.compile(CITATION);
+      const match = pattern.search('See 123 F.2d 456.');
+      expect(match?.span()).toEqual([4, 16]);
+      expect(match?.span(1)).toEqual([4, 7]);
+      expect(match?.start('reporter')).toBe(8);
+      expect(match?.end('page')).toBe(16);
+    });
+
+    it('should report -1 for unmatched groups', async () => {
+      const pattern = await regex.compile(CITATION);
+      const match = pattern.search('See 123 F.2d.');
+      expect(match?.span('page')).toEqual([-1, -1]);
+      expect(match?.start(3)).toBe(-1);
+      expect(match?.end(3)).toBe(-1);
+    });
+
+    it('should reject groups that do not exist', async () => {
+      const pattern = await regex.compile('(a)');
+      const match = pattern.match('a');
+      expect(() => match?.start(2)).toThrow('no such group');
+      expect(() => match?.span('missing')).toThrow('no such group');
+    });
+  });
+
+  describe('lastindex and lastgroup', () => {
+    it('should report the last matched group', async () => {
+      const pattern = await regex.compile(CITATION);
+      const full = pattern.search('See 123 F.2d 456.');
+      expect(full?.lastindex).toBe(3);
+      expect(full?.lastgroup).toBe('page');
+
+      const partial = pattern.search('See 123 F.2d.');
+      expect(partial?.lastindex).toBe(2);
+      expect(partial?.lastgroup).toBe('reporter');
+    });
+
+    it('should prefer the enclosing group over nested groups', async () => {
+      const nested = await regex.compile('((a)b)');
+      expect(nested.match('ab')?.lastindex).toBe(1);
+
+      const siblings = await regex.compile('(a)(b?)');
+      expect(siblings.match('a')?.lastindex).toBe(2);
+    });
+
+    it('should tell nested groups from siblings with the same spans', async () => {
+      expect((await regex.match('(a(b*))', 'a'))?.lastindex).toBe(1);
+      expect((await regex.match('(a)(b*)', 'a'))?.lastindex).toBe(2);
+    });
+
+    it('should be null when no group matched', async () => {
+      const pattern = await regex.compile('(a)|b');
+      const match = pattern.match('b');
+      expect(match?.lastindex).toBeNull();
+      expect(match?.lastgroup).toBeNull();
+    });
+
+    it('should report a null lastgroup for unnamed groups', async () => {
+      const pattern = await regex.compile('(a)');
+      expect(pattern.match('a')?.lastgroup).toBeNull();
+    });
+  });
+
+  describe('Attributes', () => {
+    it('should expose the subject string and pattern', async () => {
+      const pattern = await regex.compile('\\d+');
+      const match = pattern.search('abc 123');
+      expect(match?.string).toBe('abc 123');
+      expect(match?.re).toBe(pattern);
+      expect(match?.pos).toBe(0);
+      expect(match?.endpos).toBe(7);
+    });
+
+    it('should expose pos and endpos passed to finditer()', async () => {
+      const pattern = await regex.compile('\\d');
+      const [match] = [...pattern.finditer('a1b2c3', 2, 5)];
+      expect(match.pos).toBe(2);
+      expect(match.endpos).toBe(5);
+    });
+  });
+
+  describe('Indexing', () => {
+    it('should support m[index] and m[name]', async () => {
+      const pattern = await regex.compile(CITATION);
+      const match = pattern.search('See 123 F.2d.');
+      expect(match?.[0]).toBe('123 F.2d.');
+      expect(match?.[1]).toBe('123');
+      expect(match?.[3]).toBeNull();
+      expect(match?.['volume']).toBe('123');
+      expect(match?.['page']).toBeNull();
+    });
+
+    it('should keep Match members when a group name clashes', async () => {
+      const pattern = await regex.compile('(?P<start>\\w+) (?P<end>\\w+)');
+      const match = pattern.match('hello world');
+      expect(typeof match?.start).toBe('function');
+      expect(match?.group('start')).toBe('hello');
+      expect(match?.start('end')).toBe(6);
+    });
+  });
+
+  describe('expand()', () => {
+    it('should expand a replacement template', async () => {
+      const pattern = await regex.compile('(?P<first>\\w+) (?P<last>\\w+)');
+      const match = pattern.search('Jane Doe');
+      expect(match?.expand('\\g<last>, \\1')).toBe('Doe, Jane');
+    });
+
+    it('should reject invalid templates', async () => {
+      const pattern = await regex.compile('(a)');
+      const match = pattern.match('a');
+      expect(() => match?.expand('\\2')).toThrow('invalid group reference 2');
+    });
+  });
+});
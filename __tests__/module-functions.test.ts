@@ -0,0 +1,81 @@
+// Comprehensive tests for module-level functions and the pattern cache
+import { describe, it, expect, beforeEach } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('Module-level functions', () => {
+  beforeEach(() => {
+    regex.purge();
+    regex.setCacheSize(512);
+  });
+
+  describe('Matching functions', () => {
+    it('should match, search and fullmatch without compiling by hand', async () => {
+      expect((await regex.match('\\d+', '123abc'))?.group()).toBe('123');
+      expect(await regex.match('\\d+', 'abc123')).toBeNull();
+      expect((await regex.search('(?P<num>\\d+)', 'abc123'))?.group('num')).toBe('123');
+      expect(await regex.fullmatch('\\d+', '123abc')).toBeNull();
+      expect(await regex.fullmatch('\\d+', '123')).not.toBeNull();
+    });
+
+    it('should accept flags', async () => {
+      expect(await regex.search('hello', 'HELLO')).toBeNull();
+      expect(await regex.search('hello', 'HELLO', regex.I)).not.toBeNull();
+      expect(await regex.search('hello', 'HELLO', 'i')).not.toBeNull();
+    });
+
+    it('should provide findall, finditer, sub, subn and split', async () => {
+      expect(await regex.findall('\\d', 'a1b2')).toEqual(['1', '2']);
+      expect([...(await regex.finditer('\\d', 'a1b2'))].map(m => m.start())).toEqual([1, 3]);
+      expect(await regex.sub('\\d', '#', 'a1b2')).toBe('a#b#');
+      expect(await regex.sub('\\d', '#', 'a1b2', 1)).toBe('a#b2');
+      expect(await regex.subn('\\d', '#', 'a1b2')).toEqual(['a#b#', 2]);
+      expect(await regex.split(',\\s*', 'a, b,c')).toEqual(['a', 'b', 'c']);
+      expect(await regex.split(',', 'a,b,c', 1)).toEqual(['a', 'b,c']);
+      expect(await regex.sub('X', 'y', 'axbx', 0, regex.I)).toBe('ayby');
+    });
+
+    it('should accept compiled patterns', async () => {
+      const pattern = await regex.compile('\\d+');
+      expect((await regex.search(pattern, 'abc123'))?.group()).toBe('123');
+      await expect(regex.search(pattern, 'abc', regex.I)).rejects.toThrow('cannot process flags argument with a compiled pattern');
+    });
+  });
+
+  describe('Pattern cache', () => {
+    it('should reuse compiled patterns', async () => {
+      await regex.search('\\d+', 'a1');
+      await regex.search('\\d+', 'b2');
+      await regex.findall('\\d+', 'c3');
+      expect(regex.cacheInfo()).toMatchObject({ hits: 2, misses: 1, size: 1 });
+    });
+
+    it('should key the cache by flags and profile', async () => {
+      await regex.search('a', 'a');
+      await regex.search('a', 'a', regex.I);
+      await regex.search('a', 'a', 0, { profile: 're' });
+      expect(regex.cacheInfo()).toMatchObject({ hits: 0, misses: 3, size: 3 });
+    });
+
+    it('should evict least recently used patterns', async () => {
+      regex.setCacheSize(2);
+      await regex.search('a', 'a');
+      await regex.search('b', 'b');
+      await regex.search('a', 'a');
+      await regex.search('c', 'c');
+      await regex.search('b', 'b');
+      expect(regex.cacheInfo()).toMatchObject({ hits: 1, misses: 4, size: 2, maxSize: 2 });
+    });
+
+    it('should clear the cache with purge()', async () => {
+      await regex.search('a', 'a');
+      regex.purge();
+      expect(regex.cacheInfo()).toMatchObject({ hits: 0, misses: 0, size: 0 });
+    });
+
+    it('should not cache patterns that fail to compile', async () => {
+      await expect(regex.search('(', 'a')).rejects.toThrow();
+      await Promise.resolve();
+      expect(regex.cacheInfo().size).toBe(0);
+    });
+  });
+});
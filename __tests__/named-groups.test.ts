@@ -10,7 +10,7 @@ describe('Named Groups Functionality', () => {
       
       expect(match).not.toBeNull();
       if (match) {
-        expect(match.groups).toEqual({ name: 'john' });
+        expect(match.groupdict()).toEqual({ name: 'john' });
         expect(match.group('name')).toBe('john');
         expect(match.group(1)).toBe('john');
         expect(match.group(0)).toBe('john'); // Full match
@@ -23,7 +23,7 @@ describe('Named Groups Functionality', () => {
       
       expect(match).not.toBeNull();
       if (match) {
-        expect(match.groups).toEqual({ first: 'John', last: 'Smith' });
+        expect(match.groupdict()).toEqual({ first: 'John', last: 'Smith' });
         expect(match.group('first')).toBe('John');
         expect(match.group('last')).toBe('Smith');
         expect(match.group(1)).toBe('John');
@@ -36,7 +36,7 @@ describe('Named Groups Functionality', () => {
       const pattern = await regex.compile('(?P<protocol>https?)://(?P<domain>[^:/]+)(?::(?P<port>\\d+))?(?P<path>/.*)?');
       
       const match1 = pattern.match('https://example.com:8080/path/to/resource');
-      expect(match1?.groups).toEqual({
+      expect(match1?.groupdict()).toEqual({
         protocol: 'https',
         domain: 'example.com',
         port: '8080',
@@ -44,10 +44,10 @@ describe('Named Groups Functionality', () => {
       });
       
       const match2 = pattern.match('http://example.com');
-      expect(match2?.groups.protocol).toBe('http');
-      expect(match2?.groups.domain).toBe('example.com');
-      expect(match2?.groups.port).toBeUndefined(); // Optional group
-      expect(match2?.groups.path).toBeUndefined(); // Optional group
+      expect(match2?.groupdict().protocol).toBe('http');
+      expect(match2?.groupdict().domain).toBe('example.com');
+      expect(match2?.groupdict().port).toBeNull(); // Optional group
+      expect(match2?.groupdict().path).toBeNull(); // Optional group
     });
   });
 
@@ -56,8 +56,8 @@ describe('Named Groups Functionality', () => {
       const pattern = await regex.compile('(?P<optional>\\w*)(?P<required>\\d+)');
       
       const match = pattern.match('123');
-      expect(match?.groups.optional).toBe(''); // Empty but matched
-      expect(match?.groups.required).toBe('123');
+      expect(match?.groupdict().optional).toBe(''); // Empty but matched
+      expect(match?.groupdict().required).toBe('123');
     });
 
     it('should handle optional named groups', async () => {
@@ -66,11 +66,11 @@ describe('Named Groups Functionality', () => {
       const match1 = pattern.match('test123');
       const match2 = pattern.match('test');
       
-      expect(match1?.groups.base).toBe('test');
-      expect(match1?.groups.suffix).toBe('123');
+      expect(match1?.groupdict().base).toBe('test');
+      expect(match1?.groupdict().suffix).toBe('123');
       
-      expect(match2?.groups.base).toBe('test');
-      expect(match2?.groups.suffix).toBeUndefined(); // Optional, not matched
+      expect(match2?.groupdict().base).toBe('test');
+      expect(match2?.groupdict().suffix).toBeNull(); // Optional, not matched
     });
 
     it('should handle alternation in named groups', async () => {
@@ -80,16 +80,16 @@ describe('Named Groups Functionality', () => {
       const match2 = pattern.match('admin_456');
       const match3 = pattern.match('guest_789');
       
-      expect(match1?.groups).toEqual({ type: 'user', id: '123' });
-      expect(match2?.groups).toEqual({ type: 'admin', id: '456' });
-      expect(match3?.groups).toEqual({ type: 'guest', id: '789' });
+      expect(match1?.groupdict()).toEqual({ type: 'user', id: '123' });
+      expect(match2?.groupdict()).toEqual({ type: 'admin', id: '456' });
+      expect(match3?.groupdict()).toEqual({ type: 'guest', id: '789' });
     });
 
     it('should handle nested named groups', async () => {
       const pattern = await regex.compile('(?P<full>(?P<name>\\w+)\\s+(?P<age>\\d+))');
       
       const match = pattern.match('John 25');
-      expect(match?.groups).toEqual({
+      expect(match?.groupdict()).toEqual({
         full: 'John 25',
         name: 'John',
         age: '25'
@@ -127,7 +127,7 @@ describe('Named Groups Functionality', () => {
         expect(match.group(3)).toBe('03');
         
         // Groups object
-        expect(match.groups).toEqual({
+        expect(match.groupdict()).toEqual({
           year: '2025',
           month: '06',
           day: '03'
@@ -154,7 +154,7 @@ describe('Named Groups Functionality', () => {
       
       expect(match).not.toBeNull();
       if (match) {
-        expect(match.groups).toEqual({
+        expect(match.groupdict()).toEqual({
           named: 'hello',
           another: 'world'
         });
@@ -179,7 +179,7 @@ describe('Named Groups Functionality', () => {
       const match1 = pattern.match('2025-06-03 12:34:56.123456');
       const match2 = pattern.match('2025-06-03 12:34:56');
       
-      expect(match1?.groups).toEqual({
+      expect(match1?.groupdict()).toEqual({
         year: '2025',
         month: '06',
         day: '03',
@@ -189,8 +189,8 @@ describe('Named Groups Functionality', () => {
         microsecond: '123456'
       });
       
-      expect(match2?.groups.microsecond).toBeUndefined();
-      expect(match2?.groups.year).toBe('2025');
+      expect(match2?.groupdict().microsecond).toBeNull();
+      expect(match2?.groupdict().year).toBe('2025');
     });
 
     it('should handle email parsing patterns', async () => {
@@ -201,15 +201,15 @@ describe('Named Groups Functionality', () => {
       const match1 = pattern.match('user.name+tag@mail.example.com');
       const match2 = pattern.match('simple@example.org');
       
-      expect(match1?.groups.local).toBe('user.name+tag');
-      expect(match1?.groups.domain).toBe('mail.example.com');
-      expect(match1?.groups.subdomain).toBe('mail.example.');
-      expect(match1?.groups.tld).toBe('com');
+      expect(match1?.groupdict().local).toBe('user.name+tag');
+      expect(match1?.groupdict().domain).toBe('mail.example.com');
+      expect(match1?.groupdict().subdomain).toBe('mail.example.');
+      expect(match1?.groupdict().tld).toBe('com');
       
-      expect(match2?.groups.local).toBe('simple');
-      expect(match2?.groups.domain).toBe('example.org');
-      expect(match2?.groups.subdomain).toBeUndefined();
-      expect(match2?.groups.tld).toBe('org');
+      expect(match2?.groupdict().local).toBe('simple');
+      expect(match2?.groupdict().domain).toBe('example.org');
+      expect(match2?.groupdict().subdomain).toBeNull();
+      expect(match2?.groupdict().tld).toBe('org');
     });
 
     it('should handle log parsing patterns', async () => {
@@ -223,7 +223,7 @@ describe('Named Groups Functionality', () => {
       const logLine = '[2025-06-03 12:34:56] INFO com.example.Service - User login successful';
       const match = pattern.match(logLine);
       
-      expect(match?.groups).toEqual({
+      expect(match?.groupdict()).toEqual({
         timestamp: '2025-06-03 12:34:56',
         level: 'INFO',
         logger: 'com.example.Service',
@@ -242,20 +242,23 @@ describe('Named Groups Functionality', () => {
       const match2 = pattern.match('2.0.0-beta.1');
       const match3 = pattern.match('1.0.0-alpha+build.123');
       
-      expect(match1?.groups).toEqual({
+      expect(match1?.groupdict()).toEqual({
         major: '1',
         minor: '2',
-        patch: '3'
+        patch: '3',
+        prerelease: null,
+        build: null
       });
       
-      expect(match2?.groups).toEqual({
+      expect(match2?.groupdict()).toEqual({
         major: '2',
         minor: '0',
         patch: '0',
-        prerelease: 'beta.1'
+        prerelease: 'beta.1',
+        build: null
       });
       
-      expect(match3?.groups).toEqual({
+      expect(match3?.groupdict()).toEqual({
         major: '1',
         minor: '0',
         patch: '0',
@@ -278,15 +281,15 @@ describe('Named Groups Functionality', () => {
       const match2 = pattern.match('555.123.4567');
       const match3 = pattern.match('(555) 123 4567');
       
-      expect(match1?.groups.country).toBe('1');
-      expect(match1?.groups.area).toBe('555');
-      expect(match1?.groups.exchange).toBe('123');
-      expect(match1?.groups.number).toBe('4567');
+      expect(match1?.groupdict().country).toBe('1');
+      expect(match1?.groupdict().area).toBe('555');
+      expect(match1?.groupdict().exchange).toBe('123');
+      expect(match1?.groupdict().number).toBe('4567');
       
-      expect(match2?.groups.country).toBeUndefined();
-      expect(match2?.groups.area2).toBe('555'); // Different capturing group
-      expect(match2?.groups.exchange).toBe('123');
-      expect(match2?.groups.number).toBe('4567');
+      expect(match2?.groupdict().country).toBeNull();
+      expect(match2?.groupdict().area2).toBe('555'); // Different capturing group
+      expect(match2?.groupdict().exchange).toBe('123');
+      expect(match2?.groupdict().number).toBe('4567');
     });
   });
 
@@ -295,7 +298,7 @@ describe('Named Groups Functionality', () => {
       const pattern = await regex.compile('(?P<word>\\w+)');
       
       const match = pattern.fullmatch('hello');
-      expect(match?.groups.word).toBe('hello');
+      expect(match?.groupdict().word).toBe('hello');
       
       const noMatch = pattern.fullmatch('hello world');
       expect(noMatch).toBeNull();
@@ -305,7 +308,7 @@ describe('Named Groups Functionality', () => {
       const pattern = await regex.compile('(?P<number>\\d+)');
       
       const match = pattern.search('abc 123 def');
-      expect(match?.groups.number).toBe('123');
+      expect(match?.groupdict().number).toBe('123');
     });
 
     it('should handle groups in alternation patterns', async () => {
@@ -314,13 +317,110 @@ describe('Named Groups Functionality', () => {
       const match1 = pattern.match('email:user@example.com');
       const match2 = pattern.match('phone:555-1234');
       
-      expect(match1?.groups.type).toBe('email');
-      expect(match1?.groups.email).toBe('user@example.com');
-      expect(match1?.groups.phone).toBeUndefined();
+      expect(match1?.groupdict().type).toBe('email');
+      expect(match1?.groupdict().email).toBe('user@example.com');
+      expect(match1?.groupdict().phone).toBeNull();
       
-      expect(match2?.groups.type).toBe('phone');
-      expect(match2?.groups.phone).toBe('555-1234');
-      expect(match2?.groups.email).toBeUndefined();
+      expect(match2?.groupdict().type).toBe('phone');
+      expect(match2?.groupdict().phone).toBe('555-1234');
+      expect(match2?.groupdict().email).toBeNull();
+    });
+  });
+
+  describe('Named backreferences and conditional groups', () => {
+    it('should match (?P=name) backreferences', async () => {
+      const pattern = await regex.compile('(?P<quote>[\'"]).*?(?P=quote)');
+      expect(pattern.search('say "hi" now')?.group()).toBe('"hi"');
+      expect(pattern.search('say "hi\' now')).toBeNull();
+    });
+
+    it('should match backreferences to Unicode group names', async () => {
+      const pattern = await regex.compile('(?P<mot_répété>\\w+) (?P=mot_répété)');
+      expect(pattern.search('le le chat')?.group('mot_répété')).toBe('le');
+    });
+
+    it('should match conditionals on group numbers and names', async () => {
+      const numbered = await regex.compile('(<)?\\w+(?(1)>|$)');
+      expect(numbered.fullmatch('<a>')).not.toBeNull();
+      expect(numbered.fullmatch('a')).not.toBeNull();
+      expect(numbered.fullmatch('<a')).toBeNull();
+
+      const named = await regex.compile('(?P<paren>\\()?\\d+(?(paren)\\))');
+      expect(named.fullmatch('(410)')).not.toBeNull();
+      expect(named.fullmatch('410')).not.toBeNull();
+      expect(named.fullmatch('(410')).toBeNull();
+    });
+
+    it('should match conditionals without a "no" branch', async () => {
+      const pattern = await regex.compile('(a)?b(?(1)c)');
+      expect(pattern.fullmatch('abc')).not.toBeNull();
+      expect(pattern.fullmatch('b')).not.toBeNull();
+      expect(pattern.fullmatch('ab')).toBeNull();
+    });
+
+    it('should reject references to unknown or open groups', async () => {
+      await expect(regex.compile('(?P=missing)')).rejects.toThrow("unknown group name 'missing'");
+      await expect(regex.compile('(?P=later)(?P<later>a)')).rejects.toThrow("unknown group name 'later'");
+      await expect(regex.compile('(?P<open>a(?P=open))')).rejects.toThrow('cannot refer to an open group');
+      await expect(regex.compile('(?(missing)a)')).rejects.toThrow("unknown group name 'missing'");
+      await expect(regex.compile('(?(2)a)(b)')).rejects.toThrow('invalid group reference 2');
+      await expect(regex.compile('(a)(?(1)b|c|d)')).rejects.toThrow('conditional backref with more than two branches');
+    });
+  });
+
+  describe('Duplicate group names (regex module semantics)', () => {
+    it('should report whichever alternative participated', async () => {
+      const pattern = await regex.compile('(?P<type>email):(?P<email>\\S+)|(?P<type>phone):(?P<phone>\\S+)');
+      expect(pattern.match('phone:555-1234')?.groupdict()).toEqual({ type: 'phone', email: null, phone: '555-1234' });
+      expect(pattern.match('email:a@b.c')?.group(1)).toBe('email');
+    });
+
+    it('should number groups like the regex module', async () => {
+      const pattern = await regex.compile('(?P<a>x)|(?P<a>y)(z)');
+      const match = pattern.match('yz');
+      expect(match?.groups()).toEqual(['y', 'z']);
+      expect(match?.span('a')).toEqual([0, 1]);
+      expect(match?.lastindex).toBe(2);
+    });
+
+    it('should report the last capture of a repeated name', async () => {
+      const pattern = await regex.compile('(?P<item>\\w+)(?:,(?P<item>\\w+))*');
+      expect(pattern.fullmatch('a,b,c')?.group('item')).toBe('c');
+      expect(pattern.fullmatch('a')?.group('item')).toBe('a');
+    });
+
+    it('should use Python group numbers in findall, split and sub', async () => {
+      const pattern = await regex.compile('(?P<n>\\d)|(?P<n>[a-z])');
+      expect(pattern.findall('1a')).toEqual(['1', 'a']);
+      expect(pattern.split('x1y')).toEqual(['', 'x', '', '1', '', 'y', '']);
+      expect(pattern.sub('<\\g<n>>', '1a')).toBe('<1><a>');
+    });
+
+    it('should match backreferences to a repeated name', async () => {
+      const pattern = await regex.compile('(?:(?P<q>")|(?P<q>\'))\\w+(?P=q)');
+      expect(pattern.fullmatch('"hi"')).not.toBeNull();
+      expect(pattern.fullmatch("'hi'")).not.toBeNull();
+      expect(pattern.fullmatch('"hi\'')).toBeNull();
+    });
+
+    it('should only match the latest capture of a repeated name', async () => {
+      const pattern = await regex.compile('(?P<a>x)(?P<a>y)(?P=a)');
+      expect(pattern.fullmatch('xyx')).toBeNull();
+      expect(pattern.fullmatch('xyy')).not.toBeNull();
+    });
+
+    it('should test whether any group of a repeated name captured', async () => {
+      const pattern = await regex.compile('(?:(?P<a>x)|(?P<a>y))?(?(a)z|w)');
+      expect(pattern.fullmatch('xz')).not.toBeNull();
+      expect(pattern.fullmatch('yz')).not.toBeNull();
+      expect(pattern.fullmatch('w')).not.toBeNull();
+      expect(pattern.fullmatch('xw')).toBeNull();
+    });
+
+    it('should reject repeated names under the re profile', async () => {
+      await expect(regex.compile('(?P<a>x)|(?P<a>y)', 0, { profile: 're' })).rejects.toThrow(
+        "redefinition of group name 'a' as group 2; was group 1 at position 13"
+      );
     });
   });
 });
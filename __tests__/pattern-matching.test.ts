@@ -42,7 +42,7 @@ describe('Pattern Matching Methods', () => {
       expect(match).not.toBeNull();
       if (match) {
         expect(match.fullMatch).toBe('hello');
-        expect(match.groups.word).toBe('hello');
+        expect(match.groupdict().word).toBe('hello');
         expect(match.group(0)).toBe('hello');
         expect(match.group('word')).toBe('hello');
       }
@@ -73,9 +73,9 @@ describe('Pattern Matching Methods', () => {
       const match = pattern.fullmatch('2025-06-03');
       expect(match).not.toBeNull();
       if (match) {
-        expect(match.groups.year).toBe('2025');
-        expect(match.groups.month).toBe('06');
-        expect(match.groups.day).toBe('03');
+        expect(match.groupdict().year).toBe('2025');
+        expect(match.groupdict().month).toBe('06');
+        expect(match.groupdict().day).toBe('03');
         expect(match.group(0)).toBe('2025-06-03');
         expect(match.group(1)).toBe('2025');
         expect(match.group(2)).toBe('06');
@@ -91,9 +91,9 @@ describe('Pattern Matching Methods', () => {
       const match3 = pattern.fullmatch('blue');
       const match4 = pattern.fullmatch('yellow');
       
-      expect(match1?.groups.color).toBe('red');
-      expect(match2?.groups.color).toBe('green');
-      expect(match3?.groups.color).toBe('blue');
+      expect(match1?.groupdict().color).toBe('red');
+      expect(match2?.groupdict().color).toBe('green');
+      expect(match3?.groupdict().color).toBe('blue');
       expect(match4).toBeNull();
     });
   });
@@ -107,7 +107,7 @@ describe('Pattern Matching Methods', () => {
       
       expect(match1).not.toBeNull();
       if (match1) {
-        expect(match1.groups.word).toBe('hello');
+        expect(match1.groupdict().word).toBe('hello');
         expect(match1.fullMatch).toBe('hello');
       }
       
@@ -130,7 +130,7 @@ describe('Pattern Matching Methods', () => {
       const match1 = pattern.match('hello world');
       const match2 = pattern.match(' hello world');
       
-      expect(match1?.groups.start).toBe('hello');
+      expect(match1?.groupdict().start).toBe('hello');
       expect(match2).toBeNull(); // ^ requires start of string
     });
 
@@ -140,9 +140,9 @@ describe('Pattern Matching Methods', () => {
       const match = pattern.match('hello world extra');
       expect(match).not.toBeNull();
       if (match) {
-        expect(match.groups.full).toBe('hello world');
-        expect(match.groups.part1).toBe('hello');
-        expect(match.groups.part2).toBe('world');
+        expect(match.groupdict().full).toBe('hello world');
+        expect(match.groupdict().part1).toBe('hello');
+        expect(match.groupdict().part2).toBe('world');
       }
     });
 
@@ -152,11 +152,11 @@ describe('Pattern Matching Methods', () => {
       const match1 = pattern.match('http://example.com');
       const match2 = pattern.match('https:8080/path');
       
-      expect(match1?.groups.protocol).toBe('http');
-      expect(match1?.groups.port).toBeUndefined(); // Optional group not matched
+      expect(match1?.groupdict().protocol).toBe('http');
+      expect(match1?.groupdict().port).toBeNull(); // Optional group not matched
       
-      expect(match2?.groups.protocol).toBe('https');
-      expect(match2?.groups.port).toBe(':8080');
+      expect(match2?.groupdict().protocol).toBe('https');
+      expect(match2?.groupdict().port).toBe(':8080');
     });
   });
 
@@ -169,9 +169,9 @@ describe('Pattern Matching Methods', () => {
       const match3 = pattern.search('at end 456');
       const match4 = pattern.search('no numbers here');
       
-      expect(match1?.groups.number).toBe('123');
-      expect(match2?.groups.number).toBe('123');
-      expect(match3?.groups.number).toBe('456');
+      expect(match1?.groupdict().number).toBe('123');
+      expect(match2?.groupdict().number).toBe('123');
+      expect(match3?.groupdict().number).toBe('456');
       expect(match4).toBeNull();
     });
 
@@ -179,7 +179,7 @@ describe('Pattern Matching Methods', () => {
       const pattern = await regex.compile('(?P<word>\\w+)');
       
       const match = pattern.search('first second third');
-      expect(match?.groups.word).toBe('first');
+      expect(match?.groupdict().word).toBe('first');
     });
 
     it('should work with anchored patterns', async () => {
@@ -191,9 +191,9 @@ describe('Pattern Matching Methods', () => {
       const match3 = endPattern.search('hello world');
       const match4 = endPattern.search('hello world  ');
       
-      expect(match1?.groups.start).toBe('hello');
+      expect(match1?.groupdict().start).toBe('hello');
       expect(match2).toBeNull(); // ^ requires start of string
-      expect(match3?.groups.end).toBe('world');
+      expect(match3?.groupdict().end).toBe('world');
       expect(match4).toBeNull(); // $ requires end of string
     });
 
@@ -202,7 +202,7 @@ describe('Pattern Matching Methods', () => {
       const text = 'Contact us at info@example.com or support@test.org for help';
       
       const match = pattern.search(text);
-      expect(match?.groups.email).toBe('info@example.com'); // First match
+      expect(match?.groupdict().email).toBe('info@example.com'); // First match
     });
 
     it('should work with lookbehind and lookahead', async () => {
@@ -210,7 +210,7 @@ describe('Pattern Matching Methods', () => {
       const pattern = await regex.compile('(?P<word>\\w+)(?=\\s)'); // Word followed by space
       
       const match = pattern.search('hello world test');
-      expect(match?.groups.word).toBe('hello');
+      expect(match?.groupdict().word).toBe('hello');
     });
   });
 
@@ -229,9 +229,9 @@ describe('Pattern Matching Methods', () => {
       const match = pattern.match(text);
       const search = pattern.search(text);
       
-      expect(fullMatch?.groups.num).toBe('123');
-      expect(match?.groups.num).toBe('123');
-      expect(search?.groups.num).toBe('123');
+      expect(fullMatch?.groupdict().num).toBe('123');
+      expect(match?.groupdict().num).toBe('123');
+      expect(search?.groupdict().num).toBe('123');
     });
 
     it('should behave differently for partial strings', async () => {
@@ -250,7 +250,7 @@ describe('Pattern Matching Methods', () => {
       const match = pattern.match('123abc');
       expect(match).not.toBeNull();
       if (match) {
-        expect(match.groups).toEqual({});
+        expect(match.groupdict()).toEqual({});
         expect(match.group(0)).toBe('123');
         expect(match.group(1)).toBeUndefined();
         expect(match.group('nonexistent')).toBeUndefined();
@@ -262,26 +262,29 @@ describe('Pattern Matching Methods', () => {
       const longString = 'a'.repeat(10000) + 'end';
       
       expect(pattern.test(longString)).toBe(false); // Doesn't match full string
-      expect(pattern.search(longString)?.groups.end).toBe('end');
+      expect(pattern.search(longString)?.groupdict().end).toBe('end');
     });
 
     it('should handle patterns with multiple named groups with same name', async () => {
-      // This might be invalid, but let's see how it's handled
+      // Like Python's regex module, the groups share one number and report the last capture
       const pattern = await regex.compile('(?P<same>\\w+)\\s+(?P<same>\\w+)');
-      
-      // This should probably throw an error during compilation
-      // If it doesn't, we need to document the behavior
-      await expect(async () => {
-        await pattern.match('hello world');
-      }).rejects.toThrow();
+      const match = pattern.match('hello world');
+
+      expect(match?.group('same')).toBe('world');
+      expect(match?.groups()).toEqual(['world']);
+
+      // The stdlib re profile rejects the repeated name
+      await expect(regex.compile('(?P<same>\\w+)\\s+(?P<same>\\w+)', 0, { profile: 're' })).rejects.toThrow(
+        "redefinition of group name 'same' as group 2; was group 1"
+      );
     });
 
     it('should handle nested groups properly', async () => {
       const pattern = await regex.compile('(?P<outer>a(?P<inner>b+)c)');
       
       const match = pattern.match('abbbc');
-      expect(match?.groups.outer).toBe('abbbc');
-      expect(match?.groups.inner).toBe('bbb');
+      expect(match?.groupdict().outer).toBe('abbbc');
+      expect(match?.groupdict().inner).toBe('bbb');
     });
 
     it('should handle case sensitivity', async () => {
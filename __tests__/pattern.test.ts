@@ -0,0 +1,87 @@
+// Comprehensive tests for Pattern attributes and equality
+import { describe, it, expect } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('Pattern', () => {
+  describe('Attributes', () => {
+    it('should expose pattern, flags, groups and groupindex like Python', async () => {
+      const pattern = await regex.compile('(?P<a>x)(y)(?P<b>z)');
+      expect(pattern.pattern).toBe('(?P<a>x)(y)(?P<b>z)');
+      expect(pattern.flags).toBe(regex.UNICODE);
+      expect(pattern.groups).toBe(3);
+      expect(pattern.groupindex).toEqual({ a: 1, b: 3 });
+    });
+
+    it('should report no groups for a plain pattern', async () => {
+      const pattern = await regex.compile('abc');
+      expect(pattern.groups).toBe(0);
+      expect(pattern.groupindex).toEqual({});
+    });
+
+    it('should give a repeated name its shared group number', async () => {
+      const pattern = await regex.compile('(?P<a>x)|(?P<a>y)(?P<b>z)');
+      expect(pattern.groups).toBe(2);
+      expect(pattern.groupindex).toEqual({ a: 1, b: 2 });
+    });
+
+    it('should not count non-capturing and lookaround groups', async () => {
+      const pattern = await regex.compile('(?:a)(?=b)(?P<c>c)(?<!d)');
+      expect(pattern.groups).toBe(1);
+      expect(pattern.groupindex).toEqual({ c: 1 });
+    });
+
+    it('should keep groupindex read-only', async () => {
+      const pattern = await regex.compile('(?P<a>x)');
+      expect(Object.isFrozen(pattern.groupindex)).toBe(true);
+      expect(() => {
+        (pattern.groupindex as Record<string, number>).b = 2;
+      }).toThrow(TypeError);
+    });
+
+    it('should be reachable from a Match', async () => {
+      const m = await regex.search('(?P<n>\\d+)', 'page 42');
+      expect(m!.re.pattern).toBe('(?P<n>\\d+)');
+      expect(m!.re.groupindex).toEqual({ n: 1 });
+    });
+
+    it('should give the source of bytes patterns as bytes', async () => {
+      const source = new TextEncoder().encode('é+');
+      expect((await regex.compile(source)).pattern).toBe(source);
+      expect((await regex.compile('é+', 0, { bytes: true })).pattern).toEqual(source);
+    });
+  });
+
+  describe('Equality', () => {
+    it('should compare source and flags', async () => {
+      const a = await regex.compile('a');
+      expect(a.equals(await regex.compile('a'))).toBe(true);
+      expect(a.equals(await regex.compile('b'))).toBe(false);
+      expect(a.equals(await regex.compile('a', regex.I))).toBe(false);
+      expect((await regex.compile('a', regex.I)).equals(await regex.compile('a', 'i'))).toBe(true);
+    });
+
+    it('should compare the source text, not what it compiles to', async () => {
+      expect((await regex.compile('(?i)a')).equals(await regex.compile('a', regex.I))).toBe(false);
+    });
+
+    it('should tell str and bytes patterns apart', async () => {
+      const bytes = await regex.compile(new Uint8Array([0x61]));
+      expect(bytes.equals(await regex.compile('a'))).toBe(false);
+      expect(bytes.equals(await regex.compile('a', 0, { bytes: true }))).toBe(true);
+    });
+
+    it('should tell profiles apart', async () => {
+      const fuzzy = await regex.compile('a{e<=1}');
+      expect(fuzzy.profile).toBe('regex');
+      expect(fuzzy.equals(await regex.compile('a{e<=1}', 0, { profile: 're' }))).toBe(false);
+      expect(fuzzy.equals(await regex.compile('a{e<=1}', 0, { profile: 'regex' }))).toBe(true);
+    });
+
+    it('should be false for anything but a Pattern', async () => {
+      const a = await regex.compile('a');
+      expect(a.equals('a')).toBe(false);
+      expect(a.equals(null)).toBe(false);
+      expect(a.equals({ pattern: 'a', flags: a.flags })).toBe(false);
+    });
+  });
+});
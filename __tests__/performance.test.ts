@@ -60,7 +60,7 @@ describe('Performance and Stress Tests', () => {
       const match = pattern.search(largeText);
       const duration = Date.now() - start;
 
-      expect(match?.groups.end).toBe('END');
+      expect(match?.groupdict().end).toBe('END');
       expect(duration).toBeLessThan(50); // Should be very fast
     });
 
@@ -72,7 +72,7 @@ describe('Performance and Stress Tests', () => {
       const matches = texts.map(text => pattern.search(text));
       const duration = Date.now() - start;
 
-      expect(matches.every(m => m?.groups.num === '123')).toBe(true);
+      expect(matches.every(m => m?.groupdict().num === '123')).toBe(true);
       expect(duration).toBeLessThan(100); // Should handle many matches quickly
     });
 
@@ -86,7 +86,7 @@ describe('Performance and Stress Tests', () => {
       const matches = emailTexts.map(text => emailPattern.search(text));
       const duration = Date.now() - start;
 
-      expect(matches.every(m => m?.groups.local && m?.groups.domain)).toBe(true);
+      expect(matches.every(m => m?.groupdict().local && m?.groupdict().domain)).toBe(true);
       expect(duration).toBeLessThan(200); // Should handle realistic patterns efficiently
     });
   });
@@ -125,7 +125,7 @@ describe('Performance and Stress Tests', () => {
       const testString = 'abcdefghijklmnopqrstuvwxyz'.repeat(Math.ceil(groupCount / 26)).substring(0, groupCount);
       
       const match = pattern.match(testString);
-      expect(Object.keys(match?.groups || {}).length).toBe(groupCount);
+      expect(Object.keys(match?.groupdict() || {}).length).toBe(groupCount);
     });
 
     it('should handle very long input strings', async () => {
@@ -136,7 +136,7 @@ describe('Performance and Stress Tests', () => {
       const match = pattern.search(veryLongString);
       const duration = Date.now() - start;
 
-      expect(match?.groups.pattern).toBe('test');
+      expect(match?.groupdict().pattern).toBe('test');
       expect(duration).toBeLessThan(1000); // Should handle very long strings
     });
   });
@@ -215,7 +215,7 @@ describe('Performance and Stress Tests', () => {
 
       testStrings.forEach(str => {
         const match = unicodePattern.match(str);
-        expect(match?.groups.unicode).toBe(str);
+        expect(match?.groupdict().unicode).toBe(str);
       });
     });
   });
@@ -266,7 +266,7 @@ describe('Performance and Stress Tests', () => {
       const results = await Promise.all(operations);
       
       // All should succeed and return '123'
-      expect(results.every(r => r?.groups.num === '123')).toBe(true);
+      expect(results.every(r => r?.groupdict().num === '123')).toBe(true);
     });
   });
 
@@ -0,0 +1,95 @@
+// Comprehensive tests for pos and endpos on match/search/fullmatch
+import { describe, it, expect } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('pos and endpos', () => {
+  describe('search()', () => {
+    it('should resume scanning at pos', async () => {
+      const pattern = await regex.compile('(?P<volume>\\d+) U\\.S\\.');
+      const text = '410 U.S. 113; 505 U.S. 833';
+      const first = pattern.search(text);
+      const second = pattern.search(text, first!.end());
+      expect(second?.group('volume')).toBe('505');
+      expect(second?.span()).toEqual([14, 22]);
+      expect(second?.pos).toBe(8);
+    });
+
+    it('should not match ^ at pos', async () => {
+      const pattern = await regex.compile('^a');
+      expect(pattern.search('ba', 1)).toBeNull();
+    });
+
+    it('should match $ at endpos', async () => {
+      const pattern = await regex.compile('a$');
+      expect(pattern.search('ab', 0, 1)?.span()).toEqual([0, 1]);
+      expect(pattern.search('ab')).toBeNull();
+    });
+
+    it('should hide text after endpos from lookahead', async () => {
+      const pattern = await regex.compile('a(?=b)');
+      expect(pattern.search('ab', 0, 1)).toBeNull();
+      expect(pattern.search('ab')).not.toBeNull();
+    });
+
+    it('should let lookbehind see text before pos', async () => {
+      const pattern = await regex.compile('(?<=b)a');
+      expect(pattern.search('ba', 1)?.span()).toEqual([1, 2]);
+    });
+
+    it('should clamp pos and endpos', async () => {
+      const pattern = await regex.compile('');
+      expect(pattern.search('abc', 5)?.span()).toEqual([3, 3]);
+      expect(pattern.search('abc', -3)?.span()).toEqual([0, 0]);
+      expect(pattern.search('abc', 2, 1)).toBeNull();
+    });
+  });
+
+  describe('match()', () => {
+    it('should match exactly at pos', async () => {
+      const pattern = await regex.compile('\\d+');
+      expect(pattern.match('ab12', 2)?.group()).toBe('12');
+      expect(pattern.match('ab12', 1)).toBeNull();
+    });
+
+    it('should let lookbehind see text before pos', async () => {
+      const pattern = await regex.compile('(?<=b)a');
+      expect(pattern.match('ba', 1)?.span()).toEqual([1, 2]);
+    });
+
+    it('should stop at endpos', async () => {
+      const pattern = await regex.compile('\\d+');
+      expect(pattern.match('12345', 1, 3)?.group()).toBe('23');
+    });
+  });
+
+  describe('fullmatch()', () => {
+    it('should require the match to span pos to endpos', async () => {
+      const pattern = await regex.compile('a');
+      expect(pattern.fullmatch('ba', 1)?.span()).toEqual([1, 2]);
+      expect(pattern.fullmatch('bab', 1)).toBeNull();
+      expect(pattern.fullmatch('bab', 1, 2)?.span()).toEqual([1, 2]);
+    });
+
+    it('should try every alternative before giving up', async () => {
+      const pattern = await regex.compile('a|ab');
+      expect(pattern.fullmatch('xab', 1)?.span()).toEqual([1, 3]);
+      expect(pattern.fullmatch('xab', 1, 2)?.span()).toEqual([1, 2]);
+    });
+
+    it('should expose pos and endpos on the Match', async () => {
+      const pattern = await regex.compile('\\d+');
+      const match = pattern.fullmatch('ab123cd', 2, 5);
+      expect(match?.pos).toBe(2);
+      expect(match?.endpos).toBe(5);
+      expect(match?.string).toBe('ab123cd');
+    });
+  });
+
+  describe('test()', () => {
+    it('should accept pos and endpos like fullmatch()', async () => {
+      const pattern = await regex.compile('\\d+');
+      expect(pattern.test('ab123cd', 2, 5)).toBe(true);
+      expect(pattern.test('ab123cd', 2)).toBe(false);
+    });
+  });
+});
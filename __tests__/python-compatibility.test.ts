@@ -94,8 +94,8 @@ describe('Python Regex Compatibility', () => {
       const pattern = await regex.compile('(?P<word>\\w+)\\s+(?P<num>\\d+)');
       
       const match = pattern.match('hello 123 extra');
-      expect(match?.groups.word).toBe('hello');
-      expect(match?.groups.num).toBe('123');
+      expect(match?.groupdict().word).toBe('hello');
+      expect(match?.groupdict().num).toBe('123');
       expect(match?.fullMatch).toBe('hello 123'); // Only matched portion
     });
   });
@@ -108,7 +108,7 @@ describe('Python Regex Compatibility', () => {
       const match1 = pattern.search('abc 123 def');
       const match2 = pattern.search('no numbers');
       
-      expect(match1?.groups.num).toBe('123');
+      expect(match1?.groupdict().num).toBe('123');
       expect(match2).toBeNull();
     });
 
@@ -116,7 +116,7 @@ describe('Python Regex Compatibility', () => {
       const pattern = await regex.compile('(?P<digit>\\d)');
       
       const match = pattern.search('a1b2c3');
-      expect(match?.groups.digit).toBe('1'); // First digit found
+      expect(match?.groupdict().digit).toBe('1'); // First digit found
     });
   });
 
@@ -136,7 +136,7 @@ describe('Python Regex Compatibility', () => {
         // Test that we can access the named group
         const sampleMatch = pattern.match('test123test@example.com2025-06-03variable_name');
         if (sampleMatch) {
-          const groupNames = Object.keys(sampleMatch.groups);
+          const groupNames = Object.keys(sampleMatch.groupdict());
           expect(groupNames.length).toBeGreaterThan(0);
         }
       }
@@ -146,16 +146,16 @@ describe('Python Regex Compatibility', () => {
       const pattern = await regex.compile('(?P<outer>(?P<inner>\\w+)\\s+\\d+)');
       const match = pattern.match('hello 123');
       
-      expect(match?.groups.outer).toBe('hello 123');
-      expect(match?.groups.inner).toBe('hello');
+      expect(match?.groupdict().outer).toBe('hello 123');
+      expect(match?.groupdict().inner).toBe('hello');
     });
 
     it('should handle mixed named and numbered groups like Python', async () => {
       const pattern = await regex.compile('(?P<name>\\w+)\\s+(\\d+)\\s+(?P<email>[^\\s]+)');
       const match = pattern.match('john 25 john@example.com');
       
-      expect(match?.groups.name).toBe('john');
-      expect(match?.groups.email).toBe('john@example.com');
+      expect(match?.groupdict().name).toBe('john');
+      expect(match?.groupdict().email).toBe('john@example.com');
       expect(match?.group(1)).toBe('john'); // Named group
       expect(match?.group(2)).toBe('25'); // Unnamed group
       expect(match?.group(3)).toBe('john@example.com'); // Named group
@@ -164,28 +164,18 @@ describe('Python Regex Compatibility', () => {
 
   describe('Python regex flag compatibility', () => {
     it('should handle case-insensitive matching like Python re.IGNORECASE', async () => {
-      // Note: Flags might not be implemented yet, test current behavior
-      try {
-        const pattern = await regex.compile('(?P<word>hello)', 'i');
-        expect(pattern.test('HELLO')).toBe(true);
-        expect(pattern.test('Hello')).toBe(true);
-        expect(pattern.test('hello')).toBe(true);
-      } catch (error) {
-        // Flags might not be implemented yet
-        console.log('Flag support not yet implemented');
-      }
+      const pattern = await regex.compile('(?P<word>hello)', 'i');
+      expect(pattern.test('HELLO')).toBe(true);
+      expect(pattern.test('Hello')).toBe(true);
+      expect(pattern.test('hello')).toBe(true);
     });
 
     it('should handle multiline mode like Python re.MULTILINE', async () => {
-      try {
-        const pattern = await regex.compile('^(?P<line>\\w+)$', 'm');
-        const text = 'first\nsecond\nthird';
-        const match = pattern.search(text);
-        expect(match?.groups.line).toBeDefined();
-      } catch (error) {
-        // Flags might not be implemented yet
-        console.log('Flag support not yet implemented');
-      }
+      const pattern = await regex.compile('^(?P<line>\\w+)$', 'm');
+      const text = 'first\nsecond\nthird';
+      const match = pattern.search(text);
+      expect(match?.groupdict().line).toBe('first');
+      expect(pattern.findall(text)).toEqual(['first', 'second', 'third']);
     });
   });
 
@@ -218,19 +208,86 @@ describe('Python Regex Compatibility', () => {
     });
   });
 
+  describe('Python Unicode escape compatibility', () => {
+    it('should match \\u, \\U and \\N{...} escapes like Python', async () => {
+      const pattern = await regex.compile('caf\\u00e9 \\U0001F600 \\N{EM DASH}');
+      expect(pattern.search('a café 😀 — b')?.group()).toBe('café 😀 —');
+
+      const range = await regex.compile('[\\u0000-\\uFFFF]+');
+      expect(range.match('abc😀')?.group()).toBe('abc');
+    });
+  });
+
+  describe('Python anchor compatibility', () => {
+    it('should let $ match before a final newline only', async () => {
+      expect((await regex.search('a$', 'a\n'))?.span()).toEqual([0, 1]);
+      expect(await regex.search('a$', 'a\n\n')).toBeNull();
+      expect([...(await regex.finditer('$', 'a\n'))].map(m => m.span())).toEqual([[1, 1], [2, 2]]);
+      expect(await regex.findall('^\\w+$', 'ab\ncd\n')).toEqual([]);
+    });
+
+    it('should treat \\Z as the absolute end like Python', async () => {
+      expect(await regex.search('a\\Z', 'a\n')).toBeNull();
+      expect((await regex.search('a\\Z', 'a'))?.span()).toEqual([0, 1]);
+    });
+
+    it('should match MULTILINE ^ and $ at every line like Python', async () => {
+      expect([...(await regex.finditer('(?m)^', 'a\nb\n'))].map(m => m.span())).toEqual([[0, 0], [2, 2], [4, 4]]);
+      expect([...(await regex.finditer('(?m)$', 'a\nb\n'))].map(m => m.span())).toEqual([[1, 1], [3, 3], [4, 4]]);
+      expect(await regex.findall('^\\w+$', 'ab\ncd\n', regex.M)).toEqual(['ab', 'cd']);
+      expect(await regex.findall('(?m:^\\w)|$', 'ab\ncd\n')).toEqual(['a', 'c', '', '']);
+    });
+
+    it('should not match \\A or ^ at a later pos', async () => {
+      const pattern = await regex.compile('\\Ab|^b');
+      expect(pattern.search('ab', 1)).toBeNull();
+    });
+  });
+
+  describe('Python Unicode character tables', () => {
+    // Characters that fullmatch each class in Python 3.11, with and without re.ASCII
+    const SAMPLE = ['A', '_', '-', '5', 'é', '测', '\u0661', '²', 'Ⅳ', '\u0301', '\t', '\x0b', '\x1c', '\x85', '\xa0', '\u2028', '\u3000', '\u200b', '😀'];
+    const PYTHON: Record<string, [string, string]> = {
+      '\\w': ['1101111110000000000', '1101000000000000000'],
+      '\\d': ['0001001000000000000', '0001000000000000000'],
+      '\\s': ['0000000000111111100', '0000000000110000000'],
+    };
+
+    for (const [cls, [unicode, ascii]] of Object.entries(PYTHON)) {
+      it(`should match ${cls} like Python's str patterns`, async () => {
+        const pattern = await regex.compile(cls);
+        const negated = await regex.compile(cls.toUpperCase());
+        expect(SAMPLE.map(ch => (pattern.fullmatch(ch) ? '1' : '0')).join('')).toBe(unicode);
+        expect(SAMPLE.map(ch => (negated.fullmatch(ch) ? '0' : '1')).join('')).toBe(unicode);
+      });
+
+      it(`should match ${cls} like Python's re.ASCII`, async () => {
+        const pattern = await regex.compile(cls, regex.ASCII);
+        const scoped = await regex.compile(`(?a:${cls})`);
+        expect(SAMPLE.map(ch => (pattern.fullmatch(ch) ? '1' : '0')).join('')).toBe(ascii);
+        expect(SAMPLE.map(ch => (scoped.fullmatch(ch) ? '1' : '0')).join('')).toBe(ascii);
+      });
+    }
+
+    it('should find Unicode word boundaries unless ASCII is set', async () => {
+      expect(await regex.findall('\\b\\w+\\b', 'café 测试 naïve')).toEqual(['café', '测试', 'naïve']);
+      expect(await regex.findall('(?a)\\b\\w+\\b', 'café 测试 naïve')).toEqual(['caf', 'na', 've']);
+    });
+  });
+
   describe('Python quantifier compatibility', () => {
     it('should handle greedy quantifiers like Python', async () => {
       const pattern = await regex.compile('(?P<match>a+)');
       
       const match = pattern.match('aaab');
-      expect(match?.groups.match).toBe('aaa'); // Greedy: matches as many as possible
+      expect(match?.groupdict().match).toBe('aaa'); // Greedy: matches as many as possible
     });
 
     it('should handle non-greedy quantifiers like Python', async () => {
       const pattern = await regex.compile('(?P<match>a+?)');
       
       const match = pattern.match('aaab');
-      expect(match?.groups.match).toBe('a'); // Non-greedy: matches as few as possible
+      expect(match?.groupdict().match).toBe('a'); // Non-greedy: matches as few as possible
     });
 
     it('should handle range quantifiers like Python', async () => {
@@ -249,7 +306,7 @@ describe('Python Regex Compatibility', () => {
       const pattern = await regex.compile('(?P<word>\\w+)(?=\\s)');
       
       const match = pattern.search('hello world');
-      expect(match?.groups.word).toBe('hello'); // Matches 'hello' followed by space
+      expect(match?.groupdict().word).toBe('hello'); // Matches 'hello' followed by space
     });
 
     it('should handle negative lookahead like Python', async () => {
@@ -260,14 +317,9 @@ describe('Python Regex Compatibility', () => {
     });
 
     it('should handle positive lookbehind like Python', async () => {
-      try {
-        const pattern = await regex.compile('(?<=\\$)(?P<amount>\\d+)');
-        const match = pattern.search('$100');
-        expect(match?.groups.amount).toBe('100');
-      } catch (error) {
-        // Lookbehind might not be supported
-        console.log('Lookbehind might not be supported');
-      }
+      const pattern = await regex.compile('(?<=\\$)(?P<amount>\\d+)');
+      const match = pattern.search('$100');
+      expect(match?.groupdict().amount).toBe('100');
     });
   });
 
@@ -286,7 +338,7 @@ describe('Python Regex Compatibility', () => {
       
       // Windows-style path matching
       const match = pattern.match('C:\\Users');
-      expect(match?.groups.path).toBe('C:\\Users');
+      expect(match?.groupdict().path).toBe('C:\\Users');
     });
   });
 
@@ -295,29 +347,23 @@ describe('Python Regex Compatibility', () => {
       const pattern = await regex.compile('\\b(?P<word>\\w+)\\b');
       
       const match = pattern.search('hello world');
-      expect(match?.groups.word).toBe('hello'); // First word
+      expect(match?.groupdict().word).toBe('hello'); // First word
     });
 
     it('should handle non-capturing groups like Python (?:...)', async () => {
       const pattern = await regex.compile('(?P<protocol>https?)(?:://(?P<domain>[^/]+))');
       
       const match = pattern.match('https://example.com');
-      expect(match?.groups.protocol).toBe('https');
-      expect(match?.groups.domain).toBe('example.com');
+      expect(match?.groupdict().protocol).toBe('https');
+      expect(match?.groupdict().domain).toBe('example.com');
       // The (?:...) group should not be captured
     });
 
-    it('should handle conditional patterns if supported', async () => {
-      // This is an advanced feature that might not be supported
-      try {
-        const pattern = await regex.compile('(?P<quote>["\']).*?(?P=quote)');
-        expect(pattern.test('"hello"')).toBe(true);
-        expect(pattern.test("'hello'")).toBe(true);
-        expect(pattern.test('"hello\'')).toBe(false);
-      } catch (error) {
-        // Backreferences might not be supported
-        console.log('Backreferences might not be supported');
-      }
+    it('should handle named backreferences like Python (?P=name)', async () => {
+      const pattern = await regex.compile('(?P<quote>["\']).*?(?P=quote)');
+      expect(pattern.test('"hello"')).toBe(true);
+      expect(pattern.test("'hello'")).toBe(true);
+      expect(pattern.test('"hello\'')).toBe(false);
     });
   });
 });
@@ -0,0 +1,145 @@
+// Comprehensive tests for the static ReDoS analyzer
+import { describe, it, expect } from 'vitest';
+import { PatternError } from '../src/errors';
+import { RegexFlag } from '../src/flags';
+import { analyzePattern } from '../src/redos';
+import { regex } from '../src/regex';
+
+const findings = (pattern: string, flags = 0) =>
+  analyzePattern(pattern, flags).findings.map(({ kind, reason, span }) => ({ kind, reason, span }));
+
+describe('ReDoS analysis', () => {
+  describe('Exponential backtracking', () => {
+    it('should report nested quantifiers with the span of the outer repeat', () => {
+      expect(findings('(a+)+$')).toEqual([{ kind: 'exponential', reason: 'nested-quantifier', span: [0, 5] }]);
+      expect(findings('x(?:a*)*b')).toEqual([{ kind: 'exponential', reason: 'nested-quantifier', span: [1, 8] }]);
+      expect(findings('^(\\w+\\s?)+$')).toEqual([{ kind: 'exponential', reason: 'nested-quantifier', span: [1, 10] }]);
+    });
+
+    it('should report overlapping alternatives in a repeat', () => {
+      expect(findings('(a|a)*$')).toEqual([{ kind: 'exponential', reason: 'overlapping-alternatives', span: [0, 6] }]);
+      expect(findings('(ab|a|b)+!')).toEqual([{ kind: 'exponential', reason: 'overlapping-alternatives', span: [0, 9] }]);
+      expect(findings('(\\d|[0-9a-f])+$')).toHaveLength(1);
+    });
+
+    it('should give a witness that pumps the ambiguity and then fails', () => {
+      const [finding] = analyzePattern('(a+)+$', 0).findings;
+      expect(finding.witness).toEqual({ prefix: 'a', pump: 'a', suffix: '!' });
+      expect(finding.attack).toBe('a'.repeat(31) + '!');
+      expect(finding.degree).toBeNull();
+      expect(finding.message).toBe('nested quantifiers can match the same text in exponentially many ways');
+
+      const { witness } = analyzePattern('(ab|a|b)+!', 0).findings[0];
+      expect(witness.pump).toBe('baba');
+      expect(witness.suffix).not.toBe('!');
+    });
+
+    it('should treat a bounded repeat inside a loop as nesting', () => {
+      expect(findings('(a{1,5})+$')).toEqual([{ kind: 'exponential', reason: 'nested-quantifier', span: [0, 9] }]);
+    });
+
+    it('should follow flags', () => {
+      expect(findings('(A|a)+$')).toEqual([]);
+      expect(findings('(?i)(A|a)+$')).toEqual([{ kind: 'exponential', reason: 'overlapping-alternatives', span: [4, 10] }]);
+      expect(findings('(A|a)+$', RegexFlag.IGNORECASE)).toHaveLength(1);
+      expect(findings('(?x) ( a + ) + $')).toEqual([{ kind: 'exponential', reason: 'nested-quantifier', span: [5, 14] }]);
+      expect(findings('(\\w|é)+$')).toHaveLength(1);
+      expect(findings('(\\w|é)+$', RegexFlag.ASCII)).toEqual([]);
+    });
+
+    it('should analyze lookarounds and atomic groups on their own', () => {
+      expect(findings('(?=(a+)+b)')).toEqual([{ kind: 'exponential', reason: 'nested-quantifier', span: [3, 8] }]);
+      expect(findings('x(?>(a|a)*y)')).toEqual([{ kind: 'exponential', reason: 'overlapping-alternatives', span: [4, 10] }]);
+    });
+  });
+
+  describe('Polynomial backtracking', () => {
+    it('should report overlapping quantifiers in sequence with their degree', () => {
+      const [finding] = analyzePattern('\\d+\\d+x', 0).findings;
+      expect(finding).toMatchObject({ kind: 'polynomial', reason: 'overlapping-quantifiers', degree: 2, span: [0, 6] });
+      expect(finding.witness).toEqual({ prefix: '0', pump: '0', suffix: '!' });
+      expect(finding.message).toBe('overlapping quantifiers can split the same text in O(n^2) ways');
+      expect(analyzePattern('\\s*\\s*\\s*$', 0).findings[0].degree).toBe(3);
+    });
+
+    it('should see through optional items between the repeats', () => {
+      expect(findings('^\\w+\\s*\\w+$')).toEqual([{ kind: 'polynomial', reason: 'overlapping-quantifiers', span: [1, 10] }]);
+      expect(findings('a.*b.*c')).toEqual([{ kind: 'polynomial', reason: 'overlapping-quantifiers', span: [1, 6] }]);
+    });
+  });
+
+  describe('Safe patterns', () => {
+    it.each([
+      'abc',
+      '\\w+@\\w+\\.com',
+      '^(\\d+\\.)+\\d+$',
+      '(a|ab)*c',
+      '.*foo.*',
+      '[a-z]+\\d+',
+      '\\s+$',
+      '(a++)+b',
+      '(?>a+)+b',
+      '(\\d{1,3}\\.){3}\\d{1,3}',
+      '(a|b)*(c|d)*',
+    ])('should accept %s', pattern => {
+      const report = analyzePattern(pattern, 0);
+      expect(report.safe).toBe(true);
+      expect(report.findings).toEqual([]);
+      expect(report.complete).toBe(true);
+    });
+  });
+
+  describe('Report', () => {
+    it('should give the star height', () => {
+      expect(analyzePattern('abc', 0).starHeight).toBe(0);
+      expect(analyzePattern('a*b+', 0).starHeight).toBe(1);
+      expect(analyzePattern('((a*b)+c)*', 0).starHeight).toBe(3);
+      expect(analyzePattern('(a{2,5})+', 0).starHeight).toBe(1);
+    });
+
+    it('should list findings in pattern order', () => {
+      const report = analyzePattern('(a|a)*x(b+)+y\\d+\\d+', 0);
+      expect(report.safe).toBe(false);
+      expect(report.findings.map(f => f.span[0])).toEqual([0, 7, 13]);
+    });
+
+    it('should say when a pattern is too large to analyze fully', () => {
+      const words = Array.from({ length: 300 }, (_, i) => `word${i}`).join('|');
+      expect(analyzePattern(`(?:${words})+`, 0).complete).toBe(false);
+    });
+
+    it('should reject invalid patterns like compile()', () => {
+      expect(() => analyzePattern('(a+', 0)).toThrow(PatternError);
+      expect(() => analyzePattern('(a+', 0)).toThrow('missing ), unterminated subpattern at position 0');
+    });
+  });
+
+  describe('regex.analyze()', () => {
+    it('should work without init()', () => {
+      const report = regex.analyze('(a+)+$');
+      expect(report.findings[0].reason).toBe('nested-quantifier');
+      expect(regex.analyze('\\d+', 'a').safe).toBe(true);
+    });
+
+    it('should give bytes witnesses for bytes patterns', () => {
+      const [finding] = regex.analyze(new TextEncoder().encode('(a|a)*$')).findings;
+      expect(finding.witness.pump).toEqual(new Uint8Array([0x61, 0x61]));
+      expect(finding.attack).toBeInstanceOf(Uint8Array);
+    });
+  });
+
+  describe('rejectReDoS', () => {
+    it('should make compile() throw for vulnerable patterns', async () => {
+      await expect(regex.compile('x(a+)+$', 0, { rejectReDoS: true })).rejects.toThrow(
+        new PatternError('nested quantifiers can match the same text in exponentially many ways', 'x(a+)+$', 1)
+      );
+      expect((await regex.compile('(a+)+$')).pattern).toBe('(a+)+$');
+      expect((await regex.compile('a+$', 0, { rejectReDoS: true })).pattern).toBe('a+$');
+    });
+
+    it('should apply to the module functions without sharing their cache', async () => {
+      expect(await regex.search('(a+)+$', 'aa')).not.toBeNull();
+      await expect(regex.search('(a+)+$', 'aa', 0, { rejectReDoS: true })).rejects.toThrow(regex.error);
+    });
+  });
+});
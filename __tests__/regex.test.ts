@@ -11,9 +11,9 @@ describe('py-regex: Integration Tests', () => {
       
       expect(match).not.toBeNull();
       if (match) {
-        expect(match.groups.volume).toBe('123');
-        expect(match.groups.reporter).toBe('F.2d');
-        expect(match.groups.page).toBe('456');
+        expect(match.groupdict().volume).toBe('123');
+        expect(match.groupdict().reporter).toBe('F.2d');
+        expect(match.groupdict().page).toBe('456');
       }
     });
 
@@ -36,8 +36,8 @@ describe('py-regex: Integration Tests', () => {
       validEmails.forEach(email => {
         const match = pattern.fullmatch(email);
         expect(match).not.toBeNull();
-        expect(match?.groups.local).toBeDefined();
-        expect(match?.groups.domain).toBeDefined();
+        expect(match?.groupdict().local).toBeDefined();
+        expect(match?.groupdict().domain).toBeDefined();
       });
       
       invalidEmails.forEach(email => {
@@ -57,15 +57,15 @@ describe('py-regex: Integration Tests', () => {
       const datetime3 = '2025-06-03T12:34:56';
       
       const match1 = pattern.fullmatch(datetime1);
-      expect(match1?.groups.year).toBe('2025');
-      expect(match1?.groups.timezone).toBe('Z');
+      expect(match1?.groupdict().year).toBe('2025');
+      expect(match1?.groupdict().timezone).toBe('Z');
       
       const match2 = pattern.fullmatch(datetime2);
-      expect(match2?.groups.fraction).toBe('123456');
-      expect(match2?.groups.timezone).toBe('+05:30');
+      expect(match2?.groupdict().fraction).toBe('123456');
+      expect(match2?.groupdict().timezone).toBe('+05:30');
       
       const match3 = pattern.fullmatch(datetime3);
-      expect(match3?.groups.timezone).toBeUndefined();
+      expect(match3?.groupdict().timezone).toBeNull();
     });
 
     it('should extract structured data from log lines', async () => {
@@ -85,10 +85,10 @@ describe('py-regex: Integration Tests', () => {
       logLines.forEach(line => {
         const match = pattern.fullmatch(line);
         expect(match).not.toBeNull();
-        expect(match?.groups.timestamp).toBeDefined();
-        expect(match?.groups.level).toMatch(/^(INFO|ERROR|DEBUG|WARN)$/);
-        expect(match?.groups.logger).toBeDefined();
-        expect(match?.groups.message).toBeDefined();
+        expect(match?.groupdict().timestamp).toBeDefined();
+        expect(match?.groupdict().level).toMatch(/^(INFO|ERROR|DEBUG|WARN)$/);
+        expect(match?.groupdict().logger).toBeDefined();
+        expect(match?.groupdict().message).toBeDefined();
       });
     });
 
@@ -108,11 +108,11 @@ describe('py-regex: Integration Tests', () => {
       versions.forEach(({ version, major, minor, patch, prerelease, build }) => {
         const match = pattern.fullmatch(version);
         expect(match).not.toBeNull();
-        expect(match?.groups.major).toBe(major);
-        expect(match?.groups.minor).toBe(minor);
-        expect(match?.groups.patch).toBe(patch);
-        if (prerelease) expect(match?.groups.prerelease).toBe(prerelease);
-        if (build) expect(match?.groups.build).toBe(build);
+        expect(match?.groupdict().major).toBe(major);
+        expect(match?.groupdict().minor).toBe(minor);
+        expect(match?.groupdict().patch).toBe(patch);
+        if (prerelease) expect(match?.groupdict().prerelease).toBe(prerelease);
+        if (build) expect(match?.groupdict().build).toBe(build);
       });
     });
   });
@@ -135,8 +135,8 @@ describe('py-regex: Integration Tests', () => {
       const logLine = 'ERROR [2025-06-03 12:34:56]: Database connection failed';
       const match = pattern.fullmatch(logLine);
       
-      expect(match?.groups.timestamp).toBe('2025-06-03 12:34:56');
-      expect(match?.groups.message).toBe('Database connection failed');
+      expect(match?.groupdict().timestamp).toBe('2025-06-03 12:34:56');
+      expect(match?.groupdict().message).toBe('Database connection failed');
     });
 
     it('should demonstrate fullmatch vs match vs search differences', async () => {
@@ -149,11 +149,11 @@ describe('py-regex: Integration Tests', () => {
       
       // match: must match from start
       const matchResult = pattern.match(text);
-      expect(matchResult?.groups.word).toBe('hello'); // Gets first word
+      expect(matchResult?.groupdict().word).toBe('hello'); // Gets first word
       
       // search: finds first occurrence anywhere
       const searchResult = pattern.search(' hello world');
-      expect(searchResult?.groups.word).toBe('hello'); // Finds 'hello' even with leading space
+      expect(searchResult?.groupdict().word).toBe('hello'); // Finds 'hello' even with leading space
     });
 
     it('should handle complex nested patterns with escaping', async () => {
@@ -172,8 +172,8 @@ describe('py-regex: Integration Tests', () => {
       configs.forEach(config => {
         const match = pattern.fullmatch(config);
         expect(match).not.toBeNull();
-        expect(match?.groups.key).toBeDefined();
-        expect(match?.groups.value).toBeDefined();
+        expect(match?.groupdict().key).toBeDefined();
+        expect(match?.groupdict().value).toBeDefined();
       });
     });
   });
@@ -187,7 +187,7 @@ describe('py-regex: Integration Tests', () => {
       const match = pattern.search(largeText);
       const duration = Date.now() - start;
       
-      expect(match?.groups.end).toBe('END');
+      expect(match?.groupdict().end).toBe('END');
       expect(duration).toBeLessThan(100); // Should be fast
     });
 
@@ -225,7 +225,7 @@ describe('py-regex: Integration Tests', () => {
       // Multiple calls should give same result
       const results = [];
       for (let i = 0; i < 5; i++) {
-        results.push(pattern.search(text)?.groups.num);
+        results.push(pattern.search(text)?.groupdict().num);
       }
       
       expect(results.every(r => r === '123')).toBe(true);
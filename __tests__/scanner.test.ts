@@ -0,0 +1,116 @@
+// Comprehensive tests for Scanner and Pattern.scanner()
+import { describe, it, expect, beforeAll } from 'vitest';
+import { regex, Scanner } from '../src/regex';
+
+describe('Scanner', () => {
+  beforeAll(async () => {
+    await regex.init();
+  });
+
+  describe('regex.Scanner', () => {
+    const calculator = () =>
+      new regex.Scanner<string, string | number>([
+        ['[a-zA-Z_]\\w*', (_, token) => token],
+        ['\\d+\\.\\d*', (_, token) => parseFloat(token)],
+        ['\\d+', (_, token) => parseInt(token, 10)],
+        ['=|\\+|-|\\*|/', (_, token) => 'op' + token],
+        ['\\s+', null],
+      ]);
+
+    it('should tokenize like Python', () => {
+      expect(calculator().scan('sum = 3*foo + 312.50 + bar')).toEqual([
+        ['sum', 'op=', 3, 'op*', 'foo', 'op+', 312.5, 'op+', 'bar'],
+        '',
+      ]);
+    });
+
+    it('should stop at the first unmatched text and return the remainder', () => {
+      expect(calculator().scan('a = 1 ? 2')).toEqual([['a', 'op=', 1], '? 2']);
+    });
+
+    it('should emit plain values and stop at an empty match', () => {
+      const scanner = new Scanner([
+        ['a', 'A'],
+        ['x*', 'X'],
+      ]);
+      expect(scanner.scan('aab')).toEqual([['A', 'A'], 'b']);
+    });
+
+    it('should find the entry even when a phrase has groups of its own', () => {
+      const scanner = new Scanner<string, string>([
+        ['(\\d+)-(\\d+)', (s, token) => `range ${s.match!.group(2)}:${token}`],
+        ['(?P<word>[a-z]+)()', (_, token) => `word ${token}`],
+        [',', null],
+      ]);
+      expect(scanner.scan('1-2,ab,3-4')).toEqual([['range 1:1-2', 'word ab', 'range 3:3-4'], '']);
+    });
+
+    it('should apply flags to every phrase', () => {
+      const scanner = new Scanner(
+        [
+          ['[a-z]+  # a word', 'word'],
+          ['\\s+', null],
+        ],
+        regex.IGNORECASE | regex.VERBOSE
+      );
+      expect(scanner.scan('Foo BAR')).toEqual([['word', 'word'], '']);
+      expect(scanner.scanner.flags & regex.IGNORECASE).toBeTruthy();
+    });
+
+    it('should scope a phrase\'s global flags to that phrase', () => {
+      const scanner = new Scanner([
+        ['(?i)select', 'keyword'],
+        ['(?x) [a-z]+  # a word', 'word'],
+        [' ', null],
+      ]);
+      expect(scanner.scan('SELECT Select from X')).toEqual([['keyword', 'keyword', 'word'], 'X']);
+    });
+
+    it('should scan bytes', () => {
+      const enc = (text: string) => new TextEncoder().encode(text);
+      const scanner = new Scanner<Uint8Array, number>([
+        [enc('\\d+'), (_, token) => token.length],
+        [enc(' '), null],
+      ]);
+      expect(scanner.scan(enc('12 345 x'))).toEqual([[2, 3], enc('x')]);
+    });
+
+    it('should report errors in a phrase', () => {
+      expect(() => new Scanner([['a)', null]])).toThrow(regex.error);
+      expect(() => new Scanner([['a', null], [new Uint8Array([0x61]), null]])).toThrow(TypeError);
+    });
+  });
+
+  describe('Pattern.scanner()', () => {
+    it('should step through search() matches', () => {
+      const scanner = regex.compileSync(':+').scanner('a:b::c:::d');
+      expect([scanner.search()!.span(), scanner.search()!.span(), scanner.search()!.span()]).toEqual([
+        [1, 2],
+        [3, 5],
+        [6, 9],
+      ]);
+      expect(scanner.search()).toBeNull();
+    });
+
+    it('should not repeat an empty match at the same position', () => {
+      const scanner = regex.compileSync('a*').scanner('baa');
+      const spans = [scanner.search(), scanner.search(), scanner.search(), scanner.search()].map(m => m && m.span());
+      expect(spans).toEqual([[0, 0], [1, 3], [3, 3], null]);
+    });
+
+    it('should match() only where the previous match ended, and stay exhausted', () => {
+      const scanner = regex.compileSync('\\d').scanner('12a3');
+      const spans = [scanner.match(), scanner.match(), scanner.match(), scanner.search()].map(m => m && m.span());
+      expect(spans).toEqual([[0, 1], [1, 2], null, null]);
+    });
+
+    it('should honour pos and endpos', () => {
+      const pattern = regex.compileSync('a');
+      const scanner = pattern.scanner('aaa', 1, 2);
+      const m = scanner.search()!;
+      expect([m.span(), m.pos, m.endpos]).toEqual([[1, 2], 1, 2]);
+      expect(scanner.search()).toBeNull();
+      expect(scanner.pattern).toBe(pattern);
+    });
+  });
+});
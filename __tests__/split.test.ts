@@ -0,0 +1,70 @@
+// Comprehensive tests for Pattern.split()
+import { describe, it, expect } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('Pattern.split()', () => {
+  describe('Basic splitting', () => {
+    it('should split on every match', async () => {
+      const pattern = await regex.compile('\\W+');
+      expect(pattern.split('Words, words, words.')).toEqual(['Words', 'words', 'words', '']);
+    });
+
+    it('should split on alternative separators', async () => {
+      const pattern = await regex.compile('[,;]\\s*');
+      expect(pattern.split('a, b;c')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should return the whole string when nothing matches', async () => {
+      const pattern = await regex.compile('z');
+      expect(pattern.split('abc')).toEqual(['abc']);
+      expect(pattern.split('')).toEqual(['']);
+    });
+  });
+
+  describe('Capture groups', () => {
+    it('should include captured separators', async () => {
+      const pattern = await regex.compile('(\\W+)');
+      expect(pattern.split('Words, words, words.')).toEqual(['Words', ', ', 'words', ', ', 'words', '.', '']);
+    });
+
+    it('should report groups that did not participate as null', async () => {
+      const pattern = await regex.compile('(a)|b');
+      expect(pattern.split('xaybz')).toEqual(['x', 'a', 'y', null, 'z']);
+    });
+
+    it('should include named groups in order', async () => {
+      const pattern = await regex.compile('(?P<sep>[-/])(?P<extra>x)?');
+      expect(pattern.split('1-2/x3')).toEqual(['1', '-', null, '2', '/', 'x', '3']);
+    });
+  });
+
+  describe('maxsplit', () => {
+    it('should stop after maxsplit splits', async () => {
+      const pattern = await regex.compile('\\W+');
+      expect(pattern.split('Words, words, words.', 1)).toEqual(['Words', 'words, words.']);
+      expect(pattern.split('Words, words, words.', 2)).toEqual(['Words', 'words', 'words.']);
+    });
+
+    it('should not split for a negative maxsplit', async () => {
+      const pattern = await regex.compile('a');
+      expect(pattern.split('bab', -1)).toEqual(['bab']);
+    });
+  });
+
+  describe('Zero-width matches (Python 3.7+)', () => {
+    it('should split on empty matches', async () => {
+      const pattern = await regex.compile('\\b');
+      expect(pattern.split('a b')).toEqual(['', 'a', ' ', 'b', '']);
+    });
+
+    it('should split on a mix of empty and non-empty matches', async () => {
+      const pattern = await regex.compile('x*');
+      expect(pattern.split('axbc')).toEqual(['', 'a', '', 'b', 'c', '']);
+    });
+
+    it('should not split astral-plane characters', async () => {
+      const pattern = await regex.compile('');
+      expect(pattern.split('a😀')).toEqual(['', 'a', '😀', '']);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+// Comprehensive tests for Pattern.sub() and Pattern.subn()
+import { describe, it, expect } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('Pattern.sub() and Pattern.subn()', () => {
+  describe('Template replacements', () => {
+    it('should replace every match by default', async () => {
+      const pattern = await regex.compile('\\s+');
+      expect(pattern.sub(' ', '  a   b  ')).toBe(' a b ');
+    });
+
+    it('should expand numbered and named group references', async () => {
+      const pattern = await regex.compile('(?P<v>\\d+) (?P<r>U\\.S\\.)');
+      expect(pattern.sub('\\g<r> \\g<v>', 'in 410 U.S. and')).toBe('in U.S. 410 and');
+      expect(pattern.sub('\\2 \\1', 'in 410 U.S. and')).toBe('in U.S. 410 and');
+      expect(pattern.sub('<\\g<0>>', 'in 410 U.S. and')).toBe('in <410 U.S.> and');
+    });
+
+    it('should expand unmatched groups to empty strings', async () => {
+      const pattern = await regex.compile('(a)|b');
+      expect(pattern.sub('[\\1]', 'ab')).toBe('[a][]');
+    });
+
+    it('should process escapes in the template', async () => {
+      const pattern = await regex.compile(',');
+      expect(pattern.sub('\\n', 'a,b')).toBe('a\nb');
+      expect(pattern.sub('\\\\', 'a,b')).toBe('a\\b');
+    });
+
+    it('should reject bad templates even without a match', async () => {
+      const pattern = await regex.compile('(a)');
+      expect(() => pattern.sub('\\2', 'zzz')).toThrow('invalid group reference 2');
+      expect(() => pattern.sub('\\q', 'zzz')).toThrow('bad escape \\q');
+      expect(() => pattern.sub('\\g<missing>', 'zzz')).toThrow("unknown group name 'missing'");
+    });
+  });
+
+  describe('Callable replacements', () => {
+    it('should call the function with a Match', async () => {
+      const pattern = await regex.compile('(?P<num>\\d+)');
+      const result = pattern.sub(m => String(Number(m.group('num')) * 2), 'a1 b22');
+      expect(result).toBe('a2 b44');
+    });
+
+    it('should use the returned string literally', async () => {
+      const pattern = await regex.compile('x');
+      expect(pattern.sub(() => '\\1', 'axb')).toBe('a\\1b');
+    });
+  });
+
+  describe('count and subn()', () => {
+    it('should limit the number of replacements', async () => {
+      const pattern = await regex.compile('\\d');
+      expect(pattern.subn('#', 'a1b2c3', 2)).toEqual(['a#b#c3', 2]);
+      expect(pattern.sub('#', 'a1b2c3', 1)).toBe('a#b2c3');
+    });
+
+    it('should report zero replacements when nothing matches', async () => {
+      const pattern = await regex.compile('z');
+      expect(pattern.subn('y', 'abc')).toEqual(['abc', 0]);
+    });
+
+    it('should make no replacements for a negative count', async () => {
+      const pattern = await regex.compile('a');
+      expect(pattern.subn('b', 'aaa', -1)).toEqual(['aaa', 0]);
+    });
+  });
+
+  describe('Empty matches (Python 3.7+)', () => {
+    it('should replace empty matches adjacent to previous matches', async () => {
+      const pattern = await regex.compile('x*');
+      expect(pattern.sub('-', 'abxd')).toBe('-a-b--d-');
+    });
+
+    it('should replace the empty pattern between every character', async () => {
+      const pattern = await regex.compile('');
+      expect(pattern.sub('-', 'abc')).toBe('-a-b-c-');
+      expect(pattern.subn('-', 'a😀')).toEqual(['-a-😀-', 3]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+// Comprehensive tests for the synchronous API available after regex.init()
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { regex } from '../src/regex';
+
+describe('Synchronous API', () => {
+  beforeAll(async () => {
+    await regex.init();
+  });
+
+  describe('Before init()', () => {
+    it('should throw a helpful error from synchronous APIs', async () => {
+      vi.resetModules();
+      const fresh = await import('../src/regex');
+      expect(() => fresh.regex.compileSync('a')).toThrow('PCRE engine is not initialized');
+      expect(() => fresh.regex.searchSync('a', 'a')).toThrow('call `await regex.init()`');
+    });
+  });
+
+  describe('regex.compileSync()', () => {
+    it('should compile without awaiting', () => {
+      const pattern = regex.compileSync('(?P<volume>\\d+) U\\.S\\. (?P<page>\\d+)');
+      const match = pattern.search('See 410 U.S. 113.');
+      expect(match?.group('volume')).toBe('410');
+      expect(match?.group('page')).toBe('113');
+    });
+
+    it('should accept flags', () => {
+      const pattern = regex.compileSync('hello', regex.I);
+      expect(pattern.fullmatch('HELLO')).not.toBeNull();
+      expect(pattern.flags).toBe(regex.I | regex.U);
+    });
+
+    it('should throw compile errors synchronously', () => {
+      expect(() => regex.compileSync('(unclosed')).toThrow();
+      expect(() => regex.compileSync('abc', 'z')).toThrow(/Unknown regex flag/);
+    });
+
+    it('should behave like the async compile()', async () => {
+      const asyncPattern = await regex.compile('(\\w)=(\\d)');
+      const syncPattern = regex.compileSync('(\\w)=(\\d)');
+      expect(syncPattern.findall('a=1 b=2')).toEqual(asyncPattern.findall('a=1 b=2'));
+    });
+  });
+
+  describe('Module-level synchronous functions', () => {
+    it('should match, search and fullmatch', () => {
+      expect(regex.matchSync('\\d+', '42 apples')?.group()).toBe('42');
+      expect(regex.searchSync('\\d+', 'apples: 42')?.group()).toBe('42');
+      expect(regex.fullmatchSync('\\d+', '42 apples')).toBeNull();
+    });
+
+    it('should find all matches', () => {
+      expect(regex.findallSync('\\d', 'a1b2')).toEqual(['1', '2']);
+      expect([...regex.finditerSync('\\d', 'a1b2')].map(m => m.start())).toEqual([1, 3]);
+    });
+
+    it('should substitute and split', () => {
+      expect(regex.subSync('\\s+', '-', 'a  b c')).toBe('a-b-c');
+      expect(regex.subnSync('\\s+', '-', 'a  b c', 1)).toEqual(['a-b c', 1]);
+      expect(regex.splitSync(',', 'a,b,c', 1)).toEqual(['a', 'b,c']);
+    });
+
+    it('should share the pattern cache with the async functions', async () => {
+      regex.purge();
+      await regex.search('x+', 'xx');
+      regex.searchSync('x+', 'xx');
+      expect(regex.cacheInfo()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+// Comprehensive tests for Python replacement template parsing
+import { describe, it, expect } from 'vitest';
+import { parseTemplate, expandTemplate, isIdentifier } from '../src/template';
+
+describe('Replacement Templates', () => {
+  describe('parseTemplate()', () => {
+    it('should split literals and group references', () => {
+      expect(parseTemplate('abc', 0, {})).toEqual(['abc']);
+      expect(parseTemplate('\\1-\\2', 2, {})).toEqual([1, '-', 2]);
+      expect(parseTemplate('<\\g<0>>', 0, {})).toEqual(['<', 0, '>']);
+      expect(parseTemplate('\\g<name>!', 1, { name: 1 })).toEqual([1, '!']);
+      expect(parseTemplate('\\g<10>', 10, {})).toEqual([10]);
+    });
+
+    it('should translate Python string escapes', () => {
+      expect(parseTemplate('a\\nb\\tc\\\\', 0, {})).toEqual(['a\nb\tc\\']);
+      expect(parseTemplate('\\a\\b\\f\\r\\v', 0, {})).toEqual(['\x07\b\f\r\v']);
+    });
+
+    it('should keep unknown non-letter escapes verbatim', () => {
+      expect(parseTemplate('\\-\\.', 0, {})).toEqual(['\\-\\.']);
+    });
+
+    it('should parse octal escapes like Python', () => {
+      expect(parseTemplate('\\0', 0, {})).toEqual(['\x00']);
+      expect(parseTemplate('\\08', 0, {})).toEqual(['\x008']);
+      expect(parseTemplate('\\101', 0, {})).toEqual(['A']);
+      expect(parseTemplate('\\11', 11, {})).toEqual([11]);
+      expect(parseTemplate('\\18', 18, {})).toEqual([18]);
+    });
+  });
+
+  describe('Python error behavior', () => {
+    it('should reject unknown letter escapes', () => {
+      expect(() => parseTemplate('\\q', 0, {})).toThrow('bad escape \\q at position 0');
+      expect(() => parseTemplate('ab\\', 0, {})).toThrow('bad escape (end of pattern) at position 2');
+    });
+
+    it('should reject references to groups that do not exist', () => {
+      expect(() => parseTemplate('\\2', 1, {})).toThrow('invalid group reference 2 at position 1');
+      expect(() => parseTemplate('\\g<3>', 1, {})).toThrow('invalid group reference 3 at position 3');
+      expect(() => parseTemplate('\\g<foo>', 1, { bar: 1 })).toThrow(RangeError);
+      expect(() => parseTemplate('\\g<foo>', 1, { bar: 1 })).toThrow("unknown group name 'foo'");
+    });
+
+    it('should reject malformed \\g references', () => {
+      expect(() => parseTemplate('\\g', 1, {})).toThrow('missing < at position 2');
+      expect(() => parseTemplate('\\g<>', 1, {})).toThrow('missing group name at position 3');
+      expect(() => parseTemplate('\\g<1', 1, {})).toThrow('missing >, unterminated name at position 3');
+      expect(() => parseTemplate('\\g<a-b>', 1, {})).toThrow("bad character in group name 'a-b' at position 3");
+      expect(() => parseTemplate('\\g<-1>', 1, {})).toThrow("bad character in group name '-1'");
+      expect(() => parseTemplate('\\g<+1>', 1, {})).toThrow("bad character in group name '+1' at position 3");
+      expect(() => parseTemplate('\\g< 1>', 1, {})).toThrow("bad character in group name ' 1' at position 3");
+    });
+
+    it('should reject octal escapes above 0o377', () => {
+      expect(() => parseTemplate('\\400', 0, {})).toThrow('octal escape value \\400 outside of range 0-0o377 at position 0');
+    });
+  });
+
+  describe('expandTemplate()', () => {
+    it('should substitute groups and treat unmatched groups as empty', () => {
+      const parts = parseTemplate('[\\1|\\2]', 2, {});
+      expect(expandTemplate(parts, i => (i === 1 ? 'a' : undefined))).toBe('[a|]');
+    });
+  });
+
+  describe('isIdentifier()', () => {
+    it('should follow Python identifier rules', () => {
+      expect(isIdentifier('name')).toBe(true);
+      expect(isIdentifier('_private1')).toBe(true);
+      expect(isIdentifier('café')).toBe(true);
+      expect(isIdentifier('1abc')).toBe(false);
+      expect(isIdentifier('a-b')).toBe(false);
+      expect(isIdentifier('')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,333 @@
+// Comprehensive tests for translating Python pattern syntax to PCRE
+import { describe, it, expect } from 'vitest';
+import { translatePattern } from '../src/translate';
+import { RegexFlag } from '../src/flags';
+
+const translate = (pattern: string, flags = 0) => translatePattern(pattern, flags).pattern;
+
+describe('Pattern Translation', () => {
+  describe('Named groups', () => {
+    it('should convert (?P<name>...) to PCRE syntax', () => {
+      expect(translate('(?P<volume>\\d+) (?P<page>\\d+)')).toBe('(?<volume>\\d+) (?<page>\\d+)');
+      expect(translatePattern('(?P<volume>\\d+) (\\w+) (?P<page>\\d+)', 0).groupIndex).toEqual({ volume: 1, page: 3 });
+    });
+
+    it('should leave escaped and bracketed text alone', () => {
+      expect(translate('\\\\(?P<x>a)')).toBe('\\\\(?<x>a)');
+      expect(translate('\\(?P<x>a\\)')).toBe('\\(?P<x>a\\)');
+      expect(translate('[(?P<]')).toBe('[(?P<]');
+      expect(translatePattern('[(?P<x>a)]', 0).groups).toBe(0);
+    });
+
+    it('should accept Unicode identifiers that PCRE cannot name', () => {
+      const result = translatePattern('(?P<café>\\w+)', 0);
+      expect(result.pattern).toBe('(\\w+)');
+      expect(result.groupIndex).toEqual({ café: 1 });
+    });
+
+    it('should reject invalid group names with Python messages', () => {
+      expect(() => translate('(?P<>a)')).toThrow('missing group name at position 4');
+      expect(() => translate('(?P<1a>a)')).toThrow("bad character in group name '1a' at position 4");
+      expect(() => translate('(?P<na-me>a)')).toThrow("bad character in group name 'na-me'");
+      expect(() => translate('(?P<name')).toThrow('missing >, unterminated name at position 4');
+      expect(() => translate('(?Pname>a)')).toThrow('unknown extension ?Pn at position 1');
+    });
+
+    it('should only accept (?<name>...) under the regex profile', () => {
+      expect(translatePattern('(?<name>a)', 0).groupIndex).toEqual({ name: 1 });
+      expect(() => translatePattern('(?<name>a)', 0, 're')).toThrow('unknown extension ?<n at position 1');
+      expect(() => translatePattern('(?<>a)', 0, 're')).toThrow('unknown extension ?<> at position 1');
+      expect(() => translatePattern('(?<', 0, 're')).toThrow('unexpected end of pattern at position 3');
+      expect(translatePattern('(?<=a)b', 0, 're').pattern).toBe('(?<=a)b');
+    });
+  });
+
+  describe('Character classes', () => {
+    it('should treat a leading ] as a literal', () => {
+      expect(translate('[]a]')).toBe('[\\]a]');
+      expect(translate('[^]]')).toBe('[^\\]]');
+    });
+
+    it('should escape [ so PCRE does not see a POSIX class', () => {
+      expect(translate('[[:alpha:]]')).toBe('[\\[:alpha:]]');
+    });
+
+    it('should keep \\b as a backspace', () => {
+      expect(translate('[\\b]')).toBe('[\\b]');
+    });
+
+    it('should spell out escapes PCRE reads differently', () => {
+      expect(translate('[\\v]')).toBe('[\\x{b}]');
+      expect(translate('[\\101-\\x5a]')).toBe('[\\x{41}-\\x{5a}]');
+    });
+
+    it('should treat a trailing - as a literal', () => {
+      expect(translate('[a-]')).toBe('[a\\-]');
+    });
+
+    it('should reject bad ranges and unterminated sets', () => {
+      expect(() => translate('[z-a]')).toThrow('bad character range z-a at position 1');
+      expect(() => translate('[\\w-z]')).toThrow('bad character range \\w-z at position 1');
+      expect(() => translate('a[bc')).toThrow('unterminated character set at position 1');
+      expect(() => translate('[a-')).toThrow('unterminated character set at position 0');
+    });
+  });
+
+  describe('Escapes', () => {
+    it('should translate octal escapes and backreferences', () => {
+      expect(translate('\\0')).toBe('\\x{0}');
+      expect(translate('\\101')).toBe('\\x{41}');
+      expect(translate('(a)\\1')).toBe('(a)\\g{1}');
+      expect(translate('(a)\\1 0')).toBe('(a)\\g{1} 0');
+    });
+
+    it('should reject backreferences Python rejects', () => {
+      expect(() => translate('\\1(a)')).toThrow('invalid group reference 1 at position 1');
+      expect(() => translate('(a\\1)')).toThrow('cannot refer to an open group at position 2');
+      expect(() => translate('\\777')).toThrow('octal escape value \\777 outside of range 0-0o377');
+    });
+
+    it('should require two hex digits in \\x', () => {
+      expect(translate('\\x41')).toBe('\\x{41}');
+      expect(() => translate('\\x4')).toThrow('incomplete escape \\x4 at position 0');
+    });
+
+    it('should translate \\u and \\U escapes', () => {
+      expect(translate('\\u00e9')).toBe('\\x{e9}');
+      expect(translate('\\U0001F600')).toBe('\\x{1f600}');
+      expect(translate('[\\u0000-\\uFFFF]')).toBe('[\\x{0}-\\x{ffff}]');
+      expect(() => translate('\\u{41}')).toThrow('incomplete escape \\u at position 0');
+      expect(() => translate('[\\u{41}]')).toThrow('incomplete escape \\u at position 1');
+      expect(() => translate('\\u12')).toThrow('incomplete escape \\u12 at position 0');
+      expect(() => translate('a\\U0001F60')).toThrow('incomplete escape \\U0001F60 at position 1');
+      expect(() => translate('\\U00110000')).toThrow('bad escape \\U00110000 at position 0');
+    });
+
+    it('should translate \\N{...} character names', () => {
+      expect(translate('\\N{EM DASH}')).toBe('\\x{2014}');
+      expect(translate('\\N{latin small letter e with acute}')).toBe('\\x{e9}');
+      expect(translate('\\N{BYTE ORDER MARK}')).toBe('\\x{feff}');
+      expect(translate('[\\N{DIGIT ZERO}-\\N{DIGIT NINE}]')).toBe('[\\x{30}-\\x{39}]');
+      expect(translate('\\N{CJK UNIFIED IDEOGRAPH-4E00}')).toBe('\\x{4e00}');
+      expect(translate('\\N{HANGUL SYLLABLE GAGS}')).toBe('\\x{ac03}');
+    });
+
+    it('should reject malformed \\N escapes', () => {
+      expect(() => translate('\\N')).toThrow('missing { at position 2');
+      expect(() => translate('\\N{')).toThrow('missing character name at position 3');
+      expect(() => translate('\\N{}')).toThrow('missing character name at position 3');
+      expect(() => translate('\\N{FOO')).toThrow('missing }, unterminated name at position 3');
+      expect(() => translate('\\N{FOO}')).toThrow("undefined character name 'FOO' at position 0");
+      expect(() => translate('[\\N{FOO}]')).toThrow("undefined character name 'FOO' at position 1");
+      expect(() => translate('\\N{hangul syllable ga}')).toThrow('undefined character name');
+    });
+
+    it('should reject unknown letter escapes like Python', () => {
+      expect(() => translate('\\q')).toThrow('bad escape \\q at position 0');
+      expect(() => translate('a\\e')).toThrow('bad escape \\e at position 1');
+      expect(() => translate('\\K')).toThrow('bad escape \\K');
+      expect(() => translate('\\k<a>')).toThrow('bad escape \\k');
+      expect(() => translate('[\\q]')).toThrow('bad escape \\q at position 1');
+      expect(() => translate('[\\A]')).toThrow('bad escape \\A at position 1');
+      expect(translate('\\a\\f\\n\\r\\t\\-')).toBe('\\a\\f\\n\\r\\t\\-');
+    });
+
+    it('should accept \\p{...} properties under the regex profile only', () => {
+      expect(translate('\\p{L}\\P{Lu}\\pN')).toBe('\\p{L}\\P{Lu}\\pN');
+      expect(translate('[\\p{L}_]')).toBe('[\\p{L}_]');
+      expect(() => translate('[\\p{L}-z]')).toThrow('bad character range \\p{L}-z');
+      expect(() => translate('\\p{L')).toThrow('missing }, unterminated name at position 3');
+      expect(() => translatePattern('\\p{L}', 0, 're')).toThrow('bad escape \\p at position 0');
+    });
+
+    it('should resolve octal escapes versus group references like Python', () => {
+      const tenGroups = '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)';
+      expect(translate(tenGroups + '\\10')).toBe(tenGroups + '\\g{10}');
+      expect(translate(tenGroups + '\\100')).toBe(tenGroups + '\\x{40}');
+      expect(translate('\\08')).toBe('\\x{0}8');
+      expect(() => translate('(a)\\10')).toThrow('invalid group reference 10 at position 4');
+      expect(() => translate('(a)\\8')).toThrow('invalid group reference 8 at position 4');
+      expect(() => translate('[\\8]')).toThrow('bad escape \\8 at position 1');
+      expect(translate('[\\18]')).toBe('[\\x{1}8]');
+    });
+
+    it('should translate \\v to a vertical tab', () => {
+      expect(translate('\\v')).toBe('\\x{b}');
+    });
+
+    it('should reject a trailing backslash', () => {
+      expect(() => translate('a\\')).toThrow('bad escape (end of pattern) at position 1');
+    });
+  });
+
+  describe('Anchors', () => {
+    it('should map anchors by their Python meaning', () => {
+      expect(translate('\\Aa\\Z')).toBe('\\Aa\\z');
+      expect(translate('^a$')).toBe('^a(?=\\n?\\z)');
+      expect(translate('^a$', RegexFlag.MULTILINE)).toBe('(?<![^\\n])a(?=\\n|\\z)');
+    });
+
+    it('should follow scoped and global MULTILINE flags', () => {
+      expect(translate('(?m)^a')).toBe('(?<![^\\n])a');
+      expect(translate('(?m:^a)$')).toBe('(?m:(?<![^\\n])a)(?=\\n?\\z)');
+      expect(translate('(?-m:^a)', RegexFlag.MULTILINE)).toBe('(?-m:^a)');
+    });
+
+    it('should reject PCRE anchors Python does not have', () => {
+      expect(() => translate('a\\z')).toThrow('bad escape \\z at position 1');
+      expect(() => translate('\\Ga')).toThrow('bad escape \\G at position 0');
+      expect(() => translate('[\\z]')).toThrow('bad escape \\z at position 1');
+    });
+  });
+
+  describe('Unicode shorthand classes', () => {
+    it('should spell out Python\'s Unicode \\s', () => {
+      expect(translate('\\s')).toContain('\\x{1c}-\\x{20}\\x{85}');
+      expect(translate('\\S')).toMatch(/^\[\^/);
+      expect(translate('[\\S]')).toContain('\\x{86}-\\x{9f}');
+      expect(translate('\\s', RegexFlag.ASCII)).toBe('\\s');
+    });
+
+    it('should leave \\w, \\d and \\b to PCRE\'s UCP mode', () => {
+      expect(translate('\\b\\w\\d\\W\\D\\B')).toBe('\\b\\w\\d\\W\\D\\B');
+    });
+  });
+
+  describe('Repeats', () => {
+    it('should translate Python-only repeat forms', () => {
+      expect(translate('a{,3}')).toBe('a{0,3}');
+      expect(translate('a{,}')).toBe('a{0,}');
+      expect(translate('a{2}b{1,}?c*+')).toBe('a{2}b{1,}?c*+');
+    });
+
+    it('should treat malformed braces as literals', () => {
+      expect(translate('a{}')).toBe('a\\{}');
+      expect(translate('a{x}')).toBe('a\\{x}');
+      expect(translate('a{1')).toBe('a\\{1');
+    });
+
+    it('should reject repeats Python rejects', () => {
+      expect(() => translate('*a')).toThrow('nothing to repeat at position 0');
+      expect(() => translate('a|+')).toThrow('nothing to repeat at position 2');
+      expect(() => translate('^*')).toThrow('nothing to repeat');
+      expect(() => translate('a**')).toThrow('multiple repeat at position 2');
+      expect(() => translate('a{2}{3}')).toThrow('multiple repeat at position 4');
+      expect(() => translate('a{3,2}')).toThrow('min repeat greater than max repeat at position 2');
+    });
+
+    it('should let verbose whitespace sit between an item and its repeat', () => {
+      expect(translate('a +', RegexFlag.VERBOSE)).toBe('a +');
+    });
+  });
+
+  describe('Groups', () => {
+    it('should reject unbalanced parentheses', () => {
+      expect(() => translate('a)')).toThrow('unbalanced parenthesis at position 1');
+      expect(() => translate('(a(b)')).toThrow('missing ), unterminated subpattern at position 0');
+    });
+
+    it('should drop (?#...) comments', () => {
+      expect(translate('a(?#note)b')).toBe('ab');
+      expect(() => translate('a(?#note')).toThrow('missing ), unterminated comment');
+    });
+
+    it('should reject unknown extensions', () => {
+      expect(() => translate('(?&x)')).toThrow('unknown extension ?& at position 1');
+      expect(() => translate('(?')).toThrow('unexpected end of pattern');
+    });
+
+    it('should pass lookarounds and atomic groups through', () => {
+      expect(translate('(?=a)(?!b)(?<=c)(?<!d)(?>e)')).toBe('(?=a)(?!b)(?<=c)(?<!d)(?>e)');
+    });
+
+    it('should list capturing groups in the order they close', () => {
+      expect(translatePattern('(a(b*))(?:c)(d)', 0).closeOrder).toEqual([2, 1, 3]);
+    });
+  });
+
+  describe('Backreferences and conditionals', () => {
+    it('should translate (?P=name) to a numbered backreference', () => {
+      expect(translate('(?P<q>a)(?P=q)')).toBe('(?<q>a)\\g{1}');
+      expect(translate('(?P<é>a)(?P=é)')).toBe('(a)\\g{1}');
+    });
+
+    it('should translate conditions on names to group numbers', () => {
+      expect(translate('(?P<p>\\()?x(?(p)\\))')).toBe('(?<p>\\()?x(?(1)\\))');
+      expect(translate('(a)?(?(1)b|c)')).toBe('(a)?(?(1)b|c)');
+    });
+
+    it('should allow numbered conditions on later groups', () => {
+      expect(translate('(?(1)a|b)(c)')).toBe('(?(1)a|b)(c)');
+    });
+
+    it('should reject bad references with Python messages', () => {
+      expect(() => translate('(?P=)')).toThrow('missing group name at position 4');
+      expect(() => translate('(?P=x')).toThrow('missing ), unterminated name at position 4');
+      expect(() => translate('(?P=1)')).toThrow("bad character in group name '1' at position 4");
+      expect(() => translate('(?P=x)')).toThrow("unknown group name 'x' at position 4");
+      expect(() => translate('(?P<x>(?P=x))')).toThrow('cannot refer to an open group at position 10');
+      expect(() => translate('(?(0)a)')).toThrow('bad group number at position 3');
+      expect(() => translate('(?(-1)a)')).toThrow("bad character in group name '-1' at position 3");
+      expect(() => translate('(?(2)a)(b)')).toThrow('invalid group reference 2 at position 3');
+      expect(() => translate('(a)(?(1)b|c|d)')).toThrow('conditional backref with more than two branches at position 11');
+    });
+
+    it('should allow alternation in groups nested inside a conditional', () => {
+      expect(translate('(a)(?(1)(b|c)|d)')).toBe('(a)(?(1)(b|c)|d)');
+    });
+  });
+
+  describe('Duplicate group names', () => {
+    it('should give a repeated name one group number and its own PCRE group', () => {
+      const result = translatePattern('(?P<a>x)(b)|(?P<a>y)', 0);
+      expect(result.pattern).toBe('(?<a>x)(b)|(y)');
+      expect(result.groups).toBe(2);
+      expect(result.groupIndex).toEqual({ a: 1 });
+      expect(result.pcreGroups).toEqual([[0], [1, 3], [2]]);
+    });
+
+    it('should map numbered backreferences to PCRE group numbers', () => {
+      expect(translate('(?P<a>x)|(?P<a>y)(z)\\2')).toBe('(?<a>x)|(y)(z)\\g{3}');
+      expect(translate('(?P<a>x)|(?P<a>y)\\1')).toBe('(?<a>x)|(y)(?(2)\\g{2}|(?(1)\\g{1}|(?!)))');
+    });
+
+    it('should test every group behind a repeated name in conditions', () => {
+      expect(translate('(?P<a>x)|(?P<a>y)(?(a)z)')).toBe('(?<a>x)|(y)(?(?=(?(2)|(?(1)|(?!))))z)');
+    });
+
+    it('should reject repeated names under the re profile', () => {
+      expect(() => translatePattern('(?P<a>x)|(?P<a>y)', 0, 're')).toThrow(
+        "redefinition of group name 'a' as group 2; was group 1 at position 13"
+      );
+    });
+  });
+
+  describe('Bytes patterns', () => {
+    const bytes = (pattern: string, flags = 0) => translatePattern(pattern, flags, 'regex', true);
+
+    it('should use ASCII classes without UCP', () => {
+      const result = bytes('\\w+\\s\\b');
+      expect(result.pattern).toBe('\\w+\\s\\b');
+      expect(result.ucp).toBe(false);
+    });
+
+    it('should spell bytes above 0x7f as escapes', () => {
+      expect(bytes('caf\xe9').pattern).toBe('caf\\x{e9}');
+      expect(bytes('[\xe0-\xff]').pattern).toBe('[\\x{e0}-\\x{ff}]');
+      expect(bytes('\\\xe9[\\\xe9]').pattern).toBe('\\x{e9}[\\x{e9}]');
+    });
+
+    it('should reject the u flag and allow the L flag', () => {
+      expect(() => bytes('(?u)a')).toThrow("bad inline flags: cannot use 'u' flag with a bytes pattern at position 3");
+      expect(() => bytes('(?iu:a)')).toThrow("cannot use 'u' flag with a bytes pattern at position 4");
+      expect(bytes('(?L)a').flags).toBe(RegexFlag.LOCALE);
+      expect(() => bytes('(?a)a', RegexFlag.LOCALE)).toThrow('ASCII and LOCALE flags are incompatible');
+    });
+
+    it('should reject Unicode escapes', () => {
+      expect(() => bytes('\\u0041')).toThrow('bad escape \\u at position 0');
+      expect(() => bytes('[\\U00000041]')).toThrow('bad escape \\U at position 1');
+      expect(() => bytes('\\N{DIGIT ONE}')).toThrow('bad escape \\N at position 0');
+    });
+  });
+});
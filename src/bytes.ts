@@ -0,0 +1,43 @@
+/**
+ * Bytes patterns and subjects. Internally a byte sequence is carried as a
+ * Latin-1 string, one character per byte, so the string-based translation
+ * and matching code serves both and offsets stay byte offsets.
+ */
+
+/** Bytes per String.fromCharCode call, well below engine argument limits */
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Whether a value is bytes: a Uint8Array, which includes Node's Buffer
+ */
+export function isBytes(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
+
+/**
+ * Bytes as a Latin-1 string. TextDecoder is no use here: its 'latin1' label
+ * means windows-1252, which remaps 0x80-0x9f.
+ */
+export function bytesToLatin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    text += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return text;
+}
+
+/**
+ * A Latin-1 string back as bytes
+ */
+export function latin1ToBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * The UTF-8 encoding of a string, as a Latin-1 string
+ */
+export function utf8ToLatin1(text: string): string {
+  return bytesToLatin1(new TextEncoder().encode(text));
+}
@@ -0,0 +1,78 @@
+/**
+ * Statistics reported by regex.cacheInfo()
+ */
+export interface CacheInfo {
+  hits: number;
+  misses: number;
+  size: number;
+  maxSize: number;
+}
+
+/** Python's re module keeps up to 512 compiled patterns (re._MAXCACHE) */
+export const DEFAULT_CACHE_SIZE = 512;
+
+/**
+ * Least-recently-used cache for compiled patterns, used by the module-level
+ * regex.search()/regex.sub()/... functions like Python's internal re cache.
+ * Relies on Map preserving insertion order: the first key is the oldest.
+ */
+export class PatternCache<T> {
+  private entries = new Map<string, T>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private maxSize: number = DEFAULT_CACHE_SIZE) {}
+
+  /**
+   * Return the cached value for key, creating (and caching) it on a miss
+   */
+  get(key: string, create: () => T): T {
+    if (this.entries.has(key)) {
+      const value = this.entries.get(key)!;
+      // Move to the most-recently-used end
+      this.entries.delete(key);
+      this.entries.set(key, value);
+      this.hits++;
+      return value;
+    }
+
+    this.misses++;
+    const value = create();
+    if (this.maxSize > 0) {
+      this.entries.set(key, value);
+      this.evict();
+    }
+    return value;
+  }
+
+  /**
+   * Change the maximum number of entries; 0 disables caching
+   */
+  resize(maxSize: number): void {
+    if (!Number.isInteger(maxSize) || maxSize < 0) {
+      throw new Error(`Invalid cache size: ${maxSize}`);
+    }
+    this.maxSize = maxSize;
+    this.evict();
+  }
+
+  /**
+   * Remove every entry and reset the hit/miss counters
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  info(): CacheInfo {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size, maxSize: this.maxSize };
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
@@ -1,4 +1,7 @@
 import { PCRE, PCRERegex, PCREMatch } from '@syntropiq/libpcre-ts';
+import { RegexFlag } from './flags.js';
+import { PatternError } from './errors.js';
+import { Profile, sourceOffset, translatePattern, TranslatedPattern } from './translate.js';
 
 let _pcreInstance: any = null;
 let _initPromise: Promise<any> | null = null;
@@ -22,38 +25,174 @@ async function getPCREInstance(): Promise<any> {
 }
 
 /**
- * Convert Python named capture groups (?P<name>...) to PCRE format (?<name>...)
+ * Load the PCRE engine. Once this resolves, the synchronous APIs can be used.
+ */
+export async function initPCRE(): Promise<void> {
+  await getPCREInstance();
+}
+
+/**
+ * Whether the PCRE engine has finished loading
+ */
+export function isPCREReady(): boolean {
+  return _pcreInstance !== null;
+}
+
+/**
+ * Get the PCRE instance for synchronous use, failing clearly if it isn't loaded yet
+ */
+function requirePCREInstance(): any {
+  if (!_pcreInstance) {
+    throw new Error('PCRE engine is not initialized: call `await regex.init()` before using synchronous APIs');
+  }
+  return _pcreInstance;
+}
+
+/**
+ * Get the PCRE option constants, including exec-time options like NOTEMPTY_ATSTART
+ */
+export async function getPCREConstants(): Promise<Record<string, number>> {
+  await getPCREInstance();
+  return getPCREConstantsSync();
+}
+
+export function getPCREConstantsSync(): Record<string, number> {
+  return requirePCREInstance().constants;
+}
+
+/**
+ * Map Python regex flags onto PCRE compile options.
+ * ASCII needs no option: without UCP, PCRE's \w, \d, \s and \b are ASCII-only.
+ * Bytes patterns run without UTF8, so PCRE reads the subject byte by byte.
+ */
+function flagsToOptions(pcre: any, { flags, ucp }: TranslatedPattern, bytes: boolean): number {
+  let opts = bytes ? 0 : pcre.constants.UTF8;
+  if (flags & RegexFlag.IGNORECASE) opts |= pcre.constants.CASELESS;
+  if (flags & RegexFlag.MULTILINE) opts |= pcre.constants.MULTILINE;
+  if (flags & RegexFlag.DOTALL) opts |= pcre.constants.DOTALL;
+  if (flags & RegexFlag.VERBOSE) opts |= pcre.constants.EXTENDED;
+  if (ucp) opts |= pcre.constants.UCP;
+  return opts;
+}
+
+/**
+ * Per-pattern caps on PCRE's backtracking, in pcre_exec's units. They can
+ * lower PCRE's built-in limits but not raise them, so neither may exceed
+ * PCRE_MAX_LIMIT.
+ */
+export interface PCRELimits {
+  matchLimit?: number;
+  recursionLimit?: number;
+}
+
+/** PCRE's built-in match and recursion limits, the most either limit can be */
+export const PCRE_MAX_LIMIT = 10000000;
+
+/** pcre_exec's error codes for the match and recursion limits */
+const PCRE_ERROR_MATCHLIMIT = -8;
+const PCRE_ERROR_RECURSIONLIMIT = -21;
+
+/**
+ * Start-of-pattern verbs that lower PCRE's match and recursion limits for
+ * one pattern, e.g. (*LIMIT_MATCH=10000); they can only lower the built-in
+ * limits, never raise them
+ */
+function limitVerbs({ matchLimit, recursionLimit }: PCRELimits): string {
+  let verbs = '';
+  if (matchLimit !== undefined) verbs += `(*LIMIT_MATCH=${matchLimit})`;
+  if (recursionLimit !== undefined) verbs += `(*LIMIT_RECURSION=${recursionLimit})`;
+  return verbs;
+}
+
+/**
+ * Which limit a failed exec ran into, if the failure was one of PCRE's
+ * limit errors: from the error's numeric code or, failing that, the code or
+ * name in its message
+ */
+export function execLimitHit(error: unknown): keyof PCRELimits | null {
+  const message = String((error as any)?.message ?? error);
+  const code = typeof (error as any)?.code === 'number' ? (error as any).code : Number(/-\d+/.exec(message)?.[0]);
+  if (code === PCRE_ERROR_MATCHLIMIT || /MATCHLIMIT|match limit/i.test(message)) return 'matchLimit';
+  if (code === PCRE_ERROR_RECURSIONLIMIT || /RECURSIONLIMIT|recursion limit/i.test(message)) return 'recursionLimit';
+  return null;
+}
+
+/**
+ * A PCRE compile failure as a PatternError, with PCRE's offset into the
+ * compiled source (after `prefixLength` wrapper characters) mapped back to
+ * the pattern
+ */
+function compileError(pattern: string, translated: TranslatedPattern, error: any, prefixLength = 0): PatternError {
+  const message = String(error?.message || error).replace(/^PCRE compilation failed: /, '');
+  const offset = / at offset (\d+)$/.exec(message);
+  if (!offset) {
+    return new PatternError(message, pattern);
+  }
+  const pos = sourceOffset(translated, Math.max(Number(offset[1]) - prefixLength, 0), pattern.length);
+  return new PatternError(message.slice(0, offset.index), pattern, pos);
+}
+
+/**
+ * Translate a pattern for PCRE, which can't do the regex module's fuzzy
+ * matching: fuzzy patterns only work through regex.compile()
+ */
+function translateForPCRE(pattern: string, flags: number, bytes: boolean, profile: Profile): TranslatedPattern {
+  const translated = translatePattern(pattern, flags, profile, bytes);
+  if (translated.fuzzy) throw new PatternError('fuzzy matching needs regex.compile(), not a PCRE regex', pattern);
+  return translated;
+}
+
+/**
+ * Translate Python pattern syntax, such as named groups (?P<name>...), to PCRE
  */
 export function convertNamedGroups(pattern: string): string {
-  return pattern.replace(/\(\?P<([^>]+)>/g, '(?<$1>');
+  return translatePattern(pattern, 0).pattern;
 }
 
 /**
  * Compile a PCRE regex with fullmatch semantics (like Python's re.fullmatch).
- * Anchors the pattern at both ends and uses ANCHORED, UTF8, and UNICODE options.
+ * Anchored at the start offset by the ANCHORED option and at the very end of
+ * the subject by \z, so a|b, lookarounds and trailing newlines behave as in
+ * Python.
  */
-export async function compileRegex(pattern: string): Promise<PCRERegex> {
-  const pcre = await getPCREInstance();
-  
-  // Validate pattern before compilation
-  if (!validatePattern(pattern)) {
-    throw new Error(`Invalid regex pattern: '${pattern}'`);
-  }
+export async function compileRegex(
+  pattern: string,
+  flags: number = 0,
+  bytes = false,
+  limits: PCRELimits = {},
+  profile: Profile = 'regex'
+): Promise<PCRERegex> {
+  await getPCREInstance();
+  return compileRegexSync(pattern, flags, bytes, limits, profile);
+}
+
+export function compileRegexSync(
+  pattern: string,
+  flags: number = 0,
+  bytes = false,
+  limits: PCRELimits = {},
+  profile: Profile = 'regex'
+): PCRERegex {
+  const pcre = requirePCREInstance();
   
-  // Convert named groups from Python to PCRE format
-  const pcrePattern = convertNamedGroups(pattern);
+  // Translate Python syntax (groups, escapes, inline flags) to PCRE, raising Python's errors
+  const translated = translateForPCRE(pattern, flags, bytes, profile);
+  const pcrePattern = translated.pattern;
   
-  // Use ANCHORED and UTF8 options for Python-like fullmatch
-  const opts = pcre.constants.ANCHORED | pcre.constants.UTF8;
+  // Use ANCHORED (and UTF8 for str patterns) for Python-like fullmatch
+  const opts = pcre.constants.ANCHORED | flagsToOptions(pcre, translated, bytes);
   
-  // Always anchor at both ends for fullmatch semantics
-  const anchoredPattern = pcrePattern.startsWith('^') ? pcrePattern : '^' + pcrePattern;
-  const finalPattern = anchoredPattern.endsWith('$') ? anchoredPattern : anchoredPattern + '$';
+  // ANCHORED pins the start (at any start offset, unlike ^). The group keeps
+  // alternatives together under \z, which unlike $ does not match before a
+  // final newline; in verbose mode a newline ends any trailing comment first.
+  const body = translated.flags & RegexFlag.VERBOSE ? pcrePattern + '\n' : pcrePattern;
+  const prefix = limitVerbs(limits) + '(?:';
+  const finalPattern = `${prefix}${body})\\z`;
   
   try {
     return pcre.compile(finalPattern, opts);
   } catch (error: any) {
-    throw new Error(`Failed to compile regex pattern '${pattern}': ${error?.message || error}`);
+    throw compileError(pattern, translated, error, prefix.length);
   }
 }
 
@@ -61,78 +200,72 @@ export async function compileRegex(pattern: string): Promise<PCRERegex> {
  * Compile a regex pattern using PCRE without fullmatch anchoring
  * Useful for partial matching or when you want to control anchoring manually
  */
-export async function compileRegexPartial(pattern: string): Promise<PCRERegex> {
-  const pcre = await getPCREInstance();
-  
-  // Validate pattern before compilation
-  if (!validatePattern(pattern)) {
-    throw new Error(`Invalid regex pattern: '${pattern}'`);
-  }
-  
-  // Convert named groups from Python to PCRE format
-  const pcrePattern = convertNamedGroups(pattern);
-  
-  // Use UTF8 option but not ANCHORED for partial matching (search functionality)
-  const opts = pcre.constants.UTF8;
-  
-  try {
-    return pcre.compile(pcrePattern, opts);
-  } catch (error: any) {
-    throw new Error(`Failed to compile regex pattern '${pattern}': ${error?.message || error}`);
-  }
+export async function compileRegexPartial(
+  pattern: string,
+  flags: number = 0,
+  bytes = false,
+  limits: PCRELimits = {},
+  profile: Profile = 'regex'
+): Promise<PCRERegex> {
+  await getPCREInstance();
+  return compileRegexPartialSync(pattern, flags, bytes, limits, profile);
 }
 
-export async function compileRegexAnchored(pattern: string): Promise<PCRERegex> {
-  const pcre = await getPCREInstance();
-  
-  // Validate pattern before compilation
-  if (!validatePattern(pattern)) {
-    throw new Error(`Invalid regex pattern: '${pattern}'`);
-  }
+export function compileRegexPartialSync(
+  pattern: string,
+  flags: number = 0,
+  bytes = false,
+  limits: PCRELimits = {},
+  profile: Profile = 'regex'
+): PCRERegex {
+  const pcre = requirePCREInstance();
   
-  // Convert named groups from Python to PCRE format
-  const pcrePattern = convertNamedGroups(pattern);
+  // Translate Python syntax (groups, escapes, inline flags) to PCRE, raising Python's errors
+  const translated = translateForPCRE(pattern, flags, bytes, profile);
+  const pcrePattern = translated.pattern;
   
-  // Use ANCHORED and UTF8 options for position-exact matching
-  const opts = pcre.constants.ANCHORED | pcre.constants.UTF8;
+  // Not ANCHORED for partial matching (search functionality)
+  const opts = flagsToOptions(pcre, translated, bytes);
   
+  const verbs = limitVerbs(limits);
   try {
-    return pcre.compile(pcrePattern, opts);
+    return pcre.compile(verbs + pcrePattern, opts);
   } catch (error: any) {
-    throw new Error(`Failed to compile regex pattern '${pattern}': ${error?.message || error}`);
+    throw compileError(pattern, translated, error, verbs.length);
   }
 }
 
-/**
- * Validate regex pattern for common invalid constructs
- */
-function validatePattern(pattern: string): boolean {
-  // Check for invalid named group patterns
-  const invalidNamedGroups = [
-    /\(\?P<>\w*\)/,           // Empty named group (?P<>...)
-    /\(\?P<\d+>/,             // Named group starting with digit (?P<123>...)
-    /\(\?P<[^>]*$/,           // Unclosed named group (?P<name...
-    /\(\?P\w+>/               // Malformed syntax (?Pname>...)
-  ];
+export async function compileRegexAnchored(
+  pattern: string,
+  flags: number = 0,
+  bytes = false,
+  limits: PCRELimits = {},
+  profile: Profile = 'regex'
+): Promise<PCRERegex> {
+  await getPCREInstance();
+  return compileRegexAnchoredSync(pattern, flags, bytes, limits, profile);
+}
+
+export function compileRegexAnchoredSync(
+  pattern: string,
+  flags: number = 0,
+  bytes = false,
+  limits: PCRELimits = {},
+  profile: Profile = 'regex'
+): PCRERegex {
+  const pcre = requirePCREInstance();
   
-  for (const invalidPattern of invalidNamedGroups) {
-    if (invalidPattern.test(pattern)) {
-      return false;
-    }
-  }
+  // Translate Python syntax (groups, escapes, inline flags) to PCRE, raising Python's errors
+  const translated = translateForPCRE(pattern, flags, bytes, profile);
+  const pcrePattern = translated.pattern;
   
-  // Check for other invalid constructs
-  const invalidConstructs = [
-    /^\*/,                    // Starting with quantifier
-    /\[(?![^\]]*\])/,         // Unclosed bracket
-    /\((?![^)]*\))/           // Unclosed parenthesis (basic check)
-  ];
+  // Use ANCHORED (and UTF8 for str patterns) for position-exact matching
+  const opts = pcre.constants.ANCHORED | flagsToOptions(pcre, translated, bytes);
   
-  for (const invalidConstruct of invalidConstructs) {
-    if (invalidConstruct.test(pattern)) {
-      return false;
-    }
+  const verbs = limitVerbs(limits);
+  try {
+    return pcre.compile(verbs + pcrePattern, opts);
+  } catch (error: any) {
+    throw compileError(pattern, translated, error, verbs.length);
   }
-  
-  return true;
 }
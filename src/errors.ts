@@ -0,0 +1,69 @@
+/**
+ * Raised for invalid patterns and replacement templates, like Python's
+ * re.error (re.PatternError in Python 3.13). The message carries the
+ * position, plus the line and column for multi-line patterns:
+ * "missing ), unterminated subpattern at position 0".
+ */
+export class PatternError extends Error {
+  /** The unformatted error message */
+  readonly msg: string;
+  /** The pattern (or template) being parsed */
+  readonly pattern: string | null;
+  /** Index into `pattern` where the error was found */
+  readonly pos: number | null;
+  /** Line of `pos`, counting from 1 */
+  readonly lineno: number | null;
+  /** Column of `pos`, counting from 1 */
+  readonly colno: number | null;
+
+  constructor(msg: string, pattern: string | null = null, pos: number | null = null) {
+    let message = msg;
+    let lineno: number | null = null;
+    let colno: number | null = null;
+    if (pattern !== null && pos !== null) {
+      message = `${msg} at position ${pos}`;
+      const before = pattern.slice(0, pos);
+      lineno = before.split('\n').length;
+      colno = pos - before.lastIndexOf('\n');
+      if (pattern.includes('\n')) {
+        message += ` (line ${lineno}, column ${colno})`;
+      }
+    }
+
+    super(message);
+    this.name = 'PatternError';
+    this.msg = msg;
+    this.pattern = pattern;
+    this.pos = pos;
+    this.lineno = lineno;
+    this.colno = colno;
+  }
+}
+
+/** The limits a match can run into */
+export type MatchLimitName = 'matchLimit' | 'recursionLimit' | 'timeoutMs';
+
+const LIMIT_MESSAGES: Record<MatchLimitName, string> = {
+  matchLimit: 'match limit exceeded',
+  recursionLimit: 'recursion limit exceeded',
+  timeoutMs: 'regex timed out',
+};
+
+/**
+ * Raised when matching runs into a limit: PCRE's match or recursion limit,
+ * or the time budget, like the regex module's TimeoutError.
+ * "match limit exceeded (matchLimit: 10000)"
+ */
+export class RegexTimeoutError extends Error {
+  /** The limit that was hit */
+  readonly limit: MatchLimitName;
+  /** Its value, or null for PCRE's built-in limit */
+  readonly value: number | null;
+
+  constructor(limit: MatchLimitName, value: number | null = null) {
+    super(value === null ? LIMIT_MESSAGES[limit] : `${LIMIT_MESSAGES[limit]} (${limit}: ${value})`);
+    this.name = 'RegexTimeoutError';
+    this.limit = limit;
+    this.value = value;
+  }
+}
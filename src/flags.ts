@@ -0,0 +1,88 @@
+/**
+ * Python-compatible regex flags (mirrors Python's re.RegexFlag).
+ * Values match CPython so flags combine with bitwise-or just like `re.I | re.M`.
+ */
+export const RegexFlag = {
+  NOFLAG: 0,
+  IGNORECASE: 2,
+  LOCALE: 4,
+  MULTILINE: 8,
+  DOTALL: 16,
+  UNICODE: 32,
+  VERBOSE: 64,
+  ASCII: 256,
+  // Fuzzy matching flags of the third-party regex module
+  BESTMATCH: 0x1000,
+  ENHANCEMATCH: 0x8000,
+
+  // Single-letter aliases, as in Python
+  I: 2,
+  L: 4,
+  M: 8,
+  S: 16,
+  U: 32,
+  X: 64,
+  A: 256,
+  B: 0x1000,
+  E: 0x8000,
+} as const;
+
+export type RegexFlags = number;
+
+/**
+ * Flag letters accepted in the string form, e.g. regex.compile('abc', 'im').
+ * These are the same letters Python uses for inline flags like (?im).
+ */
+const FLAG_LETTERS: Record<string, number> = {
+  a: RegexFlag.ASCII,
+  b: RegexFlag.BESTMATCH,
+  e: RegexFlag.ENHANCEMATCH,
+  i: RegexFlag.IGNORECASE,
+  L: RegexFlag.LOCALE,
+  m: RegexFlag.MULTILINE,
+  s: RegexFlag.DOTALL,
+  u: RegexFlag.UNICODE,
+  x: RegexFlag.VERBOSE,
+};
+
+const ALL_FLAGS = Object.values(FLAG_LETTERS).reduce((acc, flag) => acc | flag, 0);
+
+/**
+ * Normalize a flags argument (number, letter string, or undefined) to a bitmask.
+ * Throws on unknown letters/bits and on combinations Python rejects for str
+ * patterns, or for bytes patterns if `bytes` is set.
+ */
+export function parseFlags(flags?: RegexFlags | string, bytes = false): number {
+  let value = 0;
+
+  if (typeof flags === 'string') {
+    for (const letter of flags) {
+      const flag = FLAG_LETTERS[letter];
+      if (flag === undefined) {
+        throw new Error(`Unknown regex flag: '${letter}'`);
+      }
+      value |= flag;
+    }
+  } else if (flags !== undefined && flags !== null) {
+    if (!Number.isInteger(flags) || flags < 0 || (flags & ~ALL_FLAGS) !== 0) {
+      throw new Error(`Invalid regex flags: ${flags}`);
+    }
+    value = flags;
+  }
+
+  if (bytes) {
+    if (value & RegexFlag.UNICODE) {
+      throw new Error('cannot use UNICODE flag with a bytes pattern');
+    }
+    if ((value & RegexFlag.ASCII) && (value & RegexFlag.LOCALE)) {
+      throw new Error('ASCII and LOCALE flags are incompatible');
+    }
+  } else if (value & RegexFlag.LOCALE) {
+    throw new Error('cannot use LOCALE flag with a str pattern');
+  }
+  if ((value & RegexFlag.ASCII) && (value & RegexFlag.UNICODE)) {
+    throw new Error('ASCII and UNICODE flags are incompatible');
+  }
+
+  return value;
+}
@@ -0,0 +1,793 @@
+import { RegexTimeoutError } from './errors';
+import { RegexFlag } from './flags';
+import { AnchorKind, caseVariants, CharSet, SyntaxNode, SyntaxParser, wordSet } from './syntax';
+import { FuzzyConstraint, Profile } from './translate';
+
+/**
+ * Matching engine for patterns with the regex module's fuzzy constraints,
+ * such as (?:Ala\. Admin\. Code){e<=2}, which PCRE has no equivalent for.
+ *
+ * The pattern is compiled to a program for a backtracking machine that
+ * follows the regex module's order of trying things: at each character of a
+ * fuzzy item the exact match comes first, and only if it fails are a
+ * substitution, an insertion (an extra character in the text) and a
+ * deletion (a pattern character missing from the text) tried, in that
+ * order, within the item's limits. A fuzzy item may also take inserted
+ * characters at its end when what follows it fails to match.
+ */
+
+/** Where a fuzzy match differs from the pattern, as the regex module reports it */
+export interface FuzzyDetails {
+  /** Numbers of substitutions, insertions and deletions (Match.fuzzy_counts) */
+  counts: [number, number, number];
+  /**
+   * Their positions (Match.fuzzy_changes): the text position of each
+   * substitution and insertion, and for a deletion the text position plus
+   * the number of deletions before it
+   */
+  changes: [number[], number[], number[]];
+}
+
+/** A captured group, or index -1 if it did not participate */
+export interface FuzzyGroup {
+  index: number;
+  value: string;
+}
+
+/** A match's groups by Python group number, as compile.ts's PCRE matches give them */
+export interface FuzzyMatch extends Array<FuzzyGroup> {
+  fuzzy: FuzzyDetails;
+}
+
+/** How a match is anchored, after the three compiled forms of a PCRE pattern */
+export type FuzzyMode = 'fullmatch' | 'anchored' | 'partial';
+
+/** Caps on the machine's work, in place of PCRE's */
+export interface FuzzyLimits {
+  /** Steps from each start position an exec() tries */
+  matchLimit?: number;
+  /** Backtracking points pending at once */
+  recursionLimit?: number;
+}
+
+/** PCRE's built-in match limit, used when no limit is given */
+const DEFAULT_LIMIT = 10000000;
+
+/** Kinds of error, in the order of Match.fuzzy_counts */
+const SUBSTITUTION = 0;
+const INSERTION = 1;
+const DELETION = 2;
+
+/** The limits of a fuzzy item, with Infinity for no limit */
+interface Budget {
+  /** Most substitutions, insertions and deletions, then errors of any kind */
+  max: [number, number, number, number];
+  min: [number, number, number, number];
+  cost: [number, number, number] | null;
+  maxCost: number;
+  /** What error characters must match */
+  test: CharSet | null;
+}
+
+type Instruction =
+  | { op: 'char'; set: CharSet }
+  | { op: 'split'; alt: number }
+  | { op: 'jump'; to: number }
+  | { op: 'save'; slot: number }
+  | { op: 'anchor'; kind: AnchorKind; word: CharSet }
+  | { op: 'backref'; group: number; ignoreCase: boolean; unicode: boolean }
+  | { op: 'cond'; group: number; no: number }
+  | { op: 'repeatStart' }
+  | { op: 'repeatCheck'; min: number; max: number | null; lazy: boolean; exit: number }
+  | { op: 'repeatNext'; min: number; loop: number; exit: number }
+  | { op: 'repeatEnd' }
+  | { op: 'atomic'; body: Instruction[] }
+  | { op: 'look'; body: Instruction[]; behind: boolean; negated: boolean; width: [number, number | null] }
+  | { op: 'fuzzyStart'; item: number; budget: Budget }
+  | { op: 'fuzzyEnd' }
+  | { op: 'match' };
+
+/**
+ * Iteration count, and where the iteration started with the errors made
+ * by then, for each repeat being matched, innermost first
+ */
+interface Counter {
+  count: number;
+  start: number;
+  errors: number;
+  outer: Counter | null;
+}
+
+/** Errors made so far in each fuzzy item being matched, innermost first */
+interface FuzzyFrame {
+  item: number;
+  budget: Budget;
+  errors: [number, number, number];
+  outer: FuzzyFrame | null;
+}
+
+/** One error, in a list of the errors made so far, latest first */
+interface Change {
+  kind: number;
+  pos: number;
+  previous: Change | null;
+}
+
+/**
+ * State of the machine; a pending alternative is a saved copy. Everything
+ * it refers to is shared between copies and never modified.
+ */
+interface Thread {
+  pc: number;
+  pos: number;
+  slots: number[];
+  counters: Counter | null;
+  fuzzy: FuzzyFrame | null;
+  errors: [number, number, number];
+  /** Errors each fuzzy item made the last time it was matched */
+  itemErrors: number[];
+  /** How much of the group a backreference in a fuzzy item has matched so far */
+  ref: number;
+  changes: Change | null;
+}
+
+/**
+ * A fuzzy pattern compiled for the machine
+ */
+export interface FuzzyProgram {
+  main: Instruction[];
+  groups: number;
+  items: number;
+  /** Whether the pattern starts with ^ or \A, so a search can only match at the start */
+  anchored: boolean;
+  flags: number;
+  bytes: boolean;
+}
+
+/**
+ * Compile a pattern that translatePattern() has accepted and found fuzzy.
+ * `flags` are the flags in effect, inline global flags included.
+ */
+export function compileFuzzy(pattern: string, flags: number, profile: Profile = 'regex', bytes = false): FuzzyProgram {
+  const root = new SyntaxParser(pattern, flags, profile, bytes).parse();
+  const compiler = new Compiler(bytes);
+  const main = compiler.program(root);
+  return { main, groups: compiler.groups, items: compiler.items, anchored: anchoredAtStart(root), flags, bytes };
+}
+
+function anchoredAtStart(node: SyntaxNode): boolean {
+  switch (node.type) {
+    case 'anchor':
+      return node.kind === 'start' || node.kind === 'textStart';
+    case 'seq':
+      return anchoredAtStart(node.items[0]);
+    case 'alt':
+      return node.branches.every(anchoredAtStart);
+    case 'group':
+      return anchoredAtStart(node.body);
+    default:
+      return false;
+  }
+}
+
+class Compiler {
+  groups = 0;
+  items = 0;
+
+  constructor(private readonly bytes: boolean) {}
+
+  program(node: SyntaxNode): Instruction[] {
+    const code: Instruction[] = [];
+    this.emit(node, code);
+    code.push({ op: 'match' });
+    return code;
+  }
+
+  private emit(node: SyntaxNode, code: Instruction[]): void {
+    switch (node.type) {
+      case 'set':
+        code.push({ op: 'char', set: node.set });
+        return;
+      case 'seq':
+        for (const item of node.items) this.emit(item, code);
+        return;
+      case 'alt': {
+        const jumps: Array<{ op: 'jump'; to: number }> = [];
+        node.branches.forEach((branch, index) => {
+          const last = index === node.branches.length - 1;
+          const split = { op: 'split' as const, alt: -1 };
+          if (!last) code.push(split);
+          this.emit(branch, code);
+          if (!last) {
+            const jump = { op: 'jump' as const, to: -1 };
+            jumps.push(jump);
+            code.push(jump);
+            split.alt = code.length;
+          }
+        });
+        for (const jump of jumps) jump.to = code.length;
+        return;
+      }
+      case 'repeat':
+        this.repeat(node, code);
+        return;
+      case 'group':
+        this.groups = Math.max(this.groups, node.index);
+        code.push({ op: 'save', slot: 2 * node.index });
+        this.emit(node.body, code);
+        code.push({ op: 'save', slot: 2 * node.index + 1 });
+        return;
+      case 'atomic':
+        code.push({ op: 'atomic', body: this.program(node.body) });
+        return;
+      case 'look':
+        code.push({
+          op: 'look',
+          body: this.program(node.body),
+          behind: node.behind,
+          negated: node.negated,
+          width: this.width(node.body),
+        });
+        return;
+      case 'anchor':
+        code.push({ op: 'anchor', kind: node.kind, word: wordSet(node.unicode) });
+        return;
+      case 'backref':
+        code.push({ op: 'backref', group: node.group, ignoreCase: node.ignoreCase, unicode: node.unicode });
+        return;
+      case 'cond': {
+        const cond = { op: 'cond' as const, group: node.group, no: -1 };
+        code.push(cond);
+        this.emit(node.yes, code);
+        const jump = { op: 'jump' as const, to: -1 };
+        code.push(jump);
+        cond.no = code.length;
+        this.emit(node.no, code);
+        jump.to = code.length;
+        return;
+      }
+      case 'fuzzy':
+        code.push({ op: 'fuzzyStart', item: this.items++, budget: budget(node.constraint, node.test) });
+        this.emit(node.body, code);
+        code.push({ op: 'fuzzyEnd' });
+        return;
+      case 'empty':
+        return;
+    }
+  }
+
+  /**
+   * A repeat as a loop with a counter; a possessive repeat is an atomic
+   * group around the greedy one
+   */
+  private repeat(node: Extract<SyntaxNode, { type: 'repeat' }>, code: Instruction[]): void {
+    if (node.possessive) {
+      const inner: Instruction[] = [];
+      this.repeat({ ...node, possessive: false }, inner);
+      inner.push({ op: 'match' });
+      code.push({ op: 'atomic', body: inner });
+      return;
+    }
+    const { min, max, lazy } = node;
+    code.push({ op: 'repeatStart' });
+    const loop = code.length;
+    const check = { op: 'repeatCheck' as const, min, max, lazy, exit: -1 };
+    code.push(check);
+    this.emit(node.body, code);
+    const next = { op: 'repeatNext' as const, min, loop, exit: -1 };
+    code.push(next);
+    check.exit = next.exit = code.length;
+    code.push({ op: 'repeatEnd' });
+  }
+
+  /**
+   * Least and most code units a lookbehind's body can match (null for no
+   * limit), so only the start positions that can work are tried
+   */
+  private width(node: SyntaxNode): [number, number | null] {
+    switch (node.type) {
+      case 'set':
+        return [1, this.bytes ? 1 : 2];
+      case 'seq':
+        return node.items.map(item => this.width(item)).reduce(addWidths, [0, 0]);
+      case 'alt': {
+        const widths = node.branches.map(branch => this.width(branch));
+        const maxes = widths.map(([, most]) => most);
+        return [Math.min(...widths.map(([least]) => least)), maxes.includes(null) ? null : Math.max(...(maxes as number[]))];
+      }
+      case 'repeat': {
+        const [least, most] = this.width(node.body);
+        return [least * node.min, node.max === null || (most === null && node.max > 0) ? null : (most ?? 0) * node.max];
+      }
+      case 'group':
+      case 'atomic':
+        return this.width(node.body);
+      case 'cond': {
+        const [yes, no] = [this.width(node.yes), this.width(node.no)];
+        return [Math.min(yes[0], no[0]), yes[1] === null || no[1] === null ? null : Math.max(yes[1], no[1])];
+      }
+      case 'backref':
+      case 'fuzzy':
+        return [0, null];
+      default:
+        return [0, 0];
+    }
+  }
+}
+
+function addWidths(a: [number, number | null], b: [number, number | null]): [number, number | null] {
+  return [a[0] + b[0], a[1] === null || b[1] === null ? null : a[1] + b[1]];
+}
+
+/**
+ * The limits a constraint sets. Kinds of error it doesn't mention are
+ * forbidden if it mentions any of i, d and s, and otherwise only limited
+ * by e and the cost equation.
+ */
+function budget({ limits, cost }: FuzzyConstraint, test: CharSet | null): Budget {
+  const kinds = ['s', 'i', 'd', 'e'] as const;
+  const restricted = kinds.slice(0, 3).some(kind => limits[kind]);
+  const max = kinds.map(kind => {
+    const limit = limits[kind];
+    if (limit) return limit[1] ?? Infinity;
+    return restricted && kind !== 'e' ? 0 : Infinity;
+  });
+  const min = kinds.map(kind => limits[kind]?.[0] ?? 0);
+  return {
+    max: max as Budget['max'],
+    min: min as Budget['min'],
+    cost: cost && [cost.s, cost.i, cost.d],
+    maxCost: cost ? cost.max : Infinity,
+    test,
+  };
+}
+
+/**
+ * Whether a fuzzy item's limits allow one more error of `kind` where the
+ * text has `cp` (-1 at the end). The items it is inside must allow it too.
+ */
+function allows(frame: FuzzyFrame | null, kind: number, cp: number): boolean {
+  if (!frame) return true;
+  const { budget, errors } = frame;
+  if (errors[kind] >= budget.max[kind] || errors[0] + errors[1] + errors[2] >= budget.max[3]) return false;
+  if (kind !== DELETION && (cp < 0 || (budget.test && !budget.test(cp)))) return false;
+  if (budget.cost) {
+    const spent = budget.cost[0] * errors[0] + budget.cost[1] * errors[1] + budget.cost[2] * errors[2];
+    if (spent + budget.cost[kind] > budget.maxCost) return false;
+  }
+  return allows(frame.outer, kind, cp);
+}
+
+/** A fuzzy item and the items it is inside after an error of `kind` */
+function charge(frame: FuzzyFrame | null, kind: number): FuzzyFrame | null {
+  return frame && { ...frame, errors: withError(frame.errors, kind), outer: charge(frame.outer, kind) };
+}
+
+function satisfied({ budget, errors }: FuzzyFrame): boolean {
+  const total = errors[0] + errors[1] + errors[2];
+  return errors.every((count, kind) => count >= budget.min[kind]) && total >= budget.min[3];
+}
+
+function withError(values: [number, number, number], kind: number): [number, number, number] {
+  const next: [number, number, number] = [...values];
+  next[kind]++;
+  return next;
+}
+
+/**
+ * One exec() over a subject: the machine and what it needs to know about
+ * the call
+ */
+class Run {
+  private steps = 0;
+  private readonly matchLimit: number;
+  private readonly recursionLimit: number;
+
+  constructor(
+    private readonly text: string,
+    private readonly program: FuzzyProgram,
+    private readonly limits: FuzzyLimits
+  ) {
+    this.matchLimit = limits.matchLimit ?? DEFAULT_LIMIT;
+    this.recursionLimit = limits.recursionLimit ?? DEFAULT_LIMIT;
+  }
+
+  /**
+   * The first match starting at `from` (or, unless `anchored`, after it)
+   * and ending by `end`, with at most `cap` errors as the cap counts them
+   */
+  find(from: number, end: number, mode: FuzzyMode, cap: number, notEmptyAtStart: boolean): Thread | null {
+    const last = mode === 'partial' ? end : from;
+    // Like the regex module, a search doesn't insert a character at the
+    // position it was asked to start from, unless the pattern is anchored
+    // there; later start positions may begin with an insertion
+    const noInsertAt = mode === 'partial' && !this.program.anchored ? from : -1;
+    for (let start = from; start <= last; start++) {
+      // Each start position gets the whole budget, so a long subject alone
+      // can't exhaust it
+      this.steps = 0;
+      const accept = (t: Thread) =>
+        (mode !== 'fullmatch' || t.pos === end) && !(notEmptyAtStart && t.pos === start && start === from);
+      const slots = new Array<number>(2 * this.program.groups + 2).fill(-1);
+      slots[0] = start;
+      const initial: Thread = {
+        pc: 0,
+        pos: start,
+        slots,
+        counters: null,
+        fuzzy: null,
+        errors: [0, 0, 0],
+        itemErrors: new Array<number>(this.program.items).fill(0),
+        ref: 0,
+        changes: null,
+      };
+      const found = this.run(this.program.main, initial, { end, cap, noInsertAt, accept });
+      if (found) return found;
+      // Don't start inside a surrogate pair
+      if (!this.program.bytes && start < end && this.text.codePointAt(start)! > 0xffff) start++;
+    }
+    return null;
+  }
+
+  private run(code: Instruction[], initial: Thread, context: RunContext): Thread | null {
+    const { text } = this;
+    const { end } = context;
+    const stack: Thread[] = [];
+    let t: Thread | undefined = initial;
+
+    while (true) {
+      if (!t) {
+        t = stack.pop();
+        if (!t) return null;
+      }
+      if (++this.steps > this.matchLimit) {
+        throw new RegexTimeoutError('matchLimit', this.limits.matchLimit ?? null);
+      }
+      if (stack.length > this.recursionLimit) {
+        throw new RegexTimeoutError('recursionLimit', this.limits.recursionLimit ?? null);
+      }
+
+      const instruction = code[t.pc];
+      switch (instruction.op) {
+        case 'char': {
+          const cp = t.pos < end ? text.codePointAt(t.pos)! : -1;
+          if (cp >= 0 && instruction.set(cp)) {
+            t.pc++;
+            t.pos += cp > 0xffff ? 2 : 1;
+          } else {
+            t = this.errors(t, cp, stack, context);
+          }
+          break;
+        }
+        case 'split':
+          stack.push({ ...t, pc: instruction.alt });
+          t.pc++;
+          break;
+        case 'jump':
+          t.pc = instruction.to;
+          break;
+        case 'save':
+          t.slots = t.slots.slice();
+          t.slots[instruction.slot] = t.pos;
+          t.pc++;
+          break;
+        case 'anchor':
+          if (this.anchor(instruction.kind, instruction.word, t.pos, end)) {
+            t.pc++;
+          } else {
+            t = undefined;
+          }
+          break;
+        case 'backref': {
+          if (t.fuzzy) {
+            t = this.fuzzyReference(instruction.group, instruction.ignoreCase, instruction.unicode, t, stack, context);
+            break;
+          }
+          const length = this.backreference(instruction, t, end);
+          if (length === null) {
+            t = undefined;
+          } else {
+            t.pc++;
+            t.pos += length;
+          }
+          break;
+        }
+        case 'cond':
+          t.pc = t.slots[2 * instruction.group + 1] >= 0 ? t.pc + 1 : instruction.no;
+          break;
+        case 'repeatStart':
+          t.counters = { count: 0, start: t.pos, errors: errorCount(t), outer: t.counters };
+          t.pc++;
+          break;
+        case 'repeatCheck': {
+          const { count } = t.counters!;
+          if (count < instruction.min) {
+            t.pc++;
+          } else if (instruction.max !== null && count >= instruction.max) {
+            t.pc = instruction.exit;
+          } else if (instruction.lazy) {
+            stack.push({ ...t, pc: t.pc + 1 });
+            t.pc = instruction.exit;
+          } else {
+            stack.push({ ...t, pc: instruction.exit });
+            t.pc++;
+          }
+          break;
+        }
+        case 'repeatNext': {
+          const counter = t.counters!;
+          const count = counter.count + 1;
+          const empty = t.pos === counter.start;
+          // An iteration that matched nothing ends the repeat. Like the regex
+          // module, one that matched nothing but deletions ends it one past the
+          // minimum instead, and isn't allowed after that at the end of the text.
+          const deleted = errorCount(t) > counter.errors;
+          if (empty && deleted && t.pos === end && count > instruction.min + 1) {
+            t = undefined;
+            break;
+          }
+          t.pc = empty && count >= instruction.min + (deleted ? 1 : 0) ? instruction.exit : instruction.loop;
+          t.counters = { count, start: t.pos, errors: errorCount(t), outer: counter.outer };
+          break;
+        }
+        case 'repeatEnd':
+          t.counters = t.counters!.outer;
+          t.pc++;
+          break;
+        case 'atomic': {
+          const result = this.run(instruction.body, { ...t, pc: 0 }, { ...context, accept: () => true });
+          t = result ? { ...result, pc: t.pc + 1 } : undefined;
+          break;
+        }
+        case 'look':
+          t = this.look(instruction, t, context);
+          break;
+        case 'fuzzyStart':
+          t.fuzzy = { item: instruction.item, budget: instruction.budget, errors: [0, 0, 0], outer: t.fuzzy };
+          t.itemErrors = t.itemErrors.slice();
+          t.itemErrors[instruction.item] = 0;
+          t.pc++;
+          break;
+        case 'fuzzyEnd': {
+          const frame = t.fuzzy!;
+          // If what follows fails (or the item hasn't made enough errors yet),
+          // it can still take an inserted character
+          const inserted = this.error(t, INSERTION, t.pos < end ? text.codePointAt(t.pos)! : -1, context);
+          if (inserted) stack.push(inserted);
+          if (!satisfied(frame)) {
+            t = undefined;
+            break;
+          }
+          t.fuzzy = frame.outer;
+          t.pc++;
+          break;
+        }
+        case 'match':
+          if (context.accept(t)) return t;
+          t = undefined;
+          break;
+      }
+    }
+  }
+
+  /**
+   * A step of a backreference in a fuzzy item, which matches the group's
+   * text a character at a time, with errors like the rest of the item
+   */
+  private fuzzyReference(
+    group: number,
+    ignoreCase: boolean,
+    unicode: boolean,
+    t: Thread,
+    stack: Thread[],
+    context: RunContext
+  ): Thread | undefined {
+    const start = t.slots[2 * group];
+    const stop = t.slots[2 * group + 1];
+    if (start < 0 || stop < 0) return undefined;
+    if (start + t.ref >= stop) {
+      t.ref = 0;
+      t.pc++;
+      return t;
+    }
+    const expected = this.text.codePointAt(start + t.ref)!;
+    const width = expected > 0xffff ? 2 : 1;
+    const cp = t.pos < context.end ? this.text.codePointAt(t.pos)! : -1;
+    if (cp === expected || (cp >= 0 && ignoreCase && caseVariants(expected, unicode).includes(cp))) {
+      t.pos += cp > 0xffff ? 2 : 1;
+      t.ref += width;
+      return t;
+    }
+    return this.errors(t, cp, stack, context, width);
+  }
+
+  /**
+   * After a character fails to match inside a fuzzy item: the substitution
+   * to try now, with the insertion and deletion saved to try next. `ref` is
+   * the width of the character when it comes from a backreference.
+   */
+  private errors(t: Thread, cp: number, stack: Thread[], context: RunContext, ref = 0): Thread | undefined {
+    if (!t.fuzzy) return undefined;
+    const deletion = this.error(t, DELETION, cp, context, ref);
+    const insertion = t.pos === context.noInsertAt ? null : this.error(t, INSERTION, cp, context, ref);
+    if (deletion) stack.push(deletion);
+    if (insertion) stack.push(insertion);
+    return this.error(t, SUBSTITUTION, cp, context, ref) ?? stack.pop();
+  }
+
+  /**
+   * The thread after an error of `kind` at the current position, where the
+   * text has `cp` (-1 at the end), or null if the error isn't allowed there.
+   * A substitution or deletion moves past the pattern character: the next
+   * instruction, or `ref` code units further in a backreference.
+   */
+  private error(t: Thread, kind: number, cp: number, context: RunContext, ref = 0): Thread | null {
+    const frame = t.fuzzy!;
+    const capped = t.itemErrors.reduce((sum, errors) => sum + errors, 0);
+    if (capped >= context.cap || !allows(frame, kind, cp)) return null;
+
+    const width = kind === DELETION ? 0 : cp > 0xffff ? 2 : 1;
+    const pos = kind === DELETION ? t.pos + t.errors[DELETION] : t.pos;
+    const itemErrors = t.itemErrors.slice();
+    itemErrors[frame.item]++;
+    const next = kind !== INSERTION;
+    return {
+      ...t,
+      pc: next && !ref ? t.pc + 1 : t.pc,
+      ref: next ? t.ref + ref : t.ref,
+      pos: t.pos + width,
+      fuzzy: charge(frame, kind),
+      errors: withError(t.errors, kind),
+      itemErrors,
+      changes: { kind, pos, previous: t.changes },
+    };
+  }
+
+  private anchor(kind: AnchorKind, word: CharSet, pos: number, end: number): boolean {
+    const { text } = this;
+    switch (kind) {
+      case 'start':
+      case 'textStart':
+        return pos === 0;
+      case 'end':
+        return pos === end || (pos === end - 1 && text[pos] === '\n');
+      case 'lineStart':
+        return pos === 0 || text[pos - 1] === '\n';
+      case 'lineEnd':
+        return pos === end || text[pos] === '\n';
+      case 'textEnd':
+        return pos === end;
+      default: {
+        const before = pos > 0 && word(this.codePointBefore(pos));
+        const after = pos < end && word(text.codePointAt(pos)!);
+        return (before !== after) === (kind === 'boundary');
+      }
+    }
+  }
+
+  private codePointBefore(pos: number): number {
+    const { text } = this;
+    const low = text.charCodeAt(pos - 1);
+    if (!this.program.bytes && pos >= 2 && low >= 0xdc00 && low <= 0xdfff) return text.codePointAt(pos - 2)!;
+    return low;
+  }
+
+  /**
+   * Length of the text a backreference matches at the thread's position,
+   * or null if it doesn't match (or the group didn't)
+   */
+  private backreference(
+    { group, ignoreCase, unicode }: Extract<Instruction, { op: 'backref' }>,
+    t: Thread,
+    end: number
+  ): number | null {
+    const start = t.slots[2 * group];
+    const stop = t.slots[2 * group + 1];
+    if (start < 0 || stop < 0) return null;
+    const { text } = this;
+    const length = stop - start;
+    if (t.pos + length > end) return null;
+    for (let offset = 0; offset < length; ) {
+      const expected = text.codePointAt(start + offset)!;
+      const actual = text.codePointAt(t.pos + offset)!;
+      if (expected !== actual && !(ignoreCase && caseVariants(expected, unicode).includes(actual))) return null;
+      offset += expected > 0xffff ? 2 : 1;
+    }
+    return length;
+  }
+
+  /**
+   * A lookaround: the thread to go on with, or undefined if it fails.
+   * Groups captured in a positive lookaround are kept.
+   */
+  private look(
+    instruction: Extract<Instruction, { op: 'look' }>,
+    t: Thread,
+    context: RunContext
+  ): Thread | undefined {
+    let result: Thread | null = null;
+    if (!instruction.behind) {
+      result = this.run(instruction.body, { ...t, pc: 0 }, { ...context, accept: () => true });
+    } else {
+      const [least, most] = instruction.width;
+      const lowest = most === null ? 0 : Math.max(t.pos - most, 0);
+      for (let start = t.pos - least; start >= lowest && !result; start--) {
+        const accept = (inner: Thread) => inner.pos === t.pos;
+        result = this.run(instruction.body, { ...t, pc: 0, pos: start }, { ...context, end: t.pos, accept });
+      }
+    }
+    if (instruction.negated) return result ? undefined : { ...t, pc: t.pc + 1 };
+    return result ? { ...result, pc: t.pc + 1, pos: t.pos } : undefined;
+  }
+}
+
+interface RunContext {
+  /** Where the subject ends for this run */
+  end: number;
+  /** Most errors as the cap counts them (see FuzzyRegex) */
+  cap: number;
+  /** Where no character may be inserted, or -1 */
+  noInsertAt: number;
+  /** Whether a thread reaching the end of the program is a match */
+  accept: (t: Thread) => boolean;
+}
+
+function errorCount(t: Thread): number {
+  return t.errors[0] + t.errors[1] + t.errors[2];
+}
+
+/**
+ * A compiled fuzzy pattern with the exec() and test() of compile.ts's
+ * PCRE regexes, for one of the three ways of anchoring a match.
+ *
+ * With BESTMATCH, the search is repeated with fewer errors allowed until
+ * nothing better turns up, as the regex module does. With ENHANCEMATCH, the
+ * match found is improved where it is: the search is repeated from the same
+ * start, over the text up to the end of the match. Each repeat caps errors
+ * at one less than the match had and only keeps a match with fewer. As in
+ * the regex module, the cap counts each fuzzy item's errors from the last
+ * time it was matched, so a repeated item is capped per iteration.
+ */
+export class FuzzyRegex {
+  constructor(
+    private readonly program: FuzzyProgram,
+    private readonly mode: FuzzyMode,
+    private readonly limits: FuzzyLimits,
+    /** The exec() option that rejects an empty match at the start position (PCRE's NOTEMPTY_ATSTART) */
+    private readonly notEmptyAtStart: number
+  ) {}
+
+  exec(subject: string, start = 0, options = 0): FuzzyMatch | null {
+    const run = new Run(subject, this.program, this.limits);
+    const notEmpty = (options & this.notEmptyAtStart) !== 0;
+    let found = run.find(start, subject.length, this.mode, Infinity, notEmpty);
+    const { flags } = this.program;
+    if (flags & (RegexFlag.BESTMATCH | RegexFlag.ENHANCEMATCH)) {
+      const best = !!(flags & RegexFlag.BESTMATCH);
+      while (found && errorCount(found) > 0) {
+        const end = best ? subject.length : found.pos;
+        const better = run.find(start, end, this.mode, errorCount(found) - 1, notEmpty);
+        if (!better || errorCount(better) >= errorCount(found)) break;
+        found = better;
+      }
+    }
+    return found && this.result(subject, found);
+  }
+
+  test(subject: string, start = 0): boolean {
+    return this.exec(subject, start) !== null;
+  }
+
+  private result(subject: string, t: Thread): FuzzyMatch {
+    const groups: FuzzyGroup[] = [];
+    for (let group = 0; group <= this.program.groups; group++) {
+      const start = t.slots[2 * group];
+      const end = group === 0 ? t.pos : t.slots[2 * group + 1];
+      groups.push(start >= 0 && end >= 0 ? { index: start, value: subject.slice(start, end) } : { index: -1, value: '' });
+    }
+    const changes: FuzzyDetails['changes'] = [[], [], []];
+    for (let change = t.changes; change; change = change.previous) changes[change.kind].push(change.pos);
+    for (const positions of changes) positions.sort((a, b) => a - b);
+    return Object.assign(groups, { fuzzy: { counts: t.errors, changes } });
+  }
+}
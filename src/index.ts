@@ -1,4 +1,29 @@
-export { compileRegex, compileRegexPartial, convertNamedGroups } from './compile.js';
+export {
+  compileRegex,
+  compileRegexPartial,
+  compileRegexSync,
+  compileRegexPartialSync,
+  convertNamedGroups,
+  initPCRE,
+  isPCREReady,
+} from './compile.js';
+export { PatternError, RegexTimeoutError } from './errors.js';
+export type { MatchLimitName } from './errors.js';
 export { escapeRegex } from './escape.js';
-export { regex } from './regex.js';
+export { RegexFlag, parseFlags } from './flags.js';
+export type { RegexFlags } from './flags.js';
+export { regex, Scanner } from './regex.js';
+export type {
+  AnyStr,
+  Match,
+  MatchLimits,
+  Pattern,
+  PatternScanner,
+  Replacement,
+  Profile,
+  CompileOptions,
+  ScannerAction,
+} from './regex.js';
+export type { CacheInfo } from './cache.js';
+export type { ReDoSFinding, ReDoSReason, ReDoSReport, ReDoSWitness } from './redos.js';
 
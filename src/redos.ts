@@ -0,0 +1,745 @@
+import { CharSet, Span, SyntaxNode, SyntaxParser } from './syntax';
+import { Profile, translatePattern } from './translate';
+
+/**
+ * Why part of a pattern can backtrack catastrophically:
+ * - nested-quantifier: a repeat inside a repeat can split the same text
+ *   between its iterations in many ways, as in (a+)+
+ * - overlapping-alternatives: alternatives in a repeat match the same text,
+ *   as in (a|ab|b)*
+ * - ambiguous-repeat: a repeat matches the same text in several ways for
+ *   another reason
+ * - overlapping-quantifiers: repeats in sequence can share the same text,
+ *   as in \d+\d+
+ */
+export type ReDoSReason = 'nested-quantifier' | 'overlapping-alternatives' | 'ambiguous-repeat' | 'overlapping-quantifiers';
+
+/**
+ * An input of the form prefix + pump * n + suffix on which matching takes
+ * time exponential or polynomial in n
+ */
+export interface ReDoSWitness<T = string> {
+  prefix: T;
+  pump: T;
+  suffix: T;
+}
+
+export interface ReDoSFinding<T = string> {
+  /** 'exponential' if each extra pump multiplies the work, 'polynomial' if the work is O(n^degree) */
+  kind: 'exponential' | 'polynomial';
+  reason: ReDoSReason;
+  /** The k in O(n^k) for polynomial findings; null for exponential ones */
+  degree: number | null;
+  message: string;
+  /** [start, end) of the offending part of the source pattern */
+  span: [number, number];
+  witness: ReDoSWitness<T>;
+  /** The witness with the pump repeated enough times to be slow */
+  attack: T;
+}
+
+/**
+ * Result of regex.analyze()
+ */
+export interface ReDoSReport<T = string> {
+  /** True if there are no findings */
+  safe: boolean;
+  findings: ReDoSFinding<T>[];
+  /** Deepest nesting of unbounded repeats: 1 for a+, 2 for (a+)+ */
+  starHeight: number;
+  /** False if part of the pattern was too large to analyze */
+  complete: boolean;
+}
+
+interface RepeatNode {
+  type: 'repeat';
+  body: Node;
+  min: number;
+  max: number | null;
+  possessive: boolean;
+  span: Span;
+}
+
+interface AltNode {
+  type: 'alt';
+  branches: Node[];
+  span: Span;
+}
+
+/**
+ * The parsed pattern, reduced to what matters for backtracking (see reduce)
+ */
+type Node =
+  | { type: 'set'; set: CharSet; span: Span }
+  | { type: 'seq'; items: Node[] }
+  | AltNode
+  | RepeatNode
+  | { type: 'atomic'; body: Node }
+  | { type: 'look'; body: Node }
+  | { type: 'empty' };
+
+const EMPTY: Node = { type: 'empty' };
+
+/**
+ * Repeats allowing more than this many iterations are analyzed as unbounded;
+ * smaller ones are unrolled
+ */
+const MAX_BOUNDED_REPEAT = 100;
+
+/** Copies of a bounded repeat's body kept when unrolling it */
+const MAX_UNROLLED_COPIES = 3;
+
+/** Limits on the product automaton searched for exponential ambiguity */
+const MAX_PRODUCT_STATES = 400;
+const MAX_PRODUCT_EDGES = 500000;
+
+/** Times the pump is repeated in a finding's attack string */
+const ATTACK_REPEATS = { exponential: 30, polynomial: 10000 };
+
+const MESSAGES: Record<ReDoSReason, string> = {
+  'nested-quantifier': 'nested quantifiers can match the same text in exponentially many ways',
+  'overlapping-alternatives': 'overlapping alternatives in a repeat can match the same text in exponentially many ways',
+  'ambiguous-repeat': 'repeat can match the same text in exponentially many ways',
+  'overlapping-quantifiers': 'overlapping quantifiers can split the same text in polynomially many ways',
+};
+
+/**
+ * Characters tried when looking for one that two sets share: printable
+ * ASCII first, so witnesses stay readable, then a few members of each
+ * Unicode class. Code points written in the pattern are tried as well.
+ */
+const SAMPLES: number[] = [
+  ...range(0x21, 0x7e),
+  0x20,
+  ...range(0x00, 0x1f),
+  0x7f,
+  ...[0x85, 0xa0, 0xaa, 0xb2, 0xb5, 0xc0, 0xc9, 0xdf, 0xe9, 0xff, 0x130, 0x131, 0x17f, 0x391, 0x3b1, 0x416, 0x436],
+  ...[0x5d0, 0x660, 0x966, 0x1680, 0x2000, 0x2028, 0x212a, 0x3000, 0x4e00, 0xff10, 0x1d400, 0x1f600],
+];
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+/**
+ * Analyze a pattern for inputs that make a backtracking matcher take
+ * exponential or polynomial time. A bytes pattern is given as a Latin-1
+ * string, and its witnesses come back the same way.
+ *
+ * The pattern is checked like compile() checks it (throwing PatternError),
+ * then parsed into a small syntax tree and turned into a Glushkov automaton
+ * that keeps one edge per way of reaching a state, so (a*)* has two a->a
+ * edges. A repeat is exponentially ambiguous if some state can loop back to
+ * itself along two different paths reading the same text, which shows up as
+ * a cycle through the diagonal of the automaton's product with itself.
+ * Repeats in sequence are polynomially ambiguous if k loops that all read
+ * some character can follow each other: the work is then O(n^k).
+ *
+ * Matching is assumed to start at the beginning of the input, as match()
+ * and fullmatch() do; search() retries at every position, which multiplies
+ * the work by up to n. Backreferences and anchors are taken to match
+ * nothing, and atomic groups, possessive repeats and lookarounds to match
+ * without backtracking into them; their bodies are analyzed separately.
+ */
+export function analyzePattern(pattern: string, flags: number, profile: Profile = 'regex', bytes = false): ReDoSReport {
+  const translated = translatePattern(pattern, flags, profile, bytes);
+  const parser = new SyntaxParser(pattern, translated.flags, profile, bytes);
+  const root = reduce(parser.parse());
+
+  const samples = new Set<number>(bytes ? range(0, 0xff) : SAMPLES);
+  for (const cp of parser.literals) samples.add(cp);
+
+  const analyzer = new Analyzer([...samples], pattern.length);
+  analyzer.run(root);
+  const findings = analyzer.findings.sort((a, b) => a.span[0] - b.span[0] || a.span[1] - b.span[1]);
+  return { safe: findings.length === 0, findings, starHeight: starHeight(root), complete: analyzer.complete };
+}
+
+/**
+ * A syntax tree without what doesn't affect backtracking. Anchors and
+ * backreferences match no characters of their own, so they become 'empty';
+ * groups, fuzzy constraints and lazy quantifiers are left out, and a
+ * conditional becomes the choice between its branches.
+ */
+function reduce(node: SyntaxNode): Node {
+  switch (node.type) {
+    case 'set':
+    case 'empty':
+      return node;
+    case 'seq':
+      return { type: 'seq', items: node.items.map(reduce) };
+    case 'alt':
+      return { type: 'alt', branches: node.branches.map(reduce), span: node.span };
+    case 'repeat': {
+      const { min, max, possessive, span } = node;
+      return { type: 'repeat', body: reduce(node.body), min, max, possessive, span };
+    }
+    case 'atomic':
+    case 'look':
+      return { type: node.type, body: reduce(node.body) };
+    case 'group':
+    case 'fuzzy':
+      return reduce(node.body);
+    case 'cond':
+      return { type: 'alt', branches: [reduce(node.yes), reduce(node.no)], span: node.span };
+    default:
+      return EMPTY;
+  }
+}
+
+function isLoop(node: Node): boolean {
+  return node.type === 'repeat' && (node.max === null || node.max > MAX_BOUNDED_REPEAT);
+}
+
+function starHeight(node: Node): number {
+  switch (node.type) {
+    case 'seq':
+      return Math.max(0, ...node.items.map(starHeight));
+    case 'alt':
+      return Math.max(0, ...node.branches.map(starHeight));
+    case 'repeat':
+      return (isLoop(node) ? 1 : 0) + starHeight(node.body);
+    case 'atomic':
+    case 'look':
+      return starHeight(node.body);
+    default:
+      return 0;
+  }
+}
+
+function nullable(node: Node): boolean {
+  switch (node.type) {
+    case 'set':
+      return false;
+    case 'seq':
+      return node.items.every(nullable);
+    case 'alt':
+      return node.branches.some(nullable);
+    case 'repeat':
+      return node.min === 0 || nullable(node.body);
+    case 'atomic':
+      return nullable(node.body);
+    default:
+      return true;
+  }
+}
+
+/** The sets a node's characters come from */
+function leafSets(node: Node): CharSet[] {
+  switch (node.type) {
+    case 'set':
+      return [node.set];
+    case 'seq':
+      return node.items.flatMap(leafSets);
+    case 'alt':
+      return node.branches.flatMap(leafSets);
+    case 'repeat':
+    case 'atomic':
+      return leafSets(node.body);
+    default:
+      return [];
+  }
+}
+
+/** The states a part of the pattern starts and ends in */
+interface Fragment {
+  nullable: boolean;
+  first: number[];
+  last: number[];
+}
+
+interface Edge {
+  to: number;
+  /** The loop that added the edge, if it closes one */
+  loop: RepeatNode | null;
+}
+
+/**
+ * Glushkov automaton of a syntax tree: one state per character set, plus
+ * the start state 0. Bounded repeats are unrolled (up to
+ * MAX_UNROLLED_COPIES copies), so a state stands for one copy of a set.
+ */
+class Automaton {
+  /** Character set of each state; the start state has none */
+  readonly sets: CharSet[] = [() => false];
+  /** The repeats and alternations around each state, outermost first */
+  readonly context: Node[][] = [[]];
+  /** Edges out of each state; an edge listed twice is a second way to make the same step */
+  readonly edges: Edge[][] = [[]];
+  /** Bodies of lookarounds, atomic groups and possessive repeats, to analyze on their own */
+  readonly detached: Node[] = [];
+
+  constructor(root: Node) {
+    this.link([0], this.build(root, []).first, null);
+  }
+
+  get size(): number {
+    return this.sets.length;
+  }
+
+  private build(node: Node, context: Node[]): Fragment {
+    switch (node.type) {
+      case 'set':
+        return this.state(node.set, context);
+      case 'seq':
+        return this.sequence(node.items.map(item => () => this.build(item, context)));
+      case 'alt': {
+        const inner = [...context, node];
+        const branches = node.branches.map(branch => this.build(branch, inner));
+        return {
+          nullable: branches.some(branch => branch.nullable),
+          first: branches.flatMap(branch => branch.first),
+          last: branches.flatMap(branch => branch.last),
+        };
+      }
+      case 'repeat':
+        return node.possessive ? this.opaque(node.body, node.min === 0, context) : this.repeat(node, context);
+      case 'atomic':
+        return this.opaque(node.body, false, context);
+      case 'look':
+        this.detached.push(node.body);
+        return { nullable: true, first: [], last: [] };
+      default:
+        return { nullable: true, first: [], last: [] };
+    }
+  }
+
+  private state(set: CharSet, context: Node[]): Fragment {
+    const state = this.sets.length;
+    this.sets.push(set);
+    this.context.push(context);
+    this.edges.push([]);
+    return { nullable: false, first: [state], last: [state] };
+  }
+
+  private link(from: number[], to: number[], loop: RepeatNode | null): void {
+    for (const source of from) {
+      for (const target of to) this.edges[source].push({ to: target, loop });
+    }
+  }
+
+  private sequence(parts: Array<() => Fragment>): Fragment {
+    let result: Fragment = { nullable: true, first: [], last: [] };
+    for (const part of parts) {
+      const fragment = part();
+      this.link(result.last, fragment.first, null);
+      result = {
+        nullable: result.nullable && fragment.nullable,
+        first: result.nullable ? [...result.first, ...fragment.first] : result.first,
+        last: fragment.nullable ? [...result.last, ...fragment.last] : fragment.last,
+      };
+    }
+    return result;
+  }
+
+  private repeat(node: RepeatNode, context: Node[]): Fragment {
+    const inner = [...context, node];
+    const copy = () => this.build(node.body, inner);
+
+    if (isLoop(node)) {
+      const required = Math.min(node.min, MAX_UNROLLED_COPIES);
+      const looped = (): Fragment => {
+        const body = copy();
+        this.link(body.last, body.first, node);
+        return { ...body, nullable: body.nullable || required === 0 };
+      };
+      const parts = Array.from({ length: Math.max(required - 1, 0) }, () => copy);
+      return this.sequence([...parts, looped]);
+    }
+
+    // Optional copies nest, (x(x)?)?, so there is one way to match each count
+    const optional = (count: number): Fragment => {
+      if (count === 0) return { nullable: true, first: [], last: [] };
+      return { ...this.sequence([copy, () => optional(count - 1)]), nullable: true };
+    };
+    const parts = Array.from({ length: Math.min(node.min, MAX_UNROLLED_COPIES) }, () => copy);
+    return this.sequence([...parts, () => optional(Math.min(node.max! - node.min, MAX_UNROLLED_COPIES))]);
+  }
+
+  /**
+   * A part of the pattern the matcher never backtracks into: a single state
+   * that reads any of its characters. The part itself is analyzed separately.
+   */
+  private opaque(body: Node, optional: boolean, context: Node[]): Fragment {
+    this.detached.push(body);
+    const sets = leafSets(body);
+    const fragment = this.state(cp => sets.some(set => set(cp)), context);
+    return { ...fragment, nullable: optional || nullable(body) };
+  }
+}
+
+interface ProductEdge {
+  to: number;
+  /** A character both copies read */
+  ch: number;
+  loops: RepeatNode[];
+  /** Whether the copies take different edges to the same state */
+  split: boolean;
+}
+
+class Analyzer {
+  readonly findings: ReDoSFinding[] = [];
+  complete = true;
+  private spans = new Set<string>();
+
+  constructor(
+    /** Characters to try as witness characters */
+    readonly samples: number[],
+    private readonly patternLength: number
+  ) {}
+
+  run(root: Node): void {
+    const queue = [root];
+    while (queue.length) {
+      const automaton = new Automaton(queue.shift()!);
+      queue.push(...automaton.detached);
+      new AutomatonAnalysis(automaton, this).run();
+    }
+  }
+
+  /**
+   * Record a finding, keeping only the first one for each span
+   */
+  add(
+    kind: ReDoSFinding['kind'],
+    reason: ReDoSReason,
+    degree: number | null,
+    span: Span,
+    witness: ReDoSWitness
+  ): void {
+    const key = span.join(':');
+    if (this.spans.has(key)) return;
+    this.spans.add(key);
+    const message =
+      degree === null ? MESSAGES[reason] : `overlapping quantifiers can split the same text in O(n^${degree}) ways`;
+    const attack = witness.prefix + witness.pump.repeat(ATTACK_REPEATS[kind]) + witness.suffix;
+    this.findings.push({ kind, reason, degree, message, span, witness, attack });
+  }
+
+  get wholePattern(): Span {
+    return [0, this.patternLength];
+  }
+}
+
+/**
+ * The checks on one automaton
+ */
+class AutomatonAnalysis {
+  private readonly common = new Map<number, number | null>();
+  /** States on the cycles of exponential findings, which polynomial findings skip */
+  private readonly exponentialStates = new Set<number>();
+
+  constructor(
+    private readonly automaton: Automaton,
+    private readonly analyzer: Analyzer
+  ) {}
+
+  run(): void {
+    this.exponential();
+    this.polynomial();
+  }
+
+  /**
+   * A character states a and b both read, or null
+   */
+  private shared(a: number, b: number): number | null {
+    const { sets, size } = this.automaton;
+    const key = Math.min(a, b) * size + Math.max(a, b);
+    let ch = this.common.get(key);
+    if (ch === undefined) {
+      ch = this.analyzer.samples.find(cp => sets[a](cp) && sets[b](cp)) ?? null;
+      this.common.set(key, ch);
+    }
+    return ch;
+  }
+
+  /**
+   * Find states that loop back to themselves along two different paths
+   * reading the same text, in the product of the automaton with itself
+   */
+  private exponential(): void {
+    const { edges, size } = this.automaton;
+    if (size > MAX_PRODUCT_STATES) {
+      this.analyzer.complete = false;
+      return;
+    }
+
+    let budget = MAX_PRODUCT_EDGES;
+    const product = new Map<number, ProductEdge[]>();
+    const successors = (node: number): ProductEdge[] => {
+      let out = product.get(node);
+      if (out) return out;
+      out = [];
+      const p = Math.floor(node / size);
+      const q = node % size;
+      edges[p].forEach((e1, i) =>
+        edges[q].forEach((e2, j) => {
+          const ch = this.shared(e1.to, e2.to);
+          if (ch === null || --budget < 0) return;
+          const loops = [e1.loop, e2.loop].filter((loop): loop is RepeatNode => loop !== null);
+          out!.push({ to: e1.to * size + e2.to, ch, loops, split: p === q && e1.to === e2.to && i !== j });
+        })
+      );
+      product.set(node, out);
+      return out;
+    };
+
+    const diagonal = Array.from({ length: size - 1 }, (_, i) => (i + 1) * (size + 1));
+    const component = components(size * size, diagonal, node => successors(node).map(edge => edge.to));
+    if (budget < 0) {
+      this.analyzer.complete = false;
+      return;
+    }
+
+    const seen = new Set<number>();
+    for (const start of diagonal) {
+      const id = component[start];
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const cycle = this.ambiguousCycle(start, node => component[node] === id, successors);
+      if (cycle) this.reportExponential(start / (size + 1), cycle);
+    }
+  }
+
+  /**
+   * The shortest cycle from the diagonal node `start` back to itself on which
+   * the two copies part ways, staying inside one component
+   */
+  private ambiguousCycle(
+    start: number,
+    inside: (node: number) => boolean,
+    successors: (node: number) => ProductEdge[]
+  ): ProductEdge[] | null {
+    const { size } = this.automaton;
+    const offDiagonal = (node: number) => Math.floor(node / size) !== node % size;
+    // Search states are node * 2 + whether the copies have parted
+    const previous = new Map<number, [number, ProductEdge]>();
+    const goal = start * 2 + 1;
+    const queue = [start * 2];
+    for (let k = 0; k < queue.length && !previous.has(goal); k++) {
+      const from = queue[k];
+      for (const edge of successors(from >> 1)) {
+        if (!inside(edge.to)) continue;
+        const parted = from & 1 || edge.split || offDiagonal(edge.to) ? 1 : 0;
+        const to = edge.to * 2 + parted;
+        if (previous.has(to) || to === start * 2) continue;
+        previous.set(to, [from, edge]);
+        queue.push(to);
+      }
+    }
+    if (!previous.has(goal)) return null;
+
+    const path: ProductEdge[] = [];
+    for (let at = goal; at !== start * 2; ) {
+      const [from, edge] = previous.get(at)!;
+      path.unshift(edge);
+      at = from;
+    }
+    return path;
+  }
+
+  private reportExponential(state: number, cycle: ProductEdge[]): void {
+    const { size, context } = this.automaton;
+    const states = new Set<number>([state]);
+    for (const edge of cycle) {
+      states.add(Math.floor(edge.to / size)).add(edge.to % size);
+    }
+    for (const s of states) this.exponentialStates.add(s);
+
+    // The outermost loop involved: the innermost loop around every state on
+    // the cycle, or a loop whose edge the cycle takes
+    const loops = new Set(cycle.flatMap(edge => edge.loops));
+    const around = innermostCommonLoop([...states].map(s => context[s]));
+    if (around) loops.add(around);
+    const repeat = outermost([...loops]);
+    if (!repeat) return;
+
+    const inside = [...states].flatMap(s => context[s].slice(context[s].indexOf(repeat) + 1));
+    const nested =
+      [...loops].some(loop => loop !== repeat) || inside.some(n => n.type === 'repeat' && (n.max === null || n.max > 1));
+    const alternatives = inside.some(n => n.type === 'alt');
+    const reason = nested ? 'nested-quantifier' : alternatives ? 'overlapping-alternatives' : 'ambiguous-repeat';
+
+    this.analyzer.add('exponential', reason, null, repeat.span, {
+      prefix: this.prefix(state),
+      pump: String.fromCodePoint(...cycle.map(edge => edge.ch)),
+      suffix: this.suffix(states),
+    });
+  }
+
+  /**
+   * Find chains of loops that all read some character c, one after another:
+   * on c * n, a chain of k such loops can split the input in O(n^k) ways
+   */
+  private polynomial(): void {
+    const { sets, edges, size, context } = this.automaton;
+
+    for (const ch of this.analyzer.samples) {
+      const reads = sets.map((set, state) => state > 0 && set(ch));
+      if (reads.filter(Boolean).length < 2) continue;
+
+      const successors = (state: number) => (reads[state] ? edges[state].map(e => e.to).filter(to => reads[to]) : []);
+      const all = range(0, size - 1);
+      const component = components(size, all, successors);
+
+      // Components are numbered sinks first, so successors come before the states leading to them
+      const count = Math.max(-1, ...component) + 1;
+      const members: number[][] = Array.from({ length: count }, () => []);
+      all.forEach(state => component[state] >= 0 && members[component[state]].push(state));
+      const looping = members.map(
+        states => states.length > 1 || (states.length === 1 && successors(states[0]).includes(states[0]))
+      );
+
+      // The most loops a chain starting in each component passes through
+      const depth = new Array<number>(count).fill(0);
+      const next = new Array<number>(count).fill(-1);
+      for (let id = 0; id < count; id++) {
+        for (const state of members[id]) {
+          for (const other of successors(state).map(to => component[to])) {
+            if (other !== id && (next[id] === -1 || depth[other] > depth[next[id]])) next[id] = other;
+          }
+        }
+        depth[id] = (next[id] === -1 ? 0 : depth[next[id]]) + (looping[id] ? 1 : 0);
+      }
+
+      let first = -1;
+      for (let id = 0; id < count; id++) {
+        if (looping[id] && (first === -1 || depth[id] > depth[first])) first = id;
+      }
+      const degree = first === -1 ? 0 : depth[first];
+      if (degree < 2) continue;
+
+      let last = first;
+      for (let id = next[first]; id !== -1; id = next[id]) {
+        if (looping[id]) last = id;
+      }
+      const involved = [...members[first], ...members[last]];
+      if (involved.some(state => this.exponentialStates.has(state))) continue;
+
+      const from = innermostCommonLoop(members[first].map(s => context[s]));
+      const to = innermostCommonLoop(members[last].map(s => context[s]));
+      const span: Span =
+        from && to ? [Math.min(from.span[0], to.span[0]), Math.max(from.span[1], to.span[1])] : this.analyzer.wholePattern;
+
+      this.analyzer.add('polynomial', 'overlapping-quantifiers', degree, span, {
+        prefix: this.prefix(members[first][0]),
+        pump: String.fromCodePoint(ch),
+        suffix: this.suffix(new Set(involved)),
+      });
+    }
+  }
+
+  /**
+   * The shortest text leading from the start to `target`
+   */
+  private prefix(target: number): string {
+    const { edges } = this.automaton;
+    const previous = new Map<number, number>([[0, -1]]);
+    const queue = [0];
+    for (let k = 0; k < queue.length && !previous.has(target); k++) {
+      for (const { to } of edges[queue[k]]) {
+        if (previous.has(to)) continue;
+        previous.set(to, queue[k]);
+        queue.push(to);
+      }
+    }
+
+    const text: number[] = [];
+    for (let at = target; at > 0; at = previous.get(at)!) {
+      text.unshift(this.shared(at, at) ?? 0);
+    }
+    return String.fromCodePoint(...text);
+  }
+
+  /**
+   * A character that makes the match fail after the pump: one no state reads
+   * if there is one, or else one the looping states don't read
+   */
+  private suffix(looping: Set<number>): string {
+    const { sets } = this.automaton;
+    const { samples } = this.analyzer;
+    const readBy = (states: number[]) => (cp: number) => states.some(state => state > 0 && sets[state](cp));
+    const anywhere = readBy(range(0, sets.length - 1));
+    const inLoop = readBy([...looping]);
+    const ch = samples.find(cp => !anywhere(cp)) ?? samples.find(cp => !inLoop(cp));
+    return ch === undefined ? '' : String.fromCodePoint(ch);
+  }
+}
+
+/**
+ * The innermost unbounded repeat around all of the given contexts
+ */
+function innermostCommonLoop(contexts: Node[][]): RepeatNode | null {
+  let found: RepeatNode | null = null;
+  const shortest = Math.min(...contexts.map(context => context.length));
+  for (let k = 0; k < shortest; k++) {
+    const node = contexts[0][k];
+    if (contexts.some(context => context[k] !== node)) break;
+    if (isLoop(node)) found = node as RepeatNode;
+  }
+  return found;
+}
+
+function outermost(repeats: RepeatNode[]): RepeatNode | null {
+  let found: RepeatNode | null = null;
+  for (const repeat of repeats) {
+    if (!found || repeat.span[1] - repeat.span[0] > found.span[1] - found.span[0]) found = repeat;
+  }
+  return found;
+}
+
+/**
+ * Tarjan's strongly connected components of the nodes reachable from
+ * `roots`, numbered so that edges only lead to the same or lower numbers.
+ * Unreached nodes get -1.
+ */
+function components(count: number, roots: number[], successors: (node: number) => number[]): Int32Array {
+  const index = new Int32Array(count).fill(-1);
+  const low = new Int32Array(count);
+  const component = new Int32Array(count).fill(-1);
+  const stack: number[] = [];
+  const onStack = new Uint8Array(count);
+  let counter = 0;
+  let components = 0;
+
+  for (const root of roots) {
+    if (index[root] !== -1) continue;
+    const work: Array<{ node: number; next: number[]; k: number }> = [];
+    const visit = (node: number) => {
+      index[node] = low[node] = counter++;
+      stack.push(node);
+      onStack[node] = 1;
+      work.push({ node, next: successors(node), k: 0 });
+    };
+    visit(root);
+
+    while (work.length) {
+      const top = work[work.length - 1];
+      if (top.k < top.next.length) {
+        const to = top.next[top.k++];
+        if (index[to] === -1) {
+          visit(to);
+        } else if (onStack[to]) {
+          low[top.node] = Math.min(low[top.node], index[to]);
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length) {
+        const parent = work[work.length - 1].node;
+        low[parent] = Math.min(low[parent], low[top.node]);
+      }
+      if (low[top.node] === index[top.node]) {
+        let node: number;
+        do {
+          node = stack.pop()!;
+          onStack[node] = 0;
+          component[node] = components;
+        } while (node !== top.node);
+        components++;
+      }
+    }
+  }
+  return component;
+}
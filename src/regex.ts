@@ -1,75 +1,953 @@
 // Pythonic regex API wrapper for py-regex
-import { compileRegex, compileRegexPartial, compileRegexAnchored, convertNamedGroups } from './compile';
+import {
+  compileRegexSync,
+  compileRegexPartialSync,
+  compileRegexAnchoredSync,
+  execLimitHit,
+  getPCREConstantsSync,
+  initPCRE,
+  PCRELimits,
+  PCRE_MAX_LIMIT,
+} from './compile';
+import { bytesToLatin1, isBytes, latin1ToBytes, utf8ToLatin1 } from './bytes';
+import { PatternError, RegexTimeoutError } from './errors';
 import { escapeRegex } from './escape';
+import { RegexFlag, RegexFlags, parseFlags } from './flags';
+import { translatePattern, Profile } from './translate';
+import { parseTemplate, expandTemplate } from './template';
+import { PatternCache, CacheInfo } from './cache';
+import { analyzePattern, ReDoSReport } from './redos';
+import { compileFuzzy, FuzzyMatch, FuzzyMode, FuzzyRegex } from './fuzzy';
 
-export interface Match {
-  group(nameOrIndex: string | number): string | undefined;
-  groups: Record<string, string>;
-  fullMatch: string;
+/**
+ * A pattern or subject: str, or bytes as a Uint8Array (Node's Buffer included)
+ */
+export type AnyStr = string | Uint8Array;
+
+/**
+ * Result of a successful match, mirroring Python's re.Match.
+ * Groups that did not participate in the match are reported as null.
+ * Groups can also be read by index or name: m[1], m['name'].
+ * For bytes patterns, groups are Uint8Array slices and offsets count bytes.
+ */
+export interface Match<T extends AnyStr = string> {
+  readonly [group: number]: T | null;
+  readonly [name: string]: unknown;
+  /** group() is the whole match; unknown groups give undefined */
+  group(nameOrIndex?: string | number): T | null | undefined;
+  group(...groups: Array<string | number>): Array<T | null | undefined>;
+  groups(defaultValue?: T | null): Array<T | null>;
+  groupdict(defaultValue?: T | null): Record<string, T | null>;
+  start(group?: string | number): number;
+  end(group?: string | number): number;
+  span(group?: string | number): [number, number];
+  expand(template: T): T;
+  readonly pos: number;
+  readonly endpos: number;
+  readonly lastindex: number | null;
+  readonly lastgroup: string | null;
+  readonly re: Pattern<T>;
+  readonly string: T;
+  fullMatch: T;
+  /** Substitutions, insertions and deletions in a fuzzy match; zeros otherwise */
+  readonly fuzzy_counts: [number, number, number];
+  /** Positions of the substitutions, insertions and deletions, as the regex module gives them */
+  readonly fuzzy_changes: [number[], number[], number[]];
+}
+
+/**
+ * A compiled pattern. A bytes pattern (Pattern<Uint8Array>) only matches
+ * bytes subjects and a str pattern only str subjects; mixing them throws a
+ * TypeError, as in Python.
+ */
+export interface Pattern<T extends AnyStr = string> {
+  /** The source the pattern was compiled from (UTF-8 bytes with the `bytes` option) */
+  readonly pattern: T;
+  /** Flags in effect, including inline global flags such as (?i) */
+  readonly flags: number;
+  /** Number of capturing groups */
+  readonly groups: number;
+  /** Group names and their group numbers; a repeated name has one number */
+  readonly groupindex: Readonly<Record<string, number>>;
+  /** The syntax the pattern was read with, 'regex' or 're' */
+  readonly profile: Profile;
+  /** Python's ==: true for a Pattern of the same type, source, flags and profile */
+  equals(other: unknown): boolean;
+  /** Every method takes optional limits for the call, overriding the pattern's */
+  fullmatch(text: T, pos?: number, endpos?: number, limits?: MatchLimits): Match<T> | null;
+  match(text: T, pos?: number, endpos?: number, limits?: MatchLimits): Match<T> | null;
+  search(text: T, pos?: number, endpos?: number, limits?: MatchLimits): Match<T> | null;
+  test(text: T, pos?: number, endpos?: number, limits?: MatchLimits): boolean;
+  findall(text: T, pos?: number, endpos?: number, limits?: MatchLimits): Array<T | T[]>;
+  finditer(text: T, pos?: number, endpos?: number, limits?: MatchLimits): IterableIterator<Match<T>>;
+  sub(repl: Replacement<T>, text: T, count?: number, limits?: MatchLimits): T;
+  subn(repl: Replacement<T>, text: T, count?: number, limits?: MatchLimits): [T, number];
+  split(text: T, maxsplit?: number, limits?: MatchLimits): Array<T | null>;
+  /** Stepwise matching over `text`, as Python's undocumented Pattern.scanner() */
+  scanner(text: T, pos?: number, endpos?: number, limits?: MatchLimits): PatternScanner<T>;
+}
+
+/**
+ * Sticky matching over one subject: each match() or search() continues where
+ * the previous match ended (after an empty match, the next one can't be empty
+ * at the same place). Once a step finds nothing, the scanner stays exhausted.
+ */
+export interface PatternScanner<T extends AnyStr = string> {
+  readonly pattern: Pattern<T>;
+  /** The next match starting exactly where the previous one ended */
+  match(): Match<T> | null;
+  /** The next match anywhere after the previous one */
+  search(): Match<T> | null;
 }
 
-export interface Pattern {
-  fullmatch(text: string): Match | null;
-  match(text: string): Match | null;
-  search(text: string): Match | null;
-  test(text: string): boolean;
+export type { Profile };
+
+/**
+ * Bounds on the work matching may do. matchLimit and recursionLimit cap
+ * PCRE's backtracking in each PCRE call, up to PCRE's own limit of 10,000,000
+ * (PCRE_MAX_LIMIT), which applies when they are not given. timeoutMs is a wall-clock budget for
+ * a method call (for finditer() and scanner(), from the call that creates
+ * them), checked around each PCRE call: one PCRE call can't be interrupted,
+ * so pair it with matchLimit for a hard ceiling. Hitting a limit throws
+ * RegexTimeoutError.
+ */
+export interface MatchLimits extends PCRELimits {
+  timeoutMs?: number;
+}
+
+/**
+ * Options for compile(); the limits apply to every call on the pattern
+ */
+export interface CompileOptions extends MatchLimits {
+  profile?: Profile;
+  /** Compile a str pattern as bytes (its UTF-8 encoding) */
+  bytes?: boolean;
+  /** Throw a PatternError if analyze() finds the pattern open to ReDoS */
+  rejectReDoS?: boolean;
 }
 
-function makeMatch(pcreMatch: import('@syntropiq/libpcre-ts').PCREMatch[], namedGroups: { [name: string]: number }): Match {
-  // Map group names to values
-  const groups: Record<string, string> = {};
-  for (const [name, idx] of Object.entries(namedGroups || {})) {
-    if (pcreMatch[idx] && pcreMatch[idx].value !== undefined) {
-      groups[name] = pcreMatch[idx].value;
+/**
+ * A Python replacement template, or a function computing the replacement from a Match
+ */
+export type Replacement<T extends AnyStr = string> = T | ((match: Match<T>) => T);
+
+type PCREMatch = import('@syntropiq/libpcre-ts').PCREMatch;
+
+/**
+ * Value of a capture group, or undefined if the group did not participate
+ */
+function groupValue(pcreMatch: PCREMatch[], idx: number): string | undefined {
+  const group = pcreMatch[idx];
+  if (!group || group.value === undefined || group.index < 0) return undefined;
+  return group.value;
+}
+
+/**
+ * Renumber PCRE's groups into Python's. A group whose name is used several
+ * times captures in several PCRE groups; like the regex module, report the
+ * one that matched last (the rightmost), or an unmatched one if none did.
+ */
+function collapseGroups(pcreMatch: PCREMatch[], pcreGroups: number[][]): PCREMatch[] {
+  return pcreGroups.map(slots => {
+    let best: PCREMatch | undefined;
+    for (const slot of slots) {
+      const value = groupValue(pcreMatch, slot);
+      if (value === undefined) continue;
+      const end: number = pcreMatch[slot].index + value.length;
+      if (!best || end >= best.index + best.value.length) best = pcreMatch[slot];
+    }
+    return best ?? pcreMatch[slots[0]];
+  });
+}
+
+/**
+ * Make a compiled PCRE regex report groups by Python group number
+ */
+function withPythonGroups(regex: any, pcreGroups: number[][]): any {
+  if (pcreGroups.every((slots, idx) => slots.length === 1 && slots[0] === idx)) return regex;
+  return {
+    exec(subject: string, start?: number, options?: number): PCREMatch[] | null {
+      const m = regex.exec(subject, start, options);
+      return m && collapseGroups(m, pcreGroups);
+    },
+    test(subject: string, start?: number): boolean {
+      return regex.test(subject, start);
+    },
+  };
+}
+
+/**
+ * Clamp pos/endpos into the string the way Python's Pattern methods do
+ */
+function clampRange(text: string, pos = 0, endpos = text.length): [number, number] {
+  const start = Math.min(Math.max(pos, 0), text.length);
+  const end = Math.min(Math.max(endpos, 0), text.length);
+  return [start, end];
+}
+
+/**
+ * The subject PCRE sees for a given endpos: Python treats endpos as if the
+ * string ended there, while text before pos stays visible to lookbehind
+ */
+function truncate(text: string, endpos: number): string {
+  return endpos < text.length ? text.slice(0, endpos) : text;
+}
+
+/**
+ * Yield successive non-overlapping matches between pos and endpos, following
+ * Python 3.7+ rules: an empty match may directly follow a non-empty one, but
+ * after an empty match the next match must not be empty at the same position.
+ */
+function* scanMatches(
+  regex: any,
+  text: string,
+  pos: number,
+  endpos: number,
+  notEmptyAtStart: number
+): Generator<PCREMatch[]> {
+  const subject = truncate(text, endpos);
+  let mustAdvance = false;
+  while (pos <= subject.length) {
+    const m: PCREMatch[] | null = regex.exec(subject, pos, mustAdvance ? notEmptyAtStart : 0);
+    if (!m) return;
+    yield m;
+    const start: number = m[0].index;
+    const end: number = start + m[0].value.length;
+    mustAdvance = end === start;
+    pos = end;
+  }
+}
+
+/**
+ * The text PCRE matches for a subject (bytes as Latin-1), after checking
+ * the subject's type against the pattern's as Python does
+ */
+function subjectText(subject: AnyStr, bytes: boolean): string {
+  if (isBytes(subject)) {
+    if (!bytes) throw new TypeError('cannot use a string pattern on a bytes-like object');
+    return bytesToLatin1(subject);
+  }
+  if (bytes) throw new TypeError('cannot use a bytes pattern on a string-like object');
+  return subject;
+}
+
+/**
+ * The text of a replacement template or replacement function result, which
+ * must have the pattern's type
+ */
+function replacementText(repl: AnyStr, bytes: boolean): string {
+  if (isBytes(repl)) {
+    if (!bytes) throw new TypeError('expected str instance, bytes found');
+    return bytesToLatin1(repl);
+  }
+  if (bytes) throw new TypeError('expected a bytes-like object, str found');
+  return repl;
+}
+
+/**
+ * Matched text in the pattern's type: bytes patterns give Uint8Array slices
+ */
+function fromText(text: string, bytes: boolean): AnyStr {
+  return bytes ? latin1ToBytes(text) : text;
+}
+
+/**
+ * The limits set in `options`, checked
+ */
+function readLimits(options: MatchLimits): MatchLimits {
+  const limits: MatchLimits = {};
+  for (const name of ['matchLimit', 'recursionLimit'] as const) {
+    const value = options[name];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < 1) {
+      throw new RangeError(`${name} must be a positive integer`);
+    }
+    if (value > PCRE_MAX_LIMIT) {
+      throw new RangeError(`${name} must be at most ${PCRE_MAX_LIMIT}, PCRE's built-in limit`);
     }
+    limits[name] = value;
   }
-  // group(0) is the full match
+  if (options.timeoutMs !== undefined) {
+    if (!(options.timeoutMs >= 0)) {
+      throw new RangeError('timeoutMs must be a non-negative number');
+    }
+    limits.timeoutMs = options.timeoutMs;
+  }
+  return limits;
+}
+
+/**
+ * A compiled regex enforcing one call's limits: PCRE's limit errors become
+ * RegexTimeoutError, and the deadline is checked before and after each PCRE call
+ */
+function withLimits(regex: any, limits: MatchLimits, deadline: number | null): any {
+  const checkDeadline = () => {
+    if (deadline !== null && Date.now() > deadline) throw new RegexTimeoutError('timeoutMs', limits.timeoutMs!);
+  };
+  const guard = <R>(run: () => R): R => {
+    checkDeadline();
+    let result: R;
+    try {
+      result = run();
+    } catch (error) {
+      const limit = execLimitHit(error);
+      if (limit) throw new RegexTimeoutError(limit, limits[limit] ?? null);
+      throw error;
+    }
+    checkDeadline();
+    return result;
+  };
   return {
-    group(nameOrIndex: string | number) {
-      if (typeof nameOrIndex === 'number') {
-        return pcreMatch[nameOrIndex]?.value;
-      } else if (nameOrIndex in groups) {
-        return groups[nameOrIndex];
-      }
-      return undefined;
+    exec: (subject: string, start?: number, options?: number) => guard(() => regex.exec(subject, start, options)),
+    test: (subject: string, start?: number) => guard(() => regex.test(subject, start)),
+  };
+}
+
+/**
+ * A pattern's three compiled forms
+ */
+interface CompiledRegexes {
+  fullmatch: any;
+  partial: any;
+  anchored: any;
+}
+
+/** How many other sets of per-call limits a pattern keeps compiled */
+const LIMIT_VARIANTS = 8;
+
+/**
+ * Per-pattern data every Match needs
+ */
+interface MatchContext {
+  re: Pattern<AnyStr>;
+  namedGroups: Record<string, number>;
+  groupCount: number;
+  /** Where each group closes among the pattern's groups, for lastindex */
+  closeRank: number[];
+  bytes: boolean;
+}
+
+function makeMatch(
+  pcreMatch: PCREMatch[],
+  context: MatchContext,
+  subject: AnyStr,
+  pos: number,
+  endpos: number
+): Match<AnyStr> {
+  const { namedGroups, groupCount, closeRank, bytes } = context;
+  const { fuzzy } = pcreMatch as Partial<FuzzyMatch>;
+  const groupNames: Record<number, string> = {};
+  for (const [name, idx] of Object.entries(namedGroups)) groupNames[idx] = name;
+  
+  // Resolve a group name or number to its index, or undefined if there is no such group
+  const resolve = (group: string | number): number | undefined => {
+    if (typeof group === 'number') {
+      return Number.isInteger(group) && group >= 0 && group <= groupCount ? group : undefined;
+    }
+    if (typeof group === 'string' && Object.prototype.hasOwnProperty.call(namedGroups, group)) {
+      return namedGroups[group];
+    }
+    return undefined;
+  };
+  // Group values in the pattern's type, converted once
+  const values: Array<AnyStr | undefined> = [];
+  for (let idx = 0; idx <= groupCount; idx++) {
+    const value = groupValue(pcreMatch, idx);
+    values.push(value === undefined ? undefined : fromText(value, bytes));
+  }
+  const valueOf = (group: string | number) => {
+    const idx = resolve(group);
+    return idx === undefined ? undefined : values[idx] ?? null;
+  };
+  const spanOf = (group: string | number): [number, number] => {
+    const idx = resolve(group);
+    if (idx === undefined) throw new RangeError('no such group');
+    if (groupValue(pcreMatch, idx) === undefined) return [-1, -1];
+    const start: number = pcreMatch[idx].index;
+    return [start, start + pcreMatch[idx].value.length];
+  };
+
+  // lastindex is the matched group that closed last: the one ending furthest
+  // right, or of those, the one whose ')' comes last in the pattern (so an
+  // enclosing group beats the groups nested inside it)
+  let lastindex: number | null = null;
+  for (let idx = 1; idx <= groupCount; idx++) {
+    if (groupValue(pcreMatch, idx) === undefined) continue;
+    if (lastindex === null) {
+      lastindex = idx;
+      continue;
+    }
+    const end = spanOf(idx)[1];
+    const lastEnd = spanOf(lastindex)[1];
+    if (end > lastEnd || (end === lastEnd && closeRank[idx] > closeRank[lastindex])) lastindex = idx;
+  }
+
+  const match = {
+    group(...groups: Array<string | number>): any {
+      if (groups.length === 0) return valueOf(0);
+      if (groups.length === 1) return valueOf(groups[0]);
+      return groups.map(valueOf);
     },
-    groups,
-    fullMatch: pcreMatch[0]?.value || '',
+    groups(defaultValue: AnyStr | null = null) {
+      return values.slice(1).map(value => value ?? defaultValue);
+    },
+    groupdict(defaultValue: AnyStr | null = null) {
+      const dict: Record<string, AnyStr | null> = {};
+      const byIndex = Object.entries(namedGroups).sort((a, b) => a[1] - b[1]);
+      for (const [name, idx] of byIndex) dict[name] = values[idx] ?? defaultValue;
+      return dict;
+    },
+    start(group: string | number = 0) {
+      return spanOf(group)[0];
+    },
+    end(group: string | number = 0) {
+      return spanOf(group)[1];
+    },
+    span(group: string | number = 0) {
+      return spanOf(group);
+    },
+    expand(template: AnyStr) {
+      const parts = parseTemplate(replacementText(template, bytes), groupCount, namedGroups);
+      return fromText(expandTemplate(parts, idx => groupValue(pcreMatch, idx)), bytes);
+    },
+    pos,
+    endpos,
+    lastindex,
+    lastgroup: lastindex === null ? null : groupNames[lastindex] ?? null,
+    re: context.re,
+    string: subject,
+    fullMatch: values[0] ?? fromText('', bytes),
+    fuzzy_counts: fuzzy ? fuzzy.counts : [0, 0, 0],
+    fuzzy_changes: fuzzy ? fuzzy.changes : [[], [], []],
   };
+  
+  // m[1] and m['name'] indexing; names that clash with Match members stay reachable via group()
+  for (let idx = 0; idx <= groupCount; idx++) {
+    Object.defineProperty(match, idx, { value: values[idx] ?? null, enumerable: false });
+  }
+  for (const [name, idx] of Object.entries(namedGroups)) {
+    if (!(name in match)) {
+      Object.defineProperty(match, name, { value: values[idx] ?? null, enumerable: false });
+    }
+  }
+  return match as Match<AnyStr>;
+}
+
+/**
+ * A pattern's source with its type, for comparing patterns
+ */
+function sourceKey(pattern: AnyStr): string {
+  return isBytes(pattern) ? 'b' + bytesToLatin1(pattern) : 's' + pattern;
+}
+
+/**
+ * A pattern's source as translation sees it (bytes as Latin-1), and whether it is bytes
+ */
+function patternText(pattern: AnyStr, options: CompileOptions): [string, boolean] {
+  if (isBytes(pattern)) return [bytesToLatin1(pattern), true];
+  return options.bytes ? [utf8ToLatin1(pattern), true] : [pattern, false];
 }
 
-async function compile(pattern: string, flags?: string): Promise<Pattern> {
-  // TODO: support flags
-  const fullmatchRegex = await compileRegex(pattern);
-  const partialRegex = await compileRegexPartial(pattern);
-  const anchoredRegex = await compileRegexAnchored(pattern);
-  const namedGroups = fullmatchRegex.getNamedGroups() || {};
+/**
+ * Compile a pattern, loading the PCRE engine first if needed.
+ * A Uint8Array pattern, or the `bytes` option, compiles a bytes pattern.
+ */
+async function compile(pattern: Uint8Array, flags?: RegexFlags | string, options?: CompileOptions): Promise<Pattern<Uint8Array>>;
+async function compile(
+  pattern: string,
+  flags: RegexFlags | string | undefined,
+  options: CompileOptions & { bytes: true }
+): Promise<Pattern<Uint8Array>>;
+async function compile(pattern: string, flags?: RegexFlags | string, options?: CompileOptions): Promise<Pattern>;
+async function compile(pattern: AnyStr, flags?: RegexFlags | string, options: CompileOptions = {}): Promise<Pattern<any>> {
+  await initPCRE();
+  return compileSync(pattern as string, flags, options);
+}
+
+/**
+ * Compile a pattern synchronously; requires `await regex.init()` first
+ */
+function compileSync(pattern: Uint8Array, flags?: RegexFlags | string, options?: CompileOptions): Pattern<Uint8Array>;
+function compileSync(
+  pattern: string,
+  flags: RegexFlags | string | undefined,
+  options: CompileOptions & { bytes: true }
+): Pattern<Uint8Array>;
+function compileSync(pattern: string, flags?: RegexFlags | string, options?: CompileOptions): Pattern;
+function compileSync(pattern: AnyStr, flags?: RegexFlags | string, options: CompileOptions = {}): Pattern<any> {
+  const [source, bytes] = patternText(pattern, options);
+  const flagValue = parseFlags(flags, bytes);
+  const { profile } = options;
+  const translated = translatePattern(source, flagValue, profile, bytes);
+  const { pcreGroups } = translated;
+  if (options.rejectReDoS) {
+    const [finding] = analyzePattern(source, flagValue, profile, bytes).findings;
+    if (finding) throw new PatternError(finding.message, source, finding.span[0]);
+  }
+  const patternLimits = readLimits(options);
+  const constants = getPCREConstantsSync();
+  // Fuzzy patterns run on their own engine, which numbers groups as Python does
+  const fuzzyProgram = translated.fuzzy ? compileFuzzy(source, translated.flags, profile, bytes) : null;
   
-  return {
-    fullmatch(text: string) {
-      const m = fullmatchRegex.exec(text);
+  const compileFor = (limits: PCRELimits): CompiledRegexes => {
+    if (fuzzyProgram) {
+      const fuzzyRegex = (mode: FuzzyMode) => new FuzzyRegex(fuzzyProgram, mode, limits, constants.NOTEMPTY_ATSTART);
+      return { fullmatch: fuzzyRegex('fullmatch'), partial: fuzzyRegex('partial'), anchored: fuzzyRegex('anchored') };
+    }
+    return {
+      fullmatch: withPythonGroups(compileRegexSync(source, flagValue, bytes, limits, profile), pcreGroups),
+      partial: withPythonGroups(compileRegexPartialSync(source, flagValue, bytes, limits, profile), pcreGroups),
+      anchored: withPythonGroups(compileRegexAnchoredSync(source, flagValue, bytes, limits, profile), pcreGroups),
+    };
+  };
+  
+  // The limits are compiled into the pattern, so other limits passed to a
+  // call need their own regexes; only the most recently used are kept
+  const limitsKey = (limits: PCRELimits) => `${limits.matchLimit ?? ''}/${limits.recursionLimit ?? ''}`;
+  const ownKey = limitsKey(patternLimits);
+  const ownRegexes = compileFor(patternLimits);
+  const variants = new PatternCache<CompiledRegexes>(LIMIT_VARIANTS);
+  const regexesFor = (limits: PCRELimits): CompiledRegexes => {
+    const key = limitsKey(limits);
+    return key === ownKey ? ownRegexes : variants.get(key, () => compileFor(limits));
+  };
+  
+  // The regexes for one call, enforcing its limits over the pattern's
+  const prepare = (callLimits?: MatchLimits): CompiledRegexes => {
+    const limits = callLimits ? { ...patternLimits, ...readLimits(callLimits) } : patternLimits;
+    const regexes = regexesFor(limits);
+    const deadline = limits.timeoutMs === undefined ? null : Date.now() + limits.timeoutMs;
+    return {
+      fullmatch: withLimits(regexes.fullmatch, limits, deadline),
+      partial: withLimits(regexes.partial, limits, deadline),
+      anchored: withLimits(regexes.anchored, limits, deadline),
+    };
+  };
+  
+  const namedGroups = translated.groupIndex;
+  const groupCount = translated.groups;
+  
+  // Like Python, str patterns report UNICODE unless ASCII was requested
+  let effectiveFlags = translated.flags;
+  if (!bytes && !(effectiveFlags & RegexFlag.ASCII)) effectiveFlags |= RegexFlag.UNICODE;
+  
+  const closeRank: number[] = [];
+  translated.closeOrder.forEach((group, rank) => {
+    closeRank[group] = rank;
+  });
+  const context: MatchContext = { re: undefined as unknown as Pattern<AnyStr>, namedGroups, groupCount, closeRank, bytes };
+  
+  function subn(repl: Replacement<AnyStr>, subject: AnyStr, count = 0, limits?: MatchLimits): [AnyStr, number] {
+    const text = subjectText(subject, bytes);
+    const { partial } = prepare(limits);
+    // Templates are validated up front, even when nothing matches (as in Python)
+    const template = typeof repl === 'function' ? null : parseTemplate(replacementText(repl, bytes), groupCount, namedGroups);
+    if (count < 0) return [subject, 0];
+    
+    let result = '';
+    let last = 0;
+    let replaced = 0;
+    for (const m of scanMatches(partial, text, 0, text.length, constants.NOTEMPTY_ATSTART)) {
+      const start: number = m[0].index;
+      result += text.slice(last, start);
+      result += template
+        ? expandTemplate(template, idx => groupValue(m, idx))
+        : replacementText((repl as (match: Match<AnyStr>) => AnyStr)(makeMatch(m, context, subject, 0, text.length)), bytes);
+      last = start + m[0].value.length;
+      replaced++;
+      if (count > 0 && replaced >= count) break;
+    }
+    return [fromText(result + text.slice(last), bytes), replaced];
+  }
+  
+  const compiled: Pattern<AnyStr> = {
+    pattern: bytes && !isBytes(pattern) ? latin1ToBytes(source) : pattern,
+    flags: effectiveFlags,
+    groups: groupCount,
+    groupindex: Object.freeze({ ...namedGroups }),
+    profile: profile ?? 'regex',
+    equals(other: unknown) {
+      const that = other as Pattern<AnyStr> | null;
+      return (
+        typeof that?.equals === 'function' &&
+        that.flags === effectiveFlags &&
+        that.profile === compiled.profile &&
+        sourceKey(that.pattern) === sourceKey(compiled.pattern)
+      );
+    },
+    fullmatch(subject: AnyStr, pos?: number, endpos?: number, limits?: MatchLimits) {
+      const text = subjectText(subject, bytes);
+      const [start, end] = clampRange(text, pos, endpos);
+      if (start > end) return null;
+      const m = prepare(limits).fullmatch.exec(truncate(text, end), start);
       if (!m) return null;
-      return makeMatch(m, namedGroups);
+      return makeMatch(m, context, subject, start, end);
     },
-    match(text: string) {
-      // Use anchored regex for position-exact matching at start of string
-      const m = anchoredRegex.exec(text, 0);
+    match(subject: AnyStr, pos?: number, endpos?: number, limits?: MatchLimits) {
+      // Use anchored regex for position-exact matching at pos
+      const text = subjectText(subject, bytes);
+      const [start, end] = clampRange(text, pos, endpos);
+      if (start > end) return null;
+      const m = prepare(limits).anchored.exec(truncate(text, end), start);
       if (!m) return null;
-      return makeMatch(m, namedGroups);
+      return makeMatch(m, context, subject, start, end);
     },
-    search(text: string) {
-      // Use partial regex for finding matches anywhere in string
-      const m = partialRegex.exec(text);
+    search(subject: AnyStr, pos?: number, endpos?: number, limits?: MatchLimits) {
+      // Use partial regex for finding matches anywhere from pos
+      const text = subjectText(subject, bytes);
+      const [start, end] = clampRange(text, pos, endpos);
+      if (start > end) return null;
+      const m = prepare(limits).partial.exec(truncate(text, end), start);
       if (!m) return null;
-      return makeMatch(m, namedGroups);
+      return makeMatch(m, context, subject, start, end);
+    },
+    test(subject: AnyStr, pos?: number, endpos?: number, limits?: MatchLimits) {
+      const text = subjectText(subject, bytes);
+      const [start, end] = clampRange(text, pos, endpos);
+      if (start > end) return false;
+      return prepare(limits).fullmatch.test(truncate(text, end), start);
+    },
+    findall(subject: AnyStr, pos?: number, endpos?: number, limits?: MatchLimits) {
+      const text = subjectText(subject, bytes);
+      const [start, end] = clampRange(text, pos, endpos);
+      const results: Array<AnyStr | AnyStr[]> = [];
+      for (const m of scanMatches(prepare(limits).partial, text, start, end, constants.NOTEMPTY_ATSTART)) {
+        if (groupCount === 0) {
+          results.push(fromText(m[0].value, bytes));
+        } else if (groupCount === 1) {
+          results.push(fromText(groupValue(m, 1) ?? '', bytes));
+        } else {
+          const tuple: AnyStr[] = [];
+          for (let i = 1; i <= groupCount; i++) tuple.push(fromText(groupValue(m, i) ?? '', bytes));
+          results.push(tuple);
+        }
+      }
+      return results;
+    },
+    finditer(subject: AnyStr, pos?: number, endpos?: number, limits?: MatchLimits) {
+      // The arguments are checked and the deadline starts here, but each PCRE
+      // exec runs only when the caller asks for the next match
+      const text = subjectText(subject, bytes);
+      const [start, end] = clampRange(text, pos, endpos);
+      const matches = scanMatches(prepare(limits).partial, text, start, end, constants.NOTEMPTY_ATSTART);
+      return (function* () {
+        for (const m of matches) yield makeMatch(m, context, subject, start, end);
+      })();
+    },
+    sub(repl: Replacement<AnyStr>, subject: AnyStr, count?: number, limits?: MatchLimits) {
+      return subn(repl, subject, count, limits)[0];
     },
-    test(text: string) {
-      return fullmatchRegex.test(text, 0);
+    subn,
+    split(subject: AnyStr, maxsplit = 0, limits?: MatchLimits) {
+      const text = subjectText(subject, bytes);
+      const parts: Array<AnyStr | null> = [];
+      if (maxsplit < 0) return [subject];
+      let last = 0;
+      let splits = 0;
+      for (const m of scanMatches(prepare(limits).partial, text, 0, text.length, constants.NOTEMPTY_ATSTART)) {
+        const start: number = m[0].index;
+        parts.push(fromText(text.slice(last, start), bytes));
+        // Captured separators are kept; groups that did not participate become null
+        for (let i = 1; i <= groupCount; i++) {
+          const value = groupValue(m, i);
+          parts.push(value === undefined ? null : fromText(value, bytes));
+        }
+        last = start + m[0].value.length;
+        splits++;
+        if (maxsplit > 0 && splits >= maxsplit) break;
+      }
+      parts.push(fromText(text.slice(last), bytes));
+      return parts;
+    },
+    scanner(subject: AnyStr, pos?: number, endpos?: number, limits?: MatchLimits) {
+      const text = subjectText(subject, bytes);
+      const { anchored, partial } = prepare(limits);
+      const [start, end] = clampRange(text, pos, endpos);
+      const truncated = truncate(text, end);
+      // Where the next step starts, or null once the scanner is exhausted
+      let next: number | null = start <= end ? start : null;
+      let mustAdvance = false;
+      const step = (stepRegex: any) => {
+        if (next === null) return null;
+        const m: PCREMatch[] | null = stepRegex.exec(truncated, next, mustAdvance ? constants.NOTEMPTY_ATSTART : 0);
+        if (!m) {
+          next = null;
+          return null;
+        }
+        const matchStart: number = m[0].index;
+        next = matchStart + m[0].value.length;
+        mustAdvance = next === matchStart;
+        return makeMatch(m, context, subject, start, end);
+      };
+      return {
+        pattern: compiled,
+        match: () => step(anchored),
+        search: () => step(partial),
+      };
     },
   };
+  context.re = compiled;
+  return compiled;
+}
+
+const patternCache = new PatternCache<Pattern<any>>();
+
+/**
+ * Compile through the LRU cache, keyed by pattern, flags and profile.
+ * Already-compiled patterns are passed through, as Python's re functions do.
+ * Limits in `options` are not compiled in: the module functions pass them
+ * to each call.
+ */
+function cachedCompile(pattern: AnyStr | Pattern<any>, flags?: RegexFlags | string, options: CompileOptions = {}): Pattern<any> {
+  if (typeof pattern !== 'string' && !isBytes(pattern)) {
+    if (flags) throw new Error('cannot process flags argument with a compiled pattern');
+    return pattern;
+  }
+  
+  // str and bytes patterns with the same text are different patterns
+  const [source, bytes] = patternText(pattern, options);
+  const flagValue = parseFlags(flags, bytes);
+  const { profile, rejectReDoS } = options;
+  const key = `${profile ?? 'regex'}${rejectReDoS ? '!' : ''}\0${flagValue}\0${bytes ? 'b' : 's'}${source}`;
+  return patternCache.get(key, () => compileSync(pattern as string, flagValue, { profile, bytes, rejectReDoS }));
+}
+
+/**
+ * A pattern for the module functions: source (str or bytes) or compiled.
+ * Its type has to match the subject's, which is checked when matching.
+ */
+type PatternSource<T extends AnyStr> = AnyStr | Pattern<T>;
+type Flags = RegexFlags | string;
+
+function matchSync<T extends AnyStr>(pattern: PatternSource<T>, text: T, flags?: Flags, options?: CompileOptions): Match<T> | null {
+  return cachedCompile(pattern, flags, options).match(text, undefined, undefined, options);
+}
+
+function searchSync<T extends AnyStr>(pattern: PatternSource<T>, text: T, flags?: Flags, options?: CompileOptions): Match<T> | null {
+  return cachedCompile(pattern, flags, options).search(text, undefined, undefined, options);
+}
+
+function fullmatchSync<T extends AnyStr>(
+  pattern: PatternSource<T>,
+  text: T,
+  flags?: Flags,
+  options?: CompileOptions
+): Match<T> | null {
+  return cachedCompile(pattern, flags, options).fullmatch(text, undefined, undefined, options);
+}
+
+function findallSync<T extends AnyStr>(pattern: PatternSource<T>, text: T, flags?: Flags, options?: CompileOptions): Array<T | T[]> {
+  return cachedCompile(pattern, flags, options).findall(text, undefined, undefined, options);
+}
+
+function finditerSync<T extends AnyStr>(
+  pattern: PatternSource<T>,
+  text: T,
+  flags?: Flags,
+  options?: CompileOptions
+): IterableIterator<Match<T>> {
+  return cachedCompile(pattern, flags, options).finditer(text, undefined, undefined, options);
+}
+
+function subSync<T extends AnyStr>(
+  pattern: PatternSource<T>,
+  repl: Replacement<T>,
+  text: T,
+  count = 0,
+  flags?: Flags,
+  options?: CompileOptions
+): T {
+  return cachedCompile(pattern, flags, options).sub(repl, text, count, options);
+}
+
+function subnSync<T extends AnyStr>(
+  pattern: PatternSource<T>,
+  repl: Replacement<T>,
+  text: T,
+  count = 0,
+  flags?: Flags,
+  options?: CompileOptions
+): [T, number] {
+  return cachedCompile(pattern, flags, options).subn(repl, text, count, options);
+}
+
+function splitSync<T extends AnyStr>(
+  pattern: PatternSource<T>,
+  text: T,
+  maxsplit = 0,
+  flags?: Flags,
+  options?: CompileOptions
+): Array<T | null> {
+  return cachedCompile(pattern, flags, options).split(text, maxsplit, options);
+}
+
+/**
+ * Python's re.escape for str or bytes
+ */
+function escape(pattern: Uint8Array): Uint8Array;
+function escape(pattern: string): string;
+function escape(pattern: AnyStr): AnyStr {
+  return isBytes(pattern) ? latin1ToBytes(escapeRegex(bytesToLatin1(pattern))) : escapeRegex(pattern);
+}
+
+/**
+ * Look for inputs on which the pattern backtracks catastrophically (see
+ * analyzePattern in redos.ts). Works on the Python syntax alone, so it needs
+ * neither init() nor the PCRE engine. Witnesses are in the pattern's type.
+ */
+function analyze(pattern: Uint8Array, flags?: RegexFlags | string, options?: CompileOptions): ReDoSReport<Uint8Array>;
+function analyze(
+  pattern: string,
+  flags: RegexFlags | string | undefined,
+  options: CompileOptions & { bytes: true }
+): ReDoSReport<Uint8Array>;
+function analyze(pattern: string, flags?: RegexFlags | string, options?: CompileOptions): ReDoSReport;
+function analyze(pattern: AnyStr, flags?: RegexFlags | string, options: CompileOptions = {}): ReDoSReport<any> {
+  const [source, bytes] = patternText(pattern, options);
+  const report = analyzePattern(source, parseFlags(flags, bytes), options.profile, bytes);
+  if (!bytes) return report;
+  return {
+    ...report,
+    findings: report.findings.map(finding => ({
+      ...finding,
+      witness: {
+        prefix: latin1ToBytes(finding.witness.prefix),
+        pump: latin1ToBytes(finding.witness.pump),
+        suffix: latin1ToBytes(finding.witness.suffix),
+      },
+      attack: latin1ToBytes(finding.attack),
+    })),
+  };
+}
+
+/**
+ * What a lexicon entry makes of a token: a value, null to drop the token, or
+ * a function of the Scanner and the token text returning either
+ */
+export type ScannerAction<T extends AnyStr = string, R = unknown> =
+  | R
+  | null
+  | ((scanner: Scanner<T, R>, token: T) => R | null | undefined);
+
+/**
+ * A simple lexer, as Python's re.Scanner: at each position the lexicon's
+ * patterns are tried in order, and the first to match makes the token.
+ * Compiling is synchronous, so call `await regex.init()` first.
+ */
+export class Scanner<T extends AnyStr = string, R = unknown> {
+  /** The lexicon's patterns combined, each entry in a group of its own */
+  readonly scanner: Pattern<T>;
+  /** The match being handled, while an action function runs */
+  match: Match<T> | null = null;
+  // Lexicon entry for every group number, so any group that took part names its entry
+  private readonly entryOfGroup: number[] = [];
+
+  constructor(
+    readonly lexicon: ReadonlyArray<readonly [T, ScannerAction<T, R>]>,
+    flags?: RegexFlags | string,
+    options: CompileOptions = {}
+  ) {
+    const first = lexicon[0]?.[0];
+    const bytes = isBytes(first) || !!options.bytes;
+    const flagValue = parseFlags(flags, bytes);
+
+    const branches: string[] = [];
+    let groups = 0;
+    lexicon.forEach(([phrase], index) => {
+      if (isBytes(phrase) !== isBytes(first)) {
+        throw new TypeError('cannot mix str and bytes patterns in a lexicon');
+      }
+      const [source] = patternText(phrase, { bytes });
+      const translated = translatePattern(source, flagValue, options.profile, bytes);
+      for (let group = groups + 1; group <= groups + 1 + translated.groups; group++) this.entryOfGroup[group] = index;
+      groups += 1 + translated.groups;
+      // Each phrase is a pattern of its own, so its leading global flags
+      // (checked above) are scoped to the rest of the phrase
+      const close = translated.flags & RegexFlag.VERBOSE ? '\n)' : ')';
+      const lead = /^(?:\(\?[a-zA-Z]+\))*/.exec(source)![0];
+      const body = lead ? `(?${lead.replace(/[(?)]/g, '')}:${source.slice(lead.length)}${close}` : source;
+      branches.push(`(${body}${close}`);
+    });
+
+    const combined = branches.join('|');
+    const source = bytes ? latin1ToBytes(combined) : combined;
+    this.scanner = compileSync(source as string, flagValue, options) as unknown as Pattern<T>;
+  }
+
+  /**
+   * Tokenize `text` from the start until no pattern matches (or one matches
+   * empty), returning the tokens and the unscanned remainder
+   */
+  scan(text: T): [R[], T] {
+    const tokens: R[] = [];
+    const scanner = this.scanner.scanner(text);
+    let i = 0;
+    for (let m = scanner.match(); m; m = scanner.match()) {
+      const j = m.end();
+      if (i === j) break;
+      const action = this.lexicon[this.entryOfGroup[m.lastindex!]][1];
+      let token: R | null | undefined;
+      if (typeof action === 'function') {
+        this.match = m;
+        token = (action as (scanner: Scanner<T, R>, token: T) => R | null | undefined)(this, m.group() as T);
+      } else {
+        token = action;
+      }
+      if (token !== null && token !== undefined) tokens.push(token);
+      i = j;
+    }
+    return [tokens, (text as AnyStr).slice(i) as T];
+  }
+}
+
+/**
+ * Async wrapper around a synchronous module-level function: loads PCRE first
+ */
+function withInit<Args extends unknown[], Result>(fn: (...args: Args) => Result) {
+  return async (...args: Args): Promise<Result> => {
+    await initPCRE();
+    return fn(...args);
+  };
 }
 
 export const regex = {
+  ...RegexFlag,
+  RegexFlag,
+  /** Raised for invalid patterns and templates (Python's re.error) */
+  error: PatternError,
+  PatternError,
+  RegexTimeoutError,
+  /** Load the PCRE engine so the synchronous APIs can be used */
+  init: initPCRE,
   compile,
-  escape: escapeRegex,
+  compileSync,
+  escape,
+  analyze,
+  Scanner,
+  match: withInit(matchSync),
+  search: withInit(searchSync),
+  fullmatch: withInit(fullmatchSync),
+  findall: withInit(findallSync),
+  finditer: withInit(finditerSync),
+  sub: withInit(subSync),
+  subn: withInit(subnSync),
+  split: withInit(splitSync),
+  matchSync,
+  searchSync,
+  fullmatchSync,
+  findallSync,
+  finditerSync,
+  subSync,
+  subnSync,
+  splitSync,
+  /** Clear the compiled-pattern cache (Python's re.purge) */
+  purge(): void {
+    patternCache.clear();
+  },
+  cacheInfo(): CacheInfo {
+    return patternCache.info();
+  },
+  setCacheSize(maxSize: number): void {
+    patternCache.resize(maxSize);
+  },
 };
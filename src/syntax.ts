@@ -0,0 +1,543 @@
+import { RegexFlag } from './flags';
+import { FuzzyConstraint, parseFlagGroup, parseFuzzyConstraint, Profile } from './translate';
+import { lookupCharacterName } from './unicode-names';
+
+/**
+ * Syntax trees for Python patterns, for the parts of the library that work
+ * on the pattern itself rather than through PCRE: the ReDoS analyzer and
+ * the fuzzy matching engine.
+ */
+
+/** A set of code points, as a membership test */
+export type CharSet = (cp: number) => boolean;
+
+export type Span = [number, number];
+
+export interface RepeatNode {
+  type: 'repeat';
+  body: SyntaxNode;
+  min: number;
+  max: number | null;
+  lazy: boolean;
+  possessive: boolean;
+  span: Span;
+}
+
+export interface AltNode {
+  type: 'alt';
+  branches: SyntaxNode[];
+  span: Span;
+}
+
+/**
+ * Zero-width assertions: ^ and $ (line forms under MULTILINE), \A, \Z, \b and \B
+ */
+export type AnchorKind = 'start' | 'end' | 'lineStart' | 'lineEnd' | 'textStart' | 'textEnd' | 'boundary' | 'nonBoundary';
+
+export type SyntaxNode =
+  | { type: 'set'; set: CharSet; span: Span }
+  | { type: 'seq'; items: SyntaxNode[] }
+  | AltNode
+  | RepeatNode
+  | { type: 'group'; index: number; body: SyntaxNode }
+  | { type: 'atomic'; body: SyntaxNode }
+  | { type: 'look'; body: SyntaxNode; behind: boolean; negated: boolean }
+  | { type: 'anchor'; kind: AnchorKind; unicode: boolean }
+  | { type: 'backref'; group: number; ignoreCase: boolean; unicode: boolean }
+  | { type: 'cond'; group: number; yes: SyntaxNode; no: SyntaxNode; span: Span }
+  | { type: 'fuzzy'; body: SyntaxNode; constraint: FuzzyConstraint; test: CharSet | null; span: Span }
+  | { type: 'empty' };
+
+export const EMPTY: SyntaxNode = { type: 'empty' };
+
+/** Escapes sre_parse maps to single characters */
+const CHAR_ESCAPES: Record<string, number> = { a: 0x07, b: 0x08, f: 0x0c, n: 0x0a, r: 0x0d, t: 0x09, v: 0x0b };
+
+const CATEGORY_ESCAPES = 'dDsSwW';
+/** The anchors among sre_parse's AT escapes */
+const ESCAPE_ANCHORS: Record<string, AnchorKind> = { A: 'textStart', Z: 'textEnd', b: 'boundary', B: 'nonBoundary' };
+const OCTAL_DIGIT = /[0-7]/;
+const DIGIT = /[0-9]/;
+const VERBOSE_WHITESPACE = ' \t\n\r\v\f';
+
+const ANY: CharSet = () => true;
+const NOT_NEWLINE: CharSet = cp => cp !== 0x0a;
+
+function matches(re: RegExp): CharSet {
+  return cp => re.test(String.fromCodePoint(cp));
+}
+
+const ASCII_CATEGORIES: Record<string, CharSet> = {
+  d: matches(/^[0-9]$/),
+  s: matches(/^[ \t\n\r\f\v]$/),
+  w: matches(/^[a-zA-Z0-9_]$/),
+};
+
+const UNICODE_CATEGORIES: Record<string, CharSet> = {
+  d: matches(/^\p{Nd}$/u),
+  // Python's str.isspace(), as in translate.ts
+  s: matches(/^[\t-\r\x1c-\x20\x85\xa0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000]$/),
+  w: matches(/^[\p{L}\p{N}_]$/u),
+};
+
+/**
+ * The characters \w matches, which \b and \B look for
+ */
+export function wordSet(unicode: boolean): CharSet {
+  return unicode ? UNICODE_CATEGORIES.w : ASCII_CATEGORIES.w;
+}
+
+interface Scope {
+  ignoreCase: boolean;
+  dotAll: boolean;
+  verbose: boolean;
+  unicode: boolean;
+  multiline: boolean;
+}
+
+/**
+ * Parser for patterns translatePattern() has already accepted, so it
+ * doesn't check for errors. Groups are numbered as translatePattern()
+ * numbers them.
+ */
+export class SyntaxParser {
+  /** Code points written in the pattern */
+  readonly literals = new Set<number>();
+  private i = 0;
+  private scope: Scope;
+  private groups = 0;
+  private readonly names = new Map<string, number>();
+
+  constructor(
+    private readonly pattern: string,
+    flags: number,
+    private readonly profile: Profile,
+    private readonly bytes: boolean
+  ) {
+    this.scope = {
+      ignoreCase: !!(flags & RegexFlag.IGNORECASE),
+      dotAll: !!(flags & RegexFlag.DOTALL),
+      verbose: !!(flags & RegexFlag.VERBOSE),
+      unicode: !bytes && !(flags & RegexFlag.ASCII),
+      multiline: !!(flags & RegexFlag.MULTILINE),
+    };
+  }
+
+  parse(): SyntaxNode {
+    return this.alternation();
+  }
+
+  private alternation(): SyntaxNode {
+    const start = this.i;
+    const branches = this.branches();
+    return branches.length === 1 ? branches[0] : { type: 'alt', branches, span: [start, this.i] };
+  }
+
+  private branches(): SyntaxNode[] {
+    const branches = [this.sequence()];
+    while (this.pattern[this.i] === '|') {
+      this.i++;
+      branches.push(this.sequence());
+    }
+    return branches;
+  }
+
+  private sequence(): SyntaxNode {
+    const items: SyntaxNode[] = [];
+    while (true) {
+      this.skipVerbose();
+      const ch = this.pattern[this.i];
+      if (ch === undefined || ch === '|' || ch === ')') break;
+      const start = this.i;
+      const atom = this.atom();
+      if (atom) items.push(this.quantified(atom, start));
+    }
+    return items.length === 1 ? items[0] : { type: 'seq', items };
+  }
+
+  private skipVerbose(): void {
+    const { pattern } = this;
+    while (this.scope.verbose && this.i < pattern.length) {
+      if (VERBOSE_WHITESPACE.includes(pattern[this.i])) {
+        this.i++;
+      } else if (pattern[this.i] === '#') {
+        const newline = pattern.indexOf('\n', this.i);
+        this.i = newline === -1 ? pattern.length : newline;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * The atom at the current position, or null for items that are not
+   * atoms: comments and global flag groups
+   */
+  private atom(): SyntaxNode | null {
+    const { pattern } = this;
+    const start = this.i;
+    switch (pattern[start]) {
+      case '(':
+        return this.group();
+      case '[':
+        return this.charClass();
+      case '.':
+        this.i++;
+        return this.leaf(this.scope.dotAll ? ANY : NOT_NEWLINE, start);
+      case '^':
+        this.i++;
+        return this.anchor(this.scope.multiline ? 'lineStart' : 'start');
+      case '$':
+        this.i++;
+        return this.anchor(this.scope.multiline ? 'lineEnd' : 'end');
+      case '\\':
+        return this.escape();
+      default: {
+        const cp = pattern.codePointAt(start)!;
+        this.i += cp > 0xffff ? 2 : 1;
+        return this.leaf(this.literal(cp), start);
+      }
+    }
+  }
+
+  private leaf(set: CharSet, start: number): SyntaxNode {
+    return { type: 'set', set, span: [start, this.i] };
+  }
+
+  private anchor(kind: AnchorKind): SyntaxNode {
+    return { type: 'anchor', kind, unicode: this.scope.unicode };
+  }
+
+  /**
+   * An atom followed by its repeat or fuzzy constraint, if any
+   */
+  private quantified(atom: SyntaxNode, start: number): SyntaxNode {
+    const { pattern } = this;
+    this.skipVerbose();
+
+    let min: number;
+    let max: number | null;
+    const q = pattern[this.i];
+    if (q === '*' || q === '+' || q === '?') {
+      min = q === '+' ? 1 : 0;
+      max = q === '?' ? 1 : null;
+      this.i++;
+    } else if (q === '{') {
+      const brace = /\{(\d*)(?:(,)(\d*))?\}/y;
+      brace.lastIndex = this.i;
+      const m = pattern[this.i + 1] === '}' ? null : brace.exec(pattern);
+      if (!m) return this.fuzzy(atom, start);
+      min = m[1] ? Number(m[1]) : 0;
+      max = m[2] ? (m[3] ? Number(m[3]) : null) : min;
+      this.i += m[0].length;
+    } else {
+      return atom;
+    }
+
+    let lazy = false;
+    let possessive = false;
+    if (pattern[this.i] === '?') {
+      lazy = true;
+      this.i++;
+    } else if (pattern[this.i] === '+') {
+      possessive = true;
+      this.i++;
+    }
+    return { type: 'repeat', body: atom, min, max, lazy, possessive, span: [start, this.i] };
+  }
+
+  /**
+   * An atom with the fuzzy constraint at the current '{', or just the atom
+   * if the '{' is a literal
+   */
+  private fuzzy(atom: SyntaxNode, start: number): SyntaxNode {
+    const constraint = this.profile === 'regex' ? parseFuzzyConstraint(this.pattern, this.i) : null;
+    if (!constraint) return atom;
+    this.i = constraint.index;
+    let test: CharSet | null = null;
+    if (constraint.test) {
+      if (this.pattern[this.i] === '[') {
+        test = (this.charClass() as { set: CharSet }).set;
+      } else {
+        const item = this.classItem();
+        test = typeof item === 'number' ? this.literal(item) : item;
+      }
+      this.i++;
+    }
+    return { type: 'fuzzy', body: atom, constraint, test, span: [start, this.i] };
+  }
+
+  private group(): SyntaxNode | null {
+    const { pattern } = this;
+    const start = this.i;
+
+    if (pattern[start + 1] !== '?') {
+      this.i++;
+      return this.capture(++this.groups);
+    }
+
+    const c = pattern[start + 2];
+    const next = pattern[start + 3];
+    if (c === '#') {
+      this.i = pattern.indexOf(')', start) + 1;
+      return null;
+    }
+    if (c === ':' || c === '=' || c === '!' || c === '>') {
+      this.i = start + 3;
+      const body = this.groupBody(this.scope);
+      if (c === ':') return body;
+      if (c === '>') return { type: 'atomic', body };
+      return { type: 'look', body, behind: false, negated: c === '!' };
+    }
+    if (c === '<' && (next === '=' || next === '!')) {
+      this.i = start + 4;
+      return { type: 'look', body: this.groupBody(this.scope), behind: true, negated: next === '!' };
+    }
+    if (c === '<' || (c === 'P' && next === '<')) {
+      const nameStart = pattern.indexOf('<', start) + 1;
+      this.i = pattern.indexOf('>', nameStart) + 1;
+      const name = pattern.slice(nameStart, this.i - 1);
+      let index = this.names.get(name);
+      if (index === undefined) {
+        index = ++this.groups;
+        this.names.set(name, index);
+      }
+      return this.capture(index);
+    }
+    if (c === 'P') {
+      // (?P=name)
+      this.i = pattern.indexOf(')', start) + 1;
+      return this.backreference(this.names.get(pattern.slice(start + 4, this.i - 1))!);
+    }
+    if (c === '(') {
+      this.i = pattern.indexOf(')', start + 3) + 1;
+      const name = pattern.slice(start + 3, this.i - 1);
+      const group = /^[0-9]+$/.test(name) ? Number(name) : this.names.get(name)!;
+      const outer = this.scope;
+      this.scope = { ...outer };
+      const [yes, no = EMPTY] = this.branches();
+      this.i++;
+      this.scope = outer;
+      return { type: 'cond', group, yes, no, span: [start, this.i] };
+    }
+
+    const flags = parseFlagGroup(pattern, start + 2, this.bytes);
+    this.i = flags.index;
+    if (flags.global) return null;
+
+    const { on, off } = flags;
+    const scoped = (flag: number, value: boolean) => (on & flag ? true : off & flag ? false : value);
+    return this.groupBody({
+      ignoreCase: scoped(RegexFlag.IGNORECASE, this.scope.ignoreCase),
+      dotAll: scoped(RegexFlag.DOTALL, this.scope.dotAll),
+      verbose: scoped(RegexFlag.VERBOSE, this.scope.verbose),
+      unicode: on & RegexFlag.ASCII ? false : on & RegexFlag.UNICODE ? true : this.scope.unicode,
+      multiline: scoped(RegexFlag.MULTILINE, this.scope.multiline),
+    });
+  }
+
+  private capture(index: number): SyntaxNode {
+    return { type: 'group', index, body: this.groupBody(this.scope) };
+  }
+
+  /**
+   * The contents of a group opened just before the current position, up to
+   * and including its ')'
+   */
+  private groupBody(scope: Scope): SyntaxNode {
+    const outer = this.scope;
+    this.scope = { ...scope };
+    const body = this.alternation();
+    this.i++;
+    this.scope = outer;
+    return body;
+  }
+
+  private backreference(group: number): SyntaxNode {
+    return { type: 'backref', group, ignoreCase: this.scope.ignoreCase, unicode: this.scope.unicode };
+  }
+
+  private charClass(): SyntaxNode {
+    const { pattern } = this;
+    const start = this.i;
+    this.i++;
+    const negated = pattern[this.i] === '^';
+    if (negated) this.i++;
+
+    const members: CharSet[] = [];
+    let first = true;
+    while (pattern[this.i] !== ']' || first) {
+      first = false;
+      const low = this.classItem();
+      if (pattern[this.i] === '-' && pattern[this.i + 1] !== ']' && typeof low === 'number') {
+        this.i++;
+        const high = this.classItem() as number;
+        this.literals.add(low).add(high);
+        members.push(cp => cp >= low && cp <= high);
+      } else {
+        members.push(typeof low === 'number' ? this.literal(low) : low);
+      }
+    }
+    this.i++;
+
+    let set: CharSet = cp => members.some(member => member(cp));
+    if (this.scope.ignoreCase) set = caseless(set, this.scope.unicode);
+    return this.leaf(negated ? cp => !set(cp) : set, start);
+  }
+
+  /**
+   * One class member: a code point, or the set of a class escape
+   */
+  private classItem(): number | CharSet {
+    const { pattern } = this;
+    if (pattern[this.i] !== '\\') {
+      const cp = pattern.codePointAt(this.i)!;
+      this.i += cp > 0xffff ? 2 : 1;
+      return cp;
+    }
+    return this.escapeValue(true) as number | CharSet;
+  }
+
+  private escape(): SyntaxNode {
+    const start = this.i;
+    const c = this.pattern[start + 1];
+    const anchor = ESCAPE_ANCHORS[c];
+    if (anchor) {
+      this.i += 2;
+      return this.anchor(anchor);
+    }
+    const value = this.escapeValue(false);
+    if (value === null) return this.backreference(Number(this.pattern.slice(start + 1, this.i)));
+    return this.leaf(typeof value === 'number' ? this.literal(value) : value, start);
+  }
+
+  /**
+   * The escape at the current position (sre_parse._escape and _class_escape):
+   * a code point, a class escape's set, or null for a backreference
+   */
+  private escapeValue(inClass: boolean): number | CharSet | null {
+    const { pattern } = this;
+    const start = this.i;
+    const c = pattern[start + 1];
+    this.i = start + 2;
+
+    if (CATEGORY_ESCAPES.includes(c)) {
+      const categories = this.scope.unicode ? UNICODE_CATEGORIES : ASCII_CATEGORIES;
+      const set = categories[c.toLowerCase()];
+      return c === c.toLowerCase() ? set : cp => !set(cp);
+    }
+    if (c === 'x') {
+      this.i += 2;
+      return parseInt(pattern.slice(start + 2, this.i), 16);
+    }
+    if ((c === 'u' || c === 'U' || c === 'N') && !this.bytes) {
+      return this.unicodeEscape(c);
+    }
+    if (c === '0' || (inClass && OCTAL_DIGIT.test(c))) {
+      return parseInt(c + this.takeWhile(OCTAL_DIGIT, 2), 8);
+    }
+    if (!inClass && DIGIT.test(c)) {
+      // A backreference, unless it is a three-digit octal escape
+      const octal = /[0-7]{2}/y;
+      octal.lastIndex = this.i;
+      if (OCTAL_DIGIT.test(c) && octal.test(pattern)) {
+        this.i += 2;
+        return parseInt(pattern.slice(start + 1, this.i), 8);
+      }
+      this.takeWhile(DIGIT, 1);
+      return null;
+    }
+    if (c in CHAR_ESCAPES) {
+      return CHAR_ESCAPES[c];
+    }
+    if (c === 'p' || c === 'P') {
+      return this.property(c === 'P');
+    }
+
+    const cp = pattern.codePointAt(start + 1)!;
+    this.i = start + 1 + (cp > 0xffff ? 2 : 1);
+    return cp;
+  }
+
+  /**
+   * The code point of a \u, \U or \N escape whose letter has been read
+   */
+  private unicodeEscape(c: string): number {
+    const { pattern } = this;
+    if (c === 'N') {
+      const close = pattern.indexOf('}', this.i);
+      const name = pattern.slice(this.i + 1, close);
+      this.i = close + 1;
+      return lookupCharacterName(name)!;
+    }
+    const braced = c === 'u' && pattern[this.i] === '{';
+    const digits = braced ? pattern.slice(this.i + 1, pattern.indexOf('}', this.i)) : pattern.substr(this.i, c === 'u' ? 4 : 8);
+    this.i += digits.length + (braced ? 2 : 0);
+    return parseInt(digits, 16);
+  }
+
+  /**
+   * A \p{...} or \pL property whose letter has been read. Names JavaScript
+   * doesn't know are taken to match anything.
+   */
+  private property(negated: boolean): CharSet {
+    const { pattern } = this;
+    let name: string;
+    if (pattern[this.i] === '{') {
+      const close = pattern.indexOf('}', this.i);
+      name = pattern.slice(this.i + 1, close);
+      this.i = close + 1;
+    } else {
+      name = pattern[this.i++];
+    }
+    if (name.startsWith('^')) {
+      negated = !negated;
+      name = name.slice(1);
+    }
+
+    let set = ANY;
+    for (const spelling of [name, `Script=${name}`]) {
+      try {
+        set = matches(new RegExp(`^\\p{${spelling}}$`, 'u'));
+        break;
+      } catch {
+        // Not a property name JavaScript knows
+      }
+    }
+    return negated ? cp => !set(cp) : set;
+  }
+
+  private takeWhile(allowed: RegExp, max: number): string {
+    let taken = '';
+    while (taken.length < max && allowed.test(this.pattern[this.i] ?? '')) {
+      taken += this.pattern[this.i++];
+    }
+    return taken;
+  }
+
+  private literal(cp: number): CharSet {
+    const members = this.scope.ignoreCase ? [cp, ...caseVariants(cp, this.scope.unicode)] : [cp];
+    for (const member of members) this.literals.add(member);
+    return members.length === 1 ? other => other === cp : other => members.includes(other);
+  }
+}
+
+/**
+ * Other cases of a character that IGNORECASE matches it with
+ */
+export function caseVariants(cp: number, unicode: boolean): number[] {
+  if (!unicode && cp > 0x7f) return [];
+  const ch = String.fromCodePoint(cp);
+  const variants = new Set<number>();
+  for (const other of [ch.toLowerCase(), ch.toUpperCase()]) {
+    const value = other.codePointAt(0)!;
+    if (other.length === String.fromCodePoint(value).length && value !== cp && (unicode || value <= 0x7f)) {
+      variants.add(value);
+    }
+  }
+  return [...variants];
+}
+
+function caseless(set: CharSet, unicode: boolean): CharSet {
+  return cp => set(cp) || caseVariants(cp, unicode).some(set);
+}
@@ -0,0 +1,155 @@
+import { PatternError } from './errors.js';
+
+/**
+ * Python replacement templates (the `repl` string of re.sub / Match.expand).
+ * A parsed template is a list of literal strings and group indices.
+ */
+export type TemplatePart = string | number;
+
+/** Python's MAXGROUPS (sys.maxsize // 2 on 64-bit builds, far beyond anything PCRE allows) */
+const MAXGROUPS = 2 ** 30;
+
+const TEMPLATE_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\\': '\\',
+};
+
+const OCTAL_DIGIT = /[0-7]/;
+const DIGIT = /[0-9]/;
+const ASCII_LETTER = /[a-zA-Z]/;
+
+/**
+ * Python's str.isidentifier(), close enough for group names
+ */
+export function isIdentifier(name: string): boolean {
+  return /^[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*$/u.test(name);
+}
+
+/**
+ * Parse a replacement template the way sre_parse.parse_template does,
+ * raising the same errors for bad escapes and bad group references. Group
+ * numbers in \g<...> must be ASCII digits, as in Python 3.12: 3.11 also
+ * takes forms such as \g<+1> and \g< 1>, with a DeprecationWarning.
+ */
+export function parseTemplate(
+  template: string,
+  groupCount: number,
+  groupIndex: Record<string, number>
+): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let literal = '';
+  let i = 0;
+
+  const addGroup = (index: number, pos: number) => {
+    if (index > groupCount) {
+      throw new PatternError(`invalid group reference ${index}`, template, pos);
+    }
+    if (literal) {
+      parts.push(literal);
+      literal = '';
+    }
+    parts.push(index);
+  };
+
+  while (i < template.length) {
+    const ch = template[i];
+    if (ch !== '\\') {
+      literal += ch;
+      i++;
+      continue;
+    }
+
+    const escapeStart = i;
+    const c = template[i + 1];
+    if (c === undefined) {
+      throw new PatternError('bad escape (end of pattern)', template, escapeStart);
+    }
+    i += 2;
+
+    if (c === 'g') {
+      if (template[i] !== '<') {
+        throw new PatternError('missing <', template, i);
+      }
+      const nameStart = i + 1;
+      const close = template.indexOf('>', nameStart);
+      if (close === nameStart) {
+        throw new PatternError('missing group name', template, nameStart);
+      }
+      if (close === -1) {
+        throw new PatternError('missing >, unterminated name', template, nameStart);
+      }
+      const name = template.slice(nameStart, close);
+      i = close + 1;
+
+      let index: number;
+      if (/^[0-9]+$/.test(name)) {
+        index = parseInt(name, 10);
+        if (index >= MAXGROUPS) {
+          throw new PatternError(`invalid group reference ${index}`, template, nameStart);
+        }
+      } else if (isIdentifier(name)) {
+        if (!(name in groupIndex)) {
+          throw new RangeError(`unknown group name '${name}'`);
+        }
+        index = groupIndex[name];
+      } else {
+        throw new PatternError(`bad character in group name '${name}'`, template, nameStart);
+      }
+      addGroup(index, nameStart);
+    } else if (c === '0') {
+      // \0 takes up to two more octal digits
+      let digits = '0';
+      if (OCTAL_DIGIT.test(template[i] ?? '')) {
+        digits += template[i++];
+        if (OCTAL_DIGIT.test(template[i] ?? '')) digits += template[i++];
+      }
+      literal += String.fromCharCode(parseInt(digits, 8) & 0xff);
+    } else if (DIGIT.test(c)) {
+      // \1 to \99 are group references; three octal digits are an octal escape
+      let digits = c;
+      let isOctal = false;
+      if (DIGIT.test(template[i] ?? '')) {
+        digits += template[i++];
+        if (OCTAL_DIGIT.test(c) && OCTAL_DIGIT.test(digits[1]) && OCTAL_DIGIT.test(template[i] ?? '')) {
+          digits += template[i++];
+          isOctal = true;
+          const value = parseInt(digits, 8);
+          if (value > 0o377) {
+            throw new PatternError(`octal escape value \\${digits} outside of range 0-0o377`, template, escapeStart);
+          }
+          literal += String.fromCharCode(value);
+        }
+      }
+      if (!isOctal) {
+        addGroup(parseInt(digits, 10), escapeStart + 1);
+      }
+    } else if (c in TEMPLATE_ESCAPES) {
+      literal += TEMPLATE_ESCAPES[c];
+    } else if (ASCII_LETTER.test(c)) {
+      throw new PatternError(`bad escape \\${c}`, template, escapeStart);
+    } else {
+      // Unknown non-letter escapes are kept verbatim
+      literal += '\\' + c;
+    }
+  }
+
+  if (literal) parts.push(literal);
+  return parts;
+}
+
+/**
+ * Fill in a parsed template. Groups that did not participate expand to ''.
+ */
+export function expandTemplate(parts: TemplatePart[], group: (index: number) => string | undefined): string {
+  let result = '';
+  for (const part of parts) {
+    result += typeof part === 'string' ? part : group(part) ?? '';
+  }
+  return result;
+}
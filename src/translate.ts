@@ -0,0 +1,1368 @@
+import { PatternError } from './errors.js';
+import { RegexFlag } from './flags.js';
+import { isIdentifier } from './template.js';
+import { lookupCharacterName } from './unicode-names.js';
+
+/**
+ * Translation of Python `re` pattern syntax into PCRE source.
+ *
+ * The pattern is tokenized the way sre_parse reads it (escapes, character
+ * classes, groups, repeats, verbose whitespace and comments), checked with
+ * Python's error messages, and re-emitted in a form PCRE reads the same way.
+ */
+
+/**
+ * Inline flag letters as Python's sre_parse knows them, plus the regex
+ * module's b and e (REGEX_FLAG_LETTERS).
+ */
+const INLINE_FLAGS: Record<string, number> = {
+  a: RegexFlag.ASCII,
+  b: RegexFlag.BESTMATCH,
+  e: RegexFlag.ENHANCEMATCH,
+  i: RegexFlag.IGNORECASE,
+  L: RegexFlag.LOCALE,
+  m: RegexFlag.MULTILINE,
+  s: RegexFlag.DOTALL,
+  u: RegexFlag.UNICODE,
+  x: RegexFlag.VERBOSE,
+};
+
+/** Flags that select the character semantics of \w, \d, \s and \b */
+const TYPE_FLAGS = RegexFlag.ASCII | RegexFlag.UNICODE | RegexFlag.LOCALE;
+
+/** Inline flags only the regex profile knows */
+const REGEX_FLAG_LETTERS = 'be';
+
+/** Flags that apply to the whole pattern even when set in a scoped group, as in the regex module */
+const GLOBAL_ONLY_FLAGS = RegexFlag.BESTMATCH | RegexFlag.ENHANCEMATCH;
+
+/** Flags PCRE can scope natively with (?imsx-imsx:...) */
+const PCRE_SCOPED_LETTERS = 'imsx';
+
+/**
+ * Explicit ASCII spellings of the shorthand classes, used when PCRE runs with
+ * UCP but part of the pattern is scoped to ASCII semantics.
+ * Each entry is [standalone form, form usable inside a character class].
+ */
+const ASCII_CLASSES: Record<string, [string, string]> = {
+  w: ['[a-zA-Z0-9_]', 'a-zA-Z0-9_'],
+  W: ['[^a-zA-Z0-9_]', '\\x00-\\x2f\\x3a-\\x40\\x5b-\\x5e\\x60\\x7b-\\x{10ffff}'],
+  d: ['[0-9]', '0-9'],
+  D: ['[^0-9]', '\\x00-\\x2f\\x3a-\\x{10ffff}'],
+  s: ['[ \\t\\n\\r\\f\\x0b]', ' \\t\\n\\r\\f\\x0b'],
+  S: ['[^ \\t\\n\\r\\f\\x0b]', '\\x00-\\x08\\x0e-\\x1f\\x21-\\x{10ffff}'],
+};
+
+/**
+ * Python's Unicode \s (str.isspace()) also covers \x1c-\x1f and \x85,
+ * which PCRE's UCP \s leaves out, so both forms are spelled out.
+ */
+const UNICODE_CLASSES: Record<string, [string, string]> = {
+  s: [
+    '[\\t-\\r\\x{1c}-\\x{20}\\x{85}\\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}]',
+    '\\t-\\r\\x{1c}-\\x{20}\\x{85}\\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}',
+  ],
+  S: [
+    '[^\\t-\\r\\x{1c}-\\x{20}\\x{85}\\x{a0}\\x{1680}\\x{2000}-\\x{200a}\\x{2028}\\x{2029}\\x{202f}\\x{205f}\\x{3000}]',
+    '\\x00-\\x08\\x{e}-\\x{1b}\\x{21}-\\x{84}\\x{86}-\\x{9f}\\x{a1}-\\x{167f}\\x{1681}-\\x{1fff}' +
+      '\\x{200b}-\\x{2027}\\x{202a}-\\x{202e}\\x{2030}-\\x{205e}\\x{2060}-\\x{2fff}\\x{3001}-\\x{10ffff}',
+  ],
+};
+
+/** Characters skipped in verbose mode (sre_parse.WHITESPACE) */
+const VERBOSE_WHITESPACE = ' \t\n\r\v\f';
+
+const ASCII_WORD = '[a-zA-Z0-9_]';
+const ASCII_BOUNDARIES: Record<string, string> = {
+  b: `(?:(?<=${ASCII_WORD})(?!${ASCII_WORD})|(?<!${ASCII_WORD})(?=${ASCII_WORD}))`,
+  B: `(?:(?<=${ASCII_WORD})(?=${ASCII_WORD})|(?<!${ASCII_WORD})(?!${ASCII_WORD}))`,
+};
+
+/** Escapes sre_parse maps to single characters (ESCAPES) */
+const CHAR_ESCAPES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  f: 0x0c,
+  n: 0x0a,
+  r: 0x0d,
+  t: 0x09,
+  v: 0x0b,
+  '\\': 0x5c,
+};
+
+const AT_ESCAPES = 'AbBZ';
+
+/**
+ * Python's anchors spelled out by meaning, since PCRE's \Z and $ also match
+ * before a final newline and its multiline ^ does not match after one.
+ * Only \n counts as a newline, whatever PCRE's newline convention.
+ */
+const ANCHORS = {
+  Z: '\\z',
+  end: '(?=\\n?\\z)',
+  multilineStart: '(?<![^\\n])',
+  multilineEnd: '(?=\\n|\\z)',
+};
+
+const CATEGORY_ESCAPES = 'dDsSwW';
+const ASCII_LETTER = /[a-zA-Z]/;
+const DIGIT = /[0-9]/;
+const OCTAL_DIGIT = /[0-7]/;
+const HEX_DIGIT = /[0-9a-fA-F]/;
+
+const MAX_CODE_POINT = 0x10ffff;
+
+/** Python's limit on octal escapes */
+const MAX_OCTAL = 0o377;
+
+/**
+ * Which Python module to follow where the stdlib `re` and the third-party
+ * `regex` module disagree
+ */
+export type Profile = 're' | 'regex';
+
+/** Group names PCRE accepts as written; anything else is emitted as a plain group */
+const PCRE_GROUP_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,31}$/;
+
+export interface TranslatedPattern {
+  /** PCRE source equivalent to the Python pattern */
+  pattern: string;
+  /** Compile flags merged with the pattern's global inline flags */
+  flags: number;
+  /** Whether PCRE must be compiled with UCP (Unicode semantics for \w, \d, \s, \b) */
+  ucp: boolean;
+  /** Number of capturing groups in the pattern */
+  groups: number;
+  /** Group names mapped to group numbers (Python's Pattern.groupindex) */
+  groupIndex: Record<string, number>;
+  /**
+   * Whether the pattern has fuzzy constraints such as {e<=1} (regex
+   * profile), which PCRE can't match
+   */
+  fuzzy: boolean;
+  /**
+   * PCRE group numbers behind each group number. A name used for several
+   * groups (regex profile) has one group number but captures in several
+   * PCRE groups.
+   */
+  pcreGroups: number[][];
+  /** Group numbers in the order their groups close in the pattern */
+  closeOrder: number[];
+  /**
+   * [pattern offset, source offset] pairs wherever the two stop lining up,
+   * for mapping PCRE error offsets back to the source (see sourceOffset)
+   */
+  sourceMap: Array<[number, number]>;
+}
+
+interface Scope {
+  verbose: boolean;
+  unicode: boolean;
+  multiline: boolean;
+}
+
+interface GroupFrame {
+  /** Scope to restore when the group closes */
+  outer: Scope;
+  /** Position of the '(' */
+  start: number;
+  /** Capturing group number, or 0 for groups that don't capture */
+  index: number;
+  /** For conditional groups, whether the "no" branch has started */
+  conditional?: { hasNo: boolean };
+}
+
+/** Kind of the previous item, for Python's "nothing to repeat" checks */
+type Item = 'none' | 'atom' | 'anchor' | 'repeat';
+
+/** A single member of a character class */
+interface ClassItem {
+  /** PCRE text for the member */
+  text: string;
+  /** Code point, or null for classes such as \w and \p{L} */
+  value: number | null;
+  /** Source text, for error messages */
+  source: string;
+  /** Index just past the member */
+  end: number;
+}
+
+/**
+ * Translate a Python pattern into PCRE source.
+ *
+ * Global flag groups like (?i) must be at the start of the pattern (Python
+ * 3.11 rule) and are folded into the returned flags. Scoped groups like
+ * (?s:...) and (?-i:...) are passed through, except for the a/u/L letters,
+ * which PCRE has no syntax for: those scopes are emulated by spelling the
+ * shorthand classes out explicitly.
+ *
+ * Like Python 3 str patterns, \w, \d, \s and \b follow Unicode unless the
+ * ASCII flag or a global (?a) is given, in which case PCRE runs without UCP.
+ *
+ * The 'regex' profile lets several groups share a name, as the third-party
+ * regex module does; the 're' profile rejects that like the stdlib.
+ *
+ * A bytes pattern is given as a Latin-1 string, one character per byte. It
+ * follows Python's rules for bytes: ASCII classes, no (?u) and no \u, \U or
+ * \N escapes, and (?L) allowed. Bytes above 0x7f are emitted as \x{hh}, so
+ * the output is plain ASCII for PCRE to read without UTF8.
+ */
+export function translatePattern(
+  pattern: string,
+  flags: number,
+  profile: Profile = 'regex',
+  bytes = false
+): TranslatedPattern {
+  const result = new Translator(pattern, flags, false, profile, bytes).run();
+  if (result === null) {
+    // A (?u:...) scope appeared in an ASCII pattern; retranslate with UCP on
+    // so the ASCII parts get explicit classes.
+    return new Translator(pattern, flags, true, profile, bytes).run()!;
+  }
+  return result;
+}
+
+/**
+ * The source offset behind an offset into the translated pattern: the
+ * offset within the same item, capped at the item's end
+ */
+export function sourceOffset({ sourceMap }: TranslatedPattern, offset: number, sourceLength: number): number {
+  let index = sourceMap.length - 1;
+  while (index >= 0 && sourceMap[index][0] > offset) index--;
+  const [outPos, pos] = index >= 0 ? sourceMap[index] : [0, 0];
+  const next = index + 1 < sourceMap.length ? sourceMap[index + 1][1] : sourceLength;
+  return Math.min(pos + offset - outPos, Math.max(next - 1, pos), sourceLength);
+}
+
+class Translator {
+  private out = '';
+  private i = 0;
+  private groups = 0;
+  private groupIndex: Record<string, number> = {};
+  private pcreGroups: number[][] = [[0]];
+  private pcreGroupCount = 0;
+  private closeOrder: number[] = [];
+  /**
+   * Conditions, resolved to PCRE group numbers once every group is known:
+   * `pos` is where the group appears in the pattern, `outPos` where its
+   * PCRE number goes in the output
+   */
+  private conditionRefs: Array<{ group: number; pos: number; outPos: number }> = [];
+  // [output offset, source offset] at the start of every item
+  private marks: Array<[number, number]> = [];
+  private stack: GroupFrame[] = [];
+  private ucp: boolean;
+  private scope: Scope;
+  private item: Item = 'none';
+  // True until the first item of the top-level expression
+  private atStart = true;
+  private fuzzy = false;
+
+  constructor(
+    private readonly pattern: string,
+    private flags: number,
+    private readonly forceUcp: boolean,
+    private readonly profile: Profile,
+    private readonly bytes: boolean
+  ) {
+    this.ucp = !bytes && (forceUcp || !(flags & RegexFlag.ASCII));
+    this.scope = this.globalScope();
+  }
+
+  /**
+   * Translate the whole pattern, or return null if it needs UCP and
+   * translation started without it.
+   */
+  run(): TranslatedPattern | null {
+    const { pattern } = this;
+
+    while (this.i < pattern.length) {
+      const ch = pattern[this.i];
+      this.marks.push([this.out.length, this.i]);
+
+      if (this.scope.verbose && VERBOSE_WHITESPACE.includes(ch)) {
+        this.out += ch;
+        this.i++;
+        continue;
+      }
+
+      if (this.scope.verbose && ch === '#') {
+        const newline = pattern.indexOf('\n', this.i);
+        const end = newline === -1 ? pattern.length : newline;
+        this.out += pattern.slice(this.i, end);
+        this.i = end;
+        continue;
+      }
+
+      switch (ch) {
+        case '\\':
+          this.escape();
+          break;
+        case '[':
+          this.charClass();
+          break;
+        case '(':
+          if (!this.openGroup()) return null;
+          break;
+        case ')':
+          this.closeGroup();
+          break;
+        case '|':
+          this.alternation();
+          break;
+        case '*':
+        case '+':
+        case '?':
+          this.i++;
+          this.repeat(this.i - 1, ch);
+          break;
+        case '{':
+          this.brace();
+          break;
+        case '^':
+          this.i++;
+          this.emit(this.scope.multiline ? ANCHORS.multilineStart : '^', 'anchor');
+          break;
+        case '$':
+          this.i++;
+          this.emit(this.scope.multiline ? ANCHORS.multilineEnd : ANCHORS.end, 'anchor');
+          break;
+        default: {
+          const literal = String.fromCodePoint(pattern.codePointAt(this.i)!);
+          this.i += literal.length;
+          this.emit(this.byteLiteral(literal), 'atom');
+        }
+      }
+    }
+
+    const unclosed = this.stack[this.stack.length - 1];
+    if (unclosed) {
+      throw new PatternError('missing ), unterminated subpattern', this.pattern, unclosed.start);
+    }
+
+    return {
+      pattern: this.resolveConditions(),
+      flags: this.flags,
+      ucp: this.ucp,
+      groups: this.groups,
+      groupIndex: this.groupIndex,
+      fuzzy: this.fuzzy,
+      pcreGroups: this.pcreGroups,
+      closeOrder: this.closeOrder,
+      sourceMap: this.sourceMap(),
+    };
+  }
+
+  /**
+   * The marks where the output stops lining up with the source
+   */
+  private sourceMap(): Array<[number, number]> {
+    const map: Array<[number, number]> = [];
+    let shift = 0;
+    for (const [outPos, pos] of this.marks) {
+      if (pos - outPos === shift) continue;
+      if (map.length && map[map.length - 1][0] === outPos) map.pop();
+      map.push([outPos, pos]);
+      shift = pos - outPos;
+    }
+    return map;
+  }
+
+  /**
+   * The output with each condition's PCRE group number filled in. A name
+   * used by several groups is set if any of them has captured, which PCRE
+   * tests with an assertion on each group in turn.
+   */
+  private resolveConditions(): string {
+    let out = this.out;
+    for (const { group, pos, outPos } of [...this.conditionRefs].reverse()) {
+      if (group > this.groups) {
+        throw new PatternError(`invalid group reference ${group}`, this.pattern, pos);
+      }
+      const slots = this.pcreGroups[group];
+      const text =
+        slots.length === 1 ? String(slots[0]) : `?=${slots.reduce((chain, n) => `(?(${n})|${chain})`, '(?!)')}`;
+      out = out.slice(0, outPos) + text + out.slice(outPos);
+      for (const mark of this.marks) {
+        if (mark[0] >= outPos) mark[0] += text.length;
+      }
+    }
+    return out;
+  }
+
+  private globalScope(): Scope {
+    return {
+      verbose: !!(this.flags & RegexFlag.VERBOSE),
+      unicode: !this.bytes && !(this.flags & RegexFlag.ASCII),
+      multiline: !!(this.flags & RegexFlag.MULTILINE),
+    };
+  }
+
+  /**
+   * A literal character, spelled as \x{hh} if it is a byte above 0x7f
+   */
+  private byteLiteral(ch: string): string {
+    return this.bytes && ch > '\x7f' ? codePointEscape(ch.charCodeAt(0)) : ch;
+  }
+
+  private emit(text: string, item: Item): void {
+    this.out += text;
+    this.item = item;
+    this.atStart = false;
+  }
+
+  /**
+   * Explicit spelling of a shorthand escape when PCRE's own doesn't match
+   * Python's in the current scope
+   */
+  private rewriteShorthand(letter: string, inClass: boolean): string | null {
+    if (!this.ucp) return null;
+    if (this.scope.unicode) {
+      const cls = UNICODE_CLASSES[letter];
+      return cls ? cls[inClass ? 1 : 0] : null;
+    }
+    if (!inClass && letter in ASCII_BOUNDARIES) return ASCII_BOUNDARIES[letter];
+    const cls = ASCII_CLASSES[letter];
+    return cls ? cls[inClass ? 1 : 0] : null;
+  }
+
+  /**
+   * An escape outside a character class (sre_parse._escape)
+   */
+  private escape(): void {
+    const { pattern } = this;
+    const start = this.i;
+    const c = pattern[start + 1];
+
+    if (c === undefined) {
+      throw new PatternError('bad escape (end of pattern)', this.pattern, start);
+    }
+
+    if (AT_ESCAPES.includes(c)) {
+      this.i += 2;
+      this.emit(c === 'Z' ? ANCHORS.Z : this.rewriteShorthand(c, false) ?? '\\' + c, 'anchor');
+      return;
+    }
+
+    if (CATEGORY_ESCAPES.includes(c)) {
+      this.i += 2;
+      this.emit(this.rewriteShorthand(c, false) ?? '\\' + c, 'atom');
+      return;
+    }
+
+    if (c === 'x') {
+      this.i = start + 2;
+      this.emit(codePointEscape(this.hexEscape(start)), 'atom');
+      return;
+    }
+
+    if ((c === 'u' || c === 'U' || c === 'N') && !this.bytes) {
+      this.emit(codePointEscape(this.unicodeEscape(start)), 'atom');
+      return;
+    }
+
+    if (c === '0') {
+      this.i = start + 2;
+      const digits = '0' + this.takeWhile(OCTAL_DIGIT, 2);
+      this.emit(codePointEscape(parseInt(digits, 8)), 'atom');
+      return;
+    }
+
+    if (DIGIT.test(c)) {
+      this.i = start + 2;
+      let digits = c;
+      if (DIGIT.test(pattern[this.i] ?? '')) {
+        digits += pattern[this.i++];
+        if (OCTAL_DIGIT.test(digits[0]) && OCTAL_DIGIT.test(digits[1]) && OCTAL_DIGIT.test(pattern[this.i] ?? '')) {
+          digits += pattern[this.i++];
+          this.emit(codePointEscape(octalValue(this.pattern, digits, start)), 'atom');
+          return;
+        }
+      }
+      this.emit(this.groupReference(Number(digits), start), 'atom');
+      return;
+    }
+
+    if (c in CHAR_ESCAPES) {
+      // PCRE reads \v as "vertical whitespace"
+      this.i += 2;
+      this.emit(c === 'v' ? codePointEscape(CHAR_ESCAPES.v) : '\\' + c, 'atom');
+      return;
+    }
+
+    if (ASCII_LETTER.test(c)) {
+      const text = this.propertyEscape(start);
+      this.i = start + text.length;
+      this.emit(text, 'atom');
+      return;
+    }
+
+    const literal = String.fromCodePoint(pattern.codePointAt(start + 1)!);
+    this.i = start + 1 + literal.length;
+    if (/[\x00-\x7f]/.test(c)) {
+      this.emit('\\' + c, 'atom');
+    } else {
+      this.emit(this.byteLiteral(literal), 'atom');
+    }
+  }
+
+  /**
+   * An escape letter with no meaning of its own in Python: a \p{...} or
+   * \P{...} property (\pL for short), which the regex module supports and
+   * PCRE reads the same way, or else "bad escape" as in sre_parse
+   */
+  private propertyEscape(start: number): string {
+    const { pattern } = this;
+    const c = pattern[start + 1];
+    if (this.profile !== 'regex' || (c !== 'p' && c !== 'P')) {
+      throw new PatternError(`bad escape \\${c}`, pattern, start);
+    }
+
+    const next = pattern[start + 2];
+    if (next === undefined) {
+      throw new PatternError('missing property name', pattern, start + 2);
+    }
+    if (next !== '{') {
+      return pattern.slice(start, start + 3);
+    }
+    this.readName(start + 3, '}', 'property name');
+    return pattern.slice(start, this.i);
+  }
+
+  /**
+   * Value of a \xhh escape starting at `start`; Python requires exactly two digits
+   */
+  private hexEscape(start: number): number {
+    const digits = this.takeWhile(HEX_DIGIT, 2);
+    if (digits.length !== 2) {
+      throw new PatternError(`incomplete escape \\x${digits}`, this.pattern, start);
+    }
+    return parseInt(digits, 16);
+  }
+
+  /**
+   * Value of a \\uXXXX, \\UXXXXXXXX or \\N{NAME} escape starting at `start`
+   */
+  private unicodeEscape(start: number): number {
+    const { pattern } = this;
+    const c = pattern[start + 1];
+    this.i = start + 2;
+
+    if (c === 'N') {
+      if (pattern[this.i] !== '{') {
+        throw new PatternError('missing {', this.pattern, this.i);
+      }
+      const name = this.readName(this.i + 1, '}', 'character name');
+      const value = lookupCharacterName(name);
+      if (value === undefined) {
+        throw new PatternError(`undefined character name '${name}'`, this.pattern, start);
+      }
+      return value;
+    }
+
+    const length = c === 'u' ? 4 : 8;
+    const digits = this.takeWhile(HEX_DIGIT, length);
+    if (digits.length !== length) {
+      throw new PatternError(`incomplete escape \\${c}${digits}`, this.pattern, start);
+    }
+
+    const value = parseInt(digits, 16);
+    if (value > MAX_CODE_POINT) {
+      throw new PatternError(`bad escape ${pattern.slice(start, this.i)}`, this.pattern, start);
+    }
+    return value;
+  }
+
+  private takeWhile(allowed: RegExp, max: number): string {
+    let taken = '';
+    while (taken.length < max && allowed.test(this.pattern[this.i] ?? '')) {
+      taken += this.pattern[this.i++];
+    }
+    return taken;
+  }
+
+  /**
+   * PCRE spelling of a numbered backreference, checked like sre_parse does
+   */
+  private groupReference(group: number, start: number): string {
+    if (group > this.groups) {
+      throw new PatternError(`invalid group reference ${group}`, this.pattern, start + 1);
+    }
+    if (this.isOpen(group)) {
+      throw new PatternError('cannot refer to an open group', this.pattern, start);
+    }
+    return this.backreference(group);
+  }
+
+  /**
+   * A backreference to the latest PCRE group behind `group` that has
+   * captured, as the regex module only matches a name's latest capture.
+   * \g{N} can't run into a following digit the way \N can.
+   */
+  private backreference(group: number): string {
+    const slots = this.pcreGroups[group];
+    if (slots.length === 1) return `\\g{${slots[0]}}`;
+    return slots.reduce((chain, n) => `(?(${n})\\g{${n}}|${chain})`, '(?!)');
+  }
+
+  private isOpen(group: number): boolean {
+    return this.stack.some(frame => frame.index === group);
+  }
+
+  /**
+   * Allocate the PCRE group for a new capturing group, which may share the
+   * number of an earlier group with the same name
+   */
+  private newCapture(index: number = this.groups + 1): number {
+    const pcreIndex = ++this.pcreGroupCount;
+    if (index > this.groups) {
+      this.groups = index;
+      this.pcreGroups[index] = [pcreIndex];
+    } else {
+      this.pcreGroups[index].push(pcreIndex);
+    }
+    return index;
+  }
+
+  /**
+   * A quantifier (already consumed) and its optional lazy or possessive suffix
+   */
+  private repeat(start: number, quantifier: string): void {
+    if (this.item === 'none' || this.item === 'anchor') {
+      throw new PatternError('nothing to repeat', this.pattern, start);
+    }
+    if (this.item === 'repeat') {
+      throw new PatternError('multiple repeat', this.pattern, start);
+    }
+
+    let text = quantifier;
+    const suffix = this.pattern[this.i];
+    if (suffix === '?' || suffix === '+') {
+      text += suffix;
+      this.i++;
+    }
+    this.emit(text, 'repeat');
+  }
+
+  /**
+   * '{' starts a repeat only if it has the form {m}, {m,}, {,n} or {m,n},
+   * or, in the regex profile, a fuzzy constraint; otherwise it is a literal
+   */
+  private brace(): void {
+    const start = this.i;
+    const repeat = /\{(\d*)(?:(,)(\d*))?\}/y;
+    repeat.lastIndex = start;
+    const m = this.pattern[start + 1] === '}' ? null : repeat.exec(this.pattern);
+
+    if (!m) {
+      const constraint = this.profile === 'regex' ? parseFuzzyConstraint(this.pattern, start) : null;
+      if (constraint) {
+        this.fuzzyConstraint(start, constraint);
+        return;
+      }
+      this.i++;
+      this.emit('\\{', 'atom');
+      return;
+    }
+
+    const [whole, lo, comma, hi] = m;
+    const min = lo ? Number(lo) : 0;
+    const max = comma ? (hi ? Number(hi) : null) : min;
+    if (max !== null && max < min) {
+      throw new PatternError('min repeat greater than max repeat', this.pattern, start + 1);
+    }
+
+    this.i = start + whole.length;
+    this.repeat(start, max === min && !comma ? `{${min}}` : `{${min},${max ?? ''}}`);
+  }
+
+  /**
+   * A fuzzy constraint on the previous item, which is only checked here:
+   * fuzzy patterns are matched by the engine in fuzzy.ts, not PCRE. Like a
+   * repeat, it can't be repeated or constrained again.
+   */
+  private fuzzyConstraint(start: number, constraint: FuzzyConstraint): void {
+    if (this.item === 'none' || this.item === 'repeat') {
+      throw new PatternError('nothing for fuzzy constraint', this.pattern, start);
+    }
+    this.i = constraint.index;
+    if (constraint.test) {
+      // The test is a single item, checked like one and left out of the output
+      const { out } = this;
+      const ch = this.pattern[this.i];
+      if (ch === '[') {
+        this.charClass();
+      } else if (ch === '\\') {
+        this.escape();
+      } else if (ch !== undefined) {
+        this.i += String.fromCodePoint(this.pattern.codePointAt(this.i)!).length;
+      }
+      this.out = out;
+      if (this.pattern[this.i] !== '}') {
+        throw new PatternError('expected }', this.pattern, this.i);
+      }
+      this.i++;
+    }
+    this.fuzzy = true;
+    this.emit('', 'repeat');
+  }
+
+  /**
+   * A character class, re-emitted with every member spelled unambiguously
+   */
+  private charClass(): void {
+    const { pattern } = this;
+    const start = this.i;
+    let i = start + 1;
+    let text = '[';
+
+    if (pattern[i] === '^') {
+      text += '^';
+      i++;
+    }
+
+    // A ']' right after the opening bracket is a literal
+    let empty = true;
+    while (true) {
+      if (i >= pattern.length) {
+        throw new PatternError('unterminated character set', this.pattern, start);
+      }
+      if (pattern[i] === ']' && !empty) {
+        i++;
+        break;
+      }
+      empty = false;
+
+      const first = this.classItem(i);
+      i = first.end;
+      if (pattern[i] !== '-') {
+        text += first.text;
+        continue;
+      }
+
+      // A potential range
+      if (i + 1 >= pattern.length) {
+        throw new PatternError('unterminated character set', this.pattern, start);
+      }
+      if (pattern[i + 1] === ']') {
+        text += first.text + '\\-';
+        i += 2;
+        break;
+      }
+      const second = this.classItem(i + 1);
+      if (isBadRange(first, second)) {
+        throw new PatternError(`bad character range ${first.source}-${second.source}`, this.pattern, first.end - first.source.length);
+      }
+      text += first.text + '-' + second.text;
+      i = second.end;
+    }
+
+    this.i = i;
+    this.emit(text + ']', 'atom');
+  }
+
+  /**
+   * One class member starting at `index` (sre_parse._class_escape for escapes)
+   */
+  private classItem(index: number): ClassItem {
+    const { pattern } = this;
+
+    if (pattern[index] !== '\\') {
+      const literal = String.fromCodePoint(pattern.codePointAt(index)!);
+      const value = literal.codePointAt(0)!;
+      return { text: classLiteral(this.byteLiteral(literal)), value, source: literal, end: index + literal.length };
+    }
+
+    const c = pattern[index + 1];
+    if (c === undefined) {
+      throw new PatternError('bad escape (end of pattern)', this.pattern, index);
+    }
+
+    if (CATEGORY_ESCAPES.includes(c)) {
+      return { text: this.rewriteShorthand(c, true) ?? '\\' + c, value: null, source: '\\' + c, end: index + 2 };
+    }
+
+    if (c === 'x') {
+      this.i = index + 2;
+      const value = this.hexEscape(index);
+      return { text: codePointEscape(value), value, source: pattern.slice(index, this.i), end: this.i };
+    }
+
+    if ((c === 'u' || c === 'U' || c === 'N') && !this.bytes) {
+      const value = this.unicodeEscape(index);
+      return { text: codePointEscape(value), value, source: pattern.slice(index, this.i), end: this.i };
+    }
+
+    if (OCTAL_DIGIT.test(c)) {
+      this.i = index + 2;
+      const digits = c + this.takeWhile(OCTAL_DIGIT, 2);
+      const value = octalValue(this.pattern, digits, index);
+      return { text: codePointEscape(value), value, source: '\\' + digits, end: this.i };
+    }
+
+    if (c in CHAR_ESCAPES) {
+      // \b is a backspace inside a class; PCRE agrees, but \v needs spelling out
+      const value = CHAR_ESCAPES[c];
+      const text = c === 'v' ? codePointEscape(value) : '\\' + c;
+      return { text, value, source: '\\' + c, end: index + 2 };
+    }
+
+    if (ASCII_LETTER.test(c) || DIGIT.test(c)) {
+      // \8 and \9 can't be group references inside a class
+      const text = this.propertyEscape(index);
+      return { text, value: null, source: text, end: index + text.length };
+    }
+
+    const literal = String.fromCodePoint(pattern.codePointAt(index + 1)!);
+    return {
+      text: /[\x00-\x7f]/.test(c) ? '\\' + c : this.byteLiteral(literal),
+      value: literal.codePointAt(0)!,
+      source: '\\' + literal,
+      end: index + 1 + literal.length,
+    };
+  }
+
+  /**
+   * '(' and whatever extension follows it. Returns false if the pattern has
+   * to be retranslated with UCP.
+   */
+  private openGroup(): boolean {
+    const { pattern } = this;
+    const start = this.i;
+
+    if (pattern[start + 1] !== '?') {
+      this.i++;
+      this.pushGroup(start, '(', this.newCapture());
+      return true;
+    }
+
+    const c = pattern[start + 2];
+    if (c === undefined) {
+      throw new PatternError('unexpected end of pattern', this.pattern, start + 2);
+    }
+
+    if (c === '#') {
+      // (?#comment) is not an item
+      const close = pattern.indexOf(')', start);
+      if (close === -1) {
+        throw new PatternError('missing ), unterminated comment', this.pattern, start);
+      }
+      this.i = close + 1;
+      return true;
+    }
+
+    if (c === ':' || c === '=' || c === '!' || c === '>') {
+      this.i = start + 3;
+      this.pushGroup(start, pattern.slice(start, this.i), 0);
+      return true;
+    }
+
+    if (c === '<') {
+      const next = pattern[start + 3];
+      if (next === '=' || next === '!') {
+        this.i = start + 4;
+        this.pushGroup(start, pattern.slice(start, this.i), 0);
+      } else if (this.profile === 'regex') {
+        // (?<name>...) as accepted by the third-party regex module
+        this.namedGroup(start, start + 3);
+      } else if (next === undefined) {
+        throw new PatternError('unexpected end of pattern', this.pattern, start + 3);
+      } else {
+        throw new PatternError(`unknown extension ?<${next}`, this.pattern, start + 1);
+      }
+      return true;
+    }
+
+    if (c === 'P') {
+      const next = pattern[start + 3];
+      if (next === '<') {
+        this.namedGroup(start, start + 4);
+        return true;
+      }
+      if (next === '=') {
+        this.namedReference(start + 4);
+        return true;
+      }
+      if (next === undefined) {
+        throw new PatternError('unexpected end of pattern', this.pattern, start + 3);
+      }
+      throw new PatternError(`unknown extension ?P${next}`, this.pattern, start + 1);
+    }
+
+    if (c === '(') {
+      this.conditionalGroup(start);
+      return true;
+    }
+
+    if (isFlagStart(c, this.profile)) {
+      return this.flagGroup(start);
+    }
+
+    throw new PatternError(`unknown extension ?${c}`, this.pattern, start + 1);
+  }
+
+  private pushGroup(start: number, text: string, index: number, scope: Scope = { ...this.scope }): GroupFrame {
+    const frame: GroupFrame = { outer: this.scope, start, index };
+    this.stack.push(frame);
+    this.scope = scope;
+    this.emit(text, 'none');
+    return frame;
+  }
+
+  /**
+   * A group or character name starting at `nameStart` and ending with
+   * `terminator` (sre_parse's Tokenizer.getuntil)
+   */
+  private readName(nameStart: number, terminator: string, what = 'group name'): string {
+    const { pattern } = this;
+    const close = pattern.indexOf(terminator, nameStart);
+    if (close === -1) {
+      const msg = nameStart < pattern.length ? `missing ${terminator}, unterminated name` : `missing ${what}`;
+      throw new PatternError(msg, this.pattern, nameStart);
+    }
+
+    const name = pattern.slice(nameStart, close);
+    if (!name) {
+      throw new PatternError(`missing ${what}`, this.pattern, nameStart);
+    }
+    this.i = close + 1;
+    return name;
+  }
+
+  /**
+   * The number of a group that has already been defined by name
+   */
+  private definedGroup(name: string, nameStart: number): number {
+    if (!isIdentifier(name)) {
+      throw new PatternError(`bad character in group name '${name}'`, this.pattern, nameStart);
+    }
+    const index = this.groupIndex[name];
+    if (index === undefined) {
+      throw new PatternError(`unknown group name '${name}'`, this.pattern, nameStart);
+    }
+    return index;
+  }
+
+  /**
+   * (?P<name>...) or (?<name>...), with the name starting at `nameStart`
+   */
+  private namedGroup(start: number, nameStart: number): void {
+    const name = this.readName(nameStart, '>');
+    if (!isIdentifier(name)) {
+      throw new PatternError(`bad character in group name '${name}'`, this.pattern, nameStart);
+    }
+
+    const existing = this.groupIndex[name];
+    if (existing === undefined) {
+      const index = this.newCapture();
+      this.groupIndex[name] = index;
+      // Names PCRE can't store are tracked in groupIndex only
+      this.pushGroup(start, PCRE_GROUP_NAME.test(name) ? `(?<${name}>` : '(', index);
+      return;
+    }
+
+    if (this.profile === 're') {
+      throw new PatternError(
+        `redefinition of group name '${name}' as group ${this.groups + 1}; was group ${existing}`,
+        this.pattern,
+        nameStart
+      );
+    }
+    // Like the regex module, a repeated name reuses the group number; PCRE
+    // needs unique names, so the repeat captures in an unnamed group
+    this.pushGroup(start, '(', this.newCapture(existing));
+  }
+
+  /**
+   * (?P=name), emitted as a numbered backreference
+   */
+  private namedReference(nameStart: number): void {
+    const name = this.readName(nameStart, ')');
+    const index = this.definedGroup(name, nameStart);
+    if (this.isOpen(index)) {
+      throw new PatternError('cannot refer to an open group', this.pattern, nameStart);
+    }
+    this.emit(this.backreference(index), 'atom');
+  }
+
+  /**
+   * (?(group)yes|no), where group is a number or the name of an earlier group.
+   * Numbers may refer to groups defined later in the pattern.
+   */
+  private conditionalGroup(start: number): void {
+    const nameStart = start + 3;
+    const name = this.readName(nameStart, ')');
+
+    let index: number;
+    if (isIdentifier(name)) {
+      index = this.definedGroup(name, nameStart);
+    } else if (/^[0-9]+$/.test(name)) {
+      index = Number(name);
+      if (index === 0) {
+        throw new PatternError('bad group number', this.pattern, nameStart);
+      }
+    } else {
+      throw new PatternError(`bad character in group name '${name}'`, this.pattern, nameStart);
+    }
+
+    this.conditionRefs.push({ group: index, pos: nameStart, outPos: this.out.length + 3 });
+    const frame = this.pushGroup(start, '(?()', 0);
+    frame.conditional = { hasNo: false };
+  }
+
+  /**
+   * '|', which may also start the "no" branch of a conditional group
+   */
+  private alternation(): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (frame?.conditional) {
+      if (frame.conditional.hasNo) {
+        throw new PatternError('conditional backref with more than two branches', this.pattern, this.i);
+      }
+      frame.conditional.hasNo = true;
+    }
+    this.i++;
+    this.emit('|', 'none');
+  }
+
+  private closeGroup(): void {
+    const frame = this.stack.pop();
+    if (!frame) {
+      throw new PatternError('unbalanced parenthesis', this.pattern, this.i);
+    }
+    this.scope = frame.outer;
+    if (frame.index) this.closeOrder.push(frame.index);
+    this.i++;
+    this.emit(')', 'atom');
+  }
+
+  /**
+   * A flag group: global (?imsx) or scoped (?imsx-imsx:...)
+   */
+  private flagGroup(start: number): boolean {
+    const parsed = parseFlagGroup(this.pattern, start + 2, this.bytes, this.profile);
+    this.i = parsed.index;
+
+    if (parsed.global) {
+      if (!this.atStart) {
+        throw new PatternError('global flags not at the start of the expression', this.pattern, start);
+      }
+      this.flags |= parsed.on;
+      if ((this.flags & RegexFlag.ASCII) && (this.flags & RegexFlag.UNICODE)) {
+        throw new Error('ASCII and UNICODE flags are incompatible');
+      }
+      if ((this.flags & RegexFlag.ASCII) && (this.flags & RegexFlag.LOCALE)) {
+        throw new Error('ASCII and LOCALE flags are incompatible');
+      }
+      if (parsed.on & RegexFlag.ASCII) this.ucp = this.forceUcp;
+      this.scope = this.globalScope();
+      return true;
+    }
+
+    if ((parsed.on & RegexFlag.UNICODE) && !this.ucp) {
+      return false;
+    }
+    this.flags |= parsed.on & GLOBAL_ONLY_FLAGS;
+
+    const { scope } = this;
+    const text = '(?' + parsed.pcreOn + (parsed.pcreOff ? '-' + parsed.pcreOff : '') + ':';
+    this.pushGroup(start, text, 0, {
+      verbose: parsed.on & RegexFlag.VERBOSE ? true : parsed.off & RegexFlag.VERBOSE ? false : scope.verbose,
+      unicode: parsed.on & RegexFlag.ASCII ? false : parsed.on & RegexFlag.UNICODE ? true : scope.unicode,
+      multiline: parsed.on & RegexFlag.MULTILINE ? true : parsed.off & RegexFlag.MULTILINE ? false : scope.multiline,
+    });
+    return true;
+  }
+}
+
+/**
+ * A code point as an escape PCRE reads the same way in and out of classes
+ */
+function codePointEscape(value: number): string {
+  return `\\x{${value.toString(16)}}`;
+}
+
+/**
+ * A literal character inside a class, escaped if PCRE would read it specially
+ * ('[' could otherwise start a POSIX class like [:alpha:])
+ */
+function classLiteral(ch: string): string {
+  return '\\][^-'.includes(ch) ? '\\' + ch : ch;
+}
+
+function isBadRange(first: ClassItem, second: ClassItem): boolean {
+  if (first.value === null || second.value === null) return true;
+  return second.value < first.value;
+}
+
+function octalValue(pattern: string, digits: string, start: number): number {
+  const value = parseInt(digits, 8);
+  if (value > MAX_OCTAL) {
+    throw new PatternError(`octal escape value \\${digits} outside of range 0-0o377`, pattern, start);
+  }
+  return value;
+}
+
+function isInlineFlag(ch: string | undefined, profile: Profile): boolean {
+  return ch !== undefined && ch in INLINE_FLAGS && (profile === 'regex' || !REGEX_FLAG_LETTERS.includes(ch));
+}
+
+function isFlagStart(ch: string | undefined, profile: Profile): boolean {
+  return ch === '-' || isInlineFlag(ch, profile);
+}
+
+export interface FlagGroup {
+  global: boolean;
+  on: number;
+  off: number;
+  pcreOn: string;
+  pcreOff: string;
+  /** Index just past the ')' or ':' that ends the flag group */
+  index: number;
+}
+
+/**
+ * Parse the flag letters of a (?...) group starting at `index`, following
+ * sre_parse._parse_flags (including its error messages). Bytes patterns
+ * allow 'L' and reject 'u' instead, and the 're' profile doesn't know 'b'
+ * and 'e'.
+ */
+export function parseFlagGroup(pattern: string, index: number, bytes: boolean, profile: Profile = 'regex'): FlagGroup {
+  let on = 0;
+  let off = 0;
+  let pcreOn = '';
+  let pcreOff = '';
+  let i = index;
+  let ch = pattern[i];
+
+  if (ch !== '-') {
+    while (true) {
+      const flag = INLINE_FLAGS[ch];
+      if (ch === 'L' && !bytes) {
+        throw new PatternError("bad inline flags: cannot use 'L' flag with a str pattern", pattern, i + 1);
+      }
+      if (ch === 'u' && bytes) {
+        throw new PatternError("bad inline flags: cannot use 'u' flag with a bytes pattern", pattern, i + 1);
+      }
+      on |= flag;
+      if ((flag & TYPE_FLAGS) && (on & TYPE_FLAGS) !== flag) {
+        throw new PatternError("bad inline flags: flags 'a', 'u' and 'L' are incompatible", pattern, i + 1);
+      }
+      if (PCRE_SCOPED_LETTERS.includes(ch)) pcreOn += ch;
+      ch = pattern[++i];
+      if (ch === undefined) {
+        throw new PatternError('missing -, : or )', pattern, i);
+      }
+      if (ch === ')' || ch === '-' || ch === ':') break;
+      if (!isInlineFlag(ch, profile)) {
+        throw new PatternError(/\p{L}/u.test(ch) ? 'unknown flag' : 'missing -, : or )', pattern, i);
+      }
+    }
+  }
+
+  if (ch === ')') {
+    return { global: true, on, off, pcreOn, pcreOff, index: i + 1 };
+  }
+
+  if (ch === '-') {
+    ch = pattern[++i];
+    if (ch === undefined) {
+      throw new PatternError('missing flag', pattern, i);
+    }
+    if (!isInlineFlag(ch, profile)) {
+      throw new PatternError(/\p{L}/u.test(ch) ? 'unknown flag' : 'missing flag', pattern, i);
+    }
+    while (true) {
+      const flag = INLINE_FLAGS[ch];
+      if (flag & TYPE_FLAGS) {
+        throw new PatternError("bad inline flags: cannot turn off flags 'a', 'u' and 'L'", pattern, i + 1);
+      }
+      if (flag & GLOBAL_ONLY_FLAGS) {
+        throw new PatternError('bad inline flags: cannot turn off global flag', pattern, i + 1);
+      }
+      off |= flag;
+      pcreOff += ch;
+      ch = pattern[++i];
+      if (ch === undefined) {
+        throw new PatternError('missing :', pattern, i);
+      }
+      if (ch === ':') break;
+      if (!isInlineFlag(ch, profile)) {
+        throw new PatternError(/\p{L}/u.test(ch) ? 'unknown flag' : 'missing :', pattern, i);
+      }
+    }
+  }
+
+  if (on & off) {
+    throw new PatternError('bad inline flags: flag turned on and off', pattern, i);
+  }
+
+  return { global: false, on, off, pcreOn, pcreOff, index: i + 1 };
+}
+
+/** Kinds of fuzzy error: any error, insertion, deletion and substitution */
+export type FuzzyErrorKind = 'e' | 'i' | 'd' | 's';
+
+/**
+ * A regex-module fuzzy constraint such as {e<=2}, {i<=1,d<=1,s<=2},
+ * {1<=e<=3} or {2i+2d+1s<=4}
+ */
+export interface FuzzyConstraint {
+  /** [min, max] errors of each kind given; a null max is no limit */
+  limits: Partial<Record<FuzzyErrorKind, [number, number | null]>>;
+  /** A cost equation: the cost of each kind of error and the most they may add up to */
+  cost: { i: number; d: number; s: number; max: number } | null;
+  /** Whether a test item, which error characters must match, follows a ':' */
+  test: boolean;
+  /** Index just past the '}', or of the test item */
+  index: number;
+}
+
+/** Thrown when the text after '{' turns out not to be a fuzzy constraint */
+class NotAConstraint extends Error {}
+
+/**
+ * Reader for the items of a fuzzy constraint, after _regex_core's
+ * parse_fuzzy_item and its error messages
+ */
+class ConstraintReader {
+  readonly limits: FuzzyConstraint['limits'] = {};
+  cost: FuzzyConstraint['cost'] = null;
+
+  constructor(
+    private readonly pattern: string,
+    public i: number
+  ) {}
+
+  item(): void {
+    const saved = this.i;
+    try {
+      this.costConstraint();
+    } catch (error) {
+      if (!(error instanceof NotAConstraint)) throw error;
+      this.i = saved;
+      this.costEquation();
+    }
+  }
+
+  /**
+   * kind, kind<=max, or min<=kind<=max, with < for exclusive limits
+   */
+  private costConstraint(): void {
+    const ch = this.pattern[this.i] ?? '';
+    if (ASCII_LETTER.test(ch)) {
+      this.i++;
+      const kind = this.kind(ch);
+      const inclusive = this.compare();
+      this.limits[kind] = [0, inclusive === null ? null : this.limit(inclusive)];
+      return;
+    }
+    if (!DIGIT.test(ch)) throw new NotAConstraint();
+
+    let min = Number(this.digits());
+    const minInclusive = this.compare();
+    if (minInclusive === null) throw new NotAConstraint();
+    const kind = this.kind(this.pattern[this.i++]);
+    const maxInclusive = this.compare();
+    const maxPos = this.i;
+    const max = maxInclusive === null ? null : this.limit(maxInclusive);
+    if (!minInclusive) min++;
+    if (max !== null && min > max) {
+      throw new PatternError('bad fuzzy cost limit', this.pattern, maxPos);
+    }
+    this.limits[kind] = [min, max];
+  }
+
+  /**
+   * A sum of costs such as 2i+2d+1s, compared with a maximum
+   */
+  private costEquation(): void {
+    if (this.cost) {
+      throw new PatternError('more than one cost equation', this.pattern, this.i);
+    }
+    const cost = { i: 0, d: 0, s: 0, max: 0 };
+    const seen = new Set<string>();
+    while (true) {
+      const coefficient = this.digits();
+      const ch = this.pattern[this.i++];
+      if (ch !== 'i' && ch !== 'd' && ch !== 's') throw new NotAConstraint();
+      if (seen.has(ch)) {
+        throw new PatternError('repeated fuzzy cost', this.pattern, this.i);
+      }
+      seen.add(ch);
+      cost[ch] = coefficient ? Number(coefficient) : 1;
+      if (this.pattern[this.i] !== '+') break;
+      this.i++;
+    }
+    const inclusive = this.compare();
+    if (inclusive === null) throw new NotAConstraint();
+    cost.max = this.limit(inclusive);
+    this.cost = cost;
+  }
+
+  private kind(ch: string | undefined): FuzzyErrorKind {
+    if (ch !== 'e' && ch !== 'i' && ch !== 'd' && ch !== 's') throw new NotAConstraint();
+    return ch;
+  }
+
+  /**
+   * '<=' (true), '<' (false) or neither (null)
+   */
+  private compare(): boolean | null {
+    if (this.pattern.startsWith('<=', this.i)) {
+      this.i += 2;
+      return true;
+    }
+    if (this.pattern[this.i] === '<') {
+      this.i++;
+      return false;
+    }
+    return null;
+  }
+
+  /**
+   * A maximum cost after a comparison, made inclusive
+   */
+  private limit(inclusive: boolean): number {
+    const start = this.i;
+    const digits = this.digits();
+    const value = Number(digits) - (inclusive ? 0 : 1);
+    if (!digits || value < 0) {
+      throw new PatternError('bad fuzzy cost limit', this.pattern, start);
+    }
+    return value;
+  }
+
+  private digits(): string {
+    const start = this.i;
+    while (DIGIT.test(this.pattern[this.i] ?? '')) this.i++;
+    return this.pattern.slice(start, this.i);
+  }
+}
+
+/**
+ * Parse the fuzzy constraint whose '{' is at `index`, or return null if the
+ * text isn't one (so the '{' is a literal), as the regex module does
+ */
+export function parseFuzzyConstraint(pattern: string, index: number): FuzzyConstraint | null {
+  const reader = new ConstraintReader(pattern, index + 1);
+  try {
+    reader.item();
+    while (pattern[reader.i] === ',') {
+      reader.i++;
+      reader.item();
+    }
+  } catch (error) {
+    if (error instanceof NotAConstraint) return null;
+    throw error;
+  }
+
+  const { limits, cost } = reader;
+  if (pattern[reader.i] === ':') {
+    return { limits, cost, test: true, index: reader.i + 1 };
+  }
+  if (pattern[reader.i] !== '}') {
+    throw new PatternError('expected }', pattern, reader.i);
+  }
+  return { limits, cost, test: false, index: reader.i + 1 };
+}
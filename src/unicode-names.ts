@@ -0,0 +1,4592 @@
+/**
+ * Unicode character names for \\N{NAME} escapes, matching Python 3.11's
+ * unicodedata.lookup() (Unicode 14.0.0): every named character plus the
+ * formal name aliases (e.g. LATIN CAPITAL LETTER GHA, BYTE ORDER MARK).
+ * CJK unified ideographs and Hangul syllables are named algorithmically
+ * and are not stored.
+ *
+ * Generated offline from unicodedata. NAMES lists one entry per name in
+ * code point order: the code point's delta from the previous entry, the
+ * number of words, then each word's index into WORDS. Numbers are written
+ * in base 44: any CONTINUATION digits come first, and a TERMINAL digit ends
+ * the number.
+ */
+
+const TERMINAL = '!#%&()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNO';
+const CONTINUATION = 'PQRSTUVWXYZ[]^_abcdefghijklmnopqrstuvwxyz{|}';
+const BASE = TERMINAL.length;
+
+/** Words used in character names, most frequent first */
+const WORDS = [
+  'LETTER SIGN SMALL WITH SYLLABLE CAPITAL HIEROGLYPH LATIN ARABIC YI CUNEIFORM CJK SYMBOL MATHEMAT',
+  'ICAL EGYPTIAN COMPATIBILITY DIGIT FORM VOWEL TANGUT CANADIAN SYLLABICS A SIGNWRITING TIMES BAMUM',
+  ' AND SCRIPT BOLD ANATOLIAN ARROW HANGUL NUMBER LINEAR COMBINING LIGATURE GREEK ETHIOPIC MUSICAL ',
+  'OLD RIGHT KHITAN ABOVE LEFT FOR CYRILLIC MARK SQUARE ITALIC NUSHU CIRCLED U SANS-SERIF RADICAL O',
+  'NE FINAL DOUBLE TAI O TWO BLACK E BELOW I DOT VAI MODIFIER B WHITE THREE HENTAIGANA TO VARIATION',
+  ' PATTERN BRAILLE BYZANTINE STROKE OF KATAKANA ISOLATED HEAVY FOUR MIDDLE MYANMAR VERTICAL KANGXI',
+  ' MENDE KIKAKUI HOOK TIBETAN FIVE INITIAL MEEM HMONG KA RIGHTWARDS YEH COPTIC ZNAMENNY CARRIER UP',
+  ' PLUS R S SQUARED BOX GEORGIAN CHEROKEE INDEX MONGOLIAN FACE LOWER LEFTWARDS DEVANAGARI HALF BLO',
+  'CK L PHASE-E DOWN UPPER EIGHT SIX ALEF BAR CIRCLE MIAO VOCALIC LIGHT KHMER TILE DRAWINGS DUPLOYA',
+  'N SEVEN JONGSEONG BRACKET HA THAM PARENTHESIZED NINE LOW TONE HUNDRED GONDI HIGH HEBREW DOTS GLA',
+  'GOLITIC TAMIL OVER THUMB MALAYALAM SIYAQ PAHAWH CHOSEONG PA BALINESE N HAND-FIST RA HALFWIDTH ME',
+  'ROITIC IDEOGRAPHIC RING TURNED IDEOGRAM PHASE-D HORIZONTAL EQUAL HAH NEUME ALCHEMICAL MA BRAHMI ',
+  'LONG THOUSAND LA TRIANGLE NA NUMERIC M OPEN YA SINHALA TA MEDIUM HUNGARIAN TILDE DOWNWARDS SA BA',
+  'RB DIAGONAL UPWARDS NORTH TAG DA FULLWIDTH CHARACTER G JEEM T PUNCTUATION GA K TELUGU DOMINO NEG',
+  'ATIVE H V CYPRO-MINOAN FRAKTUR FRACTION SIDDHAM MEDIAL PHASE-C D DOUBLE-STRUCK NEWA BHAIKSUKI AR',
+  'MENIAN BENGALI CHESS SHARADA Z OR JUNGSEONG HIRAGANA MEDEFAIDRIN ACUTE ZERO Y BA LARGE SYRIAC GU',
+  'JARATI ORIYA KANNADA IDEOGRAPH JAVANESE WEST-CREE CURSIVE AA RUNIC TANGSA NEW CONSONANT SOUTH AD',
+  'LAM C THAI PHASE-A CARD REVERSED LAO P X SINGLE SOGDIAN GRANTHA SUBJOINED LUE WARANG CITI MOVEME',
+  'NT-WALLPLANE DASIA TEN CHAM SOYOMBO PLAYING SAURASHTRA TIRHUTA LINE W CIRCUMFLEX AI TETRAGRAM HA',
+  'MZA II GURMUKHI DESERET J PSILI NOTATION TRIANGLE-HEADED MEETEI MAYEK MODI NUMERAL POINTING INDI',
+  'C GA2 MOVEMENT-FLOORPLANE DIAERESIS ARROWHEAD NGA AU BOPOMOFO MASARAM STOP SHA JA LAM UU LEPCHA ',
+  'OMEGA CA WA VIET TURKIC F ALPHA SHORT SUNDANESE OSAGE DIVES AKURU ZANABAZAR LITTLE CHAKMA NYIAKE',
+  'NG PUACHUE GRAVE APL FUNCTIONAL VITHKUQI MAKSURA ON TELEGRAPH KHUDAWADI ACCENT MACRON KHAH NOON ',
+  'LIMBU KHAROSHTHI KAITHI TAKRI MARCHEN INVERTED CHA NOT CENTRE NYA KHA LI ORNAMENT AHOM NANDINAGA',
+  'RI IN ROTATED HARPOON HEXAGRAM ARABIAN ANGLE EAST GUNJALA LAGAB NKO SAMARITAN VARIA OXIA KHOJKI ',
+  'MONOSPACE COMMA TAIL THA OTTOMAN LESS-THAN GREATER-THAN Q TRIPLE STAR DOGRA NUN TIFINAGH WANCHO ',
+  'HAU BREVE AEGEAN INSCRIPTIONAL PAU CIN ETA EN ASH BATAK PHAGS-PA PAHLAVI GUNU PHASE-B PHA VA WES',
+  'T CYPRIOT AVESTAN IOTA PHASE-F HITTING TEH PERSIAN ANUSVARA ACROPHONIC CAUCASIAN ALBANIAN DEGREE',
+  'S FULL CROSS PI ROMAN UNIFIED SEEN TTA ROHINGYA KAYAH MANICHAEAN ZA KAF THAANA DDA HANIFI GHA HE',
+  'H LE TWENTY OL MOUTH LISU DISC CARIAN UPSILON OO DHA VEDIC CHIKI SHAVIAN PERISPOMENI PE TOP DIAM',
+  'OND OPERATOR YEZIDI PARENTHESIS ASTERISK SHAN SHE MTAVRULI PHAISTOS CARON BEH AIN NNA SYLOTI NAG',
+  'RI OE CLOSED SHEEN BHA THE MAHJONG ALI GALI PERMIC MRO RETROFLEX DOTTED WAW EE TTHA DASH NEUTRAL',
+  ' ORKHON TENU NO SSA HE FA VIRAMA WIDE-HEADED ARCHAIC MU YU DESCENDER TAH SUBSCRIPT DDHA RR ALTER',
+  'NATE OSMANYA ELBASAN NABATAEAN BASSA END CURVE MAHAJANI SECTION QUARTER YPOGEGRAMMENI EPSILON RE',
+  'H FEH VISARGA EIGHTH NINETY MULTANI TE POINTED AN BOTTOM HI CORNER REJANG VAH INSTRUMENTAL EQUAL',
+  'S CURLY STRAIGHT QAF JHA FROM LU2 SIDE GLOTTAL TACK ARABIC-INDIC LL NI NE FIFTY SORA SOMPENG SEP',
+  'ARATOR HORN RAISED CANDRABINDU SAD ME SEVENTY DUG PRESENTATION STRELA COLON INDICATOR AE SHIN WA',
+  'VE NU DAD DAY YO SHELL CROSSING DINGBAT VARIANT PALMYRENE HIEROGLYPHIC IGI AFFIX DIGRAPH YUS VER',
+  'Y HAND UGARITIC IMPERIAL ARAMAIC YENISEI RUMI EZEN HAND-HINGE FINGERS TOTO QUOTATION OMICRON DAN',
+  'DA TSA MI THIRTY BUGINESE HEART BENT PARTHIAN QUESTION CEDILLA PALATAL MANDAIC OGHAM GAR TODO LO',
+  'GICAL MOON VESSEL LYCIAN PHOENICIAN PSALTER SAG KISIM5 VOCAL CONJOINED SUPERSCRIPT RHO HEAD LLA ',
+  'UD PROSGEGRAMMENI KNIGHT SLANTED EPACT CHORASMIAN SO AT LOOP HO POINT RO FORTY DAG CLOCK NOTE GO',
+  'THIC LYDIAN NINDA2 URU NEO HAND-FLAT LOOPED EXCLAMATION SIGMA CHI WE GHAIN LU BU KHAMTI BETWEEN ',
+  'SUBSET SUPERSET TORTOISE HOUR LAING HATRAN UYGHUR EYES REGIONAL SHAFT PHI STRETCHED THETA NUKTA ',
+  'KO GI TU QUAD INTEGRAL UNDERBAR MAKASAR NOTEHEAD SI SOLIDUS RIGHT-POINTING CHE DAGESH THEH WO KI',
+  ' INDEPENDENT QUADRANT SMILING EQUILATERAL ATTIC REVERSE OVERLAY EL WORD UE RU TAGALOG SIBE DISH ',
+  'ELYMAIC ALTERNATING SPACE GAMMA CURL TRIANGULAR DE ZE NG EXTENDED ZHA MO MAI SU KU MAN WI SE PER',
+  'SON ARM C-SIMPLIFIED LEAF GAN2 GISH DOTLESS MINUS AB ATTACHED THO LO KE HANUNOO MANCHU ANTICLOCK',
+  'WISE TIP LEFT-POINTING DELTA LEG QA RRA DO BUHID INSULAR UNION ARC CURVED CLAN MAYAN HINGED FORW',
+  'ARD VULGAR ESH TONOS BETA ABBREVIATION MEM DAL INSIDE SIDEWAYS TI BI DU DI TWO-HEADED RED ANNOTA',
+  'TION KUR BAD AB2 ARCHAION FTHORA KAPPA TAU GHE EM PO KAREN RE BLACKFOOT TAGBANWA WALL INTERSECTI',
+  'ON FLOOR FILL KING SPOKED REST PAP COUNTING ROD HAND-ANGLE GURAGE OUT RI DIALYTIKA PSI IE VE BET',
+  'H TAW OBLIQUE AL GU SIXTY SAYISI SOUND N-ARY ARROWS CEILING UP-POINTING TONGUE ALEPH CIRCLES MUS',
+  'H GUD HAND-CIRCLE HEARTS ALMOST ZHE IOTIFIED KOMI GIMEL SAMEKH ZAIN KAPH SADHE AVAGRAHA MGO SHAD',
+  ' YE SLASH CLOCKWISE EARTH SUN QUEEN TAILED CIM TAK4 SHESHIG SPREAD ROTATION MOVEMENT-DIAGONAL CA',
+  'N QUARTERS OGONEK XI BE ER BIG ROUNDED EMPTY HETH RISING CANDRA LENGTH TSHA SHU XA EIGHTY NASKAP',
+  'I KOET ROC EIGHTHS TWELVE EQUIVALENT DENTISTRY SHADE THROUGH IM YODH LAMEDH LAGAR U2 KASKAL HAND',
+  '-CUP ROTATION-WALLPLANE ROTATION-FLOORPLANE SET SOFT LAMDA TSE ZAYIN FATHA KASRA ZAH FARSI SHADD',
+  'A AS SARA GO NYI NOR PWO HU TONAL BIRGA BULLET CHECK WATER NUNUZ WRIST HUMP SPADES DIAMONDS CLUB',
+  'S XIANGQI UNIT MULTIPLICATION ZETA ROUND ET RESH OM DZA FO ANG PALI RTAGS MON PU WOODS-CREE MULT',
+  'IPLE BINDU THIRD DASHED ELEMENT PRODUCT PRECEDES SUCCEEDS OVERBAR LOZENGE DOWN-POINTING BALLOT C',
+  'ROSSED SHADOWED CAT PADA SHIM MINNAN POVYSHE MARTYRIA ICHOS TABULATION CONTROL SEMICOLON HYPHEN ',
+  'BY ENG EZH PRIME YANG ZIGZAG JE CO AYIN KEHEH FE ZO AH KHO BO AY YIG ZU Y-CREE OJIBWAY TEDUNG MU',
+  'RDA WIDE TELEPHONE ELEVEN DOES MEASURED ROOK BISHOP PAWN FLAG BALL NUBIAN DESCRIPTION HANGZHOU B',
+  'ACK LUM E2 NATTILIK SHA3 USH LAL SHAR2 UR2 KRYZHEM OCLOCK START TEXT TAB SCHWA CLICK BELT SHO ES',
+  ' YERU MEN DAMMA MADDA WAVY KIRGHIZ TETH HAA FI CHO PHO TSHEG WU ZI JO LEK SIMALUNGUN WIDTH QUADR',
+  'UPLE OCR FIFTEEN INVERSE RAYS SALTIRE FIRE WIND STEM BESIDE RIBBON NOSE BUR LAK-617 TENS KLYUCHE',
+  'VAYA SKAMEYTSA STATYA KRYUKOVAYA KIEVAN PARTIAL CURRENCY DZ BARRED VOICED LUNATE EF HARD TICK EH',
+  ' VO YOD GAF AM SIXTEEN ALPAPRAANA MAHAAPRAANA LITH CARET RDEL WESTERN TONE-2 TONE-5 GE ATTAK HOR',
+  'A SVARITA PARALLEL BUT UNDER NORMAL PAGE EYE CLOUD MALE RECYCLING NOTCHED FISH SIMILAR DOUBLE-LI',
+  'NE TREE SALT ITERATION CHINESE LEFT-STEM THESPIAN DALETH TWELFTHS PREFIXED ASH2 KAK ESH2 SAL GAD',
+  ' LAK-648 CLEF HAND-HOOK FINGER FLEX TRAVEL-WALLPLANE DYNAMIC BRACKETED SEGMENTED DEVICE APOSTROP',
+  'HE CROSSED-TAIL CENTRED YIN YAT RHA PEH BARREE SANDHI CHILLU NYO EI ASTROLOGICAL EU TONE-3 UN IE',
+  'UNG CIEUC FILLER HHA VI CE FU PEE UR CRYPTOGRAMMIC KAVYKA FIRST THIRDS CONTAINS NEITHER IMAGE KE',
+  'Y RECTANGLE METRICAL EIGHTEEN CONTAINING SUIT MONOGRAM DIGRAM ENVELOPE PINWHEEL THEN REPEAT SECO',
+  'ND HORSE HANDS LENTICULAR GAL UM VINE SHU2 GESH2 REFORMED SLOAN LARGEST FRONT CHARACTERS BAMBOOS',
+  ' EMOJI BUBBLE AMPERSAND ETH THORN DIVISION OU FISHHOOK PHARYNGEAL BEGIN OVERLINE ANO SHEI DZE NJ',
+  'E THOUSANDS ABKHASIAN LHA MARKER THAL SUKUN GOAL VERTICALLY RUPEE ELLIPSIS KIYEOK NIEUN TIKEUT R',
+  'IEUL MIEUM PIEUP SIOS CHIEUCH KHIEUKH THIEUTH PHIEUPH HIEUH VEE JI TH NUNAVIK TH-CREE MAHAPRANA ',
+  'SASAK FIGURE PAIRED TURNSTILE SUBGROUP JOT EXTENSION PIECE THIRTEEN FOURTEEN SEVENTEEN NINETEEN ',
+  'TRIGRAM MOUNTAIN DIE STAFF CAR ICE JAPANESE LOCATION AIRPLANE ENDING DIALECT-P TUAREG BLUE DRAGO',
+  'N WOMAN NAME LOGOGRAM LONSUM SUBUNIT STATERS QOPH CRESCENTS NAGA OPPOSING TUG2 HUB2 MFON SECANT ',
+  'NIZKO ZAPYATAYA VRAKHIYA SVETLAYA AGOGI DODEKATA SIMANSIS TEMPUS CUM PROLATIONE HAND-OVAL HAND-C',
+  'LAW MOVEMENT AWAY TOWARDS LIPS LIMB GREEN STICK BACKHAND BUD COMPRESSED INFORMATION DOLLAR SHARP',
+  ' MID JOINER SHIMA FITA MILLIONS TET FATHATAN TCHEH PLACE AD LLLA WITHIN BBA ODD POWERS DIGA NGO ',
+  'TAM TONE-4 GAN TAR SEE VU TAA JU THI TSI FEE SHWE SH TIR EAR HAIR DAGGER ENCLOSING BACKSLASH SHO',
+  'E BELL RAIN FLAT PLASTICS OUTLINED FALLING TEARDROP-SPOKED OPENING HAT SPEECH SURROUND KATAKANA-',
+  'HIRAGANA KET SPIRAL MEASURE TALENTS DUN3 MASH GIR2 DIM GI4 GU2 LUGAL BAN2 VOS NASALIZED MALO DIP',
+  'LI KATO DIATONIKI YFESIS DIESIS ARKTIKO TALLY ANGLED HEEL MOVEMENT-HINGE TRAVEL-FLOORPLANE CHEST',
+  ' TENSE EYEBROWS WRINKLED TEETH MOUSE FOLDER SPEAKER ORE FEED RETURN SHIFT FILE US PAD AREA BROKE',
+  'N SWASH BRIDGE SAMPI DIGAMMA KAI KOPPA KHEI HORI GANGIA SAN IZHITSA UK ECH KEN VAV BET RADI TATW',
+  'EEL TTEH YAA NAA AK GGA NUMERATOR THAN EK SIXTEENTH EVEN JIHVAMULIYA UPADHMANIYA HIP SUNG KAN -A',
+  ' TALL GREAT AITON RAE HAR YN AEN SHI BEE TEE XE YEE DEE JEE MYA TOO LOO IS UA INFINITY WIGGLY RE',
+  'PA NDA NARROW AV VRACHY TIE DIFFERENTIAL NABLA APPROXIMATELY HOUSE POSITION STILE POWER BOW CORN',
+  'ERS CRESCENT FEMALE SCISSORS THREE-D BLACK-FEATHERED ERROR-BARRED SUM SINGLE-LINE HOOKED RUSSIAN',
+  ' IZHE IOTATED DIVIDER SUBSTITUTION PALM KNIFE DOG NET BRUSH EAT RICE DRUM HOLDING TUR GAP NJI MB',
+  'AA VOLAPUK EPIGRAPHIC NHA WEIGHT TROEZENIAN AIR PEN ENY ERIN2 DUB KU3 HAL SAR SHID GIR3 SHIR KUS',
+  'HU2 LU3 MUSH3 PIRIG URUDA SHARU BURU LAK-449 VYSOKO KHOKHLOM DVOECHELNAYA ZAPYATOY GROMOPOVODNAY',
+  'A OSOKA LEIMMA BARLINE OTTAVA BEND IMPERFECTA CONTACT CUPPED SPLIT SQUEEZE FLICK PEAKS CHEEKS KI',
+  'SS GLASS BABY BOOK ORANGE BUTTON COPPER ANTIMONY EXTREMELY EQUIHOPPER PERCENT COMMERCIAL DEL PRI',
+  'VATE YEN AFRICAN OI HENG YOT TITLO YAE OH ROOT PER ALAYHE DAMMATAN KASRATAN GHUNNA TTEHEH BEEH T',
+  'EHEH BEHEH NYEH DYEH TCHEHEH VEH PEHEH NGOEH GUEH RNOON DOACHASHMEE PARAGRAPH SKEWED RAA THAA ZE',
+  'N AQ GEMINATION NNNA DOUBLED STRESS ANUDATTA JJA CIRCULAR NN KOMBUVA GTER CLOSING DKAR NAG DZHA ',
+  'KSSA BBE PWA TONE-1 NAR QAR JIL HIE EO LAA REE QU QI WAA ZEE GAA GEE THEE MV WOO PII POO TWE TTE',
+  ' KOO SII SOO HOO FRANKS CASKET FREE SELECTOR WAY OA MARK-1 MARK-2 TALING ADEG LEFT-HAND MBA IR Y',
+  'AJURVEDIC FLATTENED ROTUNDA LEFT-TO-RIGHT INTERROBANG FLOWER SCREEN BLACK-LETTER SUMMATION SEMIC',
+  'IRCLE ALL MUCH ORIGINAL CUP SEMIDIRECT SMILE BARS KEYBOARD JOINED POINTER UMBRELLA LIGHTNING HOT',
+  ' PLUTO NOTES WITHOUT TRAFFIC MAP CURVING FENCE TINY PATH POLE OVERLAPPING RANGE NESTED PENTAGON ',
+  'OVAL U-SHAPED MYSLITE CHRIVI LAME SIMPLIFIED COW WALK YELLOW TURTLE KANA IU KOREAN ERA CUBED KPA',
+  ' NJEE NGGA DHE NDOLE YER FLOURISH TUM REPETITION UIGHUR ALLAAHU CHARIOT OW EZ EC TRIDENT SWIRL N',
+  'ASAL CLUSTER-INITIAL PON KAD3 BAHAR2 BAL IDIM KAL NU11 ELAMITE GESHU GORAZDO PRIZNAK NEPOSTOYANN',
+  'AYA GOLUBCHIK MECHIK KENTIMATA GORGON APLI PARESTIGMENON CHROMA THESEOS IMPERFECTUM HALF-CIRCLE ',
+  'EYEGAZE-WALLPLANE SHOULDER BREATHY MEDAL BOARD BUILDING FITZPATRICK MONKEY CHART DISK FACING MOB',
+  'ILE INPUT DOCUMENT GRINNING ROCKET ONCOMING SUBLIMATE TRANSMISSION ACKNOWLEDGE ESCAPE CANCEL HYP',
+  'HEN-MINUS ST POUND DEGREE TOPBAR HV WYNN LEZH DEZH TS TESH EXTRA-HIGH EXTRA-LOW DJE LJE KSI OT S',
+  'HHA NOW RIGHT-FACING LEFT-FACING PATAH QAMATS RAFE SIN DALET LAMED YIDDISH FOURTH MARBUTA WASLA ',
+  'RUB SUBLINEAR MIM MUSIC BAA YUT AG THIN UDATTA YYA DDDA SIXTEENTHS SANYAKA PLA CANCELLATION DELI',
+  'MITER NYIS FIXED-FORM MCHU CANTILLATION SVASTI SGAW EASTERN TONE-6 PALAUNG BAN DON VIN TAN LAS P',
+  'AR ZHAR PHAR KHAR GHAN CHIN CIL CHAR XAN JHAN HAE HOE SSANGKIYEOK SSANGTIKEUT SSANGPIEUP SSANGSI',
+  'OS SSANGCIEUC RIEUL-HIEUH PIEUP-SIOS NIEUN-CIEUC NIEUN-HIEUH RIEUL-KIYEOK RIEUL-MIEUM RIEUL-PIEU',
+  'P RIEUL-SIOS HEE LEE MWA SAA SHEE QE QO CI NWA KAA KWI KWAA KWE WEE ZHEE CHU CHEE TSU TSO FAA PA',
+  'A SEBATBEIT MWI PWI DLA SOUTH-SLAVEY SHII YOO RII TTHO NGI NGAA KHI KK FEATHER AC RAD TYPE LAI K',
+  'ANG CENTRALIZATION PARENTHESES ULU LENGA SUKU ZAL DANG RIGHT-HAND UC EP ERR SATANGA SNAKE AO MID',
+  'DLE-WELSH RIGHT-TO-LEFT QUILL ISOLATE OHM HEADED BASE SQUIGGLE PEDESTAL MEMBER IDENTICAL CAP REL',
+  'ATION BOWTIE BAG ELECTRIC CROP HOURGLASS FROWN VANE SCAN FOOT SHORTS FORK SHOGI HAMMER HEAVEN WH',
+  'EEL FROWNING MERCURY BEAMED PAPER DRAUGHTS HELMET PENTAGRAM PENCIL FLORETTE RIGHT-SHADOWED JOIN ',
+  'ARROW-TAIL SQUARES SERIFS INTEGRATION APPROXIMATE ELLIPSE CUSP ARROWHEADS DZELO YERI EIE ZATA KA',
+  'PA OOU YAH ZZA KYEE SPIRIT RAM MEAT GRASS TIGER GOLD BONE BIRD J-SIMPLIFIED TOOTH PIG WINE RAT P',
+  'OSTAL HP NIGHT MM KM TWENTY-FIVE TOGETHER OX EX POT NDE NDU LIP GUR KUT SUR MBEE KPO BHE MBE GBE',
+  ' LENGTHENER MONOCULAR NDAA SUU YOQ LOQ REN EGYPTOLOGICAL CUATRILLO RUM LONGA POETRY SS IA UI ALA',
+  'YHI AS-SALAAM OIL FRAME OBOLS LOTUS ENT ENC NIKOLSBURG RUDIMENTA CLUSTER-FINAL LOW-FALLING IMIN ',
+  'BALAG SHITA AMAR BULUG DIN KID GABA UMUM KUL MIN MUG SIG4 INSERT NTAP NTEUM NYAM XYEEM TONE-8 SH',
+  'ORTHAND FORMAT TIKHAYA KRYZH DIRECTION PROSTAYA TRESVETLAYA SLOZHITIE POVODNAYA GROMNAYA GROMOKR',
+  'YZHEVAYA EKFONITIKON KENTIMA KLASMA DYO TROMIKON DIGORGON SKLIRON DIASTOLI ARSEOS ALTA TURN PERF',
+  'ECTA KNUCKLE HAND-CURLICUE SEQUENTIAL SHAKING TILTING DREAMY EYEGAZE-FLOORPLANE JOKER ACE JACK O',
+  'K GLOBE FOOD BOTTLE CAMERA THUMBS WOMANS SILHOUETTE POLICE SWEAT BANKNOTE FLOPPY RECEIVER MAILBO',
+  'X PHONE LOCK KISSING SLIGHTLY QUILT CHECKER RAILWAY AQUA IRON REGULUS ISOSCELES FINGER-POST DOWN',
+  'WARD COMPONENT NULL LINK SUBSTITUTE GROUP RECORD DELETE STRING USE WAITING MW INTRODUCER NO-BREA',
+  'K SHY DENTAL BILABIAL FENG DEPARTING KORONIS FERMATA STIGMA IO GJE UKRAINIAN SHCHA UPTURN AYB BE',
+  'N GIM INI XEH VEW YIWN PIWR KEH ETERNITY SEGOL GERESH HATAF HOLAM MAPIQ TSADI QOF TAV CUBE VERSE',
+  ' DECIMAL DDAL DAHAL DDAHAL DUL RREH JEH SUPRALINEAR HARKLEAN RISH PTHAHA ZQAPHA GBA JONA DESCEND',
+  'ING NASALIZATION IY IT AR PRISHTHAMATRA AW UUE GHHA SPACING ANJI TWO-CIRCLE MONTH CREDIT TENTH F',
+  'IFTH GAYANNA JAYANNA TAALUJA DDAYANNA MUURDHAJA DAYANNA DANTAJA BAYANNA SAYANNA AELA-PILLA KETTI',
+  ' GAYANUKITTA NEN YAK SUA YY SHOG GSUM BZHI KKA HALANTA -KHYIL RGYAN YWA COUNCIL SSANGNIEUN NIEUN',
+  '-TIKEUT MIEUM-PIEUP KAPYEOUNMIEUM PIEUP-TIKEUT PIEUP-SIOS-TIKEUT PIEUP-CIEUC KAPYEOUNPIEUP SIOS-',
+  'KIYEOK SIOS-TIKEUT SIOS-PIEUP SIOS-CIEUC PANSIOS SSANGIEUNG YESIEUNG KAPYEOUNPHIEUPH YEORINHIEUH',
+  ' NIEUN-SIOS YEO WAE WEO KIYEOK-SIOS RIEUL-THIEUTH RIEUL-PHIEUPH RIEUL-TIKEUT MIEUM-SIOS LWA MAA ',
+  'MEE SWA SHWA QAA TWA CU CAA CWA NEE NYU NYE KEE KWA KXA ZHU ZHI ZHO DDO GGE THU THWA PHE MWE PWE',
+  ' HNA NAH NV QUO QUU SV TLA TLE TLI TLO TLU STROKES PWAA TWAA TTO KW COO CWI CWAA MOO MWAA NOO NW',
+  'AA SWAA SHOO YWAA FOO N-CREE THII THOO THWAA QOO TLHA LH HWE KHE ING SSO LY MUOY BEI BUON PRAM P',
+  'RAM-MUOY PRAM-PII PRAM-BEI PRAM-BUON OY KAY TTHAA DENE BEAVER TRA DAP NRA RATHA SAT KHUEN SAM PE',
+  'PET CARIK JEGOGAN PING MANDAILING KARO NYET IH KATHAKA SUSPENSION LEADER POP INSERTION CLOSE FUN',
+  'CTION INVISIBLE WON DRACHMA CONSTANT SOURCE FIFTHS SIXTH OPEN-HEADED CONTAIN SPHERICAL DIVIDE CO',
+  'NTOUR SURFACE LAZY MULTISET TRUE MULTIMAP FACTOR SEGMENT COMPOSITION ALTERNATIVE DIRECT CURRENT ',
+  'NEWLINE BRANCH BANK SNOWMAN OPPOSITION FLORAL SKULL PEACE THUNDER LAST CLUB NATURAL WHEELCHAIR G',
+  'EAR LINES SNOW BEHIND ENTRY TRUCK SHIELD CASTLE TENT SAFETY FIST BALLOON-SPOKED SNOWFLAKE TIGHT ',
+  'TOP-LIGHTED RIGHT-SHADED LEFT-SHADED BACK-TILTED FRONT-TILTED PERPENDICULAR OUTER DIVIDED CONCAV',
+  'E-SIDED SEMICIRCULAR PART AROUND SCHEMA HEXAGON BACKSLANTED AZU BUKY VEDE GLAGOLI DOBRO YESTU ZH',
+  'IVETE ZEMLJA DJERVI KAKO LJUDIJE NASHI ONU POKOJI RITSI SLOVO TVRIDO UKU FRITU HERU SHTA YATI SI',
+  'MA WAU YAJ YAZH YAGH SSU SSI CCHE KYA DJERV MONOGRAPH TRANSPOSITION PARAGRAPHOS MEDIEVAL CLIFF T',
+  'ABLE SEAL THREAD SNOUT RAP PAW BOLT CLOTH BAMBOO SILK SHEEP CLOTHES MOUND LEATHER FLY GHOST WHEA',
+  'T FROG COVER SPOON ENCLOSURE CHILD WORK DRY STEP AXE STONE DEER OVERLAID SEMI-VOICED ENN WOOD ST',
+  'OCK CALL SCHOOL EV HON MEGA TWENTY-TWO DM MB CM GRACE INCREASE GATHERING COMPLETION OP BAT PUT M',
+  'IT FAX VY NDI NDAP NDO HLI LAP KUOP CUT NZA SOT NJU YIT UH NDEE MBI MBOO NGGOO MBU GBU NGGU MBO ',
+  'NGGO NGGE NGGEN DWE TAE MEEEE NJAEM SEUX YUQ NSHA PEUX NTEE WUE REUX PUAE FOM POLISH PLACEHOLDER',
+  ' HEADSTROKE EA SAW KOI BLACKLETTER TIL NUNG INTERLINEAR A2 MNAS HERMIONIAN EPIDAUREAN SHIP ROSET',
+  'TE TT EW QAAF EB FLEURON IC IQ OQ MID-LEVEL HUNDREDS SIXTY-FOURTH THIRTY-SECOND PAN SHESH DIM2 A',
+  'NSHE ASHGAB DUN ISH GESHTIN GUM KIN LISH IB KA2 KAD5 LUL LUH MES NIM ZU5 NIN LIMMU ASSYRIAN MAEM',
+  'BA LET MEUT LEERAEWA SHOQ NSHUT MAEM MBIT NGOM LAAM ROG TONE-7 XW OVERLAP TSATA STRANNO PODCHASH',
+  'IE CHASHKA STOPITSA MRACHNAYA OXEIA VAREIA PARAKLITIKI EXO APOSTROFOS ISON SYNAGMA TESSERA PARAK',
+  'ALESMA ALLO KRATIMA CHRONON ARISTERA TETARTOS FANEROSIS CHROA REPEATED BREATH TIME WHOLE FINGERE',
+  'D PEDAL SEMIBREVIS MINIMA SEMIMINIMA PERFECTUM HUMAN JOY KNUCKLES TOUCH GRASP STRIKE SYMBOLS FOR',
+  'EHEAD EYELASHES WRINKLES ALIF LAKH MASK BOWL CAKE CHRISTMAS BALLOON PARTY MILITARY MACHINE RUNNI',
+  'NG RACING CONSTRUCTION OFFICE POST LOVE WAVING ELEPHANT CHICK OLDER PURPLE ANGER SLEEPING THOUGH',
+  'T TREND COMPUTER CALENDAR PUSHPIN WAVES LETTERS POMMEE FLYING ICON PICTURE BUBBLES MOOD TEARS CO',
+  'LD STUCK-OUT POUTING CRYING TRAIN BUS BATH SULFUR ROCK CROCUS BRICK STRATUM TARGET BROWN SHADED ',
+  'FORMEE COVERING PREGNANT FORTY-FIVE THIRTY-FIVE HEADING ENQUIRY BACKSPACE FF CARRIAGE LOCKING-SH',
+  'IFT DATA DLE SYNCHRONOUS IDLE SP HOP BREAK HERE NEL NEXT SELECTED JUSTIFICATION PU2 MESSAGE SPA ',
+  'GUARDED PROTECTED SOS TERMINATOR COMMAND PM APPLICATION CENT COPYRIGHT FEMININE ORDINAL PILCROW ',
+  'IJ YR LATERAL ALVEOLAR LJ NJ HWAIR YOGH DB RAMS SQUAT TC LS LZ PERCUSSIVE VOICING SHELF ARCH HOM',
+  'OTHETIC HETA PAMPHYLIAN TELEIA FEI DEI BYELORUSSIAN-UKRAINIAN TSHE KJE DZHE PNEUMATA SEMISOFT BA',
+  'SHKIR PALOCHKA KHAKASSIAN ZJE DZJE SJE TJE ALEUT DZZHE DCHE LIWN GHAD CHEH JHEH SEH TIWN EMPHASI',
+  'S DRAM ZAQEF QATAN GERSHAYIM PARA TELISHA MERKHA HIRIQ SOF HET FOOTNOTE SAFHA RAY MILLE DATE SAL',
+  'LALLAHOU KASHMIRI MADDAH AYAH RECTANGULAR SINDHI ALAPH GAMAL GARSHUNI DALATH YUDH SEMKATH BHETH ',
+  'RBASA ZLAMA HBASA ESASA KHAPH TTAA HHAA KHAA ZAA WOLOSO BIT TIT KAAF EPENTHETIC OVERLONG NEQUDAA',
+  ' QITSA AZ AP OVERSTRUCK BASELINE SAH OOE KHHA DDDHA DENOMINATOR ISSHAR BINDI YEAR NAKAARA POLLU ',
+  'TTTA ONE-HUNDRED-AND-SIXTIETH FORTIETH EIGHTIETHS TWENTIETH TWENTIETHS KAYANNA NAASIKYAYA CAYANN',
+  'A TTAYANNA NAYANNA TAYANNA PAYANNA LAYANNA AEDA-PILLA IS-PILLA PAA-PILLA GAETTA-PILLA KHAI THONG',
+  ' FAN LING FON LOOT SANSKRIT KON SEMIVOWEL KHMU -UM RNAM BCAD MDUN SGAB PHUR BKA- RGYA GRAM -DZUD',
+  ' LOGOTYPE GCIG GNYIS NGAS BZUNG ZLA MIG GUG GYON GYAS KHANG YAR TSHES MAR LCE GRU RGYINGS BEAT R',
+  'DO RJE BRDA RNYING MCHAN RUMAI ELIFI LABIAL NIEUN-KIYEOK TIKEUT-KIYEOK RIEUL-NIEUN SSANGRIEUL KA',
+  'PYEOUNRIEUL PIEUP-KIYEOK PIEUP-SIOS-KIYEOK PIEUP-CHIEUCH PIEUP-THIEUTH PIEUP-PHIEUPH KAPYEOUNSSA',
+  'NGPIEUP SIOS-NIEUN SIOS-RIEUL SIOS-MIEUM SIOS-CHIEUCH SIOS-THIEUTH SIOS-HIEUH IEUNG-KIYEOK PHIEU',
+  'PH-PIEUP SSANGHIEUH TIKEUT-RIEUL YA-YO YO-YA YO-YAE YO-I YU-YEO YU-YE YU-I ARAEA NIEUN-PANSIOS R',
+  'IEUL-KIYEOK-SIOS RIEUL-PIEUP-SIOS RIEUL-KAPYEOUNPIEUP RIEUL-PANSIOS RIEUL-KHIEUKH RIEUL-YEORINHI',
+  'EUH MIEUM-KIYEOK MIEUM-PANSIOS PIEUP-HIEUH YESIEUNG-SIOS YESIEUNG-PANSIOS HHWA RWA SHAA QWI QWEE',
+  ' QWE BWA VAA CEE XO NYAA NYEE KWEE DAA DDU DDI DDAA DDE JAA JWA GWA GWI GWEE GWE GGU GGI GGO CHA',
+  'A PHAA TSEE FWA MWEE BWI BWEE FWI FWEE PWEE RIKRIK GV LV QUA QUE QUI QUV DV TLV TSV WV YV AAI WI',
+  'I PWII PWOO TWI TWII TWOO TTI KWII KWO KWOO KAH CWE CWII CWO CWOO MWII MWO MWOO ATHAPASCAN NII N',
+  'WE LWE LWI LWII LWO LWOO LWAA SWE SWI SWII SWO SWOO SW SHWI SHWII SHWO SHWOO SHWAA YWE YWI YWII ',
+  'YWO YWOO R-CREE ROO RWAA FWAA TTHE TTHI HII QII TLHE TLHI TLHO LHI LHO LHAA GHO JJU JJO JJI DZU ',
+  'DZO DZEE DZI QAI ONN OS AESC PAMUDPOD PHILIPPINE RY INHERENT MUAN UBADAMA BALUDA CYA AAY MAY SAY',
+  ' SHOY YAY NWI NWII NWO NWOO YAN AUE KVA XVA UY OAY LAE DAP-MUOY DAP-PII DAP-BEI DAP-BUON DAP-PRA',
+  'M NGKA MPA RANA STRONG SURANG AKARA IKARA UKARA OKARA SARI JNYA PANTI PAMADA WINDU DONG DUNG KEM',
+  'PUL KEMPLI TUK LANTANG PASANGAN LEU PAKPAK SOUTHERN NORTHERN PANGOLAT MLA HLA TA-ROL CER-WA TSHO',
+  'OK UNN OV TTUDDAAG MUCAAD CAKRA MIDLINE ANTARGOMUKHA VAMAGOMUKHA ARDHAVISARGA ZWJ LOW-9 HIGH-REV',
+  'ERSED-9 HYPHENATION EMBEDDING DIRECTIONAL OVERRIDE UNDERTIE TIRONIAN TRICOLON INHIBIT SYMMETRIC ',
+  'SWAPPING ACTIVATE SHAPING NATIONAL SHAPES FRENCH LIRA EURO KIP PESO SOM KEYCAP UPWARD ACCOUNT PL',
+  'ANCK RESPONSE OUNCE SIXTHS THERE COPRODUCT PROPORTION ASYMPTOTICALLY ACTUALLY GEOMETRICALLY PREC',
+  'EDE SUCCEED NEGATED PITCHFORK WATCH ERASE BENZENE TOTAL QUOTE UNDERLINE ENTER NOTCH OPEN-CIRCUIT',
+  '-OUTPUT PRINT TRISEME TETRASEME PENTASEME GROUND BLANK CHAIR IDENTIFICATION MICR DARK CROSSHATCH',
+  ' PARALLELOGRAM ASCENDING NODE BEVERAGE CROSSBONES CADUCEUS LAKE URANUS NEPTUNE SPADE UNIVERSAL T',
+  'YPE-3 TYPE-4 TYPE-5 TYPE-6 GREATER LESSER PICK ANCHOR ALEMBIC CONVERGING PARTNERSHIP LANES TWO-W',
+  'AY LANE MERGE DRIVE SLOW RESTRICTED INTERLACED CHURCH FOUNTAIN HOLE SKATE HEADSTONE BLADE TAPE V',
+  'ICTORY WRITING NIB RECTILINEAR PETALLED CHEVRON SPARKLE PROPELLER DROP-SHADOWED WEDGE-TAILED S-S',
+  'HAPED PRECEDING GAPPED DIRECTLY BINDING SMASH INTERIOR INTERSECTING SLOPING ANTIRESTRICTION CONS',
+  'ECUTIVE SIGNS SMALLER LARGER BINARY CIRCLING OCTAGON ERIS OTU SPIDERY SHTAPIC TROKUTASTI LATINAT',
+  'E CAUDATE ALFA VIDA DALDA SOU HATE THETHE IAUDA LAULA AKHMIMIC L-SHAPED HEI DJA SPIRITUS LENIS B',
+  'OHAIRIC BERBER ACADEMY YAKH YAQ YAM YAP YAZ SSE ZZU ZZI ZZE ZZO XYA XYE INTERPOLATION OMISSION F',
+  'ORKED ANCORA PARAPHRASE GUARD PATTY CROSSBAR DIVINATION DEATH MOTHER TRUNK JADE MESH EWE MORTAR ',
+  'CART CITY GATE TANNED LID TURBAN DOOR FUR STEAM FATHER SLICE MELON SWEET FIELD SPEAR TRACK JAR S',
+  'ELF BOAT BLOOD BADGER BODY CAULDRON FLUTE STANDARD LEVEL PROLONGED KOTO CH ONG ZY HZ HG METAL HA',
+  'VE SOCIETY SPECIAL FINANCIAL CONGRATULATION LABOR STUDY SUPERVISE ENTERPRISE RESOURCE ALLIANCE R',
+  'EACH TWENTY-ONE TWENTY-THREE TWENTY-FOUR KG CC CD TAMING POSSESSION FOLLOWING BITING PREPONDERAN',
+  'CE DARKENING FAMILY DECREASE MEET KEEPING INNER IX AX UO PIT PIP PIE PUP PYT BBI BBO BBUT BBU NB',
+  'IE HMO MOP MY FOX VEP VUR DAT TAT TUOT TOT TUP DDUR NUT LIE LYR GOT GEP KIT KAP GGUO GGOP HXIT H',
+  'XUO HXOP NGOP NGE HIT WAX WAP WUO ZOT ZUP ZUR CIP CUOP CYT CY CYP ZZIET NZUP SAP CHAT RRO RRE SH',
+  'AT SHOP SHET SHUR QOT JJIE JJUT JJY NJO NYIT NYIP NYOP YIE YUOP KPEE GBEE NGGEE HIN KPI GBI NGGI',
+  ' HAN MGBA NJA BOO KPOO GBOO VOO DOO NDOO ZOO JOO NJOO HUN KPU NGON BHO GBO DHO NGEN HEN KPE ZEML',
+  'YA BROAD BLENDED BINOCULAR PAYEROK DZWE ZHWE DZZE TSWE TSSE TCHE RIEE LEEEE SHEUX NUAE NJUAE KEU',
+  'X PUE NGKWAEN MBEN NTUU SAMBA NJAEMLI SHANG TZ TRESILLO SQUIRREL VISIGOTHIC VEND CON SALTILLO AN',
+  'GLICANA SCOTS SIGMOID HASANTA DDHO MARK-3 HTA PLOPHU CALYA TIKEUT-PIEUP TIKEUT-SIOS TIKEUT-CIEUC',
+  ' RIEUL-SSANGKIYEOK CECAK LELET WULU RERENGGAN PISELEH REDUPLICATION KHHO NUENG DDHAA OPEN-O HAND',
+  'LE SERIF KOK NGOU IYEK KAZAKH ORNATE ALLAAH SALLA USED KORANIC WASALLAM CONJOINING SESAME CENTRE',
+  'LINE REPLACEMENT B008 B001 B007 B006 B003 B002 B009 B004 B005 BOAR OLIVE WOOL BATHTUB LIQUID DRA',
+  'CHMAS SEXTULA PEDESTRIAN BOOMERANG CARPENTRY PLANE EAGLE DOVE DOI NENOE SADE GAY EGG IAN CAYN BR',
+  'A EHCHA EIN HYA EHKA OIN EHPA EHTA EHTSA EYN LAN MAQ IJE A301 A302 A303 A304 A305 A306 A307 A308',
+  ' A309A A310 A311 A312 A314 A315 A316 A317 A318 A319 A320 A321 A322 A323 A324 A325 A326 A327 A328',
+  ' A329 A330 A331 A333 A334 A335 A336 A337 A338 A339 A340 A341 A342 A343 A344 A345 A346 A347 A348 ',
+  'A349 A350 A351 A352 A353 A354 A355 A356 A357 A358 A359 A360 A361 A362 A363 A364 A365 A366 A367 A',
+  '368 A369 A370 A371 A501 A502 A503 A504 A505 A506 A508 A509 A510 A511 A512 A513 A515 A516 A520 A5',
+  '21 A523 A524 A525 A526 A527 A528 A529 A530 ZAYN AYN NA-2 NE-2 RA-2 SA-2 TA-2 TE-2 AAN AEE RINGS ',
+  'WAW-AYIN-RESH MEM-QOPH AEB AEG AEY AEK OEK AET AMB ECS ED EG EGY EJ UNK ELY OEE EMP ESZ ETY EZS ',
+  'ENT-SHAPED KINNA LESH GAH MAH MAE GHAA SHRI PLUTA NGHA NYHA MHA ENCLOSURES YUJ HIYO HOLO HORR SS',
+  'UU VIYO DOUBLE-LINED SUBJOINER FLAME TERMINAL CULTIVATION TRADITIONAL ARAD ZIDA KABA MASH2 DAR D',
+  'ARA3 DIB EREN GUL GUR7 IG IL SIG SUHUR KAB KAD2 KESH2 KU4 KUN SIK2 NA2 NAM NUTILLU NAM2 SILA3 PE',
+  'SH2 UB SHA6 UZ3 ZIB ZIZ2 ILIMMU ESHE3 LAK-050 LAK-079 LAK-081 ZA7 A001 A002 A003 A004 A005 A006 ',
+  'A007 A008 A009 A010 A011 A012 A013 A014 A015 A016 A017 A018 A019 A020 A021 A022 A023 A024 A025 A',
+  '026 A027 A028 A029 A030 A031 A032 A033 A034 A035 A036 A037 A038 A039 A040 A041 A042 A043 A044 A0',
+  '45 A045A A046 A047 A048 A049 A050 A051 A052 A053 A054 A055 A056 A057 A058 A059 A060 A061 A062 A0',
+  '63 A064 A065 A066 A067 A068 A069 A070 M001 M002 M003 M004 M005 M006 M007 M008 M009 M010 M011 M01',
+  '2 M013 M014 M015 M016 M017 M018 M019 M020 M021 M022 M023 M024 M025 M026 M027 M028 M029 M030 M031',
+  ' M032 M033 M034 M035 M036 M037 M038 M039 M040 M041 M042 M043 M044 NGKUE PIPAEMGBIEE PIPAEMBA TIT',
+  'A NGGEUAET NAE NTAA YUM NKAARAE MAESI NJAM MBANYI TEUAEN PAAM NSHIEE NAQ LOM NSIEE TEUAEQ MVOP N',
+  'GGUOQ SUE NGGAAM MEUN MBEUM NJUEQ FUE NDAM KEUM YUWOQ NJEUX MIEE MUAE SHIQ LAW PIN GHEUAE TOQ PE',
+  'OPLE AWX UEX UEZ MC MEEJ NTOG TXWV ATIU KP NY ASPIRATION VIETNAMESE READING DH ROMANIAN WEI PERN',
+  'IN TANGENT SREDNE ZADERZHKA DEMESTVENNY SOROCHYA NOZHKA OMET FLIP KRYUK TIKHY KLYUCH PEREVODKA C',
+  'HELYUSTKA KLYUCHENEPOSTOYANNAYA ZAKRYTAYA DVOECHELNOPOVODNAYA YPOKRISIS APESO OLIGON STAVROS APO',
+  'DERMA PIASMA SEISMA OYRANISMA THEMA PELASTON PSIFISTON KONTEVMA CHOREVMA NANA APOSTROFOI ETERON ',
+  'ARGOSYNTHETON THEMATISMOS APLOUN YFEN CHRONOU DEXIA POLI ARGI GORGI PROTOS ALLI DEYTEROS LEGETOS',
+  ' PLAGIOS TELOUS ICHIMATOS MONOFONIAS DIFONIAS GORTHMIKON VOU MALAKON VASIS TETARTIMORION TRITIMO',
+  'RION MONOGRAMMOS DIGRAMMOS TRIGRAMMOS OKTO GENIKI DISIMOU TRISIMOU TETRASIMOU MESO SEGNO FRETBOA',
+  'RD QUINDICESIMA TWENTY-EIGHTH TRIANGLE-ROUND CLUSTER TREMOLO-1 TREMOLO-2 TREMOLO-3 BEAM SLUR PHR',
+  'ASE ARPEGGIATO GLISSANDO DAMP BREVIS FUSA DIMINUTION-1 GREGORIAN SCANDICUS TORCULUS PORRECTUS FL',
+  'EXUS SYMBOL-1 SYMBOL-2 SYMBOL-4 SYMBOL-5 SYMBOL-7 SYMBOL-8 SYMBOL-11 SYMBOL-12 SYMBOL-13 SYMBOL-',
+  '14 SYMBOL-17 SYMBOL-18 SYMBOL-19 SYMBOL-23 SYMBOL-24 SYMBOL-50 SYMBOL-51 SYMBOL-52 SYMBOL-53 SYM',
+  'BOL-54 EARTHLY DEPARTURE HINGE CURLICUE TOUCHING RIPPLE BOTH THREE-QUARTER RELAXED SIMULTANEOUS ',
+  'BLINK FLUTTERING SUCKED EARS BLOWING ROTATIONS YAWN STICKING JAW NECK MOVE TORSO-WALLPLANE MODIF',
+  'IER-2 MODIFIER-3 MODIFIER-4 MODIFIER-5 MODIFIER-6 DAALI MIIM SINNYIIYHE YHE JIIM WC IDEOGRAPH-4E',
+  '8C IDEOGRAPH-4E09 IDEOGRAPH-6253 SUNRISE CITYSCAPE BUILDINGS WAXING GIBBOUS WANING THERMOMETER D',
+  'ROPLET PEPPER BLOSSOM APPLE BREAD POTATO SHRIMP CREAM COOKIE TROPICAL DRINK BEER CLINKING DECORA',
+  'TION DOLLS BOUQUET MICROPHONE FILM ROLLER ARTS VIDEO GAME TENNIS RACQUET SKI BOOT FOOTBALL CRICK',
+  'ET HOCKEY DESERT EUROPEAN HOTEL STORE PENNANT RABBIT WHALE BEETLE CAMEL BEAR CROWN DRESS SANDAL ',
+  'ALIEN REVOLVING DIZZY MONEY PERSONAL OPTICAL RULER BOOKMARK NOTEBOOK SATELLITE ANTENNA TRAY LOWE',
+  'RED NEWSPAPER RADIO BRIGHTNESS BATTERY MAGNIFYING WRENCH BULLHORN SUNGLASSES SPIDER TOUCHTONE ST',
+  'AMPED SPLAYED DESKTOP PRINTER PAGES WINDOW FONT SIZE TIGHTLY-CLOSED HORNS WINKING RELIEVED HEART',
+  '-SHAPED DISAPPOINTED WEARY ROLLING GESTURE RAISING HOLLOW SOLID LOCOMOTIVE HIGH-SPEED TRAM ENGIN',
+  'E TAXI AUTOMOBILE SMOKING LITTER BICYCLIST LUGGAGE LAMP SHOPPING MOTOR SCOOTER VINEGAR ANTIMONIA',
+  'TE SOAP ASHES SUPER HUGGING FLATBREAD COAT MECHANICAL ADULT KNIGHT-QUEEN KNIGHT-ROOK KNIGHT-BISH',
+  'OP GENERAL MANDARIN CANNON SOLDIER MIRROR NEST BLOCK-2 BLOCK-3 BLOCK-4 BLOCK-5 BLOCK-6 BLOCK-7 L',
+  'EANING NUL SOH STX ETX EOT ENQ ACK ALERT BEL BS HT EOL LF NL VT CR DC1 DC2 DC3 DC4 NAK SYN ETB E',
+  'OM SUB ESC FS GS RS PADDING OCTET PRESET BPH PERMITTED NBH IND ESA HTS HTJ VTS PLD BACKWARD PLU ',
+  'SINGLE-SHIFT-2 SS2 SINGLE-SHIFT-3 SS3 DCS USE-1 PU1 USE-2 TRANSMIT STATE STS CCH EPA SGC GRAPHIC',
+  ' SCI SEQUENCE CSI OPERATING SYSTEM OSC PRIVACY APC PROGRAM NBSP REGISTERED PLUS-MINUS MICRO MASC',
+  'ULINE KRA PRECEDED LAMBDA QP FRICATIVE BIDENTAL RHOTIC UNASPIRATED PALATALIZED SEAGULL CGJ GRAPH',
+  'EME PALATALIZATION POKRYTIE ETNAHTA SHALSHELET GADOL TIPEHA REVIA ZARQA PASHTA YETIV TEVIR MUQDA',
+  'M QARNEY GEDOLA PAZER ATNAH HAFUKH MUNAH MAHAPAKH KEFULA DARGA QADMA QETANA YERAH YOMO OLE ILUY ',
+  'DEHI ZINOR MASORA SHEVA TSERE HASER QUBUTS METEG MAQAF PASEQ PASUQ HAFUKHA SANAH SAMVAT AFGHANI ',
+  'POETIC MISRA WASSALLAM ASSALLAM RAHMATULLAH ALLAHOU ANHU TAKHALLUS ALM ZWARAKAY MOVED HIZB UPRIG',
+  'HT SAJDAH FILLED POSTPOSITION CONTRACTION OBELUS METOBELUS ASTERISCUS LAMADH QAPH GHAMAL DHALATH',
+  ' ANGULAR HBASA-ESASA RWAHA QUSHSHAYA RUKKAKHA BARREKH ZHAIN HORIZONTALLY SHAVIYANI NOONU LHAVIYA',
+  'NI KAAFU ALIFU VAAVU MEEMU FAAFU DHAALU LAAMU GAAFU GNAVIYANI SEENU DAVIYANI ZAVIYANI TAVIYANI P',
+  'AVIYANI JAVIYANI CHAVIYANI THAALU SHEENU SAADHU DAADHU AINU GHAINU QAAFU WAAVU ABAFILI AABAAFILI',
+  ' IBIFILI EEBEEFILI UBUFILI OOBOOFILI EBEFILI EYBEYFILI OBOFILI OABOAFILI DAGBASINNA DENNEN GBAKU',
+  'RUNEN LAJANYALAN DANTAYALAN DOROME TAMAN ALAF GAMAN DALAT LABAT SINGAAT TSAADIY QUF TAAF IN-ALAF',
+  ' OCCLUSION AFSAAQ ANGED BAU ATMAAU SHIYYAALAA MELODIC ZIQAA ZAEF TURU ARKAANU MASHFAAT ANNAAU HA',
+  'LQA USHENNA ATT AKSA ASZ DUSHENNA KAD AFFRICATION VOCALIZATION PIASTRE AL-JUZ ISHMAAM IMAALA TAS',
+  'HEEL WAAJIB MOKHASSAS GRAF AR-RUB ATH-THALATHA AS-SAJDA AN-NISF SAKTA QIF WAQFA DISPUTED MARWARI',
+  ' KHANDA LESS GANDA ADAK UDAAT TIPPI ADDAK IRI URA ONKAR YAKASH THREE-DOT DEBIT RRRA TUUMU REPH L',
+  'LL ANUSVARAYA VISARGAYA AYANNA AAYANNA AEYANNA AEEYANNA IYANNA IIYANNA UYANNA UUYANNA IRUYANNA I',
+  'RUUYANNA ILUYANNA ILUUYANNA EYANNA EEYANNA AIYANNA OYANNA OOYANNA AUYANNA KANTAJA SANYOOGA NAAKS',
+  'IKYAYA MAYANNA AMBA YAYANNA RAYANNA VAYANNA HAYANNA FAYANNA AL-LAKUNA KOMBU DEKA KUNDDALIYA KHUA',
+  'T KHWAI KHON RAKHANG NGU CHAN CHING CHANG CHOE YING CHADA PATAK NANGMONTHO PHUTHAO DEK TAO THUNG',
+  ' THAHAN BAIMAI PHUNG PHAN SAMPHAO RUA WAEN SALA RUSI CHULA NOKHUK PAIYANNOI HAN-AKAT UEE PHINTHU',
+  ' BAHT MAIMUAN MAIMALAI LAKKHANGYAO MAIYAMOK MAITAIKHU TRI CHATTAWA THANTHAKHAT NIKHAHIT YAMAKKAN',
+  ' FONGMAN ANGKHANKHU KHOMUT FAY CATAWA NIGGAHITA TRUNCATED SBRUL BSKUR INTERSYLLABIC BSTAR RIN CH',
+  'EN SPUNGS CHAD LHAG SGRA GCAN -CHAR -KHYUD SDONG TSHUGS BSDUS SGOR -PHRU RJES SNA LDAN PALUTA LC',
+  'I MED CANG TE-U SBUB -CHAL DRIL PADMA GDAN BSKA- MNYAM LEADING TRAILING NNYA ASAT LOCATIVE COMPL',
+  'ETED AFOREMENTIONED GENITIVE HATHI GHWA GEBA EMPHATIC NIEUN-PIEUP PIEUP-NIEUN PIEUP-SIOS-PIEUP P',
+  'IEUP-SSANGSIOS PIEUP-SIOS-CIEUC SIOS-PIEUP-KIYEOK SIOS-SSANGSIOS SIOS-IEUNG SIOS-KHIEUKH SIOS-PH',
+  'IEUPH CHITUEUMSIOS CHITUEUMSSANGSIOS CEONGCHIEUMSIOS CEONGCHIEUMSSANGSIOS IEUNG-TIKEUT IEUNG-MIE',
+  'UM IEUNG-PIEUP IEUNG-SIOS IEUNG-PANSIOS IEUNG-CIEUC IEUNG-CHIEUCH IEUNG-THIEUTH IEUNG-PHIEUPH CI',
+  'EUC-IEUNG CHITUEUMCIEUC CHITUEUMSSANGCIEUC CEONGCHIEUMCIEUC CEONGCHIEUMSSANGCIEUC CHIEUCH-KHIEUK',
+  'H CHIEUCH-HIEUH CHITUEUMCHIEUCH CEONGCHIEUMCHIEUCH KIYEOK-TIKEUT A-O A-U YA-O EO-O EO-U EO-EU YE',
+  'O-O YEO-U O-EO O-E O-YE O-O O-U YO-YEO YO-O U-A U-AE U-EO-EU U-YE U-U YU-A YU-EO YU-E YU-U EU-U ',
+  'EU-EU YI-U I-A I-YA I-O I-U I-EU I-ARAEA ARAEA-EO ARAEA-U ARAEA-I SSANGARAEA A-EU YA-U YEO-YA O-',
+  'YA O-YAE KIYEOK-RIEUL KIYEOK-SIOS-KIYEOK NIEUN-THIEUTH RIEUL-TIKEUT-HIEUH RIEUL-MIEUM-KIYEOK RIE',
+  'UL-MIEUM-SIOS RIEUL-PIEUP-HIEUH RIEUL-SSANGSIOS MIEUM-RIEUL MIEUM-SSANGSIOS MIEUM-CHIEUCH MIEUM-',
+  'HIEUH PIEUP-RIEUL YESIEUNG-KIYEOK IEUNG-SSANGKIYEOK YESIEUNG-SSANGKIYEOK SSANGYESIEUNG IEUNG-KHI',
+  'EUKH YESIEUNG-KHIEUKH HIEUH-NIEUN HIEUH-RIEUL HIEUH-MIEUM HIEUH-PIEUP KIYEOK-NIEUN KIYEOK-PIEUP ',
+  'KIYEOK-CHIEUCH KIYEOK-KHIEUKH KIYEOK-HIEUH HOA HHU HHI HHEE HHE HHO SZA SZU SZI SZAA SZEE SZE SZ',
+  'O SZWA QEE QOA QWA QWAA QHA QHU QHI QHAA QHEE QHE QHO QHWA QHWI QHWAA QHWEE QHWE VWA XU XAA XEE ',
+  'XOA XWA XWI XWAA XWEE XWE NYWA KOA KXU KXI KXAA KXEE KXE KXO KXWA KXWI KXWAA KXWEE KXWE WOA ZWA ',
+  'ZHAA ZHWA YOA DWA DDEE DDWA GOA GWAA GGAA GGEE GGWAA CHWA PHU PHEE PHWA TSAA TSWA TZA TZU TZI TZ',
+  'AA TZEE TZE TZO TZOA RYA FYA WORDSPACE PREFACE BWE FWE YIZET DERET DIFAT KENAT CHIRET HIDET DERE',
+  'T-HIDET KURT PAAI TAAI TII KAAI KII KIH KOH CAAI CII MAAI MII MH NAAI NH LAAI LII SAAI MOOSE-CRE',
+  'E SK SKW S-W SPWA STWA SKWA SCWA YAAI YII BIBLE-CREE RAAI FAAI FII TTH TYE TYI TYO TYA NUNAVUT H',
+  'K QAAI NGAAI NGII NGOO NNG LHII LHOO AIVILIK GHU GHEE GHI HWU HWO HWEE HWI HWA TTU TTEE KHU KHEE',
+  ' KKU KKO KKE KKEE KKI JJE JJEE DLU DLO DLEE DLI LHU LHE LHEE TLHU TLHEE TLEE TTSU TTSO TTSE TTSE',
+  'E TTSI TTSA NGAI NNGI NNGII NNGO NNGOO NNGA NNGAA THWEE THWI THWII THWO THWOO BEITH LUIS FEARN S',
+  'AIL NION UATH DAIR TINNE COLL CEIRT MUIN GORT NGEADAL STRAIF RUIS AILM EADHADH IODHADH EABHADH U',
+  'ILLEANN IFIN EAMHANCHOLL PEITH FEHU FEOH URUZ THURISAZ THURS ANSUZ LONG-BRANCH-OSS SHORT-TWIG-OS',
+  'S RAIDO REID KAUNA CEN KAUN GEBO GYFU WUNJO HAGLAZ HAEGL LONG-BRANCH-HAGALL SHORT-TWIG-HAGALL NA',
+  'UDIZ NYD NAUD SHORT-TWIG-NAUD DOTTED-N ISAZ ISS JERAN GER LONG-BRANCH-AR SHORT-TWIG-AR IWAZ EOH ',
+  'PERTHO PEORTH ALGIZ EOLHX SOWILO SIGEL LONG-BRANCH-SOL SHORT-TWIG-SOL TIWAZ TYR SHORT-TWIG-TYR B',
+  'ERKANAN BEORC BJARKAN SHORT-TWIG-BJARKAN DOTTED-P OPEN-P EHWAZ MANNAZ LONG-BRANCH-MADR SHORT-TWI',
+  'G-MADR LAUKAZ LAGU LOGR DOTTED-L INGWAZ DAGAZ DAEG OTHALAN ETHEL IOR CWEORTH CALC CEALC STAN LON',
+  'G-BRANCH-YR SHORT-TWIG-YR ICELANDIC-YR ARLAUG TVIMADUR BELGTHOR NNO QAQ QUK QUUV RYY LYY QAU NIK',
+  'AHIT REAHMUK YUUKALEAPINTU MUUSIKATOAN TRIISAP BANTOC ROBAT TOANDAKHIAT KAKABAT AHSDA SAMYOK SAN',
+  'NYA VIRIAM COENG BATHAMASAT KHAN BARIYOOSAN CAMNUC KUUH BEYYAL PHNAEK KOOMUUT RIEL AVAKRAHASANYA',
+  ' ATTHACAN SON BOUNDARY NIRUGU FVS1 FVS2 FVS3 MVS FVS4 ZRA JIA NIA DAMARU DAGALGA POY PAY PWOY TA',
+  'Y KWAY NOY NAY LAY SOY SHAY SHWOY YOY RWEE RWI RWII RWO RWOO RWE THWE TTHWE TTHOO TLHWE TLHOO GW',
+  'U JUU VOWEL-CARRIER GYAN MUKPHRENG KEMPHRENG SA-I SHORTENER UEY LAEV PATHAMASAT TUTEYASAT NYCA P',
+  'ALLAWA RATA RUE TANG SAKOT HAAM KHUEN-LUE KARAN WIANG WIANGWAAK SAWAN KEOW HOY DOKMAI YAMOK KAAN',
+  ' KAANKUU SATKAAN SATKAANKUU HANG CAANG DIAERESIS-RING X-X BRACKETS RICEM CECEK BISAH EKARA AIKAR',
+  'A GORA LACA JERA LATIK ALPAPRANA RAMBAT TAWA MADU KAPAL KEMBANG SAGA SAPA REREKAN ILUT KHOT TZIR',
+  ' ASYURA PAMUNGKAH SIKI PAREREN PAMENENG DENG DING DAENG DEUNG DAING GEDE TEGEH ENDEP BENDE GONG ',
+  'TAK PANG PUNG PLAK PLUK PANYECEK PANGLAYAR PANGWISAD PAMINGKAL PANYAKRA PANYIKU PANGHULU PANYUKU',
+  ' PANAELAENG PANOLONG PAMEPET PANEULEUNG PAMAAEH SYA REU TOMPI PANONGONAN METEK PINARBORAS JUDUL ',
+  'KLA GLA FLA BLA NYIN-DO RAN THYOOM AAK AAJ AAM AAW INY EDD OTT OB TTUDDAG GAAHLAA MU-GAAHLAA REL',
+  'AA PHAARKAA AHAD LONG-LEGGED THREE-LEGGED UNBLENDED SURYA PANGLONG PURNAMA KARSHANA SHARA PRENKH',
+  'A NIHSHVASA AGGRAVATED SCHROEDER RIGVEDIC ATHARVAVEDIC BAHIRGOMUKHA TIRYAK HEXIFORM RTHANG UBHAY',
+  'ATO MUKHA ATIKRAMA DIAERESIZED LARYNGEAL SPIRANT STRIKETHROUGH MACRON-ACUTE GRAVE-MACRON MACRON-',
+  'GRAVE ACUTE-MACRON GRAVE-ACUTE-GRAVE ACUTE-GRAVE-ACUTE BREVE-MACRON MACRON-BREVE DELETION THREE-',
+  'PER-EM FOUR-PER-EM SIX-PER-EM ZWSP NON-JOINER ZWNJ LRM RLM NON-BREAKING LRE RLE PDF FORMATTING L',
+  'RO RLO NNBSP REFERENCE ASTERISM ASTERISKS ALIGNED SWUNG MMSP WJ LRI RLI FSI PDI NOMINAL EURO-CUR',
+  'RENCY CRUZEIRO FRANC MILL NAIRA PESETA SHEQEL TUGRIK GERMAN PENNY GUARANI AUSTRAL HRYVNIA CEDI L',
+  'IVRE TOURNOIS SPESMILO TENGE INDIAN TURKISH NORDIC MANAT RUBLE LARI BITCOIN ANNUITY UNDERDOT ADD',
+  'RESSED SUBJECT CELSIUS CARE CADA UNA EULER SCRUPLE FAHRENHEIT NUMERO RECORDING WEIERSTRASS ELLIP',
+  'TIC PRESCRIPTION TAKE SERVICE TRADE VERSICLE KELVIN ANGSTROM ESTIMATED FACSIMILE PROPERTY AKTIES',
+  'ELSKAB SEVENTH NINTH LATE EARLY COMPLEMENT EXISTS EXIST INCREMENT PROOF MINUS-OR-PLUS PROPORTION',
+  'AL DIVIDES VOLUME THEREFORE BECAUSE RATIO EXCESS GEOMETRIC SINE WREATH DIFFERENCE APPROACHES LIM',
+  'IT CORRESPONDS ESTIMATES EQUIANGULAR DEFINITION QUESTIONED STRICTLY ASSERTION MODELS FORCES PROV',
+  'E FORCE HERMITIAN CONJUGATE MATRIX INTERCALATE XOR NAND MEMBERSHIP DIAMETER PROJECTIVE PERSPECTI',
+  'VE SECTOR RECORDER VIEWDATA INTEREST OPTION CYLINDRICITY AROUND-PROFILE SYMMETRY RUNOUT DIMENSIO',
+  'N ORIGIN CONICAL TAPER SLOPE COUNTERBORE COUNTERSINK I-BEAM SQUISH ZILDE SHOULDERED CONTINUOUS D',
+  'ISCONTINUOUS HELM NORTHWEST UNDO MONOSTABLE HYSTERESIS H-TYPE L-TYPE PASSIVE-PULL-DOWN-OUTPUT PA',
+  'SSIVE-PULL-UP-OUTPUT SOFTWARE-FUNCTION PREVIOUS CLEAR LINE-1 LINE-3 LINE-7 LINE-9 EJECT FUSE TRA',
+  'PEZIUM STRAIGHTNESS FLATNESS ELECTRICAL EXPONENT ALARM STOPWATCH TIMER FLOWING SAND ON-OFF SLEEP',
+  ' OBSERVER BUCKLE AMOUNT CUSTOMER ORTHOGONAL FISHEYE BULLSEYE BISECTING COMET THUNDERSTORM CONJUN',
+  'CTION DROPS SHAMROCK CAUTION RADIOACTIVE BIOHAZARD ANKH ORTHODOX LORRAINE JERUSALEM ADI SHAKTI S',
+  'ICKLE DHARMA JUPITER SATURN ARIES TAURUS GEMINI CANCER LEO VIRGO LIBRA SCORPIUS SAGITTARIUS CAPR',
+  'ICORN AQUARIUS PISCES SPRINGS TYPE-1 TYPE-2 TYPE-7 GENERIC MATERIALS RECYCLED PARTIALLY-RECYCLED',
+  ' PERMANENT FACE-1 FACE-2 FACE-3 FACE-4 FACE-5 FACE-6 SWORDS AESCULAPIUS SCALES HERMES ATOM FLEUR',
+  '-DE-LIS WARNING VOLTAGE INTERLOCKED MARRIAGE DIVORCE UNMARRIED COFFIN FUNERAL URN NEUTER CERES P',
+  'ALLAS JUNO VESTA CHIRON LILITH SEXTILE SEMISEXTILE QUINCUNX SESQUIQUADRATE SOCCER BASEBALL DISAB',
+  'LED OPHIUCHUS SLIDING CHAINS ONE-WAY ENTRY-1 ENTRY-2 ASTRONOMICAL RIGHT-HANDED LEFT-HANDED SHINT',
+  'O SHRINE HISTORIC SITE HUB HANDLES LIGHTHOUSE FERRY SAILBOAT SKIER GRAVEYARD FUEL PUMP STRIPE MA',
+  'LTESE DAVID CLUB-SPOKED SPARKLES TRIFOLIATE DRAFTING ROUND-TIPPED BOTTOM-LIGHTED CONCAVE-POINTED',
+  ' WHITE-FEATHERED TEARDROP-BARBED TEARDROP-SHANKED OPEN-OUTLINED DIMENSIONAL RULE DOTS-1 DOTS-2 D',
+  'OTS-12 DOTS-3 DOTS-13 DOTS-23 DOTS-123 DOTS-4 DOTS-14 DOTS-24 DOTS-124 DOTS-34 DOTS-134 DOTS-234',
+  ' DOTS-1234 DOTS-5 DOTS-15 DOTS-25 DOTS-125 DOTS-35 DOTS-135 DOTS-235 DOTS-1235 DOTS-45 DOTS-145 ',
+  'DOTS-245 DOTS-1245 DOTS-345 DOTS-1345 DOTS-2345 DOTS-12345 DOTS-6 DOTS-16 DOTS-26 DOTS-126 DOTS-',
+  '36 DOTS-136 DOTS-236 DOTS-1236 DOTS-46 DOTS-146 DOTS-246 DOTS-1246 DOTS-346 DOTS-1346 DOTS-2346 ',
+  'DOTS-12346 DOTS-56 DOTS-156 DOTS-256 DOTS-1256 DOTS-356 DOTS-1356 DOTS-2356 DOTS-12356 DOTS-456 ',
+  'DOTS-1456 DOTS-2456 DOTS-12456 DOTS-3456 DOTS-13456 DOTS-23456 DOTS-123456 DOTS-7 DOTS-17 DOTS-2',
+  '7 DOTS-127 DOTS-37 DOTS-137 DOTS-237 DOTS-1237 DOTS-47 DOTS-147 DOTS-247 DOTS-1247 DOTS-347 DOTS',
+  '-1347 DOTS-2347 DOTS-12347 DOTS-57 DOTS-157 DOTS-257 DOTS-1257 DOTS-357 DOTS-1357 DOTS-2357 DOTS',
+  '-12357 DOTS-457 DOTS-1457 DOTS-2457 DOTS-12457 DOTS-3457 DOTS-13457 DOTS-23457 DOTS-123457 DOTS-',
+  '67 DOTS-167 DOTS-267 DOTS-1267 DOTS-367 DOTS-1367 DOTS-2367 DOTS-12367 DOTS-467 DOTS-1467 DOTS-2',
+  '467 DOTS-12467 DOTS-3467 DOTS-13467 DOTS-23467 DOTS-123467 DOTS-567 DOTS-1567 DOTS-2567 DOTS-125',
+  '67 DOTS-3567 DOTS-13567 DOTS-23567 DOTS-123567 DOTS-4567 DOTS-14567 DOTS-24567 DOTS-124567 DOTS-',
+  '34567 DOTS-134567 DOTS-234567 DOTS-1234567 DOTS-8 DOTS-18 DOTS-28 DOTS-128 DOTS-38 DOTS-138 DOTS',
+  '-238 DOTS-1238 DOTS-48 DOTS-148 DOTS-248 DOTS-1248 DOTS-348 DOTS-1348 DOTS-2348 DOTS-12348 DOTS-',
+  '58 DOTS-158 DOTS-258 DOTS-1258 DOTS-358 DOTS-1358 DOTS-2358 DOTS-12358 DOTS-458 DOTS-1458 DOTS-2',
+  '458 DOTS-12458 DOTS-3458 DOTS-13458 DOTS-23458 DOTS-123458 DOTS-68 DOTS-168 DOTS-268 DOTS-1268 D',
+  'OTS-368 DOTS-1368 DOTS-2368 DOTS-12368 DOTS-468 DOTS-1468 DOTS-2468 DOTS-12468 DOTS-3468 DOTS-13',
+  '468 DOTS-23468 DOTS-123468 DOTS-568 DOTS-1568 DOTS-2568 DOTS-12568 DOTS-3568 DOTS-13568 DOTS-235',
+  '68 DOTS-123568 DOTS-4568 DOTS-14568 DOTS-24568 DOTS-124568 DOTS-34568 DOTS-134568 DOTS-234568 DO',
+  'TS-1234568 DOTS-78 DOTS-178 DOTS-278 DOTS-1278 DOTS-378 DOTS-1378 DOTS-2378 DOTS-12378 DOTS-478 ',
+  'DOTS-1478 DOTS-2478 DOTS-12478 DOTS-3478 DOTS-13478 DOTS-23478 DOTS-123478 DOTS-578 DOTS-1578 DO',
+  'TS-2578 DOTS-12578 DOTS-3578 DOTS-13578 DOTS-23578 DOTS-123578 DOTS-4578 DOTS-14578 DOTS-24578 D',
+  'OTS-124578 DOTS-34578 DOTS-134578 DOTS-234578 DOTS-1234578 DOTS-678 DOTS-1678 DOTS-2678 DOTS-126',
+  '78 DOTS-3678 DOTS-13678 DOTS-23678 DOTS-123678 DOTS-4678 DOTS-14678 DOTS-24678 DOTS-124678 DOTS-',
+  '34678 DOTS-134678 DOTS-234678 DOTS-1234678 DOTS-5678 DOTS-15678 DOTS-25678 DOTS-125678 DOTS-3567',
+  '8 DOTS-135678 DOTS-235678 DOTS-1235678 DOTS-45678 DOTS-145678 DOTS-245678 DOTS-1245678 DOTS-3456',
+  '78 DOTS-1345678 DOTS-2345678 DOTS-12345678 RIGHT-SIDE LEFT-SIDE SPOT SUPERIMPOSED ANTICLOCKWISE-',
+  'ROTATED INCOMPLETE DOUBLE-ENDED CONTOURED OUTLINE INCREASES SHUFFLE GLEICH STARK THERMODYNAMIC R',
+  'ULE-DELAYED MINY MODULO FINITE AVERAGE CIRCULATION INCLUDING QUATERNION PIPING PROJECTION VECTOR',
+  ' RIGHTHAND RELATIONAL AMALGAMATION DOMAIN CONGRUENT BUMPY TRANSVERSAL FORKING NONFORKING NEGATIO',
+  'N ELECTRONICS RIGHT-LIGHTED LEFT-LIGHTED UNCERTAINTY TRANSPLUTO PROSERPINA ASTRAEA HYGIEA PHOLUS',
+  ' NESSUS SELENA ARTA CUPIDO HADES ZEUS KRONOS APOLLON ADMETOS VULCANUS POSEIDON SEDNA VIGINTILE N',
+  'OVILE QUINTILE BINOVILE SENTAGON TREDECILE UNITED SEPARATED PASSED HELLSCHREIBER PAUSE TAILLESS ',
+  'STAUROS ASPER INDIRECT MORPHOLOGICAL YAB YABH YAG YAGHH YAD YADH YADD YADDH YEY YAF YAKHH YAHH A',
+  'HAGGAR YAL YAGN YARR AYER YAS YASS YASH YATH YACH YATT YAV YAW TAWELLEMET YAZZ LABIALIZATION LOA',
+  ' MOA ROA SOA SHOA BOA TOA COA NOA NYOA ZOA DOA DDOA JOA THOA CHOA PHOA POA GGWA GGWI GGWEE GGWE ',
+  'SSAA SSEE CCA CCU CCI CCAA CCEE CCE CCO ZZAA ZZEE CCHA CCHU CCHI CCHAA CCHEE CCHO QYA QYU QYI QY',
+  'AA QYEE QYE QYO KYU KYI KYAA KYE KYO XYU XYI XYAA XYEE XYO GYA GYU GYI GYAA GYEE GYE GYO ES-TE E',
+  'DITORIAL CORONIS HYPODIASTOLE OBELOS TWO-EM THREE-EM STENOGRAPHIC CAPITULUM LOW-REVERSED-9 STACK',
+  'ED PARAGRAPHUS PUNCTUS ELEVATUS CORNISH CHOKE CIVILIAN LEGS WRAP HIDING AGAIN SCHOLAR SLOWLY EVE',
+  'NING ROOF INCH CORPSE SPROUT RIVER ONESELF STRIDE SHOOT BRISTLE HALBERD DIPPER LACK WEAPON COMPA',
+  'RE CLAW FANG PROFOUND LIFE SICKNESS SKIN GRAIN CAVE STAND PLOW MINISTER ARRIVE OPPOSE STOPPING C',
+  'OLOR INSECT VALLEY BEAN RUN BITTER MORNING DISTINGUISH VILLAGE SLAVE WRONG LEEK FRAGRANT FIGHT S',
+  'ACRIFICIAL HEMP MILLET EMBROIDERY TRIPOD DITTO INDUSTRIAL GETA ENTERING MASU ALTERNATION YORI ZH',
+  ' GN ARAEAE LINKING ANN INN NGG AINN AUNN INNN GH GW WG XG BXG HZZ HZG HZWG SZWG HZT HZZP HPWG HZ',
+  'W HZZZ SZ SWZ SG PD PZ TN SZZ SWG HXWG HZZZG PG OJEON REPRESENT FESTIVAL KINDERGARTEN CHAMKO JUE',
+  'UI SECRET SUITABLE EXCELLENT ATTENTION ITEM COPY CORRECT MEDICINE RELIGION JANUARY FEBRUARY MARC',
+  'H APRIL JUNE JULY AUGUST SEPTEMBER OCTOBER NOVEMBER DECEMBER ERG LIMITED LIABILITY REIWA APAATO ',
+  'ARUHUA ANPEA AARU ININGU INTI UON ESUKUUDO EEKAA ONSU OOMU KAIRI KARATTO KARORII GARON GANMA GIG',
+  'A GINII KYURII GIRUDAA KIRO KIROGURAMU KIROMEETORU KIROWATTO GURAMU GURAMUTON KURUZEIRO KUROONE ',
+  'KEESU KORUNA KOOPO SAIKURU SANTIIMU SIRINGU SENTI SENTO DAASU DESI DORU TON NANO NOTTO HAITU PAA',
+  'SENTO PAATU BAARERU PIASUTORU PIKURU PIKO BIRU HUARADDO HUIITO BUSSYERU HURAN HEKUTAARU PENIHI H',
+  'ERUTU PENSU PEEZI BEETA POINTO BORUTO PONDO HOORU HOON MAIKURO MAIRU MAHHA MARUKU MANSYON MIKURO',
+  'N MIRI MIRIBAARU MEGATON MEETORU YAADO YAARU YUAN RITTORU RIRA RUPII RUUBURU REMU RENTOGEN WATTO',
+  ' HPA PC HEISEI SYOUWA TAISYOU MEIZI CORPORATION AMPS KB GB CAL KCAL PF NF MG KHZ MHZ GHZ THZ ML ',
+  'DL KL FM NM GPA PS NS MS PV KV PW NW BQ GY KT LM LN LOG LX MIL MOL PH PPM PR SR WB TWENTY-SIX TW',
+  'ENTY-SEVEN TWENTY-EIGHT TWENTY-NINE THIRTY-ONE CREATIVE RECEPTIVE DIFFICULTY BEGINNING YOUTHFUL ',
+  'FOLLY CONFLICT ARMY TREADING STANDSTILL FELLOWSHIP MODESTY ENTHUSIASM DECAYED APPROACH CONTEMPLA',
+  'TION SPLITTING APART INNOCENCE ABYSMAL CLINGING INFLUENCE DURATION RETREAT PROGRESS OBSTRUCTION ',
+  'DELIVERANCE BREAKTHROUGH COMING PUSHING OPPRESSION WELL REVOLUTION AROUSING STILL DEVELOPMENT MA',
+  'RRYING MAIDEN ABUNDANCE WANDERER GENTLE JOYOUS DISPERSION LIMITATION TRUTH AFTER BEFORE IP IET I',
+  'EX IEP UOX UOP BIX BIP BIET BIEX BIE BIEP BAX BAP BUOX BUO BUOP BOT BOP BEX BEP BUX BUP BURX BYT',
+  ' BYX BYP BYRX BYR PIX PIEX PIEP PAT PAX PUOX PUO PUOP POX PUX PURX PUR PYX PY PYP PYRX PYR BBIT ',
+  'BBIX BBIP BBIET BBIEX BBIE BBIEP BBAT BBAX BBAP BBUOX BBUO BBUOP BBOT BBOX BBOP BBEX BBEP BBUX B',
+  'BUP BBURX BBUR BBYT BBYX BBY BBYP NBIT NBIX NBI NBIP NBIEX NBIEP NBAT NBAX NBA NBAP NBOT NBOX NB',
+  'O NBOP NBUT NBUX NBU NBUP NBURX NBUR NBYT NBYX NBY NBYP NBYRX NBYR HMIT HMIX HMI HMIP HMIEX HMIE',
+  ' HMIEP HMAT HMAX HMA HMAP HMUOX HMUO HMUOP HMOT HMOX HMOP HMUT HMUX HMU HMUP HMURX HMUR HMYX HMY',
+  ' HMYP HMYRX HMYR MIX MIP MIEX MIE MIEP MAT MAX MUOT MUOX MUO MUOP MOT MOX MEX MUT MUX MUP MURX M',
+  'UR MYT MYX MYP FIT FIX FIP FAT FAP FOP FUT FUX FUP FURX FYT FYX FY FYP VIT VIX VIP VIEX VIE VIEP',
+  ' VAT VAX VAP VOT VOX VOP VEX VUT VUX VUP VURX VYT VYX VYP VYRX VYR DIT DIX DIP DIEX DIEP DAX DUO',
+  'X DUO DOX DOP DEX DEP DUT DUX DUP DURX DUR TIX TIEX TIEP TAX TAP TUOX TUO TUOP TOX TEX TEP TUT T',
+  'UX TURX DDIT DDIX DDIP DDIEX DDIE DDIEP DDAT DDAX DDAP DDUOX DDUO DDUOP DDOT DDOX DDOP DDEX DDEP',
+  ' DDUT DDUX DDUP DDURX NDIT NDIX NDIP NDIEX NDIE NDAT NDAX NDOT NDOX NDOP NDEX NDEP NDUT NDUX NDU',
+  'P NDURX NDUR HNIT HNIX HNI HNIP HNIET HNIEX HNIE HNIEP HNAT HNAX HNAP HNUOX HNUO HNOT HNOX HNOP ',
+  'HNEX HNE HNEP HNUT NIT NIX NIP NIEX NIE NIEP NAX NAP NUOX NUO NUOP NOX NOP NEX NEP NUX NUP NURX ',
+  'NUR HLIT HLIX HLIP HLIEX HLIE HLIEP HLAT HLAX HLAP HLUOX HLUO HLUOP HLOX HLO HLOP HLEX HLE HLEP ',
+  'HLUT HLUX HLU HLUP HLURX HLUR HLYT HLYX HLY HLYP HLYRX HLYR LIT LIX LIET LIEX LIEP LAT LAX LUOT ',
+  'LUOX LUO LUOP LOT LOX LOP LEX LEP LUT LUX LUP LURX LUR LYT LYX LYP LYRX GIT GIX GIP GIET GIEX GI',
+  'E GIEP GAT GAX GUOT GUOX GUO GUOP GOX GOP GET GEX GUT GUX GUP GURX KIX KIEX KIE KIEP KAT KAX KUO',
+  'X KUO KOT KOX KOP KEX KEP KUX KUP KURX GGIT GGIX GGIEX GGIE GGIEP GGAT GGAX GGAP GGUOT GGUOX GGU',
+  'OP GGOT GGOX GGET GGEX GGEP GGUT GGUX GGUP GGURX GGUR MGIEX MGIE MGAT MGAX MGA MGAP MGUOX MGUO M',
+  'GUOP MGOT MGOX MGOP MGEX MGE MGEP MGUT MGUX MGU MGUP MGURX MGUR HXIX HXI HXIP HXIET HXIEX HXIE H',
+  'XIEP HXAT HXAX HXA HXAP HXUOT HXUOX HXUOP HXOT HXOX HXO HXEX HXE HXEP NGIEX NGIE NGIEP NGAT NGAX',
+  ' NGAP NGUOT NGUOX NGUO NGOT NGOX NGEX NGEP HIEX HAX HAP HUOT HUOX HUO HUOP HOX HEX HEP WAT WUOX ',
+  'WUOP WOX WOP WEX WEP ZIT ZIX ZIP ZIEX ZIE ZIEP ZAT ZAX ZAP ZUOX ZUO ZUOP ZOX ZOP ZEX ZEP ZUT ZUX',
+  ' ZURX ZYT ZYX ZYP ZYRX ZYR CIT CIX CIET CIEX CIE CIEP CAX CUOX CUO COT COX COP CEX CEP CUX CURX ',
+  'CUR CYX CYRX CYR ZZIT ZZIX ZZIP ZZIEX ZZIE ZZIEP ZZAT ZZAX ZZAP ZZOX ZZOP ZZEX ZZEP ZZUX ZZUP ZZ',
+  'URX ZZUR ZZYT ZZYX ZZY ZZYP ZZYRX ZZYR NZIT NZIX NZI NZIP NZIEX NZIE NZIEP NZAT NZAX NZAP NZUOX ',
+  'NZUO NZOX NZOP NZEX NZE NZUX NZU NZURX NZUR NZYT NZYX NZY NZYP NZYRX NZYR SIT SIP SIEX SIE SIEP ',
+  'SAX SUOX SUO SUOP SOX SOP SEX SEP SUT SUX SUP SURX SYT SYX SY SYP SYRX SYR SSIT SSIX SSIP SSIEX ',
+  'SSIE SSIEP SSAT SSAX SSAP SSOT SSOX SSOP SSEX SSEP SSUT SSUX SSUP SSYT SSYX SSY SSYP SSYRX SSYR ',
+  'ZHAT ZHAX ZHAP ZHUOX ZHUO ZHUOP ZHOT ZHOX ZHOP ZHET ZHEX ZHEP ZHUT ZHUX ZHUP ZHURX ZHUR ZHYT ZHY',
+  'X ZHY ZHYP ZHYRX ZHYR CHAX CHAP CHUOT CHUOX CHUO CHUOP CHOT CHOX CHOP CHET CHEX CHEP CHUX CHUP C',
+  'HURX CHUR CHYT CHYX CHY CHYP CHYRX CHYR RRAX RRUOX RRUO RROT RROX RROP RRET RREX RREP RRUT RRUX ',
+  'RRU RRUP RRURX RRUR RRYT RRYX RRY RRYP RRYRX RRYR NRAT NRAX NRAP NROX NRO NROP NRET NREX NRE NRE',
+  'P NRUT NRUX NRU NRUP NRURX NRUR NRYT NRYX NRY NRYP NRYRX NRYR SHAX SHAP SHUOX SHUO SHUOP SHOT SH',
+  'OX SHEX SHEP SHUT SHUX SHUP SHURX SHYT SHYX SHYP SHYRX SHYR RAX RUOX RUO RUOP ROT ROX ROP REX RE',
+  'P RUT RUX RUP RURX RUR RYT RYX RYP RYRX RYR JIT JIX JIP JIET JIEX JIE JIEP JUOT JUOX JUO JUOP JO',
+  'X JOP JUT JUX JUP JURX JUR JYT JYX JY JYP JYRX JYR QIT QIX QIP QIET QIEX QIE QIEP QUOT QUOX QUOP',
+  ' QOX QOP QUT QUX QUP QURX QUR QYT QYX QY QYP QYRX QYR JJIT JJIX JJIP JJIET JJIEX JJIEP JJUOX JJU',
+  'O JJUOP JJOT JJOX JJOP JJUX JJUP JJURX JJUR JJYT JJYX JJYP NJIT NJIX NJIP NJIET NJIEX NJIE NJIEP',
+  ' NJUOX NJUO NJOT NJOX NJOP NJUX NJUP NJURX NJUR NJYT NJYX NJY NJYP NJYRX NJYR NYIX NYIET NYIEX N',
+  'YIE NYIEP NYUOX NYUO NYUOP NYOT NYOX NYUT NYUX NYUP XIT XIX XIP XIET XIEX XIE XIEP XUOX XUO XOT ',
+  'XOX XOP XYT XYX XY XYP XYRX XYR YIX YIP YIET YIEX YIEP YUOT YUOX YUO YOX YOP YUX YUP YURX YUR YY',
+  'T YYX YYP YYRX YYR JEU EEN WEEN BHEE MGBEE DHEE DHHEE WIN BHI MGBI DHI DHHI NGAN WAN KPAN DHHA O',
+  'ON WOON BHOO MGBOO DHOO DHHOO ZHOO GOO NYOO WUN BHU MGBU DHU DHHU MGBO GBON DHHO WEN KPEN MGBE G',
+  'BEN DHHE GEN FEENG KEENG TING BANG DOONG KUNG TONG DO-O JONG MULTIOCULAR VZMET SLAVONIC FAAMAE K',
+  'OVUU KOGHOM KOQNDON TUKWENTIS DUM MUM NUM SINOLOGICAL DVISVARA JHO MARK-4 QUANTITY VOICELESS ASP',
+  'IRATED SUPERFIXED HAARU PUSHPIKA JAIN SHYA NYJA TIKEUT-MIEUM RIEUL-SSANGTIKEUT RIEUL-SSANGPIEUP ',
+  'RIEUL-CIEUC MIEUM-TIKEUT PIEUP-SIOS-THIEUTH PIEUP-KHIEUKH SSANGSIOS-PIEUP IEUNG-RIEUL IEUNG-HIEU',
+  'H SSANGCIEUC-HIEUH SSANGTHIEUTH PHIEUPH-HIEUH HIEUH-SIOS SSANGYEORINHIEUH PANYANGGA LAYAR WIGNYA',
+  'N KAWI CEREK RASWADI AGUNG TELU TARUNG TOLONG MELIK MENDUT DIRGA MURE KERET PENGKAL PANGKON ANDA',
+  'P MADYA LUHUR PANGKAT LINGSA LUNGSI PANGRANGKEP TIRTA TUMETES ISEN-ISEN NGUE CHHA NHUE NHJA NUE ',
+  'PPA MUE QN HM PAO KHIT UEA SONG HOI AAU CHEIKHAN AHANG KHUDAM TTHU TTHEE DDHU DDHI DDHEE DDHE DZ',
+  'AA CCHHA CCHHU CCHHI CCHHAA CCHHEE CCHHE CCHHO BBAA BBEE REVERSED-SCHWA STIRRUP SAKHA CHIL KHOU ',
+  'THOU WAI HUK PHAM ATIYA GOK JHAM RAI DIL GHOU DHOU BHAM ONAP INAP ANAP YENAP SOUNAP UNAP CHEINAP',
+  ' CHEIKHEI APUN O-YEO O-O-I YO-A YO-AE YO-EO U-YEO U-I-I YU-AE YU-O EU-A EU-EO EU-E EU-O I-YA-O I',
+  '-YAE I-YEO I-YE I-O-I I-YO I-YU I-I ARAEA-A ARAEA-E NIEUN-RIEUL NIEUN-CHIEUCH SSANGTIKEUT-PIEUP ',
+  'TIKEUT-SIOS-KIYEOK TIKEUT-CHIEUCH TIKEUT-THIEUTH RIEUL-KIYEOK-HIEUH SSANGRIEUL-KHIEUKH RIEUL-MIE',
+  'UM-HIEUH RIEUL-PIEUP-TIKEUT RIEUL-PIEUP-PHIEUPH RIEUL-YESIEUNG RIEUL-YEORINHIEUH-HIEUH MIEUM-NIE',
+  'UN MIEUM-SSANGNIEUN SSANGMIEUM MIEUM-PIEUP-SIOS MIEUM-CIEUC PIEUP-RIEUL-PHIEUPH PIEUP-MIEUM SIOS',
+  '-KAPYEOUNPIEUP SSANGSIOS-KIYEOK SSANGSIOS-TIKEUT SIOS-PANSIOS PANSIOS-PIEUP PANSIOS-KAPYEOUNPIEU',
+  'P YESIEUNG-MIEUM YESIEUNG-HIEUH CIEUC-PIEUP CIEUC-SSANGPIEUP PHIEUPH-SIOS PHIEUPH-THIEUTH IDEOGR',
+  'APH-F900 IDEOGRAPH-F901 IDEOGRAPH-F902 IDEOGRAPH-F903 IDEOGRAPH-F904 IDEOGRAPH-F905 IDEOGRAPH-F9',
+  '06 IDEOGRAPH-F907 IDEOGRAPH-F908 IDEOGRAPH-F909 IDEOGRAPH-F90A IDEOGRAPH-F90B IDEOGRAPH-F90C IDE',
+  'OGRAPH-F90D IDEOGRAPH-F90E IDEOGRAPH-F90F IDEOGRAPH-F910 IDEOGRAPH-F911 IDEOGRAPH-F912 IDEOGRAPH',
+  '-F913 IDEOGRAPH-F914 IDEOGRAPH-F915 IDEOGRAPH-F916 IDEOGRAPH-F917 IDEOGRAPH-F918 IDEOGRAPH-F919 ',
+  'IDEOGRAPH-F91A IDEOGRAPH-F91B IDEOGRAPH-F91C IDEOGRAPH-F91D IDEOGRAPH-F91E IDEOGRAPH-F91F IDEOGR',
+  'APH-F920 IDEOGRAPH-F921 IDEOGRAPH-F922 IDEOGRAPH-F923 IDEOGRAPH-F924 IDEOGRAPH-F925 IDEOGRAPH-F9',
+  '26 IDEOGRAPH-F927 IDEOGRAPH-F928 IDEOGRAPH-F929 IDEOGRAPH-F92A IDEOGRAPH-F92B IDEOGRAPH-F92C IDE',
+  'OGRAPH-F92D IDEOGRAPH-F92E IDEOGRAPH-F92F IDEOGRAPH-F930 IDEOGRAPH-F931 IDEOGRAPH-F932 IDEOGRAPH',
+  '-F933 IDEOGRAPH-F934 IDEOGRAPH-F935 IDEOGRAPH-F936 IDEOGRAPH-F937 IDEOGRAPH-F938 IDEOGRAPH-F939 ',
+  'IDEOGRAPH-F93A IDEOGRAPH-F93B IDEOGRAPH-F93C IDEOGRAPH-F93D IDEOGRAPH-F93E IDEOGRAPH-F93F IDEOGR',
+  'APH-F940 IDEOGRAPH-F941 IDEOGRAPH-F942 IDEOGRAPH-F943 IDEOGRAPH-F944 IDEOGRAPH-F945 IDEOGRAPH-F9',
+  '46 IDEOGRAPH-F947 IDEOGRAPH-F948 IDEOGRAPH-F949 IDEOGRAPH-F94A IDEOGRAPH-F94B IDEOGRAPH-F94C IDE',
+  'OGRAPH-F94D IDEOGRAPH-F94E IDEOGRAPH-F94F IDEOGRAPH-F950 IDEOGRAPH-F951 IDEOGRAPH-F952 IDEOGRAPH',
+  '-F953 IDEOGRAPH-F954 IDEOGRAPH-F955 IDEOGRAPH-F956 IDEOGRAPH-F957 IDEOGRAPH-F958 IDEOGRAPH-F959 ',
+  'IDEOGRAPH-F95A IDEOGRAPH-F95B IDEOGRAPH-F95C IDEOGRAPH-F95D IDEOGRAPH-F95E IDEOGRAPH-F95F IDEOGR',
+  'APH-F960 IDEOGRAPH-F961 IDEOGRAPH-F962 IDEOGRAPH-F963 IDEOGRAPH-F964 IDEOGRAPH-F965 IDEOGRAPH-F9',
+  '66 IDEOGRAPH-F967 IDEOGRAPH-F968 IDEOGRAPH-F969 IDEOGRAPH-F96A IDEOGRAPH-F96B IDEOGRAPH-F96C IDE',
+  'OGRAPH-F96D IDEOGRAPH-F96E IDEOGRAPH-F96F IDEOGRAPH-F970 IDEOGRAPH-F971 IDEOGRAPH-F972 IDEOGRAPH',
+  '-F973 IDEOGRAPH-F974 IDEOGRAPH-F975 IDEOGRAPH-F976 IDEOGRAPH-F977 IDEOGRAPH-F978 IDEOGRAPH-F979 ',
+  'IDEOGRAPH-F97A IDEOGRAPH-F97B IDEOGRAPH-F97C IDEOGRAPH-F97D IDEOGRAPH-F97E IDEOGRAPH-F97F IDEOGR',
+  'APH-F980 IDEOGRAPH-F981 IDEOGRAPH-F982 IDEOGRAPH-F983 IDEOGRAPH-F984 IDEOGRAPH-F985 IDEOGRAPH-F9',
+  '86 IDEOGRAPH-F987 IDEOGRAPH-F988 IDEOGRAPH-F989 IDEOGRAPH-F98A IDEOGRAPH-F98B IDEOGRAPH-F98C IDE',
+  'OGRAPH-F98D IDEOGRAPH-F98E IDEOGRAPH-F98F IDEOGRAPH-F990 IDEOGRAPH-F991 IDEOGRAPH-F992 IDEOGRAPH',
+  '-F993 IDEOGRAPH-F994 IDEOGRAPH-F995 IDEOGRAPH-F996 IDEOGRAPH-F997 IDEOGRAPH-F998 IDEOGRAPH-F999 ',
+  'IDEOGRAPH-F99A IDEOGRAPH-F99B IDEOGRAPH-F99C IDEOGRAPH-F99D IDEOGRAPH-F99E IDEOGRAPH-F99F IDEOGR',
+  'APH-F9A0 IDEOGRAPH-F9A1 IDEOGRAPH-F9A2 IDEOGRAPH-F9A3 IDEOGRAPH-F9A4 IDEOGRAPH-F9A5 IDEOGRAPH-F9',
+  'A6 IDEOGRAPH-F9A7 IDEOGRAPH-F9A8 IDEOGRAPH-F9A9 IDEOGRAPH-F9AA IDEOGRAPH-F9AB IDEOGRAPH-F9AC IDE',
+  'OGRAPH-F9AD IDEOGRAPH-F9AE IDEOGRAPH-F9AF IDEOGRAPH-F9B0 IDEOGRAPH-F9B1 IDEOGRAPH-F9B2 IDEOGRAPH',
+  '-F9B3 IDEOGRAPH-F9B4 IDEOGRAPH-F9B5 IDEOGRAPH-F9B6 IDEOGRAPH-F9B7 IDEOGRAPH-F9B8 IDEOGRAPH-F9B9 ',
+  'IDEOGRAPH-F9BA IDEOGRAPH-F9BB IDEOGRAPH-F9BC IDEOGRAPH-F9BD IDEOGRAPH-F9BE IDEOGRAPH-F9BF IDEOGR',
+  'APH-F9C0 IDEOGRAPH-F9C1 IDEOGRAPH-F9C2 IDEOGRAPH-F9C3 IDEOGRAPH-F9C4 IDEOGRAPH-F9C5 IDEOGRAPH-F9',
+  'C6 IDEOGRAPH-F9C7 IDEOGRAPH-F9C8 IDEOGRAPH-F9C9 IDEOGRAPH-F9CA IDEOGRAPH-F9CB IDEOGRAPH-F9CC IDE',
+  'OGRAPH-F9CD IDEOGRAPH-F9CE IDEOGRAPH-F9CF IDEOGRAPH-F9D0 IDEOGRAPH-F9D1 IDEOGRAPH-F9D2 IDEOGRAPH',
+  '-F9D3 IDEOGRAPH-F9D4 IDEOGRAPH-F9D5 IDEOGRAPH-F9D6 IDEOGRAPH-F9D7 IDEOGRAPH-F9D8 IDEOGRAPH-F9D9 ',
+  'IDEOGRAPH-F9DA IDEOGRAPH-F9DB IDEOGRAPH-F9DC IDEOGRAPH-F9DD IDEOGRAPH-F9DE IDEOGRAPH-F9DF IDEOGR',
+  'APH-F9E0 IDEOGRAPH-F9E1 IDEOGRAPH-F9E2 IDEOGRAPH-F9E3 IDEOGRAPH-F9E4 IDEOGRAPH-F9E5 IDEOGRAPH-F9',
+  'E6 IDEOGRAPH-F9E7 IDEOGRAPH-F9E8 IDEOGRAPH-F9E9 IDEOGRAPH-F9EA IDEOGRAPH-F9EB IDEOGRAPH-F9EC IDE',
+  'OGRAPH-F9ED IDEOGRAPH-F9EE IDEOGRAPH-F9EF IDEOGRAPH-F9F0 IDEOGRAPH-F9F1 IDEOGRAPH-F9F2 IDEOGRAPH',
+  '-F9F3 IDEOGRAPH-F9F4 IDEOGRAPH-F9F5 IDEOGRAPH-F9F6 IDEOGRAPH-F9F7 IDEOGRAPH-F9F8 IDEOGRAPH-F9F9 ',
+  'IDEOGRAPH-F9FA IDEOGRAPH-F9FB IDEOGRAPH-F9FC IDEOGRAPH-F9FD IDEOGRAPH-F9FE IDEOGRAPH-F9FF IDEOGR',
+  'APH-FA00 IDEOGRAPH-FA01 IDEOGRAPH-FA02 IDEOGRAPH-FA03 IDEOGRAPH-FA04 IDEOGRAPH-FA05 IDEOGRAPH-FA',
+  '06 IDEOGRAPH-FA07 IDEOGRAPH-FA08 IDEOGRAPH-FA09 IDEOGRAPH-FA0A IDEOGRAPH-FA0B IDEOGRAPH-FA0C IDE',
+  'OGRAPH-FA0D IDEOGRAPH-FA0E IDEOGRAPH-FA0F IDEOGRAPH-FA10 IDEOGRAPH-FA11 IDEOGRAPH-FA12 IDEOGRAPH',
+  '-FA13 IDEOGRAPH-FA14 IDEOGRAPH-FA15 IDEOGRAPH-FA16 IDEOGRAPH-FA17 IDEOGRAPH-FA18 IDEOGRAPH-FA19 ',
+  'IDEOGRAPH-FA1A IDEOGRAPH-FA1B IDEOGRAPH-FA1C IDEOGRAPH-FA1D IDEOGRAPH-FA1E IDEOGRAPH-FA1F IDEOGR',
+  'APH-FA20 IDEOGRAPH-FA21 IDEOGRAPH-FA22 IDEOGRAPH-FA23 IDEOGRAPH-FA24 IDEOGRAPH-FA25 IDEOGRAPH-FA',
+  '26 IDEOGRAPH-FA27 IDEOGRAPH-FA28 IDEOGRAPH-FA29 IDEOGRAPH-FA2A IDEOGRAPH-FA2B IDEOGRAPH-FA2C IDE',
+  'OGRAPH-FA2D IDEOGRAPH-FA2E IDEOGRAPH-FA2F IDEOGRAPH-FA30 IDEOGRAPH-FA31 IDEOGRAPH-FA32 IDEOGRAPH',
+  '-FA33 IDEOGRAPH-FA34 IDEOGRAPH-FA35 IDEOGRAPH-FA36 IDEOGRAPH-FA37 IDEOGRAPH-FA38 IDEOGRAPH-FA39 ',
+  'IDEOGRAPH-FA3A IDEOGRAPH-FA3B IDEOGRAPH-FA3C IDEOGRAPH-FA3D IDEOGRAPH-FA3E IDEOGRAPH-FA3F IDEOGR',
+  'APH-FA40 IDEOGRAPH-FA41 IDEOGRAPH-FA42 IDEOGRAPH-FA43 IDEOGRAPH-FA44 IDEOGRAPH-FA45 IDEOGRAPH-FA',
+  '46 IDEOGRAPH-FA47 IDEOGRAPH-FA48 IDEOGRAPH-FA49 IDEOGRAPH-FA4A IDEOGRAPH-FA4B IDEOGRAPH-FA4C IDE',
+  'OGRAPH-FA4D IDEOGRAPH-FA4E IDEOGRAPH-FA4F IDEOGRAPH-FA50 IDEOGRAPH-FA51 IDEOGRAPH-FA52 IDEOGRAPH',
+  '-FA53 IDEOGRAPH-FA54 IDEOGRAPH-FA55 IDEOGRAPH-FA56 IDEOGRAPH-FA57 IDEOGRAPH-FA58 IDEOGRAPH-FA59 ',
+  'IDEOGRAPH-FA5A IDEOGRAPH-FA5B IDEOGRAPH-FA5C IDEOGRAPH-FA5D IDEOGRAPH-FA5E IDEOGRAPH-FA5F IDEOGR',
+  'APH-FA60 IDEOGRAPH-FA61 IDEOGRAPH-FA62 IDEOGRAPH-FA63 IDEOGRAPH-FA64 IDEOGRAPH-FA65 IDEOGRAPH-FA',
+  '66 IDEOGRAPH-FA67 IDEOGRAPH-FA68 IDEOGRAPH-FA69 IDEOGRAPH-FA6A IDEOGRAPH-FA6B IDEOGRAPH-FA6C IDE',
+  'OGRAPH-FA6D IDEOGRAPH-FA70 IDEOGRAPH-FA71 IDEOGRAPH-FA72 IDEOGRAPH-FA73 IDEOGRAPH-FA74 IDEOGRAPH',
+  '-FA75 IDEOGRAPH-FA76 IDEOGRAPH-FA77 IDEOGRAPH-FA78 IDEOGRAPH-FA79 IDEOGRAPH-FA7A IDEOGRAPH-FA7B ',
+  'IDEOGRAPH-FA7C IDEOGRAPH-FA7D IDEOGRAPH-FA7E IDEOGRAPH-FA7F IDEOGRAPH-FA80 IDEOGRAPH-FA81 IDEOGR',
+  'APH-FA82 IDEOGRAPH-FA83 IDEOGRAPH-FA84 IDEOGRAPH-FA85 IDEOGRAPH-FA86 IDEOGRAPH-FA87 IDEOGRAPH-FA',
+  '88 IDEOGRAPH-FA89 IDEOGRAPH-FA8A IDEOGRAPH-FA8B IDEOGRAPH-FA8C IDEOGRAPH-FA8D IDEOGRAPH-FA8E IDE',
+  'OGRAPH-FA8F IDEOGRAPH-FA90 IDEOGRAPH-FA91 IDEOGRAPH-FA92 IDEOGRAPH-FA93 IDEOGRAPH-FA94 IDEOGRAPH',
+  '-FA95 IDEOGRAPH-FA96 IDEOGRAPH-FA97 IDEOGRAPH-FA98 IDEOGRAPH-FA99 IDEOGRAPH-FA9A IDEOGRAPH-FA9B ',
+  'IDEOGRAPH-FA9C IDEOGRAPH-FA9D IDEOGRAPH-FA9E IDEOGRAPH-FA9F IDEOGRAPH-FAA0 IDEOGRAPH-FAA1 IDEOGR',
+  'APH-FAA2 IDEOGRAPH-FAA3 IDEOGRAPH-FAA4 IDEOGRAPH-FAA5 IDEOGRAPH-FAA6 IDEOGRAPH-FAA7 IDEOGRAPH-FA',
+  'A8 IDEOGRAPH-FAA9 IDEOGRAPH-FAAA IDEOGRAPH-FAAB IDEOGRAPH-FAAC IDEOGRAPH-FAAD IDEOGRAPH-FAAE IDE',
+  'OGRAPH-FAAF IDEOGRAPH-FAB0 IDEOGRAPH-FAB1 IDEOGRAPH-FAB2 IDEOGRAPH-FAB3 IDEOGRAPH-FAB4 IDEOGRAPH',
+  '-FAB5 IDEOGRAPH-FAB6 IDEOGRAPH-FAB7 IDEOGRAPH-FAB8 IDEOGRAPH-FAB9 IDEOGRAPH-FABA IDEOGRAPH-FABB ',
+  'IDEOGRAPH-FABC IDEOGRAPH-FABD IDEOGRAPH-FABE IDEOGRAPH-FABF IDEOGRAPH-FAC0 IDEOGRAPH-FAC1 IDEOGR',
+  'APH-FAC2 IDEOGRAPH-FAC3 IDEOGRAPH-FAC4 IDEOGRAPH-FAC5 IDEOGRAPH-FAC6 IDEOGRAPH-FAC7 IDEOGRAPH-FA',
+  'C8 IDEOGRAPH-FAC9 IDEOGRAPH-FACA IDEOGRAPH-FACB IDEOGRAPH-FACC IDEOGRAPH-FACD IDEOGRAPH-FACE IDE',
+  'OGRAPH-FACF IDEOGRAPH-FAD0 IDEOGRAPH-FAD1 IDEOGRAPH-FAD2 IDEOGRAPH-FAD3 IDEOGRAPH-FAD4 IDEOGRAPH',
+  '-FAD5 IDEOGRAPH-FAD6 IDEOGRAPH-FAD7 IDEOGRAPH-FAD8 IDEOGRAPH-FAD9 FL FFI FFL JUDEO-SPANISH VARIK',
+  'A RAHIMAHU ANH ANHAA ANHUM ANHUMAA ANHUNNA SALLALLAAHU WA-AALIH ALAYHIM ALAYHIMAA AS-SALAATU WAS',
+  '-SALAAM QUDDISA SIRRAH SALLALLAHU WAAALIHEE WA-SALLAM ALAYHAA TABAARAKA WA-TAAALAA RAHIMAHUM SAL',
+  'AAMUHU ALAYNAA QALA ALLAH AKBAR MOHAMMAD SALAM RASOUL JALLAJALALOUHOU RIAL BISMILLAH AR-RAHMAN A',
+  'R-RAHEEM SUBHAANAHU TAAALAA AZZA JALL SELECTOR-1 VS1 SELECTOR-2 VS2 SELECTOR-3 VS3 SELECTOR-4 VS',
+  '4 SELECTOR-5 VS5 SELECTOR-6 VS6 SELECTOR-7 VS7 SELECTOR-8 VS8 SELECTOR-9 VS9 SELECTOR-10 VS10 SE',
+  'LECTOR-11 VS11 SELECTOR-12 VS12 SELECTOR-13 VS13 SELECTOR-14 VS14 SELECTOR-15 VS15 SELECTOR-16 V',
+  'S16 BRAKCET FRAGMENT BOM BYTE ORDER ZWNBSP FORMS OBJECT B038 B028 B061 B010 B045 B014 B051 B057 ',
+  'B046 B036 B065 B077 B044 B067 B070 B081 B080 B013 B073 B015 B023 B024 B030 B052 B055 B072 B039 B',
+  '011 B050 B016 B078 B021 B032 B060 B027 B053 B026 B031 B041 B012 B058 B059 B037 B069 B054 B075 B0',
+  '40 B042 B017 B074 B020 B025 B043 A3 B085 B071 B090 DWO B048 B029 B062 PTE B076 RA2 B033 RA3 B068',
+  ' RO2 B066 TA2 B087 B091 B018 B019 B022 B034 B047 B049 B056 B063 B064 B079 B082 B083 B086 B089 B1',
+  '00 B102 B104 B105 EQUID B105F MARE B105M STALLION B106F B106M B107F SHE-GOAT B107M HE-GOAT B108F',
+  ' SOW B108M B109F B109M BULL B120 B121 BARLEY B122 B123 SPICE B125 CYPERUS B127 KAPO B128 KANAKO ',
+  'B130 B131 B132 B133 AREPA B135 MERI B140 BRONZE B141 B142 B145 B146 B150 B151 B152 B153 B154 B15',
+  '6 TURO2 B157 B158 B159 B160 B161 B162 GARMENT B163 ARMOUR B164 B165 B166 B167 B168 B169 B170 B17',
+  '1 B172 B173 B174 B176 B177 B178 B179 B180 B181 B182 B183 B184 B185 B189 B190 B191 B220 FOOTSTOOL',
+  ' B225 B230 B231 B232 B233 SWORD B234 B236 B240 WHEELED B241 B242 B243 B245 B246 B247 DIPTE B248 ',
+  'B249 B251 B252 B253 B254 DART B255 B256 B257 B258 B259 B155 B200 B201 B202 B203 B204 B205 B206 B',
+  '207 B208 B209 B210 B211 B212 B213 B214 B215 B216 B217 B218 B219 B221 B222 B226 B227 B228 B229 B2',
+  '50 B305 HERAEUM PLETHRON CYRENAIC MESSENIAN CARYSTIAN NAXIAN DELPHIC STRATIAN TALENT OBOL METRET',
+  'ES KYATHOS LITRA OUNKIA XESTES ARTABE AROURA GRAMMA TRYBLION SINUSOID INDICTION NOMISMA SEXTANS ',
+  'UNCIA SEMUNCIA DIMIDIA SILIQUA DENARIUS QUINARIUS SESTERTIUS DUPONDIUS CENTURIAL ASCIA PLUMED TA',
+  'TTOOED CAPTIVE GAUNTLET TIARA MANACLES MATTOCK DOLIUM COMB SLING COLUMN BEEHIVE HIDE BULLS TUNNY',
+  ' PAPYRUS LILY GRATER STRAINER BAND BH P2 UUU LD D2 SH2 C-18 TT2 UUUU K2 ND G2 ST2 C-39 UUU2 MB2 ',
+  'MB3 MB4 LD2 UUU3 EKS ERS ESS AHSA BAIRKAN GIBA DAGS AIHVUS QAIRTHRA IUJA HAGL THIUTH EIS KUSMA L',
+  'AGUS MANNA NAUTHS JER URUS PAIRTHRA RAIDA SAUIL TEIWS WINJA FAIHU IGGWS OTHAL GAI ZHOI DZHOI DZI',
+  'TA KOKE LEI MENOE VOOI PEEI REI CHERY SHOOI SHCHOOI YRY TSIU VER ALPA GAMLA HOTA DHAL SAMKA QOPA',
+  ' RASHA THANNA AURAMAZDAA AURAMAZDAA-2 AURAMAZDAAHA XSHAAYATHIYA DAHYAAUSH DAHYAAUSH-2 BAGA BUUMI',
+  'SH PEEP KICK THIGH SURE YEA HUNG BIB DEAD GAG VOW THEY JUDGE WOE HA-HA LOLL MIME IF ADO ROAR AGE',
+  ' OAK OOZE AWE ARE ARRAY YEW DEEL SHIIN LAAN MIIN NUUN LLE GHAMMA ALT ZARL ZHIL TAS YOWD IRB INYA',
+  ' XEYN DYAN JHOX KAR LYIT HEYT QAY AOR CHOY CYAY NOWC DZYAY SHAK JAYN TYAY FAM DZAY GHEYS SEYK VE',
+  'YZ TIWR IWN CYAW YAYD KIW CITATION AB001 AB002 AB003 AB004 AB005 AB006 AB007 AB008 AB009 AB010 A',
+  'B011 AB013 AB016 AB017 AB020 AB021 AB021F AB021M AB022 AB022F AB022M AB023 AB023M AB024 AB026 AB',
+  '027 AB028 A028B AB029 AB030 AB031 AB034 AB037 AB038 AB039 AB040 AB041 AB044 AB045 AB046 AB047 AB',
+  '048 AB049 AB050 AB051 AB053 AB054 AB055 AB056 AB057 AB058 AB059 AB060 AB061 AB065 AB066 AB067 AB',
+  '069 AB070 AB073 AB074 AB076 AB077 AB078 AB079 AB080 AB081 AB082 AB085 AB086 AB087 A100-102 AB118',
+  ' AB120 A120B AB122 AB123 AB131A AB131B A131C AB164 AB171 AB180 AB188 AB191 A309B A309C A313A A31',
+  '3B A313C A332 A400-VAS A401-VAS A402-VAS A403-VAS A404-VAS A405-VAS A406-VAS A407-VAS A408-VAS A',
+  '409-VAS A410-VAS A411-VAS A412-VAS A413-VAS A414-VAS A415-VAS A416-VAS A417-VAS A418-VAS A531 A5',
+  '32 A534 A535 A536 A537 A538 A539 A540 A541 A542 A545 A547 A548 A549 A550 A551 A552 A553 A554 A55',
+  '5 A556 A557 A559 A563 A564 A565 A566 A568 A569 A570 A571 A572 A573 A574 A575 A576 A577 A578 A579',
+  ' A580 A581 A582 A583 A584 A585 A586 A587 A588 A589 A591 A592 A594 A595 A596 A598 A600 A601 A602 ',
+  'A603 A604 A606 A608 A609 A610 A611 A612 A613 A614 A615 A616 A617 A618 A619 A620 A621 A622 A623 A',
+  '624 A626 A627 A628 A629 A634 A637 A638 A640 A642 A643 A644 A645 A646 A648 A649 A651 A652 A653 A6',
+  '54 A655 A656 A657 A658 A659 A660 A661 A662 A663 A664 A701 A702 A703 A704 A705 A706 A707 A708 A70',
+  '9 A709-2 L2 A709-3 L3 A709-4 L4 A709-6 L6 A710 A711 A712 A713 A714 ABB A715 BB A717 DD A726 EYYY',
+  ' A732 A800 A801 A802 A803 A804 A805 A806 A807 CRUCIFORM DALETH-RESH ALF GAML DELT ZAI LAMD SEMK ',
+  'ROSH BA-2 VIDJ VIDJ-2 RMT IMN TWELFTH TTTHA VHA CAUDA MANGALAM KHETH DHADHE GHAYN DHALETH THAW T',
+  'HETH ES-2 ES-1 ES-3 GEEM GHIMEL ZHAYIN JAYIN JHAYIN XAPH DHAMEDH THAMEDH AAYIN XOPH QHOPH SSHIN ',
+  'AAO XVE NGYE NGVE NNE HME YYE SHYE SSHE AED AEL ELT AENG AER AES BASH SAKIN KHONNA HARBAHAY TAHA',
+  'LA TANA TASSI ELIF CHIM CHHIM XHEYN KHAF HAY RESH-AYIN-DALETH AYIN-DALETH RESH-AYIN FETH GIMEL-H',
+  'ETH CURLED ZAYIN-YODH BHATTIPROLU ENUMERATION BAH CAH DAH NGAH LAH PAH RAH JAH NYAH EEH JHAA NNA',
+  'A DHAA BHAA YYAA MAAYYAA EXTRA SUTRA EKAM CONTINUATION SIDDHI GVANG ORNAMENTS SEPTUPLE THREE-CIR',
+  'CLE ARDHACANDRA HUVA LIGATING KILLER RULAI SHRII SHRO SHROO SHRA SHRAA SPE SPI SPO FILLER-1 FILL',
+  'ER-2 REPHA RA-KARA ANGKA PASSIMBANG YHA THREE-HUNDRED-AND-TWENTIETH EIGHTIETH SIXTY-FOURTHS SIXT',
+  'EENTH-1 SIXTEENTH-2 HALF-1 HALF-2 DOWNSCALING KIIZH CEVITU AAZHAAKKU UZHAKKU MUUVUZHAKKU KURUNI ',
+  'PATHAKKU MUKKURUNI KAACU PANAM VARAAKAN PAARAM KUZHI VELI WET LAND SPENT STARTING MUTHALIYA VAKA',
+  'IYARAA ALAN APIN ARKAB ASAL2 BAG3 BARA2 BUR2 DAM DARA4 DUB2 DUGUD DUH DUN4 DUR2 EDIN EGIR GALAM ',
+  'GAM GAR3 GASHAN GIDIM GISAL GURUN GURUSH HUL2 IL2 KAD4 KAM2 KAM4 KISAL KISH KU7 KWU318 LAHSHU LI',
+  'L LIMMU2 MA2 MUNSUB MURGU2 NAGAR NI2 NISAG RAB SANGA2 SHAB6 SHEG9 SHEN SHESH2 SHESHLAM SHINIG SH',
+  'UBUR SUD SUD2 SUMASH SUR9 UDUG UMBIN UR4 URI URI3 USHX USH2 USHUMX UTUKI UZU ZAG ZAMX ZE2 ZI3 ZI',
+  'G ZUBUR ZUM KUG DAG3 GE22 GIG HUSH ASH3 SHUL NA4 NIN9 PIR2 TI2 ESH16 ESH21 LIMMU4 ASH9 IMIN3 USS',
+  'U USSU3 ILIMMU3 ILIMMU4 NIGIDAMIN NIGIDAESH QUADCOLON LAK-020 LAK-003 LAK-021 LAK-025 LAK-030 LA',
+  'K-051 LAK-062 LAK-080 LAK-092 LAK-130 LAK-142 LAK-210 LAK-219 LAK-220 LAK-225 LAK-228 LAK-238 LA',
+  'K-265 LAK-266 LAK-343 LAK-347 LAK-348 LAK-383 LAK-384 LAK-390 LAK-441 LAK-450 LAK-457 LAK-470 LA',
+  'K-483 LAK-490 LAK-492 LAK-493 LAK-495 LAK-550 LAK-608 LAK-636 LAK-724 LAK-749 LAK-668 CM001 CM00',
+  '2 CM004 CM005 CM006 CM007 CM008 CM009 CM010 CM011 CM012 CM012B CM013 CM015 CM017 CM019 CM021 CM0',
+  '23 CM024 CM025 CM026 CM027 CM028 CM029 CM030 CM033 CM034 CM035 CM036 CM037 CM038 CM039 CM040 CM0',
+  '41 CM044 CM046 CM047 CM049 CM050 CM051 CM052 CM053 CM054 CM055 CM056 CM058 CM059 CM060 CM061 CM0',
+  '62 CM063 CM064 CM066 CM067 CM068 CM069 CM070 CM071 CM072 CM073 CM074 CM075 CM075B CM076 CM078 CM',
+  '079 CM080 CM081 CM082 CM083 CM084 CM085 CM086 CM087 CM088 CM089 CM090 CM091 CM092 CM094 CM095 CM',
+  '096 CM097 CM098 CM099 CM100 CM101 CM102 CM103 CM104 CM105 CM107 CM108 CM109 CM110 CM112 CM114 CM',
+  '301 CM302 A005A A006A A006B A014A A017A A032A A040A A042A A043A B005A C001 C002 C002A C002B C002',
+  'C C003 C004 C005 C006 C007 C008 C009 C010 C010A C011 C012 C013 C014 C015 C016 C017 C018 C019 C02',
+  '0 C021 C022 C023 C024 D001 D002 D003 D004 D005 D006 D007 D008 D008A D009 D010 D011 D012 D013 D01',
+  '4 D015 D016 D017 D018 D019 D020 D021 D022 D023 D024 D025 D026 D027 D027A D028 D029 D030 D031 D03',
+  '1A D032 D033 D034 D034A D035 D036 D037 D038 D039 D040 D041 D042 D043 D044 D045 D046 D046A D047 D',
+  '048 D048A D049 D050 D050A D050B D050C D050D D050E D050F D050G D050H D050I D051 D052 D052A D053 D',
+  '054 D054A D055 D056 D057 D058 D059 D060 D061 D062 D063 D064 D065 D066 D067 D067A D067B D067C D06',
+  '7D D067E D067F D067G D067H E001 E002 E003 E004 E005 E006 E007 E008 E008A E009 E009A E010 E011 E0',
+  '12 E013 E014 E015 E016 E016A E017 E017A E018 E019 E020 E020A E021 E022 E023 E024 E025 E026 E027 ',
+  'E028 E028A E029 E030 E031 E032 E033 E034 E034A E036 E037 E038 F001 F001A F002 F003 F004 F005 F00',
+  '6 F007 F008 F009 F010 F011 F012 F013 F013A F014 F015 F016 F017 F018 F019 F020 F021 F021A F022 F0',
+  '23 F024 F025 F026 F027 F028 F029 F030 F031 F031A F032 F033 F034 F035 F036 F037 F037A F038 F038A ',
+  'F039 F040 F041 F042 F043 F044 F045 F045A F046 F046A F047 F047A F048 F049 F050 F051 F051A F051B F',
+  '051C F052 F053 G001 G002 G003 G004 G005 G006 G006A G007 G007A G007B G008 G009 G010 G011 G011A G0',
+  '12 G013 G014 G015 G016 G017 G018 G019 G020 G020A G021 G022 G023 G024 G025 G026 G026A G027 G028 G',
+  '029 G030 G031 G032 G033 G034 G035 G036 G036A G037 G037A G038 G039 G040 G041 G042 G043 G043A G044',
+  ' G045 G045A G046 G047 G048 G049 G050 G051 G052 G053 G054 H001 H002 H003 H004 H005 H006 H006A H00',
+  '7 H008 I001 I002 I003 I004 I005 I005A I006 I007 I008 I009 I009A I010 I010A I011 I011A I012 I013 ',
+  'I014 I015 K001 K002 K003 K004 K005 K006 K007 K008 L001 L002 L002A L003 L004 L005 L006 L006A L007',
+  ' L008 M001A M001B M003A M010A M012A M012B M012C M012D M012E M012F M012G M012H M015A M016A M017A ',
+  'M022A M024A M028A M031A M033A M033B M040A N001 N002 N003 N004 N005 N006 N007 N008 N009 N010 N011',
+  ' N012 N013 N014 N015 N016 N017 N018 N018A N018B N019 N020 N021 N022 N023 N024 N025 N025A N026 N0',
+  '27 N028 N029 N030 N031 N032 N033 N033A N034 N034A N035 N035A N036 N037 N037A N038 N039 N040 N041',
+  ' N042 NL001 NL002 NL003 NL004 NL005 NL005A NL006 NL007 NL008 NL009 NL010 NL011 NL012 NL013 NL014',
+  ' NL015 NL016 NL017 NL017A NL018 NL019 NL020 NU001 NU002 NU003 NU004 NU005 NU006 NU007 NU008 NU00',
+  '9 NU010 NU010A NU011 NU011A NU012 NU013 NU014 NU015 NU016 NU017 NU018 NU018A NU019 NU020 NU021 N',
+  'U022 NU022A O001 O001A O002 O003 O004 O005 O005A O006 O006A O006B O006C O006D O006E O006F O007 O',
+  '008 O009 O010 O010A O010B O010C O011 O012 O013 O014 O015 O016 O017 O018 O019 O019A O020 O020A O0',
+  '21 O022 O023 O024 O024A O025 O025A O026 O027 O028 O029 O029A O030 O030A O031 O032 O033 O033A O03',
+  '4 O035 O036 O036A O036B O036C O036D O037 O038 O039 O040 O041 O042 O043 O044 O045 O046 O047 O048 ',
+  'O049 O050 O050A O050B O051 P001 P001A P002 P003 P003A P004 P005 P006 P007 P008 P009 P010 P011 Q0',
+  '01 Q002 Q003 Q004 Q005 Q006 Q007 R001 R002 R002A R003 R003A R003B R004 R005 R006 R007 R008 R009 ',
+  'R010 R010A R011 R012 R013 R014 R015 R016 R016A R017 R018 R019 R020 R021 R022 R023 R024 R025 R026',
+  ' R027 R028 R029 S001 S002 S002A S003 S004 S005 S006 S006A S007 S008 S009 S010 S011 S012 S013 S01',
+  '4 S014A S014B S015 S016 S017 S017A S018 S019 S020 S021 S022 S023 S024 S025 S026 S026A S026B S027',
+  ' S028 S029 S030 S031 S032 S033 S034 S035 S035A S036 S037 S038 S039 S040 S041 S042 S043 S044 S045',
+  ' S046 T001 T002 T003 T003A T004 T005 T006 T007 T007A T008 T008A T009 T009A T010 T011 T011A T012 ',
+  'T013 T014 T015 T016 T016A T017 T018 T019 T020 T021 T022 T023 T024 T025 T026 T027 T028 T029 T030 ',
+  'T031 T032 T032A T033 T033A T034 T035 T036 U001 U002 U003 U004 U005 U006 U006A U006B U007 U008 U0',
+  '09 U010 U011 U012 U013 U014 U015 U016 U017 U018 U019 U020 U021 U022 U023 U023A U024 U025 U026 U0',
+  '27 U028 U029 U029A U030 U031 U032 U032A U033 U034 U035 U036 U037 U038 U039 U040 U041 U042 V001 V',
+  '001A V001B V001C V001D V001E V001F V001G V001H V001I V002 V002A V003 V004 V005 V006 V007 V007A V',
+  '007B V008 V009 V010 V011 V011A V011B V011C V012 V012A V012B V013 V014 V015 V016 V017 V018 V019 V',
+  '020 V020A V020B V020C V020D V020E V020F V020G V020H V020I V020J V020K V020L V021 V022 V023 V023A',
+  ' V024 V025 V026 V027 V028 V028A V029 V029A V030 V030A V031 V031A V032 V033 V033A V034 V035 V036 ',
+  'V037 V037A V038 V039 V040 V040A W001 W002 W003 W003A W004 W005 W006 W007 W008 W009 W009A W010 W0',
+  '10A W011 W012 W013 W014 W014A W015 W016 W017 W017A W018 W018A W019 W020 W021 W022 W023 W024 W024',
+  'A W025 X001 X002 X003 X004 X004A X004B X005 X006 X006A X007 X008 X008A Y001 Y001A Y002 Y003 Y004',
+  ' Y005 Y006 Y007 Y008 Z001 Z002 Z002A Z002B Z002C Z002D Z003 Z003A Z003B Z004 Z004A Z005 Z005A Z0',
+  '06 Z007 Z008 Z009 Z010 Z011 Z012 Z013 Z014 Z015 Z015A Z015B Z015C Z015D Z015E Z015F Z015G Z015H ',
+  'Z015I Z016 Z016A Z016B Z016C Z016D Z016E Z016F Z016G Z016H AA001 AA002 AA003 AA004 AA005 AA006 A',
+  'A007 AA007A AA007B AA008 AA009 AA010 AA011 AA012 AA013 AA014 AA015 AA016 AA017 AA018 AA019 AA020',
+  ' AA021 AA022 AA023 AA024 AA025 AA026 AA027 AA028 AA029 AA030 AA031 AA032 A010A A026A A039A A041A',
+  ' A046A A046B A066A A066B A066C A071 A072 A073 A074 A075 A076 A077 A078 A079 A080 A081 A082 A083 ',
+  'A084 A085 A086 A087 A088 A089 A090 A091 A092 A093 A094 A095 A096 A097 A097A A098 A098A A099 A100',
+  ' A100A A101 A101A A102 A102A A103 A104 A104A A104B A104C A105 A105A A105B A106 A107 A107A A107B ',
+  'A107C A108 A109 A110 A110A A110B A111 A112 A113 A114 A115 A115A A116 A117 A118 A119 A120 A121 A1',
+  '22 A123 A124 A125 A125A A126 A127 A128 A129 A130 A131 A132 A133 A134 A135 A135A A136 A137 A138 A',
+  '139 A140 A141 A142 A143 A144 A145 A146 A147 A148 A149 A150 A151 A152 A153 A154 A155 A156 A157 A1',
+  '58 A159 A160 A161 A162 A163 A164 A165 A166 A167 A168 A169 A170 A171 A172 A173 A174 A175 A176 A17',
+  '7 A178 A179 A180 A181 A182 A183 A184 A185 A186 A187 A188 A189 A190 A191 A192 A193 A194 A195 A196',
+  ' A197 A198 A199 A200 A201 A202 A202A A202B A203 A204 A205 A206 A207 A207A A208 A209 A209A A210 A',
+  '211 A212 A213 A214 A215 A215A A216 A216A A217 A218 A219 A220 A221 A222 A223 A224 A225 A226 A227 ',
+  'A227A A228 A229 A230 A231 A232 A233 A234 A235 A236 A237 A238 A239 A240 A241 A242 A243 A244 A245 ',
+  'A246 A247 A248 A249 A250 A251 A252 A253 A254 A255 A256 A257 A258 A259 A260 A261 A262 A263 A264 A',
+  '265 A266 A267 A267A A268 A269 A270 A271 A272 A273 A274 A275 A276 A277 A278 A279 A280 A281 A282 A',
+  '283 A284 A285 A286 A287 A288 A289 A289A A290 A291 A292 A293 A294 A294A A295 A296 A297 A298 A299 ',
+  'A299A A300 A309 A313 A329A A332A A332B A332C A336A A336B A336C A359A A364A A368A A371A A372 A373',
+  ' A374 A375 A376 A377 A378 A379 A380 A381 A381A A382 A383 A383A A384 A385 A386 A386A A387 A388 A3',
+  '89 A390 A391 A392 A393 A394 A395 A396 A397 A398 A399 A400 A401 A402 A403 A404 A405 A406 A407 A40',
+  '8 A409 A410 A410A A411 A412 A413 A414 A415 A416 A417 A418 A419 A420 A421 A422 A423 A424 A425 A42',
+  '6 A427 A428 A429 A430 A431 A432 A433 A434 A435 A436 A437 A438 A439 A440 A441 A442 A443 A444 A445',
+  ' A446 A447 A448 A449 A450 A450A A451 A452 A453 A454 A455 A456 A457 A457A A458 A459 A460 A461 A46',
+  '2 A463 A464 A465 A466 A467 A468 A469 A470 A471 A472 A473 A474 A475 A476 A477 A478 A479 A480 A481',
+  ' A482 A483 A484 A485 A486 A487 A488 A489 A490 A491 A492 A493 A494 A495 A496 A497 A507 A514 A517 ',
+  'A518 A519 A522 GBIEE SHUENSHUET SHINDA MAEMBGBIEE NGANGU MAEMVEUX MANSUAE MVEUAENGAM SEUNYAM NTO',
+  'QPEN KEUKEUTNDA NKINDI NGKUENZEUM LAPAQ MFAA MAEKEUP PASHAE GHEUAERAE PAMSHAE NZUN GHEUAEGHEUAE ',
+  'SISA MGBASA MEUNJOMNDEUQ MOOMPUQ KAFA PET MAEMKPEN NIKA TUAEP LUAEP SONJAM TEUTEUWEN MAENYI NDAA',
+  'NGGEUAET KUOQ MOOMEUT SHUM LOMMAE FIRI ROM KPOQ SOQ PIEET SHIRAE MONGKEUAEQ PAARAE UNKNOWN KAQ M',
+  'BAQ NSHUET MAEMGBIEE SIEE MAELEE KIEEM YEURAE MBAARAE KAM PEESHI YAFU NTIEE SHEUOQ NJAA GHEUGHEU',
+  'AEM NJAQ SHEUAEQTU MBAAKET KEUPUQ GHEUGHEN KEUYEUX LAANAE PARUM VEUM NGKINDI NGGEU WUAET SAKEUAE',
+  ' TAAM MEUQ MFIYAQ MBEURI MONTIEEN NYAEMAE PUNGAAM NGGEET FEUX MBUOQ KEUAEM NJEUAENA NJUQA NSEN K',
+  'IQ WANGKUOQ NDEUAEREE NGKAQ GHARAE MBEEKEET GBAYI NYIR MKPARAQ NTU PIRIEEN NDOMBU CABBAGE-TREE K',
+  'EUSHEUAEP GHAP KEUKAQ MUOMAE NZEUM MBUE NSEUAEN YEUQ KPARAQ NDIDA TAASHAE YUE SUAET NGGUAEN VEUX',
+  ' NANSANAQ KEUAERI NGGUON MBIRIEEN MGBASAQ NTEUNGBA TEUTEUX NGGUM NDEUT NSA NSHAQ BUNG VEUAEPEN M',
+  'BERAE TITUAEP NSUOT NJEEEE MBUAEM WUP NGGUEET NSOM NTEN NSUN SHUEQ SETFON KEUSEUX MBEUX PICKET F',
+  'ATIGUE NGAQ LIQ MBUO NJIEE LIEE NJEUT NSHEE NGGAAMAE WUAEN NGKUN NGKAP KEUAETMEUN TEUT SHEUAE NJ',
+  'AP YAEMMAE KUOM MFEUT NDEUX MALEERI SEUAEQ NJEUAEM KEUOT MBUAE NGKEURI NGKYEE FEUFEUAET MGBOFUM ',
+  'LEUAEP NDON MONI MGBEUN PUUT MGBIEE MFO NSIEEP KWAET RAEM TEEEE NGKEUAEQ MFEUAE NSIEET KEUP PEUT',
+  'AE NYUE MFIEE NGGWAEN YUOM SUAE NGGEUX NGKIEE KUQ NSUM TEUN MAENJET NGGAP LEUM NGGUOM PUQ SAQ TO',
+  'ON VOM LOON RAQ NSHUOP NDUN KPEUX NGKEUX NGOQ NSHUE RIMGBA PEEM NGGURAE GHEUX NGKEUAEM NGGEEEE N',
+  'DIQ TAEN PUM SOFTNESS NGGUAESHAE YIEE GHEUN TUAE YEUAE TUMAE KEUAE SUAEN VEUAE WEUX TAAQ GHAAMAE',
+  ' NGEUREUT SHEUAEQ MGBEN NZAQ NKOM GBET KUET CLEAVER MFEUQ NDIAQ PIEEQ YUEQ LEUAEM GBEUX NGKUP NG',
+  'KAAMI GHET NTUM PEUT YEUM NGGEUAE NZUQ POON FUET MVI PUAQ NGKUM PIET YEUAET NGGUP LAQ PLURAL TAQ',
+  ' YEUX NGUAE YUAEN SWIMMING YUN EPOCH NGUAET REMEDY TEU FAQ GHOM VUEQ HAO DAI KEAAE THEA HAI TEK ',
+  'OZ OC VZ VC VQ VX EQ IZ UZ UQ UX AWZ AWC AWQ UIZ UIC UIQ UIX UEC UEQ UIUZ UIUC UIUQ UIUX MZ MQ M',
+  'X HTTA ENNI DHII KPAH HWAH UWU YEIN WADDA LOW-MID HIGH-LOW KEEB KEEV KIB KIV KAUB KAUV KUB KUV K',
+  'EB KEV KAIB KAIV KOOB KOOV KAWB KAWV KUAB KUAV KOB KOV KIAB KIAV KAV KWB KWV KAAB KAAV VAU NTSAU',
+  ' LAU NLAU RAU NKAU QHAU YAU HLAU MAU CHAU NCHAU HNAU PLHAU NTHAU NAU XAU CAU TUB KES KHAV SUAM H',
+  'OM TAUM THOM TSHAB CEEB CHEEM THIAB FEEM NTXIV TOV FAIB SEEV SUAB NRUA XAUS TSOV BILLIONS TRILLI',
+  'ONS LUB XYOO THIRD-STAGE THAJ HNUB NQIG XIAB NTUJ TXHEEJ CEEV TSEEB LOS MUS HAIS LUS CUAM TSHOOJ',
+  ' CHWV PUB DAWB NRES TOS TSHEEJ YEEG LIS LAUJ XYOOJ HAWJ MUAS THOJ TSAB PHAB KHAB HAM VAJ FAJ TSW',
+  'B KWM VWJ AIVA VFA NNHA LYA LHYA DLHA TLHYA DLHYA QGA TSSA DZZA ZSHA ZSA ZZSA ZZYA ZZSYA BRI SYI',
+  ' DZYI RTE AHH OEY IANG UAN UANG UEI UNG UOG YUI OG OER VW IONG NHAY COMPONENT-001 COMPONENT-002 ',
+  'COMPONENT-003 COMPONENT-004 COMPONENT-005 COMPONENT-006 COMPONENT-007 COMPONENT-008 COMPONENT-00',
+  '9 COMPONENT-010 COMPONENT-011 COMPONENT-012 COMPONENT-013 COMPONENT-014 COMPONENT-015 COMPONENT-',
+  '016 COMPONENT-017 COMPONENT-018 COMPONENT-019 COMPONENT-020 COMPONENT-021 COMPONENT-022 COMPONEN',
+  'T-023 COMPONENT-024 COMPONENT-025 COMPONENT-026 COMPONENT-027 COMPONENT-028 COMPONENT-029 COMPON',
+  'ENT-030 COMPONENT-031 COMPONENT-032 COMPONENT-033 COMPONENT-034 COMPONENT-035 COMPONENT-036 COMP',
+  'ONENT-037 COMPONENT-038 COMPONENT-039 COMPONENT-040 COMPONENT-041 COMPONENT-042 COMPONENT-043 CO',
+  'MPONENT-044 COMPONENT-045 COMPONENT-046 COMPONENT-047 COMPONENT-048 COMPONENT-049 COMPONENT-050 ',
+  'COMPONENT-051 COMPONENT-052 COMPONENT-053 COMPONENT-054 COMPONENT-055 COMPONENT-056 COMPONENT-05',
+  '7 COMPONENT-058 COMPONENT-059 COMPONENT-060 COMPONENT-061 COMPONENT-062 COMPONENT-063 COMPONENT-',
+  '064 COMPONENT-065 COMPONENT-066 COMPONENT-067 COMPONENT-068 COMPONENT-069 COMPONENT-070 COMPONEN',
+  'T-071 COMPONENT-072 COMPONENT-073 COMPONENT-074 COMPONENT-075 COMPONENT-076 COMPONENT-077 COMPON',
+  'ENT-078 COMPONENT-079 COMPONENT-080 COMPONENT-081 COMPONENT-082 COMPONENT-083 COMPONENT-084 COMP',
+  'ONENT-085 COMPONENT-086 COMPONENT-087 COMPONENT-088 COMPONENT-089 COMPONENT-090 COMPONENT-091 CO',
+  'MPONENT-092 COMPONENT-093 COMPONENT-094 COMPONENT-095 COMPONENT-096 COMPONENT-097 COMPONENT-098 ',
+  'COMPONENT-099 COMPONENT-100 COMPONENT-101 COMPONENT-102 COMPONENT-103 COMPONENT-104 COMPONENT-10',
+  '5 COMPONENT-106 COMPONENT-107 COMPONENT-108 COMPONENT-109 COMPONENT-110 COMPONENT-111 COMPONENT-',
+  '112 COMPONENT-113 COMPONENT-114 COMPONENT-115 COMPONENT-116 COMPONENT-117 COMPONENT-118 COMPONEN',
+  'T-119 COMPONENT-120 COMPONENT-121 COMPONENT-122 COMPONENT-123 COMPONENT-124 COMPONENT-125 COMPON',
+  'ENT-126 COMPONENT-127 COMPONENT-128 COMPONENT-129 COMPONENT-130 COMPONENT-131 COMPONENT-132 COMP',
+  'ONENT-133 COMPONENT-134 COMPONENT-135 COMPONENT-136 COMPONENT-137 COMPONENT-138 COMPONENT-139 CO',
+  'MPONENT-140 COMPONENT-141 COMPONENT-142 COMPONENT-143 COMPONENT-144 COMPONENT-145 COMPONENT-146 ',
+  'COMPONENT-147 COMPONENT-148 COMPONENT-149 COMPONENT-150 COMPONENT-151 COMPONENT-152 COMPONENT-15',
+  '3 COMPONENT-154 COMPONENT-155 COMPONENT-156 COMPONENT-157 COMPONENT-158 COMPONENT-159 COMPONENT-',
+  '160 COMPONENT-161 COMPONENT-162 COMPONENT-163 COMPONENT-164 COMPONENT-165 COMPONENT-166 COMPONEN',
+  'T-167 COMPONENT-168 COMPONENT-169 COMPONENT-170 COMPONENT-171 COMPONENT-172 COMPONENT-173 COMPON',
+  'ENT-174 COMPONENT-175 COMPONENT-176 COMPONENT-177 COMPONENT-178 COMPONENT-179 COMPONENT-180 COMP',
+  'ONENT-181 COMPONENT-182 COMPONENT-183 COMPONENT-184 COMPONENT-185 COMPONENT-186 COMPONENT-187 CO',
+  'MPONENT-188 COMPONENT-189 COMPONENT-190 COMPONENT-191 COMPONENT-192 COMPONENT-193 COMPONENT-194 ',
+  'COMPONENT-195 COMPONENT-196 COMPONENT-197 COMPONENT-198 COMPONENT-199 COMPONENT-200 COMPONENT-20',
+  '1 COMPONENT-202 COMPONENT-203 COMPONENT-204 COMPONENT-205 COMPONENT-206 COMPONENT-207 COMPONENT-',
+  '208 COMPONENT-209 COMPONENT-210 COMPONENT-211 COMPONENT-212 COMPONENT-213 COMPONENT-214 COMPONEN',
+  'T-215 COMPONENT-216 COMPONENT-217 COMPONENT-218 COMPONENT-219 COMPONENT-220 COMPONENT-221 COMPON',
+  'ENT-222 COMPONENT-223 COMPONENT-224 COMPONENT-225 COMPONENT-226 COMPONENT-227 COMPONENT-228 COMP',
+  'ONENT-229 COMPONENT-230 COMPONENT-231 COMPONENT-232 COMPONENT-233 COMPONENT-234 COMPONENT-235 CO',
+  'MPONENT-236 COMPONENT-237 COMPONENT-238 COMPONENT-239 COMPONENT-240 COMPONENT-241 COMPONENT-242 ',
+  'COMPONENT-243 COMPONENT-244 COMPONENT-245 COMPONENT-246 COMPONENT-247 COMPONENT-248 COMPONENT-24',
+  '9 COMPONENT-250 COMPONENT-251 COMPONENT-252 COMPONENT-253 COMPONENT-254 COMPONENT-255 COMPONENT-',
+  '256 COMPONENT-257 COMPONENT-258 COMPONENT-259 COMPONENT-260 COMPONENT-261 COMPONENT-262 COMPONEN',
+  'T-263 COMPONENT-264 COMPONENT-265 COMPONENT-266 COMPONENT-267 COMPONENT-268 COMPONENT-269 COMPON',
+  'ENT-270 COMPONENT-271 COMPONENT-272 COMPONENT-273 COMPONENT-274 COMPONENT-275 COMPONENT-276 COMP',
+  'ONENT-277 COMPONENT-278 COMPONENT-279 COMPONENT-280 COMPONENT-281 COMPONENT-282 COMPONENT-283 CO',
+  'MPONENT-284 COMPONENT-285 COMPONENT-286 COMPONENT-287 COMPONENT-288 COMPONENT-289 COMPONENT-290 ',
+  'COMPONENT-291 COMPONENT-292 COMPONENT-293 COMPONENT-294 COMPONENT-295 COMPONENT-296 COMPONENT-29',
+  '7 COMPONENT-298 COMPONENT-299 COMPONENT-300 COMPONENT-301 COMPONENT-302 COMPONENT-303 COMPONENT-',
+  '304 COMPONENT-305 COMPONENT-306 COMPONENT-307 COMPONENT-308 COMPONENT-309 COMPONENT-310 COMPONEN',
+  'T-311 COMPONENT-312 COMPONENT-313 COMPONENT-314 COMPONENT-315 COMPONENT-316 COMPONENT-317 COMPON',
+  'ENT-318 COMPONENT-319 COMPONENT-320 COMPONENT-321 COMPONENT-322 COMPONENT-323 COMPONENT-324 COMP',
+  'ONENT-325 COMPONENT-326 COMPONENT-327 COMPONENT-328 COMPONENT-329 COMPONENT-330 COMPONENT-331 CO',
+  'MPONENT-332 COMPONENT-333 COMPONENT-334 COMPONENT-335 COMPONENT-336 COMPONENT-337 COMPONENT-338 ',
+  'COMPONENT-339 COMPONENT-340 COMPONENT-341 COMPONENT-342 COMPONENT-343 COMPONENT-344 COMPONENT-34',
+  '5 COMPONENT-346 COMPONENT-347 COMPONENT-348 COMPONENT-349 COMPONENT-350 COMPONENT-351 COMPONENT-',
+  '352 COMPONENT-353 COMPONENT-354 COMPONENT-355 COMPONENT-356 COMPONENT-357 COMPONENT-358 COMPONEN',
+  'T-359 COMPONENT-360 COMPONENT-361 COMPONENT-362 COMPONENT-363 COMPONENT-364 COMPONENT-365 COMPON',
+  'ENT-366 COMPONENT-367 COMPONENT-368 COMPONENT-369 COMPONENT-370 COMPONENT-371 COMPONENT-372 COMP',
+  'ONENT-373 COMPONENT-374 COMPONENT-375 COMPONENT-376 COMPONENT-377 COMPONENT-378 COMPONENT-379 CO',
+  'MPONENT-380 COMPONENT-381 COMPONENT-382 COMPONENT-383 COMPONENT-384 COMPONENT-385 COMPONENT-386 ',
+  'COMPONENT-387 COMPONENT-388 COMPONENT-389 COMPONENT-390 COMPONENT-391 COMPONENT-392 COMPONENT-39',
+  '3 COMPONENT-394 COMPONENT-395 COMPONENT-396 COMPONENT-397 COMPONENT-398 COMPONENT-399 COMPONENT-',
+  '400 COMPONENT-401 COMPONENT-402 COMPONENT-403 COMPONENT-404 COMPONENT-405 COMPONENT-406 COMPONEN',
+  'T-407 COMPONENT-408 COMPONENT-409 COMPONENT-410 COMPONENT-411 COMPONENT-412 COMPONENT-413 COMPON',
+  'ENT-414 COMPONENT-415 COMPONENT-416 COMPONENT-417 COMPONENT-418 COMPONENT-419 COMPONENT-420 COMP',
+  'ONENT-421 COMPONENT-422 COMPONENT-423 COMPONENT-424 COMPONENT-425 COMPONENT-426 COMPONENT-427 CO',
+  'MPONENT-428 COMPONENT-429 COMPONENT-430 COMPONENT-431 COMPONENT-432 COMPONENT-433 COMPONENT-434 ',
+  'COMPONENT-435 COMPONENT-436 COMPONENT-437 COMPONENT-438 COMPONENT-439 COMPONENT-440 COMPONENT-44',
+  '1 COMPONENT-442 COMPONENT-443 COMPONENT-444 COMPONENT-445 COMPONENT-446 COMPONENT-447 COMPONENT-',
+  '448 COMPONENT-449 COMPONENT-450 COMPONENT-451 COMPONENT-452 COMPONENT-453 COMPONENT-454 COMPONEN',
+  'T-455 COMPONENT-456 COMPONENT-457 COMPONENT-458 COMPONENT-459 COMPONENT-460 COMPONENT-461 COMPON',
+  'ENT-462 COMPONENT-463 COMPONENT-464 COMPONENT-465 COMPONENT-466 COMPONENT-467 COMPONENT-468 COMP',
+  'ONENT-469 COMPONENT-470 COMPONENT-471 COMPONENT-472 COMPONENT-473 COMPONENT-474 COMPONENT-475 CO',
+  'MPONENT-476 COMPONENT-477 COMPONENT-478 COMPONENT-479 COMPONENT-480 COMPONENT-481 COMPONENT-482 ',
+  'COMPONENT-483 COMPONENT-484 COMPONENT-485 COMPONENT-486 COMPONENT-487 COMPONENT-488 COMPONENT-48',
+  '9 COMPONENT-490 COMPONENT-491 COMPONENT-492 COMPONENT-493 COMPONENT-494 COMPONENT-495 COMPONENT-',
+  '496 COMPONENT-497 COMPONENT-498 COMPONENT-499 COMPONENT-500 COMPONENT-501 COMPONENT-502 COMPONEN',
+  'T-503 COMPONENT-504 COMPONENT-505 COMPONENT-506 COMPONENT-507 COMPONENT-508 COMPONENT-509 COMPON',
+  'ENT-510 COMPONENT-511 COMPONENT-512 COMPONENT-513 COMPONENT-514 COMPONENT-515 COMPONENT-516 COMP',
+  'ONENT-517 COMPONENT-518 COMPONENT-519 COMPONENT-520 COMPONENT-521 COMPONENT-522 COMPONENT-523 CO',
+  'MPONENT-524 COMPONENT-525 COMPONENT-526 COMPONENT-527 COMPONENT-528 COMPONENT-529 COMPONENT-530 ',
+  'COMPONENT-531 COMPONENT-532 COMPONENT-533 COMPONENT-534 COMPONENT-535 COMPONENT-536 COMPONENT-53',
+  '7 COMPONENT-538 COMPONENT-539 COMPONENT-540 COMPONENT-541 COMPONENT-542 COMPONENT-543 COMPONENT-',
+  '544 COMPONENT-545 COMPONENT-546 COMPONENT-547 COMPONENT-548 COMPONENT-549 COMPONENT-550 COMPONEN',
+  'T-551 COMPONENT-552 COMPONENT-553 COMPONENT-554 COMPONENT-555 COMPONENT-556 COMPONENT-557 COMPON',
+  'ENT-558 COMPONENT-559 COMPONENT-560 COMPONENT-561 COMPONENT-562 COMPONENT-563 COMPONENT-564 COMP',
+  'ONENT-565 COMPONENT-566 COMPONENT-567 COMPONENT-568 COMPONENT-569 COMPONENT-570 COMPONENT-571 CO',
+  'MPONENT-572 COMPONENT-573 COMPONENT-574 COMPONENT-575 COMPONENT-576 COMPONENT-577 COMPONENT-578 ',
+  'COMPONENT-579 COMPONENT-580 COMPONENT-581 COMPONENT-582 COMPONENT-583 COMPONENT-584 COMPONENT-58',
+  '5 COMPONENT-586 COMPONENT-587 COMPONENT-588 COMPONENT-589 COMPONENT-590 COMPONENT-591 COMPONENT-',
+  '592 COMPONENT-593 COMPONENT-594 COMPONENT-595 COMPONENT-596 COMPONENT-597 COMPONENT-598 COMPONEN',
+  'T-599 COMPONENT-600 COMPONENT-601 COMPONENT-602 COMPONENT-603 COMPONENT-604 COMPONENT-605 COMPON',
+  'ENT-606 COMPONENT-607 COMPONENT-608 COMPONENT-609 COMPONENT-610 COMPONENT-611 COMPONENT-612 COMP',
+  'ONENT-613 COMPONENT-614 COMPONENT-615 COMPONENT-616 COMPONENT-617 COMPONENT-618 COMPONENT-619 CO',
+  'MPONENT-620 COMPONENT-621 COMPONENT-622 COMPONENT-623 COMPONENT-624 COMPONENT-625 COMPONENT-626 ',
+  'COMPONENT-627 COMPONENT-628 COMPONENT-629 COMPONENT-630 COMPONENT-631 COMPONENT-632 COMPONENT-63',
+  '3 COMPONENT-634 COMPONENT-635 COMPONENT-636 COMPONENT-637 COMPONENT-638 COMPONENT-639 COMPONENT-',
+  '640 COMPONENT-641 COMPONENT-642 COMPONENT-643 COMPONENT-644 COMPONENT-645 COMPONENT-646 COMPONEN',
+  'T-647 COMPONENT-648 COMPONENT-649 COMPONENT-650 COMPONENT-651 COMPONENT-652 COMPONENT-653 COMPON',
+  'ENT-654 COMPONENT-655 COMPONENT-656 COMPONENT-657 COMPONENT-658 COMPONENT-659 COMPONENT-660 COMP',
+  'ONENT-661 COMPONENT-662 COMPONENT-663 COMPONENT-664 COMPONENT-665 COMPONENT-666 COMPONENT-667 CO',
+  'MPONENT-668 COMPONENT-669 COMPONENT-670 COMPONENT-671 COMPONENT-672 COMPONENT-673 COMPONENT-674 ',
+  'COMPONENT-675 COMPONENT-676 COMPONENT-677 COMPONENT-678 COMPONENT-679 COMPONENT-680 COMPONENT-68',
+  '1 COMPONENT-682 COMPONENT-683 COMPONENT-684 COMPONENT-685 COMPONENT-686 COMPONENT-687 COMPONENT-',
+  '688 COMPONENT-689 COMPONENT-690 COMPONENT-691 COMPONENT-692 COMPONENT-693 COMPONENT-694 COMPONEN',
+  'T-695 COMPONENT-696 COMPONENT-697 COMPONENT-698 COMPONENT-699 COMPONENT-700 COMPONENT-701 COMPON',
+  'ENT-702 COMPONENT-703 COMPONENT-704 COMPONENT-705 COMPONENT-706 COMPONENT-707 COMPONENT-708 COMP',
+  'ONENT-709 COMPONENT-710 COMPONENT-711 COMPONENT-712 COMPONENT-713 COMPONENT-714 COMPONENT-715 CO',
+  'MPONENT-716 COMPONENT-717 COMPONENT-718 COMPONENT-719 COMPONENT-720 COMPONENT-721 COMPONENT-722 ',
+  'COMPONENT-723 COMPONENT-724 COMPONENT-725 COMPONENT-726 COMPONENT-727 COMPONENT-728 COMPONENT-72',
+  '9 COMPONENT-730 COMPONENT-731 COMPONENT-732 COMPONENT-733 COMPONENT-734 COMPONENT-735 COMPONENT-',
+  '736 COMPONENT-737 COMPONENT-738 COMPONENT-739 COMPONENT-740 COMPONENT-741 COMPONENT-742 COMPONEN',
+  'T-743 COMPONENT-744 COMPONENT-745 COMPONENT-746 COMPONENT-747 COMPONENT-748 COMPONENT-749 COMPON',
+  'ENT-750 COMPONENT-751 COMPONENT-752 COMPONENT-753 COMPONENT-754 COMPONENT-755 COMPONENT-756 COMP',
+  'ONENT-757 COMPONENT-758 COMPONENT-759 COMPONENT-760 COMPONENT-761 COMPONENT-762 COMPONENT-763 CO',
+  'MPONENT-764 COMPONENT-765 COMPONENT-766 COMPONENT-767 COMPONENT-768 CHARACTER-18B00 CHARACTER-18',
+  'B01 CHARACTER-18B02 CHARACTER-18B03 CHARACTER-18B04 CHARACTER-18B05 CHARACTER-18B06 CHARACTER-18',
+  'B07 CHARACTER-18B08 CHARACTER-18B09 CHARACTER-18B0A CHARACTER-18B0B CHARACTER-18B0C CHARACTER-18',
+  'B0D CHARACTER-18B0E CHARACTER-18B0F CHARACTER-18B10 CHARACTER-18B11 CHARACTER-18B12 CHARACTER-18',
+  'B13 CHARACTER-18B14 CHARACTER-18B15 CHARACTER-18B16 CHARACTER-18B17 CHARACTER-18B18 CHARACTER-18',
+  'B19 CHARACTER-18B1A CHARACTER-18B1B CHARACTER-18B1C CHARACTER-18B1D CHARACTER-18B1E CHARACTER-18',
+  'B1F CHARACTER-18B20 CHARACTER-18B21 CHARACTER-18B22 CHARACTER-18B23 CHARACTER-18B24 CHARACTER-18',
+  'B25 CHARACTER-18B26 CHARACTER-18B27 CHARACTER-18B28 CHARACTER-18B29 CHARACTER-18B2A CHARACTER-18',
+  'B2B CHARACTER-18B2C CHARACTER-18B2D CHARACTER-18B2E CHARACTER-18B2F CHARACTER-18B30 CHARACTER-18',
+  'B31 CHARACTER-18B32 CHARACTER-18B33 CHARACTER-18B34 CHARACTER-18B35 CHARACTER-18B36 CHARACTER-18',
+  'B37 CHARACTER-18B38 CHARACTER-18B39 CHARACTER-18B3A CHARACTER-18B3B CHARACTER-18B3C CHARACTER-18',
+  'B3D CHARACTER-18B3E CHARACTER-18B3F CHARACTER-18B40 CHARACTER-18B41 CHARACTER-18B42 CHARACTER-18',
+  'B43 CHARACTER-18B44 CHARACTER-18B45 CHARACTER-18B46 CHARACTER-18B47 CHARACTER-18B48 CHARACTER-18',
+  'B49 CHARACTER-18B4A CHARACTER-18B4B CHARACTER-18B4C CHARACTER-18B4D CHARACTER-18B4E CHARACTER-18',
+  'B4F CHARACTER-18B50 CHARACTER-18B51 CHARACTER-18B52 CHARACTER-18B53 CHARACTER-18B54 CHARACTER-18',
+  'B55 CHARACTER-18B56 CHARACTER-18B57 CHARACTER-18B58 CHARACTER-18B59 CHARACTER-18B5A CHARACTER-18',
+  'B5B CHARACTER-18B5C CHARACTER-18B5D CHARACTER-18B5E CHARACTER-18B5F CHARACTER-18B60 CHARACTER-18',
+  'B61 CHARACTER-18B62 CHARACTER-18B63 CHARACTER-18B64 CHARACTER-18B65 CHARACTER-18B66 CHARACTER-18',
+  'B67 CHARACTER-18B68 CHARACTER-18B69 CHARACTER-18B6A CHARACTER-18B6B CHARACTER-18B6C CHARACTER-18',
+  'B6D CHARACTER-18B6E CHARACTER-18B6F CHARACTER-18B70 CHARACTER-18B71 CHARACTER-18B72 CHARACTER-18',
+  'B73 CHARACTER-18B74 CHARACTER-18B75 CHARACTER-18B76 CHARACTER-18B77 CHARACTER-18B78 CHARACTER-18',
+  'B79 CHARACTER-18B7A CHARACTER-18B7B CHARACTER-18B7C CHARACTER-18B7D CHARACTER-18B7E CHARACTER-18',
+  'B7F CHARACTER-18B80 CHARACTER-18B81 CHARACTER-18B82 CHARACTER-18B83 CHARACTER-18B84 CHARACTER-18',
+  'B85 CHARACTER-18B86 CHARACTER-18B87 CHARACTER-18B88 CHARACTER-18B89 CHARACTER-18B8A CHARACTER-18',
+  'B8B CHARACTER-18B8C CHARACTER-18B8D CHARACTER-18B8E CHARACTER-18B8F CHARACTER-18B90 CHARACTER-18',
+  'B91 CHARACTER-18B92 CHARACTER-18B93 CHARACTER-18B94 CHARACTER-18B95 CHARACTER-18B96 CHARACTER-18',
+  'B97 CHARACTER-18B98 CHARACTER-18B99 CHARACTER-18B9A CHARACTER-18B9B CHARACTER-18B9C CHARACTER-18',
+  'B9D CHARACTER-18B9E CHARACTER-18B9F CHARACTER-18BA0 CHARACTER-18BA1 CHARACTER-18BA2 CHARACTER-18',
+  'BA3 CHARACTER-18BA4 CHARACTER-18BA5 CHARACTER-18BA6 CHARACTER-18BA7 CHARACTER-18BA8 CHARACTER-18',
+  'BA9 CHARACTER-18BAA CHARACTER-18BAB CHARACTER-18BAC CHARACTER-18BAD CHARACTER-18BAE CHARACTER-18',
+  'BAF CHARACTER-18BB0 CHARACTER-18BB1 CHARACTER-18BB2 CHARACTER-18BB3 CHARACTER-18BB4 CHARACTER-18',
+  'BB5 CHARACTER-18BB6 CHARACTER-18BB7 CHARACTER-18BB8 CHARACTER-18BB9 CHARACTER-18BBA CHARACTER-18',
+  'BBB CHARACTER-18BBC CHARACTER-18BBD CHARACTER-18BBE CHARACTER-18BBF CHARACTER-18BC0 CHARACTER-18',
+  'BC1 CHARACTER-18BC2 CHARACTER-18BC3 CHARACTER-18BC4 CHARACTER-18BC5 CHARACTER-18BC6 CHARACTER-18',
+  'BC7 CHARACTER-18BC8 CHARACTER-18BC9 CHARACTER-18BCA CHARACTER-18BCB CHARACTER-18BCC CHARACTER-18',
+  'BCD CHARACTER-18BCE CHARACTER-18BCF CHARACTER-18BD0 CHARACTER-18BD1 CHARACTER-18BD2 CHARACTER-18',
+  'BD3 CHARACTER-18BD4 CHARACTER-18BD5 CHARACTER-18BD6 CHARACTER-18BD7 CHARACTER-18BD8 CHARACTER-18',
+  'BD9 CHARACTER-18BDA CHARACTER-18BDB CHARACTER-18BDC CHARACTER-18BDD CHARACTER-18BDE CHARACTER-18',
+  'BDF CHARACTER-18BE0 CHARACTER-18BE1 CHARACTER-18BE2 CHARACTER-18BE3 CHARACTER-18BE4 CHARACTER-18',
+  'BE5 CHARACTER-18BE6 CHARACTER-18BE7 CHARACTER-18BE8 CHARACTER-18BE9 CHARACTER-18BEA CHARACTER-18',
+  'BEB CHARACTER-18BEC CHARACTER-18BED CHARACTER-18BEE CHARACTER-18BEF CHARACTER-18BF0 CHARACTER-18',
+  'BF1 CHARACTER-18BF2 CHARACTER-18BF3 CHARACTER-18BF4 CHARACTER-18BF5 CHARACTER-18BF6 CHARACTER-18',
+  'BF7 CHARACTER-18BF8 CHARACTER-18BF9 CHARACTER-18BFA CHARACTER-18BFB CHARACTER-18BFC CHARACTER-18',
+  'BFD CHARACTER-18BFE CHARACTER-18BFF CHARACTER-18C00 CHARACTER-18C01 CHARACTER-18C02 CHARACTER-18',
+  'C03 CHARACTER-18C04 CHARACTER-18C05 CHARACTER-18C06 CHARACTER-18C07 CHARACTER-18C08 CHARACTER-18',
+  'C09 CHARACTER-18C0A CHARACTER-18C0B CHARACTER-18C0C CHARACTER-18C0D CHARACTER-18C0E CHARACTER-18',
+  'C0F CHARACTER-18C10 CHARACTER-18C11 CHARACTER-18C12 CHARACTER-18C13 CHARACTER-18C14 CHARACTER-18',
+  'C15 CHARACTER-18C16 CHARACTER-18C17 CHARACTER-18C18 CHARACTER-18C19 CHARACTER-18C1A CHARACTER-18',
+  'C1B CHARACTER-18C1C CHARACTER-18C1D CHARACTER-18C1E CHARACTER-18C1F CHARACTER-18C20 CHARACTER-18',
+  'C21 CHARACTER-18C22 CHARACTER-18C23 CHARACTER-18C24 CHARACTER-18C25 CHARACTER-18C26 CHARACTER-18',
+  'C27 CHARACTER-18C28 CHARACTER-18C29 CHARACTER-18C2A CHARACTER-18C2B CHARACTER-18C2C CHARACTER-18',
+  'C2D CHARACTER-18C2E CHARACTER-18C2F CHARACTER-18C30 CHARACTER-18C31 CHARACTER-18C32 CHARACTER-18',
+  'C33 CHARACTER-18C34 CHARACTER-18C35 CHARACTER-18C36 CHARACTER-18C37 CHARACTER-18C38 CHARACTER-18',
+  'C39 CHARACTER-18C3A CHARACTER-18C3B CHARACTER-18C3C CHARACTER-18C3D CHARACTER-18C3E CHARACTER-18',
+  'C3F CHARACTER-18C40 CHARACTER-18C41 CHARACTER-18C42 CHARACTER-18C43 CHARACTER-18C44 CHARACTER-18',
+  'C45 CHARACTER-18C46 CHARACTER-18C47 CHARACTER-18C48 CHARACTER-18C49 CHARACTER-18C4A CHARACTER-18',
+  'C4B CHARACTER-18C4C CHARACTER-18C4D CHARACTER-18C4E CHARACTER-18C4F CHARACTER-18C50 CHARACTER-18',
+  'C51 CHARACTER-18C52 CHARACTER-18C53 CHARACTER-18C54 CHARACTER-18C55 CHARACTER-18C56 CHARACTER-18',
+  'C57 CHARACTER-18C58 CHARACTER-18C59 CHARACTER-18C5A CHARACTER-18C5B CHARACTER-18C5C CHARACTER-18',
+  'C5D CHARACTER-18C5E CHARACTER-18C5F CHARACTER-18C60 CHARACTER-18C61 CHARACTER-18C62 CHARACTER-18',
+  'C63 CHARACTER-18C64 CHARACTER-18C65 CHARACTER-18C66 CHARACTER-18C67 CHARACTER-18C68 CHARACTER-18',
+  'C69 CHARACTER-18C6A CHARACTER-18C6B CHARACTER-18C6C CHARACTER-18C6D CHARACTER-18C6E CHARACTER-18',
+  'C6F CHARACTER-18C70 CHARACTER-18C71 CHARACTER-18C72 CHARACTER-18C73 CHARACTER-18C74 CHARACTER-18',
+  'C75 CHARACTER-18C76 CHARACTER-18C77 CHARACTER-18C78 CHARACTER-18C79 CHARACTER-18C7A CHARACTER-18',
+  'C7B CHARACTER-18C7C CHARACTER-18C7D CHARACTER-18C7E CHARACTER-18C7F CHARACTER-18C80 CHARACTER-18',
+  'C81 CHARACTER-18C82 CHARACTER-18C83 CHARACTER-18C84 CHARACTER-18C85 CHARACTER-18C86 CHARACTER-18',
+  'C87 CHARACTER-18C88 CHARACTER-18C89 CHARACTER-18C8A CHARACTER-18C8B CHARACTER-18C8C CHARACTER-18',
+  'C8D CHARACTER-18C8E CHARACTER-18C8F CHARACTER-18C90 CHARACTER-18C91 CHARACTER-18C92 CHARACTER-18',
+  'C93 CHARACTER-18C94 CHARACTER-18C95 CHARACTER-18C96 CHARACTER-18C97 CHARACTER-18C98 CHARACTER-18',
+  'C99 CHARACTER-18C9A CHARACTER-18C9B CHARACTER-18C9C CHARACTER-18C9D CHARACTER-18C9E CHARACTER-18',
+  'C9F CHARACTER-18CA0 CHARACTER-18CA1 CHARACTER-18CA2 CHARACTER-18CA3 CHARACTER-18CA4 CHARACTER-18',
+  'CA5 CHARACTER-18CA6 CHARACTER-18CA7 CHARACTER-18CA8 CHARACTER-18CA9 CHARACTER-18CAA CHARACTER-18',
+  'CAB CHARACTER-18CAC CHARACTER-18CAD CHARACTER-18CAE CHARACTER-18CAF CHARACTER-18CB0 CHARACTER-18',
+  'CB1 CHARACTER-18CB2 CHARACTER-18CB3 CHARACTER-18CB4 CHARACTER-18CB5 CHARACTER-18CB6 CHARACTER-18',
+  'CB7 CHARACTER-18CB8 CHARACTER-18CB9 CHARACTER-18CBA CHARACTER-18CBB CHARACTER-18CBC CHARACTER-18',
+  'CBD CHARACTER-18CBE CHARACTER-18CBF CHARACTER-18CC0 CHARACTER-18CC1 CHARACTER-18CC2 CHARACTER-18',
+  'CC3 CHARACTER-18CC4 CHARACTER-18CC5 CHARACTER-18CC6 CHARACTER-18CC7 CHARACTER-18CC8 CHARACTER-18',
+  'CC9 CHARACTER-18CCA CHARACTER-18CCB CHARACTER-18CCC CHARACTER-18CCD CHARACTER-18CCE CHARACTER-18',
+  'CCF CHARACTER-18CD0 CHARACTER-18CD1 CHARACTER-18CD2 CHARACTER-18CD3 CHARACTER-18CD4 CHARACTER-18',
+  'CD5 E-1 A-1 A-2 A-3 A-WO I-1 I-2 I-3 I-4 U-1 U-2 U-3 U-4 U-5 E-2 E-3 E-4 E-5 E-6 O-1 O-2 O-3 KA-',
+  '1 KA-2 KA-3 KA-4 KA-5 KA-6 KA-7 KA-8 KA-9 KA-10 KA-11 KA-KE KI-1 KI-2 KI-3 KI-4 KI-5 KI-6 KI-7 K',
+  'I-8 KU-1 KU-2 KU-3 KU-4 KU-5 KU-6 KU-7 KE-1 KE-2 KE-3 KE-4 KE-5 KE-6 KO-1 KO-2 KO-3 KO-KI SA-1 S',
+  'A-3 SA-4 SA-5 SA-6 SA-7 SA-8 SI-1 SI-2 SI-3 SI-4 SI-5 SI-6 SU-1 SU-2 SU-3 SU-4 SU-5 SU-6 SU-7 SU',
+  '-8 SE-1 SE-2 SE-3 SE-4 SE-5 SO-1 SO-2 SO-3 SO-4 SO-5 SO-6 SO-7 TA-1 TA-3 TA-4 TI-1 TI-2 TI-3 TI-',
+  '4 TI-5 TI-6 TI-7 TU-1 TU-2 TU-3 TU-4 TU-TO TE-1 TE-3 TE-4 TE-5 TE-6 TE-7 TE-8 TE-9 TO-1 TO-2 TO-',
+  '3 TO-4 TO-5 TO-6 TO-RA NA-1 NA-3 NA-4 NA-5 NA-6 NA-7 NA-8 NA-9 NI-1 NI-2 NI-3 NI-4 NI-5 NI-6 NI-',
+  '7 NI-TE NU-1 NU-2 NU-3 NE-1 NE-3 NE-4 NE-5 NE-6 NE-KO NO-1 NO-2 NO-3 NO-4 NO-5 HA-1 HA-2 HA-3 HA',
+  '-4 HA-5 HA-6 HA-7 HA-8 HA-9 HA-10 HA-11 HI-1 HI-2 HI-3 HI-4 HI-5 HI-6 HI-7 HU-1 HU-2 HU-3 HE-1 H',
+  'E-2 HE-3 HE-4 HE-5 HE-6 HE-7 HO-1 HO-2 HO-3 HO-4 HO-5 HO-6 HO-7 HO-8 MA-1 MA-2 MA-3 MA-4 MA-5 MA',
+  '-6 MA-7 MI-1 MI-2 MI-3 MI-4 MI-5 MI-6 MI-7 MU-1 MU-2 MU-3 MU-4 ME-1 ME-2 ME-MA MO-1 MO-2 MO-3 MO',
+  '-4 MO-5 MO-6 YA-1 YA-2 YA-3 YA-4 YA-5 YU-1 YU-2 YU-3 YU-4 YO-1 YO-2 YO-3 YO-4 YO-5 YO-6 RA-1 RA-',
+  '3 RA-4 RI-1 RI-2 RI-3 RI-4 RI-5 RI-6 RI-7 RU-1 RU-2 RU-3 RU-4 RU-5 RU-6 RE-1 RE-2 RE-3 RE-4 RO-1',
+  ' RO-2 RO-3 RO-4 RO-5 RO-6 WA-1 WA-2 WA-3 WA-4 WA-5 WI-1 WI-2 WI-3 WI-4 WI-5 WE-1 WE-2 WE-3 WE-4 ',
+  'WO-1 WO-2 WO-3 WO-4 WO-5 WO-6 WO-7 N-MU-MO-1 N-MU-MO-2 CHARACTER-1B170 CHARACTER-1B171 CHARACTER',
+  '-1B172 CHARACTER-1B173 CHARACTER-1B174 CHARACTER-1B175 CHARACTER-1B176 CHARACTER-1B177 CHARACTER',
+  '-1B178 CHARACTER-1B179 CHARACTER-1B17A CHARACTER-1B17B CHARACTER-1B17C CHARACTER-1B17D CHARACTER',
+  '-1B17E CHARACTER-1B17F CHARACTER-1B180 CHARACTER-1B181 CHARACTER-1B182 CHARACTER-1B183 CHARACTER',
+  '-1B184 CHARACTER-1B185 CHARACTER-1B186 CHARACTER-1B187 CHARACTER-1B188 CHARACTER-1B189 CHARACTER',
+  '-1B18A CHARACTER-1B18B CHARACTER-1B18C CHARACTER-1B18D CHARACTER-1B18E CHARACTER-1B18F CHARACTER',
+  '-1B190 CHARACTER-1B191 CHARACTER-1B192 CHARACTER-1B193 CHARACTER-1B194 CHARACTER-1B195 CHARACTER',
+  '-1B196 CHARACTER-1B197 CHARACTER-1B198 CHARACTER-1B199 CHARACTER-1B19A CHARACTER-1B19B CHARACTER',
+  '-1B19C CHARACTER-1B19D CHARACTER-1B19E CHARACTER-1B19F CHARACTER-1B1A0 CHARACTER-1B1A1 CHARACTER',
+  '-1B1A2 CHARACTER-1B1A3 CHARACTER-1B1A4 CHARACTER-1B1A5 CHARACTER-1B1A6 CHARACTER-1B1A7 CHARACTER',
+  '-1B1A8 CHARACTER-1B1A9 CHARACTER-1B1AA CHARACTER-1B1AB CHARACTER-1B1AC CHARACTER-1B1AD CHARACTER',
+  '-1B1AE CHARACTER-1B1AF CHARACTER-1B1B0 CHARACTER-1B1B1 CHARACTER-1B1B2 CHARACTER-1B1B3 CHARACTER',
+  '-1B1B4 CHARACTER-1B1B5 CHARACTER-1B1B6 CHARACTER-1B1B7 CHARACTER-1B1B8 CHARACTER-1B1B9 CHARACTER',
+  '-1B1BA CHARACTER-1B1BB CHARACTER-1B1BC CHARACTER-1B1BD CHARACTER-1B1BE CHARACTER-1B1BF CHARACTER',
+  '-1B1C0 CHARACTER-1B1C1 CHARACTER-1B1C2 CHARACTER-1B1C3 CHARACTER-1B1C4 CHARACTER-1B1C5 CHARACTER',
+  '-1B1C6 CHARACTER-1B1C7 CHARACTER-1B1C8 CHARACTER-1B1C9 CHARACTER-1B1CA CHARACTER-1B1CB CHARACTER',
+  '-1B1CC CHARACTER-1B1CD CHARACTER-1B1CE CHARACTER-1B1CF CHARACTER-1B1D0 CHARACTER-1B1D1 CHARACTER',
+  '-1B1D2 CHARACTER-1B1D3 CHARACTER-1B1D4 CHARACTER-1B1D5 CHARACTER-1B1D6 CHARACTER-1B1D7 CHARACTER',
+  '-1B1D8 CHARACTER-1B1D9 CHARACTER-1B1DA CHARACTER-1B1DB CHARACTER-1B1DC CHARACTER-1B1DD CHARACTER',
+  '-1B1DE CHARACTER-1B1DF CHARACTER-1B1E0 CHARACTER-1B1E1 CHARACTER-1B1E2 CHARACTER-1B1E3 CHARACTER',
+  '-1B1E4 CHARACTER-1B1E5 CHARACTER-1B1E6 CHARACTER-1B1E7 CHARACTER-1B1E8 CHARACTER-1B1E9 CHARACTER',
+  '-1B1EA CHARACTER-1B1EB CHARACTER-1B1EC CHARACTER-1B1ED CHARACTER-1B1EE CHARACTER-1B1EF CHARACTER',
+  '-1B1F0 CHARACTER-1B1F1 CHARACTER-1B1F2 CHARACTER-1B1F3 CHARACTER-1B1F4 CHARACTER-1B1F5 CHARACTER',
+  '-1B1F6 CHARACTER-1B1F7 CHARACTER-1B1F8 CHARACTER-1B1F9 CHARACTER-1B1FA CHARACTER-1B1FB CHARACTER',
+  '-1B1FC CHARACTER-1B1FD CHARACTER-1B1FE CHARACTER-1B1FF CHARACTER-1B200 CHARACTER-1B201 CHARACTER',
+  '-1B202 CHARACTER-1B203 CHARACTER-1B204 CHARACTER-1B205 CHARACTER-1B206 CHARACTER-1B207 CHARACTER',
+  '-1B208 CHARACTER-1B209 CHARACTER-1B20A CHARACTER-1B20B CHARACTER-1B20C CHARACTER-1B20D CHARACTER',
+  '-1B20E CHARACTER-1B20F CHARACTER-1B210 CHARACTER-1B211 CHARACTER-1B212 CHARACTER-1B213 CHARACTER',
+  '-1B214 CHARACTER-1B215 CHARACTER-1B216 CHARACTER-1B217 CHARACTER-1B218 CHARACTER-1B219 CHARACTER',
+  '-1B21A CHARACTER-1B21B CHARACTER-1B21C CHARACTER-1B21D CHARACTER-1B21E CHARACTER-1B21F CHARACTER',
+  '-1B220 CHARACTER-1B221 CHARACTER-1B222 CHARACTER-1B223 CHARACTER-1B224 CHARACTER-1B225 CHARACTER',
+  '-1B226 CHARACTER-1B227 CHARACTER-1B228 CHARACTER-1B229 CHARACTER-1B22A CHARACTER-1B22B CHARACTER',
+  '-1B22C CHARACTER-1B22D CHARACTER-1B22E CHARACTER-1B22F CHARACTER-1B230 CHARACTER-1B231 CHARACTER',
+  '-1B232 CHARACTER-1B233 CHARACTER-1B234 CHARACTER-1B235 CHARACTER-1B236 CHARACTER-1B237 CHARACTER',
+  '-1B238 CHARACTER-1B239 CHARACTER-1B23A CHARACTER-1B23B CHARACTER-1B23C CHARACTER-1B23D CHARACTER',
+  '-1B23E CHARACTER-1B23F CHARACTER-1B240 CHARACTER-1B241 CHARACTER-1B242 CHARACTER-1B243 CHARACTER',
+  '-1B244 CHARACTER-1B245 CHARACTER-1B246 CHARACTER-1B247 CHARACTER-1B248 CHARACTER-1B249 CHARACTER',
+  '-1B24A CHARACTER-1B24B CHARACTER-1B24C CHARACTER-1B24D CHARACTER-1B24E CHARACTER-1B24F CHARACTER',
+  '-1B250 CHARACTER-1B251 CHARACTER-1B252 CHARACTER-1B253 CHARACTER-1B254 CHARACTER-1B255 CHARACTER',
+  '-1B256 CHARACTER-1B257 CHARACTER-1B258 CHARACTER-1B259 CHARACTER-1B25A CHARACTER-1B25B CHARACTER',
+  '-1B25C CHARACTER-1B25D CHARACTER-1B25E CHARACTER-1B25F CHARACTER-1B260 CHARACTER-1B261 CHARACTER',
+  '-1B262 CHARACTER-1B263 CHARACTER-1B264 CHARACTER-1B265 CHARACTER-1B266 CHARACTER-1B267 CHARACTER',
+  '-1B268 CHARACTER-1B269 CHARACTER-1B26A CHARACTER-1B26B CHARACTER-1B26C CHARACTER-1B26D CHARACTER',
+  '-1B26E CHARACTER-1B26F CHARACTER-1B270 CHARACTER-1B271 CHARACTER-1B272 CHARACTER-1B273 CHARACTER',
+  '-1B274 CHARACTER-1B275 CHARACTER-1B276 CHARACTER-1B277 CHARACTER-1B278 CHARACTER-1B279 CHARACTER',
+  '-1B27A CHARACTER-1B27B CHARACTER-1B27C CHARACTER-1B27D CHARACTER-1B27E CHARACTER-1B27F CHARACTER',
+  '-1B280 CHARACTER-1B281 CHARACTER-1B282 CHARACTER-1B283 CHARACTER-1B284 CHARACTER-1B285 CHARACTER',
+  '-1B286 CHARACTER-1B287 CHARACTER-1B288 CHARACTER-1B289 CHARACTER-1B28A CHARACTER-1B28B CHARACTER',
+  '-1B28C CHARACTER-1B28D CHARACTER-1B28E CHARACTER-1B28F CHARACTER-1B290 CHARACTER-1B291 CHARACTER',
+  '-1B292 CHARACTER-1B293 CHARACTER-1B294 CHARACTER-1B295 CHARACTER-1B296 CHARACTER-1B297 CHARACTER',
+  '-1B298 CHARACTER-1B299 CHARACTER-1B29A CHARACTER-1B29B CHARACTER-1B29C CHARACTER-1B29D CHARACTER',
+  '-1B29E CHARACTER-1B29F CHARACTER-1B2A0 CHARACTER-1B2A1 CHARACTER-1B2A2 CHARACTER-1B2A3 CHARACTER',
+  '-1B2A4 CHARACTER-1B2A5 CHARACTER-1B2A6 CHARACTER-1B2A7 CHARACTER-1B2A8 CHARACTER-1B2A9 CHARACTER',
+  '-1B2AA CHARACTER-1B2AB CHARACTER-1B2AC CHARACTER-1B2AD CHARACTER-1B2AE CHARACTER-1B2AF CHARACTER',
+  '-1B2B0 CHARACTER-1B2B1 CHARACTER-1B2B2 CHARACTER-1B2B3 CHARACTER-1B2B4 CHARACTER-1B2B5 CHARACTER',
+  '-1B2B6 CHARACTER-1B2B7 CHARACTER-1B2B8 CHARACTER-1B2B9 CHARACTER-1B2BA CHARACTER-1B2BB CHARACTER',
+  '-1B2BC CHARACTER-1B2BD CHARACTER-1B2BE CHARACTER-1B2BF CHARACTER-1B2C0 CHARACTER-1B2C1 CHARACTER',
+  '-1B2C2 CHARACTER-1B2C3 CHARACTER-1B2C4 CHARACTER-1B2C5 CHARACTER-1B2C6 CHARACTER-1B2C7 CHARACTER',
+  '-1B2C8 CHARACTER-1B2C9 CHARACTER-1B2CA CHARACTER-1B2CB CHARACTER-1B2CC CHARACTER-1B2CD CHARACTER',
+  '-1B2CE CHARACTER-1B2CF CHARACTER-1B2D0 CHARACTER-1B2D1 CHARACTER-1B2D2 CHARACTER-1B2D3 CHARACTER',
+  '-1B2D4 CHARACTER-1B2D5 CHARACTER-1B2D6 CHARACTER-1B2D7 CHARACTER-1B2D8 CHARACTER-1B2D9 CHARACTER',
+  '-1B2DA CHARACTER-1B2DB CHARACTER-1B2DC CHARACTER-1B2DD CHARACTER-1B2DE CHARACTER-1B2DF CHARACTER',
+  '-1B2E0 CHARACTER-1B2E1 CHARACTER-1B2E2 CHARACTER-1B2E3 CHARACTER-1B2E4 CHARACTER-1B2E5 CHARACTER',
+  '-1B2E6 CHARACTER-1B2E7 CHARACTER-1B2E8 CHARACTER-1B2E9 CHARACTER-1B2EA CHARACTER-1B2EB CHARACTER',
+  '-1B2EC CHARACTER-1B2ED CHARACTER-1B2EE CHARACTER-1B2EF CHARACTER-1B2F0 CHARACTER-1B2F1 CHARACTER',
+  '-1B2F2 CHARACTER-1B2F3 CHARACTER-1B2F4 CHARACTER-1B2F5 CHARACTER-1B2F6 CHARACTER-1B2F7 CHARACTER',
+  '-1B2F8 CHARACTER-1B2F9 CHARACTER-1B2FA CHARACTER-1B2FB HL RH WH AOU OOH WOW THICK CHINOOK CONTIN',
+  'UING ZELO RAVNO BORZAYA UDARKA PODVERTKA LOMKA KUPNAYA KACHKA ZEVOK SKOBA RAZSEKA MRACHNO SVETLO',
+  ' TRESVETLO OTSECHKA POLNAYA OBLACHKO TOCHKA DVOETOCHIE ATTACHING LEVEL-2 LEVEL-3 PARAKLIT DVA CH',
+  'ELNU ZANOZHEK OCHKOM PALKA BORZY MRACHNY SVETLY TRESVETLY DERBITSA KHAMILO ZAKRYTOE KOBYLA ZMEYT',
+  'SA ROGOM DVUMYA ZAPYATYMI PODCHASHIEM POLKULIZMY MRACHNOTIKHAYA KRYZHEVAYA POLUPOVODNAYA KLYUCHE',
+  'POVODNAYA PUTNAYA DVOECHELNOKRYZHEVAYA POVODNY KLYUCHEVOY KLYUCHEPOVODNY KLYUCHENEPOSTOYANNY TRY',
+  'ASOGLASNAYA TRYASOPOVODNAYA TRYASOSTRELNAYA TRYASKA KUFISMA OBLAKO DUDA NEMKA PAUK DASEIA KATHIS',
+  'TI SYRMATIKI KREMASTI SYNEVMA THITA PSILON CHAMILON VATHY SAXIMATA PARICHON APODEXIA OXEIAI VARE',
+  'IAI APOTHEMA REVMA TINAGMA ANATRICHISMA META STAVROU LEMOI TRIA KRATIMATA IMIFTHORA KATAVA RAPIS',
+  'MA ICHADIN PETASMA STRAGGISMATA GRONTHISMATA PETASTI KOUFISMA PETASTOKOUFISMA KRATIMOKOUFISMA YP',
+  'SILI SYNDESMOS YPORROI KRATIMOYPORROON ELAFRON CHAMILI MIKRON OMALON ANTIKENOMA LYGISMA KYLISMA ',
+  'ANTIKENOKYLISMA EKSTREPTON SYRMA EPEGERMA XIRON TROMIKOPSIFISTON PSIFISTOLYGISMA TROMIKOLYGISMA ',
+  'TROMIKOPARAKALESMA PSIFISTOPARAKALESMA TROMIKOSYNAGMA PSIFISTOSYNAGMA GORGOSYNTHETON ESO THES AP',
+  'OTHES KATAVASMA ENDOFONON TRIPLI TETRAPLI ENOS TRION TESSARON IMISEOS TRIGORGON ARGON IMIDIARGON',
+  ' DIARGON ARGOTERI METRIA MESI GORGOTERI TRITOS TRIFONIAS ISAKIA TETRAFONIAS VARYS PROTOVARYS DIP',
+  'LOUN ENARXIS IMIFONON IMIFTHORON DEYTEROU ICHOU NAOS DIATONON FHTORA SYNAFI NENANO ZYGOS KLITON ',
+  'SPATHI ENARMONIOS ANTIFONIA MIKRI MEGALI DIGRAMMA GG DIFTOGGOS CAPO CODA FIGURE-1 FIGURE-2 FIGUR',
+  'E-3 CAESURA BRACE ONE-LINE TWO-LINE THREE-LINE FOUR-LINE FIVE-LINE SIX-LINE SIX-STRING FOUR-STRI',
+  'NG CLEF-1 CLEF-2 COMMON MULTI VOID SPRECHGESANG AUGMENTATION FLAG-1 FLAG-2 FLAG-3 FLAG-4 FLAG-5 ',
+  'STACCATO TENUTO STACCATISSIMO MARCATO MARCATO-STACCATO ACCENT-STACCATO LOURE DOIT RIP SMEAR RINF',
+  'ORZANDO SUBITO PIANO MEZZO FORTE CRESCENDO DECRESCENDO TR STROKE-1 STROKE-2 STROKE-3 STROKE-4 ST',
+  'ROKE-5 STROKE-6 STROKE-7 STROKE-8 STROKE-9 STROKE-10 STROKE-11 HAUPTSTIMME NEBENSTIMME STIMME HA',
+  'RMONIC SNAP PIZZICATO FINGERNAILS MAXIMA DIMINUTION-2 DIMINUTION-3 CROIX VIRGA PODATUS CLIVIS CL',
+  'IMACUS RESUPINUS PES SUBPUNCTIS RECITATIVE SORI KORON SYMBOL-3 SYMBOL-6 SYMBOL-9 SYMBOL-10 SYMBO',
+  'L-15 SYMBOL-16 SYMBOL-20 SYMBOL-21 SYMBOL-22 SYMBOL-25 SYMBOL-26 SYMBOL-27 SYMBOL-29 SYMBOL-30 S',
+  'YMBOL-32 SYMBOL-36 SYMBOL-37 SYMBOL-38 SYMBOL-39 SYMBOL-40 SYMBOL-42 SYMBOL-43 SYMBOL-45 SYMBOL-',
+  '47 SYMBOL-48 SYMBOL-49 HEAVENLY MIRED BARRIER CONTRARIETY ASCENT BRANCHING DEFECTIVENESS DISTORT',
+  'ION DIVERGENCE YOUTHFULNESS PENETRATION ADVANCE RELEASE RESISTANCE EASE CONTENTION ENDEAVOUR DUT',
+  'IES CHANGE DECISIVENESS RESOLUTION PACKING LEGION CLOSENESS KINSHIP STRENGTH PURITY FULLNESS RES',
+  'IDENCE MODEL GOING ENCOUNTERS STOVE GREATNESS ENLARGEMENT RITUAL FLIGHT VASTNESS WASTING CONSTAN',
+  'CY UNITY DIMINISHMENT GUARDEDNESS MASSING ACCUMULATION EMBELLISHMENT DOUBT SINKING DIMMING EXHAU',
+  'STION SEVERANCE STOPPAGE HARDNESS CLOSURE FAILURE AGGRAVATION COMPLIANCE VERGE DIFFICULTIES LABO',
+  'URING FOSTERING FACINGS OTHERS TOUCHES COMBINED FAST EVERY OTHER GRADUAL RIM TILT SQUEEZED WIDEN',
+  'ING WINK PUFFED WIGGLES SUCKING BLOW SUCK INHALE EXHALE PRESSED FAR LICKING MOVES AGAINST CHEEK ',
+  'BITE EXCITEMENT SPINE POSITIONS WALLPLANE FLOORPLANE WAIST STRETCH TORSO-FLOORPLANE TWISTING JOI',
+  'NTS COMBINATION LENGTH-1 LENGTH-2 LENGTH-3 LENGTH-4 LENGTH-5 LENGTH-6 LENGTH-7 LOCATION-WALLPLAN',
+  'E LOCATION-FLOORPLANE HEIGHT DEPTH TORSO LIMBS DIGITS MODIFIER-7 MODIFIER-8 MODIFIER-9 MODIFIER-',
+  '10 MODIFIER-11 MODIFIER-12 MODIFIER-13 MODIFIER-14 MODIFIER-15 MODIFIER-16 TRILL NTA NKA NCA NTS',
+  'A NTXA TXA NQA NPA NPLA TONE-B TONE-M TONE-J TONE-V TONE-S TONE-G TONE-D THING ANIMAL INVERTEBRA',
+  'TE NYAJ LLHA AANG UEN YIH TUPNI KOINI NGUN HHYA HHYU HHYI HHYAA HHYEE HHYE HHYO HHWI HHWEE HHWE ',
+  'M065 M095 M076 M048 M179 KUA M126 M118 M114 M045 M194 WUI M143 M061 WVI M049 WVA M139 WVE MUN M0',
+  '59 M094 M154 M189 MUEN M150 M097 M103 M138 M163 M100 M165 M147 M137 M131 M135 M195 M178 M162 M11',
+  '6 M136 M079 M196 SIA M084 M073 M054 M153 M110 M089 M180 M181 M091 M055 M104 M069 M157 M113 M160 ',
+  'M063 M175 M109 M080 M141 M121 M078 M075 M133 M088 M197 FUA M101 NAN M117 M169 NON M176 M186 M096',
+  ' M140 M083 HEEI M128 HOOU M053 M130 M087 M052 M193 M046 HUAN M090 M082 M115 M146 M156 M120 M159 ',
+  'NGGAA M127 NGGUA M086 M106 M183 M155 M111 M168 M190 M166 GUEI M167 GUAN M184 M057 M177 NGUAN M06',
+  '8 M099 M050 M081 M051 M102 M066 M145 M062 M122 M047 M188 M072 M172 M174 M187 MBUU M161 M105 M142',
+  ' M132 M092 M074 M108 M112 M158 M124 M056 M148 M093 M107 M071 M070 M171 M123 M129 M125 M191 M119 ',
+  'M067 M064 M152 M192 M149 M134 M182 M185 M151 M173 M085 M144 M077 M164 NYIN M058 NYAN M170 NYUN M',
+  '098 NYEN M060 NYON TEENS GEMINATE LAKHAN KAROR KARORAN MARRATAN PLUM ORCHID CHRYSANTHEMUM SPRING',
+  ' SUMMER AUTUMN WINTER HORIZONTAL-00-00 HORIZONTAL-00-01 HORIZONTAL-00-02 HORIZONTAL-00-03 HORIZO',
+  'NTAL-00-04 HORIZONTAL-00-05 HORIZONTAL-00-06 HORIZONTAL-01-00 HORIZONTAL-01-01 HORIZONTAL-01-02 ',
+  'HORIZONTAL-01-03 HORIZONTAL-01-04 HORIZONTAL-01-05 HORIZONTAL-01-06 HORIZONTAL-02-00 HORIZONTAL-',
+  '02-01 HORIZONTAL-02-02 HORIZONTAL-02-03 HORIZONTAL-02-04 HORIZONTAL-02-05 HORIZONTAL-02-06 HORIZ',
+  'ONTAL-03-00 HORIZONTAL-03-01 HORIZONTAL-03-02 HORIZONTAL-03-03 HORIZONTAL-03-04 HORIZONTAL-03-05',
+  ' HORIZONTAL-03-06 HORIZONTAL-04-00 HORIZONTAL-04-01 HORIZONTAL-04-02 HORIZONTAL-04-03 HORIZONTAL',
+  '-04-04 HORIZONTAL-04-05 HORIZONTAL-04-06 HORIZONTAL-05-00 HORIZONTAL-05-01 HORIZONTAL-05-02 HORI',
+  'ZONTAL-05-03 HORIZONTAL-05-04 HORIZONTAL-05-05 HORIZONTAL-05-06 HORIZONTAL-06-00 HORIZONTAL-06-0',
+  '1 HORIZONTAL-06-02 HORIZONTAL-06-03 HORIZONTAL-06-04 HORIZONTAL-06-05 HORIZONTAL-06-06 VERTICAL-',
+  '00-00 VERTICAL-00-01 VERTICAL-00-02 VERTICAL-00-03 VERTICAL-00-04 VERTICAL-00-05 VERTICAL-00-06 ',
+  'VERTICAL-01-00 VERTICAL-01-01 VERTICAL-01-02 VERTICAL-01-03 VERTICAL-01-04 VERTICAL-01-05 VERTIC',
+  'AL-01-06 VERTICAL-02-00 VERTICAL-02-01 VERTICAL-02-02 VERTICAL-02-03 VERTICAL-02-04 VERTICAL-02-',
+  '05 VERTICAL-02-06 VERTICAL-03-00 VERTICAL-03-01 VERTICAL-03-02 VERTICAL-03-03 VERTICAL-03-04 VER',
+  'TICAL-03-05 VERTICAL-03-06 VERTICAL-04-00 VERTICAL-04-01 VERTICAL-04-02 VERTICAL-04-03 VERTICAL-',
+  '04-04 VERTICAL-04-05 VERTICAL-04-06 VERTICAL-05-00 VERTICAL-05-01 VERTICAL-05-02 VERTICAL-05-03 ',
+  'VERTICAL-05-04 VERTICAL-05-05 VERTICAL-05-06 VERTICAL-06-00 VERTICAL-06-01 VERTICAL-06-02 VERTIC',
+  'AL-06-03 VERTICAL-06-04 VERTICAL-06-05 VERTICAL-06-06 FOOL TRUMP-1 TRUMP-2 TRUMP-3 TRUMP-4 TRUMP',
+  '-5 TRUMP-6 TRUMP-7 TRUMP-8 TRUMP-9 TRUMP-10 TRUMP-11 TRUMP-12 TRUMP-13 TRUMP-14 TRUMP-15 TRUMP-1',
+  '6 TRUMP-17 TRUMP-18 TRUMP-19 TRUMP-20 TRUMP-21 WZ COPYLEFT SD PPV MD MR DJ CL COOL ID VS HC HDR ',
+  'HI-RES LOSSLESS SHV UHD VOD HOKA KOKO IDEOGRAPH-624B IDEOGRAPH-5B57 IDEOGRAPH-53CC IDEOGRAPH-591',
+  'A IDEOGRAPH-89E3 IDEOGRAPH-5929 IDEOGRAPH-4EA4 IDEOGRAPH-6620 IDEOGRAPH-7121 IDEOGRAPH-6599 IDEO',
+  'GRAPH-524D IDEOGRAPH-5F8C IDEOGRAPH-518D IDEOGRAPH-65B0 IDEOGRAPH-521D IDEOGRAPH-7D42 IDEOGRAPH-',
+  '751F IDEOGRAPH-8CA9 IDEOGRAPH-58F0 IDEOGRAPH-5439 IDEOGRAPH-6F14 IDEOGRAPH-6295 IDEOGRAPH-6355 I',
+  'DEOGRAPH-4E00 IDEOGRAPH-904A IDEOGRAPH-5DE6 IDEOGRAPH-4E2D IDEOGRAPH-53F3 IDEOGRAPH-6307 IDEOGRA',
+  'PH-8D70 IDEOGRAPH-7981 IDEOGRAPH-7A7A IDEOGRAPH-5408 IDEOGRAPH-6E80 IDEOGRAPH-6709 IDEOGRAPH-670',
+  '8 IDEOGRAPH-7533 IDEOGRAPH-5272 IDEOGRAPH-55B6 IDEOGRAPH-914D IDEOGRAPH-672C IDEOGRAPH-5B89 IDEO',
+  'GRAPH-70B9 IDEOGRAPH-76D7 IDEOGRAPH-52DD IDEOGRAPH-6557 ADVANTAGE ACCEPT SHOU SHUANGXI CAI CYCLO',
+  'NE FOGGY STARS MOUNTAINS DUSK SUNSET RAINBOW VOLCANO MILKY EUROPE-AFRICA AMERICAS ASIA-AUSTRALIA',
+  ' MERIDIANS GLOWING SHOOTING TORNADO FOG TACO BURRITO CHESTNUT SEEDLING EVERGREEN DECIDUOUS CACTU',
+  'S TULIP CHERRY ROSE HIBISCUS SUNFLOWER MAIZE HERB CLOVER MAPLE FALLEN MUSHROOM TOMATO AUBERGINE ',
+  'GRAPES WATERMELON TANGERINE LEMON BANANA PINEAPPLE PEAR PEACH CHERRIES STRAWBERRY HAMBURGER PIZZ',
+  'A POULTRY CRACKER COOKED CURRY STEAMING SPAGHETTI FRIES ROASTED DANGO ODEN SUSHI FRIED DESIGN SH',
+  'AVED DOUGHNUT CHOCOLATE CANDY LOLLIPOP CUSTARD HONEY SHORTCAKE BENTO COOKING TEACUP SAKE COCKTAI',
+  'L MUGS PLATE POPPING CORK POPCORN WRAPPED PRESENT BIRTHDAY JACK-O-LANTERN FIREWORKS FIREWORK SPA',
+  'RKLER POPPER CONFETTI TANABATA FLAGS PINE CARP STREAMER CHIME VIEWING CEREMONY SATCHEL GRADUATIO',
+  'N FLOWERS REMINDER JACKS STUDIO SLIDER KNOBS FRAMES ADMISSION TICKETS CAROUSEL FERRIS COASTER FI',
+  'SHING MOVIE CINEMA HEADPHONE ARTIST PALETTE CIRCUS TICKET CLAPPER PERFORMING SLOT BILLIARDS BOWL',
+  'ING CARDS SAXOPHONE GUITAR TRUMPET VIOLIN SCORE SHIRT SASH BASKETBALL HOOP CHEQUERED SNOWBOARDER',
+  ' RUNNER SURFER SPORTS TROPHY AMERICAN RUGBY SWIMMER LIFTER GOLFER MOTORCYCLE VOLLEYBALL PUCK PAD',
+  'DLE CAPPED CAMPING BEACH DERELICT CLASSICAL ISLAND PARK STADIUM GARDEN HOSPITAL AUTOMATED TELLER',
+  ' CONVENIENCE DEPARTMENT FACTORY IZAKAYA LANTERN LABEL BADMINTON SHUTTLECOCK AMPHORA TYPE-1-2 BUF',
+  'FALO LEOPARD CROCODILE SNAIL GOAT ROOSTER CHICKEN OCTOPUS BUG ANT HONEYBEE LADY BLOWFISH HATCHIN',
+  'G FRONT-FACING PENGUIN KOALA POODLE DROMEDARY BACTRIAN DOLPHIN SPOUTING HAMSTER WOLF PANDA PRINT',
+  'S CHIPMUNK FISTED CLAPPING EYEGLASSES NECKTIE T-SHIRT JEANS KIMONO BIKINI PURSE HANDBAG POUCH MA',
+  'NS ATHLETIC HIGH-HEELED BOOTS FOOTPRINTS BUST BUSTS BOY GIRL WOMEN OFFICER BUNNY BRIDE VEIL BLON',
+  'D GUA MAO WORKER PRINCESS OGRE GOBLIN ANGEL EXTRATERRESTRIAL MONSTER IMP DESK GUARDSMAN DANCER L',
+  'IPSTICK NAIL MASSAGE HAIRCUT BARBER SYRINGE PILL GEM COUPLE WEDDING BEATING SPARKLING GROWING SH',
+  'APE BULB BOMB COLLISION SPLASHING PILE FLEXED BICEPS POINTS EXCHANGE WINGS SEAT BRIEFCASE MINIDI',
+  'SC DVD TEAR-OFF CLIPBOARD PAPERCLIP TABS LEDGER DECORATIVE BOOKS BADGE SCROLL MEMO PAGER PUBLIC ',
+  'ADDRESS LOUDSPEAKER CHEERING MEGAPHONE OUTBOX INBOX PACKAGE E-MAIL INCOMING POSTBOX VIBRATION MO',
+  'DE OFF PHONES FLASH TELEVISION VIDEOCASSETTE PROJECTOR PORTABLE STEREO PRAYER BEADS TWISTED PLUG',
+  ' INK SOON NUMBERS TORCH HOCHO PISTOL MICROSCOPE TELESCOPE CRYSTAL BEGINNER EMBLEM MARKS CHAPTER ',
+  'CELTIC KAABA MOSQUE SYNAGOGUE MENORAH BRANCHES HYGIEIA ONE-THIRTY TWO-THIRTY THREE-THIRTY FOUR-T',
+  'HIRTY FIVE-THIRTY SIX-THIRTY SEVEN-THIRTY EIGHT-THIRTY NINE-THIRTY TEN-THIRTY ELEVEN-THIRTY TWEL',
+  'VE-THIRTY RINGING CANDLE MANTELPIECE PIRACY BUSINESS LEVITATING SLEUTH SPY WEB JOYSTICK DANCING ',
+  'MODEM CLAMSHELL LINKED PAPERCLIPS BALLPOINT PAINTBRUSH CRAYON NETWORKED COMPUTERS POCKET CALCULA',
+  'TOR CARTRIDGE WIRED TRACKBALL TILES DIVIDERS CABINET WASTEBASKET MINIMIZE MAXIMIZE COMPRESSION R',
+  'OLLED-UP SPEAKING WORLD MOUNT FUJI TOKYO TOWER STATUE LIBERTY JAPAN MOYAI HALO SAVOURING DELICIO',
+  'US SMIRKING EXPRESSIONLESS UNAMUSED PENSIVE CONFUSED CONFOUNDED THROWING WORRIED ANGRY PERSEVERI',
+  'NG LOOK TRIUMPH ANGUISHED FEARFUL SLEEPY TIRED GRIMACING LOUDLY HUSHED SCREAMING FEAR ASTONISHED',
+  ' FLUSHED MEDICAL WRY UPSIDE-DOWN GOOD BOWING DEEPLY SEE-NO-EVIL HEAR-NO-EVIL SPEAK-NO-EVIL HAPPY',
+  ' CELEBRATION FOLDED HELICOPTER METRO RAIL STATION TROLLEYBUS MINIBUS AMBULANCE RECREATIONAL VEHI',
+  'CLE DELIVERY ARTICULATED LORRY TRACTOR MONORAIL CABLEWAY AERIAL TRAMWAY ROWBOAT SPEEDBOAT CARS I',
+  'TS POTABLE NON-POTABLE BICYCLE BICYCLES PEDESTRIANS CHILDREN MENS WOMENS RESTROOM TOILET CLOSET ',
+  'SHOWER PASSPORT CUSTOMS BAGGAGE CLAIM PROHIBITED BOYS GIRLS COUCH ACCOMMODATION BAGS BELLHOP BED',
+  ' WORSHIP OCTAGONAL TROLLEY STUPA PAGODA HINDU TEMPLE HUT ELEVATOR PLAYGROUND SLIDE BUOY MOTORWAY',
+  ' NORTHEAST-POINTING ARRIVING DIESEL PASSENGER CANOE SLED SAUCER SKATEBOARD AUTO RICKSHAW PICKUP ',
+  'QUINTESSENCE AQUAFORTIS REGIA REGIA-2 VITAE VITAE-2 VINEGAR-2 VINEGAR-3 PHILOSOPHERS SUBLIMATE-2',
+  ' SUBLIMATE-3 CINNABAR NITRE VITRIOL VITRIOL-2 SALT-2 SILVER ORE-2 IRON-COPPER COPPER-2 VERDIGRIS',
+  ' TIN LEAD ANTIMONY-2 REGULUS-2 REGULUS-3 REGULUS-4 ALKALI ALKALI-2 MARCASITE SAL-AMMONIAC ARSENI',
+  'C REALGAR REALGAR-2 AURIPIGMENT BISMUTH TARTAR TARTAR-2 QUICK LIME BORAX BORAX-2 BORAX-3 ALUM TI',
+  'NCTURE POWDER CALX TUTTY CAPUT MORTUUM SCEPTER JOVE STARRED LODESTONE URINE POWDERED AMALGAM STR',
+  'ATUM-2 SUBLIMATION PRECIPITATE DISTILL DISSOLVE DISSOLVE-2 PURIFY PUTREFACTION CRUCIBLE CRUCIBLE',
+  '-2 CRUCIBLE-3 CRUCIBLE-4 CRUCIBLE-5 MARY VAPOURS RETORT DAY-NIGHT BOTTOM-SHADED PINCHED PINCHING',
+  ' ZIPPER-MOUTH MONEY-MOUTH NERD THINKING HEAD-BANDAGE ROBOT HANDSHAKE YOU COWBOY CLOWN NAUSEATED ',
+  'LAUGHING DROOLING LYING SNEEZING EYEBROW SERIOUS VOMITING SHOCKED EXPLODING BREAST-FEEDING PALMS',
+  ' SELFIE PRINCE TUXEDO SHRUG DOING CARTWHEEL JUGGLING FENCER MODERN PENTATHLON WRESTLERS POLO HAN',
+  'DBALL DIVING WILTED DRUMSTICKS GLASSES TUMBLER RIFLE BOXING GLOVE MARTIAL UNIFORM CURLING LACROS',
+  'SE SOFTBALL CROISSANT AVOCADO CUCUMBER BACON CARROT BAGUETTE SALAD SHALLOW STUFFED MILK PEANUTS ',
+  'KIWIFRUIT PANCAKES DUMPLING FORTUNE TAKEOUT CHOPSTICKS STRAW COCONUT BROCCOLI PRETZEL SANDWICH C',
+  'ANNED LEAFY MANGO BAGEL YAWNING TEAR UNEVEN OVERHEATED FREEZING NINJA DISGUISED PLEADING LAB GOG',
+  'GLES HIKING CRAB LION SCORPION TURKEY UNICORN DUCK SHARK OWL BUTTERFLY GORILLA LIZARD RHINOCEROS',
+  ' SQUID GIRAFFE ZEBRA HEDGEHOG SAUROPOD T-REX KANGAROO LLAMA PEACOCK HIPPOPOTAMUS PARROT RACCOON ',
+  'LOBSTER MOSQUITO MICROBE SWAN MAMMOTH DODO SLOTH OTTER ORANGUTAN SKUNK FLAMINGO OYSTER BISON GUI',
+  'DE PROBING CANE BALD SUPERHERO SUPERVILLAIN VEST HEARING AID MOTORIZED MANUAL CHEESE WEDGE CUPCA',
+  'KE SHAKER GARLIC ONION FALAFEL WAFFLE BUTTER MATE TEA TROLL STANDING KNEELING DEAF MONOCLE BEARD',
+  'ED HEADSCARF STEAMY ROOM CLIMBING MAGE FAIRY VAMPIRE MERPERSON ELF GENIE ZOMBIE BRAIN BILLED SCA',
+  'RF GLOVES SOCKS GIFT FIRECRACKER JIGSAW PUZZLE TEST TUBE PETRI DNA HELIX COMPASS ABACUS EXTINGUI',
+  'SHER TOOLBOX MAGNET LOTION SPOOL YARN TEDDY BROOM BASKET ROLL SPONGE RECEIPT NAZAR AMULET BALLET',
+  ' SHOES ONE-PIECE SWIMSUIT BRIEFS DROP ADHESIVE BANDAGE STETHOSCOPE X-RAY CRUTCH YO-YO KITE PARAC',
+  'HUTE MAGIC WAND PINATA NESTING RINGED PLANET RAZOR DIYA BANJO ACCORDION COIN SCREWDRIVER LADDER ',
+  'PLUNGER SEWING NEEDLE KNOT BUCKET TRAP TOOTHBRUSH PLACARD HAMSA WORM COCKROACH POTTED PLANT CORA',
+  'L EGGS ANATOMICAL LUNGS BLUEBERRIES TAMALE FONDUE TEAPOT POURING BEANS MELTING SALUTING PEEKING ',
+  'VIEWER SEXTANT-1 SEXTANT-2 SEXTANT-12 SEXTANT-3 SEXTANT-13 SEXTANT-23 SEXTANT-123 SEXTANT-4 SEXT',
+  'ANT-14 SEXTANT-24 SEXTANT-124 SEXTANT-34 SEXTANT-134 SEXTANT-234 SEXTANT-1234 SEXTANT-5 SEXTANT-',
+  '15 SEXTANT-25 SEXTANT-125 SEXTANT-35 SEXTANT-235 SEXTANT-1235 SEXTANT-45 SEXTANT-145 SEXTANT-245',
+  ' SEXTANT-1245 SEXTANT-345 SEXTANT-1345 SEXTANT-2345 SEXTANT-12345 SEXTANT-6 SEXTANT-16 SEXTANT-2',
+  '6 SEXTANT-126 SEXTANT-36 SEXTANT-136 SEXTANT-236 SEXTANT-1236 SEXTANT-46 SEXTANT-146 SEXTANT-124',
+  '6 SEXTANT-346 SEXTANT-1346 SEXTANT-2346 SEXTANT-12346 SEXTANT-56 SEXTANT-156 SEXTANT-256 SEXTANT',
+  '-1256 SEXTANT-356 SEXTANT-1356 SEXTANT-2356 SEXTANT-12356 SEXTANT-456 SEXTANT-1456 SEXTANT-2456 ',
+  'SEXTANT-12456 SEXTANT-3456 SEXTANT-13456 SEXTANT-23456 BLOCK-1358 ARROWHEAD-SHAPED VOIDED ARMS I',
+  'DEOGRAPH-2F800 IDEOGRAPH-2F801 IDEOGRAPH-2F802 IDEOGRAPH-2F803 IDEOGRAPH-2F804 IDEOGRAPH-2F805 I',
+  'DEOGRAPH-2F806 IDEOGRAPH-2F807 IDEOGRAPH-2F808 IDEOGRAPH-2F809 IDEOGRAPH-2F80A IDEOGRAPH-2F80B I',
+  'DEOGRAPH-2F80C IDEOGRAPH-2F80D IDEOGRAPH-2F80E IDEOGRAPH-2F80F IDEOGRAPH-2F810 IDEOGRAPH-2F811 I',
+  'DEOGRAPH-2F812 IDEOGRAPH-2F813 IDEOGRAPH-2F814 IDEOGRAPH-2F815 IDEOGRAPH-2F816 IDEOGRAPH-2F817 I',
+  'DEOGRAPH-2F818 IDEOGRAPH-2F819 IDEOGRAPH-2F81A IDEOGRAPH-2F81B IDEOGRAPH-2F81C IDEOGRAPH-2F81D I',
+  'DEOGRAPH-2F81E IDEOGRAPH-2F81F IDEOGRAPH-2F820 IDEOGRAPH-2F821 IDEOGRAPH-2F822 IDEOGRAPH-2F823 I',
+  'DEOGRAPH-2F824 IDEOGRAPH-2F825 IDEOGRAPH-2F826 IDEOGRAPH-2F827 IDEOGRAPH-2F828 IDEOGRAPH-2F829 I',
+  'DEOGRAPH-2F82A IDEOGRAPH-2F82B IDEOGRAPH-2F82C IDEOGRAPH-2F82D IDEOGRAPH-2F82E IDEOGRAPH-2F82F I',
+  'DEOGRAPH-2F830 IDEOGRAPH-2F831 IDEOGRAPH-2F832 IDEOGRAPH-2F833 IDEOGRAPH-2F834 IDEOGRAPH-2F835 I',
+  'DEOGRAPH-2F836 IDEOGRAPH-2F837 IDEOGRAPH-2F838 IDEOGRAPH-2F839 IDEOGRAPH-2F83A IDEOGRAPH-2F83B I',
+  'DEOGRAPH-2F83C IDEOGRAPH-2F83D IDEOGRAPH-2F83E IDEOGRAPH-2F83F IDEOGRAPH-2F840 IDEOGRAPH-2F841 I',
+  'DEOGRAPH-2F842 IDEOGRAPH-2F843 IDEOGRAPH-2F844 IDEOGRAPH-2F845 IDEOGRAPH-2F846 IDEOGRAPH-2F847 I',
+  'DEOGRAPH-2F848 IDEOGRAPH-2F849 IDEOGRAPH-2F84A IDEOGRAPH-2F84B IDEOGRAPH-2F84C IDEOGRAPH-2F84D I',
+  'DEOGRAPH-2F84E IDEOGRAPH-2F84F IDEOGRAPH-2F850 IDEOGRAPH-2F851 IDEOGRAPH-2F852 IDEOGRAPH-2F853 I',
+  'DEOGRAPH-2F854 IDEOGRAPH-2F855 IDEOGRAPH-2F856 IDEOGRAPH-2F857 IDEOGRAPH-2F858 IDEOGRAPH-2F859 I',
+  'DEOGRAPH-2F85A IDEOGRAPH-2F85B IDEOGRAPH-2F85C IDEOGRAPH-2F85D IDEOGRAPH-2F85E IDEOGRAPH-2F85F I',
+  'DEOGRAPH-2F860 IDEOGRAPH-2F861 IDEOGRAPH-2F862 IDEOGRAPH-2F863 IDEOGRAPH-2F864 IDEOGRAPH-2F865 I',
+  'DEOGRAPH-2F866 IDEOGRAPH-2F867 IDEOGRAPH-2F868 IDEOGRAPH-2F869 IDEOGRAPH-2F86A IDEOGRAPH-2F86B I',
+  'DEOGRAPH-2F86C IDEOGRAPH-2F86D IDEOGRAPH-2F86E IDEOGRAPH-2F86F IDEOGRAPH-2F870 IDEOGRAPH-2F871 I',
+  'DEOGRAPH-2F872 IDEOGRAPH-2F873 IDEOGRAPH-2F874 IDEOGRAPH-2F875 IDEOGRAPH-2F876 IDEOGRAPH-2F877 I',
+  'DEOGRAPH-2F878 IDEOGRAPH-2F879 IDEOGRAPH-2F87A IDEOGRAPH-2F87B IDEOGRAPH-2F87C IDEOGRAPH-2F87D I',
+  'DEOGRAPH-2F87E IDEOGRAPH-2F87F IDEOGRAPH-2F880 IDEOGRAPH-2F881 IDEOGRAPH-2F882 IDEOGRAPH-2F883 I',
+  'DEOGRAPH-2F884 IDEOGRAPH-2F885 IDEOGRAPH-2F886 IDEOGRAPH-2F887 IDEOGRAPH-2F888 IDEOGRAPH-2F889 I',
+  'DEOGRAPH-2F88A IDEOGRAPH-2F88B IDEOGRAPH-2F88C IDEOGRAPH-2F88D IDEOGRAPH-2F88E IDEOGRAPH-2F88F I',
+  'DEOGRAPH-2F890 IDEOGRAPH-2F891 IDEOGRAPH-2F892 IDEOGRAPH-2F893 IDEOGRAPH-2F894 IDEOGRAPH-2F895 I',
+  'DEOGRAPH-2F896 IDEOGRAPH-2F897 IDEOGRAPH-2F898 IDEOGRAPH-2F899 IDEOGRAPH-2F89A IDEOGRAPH-2F89B I',
+  'DEOGRAPH-2F89C IDEOGRAPH-2F89D IDEOGRAPH-2F89E IDEOGRAPH-2F89F IDEOGRAPH-2F8A0 IDEOGRAPH-2F8A1 I',
+  'DEOGRAPH-2F8A2 IDEOGRAPH-2F8A3 IDEOGRAPH-2F8A4 IDEOGRAPH-2F8A5 IDEOGRAPH-2F8A6 IDEOGRAPH-2F8A7 I',
+  'DEOGRAPH-2F8A8 IDEOGRAPH-2F8A9 IDEOGRAPH-2F8AA IDEOGRAPH-2F8AB IDEOGRAPH-2F8AC IDEOGRAPH-2F8AD I',
+  'DEOGRAPH-2F8AE IDEOGRAPH-2F8AF IDEOGRAPH-2F8B0 IDEOGRAPH-2F8B1 IDEOGRAPH-2F8B2 IDEOGRAPH-2F8B3 I',
+  'DEOGRAPH-2F8B4 IDEOGRAPH-2F8B5 IDEOGRAPH-2F8B6 IDEOGRAPH-2F8B7 IDEOGRAPH-2F8B8 IDEOGRAPH-2F8B9 I',
+  'DEOGRAPH-2F8BA IDEOGRAPH-2F8BB IDEOGRAPH-2F8BC IDEOGRAPH-2F8BD IDEOGRAPH-2F8BE IDEOGRAPH-2F8BF I',
+  'DEOGRAPH-2F8C0 IDEOGRAPH-2F8C1 IDEOGRAPH-2F8C2 IDEOGRAPH-2F8C3 IDEOGRAPH-2F8C4 IDEOGRAPH-2F8C5 I',
+  'DEOGRAPH-2F8C6 IDEOGRAPH-2F8C7 IDEOGRAPH-2F8C8 IDEOGRAPH-2F8C9 IDEOGRAPH-2F8CA IDEOGRAPH-2F8CB I',
+  'DEOGRAPH-2F8CC IDEOGRAPH-2F8CD IDEOGRAPH-2F8CE IDEOGRAPH-2F8CF IDEOGRAPH-2F8D0 IDEOGRAPH-2F8D1 I',
+  'DEOGRAPH-2F8D2 IDEOGRAPH-2F8D3 IDEOGRAPH-2F8D4 IDEOGRAPH-2F8D5 IDEOGRAPH-2F8D6 IDEOGRAPH-2F8D7 I',
+  'DEOGRAPH-2F8D8 IDEOGRAPH-2F8D9 IDEOGRAPH-2F8DA IDEOGRAPH-2F8DB IDEOGRAPH-2F8DC IDEOGRAPH-2F8DD I',
+  'DEOGRAPH-2F8DE IDEOGRAPH-2F8DF IDEOGRAPH-2F8E0 IDEOGRAPH-2F8E1 IDEOGRAPH-2F8E2 IDEOGRAPH-2F8E3 I',
+  'DEOGRAPH-2F8E4 IDEOGRAPH-2F8E5 IDEOGRAPH-2F8E6 IDEOGRAPH-2F8E7 IDEOGRAPH-2F8E8 IDEOGRAPH-2F8E9 I',
+  'DEOGRAPH-2F8EA IDEOGRAPH-2F8EB IDEOGRAPH-2F8EC IDEOGRAPH-2F8ED IDEOGRAPH-2F8EE IDEOGRAPH-2F8EF I',
+  'DEOGRAPH-2F8F0 IDEOGRAPH-2F8F1 IDEOGRAPH-2F8F2 IDEOGRAPH-2F8F3 IDEOGRAPH-2F8F4 IDEOGRAPH-2F8F5 I',
+  'DEOGRAPH-2F8F6 IDEOGRAPH-2F8F7 IDEOGRAPH-2F8F8 IDEOGRAPH-2F8F9 IDEOGRAPH-2F8FA IDEOGRAPH-2F8FB I',
+  'DEOGRAPH-2F8FC IDEOGRAPH-2F8FD IDEOGRAPH-2F8FE IDEOGRAPH-2F8FF IDEOGRAPH-2F900 IDEOGRAPH-2F901 I',
+  'DEOGRAPH-2F902 IDEOGRAPH-2F903 IDEOGRAPH-2F904 IDEOGRAPH-2F905 IDEOGRAPH-2F906 IDEOGRAPH-2F907 I',
+  'DEOGRAPH-2F908 IDEOGRAPH-2F909 IDEOGRAPH-2F90A IDEOGRAPH-2F90B IDEOGRAPH-2F90C IDEOGRAPH-2F90D I',
+  'DEOGRAPH-2F90E IDEOGRAPH-2F90F IDEOGRAPH-2F910 IDEOGRAPH-2F911 IDEOGRAPH-2F912 IDEOGRAPH-2F913 I',
+  'DEOGRAPH-2F914 IDEOGRAPH-2F915 IDEOGRAPH-2F916 IDEOGRAPH-2F917 IDEOGRAPH-2F918 IDEOGRAPH-2F919 I',
+  'DEOGRAPH-2F91A IDEOGRAPH-2F91B IDEOGRAPH-2F91C IDEOGRAPH-2F91D IDEOGRAPH-2F91E IDEOGRAPH-2F91F I',
+  'DEOGRAPH-2F920 IDEOGRAPH-2F921 IDEOGRAPH-2F922 IDEOGRAPH-2F923 IDEOGRAPH-2F924 IDEOGRAPH-2F925 I',
+  'DEOGRAPH-2F926 IDEOGRAPH-2F927 IDEOGRAPH-2F928 IDEOGRAPH-2F929 IDEOGRAPH-2F92A IDEOGRAPH-2F92B I',
+  'DEOGRAPH-2F92C IDEOGRAPH-2F92D IDEOGRAPH-2F92E IDEOGRAPH-2F92F IDEOGRAPH-2F930 IDEOGRAPH-2F931 I',
+  'DEOGRAPH-2F932 IDEOGRAPH-2F933 IDEOGRAPH-2F934 IDEOGRAPH-2F935 IDEOGRAPH-2F936 IDEOGRAPH-2F937 I',
+  'DEOGRAPH-2F938 IDEOGRAPH-2F939 IDEOGRAPH-2F93A IDEOGRAPH-2F93B IDEOGRAPH-2F93C IDEOGRAPH-2F93D I',
+  'DEOGRAPH-2F93E IDEOGRAPH-2F93F IDEOGRAPH-2F940 IDEOGRAPH-2F941 IDEOGRAPH-2F942 IDEOGRAPH-2F943 I',
+  'DEOGRAPH-2F944 IDEOGRAPH-2F945 IDEOGRAPH-2F946 IDEOGRAPH-2F947 IDEOGRAPH-2F948 IDEOGRAPH-2F949 I',
+  'DEOGRAPH-2F94A IDEOGRAPH-2F94B IDEOGRAPH-2F94C IDEOGRAPH-2F94D IDEOGRAPH-2F94E IDEOGRAPH-2F94F I',
+  'DEOGRAPH-2F950 IDEOGRAPH-2F951 IDEOGRAPH-2F952 IDEOGRAPH-2F953 IDEOGRAPH-2F954 IDEOGRAPH-2F955 I',
+  'DEOGRAPH-2F956 IDEOGRAPH-2F957 IDEOGRAPH-2F958 IDEOGRAPH-2F959 IDEOGRAPH-2F95A IDEOGRAPH-2F95B I',
+  'DEOGRAPH-2F95C IDEOGRAPH-2F95D IDEOGRAPH-2F95E IDEOGRAPH-2F95F IDEOGRAPH-2F960 IDEOGRAPH-2F961 I',
+  'DEOGRAPH-2F962 IDEOGRAPH-2F963 IDEOGRAPH-2F964 IDEOGRAPH-2F965 IDEOGRAPH-2F966 IDEOGRAPH-2F967 I',
+  'DEOGRAPH-2F968 IDEOGRAPH-2F969 IDEOGRAPH-2F96A IDEOGRAPH-2F96B IDEOGRAPH-2F96C IDEOGRAPH-2F96D I',
+  'DEOGRAPH-2F96E IDEOGRAPH-2F96F IDEOGRAPH-2F970 IDEOGRAPH-2F971 IDEOGRAPH-2F972 IDEOGRAPH-2F973 I',
+  'DEOGRAPH-2F974 IDEOGRAPH-2F975 IDEOGRAPH-2F976 IDEOGRAPH-2F977 IDEOGRAPH-2F978 IDEOGRAPH-2F979 I',
+  'DEOGRAPH-2F97A IDEOGRAPH-2F97B IDEOGRAPH-2F97C IDEOGRAPH-2F97D IDEOGRAPH-2F97E IDEOGRAPH-2F97F I',
+  'DEOGRAPH-2F980 IDEOGRAPH-2F981 IDEOGRAPH-2F982 IDEOGRAPH-2F983 IDEOGRAPH-2F984 IDEOGRAPH-2F985 I',
+  'DEOGRAPH-2F986 IDEOGRAPH-2F987 IDEOGRAPH-2F988 IDEOGRAPH-2F989 IDEOGRAPH-2F98A IDEOGRAPH-2F98B I',
+  'DEOGRAPH-2F98C IDEOGRAPH-2F98D IDEOGRAPH-2F98E IDEOGRAPH-2F98F IDEOGRAPH-2F990 IDEOGRAPH-2F991 I',
+  'DEOGRAPH-2F992 IDEOGRAPH-2F993 IDEOGRAPH-2F994 IDEOGRAPH-2F995 IDEOGRAPH-2F996 IDEOGRAPH-2F997 I',
+  'DEOGRAPH-2F998 IDEOGRAPH-2F999 IDEOGRAPH-2F99A IDEOGRAPH-2F99B IDEOGRAPH-2F99C IDEOGRAPH-2F99D I',
+  'DEOGRAPH-2F99E IDEOGRAPH-2F99F IDEOGRAPH-2F9A0 IDEOGRAPH-2F9A1 IDEOGRAPH-2F9A2 IDEOGRAPH-2F9A3 I',
+  'DEOGRAPH-2F9A4 IDEOGRAPH-2F9A5 IDEOGRAPH-2F9A6 IDEOGRAPH-2F9A7 IDEOGRAPH-2F9A8 IDEOGRAPH-2F9A9 I',
+  'DEOGRAPH-2F9AA IDEOGRAPH-2F9AB IDEOGRAPH-2F9AC IDEOGRAPH-2F9AD IDEOGRAPH-2F9AE IDEOGRAPH-2F9AF I',
+  'DEOGRAPH-2F9B0 IDEOGRAPH-2F9B1 IDEOGRAPH-2F9B2 IDEOGRAPH-2F9B3 IDEOGRAPH-2F9B4 IDEOGRAPH-2F9B5 I',
+  'DEOGRAPH-2F9B6 IDEOGRAPH-2F9B7 IDEOGRAPH-2F9B8 IDEOGRAPH-2F9B9 IDEOGRAPH-2F9BA IDEOGRAPH-2F9BB I',
+  'DEOGRAPH-2F9BC IDEOGRAPH-2F9BD IDEOGRAPH-2F9BE IDEOGRAPH-2F9BF IDEOGRAPH-2F9C0 IDEOGRAPH-2F9C1 I',
+  'DEOGRAPH-2F9C2 IDEOGRAPH-2F9C3 IDEOGRAPH-2F9C4 IDEOGRAPH-2F9C5 IDEOGRAPH-2F9C6 IDEOGRAPH-2F9C7 I',
+  'DEOGRAPH-2F9C8 IDEOGRAPH-2F9C9 IDEOGRAPH-2F9CA IDEOGRAPH-2F9CB IDEOGRAPH-2F9CC IDEOGRAPH-2F9CD I',
+  'DEOGRAPH-2F9CE IDEOGRAPH-2F9CF IDEOGRAPH-2F9D0 IDEOGRAPH-2F9D1 IDEOGRAPH-2F9D2 IDEOGRAPH-2F9D3 I',
+  'DEOGRAPH-2F9D4 IDEOGRAPH-2F9D5 IDEOGRAPH-2F9D6 IDEOGRAPH-2F9D7 IDEOGRAPH-2F9D8 IDEOGRAPH-2F9D9 I',
+  'DEOGRAPH-2F9DA IDEOGRAPH-2F9DB IDEOGRAPH-2F9DC IDEOGRAPH-2F9DD IDEOGRAPH-2F9DE IDEOGRAPH-2F9DF I',
+  'DEOGRAPH-2F9E0 IDEOGRAPH-2F9E1 IDEOGRAPH-2F9E2 IDEOGRAPH-2F9E3 IDEOGRAPH-2F9E4 IDEOGRAPH-2F9E5 I',
+  'DEOGRAPH-2F9E6 IDEOGRAPH-2F9E7 IDEOGRAPH-2F9E8 IDEOGRAPH-2F9E9 IDEOGRAPH-2F9EA IDEOGRAPH-2F9EB I',
+  'DEOGRAPH-2F9EC IDEOGRAPH-2F9ED IDEOGRAPH-2F9EE IDEOGRAPH-2F9EF IDEOGRAPH-2F9F0 IDEOGRAPH-2F9F1 I',
+  'DEOGRAPH-2F9F2 IDEOGRAPH-2F9F3 IDEOGRAPH-2F9F4 IDEOGRAPH-2F9F5 IDEOGRAPH-2F9F6 IDEOGRAPH-2F9F7 I',
+  'DEOGRAPH-2F9F8 IDEOGRAPH-2F9F9 IDEOGRAPH-2F9FA IDEOGRAPH-2F9FB IDEOGRAPH-2F9FC IDEOGRAPH-2F9FD I',
+  'DEOGRAPH-2F9FE IDEOGRAPH-2F9FF IDEOGRAPH-2FA00 IDEOGRAPH-2FA01 IDEOGRAPH-2FA02 IDEOGRAPH-2FA03 I',
+  'DEOGRAPH-2FA04 IDEOGRAPH-2FA05 IDEOGRAPH-2FA06 IDEOGRAPH-2FA07 IDEOGRAPH-2FA08 IDEOGRAPH-2FA09 I',
+  'DEOGRAPH-2FA0A IDEOGRAPH-2FA0B IDEOGRAPH-2FA0C IDEOGRAPH-2FA0D IDEOGRAPH-2FA0E IDEOGRAPH-2FA0F I',
+  'DEOGRAPH-2FA10 IDEOGRAPH-2FA11 IDEOGRAPH-2FA12 IDEOGRAPH-2FA13 IDEOGRAPH-2FA14 IDEOGRAPH-2FA15 I',
+  'DEOGRAPH-2FA16 IDEOGRAPH-2FA17 IDEOGRAPH-2FA18 IDEOGRAPH-2FA19 IDEOGRAPH-2FA1A IDEOGRAPH-2FA1B I',
+  'DEOGRAPH-2FA1C IDEOGRAPH-2FA1D LANGUAGE SELECTOR-17 VS17 SELECTOR-18 VS18 SELECTOR-19 VS19 SELEC',
+  'TOR-20 VS20 SELECTOR-21 VS21 SELECTOR-22 VS22 SELECTOR-23 VS23 SELECTOR-24 VS24 SELECTOR-25 VS25',
+  ' SELECTOR-26 VS26 SELECTOR-27 VS27 SELECTOR-28 VS28 SELECTOR-29 VS29 SELECTOR-30 VS30 SELECTOR-3',
+  '1 VS31 SELECTOR-32 VS32 SELECTOR-33 VS33 SELECTOR-34 VS34 SELECTOR-35 VS35 SELECTOR-36 VS36 SELE',
+  'CTOR-37 VS37 SELECTOR-38 VS38 SELECTOR-39 VS39 SELECTOR-40 VS40 SELECTOR-41 VS41 SELECTOR-42 VS4',
+  '2 SELECTOR-43 VS43 SELECTOR-44 VS44 SELECTOR-45 VS45 SELECTOR-46 VS46 SELECTOR-47 VS47 SELECTOR-',
+  '48 VS48 SELECTOR-49 VS49 SELECTOR-50 VS50 SELECTOR-51 VS51 SELECTOR-52 VS52 SELECTOR-53 VS53 SEL',
+  'ECTOR-54 VS54 SELECTOR-55 VS55 SELECTOR-56 VS56 SELECTOR-57 VS57 SELECTOR-58 VS58 SELECTOR-59 VS',
+  '59 SELECTOR-60 VS60 SELECTOR-61 VS61 SELECTOR-62 VS62 SELECTOR-63 VS63 SELECTOR-64 VS64 SELECTOR',
+  '-65 VS65 SELECTOR-66 VS66 SELECTOR-67 VS67 SELECTOR-68 VS68 SELECTOR-69 VS69 SELECTOR-70 VS70 SE',
+  'LECTOR-71 VS71 SELECTOR-72 VS72 SELECTOR-73 VS73 SELECTOR-74 VS74 SELECTOR-75 VS75 SELECTOR-76 V',
+  'S76 SELECTOR-77 VS77 SELECTOR-78 VS78 SELECTOR-79 VS79 SELECTOR-80 VS80 SELECTOR-81 VS81 SELECTO',
+  'R-82 VS82 SELECTOR-83 VS83 SELECTOR-84 VS84 SELECTOR-85 VS85 SELECTOR-86 VS86 SELECTOR-87 VS87 S',
+  'ELECTOR-88 VS88 SELECTOR-89 VS89 SELECTOR-90 VS90 SELECTOR-91 VS91 SELECTOR-92 VS92 SELECTOR-93 ',
+  'VS93 SELECTOR-94 VS94 SELECTOR-95 VS95 SELECTOR-96 VS96 SELECTOR-97 VS97 SELECTOR-98 VS98 SELECT',
+  'OR-99 VS99 SELECTOR-100 VS100 SELECTOR-101 VS101 SELECTOR-102 VS102 SELECTOR-103 VS103 SELECTOR-',
+  '104 VS104 SELECTOR-105 VS105 SELECTOR-106 VS106 SELECTOR-107 VS107 SELECTOR-108 VS108 SELECTOR-1',
+  '09 VS109 SELECTOR-110 VS110 SELECTOR-111 VS111 SELECTOR-112 VS112 SELECTOR-113 VS113 SELECTOR-11',
+  '4 VS114 SELECTOR-115 VS115 SELECTOR-116 VS116 SELECTOR-117 VS117 SELECTOR-118 VS118 SELECTOR-119',
+  ' VS119 SELECTOR-120 VS120 SELECTOR-121 VS121 SELECTOR-122 VS122 SELECTOR-123 VS123 SELECTOR-124 ',
+  'VS124 SELECTOR-125 VS125 SELECTOR-126 VS126 SELECTOR-127 VS127 SELECTOR-128 VS128 SELECTOR-129 V',
+  'S129 SELECTOR-130 VS130 SELECTOR-131 VS131 SELECTOR-132 VS132 SELECTOR-133 VS133 SELECTOR-134 VS',
+  '134 SELECTOR-135 VS135 SELECTOR-136 VS136 SELECTOR-137 VS137 SELECTOR-138 VS138 SELECTOR-139 VS1',
+  '39 SELECTOR-140 VS140 SELECTOR-141 VS141 SELECTOR-142 VS142 SELECTOR-143 VS143 SELECTOR-144 VS14',
+  '4 SELECTOR-145 VS145 SELECTOR-146 VS146 SELECTOR-147 VS147 SELECTOR-148 VS148 SELECTOR-149 VS149',
+  ' SELECTOR-150 VS150 SELECTOR-151 VS151 SELECTOR-152 VS152 SELECTOR-153 VS153 SELECTOR-154 VS154 ',
+  'SELECTOR-155 VS155 SELECTOR-156 VS156 SELECTOR-157 VS157 SELECTOR-158 VS158 SELECTOR-159 VS159 S',
+  'ELECTOR-160 VS160 SELECTOR-161 VS161 SELECTOR-162 VS162 SELECTOR-163 VS163 SELECTOR-164 VS164 SE',
+  'LECTOR-165 VS165 SELECTOR-166 VS166 SELECTOR-167 VS167 SELECTOR-168 VS168 SELECTOR-169 VS169 SEL',
+  'ECTOR-170 VS170 SELECTOR-171 VS171 SELECTOR-172 VS172 SELECTOR-173 VS173 SELECTOR-174 VS174 SELE',
+  'CTOR-175 VS175 SELECTOR-176 VS176 SELECTOR-177 VS177 SELECTOR-178 VS178 SELECTOR-179 VS179 SELEC',
+  'TOR-180 VS180 SELECTOR-181 VS181 SELECTOR-182 VS182 SELECTOR-183 VS183 SELECTOR-184 VS184 SELECT',
+  'OR-185 VS185 SELECTOR-186 VS186 SELECTOR-187 VS187 SELECTOR-188 VS188 SELECTOR-189 VS189 SELECTO',
+  'R-190 VS190 SELECTOR-191 VS191 SELECTOR-192 VS192 SELECTOR-193 VS193 SELECTOR-194 VS194 SELECTOR',
+  '-195 VS195 SELECTOR-196 VS196 SELECTOR-197 VS197 SELECTOR-198 VS198 SELECTOR-199 VS199 SELECTOR-',
+  '200 VS200 SELECTOR-201 VS201 SELECTOR-202 VS202 SELECTOR-203 VS203 SELECTOR-204 VS204 SELECTOR-2',
+  '05 VS205 SELECTOR-206 VS206 SELECTOR-207 VS207 SELECTOR-208 VS208 SELECTOR-209 VS209 SELECTOR-21',
+  '0 VS210 SELECTOR-211 VS211 SELECTOR-212 VS212 SELECTOR-213 VS213 SELECTOR-214 VS214 SELECTOR-215',
+  ' VS215 SELECTOR-216 VS216 SELECTOR-217 VS217 SELECTOR-218 VS218 SELECTOR-219 VS219 SELECTOR-220 ',
+  'VS220 SELECTOR-221 VS221 SELECTOR-222 VS222 SELECTOR-223 VS223 SELECTOR-224 VS224 SELECTOR-225 V',
+  'S225 SELECTOR-226 VS226 SELECTOR-227 VS227 SELECTOR-228 VS228 SELECTOR-229 VS229 SELECTOR-230 VS',
+  '230 SELECTOR-231 VS231 SELECTOR-232 VS232 SELECTOR-233 VS233 SELECTOR-234 VS234 SELECTOR-235 VS2',
+  '35 SELECTOR-236 VS236 SELECTOR-237 VS237 SELECTOR-238 VS238 SELECTOR-239 VS239 SELECTOR-240 VS24',
+  '0 SELECTOR-241 VS241 SELECTOR-242 VS242 SELECTOR-243 VS243 SELECTOR-244 VS244 SELECTOR-245 VS245',
+  ' SELECTOR-246 VS246 SELECTOR-247 VS247 SELECTOR-248 VS248 SELECTOR-249 VS249 SELECTOR-250 VS250 ',
+  'SELECTOR-251 VS251 SELECTOR-252 VS252 SELECTOR-253 VS253 SELECTOR-254 VS254 SELECTOR-255 VS255 S',
+  'ELECTOR-256 VS256',
+].join('');
+
+const NAMES = [
+  '!#QTE!#PQ*##QTF!&g!PEP_1#&g!PEg#!#QTG#&Z*PEg#!#QTH#&Z*PEw5!#QTI##QTJ!#P_2##QTK!#w6##QTL!#QTM##P_',
+  '3!#QTN#%S8eJ!%RFeJ!#QTO!#g%#&Z*PEU*!#QU!!#QU#!%U*o-!%T;U*!#QU%#%U*eJ!%PLeJ!#QU&##P_4!%5o-#%P_5o.',
+  '!#QU(#%P_6P.!%o/b8!#]F#%P_6T,!%o/VK!#^J#&P_7PQ+w7!#P_8##QU)!&i9eKP.##QU*!&i9eKP3##QU+!&i9eKP=##Q',
+  'U,!&i9eKPI##QU-!%SAw6##QU.!%P_9P_:#(Z*PEw5Q?!#QU/##c>!#w8#&Z*PES,!#QU0##QU1!#PQ,##QU2!#w7#%o0[#!',
+  '#QU3!&m.[#PI#%PQ-[#!#QU4!&m.[#P=#&m.[#P3!%PQ.[#!#QU5#&m.[#P.!%e%[#!#o1##P_;!#_6#%^+P%#%[MP%#%D##',
+  '%m/##%rF###jK##i:#%OY!#%LY!##Y##%Q1###W.##w9#%X,UE##^K#%4T,#%4P.#%4P3#%4P=#%4PI#%4Q%#%4QE#%4R!#%',
+  '4QD#%4R*##[/##eL#%W2##%Z@##%W3##%]+P%#%rG]G#(+)!:#(+)!P;#(+)!T?#(+)!SJ#(+)!P5#(+)!V!#(+)!S9#(+)!',
+  'SB#(+)!P7#(+)!U3#(+)!S>#(+)!Q@#(+)!S&#(+)!R<#(+)!P2#(+)!TE#(+)!W4#(+)!Q2#(+)!Q3#(+)!S;#(+)!P+#(+',
+  ')!SC#(+)!U+#(+)!TF#(+)!T-#(+)!T%#&OP&R%#%_+^K#&LP&R%#%U,V8#%R+U*#%V0V8#(+%!:#(+%!P;#(+%!T?#(+%!S',
+  'J#(+%!P5#(+%!V!#(+%!S9#(+%!SB#(+%!P7#(+%!U3#(+%!S>#(+%!Q@#(+%!S&#(+%!R<#(+%!P2#(+%!TE#(+%!W4#(+%',
+  '!Q2#(+%!Q3#(+%!S;#(+%!P+#(+%!SC#(+%!U+#(+%!TF#(+%!T-#(+%!T%#&OZAR%#%PLU*#&LZAR%##S.##rH!#PQ/##o2',
+  '!%QU6S8#&R/QU7QU8!#P_<##QU9!&P_=QU:P_>##QU;!&YCP_=P_>##QU<!#Q8##P_?!%P_@U*##YD!(g!PEP_Ao3#(Z*PEP',
+  '_Ao3!#QU=#&S8eJd5!&RFeJd5!#QU>#(S8eJ&P_B!(RFeJ&P_B!#QU?#&U*eJd5!&PLeJd5!#QU@#&h%U*QB!&h%U*a9!#QU',
+  'A#&h%U*QUB!&h%U*Q0!#QUC#%_+Q8!&_+U*o-!#b9#&TGo/P3!#QUD!#QUE#&TGo/P=!#QUF!#QUG##QUH!&i9eKPQ0#&rIP',
+  'Q1P.!%rIQUI!#QUJ#&rIPQ1P3!%rIQUK!#P_C#&d5QULQUM!#QUN#%w8S8!#QUO#%P_DPQ2!#PQ3##P_E!(g!PEP_Fo3!(g!',
+  'PEP_Go3#(Z*PEP_Fo3!(Z*PEP_Go3!#QV!##P_H!&g!PEPQ0##QV#!(TGQV%S8PQ4##QV&!&TGS8PQ4#&eKQV(PQ4!#QV)##',
+  'w:!%PQ0P_I#&QV*QV+P_J!#QV,##P_K!%QV-P_D##QV.!&P_LQV/P_J##QV0!%PQ5_6#&VA^+P%#%P_M##%w;##%h&##%rJ#',
+  '#%o4QG#%Z-###U?#%P_N##&P_OPa![0#)a+P0W![MP%#%VC###PQ6!%d6eM#%QV1###V9#%w<##%QV2##%]<P3#%]<P=#%T+',
+  'V8#%QV3##%Pa###%PJP8##],#%]<P.#&QV4Pa![0#)^LP0W![MP%#(a:SFP.Z.#(a:SFP.Q>#(a:SFP=c?#&VA]+P%#*+)!:',
+  '&V0#*+)!:&T+#*+)!:&U,#*+)!:&S.#*+)!:&U?#++)!:&RBN#(+)![1#*+)!T?&],#*+)!P5&V0#*+)!P5&T+#*+)!P5&U,',
+  '#*+)!P5&U?#*+)!P7&V0#*+)!P7&T+#*+)!P7&U,#*+)!P7&U?#(+)!jL#*+)!R<&S.#*+)!P2&V0#*+)!P2&T+#*+)!P2&U',
+  ',#*+)!P2&S.#*+)!P2&U?#%e&##*+)!P2&PD#*+)!P+&V0#*+)!P+&T+#*+)!P+&U,#*+)!P+&U?#*+)!T-&T+#(+)!jM#)+',
+  '%!m0Q3#*+%!:&V0#*+%!:&T+#*+%!:&U,#*+%!:&S.#*+%!:&U?#++%!:&RBN#(+%![1#*+%!T?&],#*+%!P5&V0#*+%!P5&',
+  'T+#*+%!P5&U,#*+%!P5&U?#*+%!P7&V0#*+%!P7&T+#*+%!P7&U,#*+%!P7&U?#(+%!jL#*+%!R<&S.#*+%!P2&V0#*+%!P2',
+  '&T+#*+%!P2&U,#*+%!P2&S.#*+%!P2&U?#%jN##*+%!P2&PD#*+%!P+&V0#*+%!P+&T+#*+%!P+&U,#*+%!P+&U?#*+%!T-&',
+  'T+#(+%!jM#*+%!T-&U?#*+)!:&V9#*+%!:&V9#*+)!:&W<#*+%!:&W<#*+)!:&c@#*+%!:&c@#*+)!T?&T+#*+%!T?&T+#*+',
+  ')!T?&U,#*+%!T?&U,#++)!T?&P8N#++%!T?&P8N#*+)!T?&Y*#*+%!T?&Y*#*+)!SJ&Y*#*+%!SJ&Y*#*+)!SJ&PD#*+%!SJ',
+  '&PD#*+)!P5&V9#*+%!P5&V9#*+)!P5&W<#*+%!P5&W<#++)!P5&P8N#++%!P5&P8N#*+)!P5&c@#*+%!P5&c@#*+)!P5&Y*#',
+  '*+%!P5&Y*#*+)!S9&U,#*+%!S9&U,#*+)!S9&W<#*+%!S9&W<#++)!S9&P8N#++%!S9&P8N#*+)!S9&],#*+%!S9&],#*+)!',
+  'SB&U,#*+%!SB&U,#*+)!SB&PD#*+%!SB&PD#*+)!P7&S.#*+%!P7&S.#*+)!P7&V9#*+%!P7&V9#*+)!P7&W<#*+%!P7&W<#',
+  '*+)!P7&c@#*+%!P7&c@#++)!P7&P8N#)+%!_LP7#(+)GPa%#(+%GPa%#*+)!U3&U,#*+%!U3&U,#*+)!S>&],#*+%!S>&],#',
+  '(+%!QV5#*+)!Q@&T+#*+%!Q@&T+#*+)!Q@&],#*+%!Q@&],#*+)!Q@&Y*#*+%!Q@&Y*#++)!Q@&PJP8#++%!Q@&PJP8#*+)!',
+  'Q@&PD#*+%!Q@&PD#*+)!R<&T+#*+%!R<&T+#*+)!R<&],#*+%!R<&],#*+)!R<&Y*#*+%!R<&Y*#++%!R<QV6eNi:#(+)!eO',
+  '#(+%!eO#*+)!P2&V9#*+%!P2&V9#*+)!P2&W<#*+%!P2&W<#++)!P2&P0T+#++%!P2&P0T+#(+)GY0#(+%GY0#*+)!Q2&T+#',
+  '*+%!Q2&T+#*+)!Q2&],#*+%!Q2&],#*+)!Q2&Y*#*+%!Q2&Y*#*+)!Q3&T+#*+%!Q3&T+#*+)!Q3&U,#*+%!Q3&U,#*+)!Q3',
+  '&],#*+%!Q3&],#*+)!Q3&Y*#*+%!Q3&Y*#*+)!S;&],#*+%!S;&],#*+)!S;&Y*#*+%!S;&Y*#*+)!S;&PD#*+%!S;&PD#*+',
+  ')!P+&S.#*+%!P+&S.#*+)!P+&V9#*+%!P+&V9#*+)!P+&W<#*+%!P+&W<#++)!P+&RBN#++%!P+&RBN#++)!P+&P0T+#++%!',
+  'P+&P0T+#*+)!P+&c@#*+%!P+&c@#*+)!U+&U,#*+%!U+&U,#*+)!T-&U,#*+%!T-&U,#*+)!T-&U?#*+)!T%&T+#*+%!T%&T',
+  '+#++)!T%&P8N#++%!T%&P8N#*+)!T%&Y*#*+%!T%&Y*#)+%!RMQ3#*+%!P;&PD#*+)!P;&Q!#*+)!P;&w=#*+%!P;&w=#)+)',
+  '!R,QE#)+%!R,QE#)+)!S(P2#*+)!T?&Q!#*+%!T?&Q!#)+)!rKSJ#*+)!SJ&Q!#*+)!SJ&w=#*+%!SJ&w=#)+%!RCa,#)+)!',
+  'TCP5#(+)!g&#)+)!S(P5#*+)!V!&Q!#*+%!V!&Q!#*+)!S9&Q!#(+)!_7#(+%!w>#(+)!WN#*+)!P7&PD#*+)!S>&Q!#*+%!',
+  'S>&Q!#*+%!Q@&QG#*+%!QV7&PD#)+)!RCS&#++)!R<&OQ!#,+%!R<&RMLa-#++)!P2&PJS.#*+)!P2&[%#*+%!P2&[%#(+)!',
+  'X;!(+)!rL#(+%!X;!(+%!rL#*+)!TE&Q!#*+%!TE&Q!#&+!Pa&#)+)!R,P3#)+%!R,P3#(+)!a;#)+!TCa;]H#++%!S;&]-Q',
+  '!#*+)!S;&Q!#*+%!S;&Q!#++)!S;&Y:Q!#*+)!P+&[%#*+%!P+&[%#(+)!XD#*+)!SC&Q!#*+)!T-&Q!#*+%!T-&Q!#*+)!T',
+  '%&PD#*+%!T%&PD#(+)!f!#)+)!f!TC#)+%!f!TC#*+%!f!&W/#)+!P3&PD#)+)!R,Q%#)+%!R,Q%#++!VAZHUE&PD#&+!w?#',
+  '(+!PQ7g(#(+!Pa(g(#(+!Pa)g(#(+!Y:g(#*+)!h(&Y*#.+)!SJ&%!T%&Y*#*+%!h(&Y*#(+)!Pa*#,+)!Q@&%!U3#(+%!Pa',
+  '*#(+)!Pa+#,+)!R<&%!U3#(+%!Pa+#*+)!:&Y*#*+%!:&Y*#*+)!P7&Y*#*+%!P7&Y*#*+)!P2&Y*#*+%!P2&Y*#*+)!P+&Y',
+  '*#*+%!P+&Y*#,+)!P+&U?>V9#,+%!P+&U?>V9#,+)!P+&U?>T+#,+%!P+&U?>T+#,+)!P+&U?>Y*#,+%!P+&U?>Y*#,+)!P+',
+  '&U?>V0#,+%!P+&U?>V0#)+%!RCP5#,+)!:&U?>V9#,+%!:&U?>V9#-+)!:&P8N>V9#-+%!:&P8N>V9#*+)![1&V9#*+%![1&',
+  'V9#*+)!S9&PD#*+%!S9&PD#*+)!S9&Y*#*+%!S9&Y*#*+)!S>&Y*#*+%!S>&Y*#*+)!P2&c@#*+%!P2&c@#,+)!P2&c@>V9#',
+  ',+%!P2&c@>V9#*+)!f!&Y*#*+%!f!&Y*#*+%!U3&Y*#(+)!h(#,+)!SJ&%!T%#(+%!h(#*+)!S9&T+#*+%!S9&T+#(+)!Pa,',
+  '#(+)!w?#*+)!R<&V0#*+%!R<&V0#-+)!:&RBN>T+#-+%!:&RBN>T+#*+)![1&T+#*+%![1&T+#,+)!P2&PD>T+#,+%!P2&PD',
+  '>T+#++)!:&P0V0#++%!:&P0V0#++)!:&VAW<#++%!:&VAW<#++)!P5&P0V0#++%!P5&P0V0#++)!P5&VAW<#++%!P5&VAW<#',
+  '++)!P7&P0V0#++%!P7&P0V0#++)!P7&VAW<#++%!P7&VAW<#++)!P2&P0V0#++%!P2&P0V0#++)!P2&VAW<#++%!P2&VAW<#',
+  '++)!Q2&P0V0#++%!Q2&P0V0#++)!Q2&VAW<#++%!Q2&VAW<#++)!P+&P0V0#++%!P+&P0V0#++)!P+&VAW<#++%!P+&VAW<#',
+  '++)!Q3&W.P6#++%!Q3&W.P6#++)!S;&W.P6#++%!S;&W.P6#(+)!Pa-#(+%!Pa-#*+)!SB&Y*#*+%!SB&Y*#,+)!R<&RMLa-',
+  '#*+%!SJ&_8#(+)!jO#(+%!jO#*+)!T%&Q!#*+%!T%&Q!#++)!:&P8N#++%!:&P8N#*+)!P5&],#*+%!P5&],#,+)!P2&U?>V',
+  '9#,+%!P2&U?>V9#,+)!P2&S.>V9#,+%!P2&S.>V9#++)!P2&P8N#++%!P2&P8N#-+)!P2&P8N>V9#-+%!P2&P8N>V9#*+)!T',
+  '-&V9#*+%!T-&V9#*+%!Q@&_8#*+%!R<&_8#*+%!S;&_8#)+%!_LU3#)+%!Pa.[@#)+%!QV8[@#*+)!:&PD#*+)!T?&PD#*+%',
+  '!T?&PD#*+)!Q@&QG#++)!S;&S2PD#++%!Q3&o5W/#++%!T%&o5W/#)+)!ZHUE#)+%!ZHUE#*+)!P;&PD#)+)!P+QG#)+)!RC',
+  'SC#*+)!P5&PD#*+%!P5&PD#*+)!U3&PD#*+%!U3&PD#,+)!%W4&Q!W/#++%!W4&Q!W/#*+)!Q2&PD#*+%!Q2&PD#*+)!T-&P',
+  'D#*+%!T-&PD#)+%!RC:#(+%!V##)+%!RCV##*+%!P;&Q!#)+%!S(P2#*+%!T?&_8#*+%!SJ&W/#*+%!SJ&Q!#)+%!TCP5#(+',
+  '%!g&#*+%!g&&Q!#)+%!S(P5#*+%!TCS(P5#,+%!TCS(P5&Q!#++%!Y1TCS(P5#++%!_LU3&PD#*+%!S9&Q!#)+%!?S9#)+!%',
+  ')S9#(+%!_7#)+%!Pa/[%#)+%!RCSB#*+%!SB&Q!#*+%!rM&Q!#*+%!P7&PD#(+%!WN#)+!%)P7#++%!Q@&PJS.#*+%!Q@&g)',
+  '#++%!Q@&Y:Q!#(+%!w@#)+%!RCS&#,+%!RCS&&RMa-#*+%!S&&Q!#++%!R<&OQ!#++%!R<&Y:Q!#)+!%)R<#)+%!h)P2#)+!',
+  '%)Y0#)+%!Y1UK#(+%!^>#)+%!RCQ2#,+%!RCQ2&RMa-#++%!RCQ2&Q!#++%!Q2&RMa-#*+%!Q2&W/#*+%!Q2&k!#++%!TCQ2',
+  '&k!#)+!%)Q2#*+!%)VAQ2#*+%!Q3&Q!#(+%!a;#-+%!_LU3&PD>Q!#*+%!Pa0TCa;#*+%!a;&_8#)+%!RCS;#++%!S;&Y:Q!',
+  '#)+%!P+QG#(+%!XD#*+%!SC&Q!#)+%!RCSC#)+%!RCU+#)+%!RCT-#)+!%)T-#++%!T%&Y:Q!#*+%!T%&_8#(+%!f!#*+%!f',
+  '!&_8#(+!ZHUE#)+!k#h*QV9#)+!VAZHUE#(+!^?T?#(+!PQ8g(#)+!%)P;#*+%!Y1S(P5#++!%)S9&Q!#)+!%)SB#*+%!U3&',
+  'i;#)+%!RCS>#)+!%)Q@#*+%!W4&Q!#*+!ZHUE&PD#++!TCZHUE&PD#)+%!h([@#)+%!wA[@#++%!h([@&_8#)+%!wB[@#)+%',
+  '!wC[@#++%!Pa1[@&_8#)+%!PQ9[@#)+%!Pa2[@#)+%!Pa3[@#(+!PQ8Pa4#(+!QV:Pa4#++%!RCSB&k!#-+%!RCSB&k!>W/#',
+  '(P:!%SB#*P:!%SB&Q!#(P:!%U3#(P:!%Q2#)P:!%RCQ2#+P:!%RCQ2&Q!#*P:!%)VAQ2#(P:!%U+#(P:!%T-#&P:!f##(P:!',
+  'P0f##(P:!RCW.#&P:!i:#(P:!TCW.#)P:!LQ>RB#)P:!OQ>RB#(P:!ZHUE#)P:!TCZHUE#(P:!OU@#(P:!LU@#(P:!Q0U@#(',
+  'P:!QBU@#(P:!U,V8##Y*#(P:!PLU*#&P:!V9#(P:!T+V8#(P:!V0V8#)P:!R+PLU*#(P:!R+V9#)P:!R+V0V8#)P:!R+T+V8',
+  '#(P:!_9[/#)P:!Q>_9[/#*P:!i<LQ>RB#*P:!i<OQ>RB#(P:!Q0ZI#(P:!QBZI#(P:!Q1##(P:!_M###W<#%P8N#%RBN##c@',
+  '#%%S.#&P0T+V8#(P:!QV;Q!#(P:!X-V8#(P:!%_7#(P:!%Q@#(P:!%Q3#(P:!%TF#*P:!%TCZHUE#)P:!wDR,QG#)P:!R/R,',
+  'QG#)P:!m1R,QG#)P:!R+R,QG#)P:!wER,QG#*P:!i=PQ:R,P%#*P:!f%PQ:R,P%#&P:!Pa5#&P:!QV<#(P:!P0i:#)P:!R+Q',
+  'BU@#)P:!R+Q0U@#)P:!R+OU@#)P:!R+LU@#(P:!R+RB#)P:!PJV0V8#*P:!PJP0V0V8#*P:!PJP0T+V8#(P:!R+S.#(P:![&',
+  '[/#)P:!k%R/R,#)P:!Z*R/R,#)P:!k%R+R,#)P:!Z*R+R,#&P:!Pa6#(P:!S(Pa6#)P:!R+OB#&FV0V8#&FT+V8#&FU,V8#%',
+  'FS.#%FV9#%Fk&#%FW<#&FP8N#%FU?#&FQ!N#&FRBN#(FP0T+V8#%FY*#(FPLU*N#)FP0PLU*N#(FP0V0V8#%F[(#&FVAW<#(',
+  'FRCW.N#&FW.N#(FTCW.N#(FW.NL#(FV0V8P6#(FT+V8P6#(FOZIP6#(FLZIP6#(FOW!N#%F[%#)FOQ>RBP6#(FQ0ZIP6#(FQ',
+  'BZIP6#(FQ1#P6#(F_M#P6#(FQV=Q!P6#(FY:Q!P6#&FP8P6#&FU?P6#&FRBP6#&FW.P6#%F],#%Fc@#(FPLU*P6#&Fo6P6#)',
+  'FVAP0Pa7P6#&FY*P6#(FU,V8P6#&FW<P6#(FVAW<P6#&FS.P6#&FV9P6#&FR+U*#(FP0R+U*#&FS._,#(FV%PD_,#(FRMPD_',
+  ',#(FV%^K_,#(FRM^K_,#)FLQ>RBP6#(FVAo6P6#&FP&P6#&FQV>P6#&FTFN#&FPLS.#&FP0k&#(FV0R,P%#(FT+R,P%#&FHX',
+  'J#&FHPQ;#(FHb:a<#&FHZ/#&Fo6N#(FZ@#P6#)FP0PLU*P6#(FOW!P6#(FVCS.N#&FPa8N#)Fc#RGP?N#)FOLBP6#(FS3BP6',
+  '##QV?!&FQV@m2#(FLU@N#)FOQ>RBN#%FPQ<#&FTFP6#(FOU@P6#(FLU@P6#+FLU@>Q0U@P6#)FLQ>RBN#(FP8NL#&FY#P6#(',
+  'FP0RBP6#&Ff&N#(FP0W<P6#&FP0W<#&FP0V9#(FP0V9P6#&FP0S.#(FP0VAW<#)FP0Q+BP6#)F+%!:#)F+%!P5#)F+%!P7#)',
+  'F+%!P2#)F+%!P+#)F+%!T?#)F+%!SJ#)F+%!SB#)F+%!S&#)F+%!Q2#)F+%!S;#)F+%!SC#)F+%!TF#(H)!Pa9#(H%!Pa9#)',
+  'H)!YIo7#)H%!YIo7#&HU:##(HQ;U:##)H)!Pa:o8#)H%!Pa:o8&%HZ/#*H%TCh+^,0#*H%Y;h+^,0#+H%TCY;h+^,0#&H]+P',
+  '%#(H)!rN)%Ha<#&Hb:a<#*H)!V#&a<#&Hk(Pa;#*H)!Z0&a<#*H)!WA&a<#*H)!WN&a<%*H)![N&a<%*H)!XD&a<#*H)!UK&',
+  'a<#,H%!WN&b:>a<#(H)!V##(H)!a=#(H)!_7#(H)!a,#(H)!Z0#(H)!e(#(H)!WA#(H)!^@#(H)!WN#(H)!aO#(H)!d7#(H)',
+  '!YJ#(H)![4#(H)!cA#(H)![N#(H)!X.#(H)!]=%(H)!^,#(H)!b!#(H)!XD#(H)!^>#(H)!^-#(H)!b;#(H)!UK#*H)!WN&b',
+  ':#*H)!XD&b:#*H%!V#&a<#*H%!Z0&a<#*H%!WA&a<#*H%!WN&a<#,H%!XD&b:>a<#(H%!V##(H%!a=#(H%!_7#(H%!a,#(H%',
+  '!Z0#(H%!e(#(H%!WA#(H%!^@#(H%!WN#(H%!aO#(H%!d7#(H%!YJ#(H%![4#(H%!cA#(H%![N#(H%!X.#(H%!]=#)H%!P/^,',
+  '#(H%!^,#(H%!b!#(H%!XD#(H%!^>#(H%!^-#(H%!b;#(H%!UK#*H%!WN&b:#*H%!XD&b:#*H%![N&a<#*H%!XD&a<#*H%!UK',
+  '&a<#(H)o90#&Ha=0#&H^@0#)HXD&Q!0#+HXD&T+>Q!0#+HXD&U?>Q!0#&H^>0#&HX.0#&Ho90#(H!YIo:#)H%!YIo:#&H!PQ',
+  '=#(H%!PQ=#&H!o8#(H%!o8#&H!o:#(H%!o:#&H!o7#(H%!o7#(Q-)!k)#(Q-%!k)#(Q-)!Pa<#(Q-%!Pa<#(Q-)!o;#(Q-%!',
+  'o;#(Q-)!o<#(Q-%!o<#(Q-)!o=#(Q-%!o=#(Q-)!m3#(Q-%!m3#(Q-)!Pa=#(Q-%!Pa=#&HaO0#&H]=0#(Hh+^,0#&H!rN#(',
+  'H)^@0#(Hh+Z00#)HTCh+Z00#(H)!g*#(H%!g*#)H)h+^,0#(H)!o>#(H%!o>#)H]=&PD0#*H)TCh+^,0#*H)Y;h+^,0#+H)T',
+  'CY;h+^,0#*P#)!b<&V0#(P#)!PQ>#(P#)!wF#(P#)!PQ?#)P#)!PQ@b<#(P#)!k*#)P#)!Pa>P7#(P#)!-#(P#)!f(#(P#)!',
+  'wG#(P#)!k+#(P#)!Pa?#(P#)!Pa@#*P#)!P7&V0#)P#)!V%P+#(P#)!PaA#(P#)!:#(P#)!cB#(P#)!b=#(P#)!b##(P#)!_',
+  ':#(P#)!b<#(P#)!c%#(P#)!_;#(P#)!P7#)P#)!V%P7#(P#)!Q*#(P#)!_-#(P#)!b%#(P#)!WB#(P#)!P2#(P#)!XK#(P#)',
+  '!cC#(P#)!g+#(P#)!Z7#(P#)!P+#(P#)!h,#(P#)!R&#(P#)!d8#(P#)!^M#(P#)!UF#(P#)!PQA#)P#)!h-##(P#)!g,#)P',
+  '#)!d6##(P#)!P5#(P#)!YK#(P#)!S)#(P#%!:#(P#%!cB#(P#%!b=#(P#%!b##(P#%!_:#(P#%!b<#(P#%!c%#(P#%!_;#(P',
+  '#%!P7#)P#%!V%P7#(P#%!Q*#(P#%!_-#(P#%!b%#(P#%!WB#(P#%!P2#(P#%!XK#(P#%!cC#(P#%!g+#(P#%!Z7#(P#%!P+#',
+  '(P#%!h,#(P#%!R&#(P#%!d8#(P#%!^M#(P#%!UF#(P#%!PQA#)P#%!h-##(P#%!g,#)P#%!d6##(P#%!P5#(P#%!YK#(P#%!',
+  'S)#*P#%!b<&V0#(P#%!PQ>#(P#%!wF#(P#%!PQ?#)P#%!PQ@b<#(P#%!k*#)P#%!Pa>P7#(P#%!-#(P#%!f(#(P#%!wG#(P#',
+  '%!k+#(P#%!Pa?#(P#%!Pa@#*P#%!P7&V0#)P#%!V%P+#(P#%!PaA#(P#)!UK#(P#%!UK#(P#)!i>#(P#%!i>#)P#)!c&P5#)',
+  'P#%!c&P5#)P#)!V,[A#)P#%!V,[A#*P#)!c&V,[A#*P#%!c&V,[A#)P#)!cD[A#)P#%!cD[A#*P#)!c&cD[A#*P#%!c&cD[A',
+  '#(P#)!wH#(P#%!wH#(P#)!b;#(P#%!b;#(P#)!m4#(P#%!m4#(P#)!o?#(P#%!o?#,P#)!o?&P0V0V8#,P#%!o?&P0V0V8#(',
+  'P#)!o@#(P#%!o@#)P#)!e)UK#)P#%!e)UK#*P#)!UK&rO#*P#%!UK&rO#(P#)!wI#(P#%!wI#(P#)!o:#(P#%!o:#&P#k,##',
+  '&FP#rO#&FP#QVA#(FP#TOPaB#(FP#U4PaB#&FP#QVB#)FP#R-k,##(FP#m5##+P#)!V%P7&W/#+P#%!V%P7&W/#)P#)!PaC#',
+  '#)P#%!PaC##*P#)!cC&h.#*P#%!cC&h.#*P#)!b#&PQB#*P#%!b#&PQB#*P#)!b#&PD#*P#%!b#&PD#+P#)!b#&PJQ!#+P#%',
+  '!b#&PJQ!#*P#)!c%&YL#*P#%!c%&YL#*P#)!_;&YL#*P#%!_;&YL#*P#)!Q*&YL#*P#%!Q*&YL#+P#)!Q*&PLPD#+P#%!Q*&',
+  'PLPD#*P#)!Q*&PD#*P#%!Q*&PD#)P#)!PaDQ*#)P#%!PaDQ*#*P#)!WB&YL#*P#%!WB&YL#)P#)GWBb##)P#%GWBb##+P#)!',
+  'XK&PJQ!#+P#%!XK&PJQ!#)P#)!k-R&#)P#%!k-R&#*P#)!g+&YL#*P#%!g+&YL#*P#)!Z7&YL#*P#%!Z7&YL#)P#)!ZBP+#)',
+  'P#%!ZBP+#+P#)!ZBP+&PD#+P#%!ZBP+&PD#*P#)!R&&YL#*P#%!R&&YL#)P#)GZ7d8#)P#%GZ7d8#*P#)!^M&YL#*P#%!^M&',
+  'YL#+P#)!^M&PLPD#+P#%!^M&PLPD#(P#)!wJ#(P#%!wJ#)P#)!k-^M#)P#%!k-^M#+P#)!k-^M&YL#+P#%!k-^M&YL#&P#!P',
+  'aE#*P#)!c%&W<#*P#%!c%&W<#*P#)!Q*&Q!#*P#%!Q*&Q!#*P#)!_-&W/#*P#%!_-&W/#*P#)!WB&Q!#*P#%!WB&Q!#*P#)!',
+  'WB&W/#*P#%!WB&W/#)P#)!PaF^M#)P#%!PaF^M#*P#)!b%&W/#*P#%!b%&W/#(P#%!PaE#*P#)!:&W<#*P#%!:&W<#*P#)!:',
+  '&U?#*P#%!:&U?#)P#)G:b<#)P#%G:b<#*P#)!b<&W<#*P#%!b<&W<#(P#)!g&#(P#%!g&#*P#)!g&&U?#*P#%!g&&U?#*P#)',
+  '!c%&U?#*P#%!c%&U?#*P#)!_;&U?#*P#%!_;&U?#)P#)!k-k*#)P#%!k-k*#*P#)!P7&V9#*P#%!P7&V9#*P#)!P7&U?#*P#',
+  '%!P7&U?#*P#)!P2&U?#*P#%!P2&U?#)P#)!h)P2#)P#%!h)P2#+P#)!h)P2&U?#+P#%!h)P2&U?#*P#)!P5&U?#*P#%!P5&U',
+  '?#*P#)!P+&V9#*P#%!P+&V9#*P#)!P+&U?#*P#%!P+&U?#+P#)!P+&P0T+#+P#%!P+&P0T+#*P#)!^M&U?#*P#%!^M&U?#*P',
+  '#)!b#&YL#*P#%!b#&YL#*P#)!g,&U?#*P#%!g,&U?#,P#)!b#&PD>Q!#,P#%!b#&PD>Q!#*P#)!R&&Q!#*P#%!R&&Q!#*P#)',
+  '!R&&PD#*P#%!R&&PD#)P#)!c(_:#)P#%!c(_:#)P#)!c(wF#)P#%!c(wF#)P#)!c(PaG#)P#%!c(PaG#)P#)!c(PaH#)P#%!',
+  'c(PaH#)P#)!c(wG#)P#%!c(wG#)P#)!c(k+#)P#%!c(k+#)P#)!c(PaI#)P#%!c(PaI#)P#)!c(PaJ#)P#%!c(PaJ#)P#)!T',
+  'C_;#)P#%!TC_;#*P#)!_-&Q!#*P#%!_-&Q!#(P#)!k.#(P#%!k.#(P#)!i?#(P#%!i?#(P#)!s!#(P#%!s!#(P#)!a.#(P#%',
+  '!a.#(P#)!^.#(P#%!^.#)P#)!PaKQ*#)P#%!PaKQ*#+P#)!_-&PJQ!#+P#%!_-&PJQ!#+P#)!WB&PJQ!#+P#%!WB&PJQ!#*P',
+  '#)!XK&YL#*P#%!XK&YL#*P#)!wJ&YL#*P#%!wJ&YL#+P#)!WB&OQ!#+P#%!WB&OQ!#(P#)!PaL#(P#%!PaL#(P#)!PaM#(P#',
+  '%!PaM#*P#)!_-&YL#*P#%!_-&YL%(SN)!PQC#(SN)!PQD#(SN)!PQE#(SN)!S6#(SN)!oA#(SN)!X6#(SN)!h/#(SN)!e*#(',
+  'SN)!P?#(SN)!c%#(SN)!PQF#(SN)!PaN#(SN)!PQG#(SN)!UL#(SN)!oB#(SN)!]I#(SN)!UG#(SN)!PaO#(SN)!Pb!#(SN)',
+  '!g-#(SN)!-#(SN)!wK#(SN)!UF#(SN)!h0#(SN)!VB#(SN)!i@#(SN)!Pb##(SN)!R>#(SN)!Pb%#(SN)!PQH#(SN)!Pb&#(',
+  'SN)!Z1#(SN)!f)#(SN)!PQI#(SN)!PQJ#(SN)!PQK#(SN)!s##(SN)!Z2&*SNP:!OQ>RB#%SNi:#&SNPb(P%#&SN^+P%#%SN',
+  'W.#&SN]+P%#&SNa>P%#)SN%!RCPQC#(SN%!PQC#(SN%!PQD#(SN%!PQE#(SN%!S6#(SN%!oA#(SN%!X6#(SN%!h/#(SN%!e*',
+  '#(SN%!P?#(SN%!c%#(SN%!PQF#(SN%!PaN#(SN%!PQG#(SN%!UL#(SN%!oB#(SN%!]I#(SN%!UG#(SN%!PaO#(SN%!Pb!#(S',
+  'N%!g-#(SN%!-#(SN%!wK#(SN%!UF#(SN%!h0#(SN%!VB#(SN%!i@#(SN%!Pb##(SN%!R>#(SN%!Pb%#(SN%!PQH#(SN%!Pb&',
+  '#(SN%!Z1#(SN%!f)#(SN%!PQI#(SN%!PQJ#(SN%!PQK#(SN%!s##(SN%!Z2#)SN%GoAPQI#*SN%!-&PD#&SNX,UE#%SNeM&(',
+  'wLSNPQL##(wMSNPQL##&SNPb)#%&R0V8QVC#&R0V8PQM#&R0V8QVD#(R0V8Pb*Pb+#(R0V8Pb*QVE#&R0V8QVF#&R0V8QVG#',
+  '&R0V8QVH#&R0V8QVI#&R0V8QVJ#&R0V8QVK#&R0V8PQN#(R0V8PQNQVL#&R0V8Pb,#(R0V8QVMPb-#(R0V8Pb.QVN#&R0V8Q',
+  'VO#(R0V8QW!QW##&R0V8QW%#&R0V8QW&#&R0V8Pb/#(R0V8Pb/QW(#&R0V8QW)#&R0V8QW*#(R0V8Pb.QW+#)R0V8QW,PQDQ',
+  'W-#&R0V8QW.#&R0V8QW/#&R0V8QW0#&R0V8QW1#(R0P%QW2QH#&R0]JQW3#(R0]JPQOPQM#(R0]JPQOwN#(R0]JPQOwO#&R0',
+  ']JPb0#&R0]JQW4#&R0]JPQM#&R0]JwN#&R0]JwO#&R0]JPR!#*R0]JPR!QW5P!oC#&R0]JQW6#)R0]J^NT&PR##&R0]JQW7#',
+  '&R0S<QW8#&R0]Jx!#&R0S<QW9#(R0]J[2P8#(R0]Jx#P8#(R0S<Pb1QW:#(R0P%QCP8#(R0P%Q;P8#(R0S<W8QW;#(R0]JwO',
+  'Pb+-&R0!QF#&R0!oD#&R0!c)#&R0!x%#&R0!YE#&R0!oC#&R0!d9#&R0!Pb2#&R0!m6#&R0!h1#(R0!P/X7#&R0!X7#&R0!x',
+  '&#(R0!P/a?#&R0!a?#(R0!P/W8#&R0!W8#&R0!c*#&R0!f*#(R0!P/XK#&R0!XK#(R0!P/PR%#&R0!PR%#&R0!PR&#&R0!e+',
+  '#&R0![2#&R0!PR()&R0h1S!#)R0Gx(P0oC#)R0Gx(oCh1#)R0Gx(P0h1#&R0S<PQN#&R0S<Pb,0&,D##&,#QW<#&,Pb3k/#&',
+  ',#Pb4#&,#QW=#(,DP%N#&ZJPR)s%#&ZJx)s%#%,Pb5#(ZJs&Pb6##)ZJs&U!RN##%QW>##%,W.#&,Pb7[##(,QW?PR*##&,#',
+  'QW@#),#Pb8s(QWA#(,#s(QWB#(,#QWCs(#),#oEQWDQWE#&,#QWF#(,%R/YM#-,%R/GQF&UH&Q,#(,%R/c+#&,%d:#&,%g.#',
+  '&,%d;#%,eL##QWG!&,!P%#),Z*PEg#P%#),W5P8S<P%#&,]+P%#(,!Pb9Q,#&,!U/#*,!QF&g/N#*,!QF&U/N#*,!Y<&U/N#',
+  '*,!QF&U/P6#*,!Q,&U/N#&,!QF#&,!Y+#(,!X#x*#&,!X##&,!^O#&,!S:#&,!RH#&,!V:#&,!a@#&,!k0#&,!Z1#&,!c+#&',
+  ',!X1#&,!Y2#&,![)#&,![5#&,!YM#&,!d<#&,!Y,#&,!^/#+,!f+&P3R1N#+,!f+&P=R1P6#+,!d=Q,&VASC#,,!d=Q,&P3R',
+  '1N#,,!d=Q,&P=R1N#%,oF#&,!Z2#&,!ZC#&,!X7#&,!UH#&,!Q(#&,!V;#&,!X<#&,!Y<#(,!QFV4#&,!Q,#%,m7#%,s)#%,',
+  's*#%,d:#%,g.#%,d;#%,d>#%,k1#&,Pb:N#&,U/N#&,U/P6#&,YNQF#&,VAg.#(,P%V;s+#%,QWH#*,6#%SCN#+,6#VA%SCN',
+  '#),6#P8P6#&,TCg.#),d:&P3R1#(,g0U/P6#&ZJ4T,#&ZJ4P.#&ZJ4P3#&ZJ4P=#&ZJ4PI#&ZJ4Q%#&ZJ4QE#&ZJ4R!#&ZJ4',
+  'QD#&ZJ4R*#&,rF##&,PR+[##&,k,[##(,Q%Z8W6#(,!_LY+#(,!_LZC#(,!]<QF#(,!QFx+#+,!QF&g0U/N#+,!QF&g0U/P6',
+  '#(,!R/U/#),!R/U/QF#),!R/U/Y<#*,!P+&U/N#),!R/U/Q,#&,!oG#&,!s,#&,!s-#),!X#&RB#,,!X#&P=R1NS/#&,!i@#',
+  '&,!s.#&,!s/#*,!RH&U/N#,,!RH&P3R1PLN#&,!s0#&,!s1#+,!RH&P=R1N#&,!m8#&,!s2#&,!PR,#),!a@&RB#*,!a@&P8',
+  'P6#-,!a@&P8P6>%YM#&,!PR-#&,!PR.#&,!PR/#,,!a@&P=R1NS/#+,!a@&PIR1N#&,!PR0#*,!Z1&%SC#),!Z1&RB#*,!Z1',
+  '&P8P6#+,!Z1&%SCP6#-,!Z1&P8P6>P8N#+,!Z1&P3R1N#&,!PR1#+,!Z1&PIR1N#-,!X1&P8P6>P8N#+,!X1&P=R1P6#/,!X',
+  '1&P=R1P6>P=R1N#+,![)&P3R1P6#+,![)&P=R1N#+,!YM&P=R1N#+,!Y,&P=R1N#(,!_LZ2#+,!Z2&P8QWIP6#*,!Z2&P8P6',
+  '#&,!s3#+,!Z2&P=R1P6#&,!s4#*,!ZC&P8N#+,!ZC&P=R1N#&,!f+#(,!o5X7#),!X7&RB#*,!X7&P8N#&,!_<#+,!X7&P=R',
+  '1P6#&,!h2#),!h2&RB#&,!s5#+,!h2&P3R1P6#&,!s6#+,!h2&P=R1N#*,!UH&%SC#*,!UH&P8N#+,!UH&P=R1N#+,!UH&P=',
+  'R1P6#*,!V;&P8P6#(,!V;s+#&,!s7#),!V;&RB#+,!V;&P=R1N#(,!X<s8#*,!m8&P8N#*,!X<&Q,N#(,!X<k2#+,!X<k2&U',
+  '/N#),!X#x*k2#),!Y<&RB#(,!g1Y0#&,!Y0#&,!P+#&,!YK#(,!g1YK#+,!Y<&P3R1N#&,!b=#(,!d=Q,#),!Q,&W/#*,!Q,',
+  '&%SC#*,!Y<&P8N#&,!P5#+,!Q,&P=R1P6#(,!Q,iA#+,!Q,iA&U/N#&,X,UE#&,![1#.,%R/G[)&UH&QFV4#.,%R/GZC&UH&',
+  'QFV4#*,%R/Q(Q&5#),%R/UHQF#(,%R/S:#),%R/P=R1#(,%R/X1#(,Z*PEPb;#*,g!PEx,_-QWJ#),%R/cET,#*,%R/QWKPb',
+  '<T,#+,%R/_L]>PEV:#*,%R/Q(PG5#(,%R+X1#(,%R/g/#&,%Y<#&,%Q,#(,%R/Q,#(,%R/V;#(,m9PEQWL#),cFVDR+UE#),',
+  'cFVDR/UE#+,cER/UE&QWMVD#(,%R+Q(#*,!a@&VASC#*,!Z1&VASC#(_=ZJ4T,#(_=ZJ4P.#(_=ZJ4P3#(_=ZJ4P=#(_=ZJ4',
+  'PI#(_=ZJ4Q%#(_=ZJ4QE#(_=ZJ4R!#(_=ZJ4QD#(_=ZJ4R*#*,!Y2&P8P6#*,![5&P8P6#*,!^/&P8P6#(,#Pb=jK#),#Pb=',
+  'QWNg-#*,!X<&VASC#(T0Z*PEs9#(T0PR2X,UE#(T0x-X,UE#&T0PR2[/#&T0x-[/#&T0RF[/#(T0[/s:O#(T0[/s:L#)T0PR',
+  '2[/s:O#)T0x-[/s:O!)T0x-[/s:L#%T0QWO#&T0PR3QX!#&T0PR3QX##&T0PR3QX%%&T0a>P%#&T0!Pb>#(T0!]<Pb>#&T0!',
+  'b>#&T0!Pb?#(T0!Pb?Pb@#&T0!PbA#)T0!_LPbAPR4#&T0!YE#&T0!Y<#&T0!c+#&T0!cG#&T0!g2#(T0!g2Pb@#&T0!PbB#',
+  '(T0!PbBYE#&T0!c,#&T0!QX&#&T0!x.#&T0!W8#&T0!PbC#(T0!P/PbC#&T0!P5#&T0!XK#(T0!TCXK#&T0!c-#&T0!QX(#&',
+  'T0!PR4#&T0![2#&T0!b?#(T0!X%PbD#(T0!X%QX)#(T0!X%QX*#&T0PR5N#&T0PR5P6#&T0PR5Y;#&T0PR6N#&T0PR6P6#&T',
+  '0PR6Y;#&T0PbEN#&T0PbEP6#(T0Y;PbFRF#(T0Y;PbFQX+#&T0PbGN#&T0PbGP6#&T0QX,Y;#&T0PbHN#&T0PbHP6#%T0QX-',
+  '#&T0P_OP8#%T0QX.#%T0QX/#)T0P3PLR1N#)T0P3PLR1P6#(T0P=R1N#(T0P=R1P6#(T0b@U*N#(T0b@U*P6#%T0x/#%T0QX',
+  '0&(T0!THQX1#(T0!THPbI#(T0!THf,#,,!Y+&P=R1QX2P6#.,!Y+&P8P6>P=R1N#-,!Y+&P=R1U;S3P6#1,!Y+&P=R1U;S3P',
+  '6>P3R1N#.,!Y+&P3R1P6>P8N#,,!Y+&VA%SCP6#*,!Y+&%SC#+,!RH&P3R1N#-,!RH&P=R1U;S3P6#/,!a@&P3R1k3P6>%YM',
+  '#,,!a@&VA%SCP6#),!Z1&PD#+,!X1&PIR1N#+,!Y,&P3R1N#-,!Y,&P=R1U;S/N#,,!Y,&P3R1k3N#+,!Z2&P3R1P6#-,!Z2',
+  '&P=R1U;S3P6#*,!f+&P8N#+,!f+&P=R1N#-,!f+&P=R1U;S3P6#*,!Q(&P8N#*,!Q(&P8P6#+,!V;&P3R1P6#*,!V;&%YM#*',
+  ',!V;&%SC#),!UH&QG#,,!Z1&P3R1k3N#*,!Z1&U/N#,,!X1&P3R1k3N#-,!RH&%,!YMP6#/,!RH&%,!YM>P3R1#/,!X1&%,!',
+  'YM>P3R1#/,!Z1&%,!YM>P3R1#-,!RH&%,!YMN#-,!QF&_=ZJ4P3N#-,!QF&_=ZJ4P=N#.,!d=Q,&_=ZJ4P3N#.,!d=Q,&_=Z',
+  'J4P=N#.,!d=Q,&_=ZJ4PIP6#-,!Y<&_=ZJ4P3N#-,!Y<&_=ZJ4P=N#.,!Q,iA&_=ZJ4P3N#.,!Q,iA&_=ZJ4P=N#-,!RH&_=',
+  'ZJ4PIP6#-,!X1&_=ZJ4PIN#*,!X1&VASC#+,!X7&P3R1N#&X8!g3#&X8!QX3#&X8!QX4#&X8!s;#&X8!x0#&X8!QX5#&X8!Q',
+  'X6#&X8!QX7#&X8!QX8#&X8!QX9#&X8!QX:#&X8!QX;#&X8!s<#&X8!QX<#&X8!QX=#&X8!QX>#&X8!QX?#&X8!QX@#&X8!QX',
+  'A#&X8!QXB#&X8!oH#&X8!QXC#&X8!QXD#&X8!QXE#&X8!PbJ#&X8!PbK#&X8!PbL#&X8!QXF#&X8!PbM#&X8!QXG#&X8!QXH',
+  '#&X8!QXI#&X8!P?#&X8!f-#&X8!QXJ#&X8!QXK#&X8!QXL#&X8!QXM#%X8QXN#%X8QXO#%X8QY!#%X8QY##%X8QY%#%X8QY&',
+  '#%X8QY(#%X8QY)#%X8QY*#%X8QY+#%X8k1#&X8!oI3&W(4T,#&W(4P.#&W(4P3#&W(4P=#&W(4PI#&W(4Q%#&W(4QE#&W(4R',
+  '!#&W(4QD#&W(4R*#&W(!:#&W(!Y=#&W(!P7#&W(!P5#&W(!P+#&W(!XE#&W(!P2#&W(!QY,#&W(!R<#&W(!T.#&W(!R:#&W(',
+  '!S+#&W(!UG#&W(!VB#&W(!S6#&W(!R>#&W(!a/#&W(!S0#&W(!PR7#&W(!YF#&W(!Q*#&W(!RO#(W(!S#PbN#&W(!RK#&W(!',
+  'VE#&W(!S##&W(!R&#&W(!UM#&W(!S)#(W(!VEPbN#(W(!PR8UG#(W(!PR8VB#(W(!PR8R>#)W(FV%R/R,#)W(FV%R+R,#)W(',
+  'FV%cHR,#)W(FRMPR9R,#)W(FRMR/R,#)W(FRMR+R,#)W(FRMcHR,#(W(FPR:P%#)W(FP0P8N#(W(R/R,i:#(W(R+R,i:#(W(',
+  '0XEQY-#&W(0QY.#%W(W.#&W(^+P%#%W(QY/&%W(QY0#&W(QY1##&W(QY2##&W)!QY3#&W)!PbO#&W)!QY4#&W)!QY5#&W)!P',
+  'R;#&W)!x0#&W)!s=#&W)!PR<#&W)!Pc!#&W)!x1#&W)!Pc##&W)!QY6#&W)!x.#&W)!W8#&W)!QY7#&W)!VK#&W)!g4#&W)!',
+  'QY8#&W)!QY9#&W)!PR4#&W)!Y%#&W)!QY:#&W)P%VK#&W)P%QY;#&W)P%QY<#&W)P%^N#)W)P:!Pc%x1#(W)P%Pc%x1#)W)6',
+  '#RMP5#(W)6#P5#)W)6#Pc&T8#)W)6#RMT8#(W)6#T8#)W)6#Pc&:#)W)6#RM:#(W)6#:#)W)P:!V%:#)W)6#V%:#)W)6#RMP',
+  '+#(W)6#P+#(W)P:!P7#)W)6#RMP7#(W)6#P7#(W)6#P2#(W)6#k1#&W)P%Pc(&&W)S<Pc(#&W)S<QY=#&W)S<QY>#&W)S<QY',
+  '?#&W)S<QY@#&W)S<QYA#&W)a>P%#(W)S<QYBPc)#&W)S<QYC#&W)S<Pc)#&W)S<QYD#&W)S<QYE#&W)S<QYF#(W)S<Pb1QYG',
+  '#&W)S<QYH%&].!QYI#&].!_N#&].!x2#&].!m:#&].!f.#&].!QYJ#&].!Pc*#&].!PR<#&].!QYK#&].!QYL#&].!oJ#&].',
+  '!bA#&].!h3#&].!Z9#&].!d?#&].!VK#&].!Pc+#&].!QYM#&].!s>#&].!PR=#&].!WC#&].!]G#&].!QYN#&].!QYO#&].',
+  '!Y,#&].QZ!P%#&].QZ#P%#&].s?P%&%].S<%(T0!R6UA#(T0!R6UG#(T0!R6VE#(T0!R6X2#(T0!R6Y-#(T0!R6s@#(T0!R6',
+  'Y3#(T0!R6R>#(T0!R6]?#(T0!R6m;#(T0!R6YD**,!QF&_Od:#,,!QF&_OXLLd:#+,!QF&LPJPD#+,!QF&OPJPD#*,!QF&_O',
+  'd;#,,!QF&_OZ:Ld;#,,!QF&_Oe)P8N#,,!QF&_OLe)P8#,,!QF&_OOe)P8#,,!QF&_Oe)P8P6#*,!QF&P8N#/,!QF&_OXLLd',
+  ':>P8N#.,!QF&LPJPD>P8N#/,!QF&_OZ:Ld;>P8N#/,!QF&_OXLLd:>ORB#.,!QF&LPJPD>ORB#/,!QF&_OZ:Ld;>ORB#+,!Q',
+  'F&_OLU/#+,!QF&_OOU/#),oF&Pc,U/#),oF&Pc,Y<#*,oF&P3R1P6#(,!x3Q,#(,Pc-e)P8#(,[&e)P8#+,!V;&VA%SC#,,!',
+  'RH&VA%SCP6#*,!YM&P8P6#+,!YM&P=R1P6#,,!f+&P3R1k3P6#&,PLW/%(,w;P%N#(,QZ%P%N+),%R/_.QZ&#),%R+_.QZ(#',
+  '),%R+_.QZ)#),%R+_.QZ*#&,g/QZ+#(,]<QFQZ,#&,sAg/#),Q>g/R4g/#+,!Y+&%SCP6#*,!Y+&U/N#+,!S:&P3R1N#+,!Y',
+  'M&P3R1N#.,!Z2&P8P6>P=R1N#*,!ZC&P8P6#*,!UH&P0QG#+,!Q(&P=R1N#.,!Q,&P3R1P6>U/N#.,!Q,&P3R1P6>P8N#),!',
+  'Z1&]H#*,!Y<&P8m<#(,!X3Q,#(,!R+QF#+,!a@&P=R1P6#+,![)&P=R1P6#*,!h2&VAPD#(,!ZBY<#+,!c+&VASCN#+,!Y,&',
+  'P=R1P6#*,!X7&P8P6#.,!ZC&P8P6>YCR1N#+,!Y+&%Q(N#+,!i@&%Q(N#+,!X#&%X#N#+,!Z1&%V;N#/,!Q,&P3R1P6>%V;N',
+  '#(,!rKZ2#(,!rKZC#(,!rKV;#*,!i@&%SC#*,!X#&%SC#*,!oG&%SC#*,!m8&%SC#*,!f+&%SC#+,!^/&P=R1N#,,!rKZC&P',
+  '=R1N#+,!S:&P=R1N#+,!S:&P=R1P6#-,!UH&%,!YMN#&,!QZ-#(,%d=Q,#),%R/d=Q,#-,%R/Q,iA&P3R1P6#),%R/_.Pc.#',
+  '(,%R/d<#),T/e)P8N#),T/e)P8P6#&,k1P6#(,T/QHP6#+,T/e)P8aAQHP6#(,%R+Y<#),%R/_.QZ.#(,%R/[)#(,%R/Y,#(',
+  ',%R/ZC#*,%R/V;&d;#*,%R+V;&d;#),%R/_.QZ/#),%R/_.QZ0#),%R/_.QZ1#),%R/_.QZ2#),%R/_.QZ3#),%R/_.QZ4#)',
+  ',%R/Pb3k/#),%R/#Pb4#),QZ5Z*PEPb;#(,RCg.P6#&,ZAd:#&,ZAg.#&,ZAd;#&,ZAm7#&,ZAs)#&,ZAs*#),R,P.P8N#),',
+  'R,P3R1N#(,R,]HN#),R,P.P8P6#),R,P3R1P6#(,R,]HP6#&,S(m7#&,S(s)#&,S(s*#(,%R/Y<#(,d:&RB#),d:&P8N#),d',
+  ';&P8P6#(,OU@N#(,LU@N#(,OU@P6#(,LU@P6#),P0LU@N#+,P0LU@N&P8#*,LU@N&P8#(,g.&P8#),P%aBV;s+#(Q=#VA[(#',
+  '&Q=#[(#&Q=#X&#&Q=#Z3#(Q=!V%:#&Q=!:#&Q=!T8#&Q=!P7#&Q=!U0#&Q=!P+#&Q=!UI#(Q=!QJQ2#(Q=!QJQ@#(Q=!cIP5',
+  '#(Q=!V%P5#&Q=!P5#&Q=!U-#(Q=!cIP2#(Q=!V%P2#&Q=!P2#&Q=!UB#&Q=!Q*#&Q=!VF#&Q=!S=#&Q=!X;#&Q=!UA#&Q=!U',
+  'L#&Q=!VB#&Q=!UG#&Q=!ZD#&Q=!VE#&Q=!X2#&Q=!Y>#&Q=!X9#&Q=!YO#&Q=!Y-#&Q=!S+#&Q=!W0#&Q=!S6#&Q=!XF#&Q=',
+  '!S##&Q=!s@#&Q=!R:#&Q=!WI#&Q=!T.#&Q=!Y3#&Q=!RK#&Q=!S)#&Q=!R>#&Q=!a/#&Q=!RO#&Q=!]?#&Q=!m;#&Q=!WJ#&',
+  'Q=!UF#&Q=!YD#&Q=!S0#&Q=!R&#(Q=6#Y0#(Q=6#Pc/#&Q=#^A#&Q=#c.#(Q=6#T8#(Q=6#P7#(Q=6#U0#(Q=6#P+#(Q=6#U',
+  'I#)Q=6#QJQ2#)Q=6#QJZ!#)Q=6#cIP5#)Q=6#V%P5#(Q=6#P5#(Q=6#U-#)Q=6#cIP2#)Q=6#V%P2#(Q=6#P2#(Q=6#UB#&Q',
+  '=#YG#)Q=6#PR>P5#(Q=6#PR?#%Q=e,#(Q=sB#x4#(Q=sB#sC#&Q=V0V8#&Q=T+V8#*Q=6#cIRMP5#(Q=6#_/#(Q=6#PR@#&Q',
+  '=!a.#&Q=!Pc0#&Q=!PRA#&Q=!X6#&Q=!Pc1#&Q=!i?#&Q=!YF#&Q=!x5#(Q=!QJZ!#(Q=!QJZK#)Q=6#QJQ@#)Q=6#QJZK#%',
+  'Q=[O#&Q=P0[O#&Q=4T,#&Q=4P.#&Q=4P3#&Q=4P=#&Q=4PI#&Q=4Q%#&Q=4QE#&Q=4R!#&Q=4QD#&Q=4R*#&Q=a>##)Q=#R/',
+  'PRBP8#(Q=!cI:#&Q=!Y0#&Q=!Pc/#&Q=!PR?#&Q=!_/#&Q=!PR@#(Q=!QZ6X9#&Q=!_>#(Q=!PHS)#&Q=!oK#&Q=!sD#(Q=!',
+  'ZHUE#&Q=!x6#&Q=!m=#%SOPRC#&SO#[(#&SO#X&#&SO#Z3%&SO!:#&SO!T8#&SO!P7#&SO!U0#&SO!P+#&SO!UI#(SO!QJQ2',
+  '#(SO!QJQ@&&SO!P5#&SO!U-&&SO!P2#&SO!UB#&SO!Q*#&SO!VF#&SO!S=#&SO!X;#&SO!UA#&SO!UL#&SO!VB#&SO!UG#&S',
+  'O!ZD#&SO!VE#&SO!X2#&SO!Y>#&SO!X9#&SO!YO#&SO!Y-#&SO!S+#&SO!W0#&SO!S6#&SO!XF#&SO!S#%&SO!R:#&SO!WI#',
+  '&SO!T.#&SO!Y3#&SO!RK#&SO!S)#&SO!R>%&SO!RO(&SO!UF#&SO!YD#&SO!S0#&SO!R&&&SO#^A#&SO#c.#(SO6#T8#(SO6',
+  '#P7#(SO6#U0#(SO6#P+#(SO6#UI#)SO6#QJQ2#)SO6#QJZ!&(SO6#P5#(SO6#U-&(SO6#P2#(SO6#UB#&SO#YG#(SO!QZ7S+',
+  '-(SOUBcJP%)&SO!a/#&SO!i?%&SO!x5#(SO!QJZ!#(SO!QJZK#)SO6#QJQ@#)SO6#QJZK&&SO4T,#&SO4P.#&SO4P3#&SO4P',
+  '=#&SO4PI#&SO4Q%#&SO4QE#&SO4R!#&SO4QD#&SO4R*#*SO!R>&PJS2#*SO!R>&Q;S2#&SOk4P%#&SOk4##(SOh&oLP.#(SO',
+  'h&oLP3#(SOh&oLP=#(SOh&oLPI#,SOh&oLP.QZ8oMY4Pc2#(SOh&Pc2h4#%SOPc3#&SOQZ9P%#(SO!XGX&#&SOa>##&SOiBP',
+  '%&(U1#QZ:Pc4#&U1#Pc4#&U1#Z3%&U1!:#&U1!T8#&U1!P7#&U1!U0#&U1!P+#&U1!UI)&U1!Y=#&U1!U-&&U1!XE#&U1!UB',
+  '#&U1!Q*#&U1!VF#&U1!S=#&U1!X;#&U1!UA#&U1!UL#&U1!VB#&U1!UG#&U1!ZD#&U1!VE#&U1!X2#&U1!Y>#&U1!X9#&U1!',
+  'YO#&U1!Y-#&U1!S+#&U1!W0#&U1!S6#&U1!XF#&U1!S#%&U1!R:#&U1!WI#&U1!T.#&U1!Y3#&U1!RK#&U1!S)#&U1!R>%&U',
+  '1!RO#&U1!]?%&U1!WJ#&U1!UF%&U1!S0#&U1!R&&&U1#^A%(U16#T8#(U16#P7#(U16#U0#(U16#P+#(U16#UI)(U16#Y=#(',
+  'U16#U-&(U16#XE#(U16#UB#&U1#YG(&U1#QZ;,&U1!Pc0#&U1!PRA#&U1!X6#&U1!a/%&U1!YF,&U14T,#&U14P.#&U14P3#',
+  '&U14P=#&U14PI#&U14Q%#&U14QE#&U14R!#&U14QD#&U14R*#%U1QZ<#%U1QZ=#%U1QZ>#%U1QZ?#&U1oNQZ@#&U1#QZA#&U',
+  '1a>#/&T1#[(#&T1#X&#&T1#Z3%&T1!:#&T1!T8#&T1!P7#&T1!U0#&T1!P+#&T1!UI#(T1!QJQ2#(T1!QJQ@#(T16cIP5%&T',
+  '1!P5#&T1!U-#(T16cIP2%&T1!P2#&T1!UB#&T1!Q*#&T1!VF#&T1!S=#&T1!X;#&T1!UA#&T1!UL#&T1!VB#&T1!UG#&T1!Z',
+  'D#&T1!VE#&T1!X2#&T1!Y>#&T1!X9#&T1!YO#&T1!Y-#&T1!S+#&T1!W0#&T1!S6#&T1!XF#&T1!S#%&T1!R:#&T1!WI#&T1',
+  '!T.#&T1!Y3#&T1!RK#&T1!S)#&T1!R>%&T1!RO#&T1!]?%&T1!WJ#&T1!UF#&T1!YD#&T1!S0#&T1!R&&&T1#^A#&T1#c.#(',
+  'T16#T8#(T16#P7#(T16#U0#(T16#P+#(T16#UI#)T16#QJQ2#)T16#QJZ!#)T16#cIP5%(T16#P5#(T16#U-#)T16#cIP2%(',
+  'T16#P2#(T16#UB#&T1#YG&%T1e,4(T1!QJZ!#(T1!QJZK#)T16#QJQ@#)T16#QJZK&&T14T,#&T14P.#&T14P3#&T14P=#&T',
+  '14PI#&T14Q%#&T14QE#&T14R!#&T14QD#&T14R*#&T1a>##&T1k4#,&T1!_>#&T1#k1#&T1#d>#&T1#Pb:#)T1#QZB^AN#)T',
+  '1#QH^AN#)T1#PRD^AN%&T2#[(#&T2#X&#&T2#Z3%&T2!:#&T2!T8#&T2!P7#&T2!U0#&T2!P+#&T2!UI#(T2!QJQ2#(T2!QJ',
+  'Q@&&T2!P5#&T2!U-&&T2!P2#&T2!UB#&T2!Q*#&T2!VF#&T2!S=#&T2!X;#&T2!UA#&T2!UL#&T2!VB#&T2!UG#&T2!ZD#&T',
+  '2!VE#&T2!X2#&T2!Y>#&T2!X9#&T2!YO#&T2!Y-#&T2!S+#&T2!W0#&T2!S6#&T2!XF#&T2!S#%&T2!R:#&T2!WI#&T2!T.#',
+  '&T2!Y3#&T2!RK#&T2!S)#&T2!R>%&T2!RO#&T2!]?%&T2!WJ#&T2!UF#&T2!YD#&T2!S0#&T2!R&&&T2#^A#&T2#c.#(T26#',
+  'T8#(T26#P7#(T26#U0#(T26#P+#(T26#UI#)T26#QJQ2#)T26#QJZ!&(T26#P5#(T26#U-&(T26#P2#(T26#UB#&T2#YG,&T',
+  '2#k&#(T2U-cJP%#(T2UBcJP%)&T2!a/#&T2!i?%&T2!x5#(T2!QJZ!#(T2!QJZK#)T26#QJQ@#)T26#QJZK&&T24T,#&T24P',
+  '.#&T24P3#&T24P=#&T24PI#&T24Q%#&T24QE#&T24R!#&T24QD#&T24R*#%T2Pc3#&T2!UM#(T2SFP.Z.#(T2SFP.Q>#(T2S',
+  'FP=c?#(T2SFP.oO#(T2SFP.Z4#(T2SFP=x7/&R3#X&#&R3#Z3%&R3!:#&R3!T8#&R3!P7#&R3!U0#&R3!P+#&R3!UI(&R3!P',
+  '5#&R3!Y=#&R3!U-%&R3!P2#&R3!XE#&R3!UB#&R3!Q*(&R3!UA#&R3!UL%&R3!UG%&R3!VE#&R3!X2(&R3!Y-#&R3!S+(&R3',
+  '!S##&R3!s@#&R3!R:(&R3!RK#&R3!S)#&R3!R>#&R3!a/#&R3!RO#&R3!]?#&R3!m;#&R3!WJ#&R3!UF#&R3!YD#&R3!S0#&',
+  'R3!R&)(R36#T8#(R36#P7#(R36#U0#(R36#P+#(R36#UI((R36#P5#(R36#Y=#(R36#U-%(R36#P2#(R36#XE#(R36#UB#&R',
+  '3#YG&%R3e,+(R3UBcJP%3&R34T,#&R34P.#&R34P3#&R34P=#&R34PI#&R34Q%#&R34QE#&R34R!#&R34QD#&R34R*#&R3DU',
+  '!#(R3DP.R-#(R3DP.RN#&R3[6##&R3PRE##&R3Pc5##&R3QZC##&R3PRF##(R3d?N##&R3k4##&R3D#*)S?#F[(N#&S?#[(#',
+  '&S?#X&#&S?#Z3#)S?#FX&N#&S?!:#&S?!T8#&S?!P7#&S?!U0#&S?!P+#&S?!UI#(S?!QJQ2#(S?!QJQ@%&S?!P5#&S?!Y=#',
+  '&S?!U-%&S?!P2#&S?!XE#&S?!UB#&S?!Q*#&S?!VF#&S?!S=#&S?!X;#&S?!UA#&S?!UL#&S?!VB#&S?!UG#&S?!ZD#&S?!V',
+  'E#&S?!X2#&S?!Y>#&S?!X9#&S?!YO#&S?!Y-#&S?!S+#&S?!W0#&S?!S6#&S?!XF#&S?!S#%&S?!R:#&S?!WI#&S?!T.#&S?',
+  '!Y3#&S?!RK#&S?!S)#&S?!R>#&S?!a/#&S?!RO#&S?!]?#&S?!m;#&S?!WJ#&S?!UF#&S?!YD#&S?!S0#&S?!R&&&S?#^A#&',
+  'S?#c.#(S?6#T8#(S?6#P7#(S?6#U0#(S?6#P+#(S?6#UI#)S?6#QJQ2#)S?6#QJZ!%(S?6#P5#(S?6#Y=#(S?6#U-%(S?6#P',
+  '2#(S?6#XE#(S?6#UB#&S?#YG,&S?cJP%#(S?U-cJP%%&S?!]!#&S?!e-#&S?!QZD&(S?!Pc6Pc7&(S?!QJZ!#(S?!QJZK#)S',
+  '?6#QJQ@#)S?6#QJZK&&S?4T,#&S?4P.#&S?4P3#&S?4P=#&S?4PI#&S?4Q%#&S?4QE#&S?4R!#&S?4QD#&S?4R*,&S?#SG#-',
+  'S?SF4T,P!m>m?PEPI#-S?SF4P.P!m>m?PEPI#-S?SF4P3P!m>m?PEPI#-S?SF4P=P!m>m?PEPI#-S?SF4P.P!p!m?PEPI#-S',
+  '?SF4P3P!p!m?PEPI#-S?SF4P=P!p!m?PEPI#&S?#QZE#(T3#PRB[(#&T3#[(#&T3#X&#&T3#Z3#&T3#SG#&T3!:#&T3!T8#&',
+  'T3!P7#&T3!U0#&T3!P+#&T3!UI#(T3!QJQ2#(T3!QJQ@%&T3!P5#&T3!Y=#&T3!U-%&T3!P2#&T3!XE#&T3!UB#&T3!Q*#&T',
+  '3!VF#&T3!S=#&T3!X;#&T3!UA#&T3!UL#&T3!VB#&T3!UG#&T3!ZD#&T3!VE#&T3!X2#&T3!Y>#&T3!X9#&T3!YO#&T3!Y-#',
+  '&T3!S+#&T3!W0#&T3!S6#&T3!XF#&T3!S#%&T3!R:#&T3!WI#&T3!T.#&T3!Y3#&T3!RK#&T3!S)#&T3!R>#&T3!a/#&T3!R',
+  'O#&T3!]?%&T3!WJ#&T3!UF#&T3!YD#&T3!S0#&T3!R&&&T3#^A#&T3#c.#(T36#T8#(T36#P7#(T36#U0#(T36#P+#(T36#U',
+  'I#)T36#QJQ2#)T36#QJZ!%(T36#P5#(T36#Y=#(T36#U-%(T36#P2#(T36#XE#(T36#UB#&T3#YG,&T3cJP%#(T3U-cJP%+(',
+  'T3!Pc6Pc7#&T3!YF!&T3!m;%(T3!QJZ!#(T3!QJZK#)T36#QJQ@#)T36#QJZK&&T34T,#&T34P.#&T34P3#&T34P=#&T34PI',
+  '#&T34Q%#&T34QE#&T34R!#&T34QD#&T34R*%&T3#p##&T3#p%2)R6#FX&N#&R6#[(#&R6#X&#&R6#Z3#(R6!XGX&#&R6!:#&',
+  'R6!T8#&R6!P7#&R6!U0#&R6!P+#&R6!UI#(R6!QJQ2#(R6!QJQ@%&R6!P5#&R6!Y=#&R6!U-%&R6!P2#&R6!XE#&R6!UB#&R',
+  '6!Q*#&R6!VF#&R6!S=#&R6!X;#&R6!UA#&R6!UL#&R6!VB#&R6!UG#&R6!ZD#&R6!VE#&R6!X2#&R6!Y>#&R6!X9#&R6!YO#',
+  '&R6!Y-#&R6!S+#&R6!W0#&R6!S6#&R6!XF#&R6!S##&R6!s@#&R6!R:#&R6!WI#&R6!T.#&R6!Y3#&R6!RK#&R6!S)#&R6!R',
+  '>#&R6!a/#&R6!RO#&R6!]?#&R6!m;#&R6!WJ#&R6!UF#&R6!YD#&R6!S0#&R6!R&#&R6!Pc8#)R6#PLQGYG#(R6#sEYG#&R6',
+  '#c.#(R66#T8#(R66#P7#(R66#U0#(R66#P+#(R66#UI#)R66#QJQ2#)R66#QJZ!%(R66#P5#(R66#Y=#(R66#U-%(R66#P2#',
+  '(R66#XE#(R66#UB#&R6#YG#(R6!P8QZF#&R6#Pb-)(R6!iCS&#(R6!iCT-#(R6!iCQZG#(R6UBcJP%#(R6SFP.Pc9#(R6SFP',
+  '.Pc:#(R6SFP=Pc;#(R6SFP.Pc<#(R6SFP.PRG#(R6SFP=Pc=#(R6SFP.PRH#(R6!YIU0#(R6!QJZ!#(R6!QJZK#)R66#QJQ@',
+  '#)R66#QJZK&&R64T,#&R64P.#&R64P3#&R64P=#&R64PI#&R64Q%#&R64QE#&R64R!#&R64QD#&R64R*#&R6DU!#(R6DP.R-',
+  '#(R6DP.RN#(R6SFP.Z.#(R6SFP.Q>#(R6SFP=c?#(R6SFP.oO#(R6SFP.Z4#(R6SFP=x7#&R6Pb7P%#(R6!iCsF#(R6!iCR<',
+  '#(R6!iCZ!#(R6!iCQ@#(R6!iCZK#(R6!iCS>%&S*#[(#&S*#QZH#&S*#QZI%&S*!QZJ#&S*!QZK#&S*!QZL#&S*!QZM#&S*!',
+  'QZN#&S*!QZO#&S*!Q[!#&S*!Q[##&S*!Q[%#&S*!Q[&#&S*!Q[(#&S*!Q[)#&S*!Q[*#&S*!Q[+#&S*!Q[,#&S*!Q[-#&S*!',
+  'Q[.#&S*!Q[/((S*!h5Pc>#(S*!h6Pc>#(S*!h5PRI#(S*!h6PRI#(S*!Q[0Pc?#(S*!x8PRI#(S*!h5Pc@#(S*!h6Pc@#(S*',
+  '!h5PRJ#(S*!h6PRJ#(S*!PRKPc?#)S*!PRKQ[1Q[2#(S*!x8PRJ#(S*!h5PcA#(S*!h6PcA#(S*!h5PRL#(S*!h6PRL#(S*!',
+  'PRMPcB#(S*!x8PRL#(S*!h5PcC#(S*!h6PcC#(S*!h5PRN#(S*!h6PRN#(S*!PROPcB%(S*!x8PRN#(S*!h5PcD#(S*!h6Pc',
+  'D#(S*!h5PS!#(S*!h6PS!#&S*!Q[3#(S*!Q[4PS!#&S*!Q[5#&S*!Q[6%(S*!PROPcE&&S*!Q[7#(S*!PRKPS##(S*!PRMPS',
+  '##(S*!PROPS##&S*!Q[8#(S*!PRMPcE#&S*!Q[9(&S*#Q[:)(S*6#PS%#)S*6#PS&PcF#)S*6#m@PcF#)S*6#PS&PcG#)S*6',
+  '#m@PcG#)S*6#PS&PcH%)S*6#m@PcH%(S*6#PcI#(S*6#sG#)S*6#m@sG#)S*6#Q[;Q[<#*S*6#sGg3PS%#+S*6#sGg3m@PS%',
+  '#*S*6#sGg3PS(#(S*6#PS(+(S*h74T,#(S*h74P.#(S*h74P3#(S*h74P=#(S*h74PI#(S*h74Q%#(S*h74QE#(S*h74R!#(',
+  'S*h74QD#(S*h74R*&)S*6#m@PcI#)S*6#m@PS(#&S*S<Q[=1(T@S8^Bo9#(T@S8f/PcJ#(T@S8f/Q[>#(T@S8f/Q[?#(T@S8',
+  'f/Q[@#(T@S8f/Q[A#(T@S8mAQ[B#(T@S8g5Q[C#(T@S8g5Q[D#(T@S8g5Q[E#(T@S8]F]F#(T@S8g5Q[F#(T@S8[7Q[G#(T@',
+  'S8a0Q[H#(T@S8P?Q[I#(T@S8a!oM#(T@S8a!Q[J#(T@S8a!Q[K#(T@S8YCPS)#(T@S8a0Q[L#(T@S8P?Q[M#(T@S8a!Q[N#(',
+  'T@S8a!Q[O#(T@S8a!PcK#(T@S8YC[4#(T@S8f0Q]!#(T@S8b&x9#(T@S8g6Q]##(T@S8e.YF#(T@S8g6Q]%#(T@S8e.PcL#(',
+  'T@S8g6Q]&#(T@S8_?RK#(T@S8[7PS*#(T@S8]KQ](#&T@S8_0#(T@S8a#PcM#&T@S8^0#(T@S8_!Q])#(T@S8]FQ]*#(T@S8',
+  ']FQ]+#(T@S8]FPS+#(T@S8]Ip&#(T@S8a#Q],#(T@S8P2e/#(T@S8]IQ]-#&T@S8Q].#(T@S8d@:#(T@S8_@Q]/#(T@S8d@T',
+  '8#(T@S8d@h3#(T@S8d@P7#(T@S8d@U0#(T@S8d@_/#(T@S8d@Q]0#(T@S8d@P+#(T@S8d@UI#&T@S8Q]1)(T@h&0Q]2#(T@S',
+  '8d@P5#(T@S8d@[1#(T@S8d@P2#)T@S8d@U-Q]3#)T@S8d@U-Q]4#&T@S8Q]5#&T@S8Q]6#&T@S8Q]7#(T@S8_@oN#(T@S8_@',
+  'a!#(T@S8_@Q]8#(T@S8_@Q]9#&T@S8Q]:#&T@S8Q];#&T@S8Q]<#&T@S8Q]=#&T@4T,#&T@4P.#&T@4P3#&T@4P=#&T@4PI#',
+  '&T@4Q%#&T@4QE#&T@4R!#&T@4QD#&T@4R*#&T@S8Q]>#&T@S8Q]?J&TD!^B#(TD!f/p(%(TD!f/mB%(TD!e0X;#&TD!mA#&T',
+  'D!f)#(TD!e0VB#(TD!]FmB%(TD!e0ZD#&TD!iD#(TD!e0VE#(TD!e0X2#(TD!e0Y>#(TD!e0X9#(TD!e0YO#(TD!e0Y-#&TD',
+  '!a0#&TD!P?#(TD!a!p(#(TD!a!mB#(TD!e0XF#&TD!YC#&TD!f0#&TD!b&#(TD!g6p(#(TD!e.PcN!(TD!e.mB#(TD!g6mB#',
+  '(TD!e.Q]@!(TD!e.p(#(TD!e0Y3#&TD!_?#&TD![7#(TD!a#PcM!&TD!]K%&TD!a#!(TD!a#PcO%&TD!_!#(TD!Pd!UF#(TD',
+  '!Pd!YD#(TD!]Fp(#(TD!]Ip(#(TD!e0]?#&TD!P2#(TD!]ImB#%TDk5#(TD6#:#)TD6#_@p)#(TD6#T8#(TD6#h3#(TD6#P7',
+  '#(TD6#U0#(TD6#T-#(TD6#PS,#(TD6#P+#(TD6#UI#(TD#e0YG#)TD6#_@Pd##(TDPd%#a##(TDPd%#iD&(TD6#P5#(TD6#i',
+  'E#(TD6#P2#(TD6#f1#(TD6#U-%&TD^BRO%(TDR,_@oN#(TDR,_@a!#(TDR,_@aC#(TDR,_@Q]A#&TDx:P%#%TDQ]B&&TD4T,',
+  '#&TD4P.#&TD4P3#&TD4P=#&TD4PI#&TD4Q%#&TD4QE#&TD4R!#&TD4QD#&TD4R*&&TD]IYC#&TD]I_?#(TD!Pd&dA#(TD!Pd',
+  '&iDE&Q#(e,#+Q#P%sHf2c/Q]C:#-Q#P%sHf2c/Pd(Pd)Pd*RK#-Q#P%sHf2c/Pd(sHg7RK#+Q#P%Q&f2c/Pd+RK#+Q#P%sIf',
+  '2c/Pd,RK#,Q#P%h8f2c/Pd-c0RK#+Q#P%f2c/g7c0RK#(Q#P%Q]Dc0#)Q#P%Q]Ef2c/#*Q#P%Pd.PS-f2c/#(Q#P%Q]Fg7#)',
+  'Q#P%x;g7Q]G#&Q#P%c0#(Q#P%x<c0#(Q#P%g7c0#)Q#P%x<g7c0#*Q#P%Q]HQ]IQ]Jc0#)Q#P%Pd/Pd0c0#,Q#P%h8Pd1e1[',
+  '*RMc>#(Q#P%sHg7#)Q#Pd2#Q]Ke1#)Q#Pd2#Q]Le1#+Q#iF#Q]MQ]NQ]Oe1#)Q#iF#Q^!R:#)Q#iF#Q^#Q^%#)Q##h9sJPd3',
+  '#)Q##h9sJPd4#)Q##h9sJPS.#)Q##h9sKPd3#)Q##h9sKPd4#*Q##h9sJh9sK#&Q#4T,#&Q#4P.#&Q#4P3#&Q#4P=#&Q#4PI',
+  '#&Q#4Q%#&Q#4QE#&Q#4R!#&Q#4QD#&Q#4R*#(Q#4Q>P.#(Q#4Q>P3#(Q#4Q>P=#(Q#4Q>PI#(Q#4Q>Q%#(Q#4Q>QE#(Q#4Q>',
+  'R!#(Q#4Q>QD#(Q#4Q>R*#(Q#4Q>T,#(Q#P%Q^&e1#*Q#P%Pd5Pd6dBPd7#,Q#P%h8Pd1e1PS/Pd8c>#*Q#P%Pd5Pd6Q^(e1#',
+  '(Q#P%^Mc/#(Q#P%]!Q^)#)Q#P%Pd9e1Pd:#)Q#P%Pd9e1Pd;#)Q#P%e/Pd<Pd:#)Q#P%e/Pd<Pd;#(Q##Pd=Pd>#(Q##Pd?P',
+  'd>#&Q#!Q*#&Q#!VF#&Q#!S=#&Q#!X;#&Q#!UA#&Q#!UL#&Q#!VB#&Q#!UG%&Q#!VE#&Q#!X2#&Q#!Y>#&Q#!X9#&Q#!YO#&Q',
+  '#!Y-#&Q#!S+#&Q#!W0#&Q#!S6#&Q#!XF#&Q#!S##&Q#!R:#&Q#!WI#&Q#!T.#&Q#!Y3#&Q#!RK#&Q#!]!#&Q#!cK#&Q#!e-#',
+  '&Q#!sL#&Q#!UM#&Q#!_>#&Q#!X6#&Q#!p*#&Q#!S)#&Q#!R>#&Q#!RO#&Q#!UF#&Q#!YD#&Q#!S0#&Q#!R&#&Q#!:#&Q#!sM',
+  '#(Q#!x=R>#&Q#!PS0#&Q#!a/)(Q#6#T8#(Q#6#P7#(Q#6#U0#(Q#6#P+#(Q#6#UI#)Q#6#QJQ2#)Q#6#QJZ!#)Q#6#QJQ@#)',
+  'Q#6#QJZK#(Q#6#P5#(Q#6#Y=#(Q#6#P2#(Q#6#XE#*Q##Q^*_AUA]K#(Q##Pd)Pd*#)Q#6#TCP7#)Q#6#TCU0#*Q##dBPd7o',
+  'IS6#(Q##Q^+Q^,#&Q#P%PS1#&Q#P%Q^-#(Q##Q^.e1#(Q##f%e1#)Q##Pd@]!c>#(Q##x>c>#)Q##PdAc>PdB#)Q##PdAQ^/',
+  'PdB#)Q##VAx>c>#*Q#TJ#Pd@]!c>#)Q#TJ#x>c>#*Q#TJ#VAx>c>#(Q#TJ!Q*#(Q#TJ!VF#(Q#TJ!S=#(Q#TJ!X;#(Q#TJ!U',
+  'A#(Q#TJ!UL#(Q#TJ!VB#(Q#TJ!UG%(Q#TJ!VE#(Q#TJ!X2#(Q#TJ!Y>#(Q#TJ!X9#(Q#TJ!YO#(Q#TJ!Y-#(Q#TJ!S+#(Q#T',
+  'J!W0#(Q#TJ!S6#(Q#TJ!XF#(Q#TJ!S##(Q#TJ!R:#(Q#TJ!WI#(Q#TJ!T.#(Q#TJ!Y3#(Q#TJ!RK#(Q#TJ!]!#(Q#TJ!cK#(',
+  'Q#TJ!e-#(Q#TJ!sL#(Q#TJ!UM#(Q#TJ!_>#(Q#TJ!X6#(Q#TJ!p*#(Q#TJ!S)#(Q#TJ!R>#(Q#TJ!RO#(Q#TJ!UF#(Q#TJ!Y',
+  'D#(Q#TJ!S0#(Q#TJ!R&#(Q#TJ!:#(Q#TJ!sM#)Q#TJ!x=UM#)Q#TJ!x=S)#)Q#TJ!x=R>%(Q#_B_0VF#+Q#_B_0VFPS/Pd8c',
+  '>#)Q#x?#PHPdC#)Q#x?#QKPdC#)Q#x?#Q^0Q^1#)Q#x?#Q^2Q^3#(Q#0Q^4^1#(Q#0PdDPdE#(Q#0Q^5Q^6#*Q#0PdDPdEPd',
+  '/Pd0#(Q#0Pd-R:#(Q#0dC^1#*Q#0dC^1x<PS2#*Q#0dC^1PS.PS2#*Q#0dC^1PS/PS2%*Q##h9sKh9sJ#)Q##h9sKPS.#+Q#',
+  'P%Pd.PS-^Cc/PS3!+Q#P%Q^7PS-^Cc/PS3#+Q#P%Q^8f2^Cc/PS3#(Q#P%x<g7#-Q#P%Q&PdFPdGf2c/Pd+RK#-Q#P%sIPdF',
+  'PdGf2c/Pd,RK#&wLx@##&wMx@##)wLx@#&R1#)wMx@#&R1#)Q#P%Q^9PdHe1#)Q#P%Q^:PdHe1J&PK!Q*#&PK!VF#&PK!S=#',
+  '&PK!X;#&PK!UA#&PK!UL#&PK!VB#&PK!UG#&PK!ZD#&PK!VE#&PK!Q^;#&PK!X2#&PK!Y>#&PK!X9#&PK!YO#&PK!Y-#&PK!',
+  'S+#&PK!W0#&PK!S6#&PK!XF#&PK!S##&PK!R:#&PK!WI#&PK!T.#&PK!Y3#&PK!RK#&PK!S)#&PK!R>#&PK!RO#&PK!UM#&P',
+  'K!S0#&PK!R&#&PK!]?#&PK!:#(PK!Y%:#&PK!P7#&PK!U0#&PK!P+#&PK!UI#&PK!P5#(PK!e2P5#&PK!P2#&PK!UB#)PK6#',
+  'p+T8#(PK6#T8#(PK6#P7#(PK6#U0#(PK6#P+#(PK6#UI#(PK6#P5#(PK6#U-#)PK6#e2U0#)PK6#e2P2#)PK6#P5N#&PK#X&',
+  '#(PK#P8P6#&PK#Z3#&PK#YG#&PK#Q^<#)PKT<#SHS)#)PKT<#SHR>#)PKT<#SHUM#)PKT<#SHR&#(PK!p,S0#&PK4T,#&PK4',
+  'P.#&PK4P3#&PK4P=#&PK4PI#&PK4Q%#&PK4QE#&PK4R!#&PK4QD#&PK4R*#(PK#V,Z-#&PK#Z-#&PK0Q^=#&PK0Q^>#&PK0Q',
+  '^?#&PK0Q^@#&PK!UF#&PK!YD#(PK!QJQ2#(PK!QJZ!#(PK!QJQ@#(PK!QJZK#)PK6#QJQ2#)PK6#QJZ!#)PK6#QJQ@#)PK6#',
+  'QJZK#(PK!e2UA#(PK!e2ZD#(PK!e2m=#(PK!e2sN#*PKT<#e2SHS##*PKT<#e2SHRK#*PKT<#e2SHRO#)PK!xAb(UF#*PK6#',
+  'xAb(iG#*PKR,P%xAb(Q^A#+PKR,P%xAb(a%g6#*PK!h:dDb(W0#*PK!h:dDb(sO#+PK6#h:dDb(iG#+PK6#h:dDb(_/#*PK#',
+  'h:dDb(t!#*PK#h:dDb(h;#*PK#h:dDb(iH#*PK#h:dDb(mC#*PK#h:dDb(h<#*PK!xBdDb(Y-#*PK!xBdDb(PS4#*PK!xBdD',
+  'b(Q^B#*PK6#Q^Cb(P7#)PK6#X4Y0#)PK6#X4P+#)PK6#X4Y=#(PK!Y%Q*#(PK!Y%VF#(PK!Y%S=#(PK!Y%UL#(PK!Y%X6#(P',
+  'K!Y%VE#(PK!Y%S6#(PK!Y%S##(PK!Y%WI#(PK!Y%YF#(PK!Y%T.#(PK!Y%W0#(PK!Y%R&#*PKT<#Y%SHUM#)PK6#Y%T8#)PK',
+  '6#Y%P5#*PK6#Y%P5N#*PK6#Y%P/T-#(PK#Y%h;#(PK#Y%iH#(PK#Y%h<#(PK#Y%xC#)PK#Y%PS5h;#)PK#Y%PS5iH#*PK#Y%',
+  'PS5Q^DR,#)PK!PdIxDYF#)PK#PdIxDh<#(PKY%4T,#(PKY%4P.#(PKY%4P3#(PKY%4P=#(PKY%4PI#(PKY%4Q%#(PKY%4QE#',
+  '(PKY%4R!#(PKY%4QD#(PKY%4R*#(PK#^2t!#(PK#^2iH#)PK6#p-:#)PK6#p-U-#(PK0Y%P.#(PK0Y%^+#(Q6)!Z9#(Q6)!x',
+  'E#(Q6)!mD#(Q6)!xF#(Q6)!WB#(Q6)!xG#(Q6)!s=#(Q6)!xH#(Q6)!VK#(Q6)!p)#(Q6)!xI#(Q6)!_C#(Q6)!t##(Q6)!V',
+  '5#(Q6)!xJ#(Q6)!xK#(Q6)!p.#(Q6)!o>#(Q6)!mE#(Q6)!iI#(Q6)!xL#(Q6)!xM#(Q6)!xN#(Q6)!t%#(Q6)![2#(Q6)!x',
+  'O#(Q6)!c>#(Q6)!t&#(Q6)!y!#(Q6)!y##(Q6)!y%#(Q6)!y&#(Q6)!y(#(Q6)!YE#(Q6)!t(#(Q6)!^.#(Q6)!p/#(Q6)!y',
+  ')%(Q6)!p0*(Q6)!p1&&Q6!Z9#&Q6!xE#&Q6!mD#&Q6!xF#&Q6!WB#&Q6!xG#&Q6!s=#&Q6!xH#&Q6!VK#&Q6!p)#&Q6!xI#&',
+  'Q6!_C#&Q6!t##&Q6!V5#&Q6!xJ#&Q6!xK#&Q6!p.#&Q6!o>#&Q6!mE#&Q6!iI#&Q6!xL#&Q6!xM#&Q6!xN#&Q6!t%#&Q6![2',
+  '#&Q6!xO#&Q6!c>#&Q6!t&#&Q6!y!#&Q6!y##&Q6!y%#&Q6!y&#&Q6!y(#&Q6!YE#&Q6!t(#&Q6!^.#&Q6!p/#&Q6!y)#&Q6!',
+  'g4#&Q6!p0#&Q6!PdJ#(Q6!RCmD#&Q6!Y,#&Q6s9[##(P:!Q6t##&Q6!p1#(Q6!h-##(Q6!PdK##&CR9k6#&CR9y*#&CR9k7#',
+  '&CR9k8#&CR9y+#&CR9k9#&CR9k:#&CR9k;#&CR9y,#&CR9k<#&CR9y-#&CR9iJ#&CR9iK#&CR9y.#&CR9k=#&CR9k>#&CR9k',
+  '?#&CR9k@#&CR9kA#&CR9PdL#&CR9PS6#&CR9PS7#&CR9Q^E#&CR9PdM#&CR9PdN#&CR9PdO#&CR9y/#&CR9Pe!#&CR9PS8#&',
+  'CR9PS9#&CR9Pe##&CR9Q^F#&CR9PS:#&CR9y0#&CR9Pe%#&CR9PS;#&CR9Q^G#&CR9Q^H#&CR9Q^I#&CR9PS<#&CR9Pe&#&C',
+  'R9Pe(#&CR9Pe)#&CR9PS=#&CR9Pe*#&CR9PS>#&CR9Pe+#&CR9PS?#&CR9Pe,#&CR9Pe-#&CR9PS@#&CR9Q^J#&CR9Q^K#&C',
+  'R9Q^L#&CR9PSA#&CR9Pe.#&CR9Q^M#&CR9Pe/#&CR9Q^N#&CR9Pe0#&CR9Q^O#&CR9Q_!#&CR9Q_##&CR9Q_%#&CR9PSB#&C',
+  'R9Pe1#&CR9Q_&#&CR9Q_(#&CR9Q_)#&CR9Q_*#&CR9Q_+#&CR9PSC#&CR9Q_,#&CR9Q_-#&CR9Q_.#&CR9Q_/#&CR9PSD#&C',
+  'R9Q_0#&CR9Q_1#&CR9Q_2#&CR9Q_3#&CR9Q_4#&CR9Q_5#&CR9Q_6#&CR9Q_7#&CR9Q_8#&CR9Pe2#&CR9PSE#&CR9Pe3#&C',
+  'R9PSF#&CR9Q_9#&CR9PSG#&CR9y1#&CR9y2#&CR9Pe4#&CR9iL#&CT(iL#&CT(:#&CT([1#&CT(S)#&CT(s!#&CT(t)#&CT(',
+  'P5#&CT(PSH#&CT(c1#&CT(P2#&CT(UM#&CT(PSI#&CT(Y0#&CT([7#&CT(P+#&CT(PSJ#&CT(^.#&CT(_D#&CT(YK#&CT(iG',
+  '#&CT(-#&CT(P7#&CT(Q_:#&CT(Q_;#&CT(Q_<#&CT(Pe5#&CT(Q_=#&CT(Q_>#&CT(Q_?#&CT(Q_@#&CT(Q_A#&CT(Q_B#&C',
+  'T(Q_C#&CT(Q_D#&CT(Q_E#&CT(Q_F#&CT(Pe6#&CT(Pe7#&CT(Q_G#&CT(Q_H#&CT(Pe8#&CT(Q_I#&CT(Q_J#&CT(Q_K#&C',
+  'T(Q_L#&CT(Q_M#&CT(Q_N#&CT(Q_O#&CT(Qa!#&CT(Pe9#&CT(Pe:#&CT(Qa##&CT(Pe;#&CT(Qa%#&CT(Qa&#&CT(Qa(#&C',
+  'T(Qa)#&CT(Qa*#&CT(Qa+#&CT(Qa,#&CT(Qa-#&CT(Qa.#&CT(Pe<#&CT(Qa/#&CT(Qa0#&CT(Qa1#&CT(Qa2#&CT(Qa3#&C',
+  'T(Qa4#&CT(Qa5#&CT(Qa6#&CT(Qa7#&CR#k6#&CR#y*#&CR#PSK#&CR#k7#&CR#y1#&CR#y2#&CR#k8#&CR#k9#&CR#y3#&C',
+  'R#y4#&CR#y5#&CR#y6#&CR#PSL#&CR#PSM#&CR#y/#&CR#k:#&CR#k;#&CR#y0#&CR#k<#&CR#y-#&CR#iJ#&CR#iK#&CR#k',
+  '=#&CR#k>#&CR#k?#&CR#k@#&CR#kA#&CR#Qa8#&CR#Qa9#&CR#PdL#&CR#PS7#&CR#PSG#&CR#Pe=#&CR#Qa:#&CR#PdM#&C',
+  'R#Pe4#&CR#Pe>#&CR#PdN#&CR#PSN#&CR#Qa;#&CR#PdO#&CR#Qa<#&CR#Qa=#&CR#Pe?#&CR#Qa>#&CR#Pe@#&CR#Qa?#&C',
+  'R#PeA#&CR#PeB#&CR#PeC#&CR#PeD#&CR#Qa@#&CR#PS8#&CR#PSO#&CR#QaA#&CR#PeE#&CR#QaB#&CR#QaC#&CR#PS9#&C',
+  'R#QaD#&CR#Pe)#&CR#PeF#&CR#PS=#&CR#PS>#&CR#PS?#&CR#Pe,#&CR#PS@#&CR#PSB#&CR#Pe1!&CR#QaE#&CR#QaF!&C',
+  'R#QaG#&CR#PSC!&CR#QaH#&CR#QaI!&CR#QaJ#&CR#PSD#&CR#PeG#&CR#PeH#&CR#Pe2#&CR#PSE#&CR#QaK#&CR#QaL#&C',
+  'R#QaM#&CR#QaN#&CR#PSF#&CR#QaO#&CR#Qb!#&CR#Qb##&CR#Qb%#&CR#Qb&#&CR#PS6#&I(R&#&I(dE#&I(Z;#&I(g3#&I',
+  '(y7#&I(YE#&I(]I#&I(Qb(#&I(RO#&I(^0#&I(VG#&I(t*#&I(y8#&I(X=#&I(a##&I(PT!#&I(iM#&I(Qb)#&I(Qb*#&I(P',
+  'bK#&I(Qb+#&I(Qb,#&I(Qb-#&I(PeI#&I(RK#&I(YJ#&I(]##&I(PT##&I(PT%#&I([*#&I(_?#&I(y9#&I(Qb.#&I(Qb/#&',
+  'I(Qb0#&I(Qb1#&I(Qb2#&I(Qb3#&I(Qb4#&I(Qb5#&I(R>#&I(_0#&I(b9#&I(s;#&I(t+#&I(b)#&I(]K#&I(PeJ#&I(S0#',
+  '&I(_A#&I(^J#&I(y:#&I(mF#&I(_E#&I(]F#&I(PT&#&I(UF#&I(cL#&I(p2#&I(PeK#&I(y;#&I(Y&#&I(g*#&I(PT(#&I(',
+  'a.#&I(t,#&I(t-#&I(PT)#&I(Qb6#&I(y<#&I(y=#&I(Qb7#&I(Qb8%&I(PeL#&I(Qb9#&I(PeM#&I(PeN&&I(Qb:#&I(Qb;',
+  '#&I(Qb<#&I(Qb=#&I(Qb>#&I(Qb?#&I(Qb@%&I(QbA%&I(QbB#&I(QbC#&I(QbD#&I(QbE&&I(T.#&I(^1#&I(aD#&I(x0#&',
+  'I(p3#&I(cB#&I(f0#&I(PeO#&I(WJ#&I(mG#&I(iN#&I(Pf!#&I(kB#&I(b=#&I(h0#&I(QbF#&I(S+#&I(^D#&I(aC#&I(m',
+  'H#&I(p4#&I(Z7#&I(P?#&I(PT*#&I(UL#&I(PT+#&I(y>#&I(PT,#&I(Pf##&I(iO#&I(f)#&I(PT-#&I(cM#&I(QbG#&I(c',
+  'A#&I(QbH#&I(QbI#&I(p5#&I(Pf%#&I(QbJ#&I(QbK%&I(QbL#&I(QbM#&I(QbN#&I(QbO&&I(S##&I([4#&I(ZL#&I(oI#&',
+  'I(PT.#&I(ZM#&I(YC#&I(y?#&I(VE#&I(PT/#&I(dB#&I(Pf&#&I(Pf(#&I(PT0#&I(iD#&I(Qc!#(I(ZH:#(I(ZHP+#(I(Z',
+  'HP7#(I(ZHT8#(I(ZHY=#(I(ZHP5#(I(ZHP2#(I(ZHUM#&I(Q*#&I(_B#&I(_##&I(y@#&I(PT1#&I(a%#&I(^B#&I(Qc##&I',
+  '(PT2%&I(yA#&I(yB#&I(Pf)#&I(yC&&I(PT3#&I(Qc%#&I(Qc&#&I(Qc(#&I(Qc)#&I(Qc*#&I(Qc+%&I(Qc,%&I(Qc-#&I(',
+  'Qc.#&I(Qc/#&I(Qc0&&I(UM#&I(g8#&I(_D#&I(t.#&I(yD#&I(^.#&I(_!#&I(Qc1#(I(k#:#(I(k#P+#(I(k#P7#(I(k#T',
+  '8#(I(k#Y=#(I(k#P5#(I(k#P2%&I(X6#&I(f3#&I(g9#&I(PbM#&I(t/#&I(_;#&I(f-#&I(Qc2#&I(_>#&I(PT4#&I(PT5#',
+  '&I(Qc3#&I(yE#&I(c%#&I(PT6#&I(Qc4#&I(S)#&I(YK#&I(-#&I(oH#&I(p6#&I(c1#&I([7#&I(Qc5#&I(S6#&I(aE#&I(',
+  'aF#&I(Pf*#&I(p7#&I(_:#&I(a0#&I(Qc6#&I(X9#&I(Pf+#&I(Pf,#&I(Pf-#&I(Qc7#&I(Pf.#&I(PT7#&I(Qc8#&I(UG#',
+  '&I(mI#&I(kC#&I(Pf/#&I(p8#&I(f(#&I(g:#&I(Pf0#&I(S=#&I(bB#&I(^C#&I(t0#&I(t1#&I(h=#&I(dA#&I(Qc9#&I(',
+  'Pf1%&I(Pf2#&I(Qc:#&I(Pf3#&I(Pf4&&I(oK#&I(Pf5#&I(Pf6#&I(Qc;#&I(Qc<#&I(PT8#&I(Pf7#&I(Qc=#&I(W0#&I(',
+  'PT9#&I(mJ#&I(s<#&I(t2#&I(Y4#&I(a!#&I(PT:#&I(VB#&I(yF#&I(^-#&I(Pf8#&I(yG#&I(^M#&I(g5#&I(Qc>#&I(WI',
+  '#&I(Qc?#&I(^>#&I(Pf9#&I(Qc@#&I(PT;#&I(g6#&I(QcA#&I(]!#&I(yH#&I(mK#&I(QcB#&I(Pf:#&I(d8#&I(yI#&I(Q',
+  'cC#&I(QcD#&I(QcE#&I(QcF#&I(QcG#&I(QcH#&I(QcI#&I(QcJ#&I(QcK#&I(YF#&I(j!#&I(g4#&I(yJ#&I(mL#&I(f,#&',
+  'I(e.#&I(Pf;#&I(R:#&I(e3#&I(X.#&I(yK#&I(j##&I(XK#&I(b&#&I(sO#&I(QcL#&I(p9#&I(QcM&+IFs?>6cJP%#)IF6',
+  'cJP%#(IFs?P%#&IZ-P%#%IQcN#&IX,UE#%IW.#%IeL#%I[/#&IQcO[/#&I]+P%#&Is9[##&I4P.#&I4P3#&I4P=#&I4PI#&I',
+  '4Q%#&I4QE#&I4R!#&I4QD#&I4R*#&IDU!#&IDX>#&ID]%#&ID]L#&IDZN#&IDbC#&ID[+#&IDcN#&IDZ5#&IDR-#(IDU!RN(',
+  '(I(yLy9#&I(yM#&I(Pf<#&I(PT<#(I(yLPeO#&I(Pf=#&I(Pf>#&I(Qd!#(I(yLPf;#&I(Pf?#&I(Pf@#&I(Qd##(I(yLsO#',
+  '&I(yN#&I(PfA#&I(PT=#(IdFP%Qd%#(IdFP%Qd&#(IdFP%PfB#)IdFP%V%PfB#(IdFP%Qd(#(IdFP%Qd)#(IdFP%Qd*#(IdF',
+  'P%Qd+#(IdFP%Qd,#(IdFP%Qd-+&Q7!:#&Q7!P5#&Q7!P7#&Q7!P2#&Q7!P+#&Q7!SC#&Q7!S=#&Q7!Q*#&Q7!h=#&Q7!^C#&',
+  'Q7!dA#&Q7!bB#&Q7!PfC#&Q7!R&#&Q7!YE#&Q7!Z;#&Q7!]I#&Q7!dE#&Q7!w>#&Q7!RO#&Q7!X=#&Q7!VG#&Q7!a##&Q7!^',
+  '0#&Q7!PfD#&Q7!RK#&Q7![*#&Q7!]##&Q7!_?#&Q7!YJ#&Q7!S##&Q7!PT>#&Q7!PT?#&Q7!ZM#&Q7!ZL#&Q7!YC#&Q7![4#',
+  '&Q7!PT@#&Q7!PfE#&Q7!PfF#&Q7!PfG#&Q7!PTA#&Q7!PTB#&Q7!PfH#&Q7!S0#&Q7!Q3#&Q7!_E#&Q7!^J#&Q7!]F#&Q7!_',
+  'A#&Q7!PTC#&Q7!S6#&Q7!S+#&Q7!_:#&Q7!Z7#&Q7!aF#&Q7!aC#&Q7!a0#&Q7!aE#&Q7!PfI#&Q7!yO#&Q7!PTD#&Q7!PTE',
+  '#&Q7!PTF#&Q7!PTG#&Q7!PTH#&Q7!PfJ#&Q7!]!#&Q7!d8#&Q7!mK#&Q7!yI#&Q7!yH#&Q7!PfK#&Q7!UM#&Q7!^.#&Q7!_D',
+  '#&Q7!_!#&Q7!g8#&Q7!PfL#&Q7!S)#&Q7!c1#&Q7!-#&Q7![7#&Q7!YK#&Q7!PfM#&Q7!t3&(Q7%!c1#(Q7%!-#(Q7%![7#(',
+  'Q7%!YK#(Q7%!PfM#(Q7%!t3&&89eM#&89P5#&89PfN#&89P7#&89U0#&89P2#&89XE#(89f4XE#(89Q/Y=#(89Q/P7#&89:#',
+  '&89T8#&89^.#(89T6^.#&89_D#(89T6_D#&89PfO#(89T6PfO#&89_!#(89T6_!#&89t4#(89T6t4#(89cOt4#&89UM#(89T',
+  '6UM#&89t.#(89T6t.#(89cOt.#&89U-#(89f4U+#(89ZHUE#(89P/T+#(89P/V0#*89P/Z:Q>RB#*89P/XLQ>RB#*89P/LQ>',
+  'RB#(89P/RB#)89P/P0T+#+89P/P0V%PLPTI#)89P/PJP8#*89P/V%RFPD#(89P/Q1#)89P/QBZI#&89WB#&89VK#&89V5#&8',
+  '9Z9#&89XK#&89Qd.#&89X.#&89t5#&89b&#&89t6#(89f4t6#(89Q/y7#(89Q/Z;#&89R:#&89yK#&89PT=#(89T6PT=#&89',
+  'yN#(89T6yN#&89Pg!#(89T6Pg!#&89dD#(89T6dD#&89Pg##(89T6Pg##&89sO#(89T6sO#&89PTJ#(89T6PTJ#(89f4PTJ#',
+  '&89TE#(89T6TE#(89Q/SB#&89Z7#&89Qd/#&89aC#&89Qd0#&89P?#&89p:#(89f4p:#(89Q/p7#(89Q/aF#&89S+#&89mH#',
+  '&89t7#(89T6t7#&89Pg%#(89T6Pg%#&89Pg&#(89T6Pg&#&89P3#(89T6P3#&89Pg(#(89T6Pg(#&89PT*#(89T6PT*#&89P',
+  'TK#(89T6PTK#(89cOPTK#&89S;#&89t8#&89Pg)#&89PTL#&89X2#&89a%#&89Qd1#&89_##&89Qd2#&89^B#&89t9#(89f4',
+  't9#&89Q*#&89y@#&89yC#(89T6yC#&89yA#(89T6yA#&89Pg*#(89T6Pg*#&89Pg+#(89T6Pg+#&89Pg,#(89T6Pg,#&89PT',
+  '2#(89T6PT2#&89yB#(89T6yB#(89cOyB#&89S>#&89PTM#(89z!PQK#(89z!Qd3#(89z!Qd4#(89z!Pg-#&89iO#&89Qd5#&',
+  '89y>#&89Qd6#&89f)#&89PTN#(89f4PTN#&89UL#&89PT,#&89Pg.#(89T6Pg.#&89PTO#(89T6PTO#&89Pg/#(89T6Pg/#&',
+  '89Pg0#(89T6Pg0#&89Pg1#(89T6Pg1#&89PT-#(89T6PT-#&89PU!#(89T6PU!#(89cOPU!#&89T?#(89bDkD#&89[*#&89Q',
+  'd7#&89]##&89Qd8#&89_?#&89PU##(89f4PU##&89RK#&89PT##&89PT<#(89T6PT<#&89yM#(89T6yM#&89Pg2#(89T6Pg2',
+  '#&89Pg3#(89T6Pg3#&89Pg4#(89T6Pg4#&89y9#(89T6y9#&89PU%#(89T6PU%#(89cOPU%#&89S&#(89T6S&#&89Qd9#(89',
+  'Pg5S&#(89bDS&#&89ZM#&89Qd:#&89ZL#&89Pg6#&89YC#&89PU&#(89f4PU&#&89S##&89oI#&89Pg7#(89T6Pg7#&89y?#',
+  '(89T6y?#&89PU(#(89T6PU(#(89cOPU(#&89R<#(89Q/_<#&89Qd;#&89X=#&89Qd<#&89VG#&89Qd=#&89a##&89p;#(89f',
+  '4p;#&89RO#&89t*#&89Pg8#(89T6Pg8#&89Pg9#(89T6Pg9#&89Pg:#(89T6Pg:#&89Pg;#(89T6Pg;#&89Pg<#(89T6Pg<#',
+  '&89PT!#(89T6PT!#&89Pg=#(89T6Pg=#&89Q@#(89T6Q@#(89SHQ@#&89_E#&89Qd>#&89^J#&89t:#&89]F#&89t;#(89f4',
+  't;#&89S0#&89y:#&89Pg>#(89T6Pg>#&89Pg?#(89T6Pg?#&89Pg@#(89T6Pg@#&89PgA#(89T6PgA#&89PgB#(89T6PgB#&',
+  '89PT&#(89T6PT&#&89PU)#(89T6PU)#(89cOPU)#&89Q3#(89Pg5Q3#&89PgC#(89b*Q3#(89Qd?Qd@#(89cOQdA#(89cOQd',
+  'B#(89cOQdC#(89cOQdD#(89cOQdE#(89cOQdF#&89Y&#&89p2#&89z##&89g*#&89PU*#&89UF#&89PeK#&89mM#(89T6mM#',
+  '&89PgD#(89T6PgD#&89PgE#(89T6PgE#&89PgF#(89T6PgF#&89PgG#(89T6PgG#&89PT(#(89T6PT(#&89PgH#(89T6PgH#',
+  '&89mN#&89c1#&89QdG#&89-#&89QdH#&89[7#&89z%#(89f4z%#&89S)#&89oH#&89PgI#(89T6PgI#&89PgJ#(89T6PgJ#&',
+  '89PgK#(89T6PgK#&89PgL#(89T6PgL#&89PgM#(89T6PgM#&89PS4#(89T6PS4#&89PU+#(89T6PU+#(89cOPU+#&89T-#(8',
+  '9QdIT-#(89T6T-#(89bD-#&89b)#(89PgNb)#(89T6X=#&89QdJ#&89b9#&89z&#&89]K#&89PgO#(89T6a##&89R>#&89s;',
+  '#(89T6RO#&89Ph!#(89T6Ph!#&89Q2#(89T6Q2#(89SHQ2#&89f,#&89QdK#&89g4#&89QdL#&89e.#&89PU,#&89YF#&89y',
+  'J#&89Ph##(89T6Ph##&89V!#&89Y4#(89PU-Y4#&89mJ#(89PU-mJ#&89PU.#(89PU-PU.#&89a!#&89PU/#&89W0#&89s<#',
+  '&89PU0#(89T6PU0#&89kD#&89Ph%#&89Ph&#&89z(#&89Y>#&89QdM#&89QdN#&89QdO#&89Qe!#&89Qe##(89kEYE#(89kE',
+  'Z;#(89kEPh(#(89kE]I#(89kEt<#(89kER&#(89kEg3#(89kESB#(89Qe%SB#&89Qe&#&89Qe(#&89t-#&89Ph)#&89y=#&8',
+  '9PU1#&89a.#&89PT)#&89W4#&89Ph*#&89Ph+#&89Ph,#&89PU2#(89T6b)#(89T6b9#(89T6]K#(89T6R>#&89Qe)#&89z)',
+  '#&89Qe*#&89mA#&89Qe+#&89UA#&89z*#&89_<#&89Qe,#(89bDY&#(89bDp2#(89bDg*#(89bDUF#(89e4Y4#(89e4mJ#(8',
+  '9e4a!#(89e4W0#(89e4kD#&89Ph-#&89Qe-#&89Ph.#&89Qe.#&89k.#&89Ph/#&89PU3#(89kFY4#(89kFmJ#(89kFPU.#(',
+  '89kFa!#(89kFPU/#(89kFW0#(89kFs<#(89kFkD#(89Qe/P;#(89b*P5#(89b*P7#(89b*P2#(89b*:#(89b*^.#(89b*_D#',
+  '(89b*_!#(89b*UM#(89b*ZM#(89b*ZL#(89b*YC#(89b*S##(89b*a%#(89b*_##(89b*^B#(89b*Q*#(89bDYE#(89bDZ;#',
+  '(89bD]I#(89bDR&#(89Q/Qe0#(89Q/Ph0#(89Q/b##(89Q/Qe1#(89Q/Qe2#(89Q/X;#(89Q/_0#(89Q/]K#(89Q/b)#(89Q',
+  '/t+#(89Q/b9#(89Q/R>#(89Q/g8#(89Q/_!#(89Q/^.#(89Q/yD#(89Q/_D#(89Q/UM#(89Q/Qe3#(89Q/Qe4#(89Q/PU4#(',
+  '89Q/Qe5#(89Q/Qe6#(89Q/Qe7#(89Q/PT9#(89Q/a!#(89Q/Y4#(89Q/t2#(89Q/mJ#(89Q/W0#(89Q/Qe8#(89Q/PTL#(89',
+  'Q/t8#(89Q/Qe9#(89Q/Pg)#(89Q/X2#(89Q/e3#(89Q/b&#(89Q/XK#(89Q/j##(89Q/X.#(89Q/R:#(89Q/TE#(89Q/bB#(',
+  '89Q/dA#(89Q/h=#(89Q/t1#(89Q/^C#(89Q/S=#(89Q/Qe:#(89Q/f/#(89Q/PU5#(89Q/Qe;#(89Q/z+#(89Q/VF#(89Q/Q',
+  'e<#(89Q/Qe=#(89Q/Qe>#(89Q/Qe?#(89Q/Qe@#(89Q/PS0#(89Q/z,#(89Q/[4#(89Q/YC#(89Q/ZM#(89Q/PT.#(89Q/ZL',
+  '#(89Q/S##(89Q/YJ#(89Q/_?#(89Q/[*#(89Q/PT%#(89Q/]##(89Q/RK#(89Q/YK#(89Q/[7#(89Q/c1#(89Q/p6#(89Q/-',
+  '#(89Q/S)#(89Q/mI#(89bDmI#(89Q/g:#(89Q/f(#(89Q/p8#(89Q/kC#(89bDkC#(89Q/UG#(89Q/Ph1#(89Q/Ph2#(89Q/',
+  'QeA#(89Q/QeB#(89Q/Ph3#(89Q/sD#(89Q/^0#(89Q/a##(89Q/X=#(89Q/y8#(89Q/VG#(89Q/RO#(89Q/QeC#(89Q/QeD#',
+  '(89Q/P_8#(89Q/QeE#(89Q/QeF#(89Q/yO#(89Q/QeG#(89Q/Ph.#(89Q/QeH#(89Q/QeI#(89Q/Ph-#(89Q/k.#(89Q/QeJ',
+  '#(89Q/Ph,#(89Q/Ph*#(89Q/QeK#(89Q/Ph+#(89Q/PU2#(89Q/PTH#(89Q/PTG#(89Q/PTE#(89Q/QeL#(89Q/PTF#(89Q/',
+  'PTD#(89Q/f3#(89Q/f-#(89Q/_;#(89Q/t/#(89Q/g9#(89Q/X6#(89Q/T%#)89Q/Q&T%#(89Q/Ph4#(89Q/Ph5#(89Q/k*#',
+  '(89Q/Ph6#(89Q/Ph7#(89Q/e-#(89Q/_A#(89Q/]F#(89Q/_E#(89Q/mF#(89Q/^J#(89Q/S0#(89Q/cL#(89Q/g*#(89Q/Y',
+  '&#(89Q/y;#(89Q/p2#(89Q/UF#(89Q/mN#(89Q/yH#(89Q/yI#(89Q/d8#(89Q/Pf:#(89Q/mK#(89Q/]!#(89Q/yF#(89Q/',
+  'g5#(89Q/^M#(89Q/yG#(89Q/^-#(89Q/VB#(89Q/QeM#(89Q/QeN#(89Q/QeO#(89Q/Qf!#(89Q/Qf##(89Q/Qf%#(89^-##',
+  '(89X,UE#&89Ph8#&89Qf&#&89Qf(#&89Qf)#&89Qf*#&89Qf+#&89Qf,#&89Qf-#(89e4Qf.#(89e4Qf/#(89e4Qf0#(89e4',
+  'Qf1#(89e4Qf2#(89e4PT:#(89e4PU0#)89e4P/kD#(89b*U+#&]/_6P%#&]/!Qf3#&]/!Qf4#&]/!Qf5#&]/!Qf6#&]/!Qf7',
+  '#&]/!Qf8#&]/!Qf9#&]/!Qf:#&]/!Qf;#&]/!Qf<#&]/!Qf=#&]/!Qf>#&]/!Qf?#&]/!Qf@#&]/!QfA#&]/!QfB#&]/!Ph9',
+  '#&]/!j%#&]/!QfC#&]/!QfD#&]/!QfE#&]/!T&#&]/!QfF#&]/!QfG#&]/!QfH#&]/!QfI#&]/z-P%#(]/TCz-P%(*T9!QfJ',
+  'QfKf,V!#&T9!SC#)T9!QfLj%P+#&T9!Pa&#&T9!T-#&T9!U+#)T9!QfMQfNjM#&T9!jL#(T9!QfO:#(T9!Ph:P2#(T9!z.:#',
+  '&T9!Ph;#(T9!Qg!P2#(T9!Qg#P2#&T9!P2#&T9!Y0#&T9!V5#*T9!Qg%z/Qg&Q2#&T9!Qg(#&T9!Qg)#(T9!Qg*S>#&T9!S9',
+  '#&T9!eO#)T9!Qg+Qg,S9#&T9!]0#)T9!Qg-w?U+#(T9!Qg.SB#(T9!Qg/SB#(T9!Qg0SB#(T9!Qg1SB#*T9!Qg2Qg3Qg4R<#',
+  '(T9!Qg5R<#&T9!Qg6#*T9!Qg7p<Qg8P7#&T9!P5#(T9!Qg9U3#&T9!Qg:#(T9!Qg;[1#(T9!Qg<:#(T9!Qg=Qg>#)T9!Qg?Q',
+  'g@TE#(T9!QgAQgB#(T9!QgCQ3#)T9!QgDQgEQ3#(T9!QgFQ3#&T9!T?#&T9!T%#*T9!QgGmOQgHS;#(T9!QgIS;#&T9!SJ#*',
+  'T9!QgJQgKQgLP;#(T9!QgMP;#&T9!QgN#&T9!QgO#)T9!Qh!h/P5#)T9!Qh#_CS&#(T9!Qh%S&#(T9!Qh&S&#*T9!Qh(Qh)Q',
+  'h*Q@#&T9!Qh+#&T9!Qh,#&T9!PU6#)T9!Qh-Qh.SJ#)T9!Qh/Qh0P2#&T9!n!#&T9!Qh1#&T9!Qh2#&T9!Qh3#&T9!Qh4#&T',
+  '9!Qh5#&T9!Qh6#&T9!Qh7#&T9!Qh8#&T9!W4#&T9!TF#&T9TGS<#&T9e5S<#&T9X-S<#&T9Qh90#&T9Qh:0#&T9Qh;0#&T9!',
+  'S>#&T9!mN#&T9!XE#)T9!t=t>Ph:#)T9!t=t>p<#)T9!t=t>h/#)T9!t=t>z.#)T9!t=t>Ph;,&_1!:#&_1!P7#&_1!P+#&_',
+  '1!Q*#&_1!S=#&_1!UA#&_1!S+#&_1!S6#&_1!S##&_1!R:#&_1!T.#&_1!RK#&_1!S)#&_1!R>#&_1!RO#&_1!UM#&_1!S0#',
+  '&_1!R&#(_16#P7#(_16#P+#&_1#YG#&_1#Ph<.(_1!YIR>#&a&!:#&a&!P7#&a&!P+#&a&!Q*#&a&!S=#&a&!UA#&a&!S+#&',
+  'a&!S6#&a&!S##&a&!R:#&a&!T.#&a&!RK#&a&!S)#&a&!R>#&a&!RO#&a&!UM#&a&!S0#&a&!R&#(a&6#P7#(a&6#P+#&a&#',
+  'Ph<#&Ph=TGS<#&Ph=P0S<.&a1!:#&a1!P7#&a1!P+#&a1!Q*#&a1!S=#&a1!UA#&a1!S+#&a1!S6#&a1!S##&a1!R:#&a1!T',
+  '.#&a1!RK#&a1!S)#&a1!R>#&a1!RO#&a1!UM#&a1!S0#&a1!R&#(a16#P7#(a16#P+1&b+!:#&b+!P7#&b+!P+#&b+!Q*#&b',
+  '+!S=#&b+!UA#&b+!S+#&b+!S6#&b+!S##&b+!R:#&b+!T.#&b+!RK#&b+!S)%&b+!RO#&b+!UM#&b+!S0%(b+6#P7#(b+6#P',
+  '+1&QL!Q*#&QL!VF#&QL!^B#&QL!f/#&QL!mA#&QL!UL#&QL!VB#&QL!f)#&QL!g5#&QL!iD#&QL!S6#&QL!Y>#&QL!a0#&QL',
+  '!z(#&QL!Qh<#&QL!S+#&QL!W0#&QL!P?#&QL!a!#&QL!YC#&QL!T.#&QL!WI#&QL!b&#&QL!g6#&QL!_?#&QL![7#&QL!]K#',
+  '&QL!a##&QL!h0#&QL!UF#&QL!PU7#&QL!S0#&QL!R&#&QL!RO#&QL!a.#(QL_%6Qh=#(QL_%6PT)#(QL_%6t-#(QL_%6Ph)#',
+  '(QL_%6t,#(QL_%6Qh>#(QL_%6PTB#(QL_%6Qh?#(QL_%6Ph>#(QL_%6Qh@#(QL_%6PU8#(QL_%6QhA#(QL_%6y<#(QL_%6Ph',
+  '8#*QL_%6PU1z0P.#*QL_%6PU1z0P3#(QL_%6QhB#(QL6Ph?s>#(QL6Ph?T8#(QL6#T8#(QL6#P7#(QL6#U0#(QL6#T-#(QL6',
+  '#PS,#(QL6#P+#(QL6#UI#(QL6#p=#(QL6#Y0#(QL6#S)#(QL6#b<#(QL6#P5#(QL6#[1#(QL6#U-#(QL6#XE#(QL6#UB#&QL',
+  '#QhC#&QL#QhD#&QL#QhE#&QL#QhF#&QL#QhG#&QL#QhH#&QL#QhI#&QL#QhJ#&QL#QhK#&QL#QhL#(QL#QhMQhN#&QL#QhO#',
+  '&QL#Qi!#&QL#Qi##&QL#Qi%#&QL#Qi&#)QL#Qi(t5Qi)#(QL#g;p:#&QL#Qi*#(QL#Qi+Ph@#&QL#Qi,#(QLh&0Qi-#&QL#Q',
+  'i.#&QL#Qi/&&QL4T,#&QL4P.#&QL4P3#&QL4P=#&QL4PI#&QL4Q%#&QL4QE#&QL4R!#&QL4QD#&QL4R*+)QL0g;h>Qi0#)QL',
+  '0g;h>PU9#)QL0g;h>t5#)QL0g;h>PU:#)QL0g;h>PU;#)QL0g;h>PU<#)QL0g;h>PU=#)QL0g;h>PU>#)QL0g;h>PU?#)QL0',
+  'g;h>PU@+%Q9dG#%Q9k5#%Q9W.#&Q9X,UE#%Q9[/#&Q9PIR1#(Q9]1d6eM#)Q9_2(Qi1k/#&Q9a(W.#(Q9a(X,UE#%Q9Qi2##',
+  'Qi3!)Q9t?P@t@P.##Qi4!)Q9t?P@t@P3##Qi5!)Q9t?P@t@P=#&Q96[#!#Qi6##Qi7!)Q9t?P@t@PI#&Q94T,#&Q94P.#&Q9',
+  '4P3#&Q94P=#&Q94PI#&Q94Q%#&Q94QE#&Q94R!#&Q94QD#&Q94R*+&Q9!:#&Q9!P5#&Q9!P7#&Q9!P2#&Q9!P+#&Q9!Y0#&Q',
+  '9!_/#&Q9!Y=#&Q9!S##&Q9!e/#&Q9!T.#&Q9!R:#&Q9!a.#&Q9!S=#&Q9!RK#&Q9!RO#&Q9!S0#&Q9!UF#&Q9!S+#&Q9!S6#',
+  '&Q9!VB#&Q9!UG#&Q9!S)#&Q9!R>#&Q9!UM#&Q9!YF#&Q9!Q*#&Q9!VF#&Q9!]!#&Q9!X6#&Q9!g3#&Q9!Qi8#&Q9!k.#&Q9!',
+  'PT5#&Q9!^-#*Q9!]1RM6##(Q9!]1P5#(Q9!]1P7#(Q9!]1P2#(Q9!]1P+#(Q9!]1Y0#(Q9!]1_/#(Q9!]1e/#(Q9!]1T.#(Q',
+  '9!]1R:#(Q9!]1a.#(Q9!]1S=#(Q9!]1RK#(Q9!]1S+#(Q9!]1S6#(Q9!]1VB#(Q9!]1UG#(Q9!]1]!#(Q9!]1S)#(Q9!]1UM',
+  '#(Q9!]1Q*#(Q9!]1t0#(Q9!]1g3#(Q9!]1Qi9#(Q9!]1Qi:#(Q9!]1e-#(Q9!_2P5#(Q9!_2P7#(Q9!_2PR;#(Q9!_2_/#(Q',
+  '9!_2P+#(Q9!_2e/#(Q9!_2Q*#(Q9!_2S=#(Q9!_2R&#(Q9!_2R:#(Q9!_2UF#(Q9!_2S+#(Q9!_2S6#(Q9!_2UG#(Q9!_2YF',
+  '#(Q9!_2t0#(Q9!_2g3#(Q9!_2]!#(Q9!_2X6#(Q9!_2s;#(Q9!_2VB#(Q9!_2_>#(Q9!a(P7#(Q9!a(Q*#(Q9!a(R>#(Q9!a',
+  '(YF#(Q9!a(_>#*Q9!VB&P3R1,*Q9!Y6Y7X&P.#*Q9!Y6Y7Z3P.#)Q9!Y6Y7Qi;#)Q9!Y6Y7PhA#*Q9!Y6Y7VAPhA#)Q9!Y6Y',
+  '7PhB#*Q9!Y6Y7P=PhB#)Q9!Y6Y7:#)Q9!Y6Y7P7#)Q9!Y6Y7Q*#)Q9!Y6Y7UA#)Q9!Y6Y7UL#)Q9!Y6Y7X2#)Q9!Y6Y7Y>#)',
+  'Q9!Y6Y7X9#)Q9!Y6Y7Y-#)Q9!Y6Y7S+#)Q9!Y6Y7S6#)Q9!Y6Y7R:#)Q9!Y6Y7WI#)Q9!Y6Y7YD#)Q9!Y6Y7_>#)Q9!Y6Y7X',
+  '6#)Q9!Y6Y7f.#*Q9!]1Y6Y7S+#*Q9!]1Y6Y7_>#*Q9!a(Y6Y7X;#*Q9!a(Y6Y7UA#*Q9!a(Y6Y7UL#*Q9!a(Y6Y7ZD#*Q9!a',
+  '(Y6Y7X2#*Q9!a(Y6Y7YO#*Q9!a(Y6Y7S+#*Q9!a(Y6Y7XF#*Q9!a(Y6Y7YD#*Q9!a(Y6Y7PhC#*Q9!a(Y6Y7_>#*Q9!a(Y6Y',
+  '7X6#*Q9!Y6Y7Q>P+#*Q9!Y6Y7Q>S)#*Q9!a(Y6Y7Y3#)Q9!Y6Y7Qi<#*Q9!a(Y6Y7k.*&89PUA#&89f1#&89PhD#&89tA#&8',
+  '9Qi=#&89Qi>#&89Qi?#&89Qi@#&89PUB#&89QiA#&89PhE#&89QiB#&89QiC#&89QiD#&89QiE#&89PhF#&89PhG#&89QiF#',
+  '&89QiG#&89QiH#&89PhH#&89Pb5#&89PhI#(89f5PhI#&89PhJ#(89f5PhJ#&89PhK#(89f5PhK#&89PhL#(89f5PhL#&89Q',
+  'iI#&89QiJ#&89QiK#&89QiL#&89QiM#&89PeJ#(89f5TE#(89f5S;#(89f5S>#(89f5T?#(89f5S&#(89f5R<#(89f5Q3#(8',
+  '9f5mN#(89xBU+#(89h:U+#)89P/%RB#)89P/[&P8#(89PgNQiN#(89T6p;#(89T6t*#&89QiO#&89PT:#&89Qj!#&89Qj##&',
+  '89PUC#&89Qj%#&89Qj&#(89bDmM#(89bDPU*#(89bDt<#(89Q/Qj(#)89Q/PUDt1#(89Q/t0#(89Q/Pf1#(89bDQj)#(89Q/',
+  'Pf0#)89PUEPUDQ@#)89PUEPUDQ2#)89Q/PQ7Q3/&V<Qj*!#&V<!Q*#&V<!VF#&V<!S=#&V<!X;#&V<!UA#&V<!UL#&V<!VB#',
+  '&V<!UG#&V<!ZD#&V<!PhM#&V<!S+#&V<!W0#&V<!S6#&V<!XF#&V<!S##&V<!R:#&V<!WI#&V<!T.#&V<!Y3#&V<!RK#&V<!',
+  'S)#&V<!R>#&V<!RO#&V<!UM#&V<!UF#&V<!YD#&V<!S0#&V<!R&#&V<!Qj+#&V<!PUF%(V<6#:#(V<6#P7#(V<6#P+#(V<6#',
+  'Y=#(V<6#U-#(V<6#XE#(V<6#UB#(V<6#P5#(V<6#P2#(V<TJ!S)#(V<TJ!R>#(V<TJ!UM)(V<%!Q*#(V<%!UA#(V<%!X&#(V',
+  '<%!S+#(V<%!S##(V<%!R:#(V<%!RK#(V<%!R>#(V<%!RO#&V<#Qj,#&V<#Qj-#&V<#Qj.)&V<#p;(&V<^+P%#&V<]+P%#&V<',
+  '4T,#&V<4P.#&V<4P3#&V<4P=#&V<4PI#&V<4Q%#&V<4QE#&V<4R!#&V<4QD#&V<4R*#(P1X=!Q*#(P1X=!cM#(P1X=!UA#(P',
+  '1X=!]!#(P1X=!S0#(P1X=!S)#(P1X=!S+#(P1X=!W0#(P1X=!RO#(P1X=!R:#(P1X=!WI#(P1X=!RK#(P1X=!YF#(P1X=!WJ',
+  '#(P1X=!R&#(P1X=!a.#(P1X=!VF#(P1X=!cK#(P1X=!S##(P1X=!:#(P1X=!P7#(P1X=!Y=#(P1X=!h/#(P1X=!P+#(P1X=!',
+  'XE#(P1X=!P2#(P1X=!_/#(P1X=!P5#(P1X=!PhN#(P1X=!U-&(P1X=!h;#(P1X=!iH#(P1X=!mC#(P1X=!h<#(P1X=!xC0*T',
+  ';P1TK!R/a.#*T;P1TK!R+a.#*T;P1TK!R/Q*#*T;P1TK!R/cM#*T;P1TK!R/UA#*T;P1TK!R+Q*#*T;P1TK!R+cM#*T;P1TK',
+  '!R+UA#*T;P1TK!R/]!#*T;P1TK!R/S0#*T;P1TK!R/S)#*T;P1TK!R+]!#*T;P1TK!R+S0#*T;P1TK!R+S)#*T;P1TK!R/S+',
+  '#*T;P1TK!R/W0#*T;P1TK!R/S##*T;P1TK!R+S+#*T;P1TK!R+W0#*T;P1TK!R+S##*T;P1TK!R/R:#*T;P1TK!R/WI#*T;P',
+  '1TK!R/RK#*T;P1TK!R+R:#*T;P1TK!R+WI#*T;P1TK!R+RK#*T;P1TK!R/YF#*T;P1TK!R/WJ#*T;P1TK!R/RO#*T;P1TK!R',
+  '+YF#*T;P1TK!R+WJ#*T;P1TK!R+RO#*T;P1TK!R/R&#*T;P1TK!R/S6#*T;P1TK!R/T.#*T;P1TK!R+R&#*T;P1TK!R+S6#*',
+  'T;P1TK!R+T.#*T;P1TK!R/PhO#*T;P1TK!R/Pi!#*T;P1TK!R+PhO#*T;P1TK!R+Pi!#*T;P1TK!R/PS+#*T;P1TK!R+PS+)',
+  '+T;P1TK6#6Qj/#*T;P1TK6#T8#*T;P1TK6#U0#*T;P1TK6#P+#*T;P1TK6#UI#*T;P1TK6#P5#*T;P1TK6#[1#*T;P1TK6#P',
+  '2#*T;P1TK6#tB#*T;P1TK6#_/#*T;P1TK6#f1#*T;P1TK6#PhD#*T;P1TK6#Pi##*T;P1TK6#PUA#*T;P1TK6#Pi%#*T;P1T',
+  'K6#Qj0#*T;P1TK6#PR;#*T;P1TK!P/SC#*T;P1TK!P/_<#*T;P1TK!P/R<#*T;P1TK!P/S&#*T;P1TK!P/S>#*T;P1TK!P/S',
+  'J#*T;P1TK!P/P;#)T;P1TKR,tC#)T;P1TKR,tD+)T;P1TK4T,#)T;P1TK4P.#)T;P1TK4P3#)T;P1TK4P=#)T;P1TK4PI#)T',
+  ';P1TK4Q%#)T;P1TK4QE#)T;P1TK4R!#)T;P1TK4QD#)T;P1TK4R*#*T;P1TKR(4P.()T;P1TK#Pi&#)T;P1TK#Qj1#&QL0Qj',
+  '2#(QL0PU9d!#(QL0t5d!#(QL0PU:d!#(QL0PU;d!#(QL0PU<d!#(QL0PU=d!#(QL0PU>d!#(QL0PU?d!#(QL0PU@d!#(QL0P',
+  'UGd!#(QL0Pi(d!#(QL0Pi)d!#(QL0Pi*d!#(QL0Pi+d!#(QL0Pi,d!#&QL0Qj3#(QL0PU9d##(QL0t5d##(QL0PU:d##(QL0',
+  'PU;d##(QL0PU<d##(QL0PU=d##(QL0PU>d##(QL0PU?d##(QL0PU@d##(QL0PUGd##(QL0Pi(d##(QL0Pi)d##(QL0Pi*d##',
+  '(QL0Pi+d##(QL0Pi,d##&]&!Q*#&]&!S=#&]&!UA#&]&!Pi-#&]&!R:#&]&!T.#&]&!RK#&]&!Pi.#&]&!S+#&]&!S6#&]&!',
+  'S##&]&!PUH#&]&!UL#&]&!UG#&]&!VE#&]&!Qj4#&]&!S)#&]&!R>#&]&!RO#&]&!WJ#&]&!S0#&]&!:#&]&!R&#(]&6#P7#',
+  '(]&6#P+#(]&6#P5#(]&6#P2#(]&6#[1&%]&Qj5#(]&Z*PEZ-#)P1R(!R/Q*#)P1R(!R/VF#)P1R(!R/PT3#)P1R(!R+Q*#)P',
+  '1R(!R+PT3#)P1R(!R+VF#(P1R(!UA#)P1R(!R/UL#)P1R(!R/VB#)P1R(!R+UL#)P1R(!R+S0#)P1R(!R+VB#(P1R(!VE#(P',
+  '1R(!Qj6#)P1R(!R/PUI#(P1R(!S6#)P1R(!R+PUI#(P1R(!Pi/#)P1R(!R/S+#)P1R(!R/W0#)P1R(!R+S+#)P1R(!R+W0#(',
+  'P1R(!S##(P1R(!T.#)P1R(!R/R:#)P1R(!R/WI#)P1R(!R/YF#)P1R(!R+R:#)P1R(!R+YF#)P1R(!R+WI#(P1R(!RK#)P1R',
+  '(!R+S)#)P1R(!R/S)#(P1R(!R>#(P1R(!Qj7#(P1R(!RO#(P1R(!TK#(P1R(!UM#)P1R(!R/UF#)P1R(!R/YD#)P1R(!R/S0',
+  '#)P1R(!R/R&#(P1R(!]?#(P1R(!:#)P1R(!R+R&#(P1R(!P7#(P1R(!U0#(P1R(!P+#(P1R(!UI#(P1R(!Y=#(P1R(!XE#(P',
+  '1R(!Pi&#)P1R(!p,S0#*P1R(T<#SHR>#*P1R(T<#SHRO#+P1R(T<#ROQj8z1#*P1R(#_@z2z1#*P1R(T<#P/UA#*P1R(T<#R',
+  '+R:#-P1R(T<#R/PUIT&R+R:#)P1R(T<#RK#)P1R(T<#T.#)P1R(T<#S0%(P1R(#Qj9#)P1R(6#:#*P1R(6#_@PUJ#)P1R(6#',
+  'T8#*P1R(6#p+T8#)P1R(6#P7#)P1R(6#U0#)P1R(6#_/#)P1R(6#PR@#)P1R(6#P+#)P1R(6#UI#)P1R(6#P2#*P1R(6#tBP',
+  '6#)P1R(6#PUA#)P1R(6#P5#)P1R(6#[1#)P1R(6#XE#)P1R(6#U-#*P1R(6#R(U-#*P1R(6#tBN#)P1R(#_@z2#(P1R(#t!#',
+  '(P1R(#h;#)P1R(#PUKiH#)P1R(#PUKmC#)P1R(#PUKh<#)P1R(#R>Qj:#)P1R(#_@PUL#)P1R(#Qj;Qj<&)P1R(Fj&P8#)P1',
+  'R(h?4T,#)P1R(h?4P.#)P1R(h?4P3#)P1R(h?4P=#)P1R(h?4PI#)P1R(h?4Q%#)P1R(h?4QE#)P1R(h?4R!#)P1R(h?4QD#',
+  ')P1R(h?4R*+)P1R(R(4T,#)P1R(R(4P.#)P1R(R(4P3#)P1R(R(4P=#)P1R(R(4PI#)P1R(R(4Q%#)P1R(R(4QE#)P1R(R(4',
+  'R!#)P1R(R(4QD#)P1R(R(4R*+(P1R(#Qj=#(P1R(#Qj>#(P1R(#Qj?#(P1R(#Qj@#(P1R(#QjA#(P1R(#QjB#*P1R(#TCVLP',
+  'i/#)P1R(#_@QjC#(P1R(#QjD#(P1R(#QjE#(P1R(#QjF#(P1R(#QjG#(P1R(#QjH#(P1R(#QjI&(FsAU,V8#%FQjJ#%Fp>#&',
+  'FS/B#&FW5P8#&FQjKP6#(Fp?U*P6#(FS(P%P6#)FP0S(P%P6#)FQKz3PDP6#)FPi0z3PDP6#&Fz4N#(FP0z4N#&Fz4P6#&Fz',
+  '4_,#*F+%!U+P6#+F+%!RCU+P6#)FOY!NO#)FLY!NL#)FOY!P6O#)FLY!P6L#(FP&QjLN#(FD#N#)FVAP0Pa7N#(FQ1#N#)FP',
+  '0Q1#N#)FP0Q1#P6#(FW5T+V8#*F+%!a2S9#*F+%!a2Q2#*F+%!a2S;P*(R;#z5QjM#(R;#z5cI#&R;#QjN#&R;#Pi1#&R;#Q',
+  'jO#&R;!Pi2#(R;!Pi2f6#&R;!Pi3#(R;!Pi3f6#&R;!Pi4#(R;!Pi4f6#(R;!R>p@#)R;!R>p@f6#(R;!ROz6#)R;!ROz6f6',
+  '#&R;!Qk!#&R;!Qk##&R;!Pi5#(R;!Pi5f6#&R;!Q*#(R;!Q*kG#&R;!S=#(R;!S=Qk%#&R;!UA#&R;!UL#(R;!ULQk&#&R;!',
+  'UG#(R;!UGQk(#&R;!VE#(R;!S+Qk)#)R;!S+f7kG#)R;!S6f7Qk*#)R;!S6f7kG#(R;!S#Qk+#&R;!S+#(R;!S+Qk,#&R;!S',
+  '6#(R;!S6Qk-#&R;!S##&R;!R:#(R;!R:Qk.#&R;!T.#(R;!T.Qk/#&R;!RK#&R;!S)#&R;!R>#&R;!RO#&R;!UM#(R;!S0Qk',
+  '0#(R;!S0Qk1#&R;!S0#&R;!R&#&R;#Qk2#(R;6#f6#(R;6#z5#)R;6#z5Pi6#(R;6#z7#)R;6#z7Qk3#)R;6#R>p@#*R;6#R',
+  '>p@f6#)R;6#ROz6#*R;6#ROz6f6#(R;6#tE#)R;6#tEp@#)R;6#tEf6#*R;6#tEp@f6#(R;6#PUM#)R;6#PUMf6#&R;tFtF#',
+  '(R;!X7kH#(R;!Qk4kH#(R;!Qk5kH#(R;!h,kH#(R;!b=kH#(R;!z8kH#(R;!Qk6kH#(R;!YIPi7(&R;4T,#&R;4P.#&R;4P3',
+  '#&R;4P=#&R;4PI#&R;4Q%#&R;4QE#&R;4R!#&R;4QD#&R;4R*#%R;Pi8#%R;Pi9#%R;Pi:#&R;PUNQk7#&R;PUNQk8#&R;PU',
+  'NQk9#%R;Qk:#(R;J0Pi;#(R;J0Qk;#(R;J0Pi<#(R;J0z9#)R;J0z9Pi1#(R;J0Qk<#(R;J0Qk=#(R;J0Qk>#(R;J0Qk?#)R',
+  ';J0z9Qk@#)R;J0FQkA#)R;J0FQkB#)R;J0FPi=#)R;J0FPi>#)R;J0FPUO#+R;J0FPi=&PUO#+R;J0FPi>&PUO#)R;J0FQkC',
+  '#)R;J0FQkD#*R;J0z:S([,#*R;J0z:S(]M#*R;J0z:Y1Pi?#*R;J0z:Y1QkE#*R;J0tGS(QkF#*R;J0tGS(QkG#*R;J0tGY1',
+  'QkH#*R;J0tGY1QkI#*R;J0tGS(PV!#&R;Pi8Pi@#&R;Pi9Pi@%&V&#QkJ#&V&#QkK#&V&#QkL#&V&!:#&V&!P7#&V&!P+#&V',
+  '&![1#&V&!P2#&V&!P5#&V&!iG#&V&!Q*#&V&!a.#&V&!S=#&V&!UA#&V&!UL#&V&!UG#&V&!X6#&V&!VE#&V&!S+#&V&!S6#',
+  '&V&!S##&V&!R:#&V&!YF#&V&!WJ#&V&!T.#&V&!RK#&V&!S)#&V&!R>#&V&!RO#&V&!UM#&V&!S0#&V&!cM#&V&!R&#(V&T<',
+  '#QkM#(V&T<#QkN#(V&T<#QkO#(V&6#Ql!#(V&6#Ql##(V&6#Ql%#(V&6#Ql&#(V&6#Ql(#(V&6#Ql)#&V&#Ql*#&V&#YG#)V',
+  '&T<#PiARK#)V&T<#PiAUM#&V&!VF#&V&!Ql+#&V&4T,#&V&4P.#&V&4P3#&V&4P=#&V&4PI#&V&4Q%#&V&4QE#&V&4R!#&V&',
+  '4QD#&V&4R*#%V&c.#&V&!Ql,#&V&!PiB#&V&!Y3#(V&!P/S>#(V&!P/S&#&WD!:#(WD!g<:#&WD!R&#(WD!g<R&#(WD!PV#R',
+  '&#&WD!T.#(WD!PV%T.#&WD!R:#(WD!g<R:#&WD!S##(WD!PV#S##&WD!UM#(WD!g<UM#(WD!PiCUM#&WD!S=#(WD!g<S=#&W',
+  'D!UG#&WD!S6#&WD!R>#(WD!g<R>#&WD!RK#(WD!g<RK#(WD!PiDS+#(WD!PiES+#&WD!S0#(WD!g<S0#(WD!PV#S0#&WD!S)',
+  '#(WD!g<S)#&WD!UA#&WD!RO#(WD!g<RO#&WD!VE#&WD!UL#&WD!pA#&WD!tH#&WD!P7#&WD!P+#&WD#Ql-#(WD6#P5#)WD6#',
+  'PiCP5#(WD6#Y=#(WD6#P7#)WD6#PV%P7#(WD6#P2#)WD6#PV%P2#(WD6#P+#+WD6#P+P!g<S0#(WDT<#_<#(WDT<#SB#%WDP',
+  'iF#%WDQl.-)WD0e6S#Ql/#(WD0e6Ql0#(WD0e6Ql1#(WD0e6PiF#&UJ!Q*#&UJ!Ql2#&UJ!VF#&UJ!S=#&UJ!Ql3#&UJ!UA#',
+  '&UJ!UL#&UJ!VB#&UJ!UG#&UJ!VE#&UJ!S+#&UJ!W0#&UJ!S6#&UJ!S##&UJ!R:#&UJ!x9#&UJ!WI#&UJ!YF#&UJ!Ql4#&UJ!',
+  'T.#&UJ!Ql5#&UJ!RK#&UJ!PiG#&UJ!]!#&UJ!cK#&UJ!e-#&UJ!S)#&UJ!R>#&UJ!RO#&UJ!R&#&UJ!PiH#&UJ!WJ#&UJ!S0',
+  '#&UJ!UF#&UJ!UM#&UJ!:#(UJTJ!S)#(UJTJ!R>#(UJ6#T8#(UJ6#P7#(UJ6#P2#(UJ6#XE#(UJ6#P+#(UJ6#UI#(UJ6#P5#(',
+  'UJT<#S>#(UJT<#S&#(UJT<#Q@#(UJT<#R<#(UJT<#TE#(UJT<#Q2#(UJT<#S;#(UJT<#Ql6#(UJT<#z2#&UJ#Ql7#&UJ#^A(',
+  '&UJS<PiI#)UJS<PV&Ql8PiI#&UJS<PiJ#(UJS<PiKPiJ#&UJS<PiK#&UJ4T,#&UJ4P.#&UJ4P3#&UJ4P=#&UJ4PI#&UJ4Q%#',
+  '&UJ4QE#&UJ4R!#&UJ4QD#&UJ4R*(&UJ!X2#&UJ!Y>#&UJ!X9#(X?XH4T,#(X?XH4P.#(X?XH4P3#(X?XH4P=#(X?XH4PI#(X',
+  '?XH4Q%#(X?XH4QE#(X?XH4R!#(X?XH4QD#(X?XH4R*#(X?XH!RO#(X?XH!]G#(X?XH!x2#(X?XH!e/#(X?XH!bA#(X?XH!t*',
+  '#(X?XH!Ql9#(X?XH!Ql:#(X?XH!Ql;#(X?XH!Ql<#(X?XH!VG#(X?XH!p<#(X?XH!PV(#(X?XH!Ql=#(X?XH!tI#(X?XH!^0',
+  '#(X?XH!z;#(X?XH!]@#(X?XH!PiL#(X?XH!Pi##(X?XH!X=#(X?XH!z<#(X?XH!Ql>#(X?XH!WB#(X?XH!z=#(X?XH!a##(X',
+  '?XH!Ql?#(X?XH!Ql@#(X?XH!PiM#(X?XH!s##(X?XHYJQlA#(X?XHQlBPiN#(X?XHQlCPiN#&X?XHQlD#&X?XHQlE#&X?XHQ',
+  'lF#(X?XHS<PiO#)X?XHS<P0PiO#)P#%!cEb=#)P#%!QlG_:#)P#%!pBP2#)P#%!f8g+#)P#%!p+Z7#)P#%!QlHZ7#*P#%!p+',
+  'h-##)P#%!p+i>#)P#%!QlIo@,)Q6Y()!Z9#)Q6Y()!xE#)Q6Y()!mD#)Q6Y()!xF#)Q6Y()!WB#)Q6Y()!xG#)Q6Y()!s=#)',
+  'Q6Y()!xH#)Q6Y()!VK#)Q6Y()!p)#)Q6Y()!xI#)Q6Y()!_C#)Q6Y()!t##)Q6Y()!V5#)Q6Y()!xJ#)Q6Y()!xK#)Q6Y()!',
+  'p.#)Q6Y()!o>#)Q6Y()!mE#)Q6Y()!iI#)Q6Y()!xL#)Q6Y()!xM#)Q6Y()!xN#)Q6Y()!t%#)Q6Y()![2#)Q6Y()!xO#)Q6',
+  'Y()!c>#)Q6Y()!t&#)Q6Y()!y!#)Q6Y()!y##)Q6Y()!y%#)Q6Y()!y&#)Q6Y()!y(#)Q6Y()!YE#)Q6Y()!t(#)Q6Y()!^.',
+  '#)Q6Y()!p/#)Q6Y()!y)#)Q6Y()!g4#)Q6Y()!p0#)Q6Y()!PdJ#*Q6Y()!RCmD#)Q6Y()!Y,&)Q6Y()!p1#*Q6Y()!h-##*',
+  'Q6Y()!PdK##(V&S<e6QlJ#(V&S<e6QlK#(V&S<e6QlL#(V&S<e6Pj!#)V&S<e6PiBz>#)V&S<e6Q*z>#)V&S<e6S6z>#)V&S',
+  '<e6T.z>-&XGR,QlM#&XGR,QlN#&XGR,QlO#&XG#Qm!#)XG#tJPj#h@#*XGR,tJQm#_%h@#)XGR,tJ_%h@#*XGR,tJPV)_%h@',
+  '#(XGR,cIP6#+XGR,tJPV)_%h@Qm%#(XGR,P0h@#(XGR,W5h@#(XGR,PV)sC#(XGR,P8P6#)XGR,P3R1P6#)XGR,P=R1P6#*X',
+  'GR,Qm&Pb9_%h@#)XGR,Qm(_%h@#(XG#Z3h@#(XG#Z3x4#)XG#TCZ3x4#(XG#Z3sC#)XG#TCZ3sC#*XG#Z3x4&W/#*XG#Z3sC',
+  '&W/#(XG#X&Pj%#(XG#X&Qm)#(XG#X&Pj&#*XG#X&Pj&&W/#&XG#Qm*#)XG#Qm+RMX&#(XG#RMX&#)XG#Qm,RMX&#)XG#X&Qm',
+  '-Qm.#&XG#Pj(#(XG#VLPj(#(XGR,cIN#&XG#p##&XG#p%#&XG#Qm/#(XGR,RBN#)XGR,P0RBN#)XG#P0X&Pj%*)+!%):#)+!',
+  '%)[1#)+%!RC[1#*+!%)h)P;#)+!%)T?#)+!%)SJ#)+!%)jL#)+!%)P5#*+%!RCS(P5#)+%!RCP7#)+!%)U3#)+!%)S>#++!%',
+  ')Q@&PD#)+!%)S&#*+!%)TCR<#)+!%)P2#*+!%)S(P2#)+%!aBP2#*+%!aBS(P2#++%!aBP2&PD#)+%!RCY0#)+!%)jO#*+%!',
+  'XLQ>P2#*+%!Z:Q>P2#)+!%)TE#*+!%)TCQ2#*+!%)RCQ2#)+!%)S;#)+!%)P+#)+%!aBP+#*+%!aBQm0P+#*+%!aBRCS&#)+',
+  '!%)SC#)+!%)U+#)+!%)T%#)+!%)f!#)+!h*Qm1Qm2#&+!Y,#)H!%)_7#)H!%)d7#)H!%)X.#)H!%)]=#)H!%)b;#)P#!%)_-',
+  '#(P:!):#(P:!)[1#(P:!)P;#)P:!)h)P;#(P:!)SJ#(P:!)P5#)P:!)TCP5#(P:!)S9#(P:!)SB#(P:!)P7#(P:!)U3#(P:!',
+  ')S>#(P:!)Q@#(P:!)S&#(P:!)R<#)P:!)TCR<#(P:!)P2#(P:!)jO#(P:!)TE#(P:!)Q2#(P:!)S;#(P:!)P+#(P:!)U+#(P',
+  ':!%:#)P:!%RC:#(P:!%V##)P:!%RC[1#(P:!%P;#(P:!%SJ#(P:!%P5#(P:!%g&#)P:!%S(P5#*P:!%RCS(P5#(P:!%S9#)P',
+  ':!%RCP7#(P:!%S>#(P:!%S&#(P:!%eO#(P:!%P2#)P:!%S(P2#*P:!%XLQ>P2#*P:!%Z:Q>P2#(P:!%TE#(P:!%S;#(P:!%P',
+  '+#)P:!%aBP+#)P:!%RCS&#(P:!%SC#(P:!%Y,#(P:!%a=#)P:!%H_7#(P:!%a,#)P:!%H^>#(P:!%^-#)+YN%!P7#)+YN%!Q',
+  '2#)+YN%!P+#)+YN%!SC#)HYN%!a=#)HYN%!_7#)HYN%!]=#)HYN%!^>#)HYN%!^-#(+%!_/#++%!P;&PJS.#++%!SJ&PJS.#',
+  '++%!V!&PJS.#++%!S&&PJS.#++%!R<&PJS.#++%!TE&PJS.#++%!Q2&PJS.#-+%!Q2&k!>PJS.#++%!Q3&PJS.#++%!S;&PJ',
+  'S.#++%!T%&PJS.#)+%!RCS9#(P:!P#WB#)+%!a2S9#*+%!kD&Qm3#++%)!P7&PD#*+%!WN&PD#*+%!TE&PD#++%)!P+&PD#*',
+  '+%!XD&PD#++%!P;&]-Q!#++%!SJ&]-Q!#++%!V!&]-Q!#++%!S9&]-Q!#++%!S>&]-Q!#++%!Q@&]-Q!#++%!S&&]-Q!#++%',
+  '!R<&]-Q!#++%!TE&]-Q!#++%!Q2&]-Q!#++%!Q3&]-Q!#++%!a;&]-Q!#++%!SC&]-Q!#++%!TF&]-Q!#++%!T%&]-Q!#++%',
+  '!:&Y:Q!#++%!V#&Y:Q!#,+%!SJ&Q!>W/#++%!P5&Y:Q!#,+%!S(P5&Y:Q!#-+%!TCS(P5&Y:Q!#++%!g&&Y:Q!#++%!P7&Y:',
+  'Q!#,+%!S(P2&Y:Q!#++%!a;&Y:Q!#++%!P+&Y:Q!#++%!f!&Y:Q!#)P:!%RCV##(P:!%T?#*P:!%T?&_8#(P:!%jL#*P:!%T',
+  'CS(P5#(P:!%V!#+P:!%_LU3&PD#)P:!%?S9#)P:!%RCSB#*P:!%P7&PD#(P:!%WN#)P:!%)P7#+P:!%)P7&PD#*P:!%U3&i;',
+  '#+P:!%Q@&Y:Q!#+P:!%Q@&]-Q!#)P:!%)Q@#*P:!%S&&Q!#,P:!%RCS&&RMa-#+P:!%R<&OQ!#+P:!%R<&Y:Q!#)P:!%)R<#',
+  ')P:!%h)P2#(P:!%^>#*P:!%Q3&Q!#(P:!%a;#+P:!%S;&]-Q!#)P:!%P+QG#(P:!%XD#)P:!%)P+#*P:!%SC&Q!#)P:!%RCS',
+  'C#(P:!%T%#+P:!%T%&Y:Q!#*P:!%T%&_8#(P:!%f!#(P:!%^@#(FY;V0V8#(FY;T+V8#&Fz?P6#&FPV*P%#%FQm4#%FQm5#%',
+  'FQm6#%FQm7#%FQm8#%FQm9#*F+%!Q2P6#%FQm:#%FQm;#(FP0U,N#&Fc@N#&Ff&P6#&Fp<P6#&Fj%N#&Fo1N#,F+%!tKS(:N',
+  '#)F+%![1#)F+%!z@#)F+%!pC#*F+%!T?],#*F+%!a2SJ#)F+%!jL#)F+%!S9#*F+!%)S9#)F+%!S>#)F+%!Q@#*F+!%)Q@#*',
+  'F+!%)S&#)F+%!R<#*F+!%)R<#*F+!%)Q2#*F+%!Q2tL#)F+%!Q3#*F+%!RMQ3#)F+%!T%#)F+%!V##)F+%!P;#)F+%!a=#)F',
+  '+%!g&#)F+%!V!#-F+%!Q@&P0PJS.#-F+%!P2&QKz3PD#)F+%!TE#)F+%!a;#-F+%!P+&QKz3PD#)F+%!U+#+F+%!:&U?#+F+',
+  '%!P2&U?#+F+%!P+&U?#(FQ0ZIN#(Fj(NL#(Fj(NO#(FP8NO#)Ff8VAo6P6#(FP8P6O#&FQm<P%#)FP0VAW<P6#)Fc#RGP?P6',
+  '#(FOU@N#+FLU@>QBU@P6#++)!:&RBP6#++%!:&RBP6#++)!P;&P8N#++%!P;&P8N#++)!P;&P8P6#++%!P;&P8P6#++)!P;&',
+  'U*P6#++%!P;&U*P6#,+)!T?&],>T+#,+%!T?&],>T+#++)!SJ&P8N#++%!SJ&P8N#++)!SJ&P8P6#++%!SJ&P8P6#++)!SJ&',
+  'U*P6#++%!SJ&U*P6#*+)!SJ&],#*+%!SJ&],#++)!SJ&U,P6#++%!SJ&U,P6#,+)!P5&V9>V0#,+%!P5&V9>V0#,+)!P5&V9',
+  '>T+#,+%!P5&V9>T+#++)!P5&U,P6#++%!P5&U,P6#++)!P5&S.P6#++%!P5&S.P6#,+)!P5&],>W<#,+%!P5&],>W<#++)!V',
+  '!&P8N#++%!V!&P8N#*+)!S9&V9#*+%!S9&V9#++)!SB&P8N#++%!SB&P8N#++)!SB&P8P6#++%!SB&P8P6#*+)!SB&U?#*+%',
+  '!SB&U?#*+)!SB&],#*+%!SB&],#++)!SB&W<P6#++%!SB&W<P6#++)!P7&S.P6#++%!P7&S.P6#,+)!P7&U?>T+#,+%!P7&U',
+  '?>T+#*+)!S>&T+#*+%!S>&T+#++)!S>&P8P6#++%!S>&P8P6#++)!S>&U*P6#++%!S>&U*P6#++)!Q@&P8P6#++%!Q@&P8P6',
+  '#-+)!Q@&P8P6>V9#-+%!Q@&P8P6>V9#++)!Q@&U*P6#++%!Q@&U*P6#++)!Q@&U,P6#++%!Q@&U,P6#*+)!S&&T+#*+%!S&&',
+  'T+#++)!S&&P8N#++%!S&&P8N#++)!S&&P8P6#++%!S&&P8P6#++)!R<&P8N#++%!R<&P8N#++)!R<&P8P6#++%!R<&P8P6#+',
+  '+)!R<&U*P6#++%!R<&U*P6#++)!R<&U,P6#++%!R<&U,P6#,+)!P2&S.>T+#,+%!P2&S.>T+#,+)!P2&S.>U?#,+%!P2&S.>',
+  'U?#,+)!P2&V9>V0#,+%!P2&V9>V0#,+)!P2&V9>T+#,+%!P2&V9>T+#*+)!TE&T+#*+%!TE&T+#++)!TE&P8N#++%!TE&P8N',
+  '#++)!Q2&P8N#++%!Q2&P8N#++)!Q2&P8P6#++%!Q2&P8P6#-+)!Q2&P8P6>V9#-+%!Q2&P8P6>V9#++)!Q2&U*P6#++%!Q2&',
+  'U*P6#++)!Q3&P8N#++%!Q3&P8N#++)!Q3&P8P6#++%!Q3&P8P6#-+)!Q3&T+>P8N#-+%!Q3&T+>P8N#-+)!Q3&Y*>P8N#-+%',
+  '!Q3&Y*>P8N#.+)!Q3&P8P6>P8N#.+%!Q3&P8P6>P8N#++)!S;&P8N#++%!S;&P8N#++)!S;&P8P6#++%!S;&P8P6#++)!S;&',
+  'U*P6#++%!S;&U*P6#++)!S;&U,P6#++%!S;&U,P6#++)!P+&U?P6#++%!P+&U?P6#++)!P+&S.P6#++%!P+&S.P6#++)!P+&',
+  'U,P6#++%!P+&U,P6#,+)!P+&S.>T+#,+%!P+&S.>T+#,+)!P+&V9>U?#,+%!P+&V9>U?#*+)!SC&S.#*+%!SC&S.#++)!SC&',
+  'P8P6#++%!SC&P8P6#*+)!U+&V0#*+%!U+&V0#*+)!U+&T+#*+%!U+&T+#*+)!U+&U?#*+%!U+&U?#++)!U+&P8N#++%!U+&P',
+  '8N#++)!U+&P8P6#++%!U+&P8P6#++)!TF&P8N#++%!TF&P8N#*+)!TF&U?#*+%!TF&U?#++)!T-&P8N#++%!T-&P8N#*+)!T',
+  '%&U,#*+%!T%&U,#++)!T%&P8P6#++%!T%&P8P6#++)!T%&U*P6#++%!T%&U*P6#++%!SB&U*P6#*+%!S;&U?#++%!U+&RBN#',
+  '++%!T-&RBN#,+%!:&LQ>RB#,+%!RMQ3&P8N#,+%!RMQ3&S2PD#,+%!RMQ3&R/PD#)+)!m0Q3#(+%!a,#++)!:&P8P6#++%!:',
+  '&P8P6#++)!:&Q!N#++%!:&Q!N#,+)!:&U,>T+#,+%!:&U,>T+#,+)!:&U,>V0#,+%!:&U,>V0#-+)!:&U,>Q!N#-+%!:&U,>',
+  'Q!N#,+)!:&U,>S.#,+%!:&U,>S.#-+)!:&U,>P8P6#-+%!:&U,>P8P6#,+)!:&W<>T+#,+%!:&W<>T+#,+)!:&W<>V0#,+%!',
+  ':&W<>V0#-+)!:&W<>Q!N#-+%!:&W<>Q!N#,+)!:&W<>S.#,+%!:&W<>S.#-+)!:&W<>P8P6#-+%!:&W<>P8P6#++)!P5&P8P',
+  '6#++%!P5&P8P6#++)!P5&Q!N#++%!P5&Q!N#*+)!P5&S.#*+%!P5&S.#,+)!P5&U,>T+#,+%!P5&U,>T+#,+)!P5&U,>V0#,',
+  '+%!P5&U,>V0#-+)!P5&U,>Q!N#-+%!P5&U,>Q!N#,+)!P5&U,>S.#,+%!P5&U,>S.#-+)!P5&U,>P8P6#-+%!P5&U,>P8P6#',
+  '++)!P7&Q!N#++%!P7&Q!N#++)!P7&P8P6#++%!P7&P8P6#++)!P2&P8P6#++%!P2&P8P6#++)!P2&Q!N#++%!P2&Q!N#,+)!',
+  'P2&U,>T+#,+%!P2&U,>T+#,+)!P2&U,>V0#,+%!P2&U,>V0#-+)!P2&U,>Q!N#-+%!P2&U,>Q!N#,+)!P2&U,>S.#,+%!P2&',
+  'U,>S.#-+)!P2&U,>P8P6#-+%!P2&U,>P8P6#,+)!P2&[%>T+#,+%!P2&[%>T+#,+)!P2&[%>V0#,+%!P2&[%>V0#-+)!P2&[',
+  '%>Q!N#-+%!P2&[%>Q!N#,+)!P2&[%>S.#,+%!P2&[%>S.#-+)!P2&[%>P8P6#-+%!P2&[%>P8P6#++)!P+&P8P6#++%!P+&P',
+  '8P6#++)!P+&Q!N#++%!P+&Q!N#,+)!P+&[%>T+#,+%!P+&[%>T+#,+)!P+&[%>V0#,+%!P+&[%>V0#-+)!P+&[%>Q!N#-+%!',
+  'P+&[%>Q!N#,+)!P+&[%>S.#,+%!P+&[%>S.#-+)!P+&[%>P8P6#-+%!P+&[%>P8P6#*+)!T-&V0#*+%!T-&V0#++)!T-&P8P',
+  '6#++%!T-&P8P6#++)!T-&Q!N#++%!T-&Q!N#*+)!T-&S.#*+%!T-&S.#)+)!zAZK#)+%!zAZK#)+)!zASC#)+%!zASC#*+)!',
+  'T-&]H#*+%!T-&]H#*H%!V#&U4#*H%!V#&TO#,H%!V#&U4>W*#,H%!V#&TO>W*#,H%!V#&U4>W+#,H%!V#&TO>W+#,H%!V#&U',
+  '4>XJ#,H%!V#&TO>XJ#*H)!V#&U4#*H)!V#&TO#,H)!V#&U4>W*#,H)!V#&TO>W*#,H)!V#&U4>W+#,H)!V#&TO>W+#,H)!V#',
+  '&U4>XJ#,H)!V#&TO>XJ#*H%!Z0&U4#*H%!Z0&TO#,H%!Z0&U4>W*#,H%!Z0&TO>W*#,H%!Z0&U4>W+#,H%!Z0&TO>W+&*H)!',
+  'Z0&U4#*H)!Z0&TO#,H)!Z0&U4>W*#,H)!Z0&TO>W*#,H)!Z0&U4>W+#,H)!Z0&TO>W+&*H%!WA&U4#*H%!WA&TO#,H%!WA&U',
+  '4>W*#,H%!WA&TO>W*#,H%!WA&U4>W+#,H%!WA&TO>W+#,H%!WA&U4>XJ#,H%!WA&TO>XJ#*H)!WA&U4#*H)!WA&TO#,H)!WA',
+  '&U4>W*#,H)!WA&TO>W*#,H)!WA&U4>W+#,H)!WA&TO>W+#,H)!WA&U4>XJ#,H)!WA&TO>XJ#*H%!WN&U4#*H%!WN&TO#,H%!',
+  'WN&U4>W*#,H%!WN&TO>W*#,H%!WN&U4>W+#,H%!WN&TO>W+#,H%!WN&U4>XJ#,H%!WN&TO>XJ#*H)!WN&U4#*H)!WN&TO#,H',
+  ')!WN&U4>W*#,H)!WN&TO>W*#,H)!WN&U4>W+#,H)!WN&TO>W+#,H)!WN&U4>XJ#,H)!WN&TO>XJ#*H%![N&U4#*H%![N&TO#',
+  ',H%![N&U4>W*#,H%![N&TO>W*#,H%![N&U4>W+#,H%![N&TO>W+&*H)![N&U4#*H)![N&TO#,H)![N&U4>W*#,H)![N&TO>W',
+  '*#,H)![N&U4>W+#,H)![N&TO>W+&*H%!XD&U4#*H%!XD&TO#,H%!XD&U4>W*#,H%!XD&TO>W*#,H%!XD&U4>W+#,H%!XD&TO',
+  '>W+#,H%!XD&U4>XJ#,H%!XD&TO>XJ%*H)!XD&TO%,H)!XD&TO>W*%,H)!XD&TO>W+%,H)!XD&TO>XJ#*H%!UK&U4#*H%!UK&',
+  'TO#,H%!UK&U4>W*#,H%!UK&TO>W*#,H%!UK&U4>W+#,H%!UK&TO>W+#,H%!UK&U4>XJ#,H%!UK&TO>XJ#*H)!UK&U4#*H)!U',
+  'K&TO#,H)!UK&U4>W*#,H)!UK&TO>W*#,H)!UK&U4>W+#,H)!UK&TO>W+#,H)!UK&U4>XJ#,H)!UK&TO>XJ#*H%!V#&W*#*H%',
+  '!V#&W+#*H%!Z0&W*#*H%!Z0&W+#*H%!WA&W*#*H%!WA&W+#*H%!WN&W*#*H%!WN&W+#*H%![N&W*#*H%![N&W+#*H%!XD&W*',
+  '#*H%!XD&W+#*H%!UK&W*#*H%!UK&W+&,H%!V#&U4>Z/#,H%!V#&TO>Z/#.H%!V#&U4>W*>Z/#.H%!V#&TO>W*>Z/#.H%!V#&',
+  'U4>W+>Z/#.H%!V#&TO>W+>Z/#.H%!V#&U4>XJ>Z/#.H%!V#&TO>XJ>Z/#,H)!V#&U4>]A#,H)!V#&TO>]A#.H)!V#&U4>W*>',
+  ']A#.H)!V#&TO>W*>]A#.H)!V#&U4>W+>]A#.H)!V#&TO>W+>]A#.H)!V#&U4>XJ>]A#.H)!V#&TO>XJ>]A#,H%!WA&U4>Z/#',
+  ',H%!WA&TO>Z/#.H%!WA&U4>W*>Z/#.H%!WA&TO>W*>Z/#.H%!WA&U4>W+>Z/#.H%!WA&TO>W+>Z/#.H%!WA&U4>XJ>Z/#.H%',
+  '!WA&TO>XJ>Z/#,H)!WA&U4>]A#,H)!WA&TO>]A#.H)!WA&U4>W*>]A#.H)!WA&TO>W*>]A#.H)!WA&U4>W+>]A#.H)!WA&TO',
+  '>W+>]A#.H)!WA&U4>XJ>]A#.H)!WA&TO>XJ>]A#,H%!UK&U4>Z/#,H%!UK&TO>Z/#.H%!UK&U4>W*>Z/#.H%!UK&TO>W*>Z/',
+  '#.H%!UK&U4>W+>Z/#.H%!UK&TO>W+>Z/#.H%!UK&U4>XJ>Z/#.H%!UK&TO>XJ>Z/#,H)!UK&U4>]A#,H)!UK&TO>]A#.H)!U',
+  'K&U4>W*>]A#.H)!UK&TO>W*>]A#.H)!UK&U4>W+>]A#.H)!UK&TO>W+>]A#.H)!UK&U4>XJ>]A#.H)!UK&TO>XJ>]A#*H%!V',
+  '#&pD#*H%!V#&V9#,H%!V#&W*>Z/#*H%!V#&Z/#,H%!V#&W+>Z/%*H%!V#&XJ#,H%!V#&XJ>Z/#*H)!V#&pD#*H)!V#&V9#*H',
+  ')!V#&W*#*H)!V#&W+#*H)!V#&]A#%HPQ;#%H]A#%HU4#%HXJ#(Hb:>XJ#,H%!WA&W*>Z/#*H%!WA&Z/#,H%!WA&W+>Z/%*H%',
+  '!WA&XJ#,H%!WA&XJ>Z/#*H)!Z0&W*#*H)!Z0&W+#*H)!WA&W*#*H)!WA&W+#*H)!WA&]A#(HU4>W*#(HU4>W+#(HU4>XJ#*H',
+  '%!WN&pD#*H%!WN&V9#,H%!WN&b:>W*#,H%!WN&b:>W+&*H%!WN&XJ#,H%!WN&b:>XJ#*H)!WN&pD#*H)!WN&V9#*H)!WN&W*',
+  '#*H)!WN&W+%(HTO>W*#(HTO>W+#(HTO>XJ#*H%!XD&pD#*H%!XD&V9#,H%!XD&b:>W*#,H%!XD&b:>W+#*H%!]=&U4#*H%!]',
+  '=&TO#*H%!XD&XJ#,H%!XD&b:>XJ#*H)!XD&pD#*H)!XD&V9#*H)!XD&W*#*H)!XD&W+#*H)!]=&TO#(Hb:>W*#(Hb:>W+#%H',
+  'W*&,H%!UK&W*>Z/#*H%!UK&Z/#,H%!UK&W+>Z/%*H%!UK&XJ#,H%!UK&XJ>Z/#*H)![N&W*#*H)![N&W+#*H)!UK&W*#*H)!',
+  'UK&W+#*H)!UK&]A#%HW+#%HTO%%WB^E#%b%^E#%WB_6#%b%_6#%Qm=_6#%Qm>_6#%Qm?_6#%kI_6#%S<_6#%x3_6#%n#_6#&',
+  'T,g=_6!#Qm@#&T,g=QmA!#QmB#&T,g=m2!#Pj)#%tMP%!#QmC#%zBP%!#QmD##eM#%QmEeM#%kIY?#%WBY?#%b%Y?#%RFQG#',
+  '&P0PLU*#&P0R+U*#(OTG[MP%#(LTG[MP%#(TGPj*[MP%#(TGPj+[MP%#(OP0[MP%#(LP0[MP%#(P0Pj*[MP%#(P0Pj+[MP%#',
+  '#n%#%P0n%##dH#%_9dH#&P.P8PV+#&P3P8PV+#%RFk5#%Pj,]J#%U*[##%s9[##%tMPj-!#QmF#%zBPj-!#QmG##QmH!&PV,',
+  'Pj.QmI#%tMPj/!#QmJ#%zBPj/!#QmK#&pBPQ5_6!#QmL#&s&Pb6##(s&U!RN###f##%P0f##%W5f##%TCf##&TCP0f##&TCW',
+  '5f###h8#)TGa+W![MP%#)TG^LW![MP%#%QmMP%#&P0^+P%##tN##k&##Pj0#%S8pE#&h8PV-]J##QmN#%eMdH#%SFc2#)OP&',
+  'R%&zC#)LP&R%&zC#&P0]+P%#&]+^+P%#&^+]+P%#&Pj1#e*#&TCPa###&P4Q<dH#&P4Q+dH#%R+Y##%TCeL#%PV.Q0#(P3Qm',
+  'OQn!k3#&rG_M##%Qn#Y?#%VAPj0#&tOS<P%#&P=P8S<#%g>f##&PIP8S<#&Q%P8S<#&P3P8S<#&PIP8P%#%Y;X-##Pj2#&PL',
+  'PIR1#&S,1_6!#Qn%##Qn&!%_.m2#%PV/P_L#%PV0<#%PV0[##%PV0Q1%%tMzD!#Qn(#%zBzD!#Qn)#&j)Pi0zD!#Qn*##Qn+',
+  '!&PV,Pj.zD#&Pj3Pj4Pj5#&Pj6Pj4Pj5#(Pj3,5Pj7#(Pj6,5Pj7#&Pj84Pj9#&Qn,4Pj9#%]<T,#)]<+%!P7&%]<PI#%]<Q',
+  '%#%]<QE#%]<R!#%]<QD#%]<R*#&]<Q1##%]<_M#&]<Z@##&]<OY!#&]<LY!#)]<+%!R<#%YNT,#%YNP.#%YNP3#%YNP=#%YN',
+  'PI#%YNQ%#%YNQE#%YNR!#%YNQD#%YNR*#&YNQ1##%YN_M#&YNZ@##&YNOY!#&YNLY!%)+YN%!:#)+YN%!P5#)+YN%!P2#)+Y',
+  'N%!TF#)+YN%!g&#)+YN%!SB#)+YN%!S>#)+YN%!Q@#)+YN%!S&#)+YN%!R<#)+YN%!TE#)+YN%!Q3#)+YN%!S;(%Qn-##%[/',
+  '##%Qn.##&Pj:Qn/##%Pj;##%Qn0##%Qn1##%Qn2##%k4##%PV1##&T;Qn3##%Pi;##%Pj<##%Pj=##%Qn4##%PV2##&Qn5Qn',
+  '6##%Pj>##%Qn7##%Qn8##%Qn9##%Qn:##&Qn;Qn<##%Qn=##%Qn>##&Qn?k4##&Qn@Pj;##&QnAP%##%QnB##%QnC##%QnD#',
+  '#%QnE##%Pj?#4(FOVMN#(FLVMN#)FRMPLU*_,#)FV%PLU*_,#(Fa)BN#(Fc3BN#(FOBN#(FLBN#&FRB_,#(Fc3RB_,#(Fa)R',
+  'B_,#(FP=R1N#(FPIR1N#&Fn&QH#&Fn&P&#&Fn&XM#(Fn&QHn(#)FOLBN#&Fn&u!#&Fn&Pj@#)Fn&PjAU;S!#(F_+^K_,#)FP',
+  '0PLPD_,#&FQnF0#&FW5QnG#(Ff8o6N#(FQ<B_,#)FRMP0^K_,#*FQ+VM&S1S/#*FQ<VM&S1S/#(FOBP6#(FLBP6#&FY#N4%P',
+  'jBPE#(QnHP?Y4QnI#&SK)T?#%w<QnJ#&VDU*0#%QnKPE#%QnLQnM#%QnNPV3##QnO#%w<Qo!#&?%S9#&?)SB#&u#)SB#&SK)',
+  'SB#%PjCPV3#)PjCPV3R4P3X.#&?)P7#&u#)P7#&?)Q@#&?%Q@#(Q@P;QG0#&SK)R<#%Qo###&bEQo%P_N#&?)TE!&Qo&Qo(P',
+  'V/#&SK)TE#&SK)W4#&?)Q2#&u#)Q2#&SK)Q2#%Qo)Qo*##PjD#%Qo+P%#%f9##&Qo,P%###Qo-#&SK)T%#%PjE##%zE##&VA',
+  'zE##&u#)T%#)RCH%!WN#%Qo.##%Qo/##&?)P;#&u#)T?#%Qo00#&?%P5#&?)P5#&?)V!#&RC)V!#&?)S&#&?%P2#%QF0#%oD',
+  '0#%c)0#%x%0#%m.PV4#&VL)W4#%Qo1##&SK%X.#&SK%_7#&SK)_7#&SK)X.#&SKbFu%#(RCP,)S9#(RCP,)Q@#(TCP,)Q@#(',
+  'RCP,)T-#(SKP()SJ#(SKP(%SJ#(SKP(%P5#(SKP(%P7#(SKP(%U3#%Qo2U*#%RCjK#%s&###Qo3#&RC%V!#(0P!W)PV4#(a:',
+  'SFP.Qo4#(a:SFP.Qo5#(a:SFP.PRG#(a:SFP.e7#(a:SFP3j*#(a:SFP.PRH#(a:SFP3PV5#(a:SFP=PV5#(a:SFPIPV5#(a',
+  ':SFP.PV6#(a:SFQ%PjF#(a:SFP.Z4#(a:SFP=d%#(a:SFQ%d%#(a:SFR!d%#&SFoLP.#&X/U:P.#&X/U:P3#&X/U:P=#&X/U',
+  ':PI#&X/U:Q%#&X/U:QE#&X/U:R!#&X/U:QD#&X/U:R*#&X/U:U!#&X/U:f:#&X/U:d&#&X/U:ZN#(X/U:P.R-#(X/U:Q%R-#',
+  '(X/U:P.RN#(%X/U:P.#(%X/U:P3#(%X/U:P=#(%X/U:PI#(%X/U:Q%#(%X/U:QE#(%X/U:R!#(%X/U:QD#(%X/U:R*#(%X/U',
+  ':U!#(%X/U:f:#(%X/U:d&#(%X/U:ZN#)%X/U:P.R-#)%X/U:Q%R-#)%X/U:P.RN#*X/U:P.RNT?SJ#(X/U:Q%RN#(X/U:U!R',
+  'N#)X/U:TCP.R-#)+%!TCT?#)X/U:QEQo65#)X/U:ZNQo75#(X/U:ZNRN#)X/U:P.R-RN#(a:SFT,j*#&RC4P3#&RC4P=)%Q<',
+  'B#%S3B#%Q+B#%S/B#&OLB#&Q0QBB#&S4WKB#&S4W#B#&T=W#B#&T=WKB#(Q<B&PD#(Q+B&PD#&Q<[3B#&Q+[3B#(Q<P3zFB#',
+  '(S3P3zFB#(Q+P3zFB#(S/P3zFB#(Q<B&W/#(Q+B&W/#(Q<BZEQG#(S3BZEQG#(Q+BZEQG#(S/BZEQG#)Q0QBB&zG#(Q<B&Q!',
+  '#(Q+B&Q!#(Q<B&]H#(Q+B&]H#(OL[3B#)OLB&PD#&S/f&B#)S3B&a*Q<#)S3B&a*Q+#)S/B&a*Q<#)S/B&a*Q+#)Q+B&Z<S/',
+  '#)S/B&Z<Q<#(a)XLu&B#(c3XLu&B#*S4WKBP?RMQG#-Q<BP?QGR4Q+BP?QG#(a)S(QHB#(c3S(QHB#)Q<VM&S1S3#)Q<VM&S',
+  '1S/#)S3VM&S1Q+#)S3VM&S1Q<#)Q+VM&S1S3#)Q+VM&S1S/#)S/VM&S1Q+#)S/VM&S1Q<#)Q+BR4Q<B#*S3BQ<PES/B#)Q<B',
+  'R4Q+B#&Q<kJbG#&S3kJbG#&Q+kJbG#&S/kJbG#)Q<VMR4Q+VM#)Q+VMR4Q<VM#)Q<P0B&PD#*OLP0B&PD#)Q+P0B&PD#&Q<P',
+  '0B#&S3P0B#&Q+P0B#&S/P0B#(OLP0B#(Q0QBP0B#(S4WKP0B#(S4W#P0B#(T=W#P0B#(T=WKP0B#&Q<W5B#&Q+W5B#&Q<zHB',
+  '#&Q+zHB#)S3B&P0PD#)S/B&P0PD#&Q<e8B#&S3e8B#&Q+e8B#&S/e8B#(Q<BP?QG#(Q+BP?QG#&Q<P<B#&S3P<B#&Q+P<B#&',
+  'S/P<B#)S3P<BZEQG#)S3P<BV5zI#,S3P<BV5zI&RFQG#,S3P<BV5zI&PLQG#(S3P<P0B#*S3P<P0BV5zI#)Q+P<BZEb,#)S4',
+  'WKBP?Z<#)T=W#BP?Z<#(Q0QBP<B#)LB&%QH#*S/BQ<PES3B#&P=Q+bG#)Q<B&PLPD#)Q+B&PLPD#*OLB&PLPD#*Q<B&P0PLP',
+  'D#*Q+B&P0PLPD#+OLB&P0PLPD#&Q<PV7B#&Q+PV7B#(OLPV7B#%P!u(##Qo8#%h%pF#%PjGQo9#(PjGf;VCQo:#%cFd5##Qo',
+  ';##pG#%e9PE#(VCZ9e9PE#&%e9PE#&j+d?zJ#)f;VCPV8d?zJ#(%j+d?zJ#&Z*PEQo<#%bFe:#%bFPjH#%bFu%#%_M##%Qo=',
+  '##%P8Q1#%jNc2#%d5_M#%Y#XN#%RBXN#%dHXN#%P&s%#%PR)s%#%x)s%#%Qo>P?##p>#%LW!##W!#%f<W!#%PV9W!##Qo?#&',
+  'f;VCPV:#%hAP?#&VChAP?#%]2>#%]2T&##b-##a3##^F#%P0^F#%W5^F#%PV;^F#%PV<^F#%Qo@^F#%c3^F#&c3PV;^F#&a)',
+  'PV;^F##QoA##QoB##QoC##PjI#%P8_M##QoD#%QoEPjI##Pa8#%S.XN#%TCS.#&VAPV=Q3#%QoF[3#%QoGe:#%VCS.#%_MS.',
+  '#&PjJRGP?#(VCPjJRGP?#&pHRGP?#*pHhBVCPjKRGP?#*j,pHdCPjKRGP?#&c#RGP?#(VCc#RGP?#)c#RGT&RGP?#%W5S.#&',
+  'u(RGP?#%d(P?#&PjLd(P?#%QoH^3#&QoIY4QoJ#&PjLRGP?#+pHRGP?T&Y4j-PE#*j-PET&pHRGP?#%[/Z@#%Z@[/#(RBVKR',
+  'GP?#&RBRGP?#%QoKP?##QoL#%QoMP?#%W6Z@#&a,RGP?#(RGP?eNQoN#%f<eN#&QoORGP?#&VCRGP?#%zKP?#&VCzKP?#&Qp',
+  '!d(P?#(W2T&RGP?#(W3T&RGP?#(W2R4RGP?#(W3R4RGP?#)W2hBVCRGP?#)W3hBVCRGP?#%u)W2#%u)W3##^3#&VCd(P?#%V',
+  'CW2#%VCW3#)j,W2dCRGP?#)j,W3dCRGP?#(W2T&d(P?#(W3T&d(P?#)j,W2dCd(P?#)j,W3dCd(P?#&W2T&W3#&W3T&W2#(j',
+  ',W2dCW3#(j,W3dCW2##e;##e<#(e;T&RGP?#(e<T&RGP?#(e;T&d(P?#(e<T&d(P?#&f;VCPjM#&f;VCPjN#%^4PE#%^5PE#',
+  '(VC:^4PE#(VC:^5PE#)^4PET&RGP?#)^5PET&RGP?#+j,:^4PEdCRGP?#+j,:^5PEdCRGP?#*^4PE&VCRGP?#*^5PE&VCRGP',
+  '?##PV>#%PV>e&#%PV>a3#&P&j-PE#&P&u*PE#*P&j-PET&RGP?#*P&u*PET&RGP?#%P&zL#%P&u+#%P*Q1#%P*_M#%P*<#&P',
+  '*jNc2#&P*P8XN#&P*RBXN#&P*Y#XN#%P*Z@#%P*Y?#%Q4Q1#%Q4_M#%Q4<#&Q4P8XN#%LZI#%OZI#%QBZI#%Q0ZI##Qp###Q',
+  'p%##PV?##Qp&#)W5PLQGLkK#*P0PLQGP0LkK#&f;VCQp(#%VCPV?#&f;VCQp)#+PjOP0PLQGP0LkK#&e;hCzM#&e<hCzM#&h',
+  'DkLPE#(j+d?hDkL#*hDkLPET&RGP?#+j+d?hDkLT&RGP?#%u*PE#%j-PE##PV@#&Qp*Qp+Qp,##Qp-##Qp.##Qp/##dC#(LW',
+  '!&a4#%LS!#&bF]2>#&bF]2T&#%bFb-#%bFa3#%XMXN#%P8XN#%W6XN#%jN<##zN#)OhDPVAu,e:#)LhDPVAu,e:#&Ou,e:#&',
+  'Lu,e:#&TCS.Z@#&ZA]2T&#&ZA]2>#%P0^4#%P0^5#%P0b-#%P0a3##Pk!#(RG>hAP?#&W2&P8#&W3&P8#&[Bu)W2#&[Bu)W3',
+  '#)W2RGP?T&W3#)W3RGP?T&W2#(RGP?T&W2#(RGP?T&W3#(RGP?T&e;#(RGP?T&e<#)f;VCPjMT&RG#)f;VCPjNT&RG#+VCP&',
+  'j-PET&RGP?#+VCP&u*PET&RGP?#+P&j-PET&VCRGP?#+P&u*PET&VCRGP?#)W2hBVCd(P?#)W3hBVCd(P?#)e;hBVCd(P?#)',
+  'e<hBVCd(P?#(VChDkLPE#*f;VCPV8d?hDkL#+VChDkLPET&RGP?#,f;VCPV8d?hDkLT&RG#%PLk5#&Pj#RFk5#(Q0LS2k5#(',
+  'QBLS2k5#*e9PE&RMRFPD#.e9PE&PLQG]GZ*PERFPD#/%e9PE&PLQG]GZ*PERFPD#)e9PE&P8N#(e9PE&e=#)%e9PE&e=#(e9',
+  'PE&^G#*e9PE&P3RFPTI#)j+&RMRFPD#-j+&PLQG]GZ*PERFPD#.%j+&PLQG]GZ*PERFPD#&j+&e=#(%j+&e=#(T%U5zOQp0#',
+  '%Qp1##%{!B##pI#%Q0U@#%QBU@##Qp2##Qp3#%g0U*#%ObH#%LbH#%Ob.#%Lb.#&Z:L{##&Z:O{##&XLL{##&XLO{##&TCVC',
+  '##%P&e>##a4##PVB##Qp4#%f9Qp5#%pJ[0#%Qp6P&#(m9PEQp7##&RCVC###Pk###{%#&XLOZ<#&XLLZ<#&Z:OZ<#&Z:LZ<#',
+  '&XLQ>^F#&Z:Q>^F##{&##u-#*Q0U@^3P3RFu.#%Qp8j.#(Pk%P?Y4L#)TFVK:j/Q5##u/#&a+W!R%#&^LW!R%#(Pk%P?Y4O#',
+  '%Pk&RB##Qp9#%u(Qp:##Qp;#%Pk(Qp<#%Qp=Qp>#%Qp?Qp@##QpA##QpB##QpC#(V1V20QpD#)V1V20QpE^E#)V1V20^ERG#',
+  ')V1V20^EPV:#)V1V20^EXM#)V1V20^EkM#)V1V20^EQH#)V1V20QHpK#)V1V20QHkM#)V1V20c2QG#)V1V20n(QG#)V1V20^',
+  'Ec2#)V1V20^En(#)V1V20^EW2#)V1V20^EW3#)V1V20Q<{(#)V1V20Q+{(#*V1V20^EQ<B#*V1V20^EQ+B#)V1V20QHn(#*V',
+  '1V20QBZI^G#)V1V20a,pK#*V1V20^EQBh8#)V1V20^Ea,#*V1V20QBZIkM#)V1V20S3{(#*V1V20^ES3B#*V1V20Q0ZIe=#)',
+  'V1V20rHpK#*V1V20^EQ0h8#)V1V20^ErH#*V1V20Q0ZIkM#)V1V20S/{(#*V1V20^ES/B#)V1V20Pk)^G#)V1V20a,^G#)V1',
+  'V20XM^G#)V1V20kM^G#)V1V20QH^G#*V1V20Q0n)kM#)V1V20Pk)^E#)V1V20QHW6#)V1V20^E[/#*V1V20Q0ZIU?#)V1V20',
+  'rHU?#)V1V20W6U?#)V1V20kMU?#)V1V20QHU?#*V1V20QBn)pK#*V1V20On)pK#)V1V20S.U?#)V1V20W3U?#)V1V20W.QG#',
+  ')V1V20rHS.#(V1V20QpF#)V1V20pKS.#)V1V20eL^G#*V1V20^EVCRG#)V1V20^E]+#*V1V20QBh8S.#*V1V20Q0h8S.#(V1',
+  'V20WN#(V1V20]=#(V1V20UK#)V1V20V#^G#)V1V20Z0^G#)V1V20WN^G#)V1V20UK^G#(V1V20V##&VCdIP%#*LW!&S/f&B#',
+  '&QpGS(Q5#%n*0#)PLU*&PJP8#%PV-0#&QpHPk*0#&QpIPk*0#%Pb(0#%PVC0#*P<P&&VDPLU*#%Pk+0#&PVDj.0#%QpJ0#)P',
+  '*RFQG&Pk,#&P*S!QB#)o4QH&QpKB#%QpL0#%QpM0#%QpN0#&Pk-QpO0#&Pk-Qq!0#%Qq#0#%Qq%0#)PVEPVF05P3#%Qq&0#(',
+  'V1V20^E#(PR+[#j.0#%Qq(hE#%P_@hE#&Pk.u!0#&Qq)u!0#(OY!QCQ!#&OY!kN#(OY!Q;Q!#(LY!QCQ!#&LY!kN#(LY!Q;Q',
+  '!#)OP&R%QCZ<#(OP&R%kN#)OP&R%Q;Z<#)LP&R%QCZ<#(LP&R%kN#)LP&R%Q;Z<#)OZAR%QCQ!#)OZAR%PJkO#)OZAR%Q;Q!',
+  '#&ZAR%kN#)LZAR%QCQ!#)LZAR%PJkO#)LZAR%Q;Q!#%^FkN#&RFU*kN#,QCOT&Q;LZAR%Z-#,QCLT&Q;OZAR%Z-#%u%XL#%u',
+  '%Z:#&XLP&R%#&Z:P&R%#+Z:P&R%R4XLP&R%#&P-0Z:#(OPLQ5U*#(LPLQ5U*#&RF{)Qq*#&RF{)Qq+#&RF{)Qq,#&RF{)Qq-',
+  '#+d)0QKPL>XLL#+d)0QKPL>Z:L#*d)0QKPL&QH#,d)0QKQB>RF&QH#,d)0QKQ0>RF&QH#*d)0QKPL&S!#,d)0QKQB>RF&S!#',
+  ',d)0QKQ0>RF&S!#*d)0QKPL>[3#,d)0QKQB>RF&[3#,d)0QKQ0>RF&[3#*d)0QKQB>RF#*d)0QKQ0>RF#+d)0QKPL>XLO#+d',
+  ')0QKPL>Z:O#%P&{*#%o.0#%Qq.0#&PLU*kN#%j0W<#(j0RMR4V%#(j0V%R4RM#)j0RMR4P3{+#)j0P3{+R4RM#(j0P3{+u0#',
+  '%j0Pk/#%j0Pk0#%j0Pk1#%c4Pk2##Qq/#%XLY!#%Z:Y!#&XLZAR%#&Z:ZAR%#(XL^6[8R%#(Z:^6[8R%#%P<Qq0#(Pk&RB&Q',
+  'H##Qq1##Qq2#%z.PVF#%Qq3b-#&PR+Qq40#(P4^LP0S!#(P4a+P0S!#(P4bIP0S!#(P4e?P0S!#+P4^LP0S!&PLQG#+P4a+P',
+  '0S!&PLQG#+P4^LS!&P0PLQG#%Qq5]N##Qq6#%Qq7]N#({%&Qq8Qq9#(P4S,a+S!#(P4S,^LS!#(P4S,bIS!#(P4S,e?S!#&P',
+  '0PLQG#(P4P&P!UE#(P4QHP!PQ.#%pL0#&pLQq:0#&pLV50#&pLQq;0#&Qq<hF0#&0P!PQ*#)0P!g!PEP_1#)0P!g!PEg##)0',
+  'P!Z*PEg##)0P!Z*PEw5#&0P!P_2#&0P!w6#&0P!n*#&0P!P_3#(0P!RFeJ#(0P!U*o-#(0P!PLeJ#(0P!5o-#(0P!P_5o.#(',
+  '0P!o/b8#(0P!o/VK#)0P!P_7PQ+w7#)0P!i9eKP.#)0P!i9eKP3#)0P!i9eKP=#)0P!i9eKPI#(0P!SAw6#(0P!P_9P_:#*0',
+  'P!Z*PEw5Q?#&0P!w8#)0P!Z*PES,#&0P!PQ,#&0P!w7#(0P!o0[##(0P!PQ-[##(0P!PQ.[##(0P!e%[##&0P!_6#&0P!PQ/',
+  '#%Pk30#%S(Q5#&0P!PVG#)0P!PQ/5P3#)0P!PQ,5P3>%g?Q!#%g?Pk4#%g?{,#&g?VA{,#&g?g)Qq=#&g?pMpE#(g?PVHPVI',
+  'Pk5#(g?Qq>PEdI#(Pk6V5o10!%g?Y?#&Pk6Y?0!(g?Qq?PjBD#&g?P0n(:&P*4P.#&P*4P3#&P*4P=#&P*4PI#&P*4Q%#&P*',
+  '4QE#&P*4R!#&P*4QD#&P*4R*#&P*DU!#&P*Df:#&P*Dd&#&P*Dl!#&P*Dl##&P*Dg@#&P*Dh4#&P*Dl%#&P*Dj1#&P*Dl&#&',
+  'P*DX>#&R)4P.#&R)4P3#&R)4P=#&R)4PI#&R)4Q%#&R)4QE#&R)4R!#&R)4QD#&R)4R*#&R)DU!#&R)Df:#&R)Dd&#&R)Dl!',
+  '#&R)Dl##&R)Dg@#&R)Dh4#&R)Dl%#&R)Dj1#&R)Dl&#&R)DX>#(4P.X,UE#(4P3X,UE#(4P=X,UE#(4PIX,UE#(4Q%X,UE#(',
+  '4QEX,UE#(4R!X,UE#(4QDX,UE#(4R*X,UE#(DU!X,UE#(Df:X,UE#(Dd&X,UE#(Dl!X,UE#(Dl#X,UE#(Dg@X,UE#(Dh4X,U',
+  'E#(Dl%X,UE#(Dj1X,UE#(Dl&X,UE#(DX>X,UE#)R)+%!:#)R)+%!P;#)R)+%!T?#)R)+%!SJ#)R)+%!P5#)R)+%!V!#)R)+%',
+  '!S9#)R)+%!SB#)R)+%!P7#)R)+%!U3#)R)+%!S>#)R)+%!Q@#)R)+%!S&#)R)+%!R<#)R)+%!P2#)R)+%!TE#)R)+%!W4#)R',
+  ')+%!Q2#)R)+%!Q3#)R)+%!S;#)R)+%!P+#)R)+%!SC#)R)+%!U+#)R)+%!TF#)R)+%!T-#)R)+%!T%#)P*+)!:#)P*+)!P;#',
+  ')P*+)!T?#)P*+)!SJ#)P*+)!P5#)P*+)!V!#)P*+)!S9#)P*+)!SB#)P*+)!P7#)P*+)!U3#)P*+)!S>#)P*+)!Q@#)P*+)!',
+  'S&#)P*+)!R<#)P*+)!P2#)P*+)!TE#)P*+)!W4#)P*+)!Q2#)P*+)!Q3#)P*+)!S;#)P*+)!P+#)P*+)!SC#)P*+)!U+#)P*',
+  '+)!TF#)P*+)!T-#)P*+)!T%#)P*+%!:#)P*+%!P;#)P*+%!T?#)P*+%!SJ#)P*+%!P5#)P*+%!V!#)P*+%!S9#)P*+%!SB#)',
+  'P*+%!P7#)P*+%!U3#)P*+%!S>#)P*+%!Q@#)P*+%!S&#)P*+%!R<#)P*+%!P2#)P*+%!TE#)P*+%!W4#)P*+%!Q2#)P*+%!Q',
+  '3#)P*+%!S;#)P*+%!P+#)P*+%!SC#)P*+%!U+#)P*+%!TF#)P*+%!T-#)P*+%!T%#&P*4T,#(SAP*Df:#(SAP*Dd&#(SAP*D',
+  'l!#(SAP*Dl##(SAP*Dg@#(SAP*Dh4#(SAP*Dl%#(SAP*Dj1#(SAP*Dl&#(SAP*DX>#(P0P*4P.#(P0P*4P3#(P0P*4P=#(P0',
+  'P*4PI#(P0P*4Q%#(P0P*4QE#(P0P*4R!#(P0P*4QD#(P0P*4R*#(P0P*DU!#(SAP*4T,#(Q5QNQKRF#(Q5QNPHRF#(Q5QNQK',
+  'PL#(Q5QNPHPL#*Q5QNQKW5Y?RF#*Q5QNPHW5Y?RF#*Q5QNQKW5Y?PL#*Q5QNPHW5Y?PL#*Q5QNQKg>Y?RF#*Q5QNPHg>Y?RF',
+  '#*Q5QNQKg>Y?PL#*Q5QNPHg>Y?PL#*Q5QNQKQB>L#+Q5QNQBQK>LPH#+Q5QNQBPH>LQK#*Q5QNPHQB>L#*Q5QNQKQB>O#+Q5',
+  'QNQBQK>OPH#+Q5QNQBPH>OQK#*Q5QNPHQB>O#*Q5QNQKQ0>L#+Q5QNQ0QK>LPH#+Q5QNQ0PH>LQK#*Q5QNPHQ0>L#*Q5QNQK',
+  'Q0>O#+Q5QNQ0QK>OPH#+Q5QNQ0PH>OQK#*Q5QNPHQ0>O#*Q5QNQKPL>L#+Q5QNPLQK>LPH#,Q5QNQ0PH>LQBQK#,Q5QNQBPH',
+  '>LQ0QK#+Q5QNPLPH>LQK#,Q5QNQBQK>LQ0PH#,Q5QNQ0QK>LQBPH#*Q5QNPHPL>L#*Q5QNQKPL>O#+Q5QNPLQK>OPH#,Q5QN',
+  'Q0PH>OQBQK#,Q5QNQBPH>OQ0QK#+Q5QNPLPH>OQK#,Q5QNQBQK>OQ0PH#,Q5QNQ0QK>OQBPH#*Q5QNPHPL>O#*Q5QNQKQB>R',
+  'F#,Q5QNOPH>LQBQK#,Q5QNLPH>OQBQK#+Q5QNQBQK>RFPH#+Q5QNQBPH>RFQK#,Q5QNLQK>OQBPH#,Q5QNOQK>LQBPH#*Q5Q',
+  'NPHQB>RF#*Q5QNQKQ0>RF#,Q5QNOPH>LQ0QK#,Q5QNLPH>OQ0QK#+Q5QNQ0QK>RFPH#+Q5QNQ0PH>RFQK#,Q5QNLQK>OQ0PH',
+  '#,Q5QNOQK>LQ0PH#*Q5QNPHQ0>RF#*Q5QNQKPL>RF#,Q5QNOPH>LPLQK#,Q5QNLPH>OPLQK#+Q5QNPLQK>RFPH#,Q5QNQ0PH',
+  '>QBRFQK#,Q5QNQBPH>Q0RFQK#+Q5QNPLPH>RFQK#-Q5QNOQ0PH>LQBQK#-Q5QNLQ0PH>OQBQK#-Q5QNOQBPH>LQ0QK#-Q5QN',
+  'LQBPH>OQ0QK#,Q5QNQBQK>Q0RFPH#,Q5QNQ0QK>QBRFPH#,Q5QNLQK>OPLPH#,Q5QNOQK>LPLPH#*Q5QNPHPL>RF#*Q5QNQK',
+  'P0Y?RF#*Q5QNPHP0Y?RF#*Q5QNQKP0Y?PL#*Q5QNPHP0Y?PL#(Q5QNP0RF#(Q5QNP0PL#+Q5QNQBTG>LP0#+Q5QNQBP0>LTG',
+  '#*Q5QNP0QB>L#+Q5QNQBTG>OP0#+Q5QNQBP0>OTG#*Q5QNP0QB>O#+Q5QNQ0TG>LP0#+Q5QNQ0P0>LTG#*Q5QNP0Q0>L#+Q5',
+  'QNQ0TG>OP0#+Q5QNQ0P0>OTG#*Q5QNP0Q0>O#+Q5QNPLTG>LP0#+Q5QNPLP0>LTG#*Q5QNP0PL>L#+Q5QNPLTG>OP0#+Q5QN',
+  'PLP0>OTG#*Q5QNP0PL>O#+Q5QNQBTG>RFP0#+Q5QNQBP0>RFTG#*Q5QNP0QB>RF#+Q5QNQ0TG>RFP0#+Q5QNQ0P0>RFTG#*Q',
+  '5QNP0Q0>RF#+Q5QNPLTG>RFP0#+Q5QNPLP0>RFTG#*Q5QNP0PL>RF#+Q5QNQKa4QB>L#+Q5QNQKa4QB>O#+Q5QNQKa4Q0>O#',
+  '+Q5QNQKa4Q0>L#-Q5QNQKS2QCLP?Q;O#-Q5QNQKS2QCOP?Q;L#)Q5QNQKS2X-#(Q5QNQKO#(Q5QNQKQ0#(Q5QNQKL#(Q5QNQ',
+  'KQB#(Q5QNPHO#(Q5QNPHQ0#(Q5QNPHL#(Q5QNPHQB#+Q5QNQKO>PHL#+Q5QNQKQ0>PHQB#+Q5QNPHO>QKL#+Q5QNPHQ0>QKQ',
+  'B#&QCQ>Q?#(Q;P.Z4Q?#(Q;P.Z.Q?#(Q;P=d%Q?#&Q;Q>Q?#(Q;Q%d%Q?#(Q;P=c?Q?#(Q;R!d%Q?#%X,Q?#(OR!d%Q?#(OP',
+  '=c?Q?#(OQ%d%Q?#&OQ>Q?#(OP=d%Q?#(OP.Z.Q?#(OP.Z4Q?#&LQ>Q?#%QKd*#%S,d*#%Pk7d*#(QCP.Z4Q?#(LP.Z4Q?#&_',
+  '&Q;O#&_&Q;L#&_&QCO#-_&QCO>Q;O>Q;L#*_&QCO>Q;L#-_&QCO>QCL>Q;O#-_&QCO>QCL>Q;L#&_&QCL#*_&QCL>Q;O#-_&',
+  'QCL>Q;O>Q;L#%P4P&#%P<P&#)P<P&&cEpN#*P<P&j2P4%P&#(P&&RFb/#(P&&PLb/#)P&&Qq@Pk8b/#,P&&QCOP?Q;Lb/#,P',
+  '&&QCLP?Q;Ob/#)P&&S2Pk8b/#&P4%P&#&P<%P&#%P4j/#%P<j/#&P4PLj/#&P<PLj/#%P4Pk9#%P<Pk9#&P4bIS!#&P<bIS!',
+  '#(P4bI%S!#(P<bI%S!#&P4^LS!#&P<^LS!#(P4^L%S!#(P<^L%S!#&P4^Lu1#&P<^Lu1#&P4e?S!#&P<e?S!#(P4e?%S!#(P',
+  '<e?%S!#&P4a+S!#&P<a+S!#(P4a+%S!#(P<a+%S!#&P4a+u1#&P<a+u1#%P4XM#%P<XM#*P<XMj2P4%XM##QqA##e>#%P<QH',
+  '#%Y;QH#(QH&PLb/##QqB#%P4QH#)QH&OQ>P4#)QH&LQ>P4#)QH&Q;Q>P4#)QH&QCQ>P4#*QH&QCL_&P4#,QH&u(hBQCO_&P4',
+  '#(OQ>P4QH#(LQ>P4QH#%gAdH#&gAP<QH#)QCQ>gAP<QH#)Q;Q>gAP<QH#)QCO_&sEa4#)QCL_&sEa4#)Q;L_&sEa4#)Q;O_&',
+  'sEa4#&QCQ>QH#&Q;Q>QH#(P4Q;LS!#(P4Q;OS!#(P4QCOS!#(P4QCLS!#%P<dH#)P&&OQ>P4#)P&&LQ>P4#+P&&QCOS2Q>P4',
+  '#+P&&Q;LS2Q>P4#*P<P&&PLQqCU*#)P<bIS!&P8#*bIS!&OQ>P4#*bIS!&LQ>P4#%T/QH#*P<P&&QCO_&#*P<P&&Q;O_&#*P',
+  '<P&&Q;L_&#*P<P&&QCL_&#*P<QH&QCO_&#*P<QH&Q;O_&#*P<QH&Q;L_&#*P<QH&QCL_&#&QCOS!#&QCLS!#&Q;OS!#&P<S,',
+  'P&#&P4S,P&#(P<S,%P&#(P4S,%P&#&Q;LS!#(P4c5&gB##hG##u2##PVJ##QqD#%P4W6#%P<W6##u3##QqE##c5#%Pk:Pk;#',
+  '%PR9Pk;##QqF##PVK#%P4f9#%P<f9#%e@Q5#(e@Q5&dI#(e@Q5&TF##gC#(u2&n+QqG#%u4Pk<#&P<{-kO#&P4{-kO##QqH#',
+  ')TCVLPVL](dH#(P4OU;Q8#(P4LU;Q8#(P<OU;Q8#(P<Q0U;Q8#(P<LU;Q8#(P<QBU;Q8#&PVM>Pk=#%QqI##%QqJ##%QqK##',
+  '#Pk>##QqL#%QqMX-#%^-]=#&X-PEQqN#&X-PEQqO#&W6>pO#%d=0#%Qr!Qr##&{.>Qr%#%PVN0#%i=f%#&l(P!{/#&l(P!Pk',
+  '?#&l(P!gD#&l(P!PVO#&l(P!gE#&l(P!dJ#&l(P!l)#&l(P!c4#&{0PEQr&#&P<{1Q:#&P<_(Q:#&P4_(Q:#(P<c5&gB#&j)',
+  'Z.]3#&PW!Z.]3##{2#%q!###c4#%hH###Qr(##Qr)##Pk@##PkA##u5##Qr*##Qr+##Qr,##Qr-##Qr.##Qr/##Qr0##Qr1#',
+  '#Qr2##Qr3##Qr4##Qr5#&P<T!b0#&P<T!c6#&P<T!f=#&P<T!f>#&P<T!]B#&P<T!f?#&P4T!b0#&P4T!c6#&P4T!f=#&P4T',
+  '!f>#&P4T!]B#&P4T!f?#&P4PkBj3#&P<](j3#&P<XMj3#&P4PW#j3#&P<PkBj3#&P4](j3#&P4XMj3#&P<PW#j3#%u4Qr6#%',
+  'Z.]O#%Z4]O#&{3Z4u6#&{3oOu6#&x/n,##&x/PW%##&x/m0##&WKT0X-#&W#T0X-#&PkChI0#)hI0P!Qr7n-#)hI0P!Qr8n-',
+  '#)hI0P!PkDn-#)hI0P!PkEn-#)hI0P!PkFn-#)hI0P!PkGn-#)hI0P!Qr9n-#)hI0P!Qr:Qr;#(P4PkChI0#&Qr<{40#&Qr=',
+  '{40#&Qr>{4##%PW&0#%l*Qr?#%l*Qr@#%l*QrA#%l*QrB#%l*QrC#%l*QrD#)P<QH&P8L#)P<QH&P3R1#*P4QH&P<P8L#*P4',
+  'QH&P3P<R1#&j4P!f%#&j4P!i=#(j5P!PkHf%#(j5P!PkIi=#(j5P!PkIf%#(j5P!PkHi=#%P<f@#%P4f@#&{.>PkJ##PkK#%',
+  'eAQrE#&l+PEQrF##QrG##PkL##tO##PW(#&l+PEQrH#%QrI0##QrJ#&n.P<W6#(P=PW)PkML#(P=PW)PkMO#%QrK##&R/QrL',
+  '##&sAq!##&sAhH##)QrMq!>hH##(hH>q!##(hH&PD##,hH&PD>hH>q!##)PLhH&PD##)RFhH&PD##&S,P<QH#&S,P4QH#(S,',
+  '%P<QH#%QrN0#%QrO0#&Qs!PkN0##Qs##%Qs%Qs&##Qs(##Qs)##Qs*##Qs+##Qs,##Qs-#&P4]3Qs.##Qs/##Qs0##Qs1##Q',
+  's2#%Qs3fA##Qs4#%Q4j.#&P<{5_C#&P<{5b0#&P4{5_C#&P4{5b0#&PVJu7PW*#&c5PW+hG##n+#%P4PVJ#(PVOhG>n+#(RC',
+  'P<{-kO#(RCP4{-kO#(P<XMVKP&#%[9PkO#%Qs5l,##Qs6##PkJ#%l,Qs7#({6&P<X-#&P*[9PkO##Qs8#%YCPW,#)Z#Qs9Ot',
+  'Au8#)P4Pl!OtAu8#)P<Pl!OtAu8#(P4OPl#Pl%#(P<OPl#Pl%#&Pl&Pl(##(PHP<e?S!#&OY1PW,#%Q4gC#,n/S2VKP<QHVK',
+  'P4P&#%P4PW-#&Pl)OQs:#&Pl)OQs;#(Qs<0P!Pk@#,PHQH&PD>P3R1N##{7#&Qs=Pl*{7#&Qs>Pl*{7#%VA{7#(P4X-V5PW.',
+  '#%Qs?Qs@##Pl+##PW/#%QsAQsB#&PW(u7QsC#&PW(&QsD#(u90P!QsE##l)#&u2V5Pk2##Pl,#&f@VKPl-##QsF##QsG#&P&',
+  'PIpN##QsH#%l-Pl.#&_F&fA##PW0#&l.PVI0#&Pl/QsI0#%QsJQsK#(u+V5P4P&#+P<f@&RFPJP4QsL#&P4PW1q##&QCPl0q',
+  '##%P4q##&Q;Pl0q##%P<q##(P<PHdIP%#&f9l/##%Pl1Pl&##l0##j6#%[&PW2#%[&[C#%Pl2[C#%Pl3[C#&Q;L{8##{8#&Q',
+  'CL{8#%P<Pl4#%P4Pl4#%dIP%#&PHdIP%#%e&TF#&PHe&TF#%e@TF#&PHe@TF#&n.HX-#&PHHX-#&S(VDX-#(PHS(VDX-#%+X',
+  '-#(eBP<+X-#&n.+X-#%QsMX-#&W6PEQsN#&PIn0Y##&PIPW3Y##(PHPIPW3Y##&PIQsOY##(P4PIZ8W6#(P<PIZ8W6##Qt!#',
+  '(sBn.P<W6#&P*P<W6#(S(VDP4W6#(P4VDP<W6#&n.P4W6#(PHn.P4W6#%j7W6#&eBP<W6#%PHY##&S(VDY##&QDb1Y##(QDZ',
+  '8P4W6#(QDZ8j7W6#(QEZ8P4W6#)QDZ8Pl5P4W6#*PHQDZ8Pl5P4W6#(d&Z8P4W6#&h4Z8Y##%n0Y##(S(VDn0Y##&PHn0Y##',
+  '*QEPl6P4>P<{9#%P4{9#%P<{9#)QDPl6n.P4{9#*P*S(VDQDZ8W6#(PHn0j7Y###PW4#&PW5Qt#PW4#&PHPl7PW4##Pl8#%P',
+  'HPl8#%PW3Y##(QDn0Pl9Y##)PHQDn0Pl9Y##%X-P%#&eBP<QH#(SAQ4X-P%#)Q;LPl:P<P&#)QCLPl:P<P&#)Q;LeBP<P&#)',
+  'QCLeBP<P&#(P4]+P%VH#(P<]+P%VH#(P<^+P%VH#)P4XM_MP<TF#(PH^+P%0#&QKPLQG#&S,PLQG#&PHPLQG#+PHTGRCW.[M',
+  'P%VH#*PHTGW.[MP%VH#+PHP0RCW.[MP%VH#*PHP0W.[MP%VH#+PHR+TGW.[MP%VH#+PHR+P0W.[MP%VH#)a5gFs9#VH#(PH^',
+  '+P%VH#)PH](^+P%VH#&PHP4](#)VLPHP4](dH#%PVL](#(VLPVL](dH#(S,OY!VH#(S,LY!VH#)S,tKOY!VH#)S,tKLY!VH#',
+  ')S,a+W!R%VH#)S,^LW!R%VH#*PHa+W![MP%VH#*PH^LW![MP%VH#)PHa+W!R%VH#)PH^LW!R%VH#*QKO^6[8R%VH#*QKL^6[',
+  '8R%VH#)S,OZAR%VH#)S,LZAR%VH#)[:SAP*4P.#)[:SAP*4P3#)[:SAP*4P=#)[:SAP*4PI#)[:SAP*4Q%#)[:SAP*4QE#)[',
+  ':SAP*4R!#)[:SAP*4QD#)[:SAP*4R*#)[:SAP*DU!#)[:P*P,4P.#)[:P*P,4P3#)[:P*P,4P=#)[:P*P,4PI#)[:P*P,4Q%',
+  '#)[:P*P,4QE#)[:P*P,4R!#)[:P*P,4QD#)[:P*P,4R*#)[:P*P,DU!#*[:SAP*P,4P.#*[:SAP*P,4P3#*[:SAP*P,4P=#*',
+  '[:SAP*P,4PI#*[:SAP*P,4Q%#*[:SAP*P,4QE#*[:SAP*P,4R!#*[:SAP*P,4QD#*[:SAP*P,4R*#*[:SAP*P,DU!#(PHYHQ',
+  '+B#&PHQ1##&PH_M##&PHjN##(PHT=W#B#&PHQ+B#(PHS4W#B#(Qt%]JQ+B#(PHQt&Q+B#&U6Q+B#(PHU6Q+B#(e8U6Q+B#)P',
+  'He8U6Q+B#&P4Q+B#(q%PW6Q+U@#(q%Qt(Q+U@#&P4Q+U@#+PHP4a5S/>Q+B#+PHP4a5S3>Q+B#(Pa0P4Q+B#)PHQt)P4Q+B#',
+  '(PW7P<Q+B#(PW8P<Q+B#)PW9eBP<Q+B#)PW:eBP<Q+B#*PHQ;{:P<Q+B#*PHQC{:P<Q+B#*hJQ;{:P<Q+B#%ZA]H#*hJQC{:',
+  'P<Q+B#)P*PHP<Q+B#&Qt*Q+B#(q&T=W#B#&q&Q+B#(q&S4W#B#)PHq&T=W#B#(PHq&Q+B#)PHq&S4W#B#&Qt+Q+B#(PHQt,Q',
+  '+B#&Pl;Q+B#(PHPl;Q+B#&Qt-Q+B#&P0ZA]H#&P=Qt.W!#*P<S!j2%P<S!##PW;#%S(^4#%S(^5#(OPl<zOx;#(LPl<zOx;#',
+  '(T&&P8aA#(_+^KPl=^4#&^5Pl=^K#)PLQG&RFPD#&1cHS2#%RMjN#&1n/S2#&Q4]2>#&Q4]2T&#)P<XM&i<P8#&>&P8#(e9P',
+  'En1S3#)Q;LZ<&P8#)QCOZ<&P8#&OPW<{;#&LPW<{;#&X,PW<{;#&T/Q0ZI#&T/QBZI#)O>LP0kK#(O>LZI#%OPV@#&RMLZI#',
+  '&RMOZI#)Q0ZI&QHN#)e>PW=eNRFQt/#&P<PW>XM#*P<PW>XM&Q<h.#*P<PW>XM&Q+h.#)P<P&&Q<h.#)P<P&&Q+h.#)1OP<P',
+  '&R%#)1LP<P&R%#(1OW!R%#(1LW!R%#)1OP0W!R%#)1LP0W!R%#*1OP<^6[8R%#*1LP<^6[8R%#(1OtKY!#(1LtKY!#&S3g>B',
+  '#&S/g>B#(a)Pl>QHB#(c3Pl>QHB#)LB&P*Q1#&RMQ<B#&RMQ+B#(RMOLB#(RMQ<P0B#(RMQ+P0B#)RMOLP0B#)RMQ<BZEQG#',
+  ')RMQ+BZEQG#*RMQ<P0BZEQG#*RMQ+P0BZEQG#(RMQ+zHB#&PBPAPk3#&PBPAQt0#&PBPAQt1#&PBPAQt2#&PBPAQt3#&PBPA',
+  'Qt4#&PBPAQt5#&PBPAQt6#&PBPAQt7#&PBPAQt8#&PBPAQt9#&PBPAQt:#&PBPAQt;#&PBPAQt<#&PBPAQt=#&PBPAQt>#&P',
+  'BPAQt?#&PBPAQt@#&PBPAQtA#&PBPAQtB#&PBPAQtC#&PBPAQtD#&PBPAQtE#&PBPAQtF#&PBPAQtG#&PBPAQtH#&PBPAQtI',
+  '#&PBPAQtJ#&PBPAQtK#&PBPAQtL#&PBPAQtM#&PBPAQtN#&PBPAQtO#&PBPAQu!#&PBPAQu##&PBPAQu%#&PBPAQu&#&PBPA',
+  'Qu(#&PBPAQu)#&PBPAQu*#&PBPAQu+#&PBPAQu,#&PBPAQu-#&PBPAQu.#&PBPAQu/#&PBPAQu0#&PBPAQu1#&PBPAQu2#&P',
+  'BPAQu3#&PBPAQu4#&PBPAQu5#&PBPAQu6#&PBPAQu7#&PBPAQu8#&PBPAQu9#&PBPAQu:#&PBPAQu;#&PBPAQu<#&PBPAQu=',
+  '#&PBPAQu>#&PBPAQu?#&PBPAQu@#&PBPAQuA#&PBPAQuB#&PBPAQuC#&PBPAQuD#&PBPAQuE#&PBPAQuF#&PBPAQuG#&PBPA',
+  'QuH#&PBPAQuI#&PBPAQuJ#&PBPAQuK#&PBPAQuL#&PBPAQuM#&PBPAQuN#&PBPAQuO#&PBPAQv!#&PBPAQv##&PBPAQv%#&P',
+  'BPAQv&#&PBPAQv(#&PBPAQv)#&PBPAQv*#&PBPAQv+#&PBPAQv,#&PBPAQv-#&PBPAQv.#&PBPAQv/#&PBPAQv0#&PBPAQv1',
+  '#&PBPAQv2#&PBPAQv3#&PBPAQv4#&PBPAQv5#&PBPAQv6#&PBPAQv7#&PBPAQv8#&PBPAQv9#&PBPAQv:#&PBPAQv;#&PBPA',
+  'Qv<#&PBPAQv=#&PBPAQv>#&PBPAQv?#&PBPAQv@#&PBPAQvA#&PBPAQvB#&PBPAQvC#&PBPAQvD#&PBPAQvE#&PBPAQvF#&P',
+  'BPAQvG#&PBPAQvH#&PBPAQvI#&PBPAQvJ#&PBPAQvK#&PBPAQvL#&PBPAQvM#&PBPAQvN#&PBPAQvO#&PBPAQw!#&PBPAQw#',
+  '#&PBPAQw%#&PBPAQw&#&PBPAQw(#&PBPAQw)#&PBPAQw*#&PBPAQw+#&PBPAQw,#&PBPAQw-#&PBPAQw.#&PBPAQw/#&PBPA',
+  'Qw0#&PBPAQw1#&PBPAQw2#&PBPAQw3#&PBPAQw4#&PBPAQw5#&PBPAQw6#&PBPAQw7#&PBPAQw8#&PBPAQw9#&PBPAQw:#&P',
+  'BPAQw;#&PBPAQw<#&PBPAQw=#&PBPAQw>#&PBPAQw?#&PBPAQw@#&PBPAQwA#&PBPAQwB#&PBPAQwC#&PBPAQwD#&PBPAQwE',
+  '#&PBPAQwF#&PBPAQwG#&PBPAQwH#&PBPAQwI#&PBPAQwJ#&PBPAQwK#&PBPAQwL#&PBPAQwM#&PBPAQwN#&PBPAQwO#&PBPA',
+  'Qx!#&PBPAQx##&PBPAQx%#&PBPAQx&#&PBPAQx(#&PBPAQx)#&PBPAQx*#&PBPAQx+#&PBPAQx,#&PBPAQx-#&PBPAQx.#&P',
+  'BPAQx/#&PBPAQx0#&PBPAQx1#&PBPAQx2#&PBPAQx3#&PBPAQx4#&PBPAQx5#&PBPAQx6#&PBPAQx7#&PBPAQx8#&PBPAQx9',
+  '#&PBPAQx:#&PBPAQx;#&PBPAQx<#&PBPAQx=#&PBPAQx>#&PBPAQx?#&PBPAQx@#&PBPAQxA#&PBPAQxB#&PBPAQxC#&PBPA',
+  'QxD#&PBPAQxE#&PBPAQxF#&PBPAQxG#&PBPAQxH#&PBPAQxI#&PBPAQxJ#&PBPAQxK#&PBPAQxL#&PBPAQxM#&PBPAQxN#&P',
+  'BPAQxO#&PBPAQy!#&PBPAQy##&PBPAQy%#&PBPAQy&#&PBPAQy(#&PBPAQy)#&PBPAQy*#&PBPAQy+#&PBPAQy,#&PBPAQy-',
+  '#&PBPAQy.#&PBPAQy/#&PBPAQy0#&PBPAQy1#&PBPAQy2#&PBPAQy3#&PBPAQy4#&PBPAQy5#&PBPAQy6#&PBPAQy7#&PBPA',
+  'Qy8#&PBPAQy9#&PBPAQy:#&PBPAQy;#&PBPAQy<#&PBPAQy=#&PBPAQy>#&PBPAQy?#&PBPAQy@#&PBPAQyA#&PBPAQyB#&P',
+  'BPAQyC#&PBPAQyD#&PBPAQyE#&PBPAQyF#&PBPAQyG#&PBPAQyH#&PBPAQyI#&PBPAQyJ#&PBPAQyK#&PBPAQyL#&PBPAQyM',
+  '#&PBPAQyN#&PBPAQyO#&PBPAQz!#&PBPAQz##&PBPAQz%#*Q+aGB&PLPD#+Q+aGB&P0PLPD#*Q<P0B&PLPD#*Q+P0B&PLPD#',
+  '+OLP0B&PLPD#)Q+aGBZEQG#)Q<P0BZEQG#)Q+P0BZEQG#)S/B&RFPD#)S3B&RFPD#&S3W5B#&S/W5B#(Q<P0Y?B#(Q+P0Y?B',
+  '#(Q<W5Y?B#(Q+W5Y?B#)Q+aGW5Y?B#)Q+B&Y;gF#(S3BP?QG#(S/BP?QG#+Q+B&W/&PLPD#,Q+B&W/&P0PLPD#)Q+aGB&W/#',
+  ',Q+aGB&W/&PLPD#-Q+aGB&W/&P0PLPD#%Q<{<#%Q+{<#&Q<P0{<#&Q+P0{<#)Q<BP?P4XM#)Q+BP?P4XM#+Q<BZEQGP?P4XM',
+  '#+Q+BZEQGP?P4XM#*S4WK>T=W#B#*S4W#>T=WKB#)S4WKB&Q!#)S4W#B&Q!#)T=W#B&Q!#)T=WKB&Q!#+S4WKB>S4W#B#+S4',
+  'W#B>T=W#B#+T=W#B>T=WKB#+T=WKB>S4WKB#)cHS2[9n/S2#)n/S2[9cHS2#+T=W#B[9S4W#B#+S4W#B[9T=W#B#*n/S2[9S',
+  '4W#B#*cHS2[9T=W#B#+S4W#B[9S4WKB#+S4WKB[9S4W#B#)[3BU;Pl?L#*BU;Q+j8u:S3#*BU;Q+j8u:S/#*BU;S/j8u:Q<#',
+  '*BU;S/j8u:Q+#(Qz&a4c3B#(Qz(a4a)B#(XLa4a)B#(Z:a4a)B#*XLa4c3B&_M#*XLa4a)B&Q1#)Q;LPW?c3B#)Q;OPW?a)B',
+  '#(a)Y1QHB#(c3Y1QHB#*Q+BNV%Q<B#*Q<BNV%Q+B#*V%Q+BNQ<B#)Q+B&Q1P6#)Q<B&Q1P6#(Q+Bd+TF#*OLBd+%QH#*S3aG',
+  'BZE%QH#+OS1Q0LS1QBVM#+OS1QBLS1Q0VM#+Q0S1LQBS1OVM#+Q0S1OQBS1LVM#+OS1Q0LS1Q0VM#+Q0S1LQBS1LVM#+OS1Q',
+  'BLS1QBVM#+Q0S1OQBS1OVM#+Q<VM&S1Q0P?QG#+Q+VM&S1Q0P?QG#+S3VM&S1LP?QG#+S/VM&S1LP?QG#+Q<VM&S1QBP?QG#',
+  '+Q+VM&S1QBP?QG#+S3VM&S1OP?QG#+S/VM&S1OP?QG#+Q<VM&S1Q0ZEQG#+Q+VM&S1Q0ZEQG#+S3VM&S1LZEQG#+S/VM&S1L',
+  'ZEQG#+Q<VM&S1QBZEQG#+Q+VM&S1QBZEQG#+S3VM&S1OZEQG#+S/VM&S1OZEQG#/Q<VM&S1Q0NQ<VM&S1QB#/S3VM&S1OgGS',
+  '3VM&S1L#/Q+VM&S1Q0NQ+VM&S1QB#/S/VM&S1OgGS/VM&S1L#/Q<VM&S1Q0NQ+VM&S1Q0#/Q<VM&S1QBNQ+VM&S1QB#/Q+VM',
+  '&S1Q0NQ<VM&S1Q0#/Q+VM&S1QBNQ<VM&S1QB#,Q<VM&S1Q0NRMY?#,Q<VM&S1QBP6RMY?#,Q+VM&S1Q0NRMY?#,Q+VM&S1QB',
+  'P6RMY?#/S3VM&S1OgGS/VM&S1L#/S/VM&S1OgGS3VM&S1L#*LP0B&cE]>#)Z@#NQ+B#)S.XNNQ+B#)Q<BNS.XN#)Q+BNS.XN',
+  '#*Q+BNc#RGP?#(W2NQ<B#(Q<Bd+W2#(W3NQ+B#(^4NQ+B#(Q<Bd+^4#(^5NQ<B#&OhKW/#&LhKW/#&Q0hKW/#&QBhKW/#(W5',
+  'PLQGx;#&T%U5Qz)#(T%U5z0[/#(OP<ZAR%#(LP<ZAR%#&OP<Y!#&LP<Y!#)T%U5Oj-R%#)T%U5Lj-R%#)T%U5OPl@R%#)T%U',
+  '5LPl@R%#)OP&R%&^G#)LP&R%&^G#,OP&R%&h.VKXLZ<#,LP&R%&h.VKZ:Z<#,OP&R%&h.VKZ:Z<#,LP&R%&h.VKXLZ<#)OW!',
+  'R%&P8#)LW!R%&P8#(Oa4W2R%#(La4W3R%#)P0Oa4W3R%#)P0La4W2R%#)OP4^6[8R%#)LP4^6[8R%#%Y;u;#&PLf&U*#(f<W',
+  '!n1O#)LW![;&P&#)f<LW!&P8#(W!&Q3aA#%T+W!#(PV9W!n1O#(PV9W!n1Q0#%RCW!#%TCW!#&W!&^G#(TCW!&^G#(b@W!n1',
+  'Q0#(b@W!n1QB#0f<W!&S(_Gl1VKBU;Q0>L#0f<W!&S(_Gl1VKBU;Q0>O#0f<W!&S(_Gl1VKBU;QB>L#0f<W!&S(_Gl1VKBU;',
+  'QB>O#0f<W!&S(_Gl1VKBU;L>Q0#0f<W!&S(_Gl1VKBU;O>Q0#0f<W!&S(_Gl1VKBU;L>QB#0f<W!&S(_Gl1VKBU;O>QB#&TC',
+  'cFd5#(cFd5&e=#*cFd5&%QHN#*cFd5&LBN#*cFd5&OBN#(QH&RFQG#&P*PLQG#%P*hA#&P*_+^K#%P*PW;#0QHPW=eNRFQG>',
+  'XLQ>PW=eNPLQG#(QH&Qz*TF#(P*Qz+jN##(Q0Bd+QH#&P*P<dH#%P*dH#%P*W2#%P*W3#+QH&%QHP?Y4L#,QH&P3RFPTIP?Y',
+  '4L#(Q4cHS2c2#(Q4n/S2c2#%Q4Y##&Q4%QH#%Q4P&#&P3u0{=#(S!&P8N#&S!&^G#&Q3VKS!#)S!&{>]GZ:#)LS!NOS!#)OS',
+  '!gGPLQG#)PLQGgGLS!#)zN&OQ>P4#)zN&LQ>P4#%P4zN#)<&OQ>P4#)<&LQ>P4#%P<{%#%P4{%#&Op?u;#&Lp?u;#(OP0p?u',
+  ';#(LP0p?u;#%Qz,p>#&pER4p>#)p>PjO&PLQG#%Qz-PV@#(P&&Qz.Qz/#%Qz0d?#%Qz1e:#)Z@#>]ChA#,Z@#>]ChA&S.N#)',
+  'zKP?>]ChA#%Qz2Qz3##Qz4#*e?S!&OQ>P4#*e?S!&LQ>P4#)P4XM&QBB#%P4e>#)P<QH&QBB#)P4QH&QBB#&q(P<P&#&q(P4',
+  'P&#&q(P<XM#&q(P4XM#&q(P<QH#&q(P4QH##Qz5#&_+^KXN#&^K&e=#)_+^K&RFPD#%cD^K#&cD_+^K#%P0Q1#%W5Q1#(a+a',
+  '5W!R%#(^La5W!R%##u<##Qz6#(bFP*P8XN#(bFP*Q1XN#(bFP*<XN#)bFa3XN&P8#)bFa3XN&Q1#(bFP&b-XN#(bFP&a3XN#',
+  '(P3]2>XN#(P3]2T&XN#&bF<XN#&Qz7P3q)#&u%&^F#&g>^FXN#&Qz8PW@^F#(^F&P0PD#(^FQz9&c2#%Qz:PV/#%a){?#+U*',
+  '{?&Pb<u=PWAu>#+U*{?&PW?u=PWAu>#*U*{?VCQz;Y4u>#)^FPWA:]JXN#&Qz<^FXN#*^F&Q<B&Q!#(^F&<##&^F&b-#&^F&',
+  'a3#&^F&e=#&^F&^G##{;#(T/OS!XN#(T%U5PWBPVC#(T%U5PWBQz=#(T%U5PWBQz>#*Q1#&%QHN#*Q1#&U,V8N#)Q1#&S.N#',
+  ')Q1#&P8P6#)Q1#&S.P6#)Q1#&YNP3#)Q1#&P4S!#)_M#&W.N#)_M#&P8P6#)_M#&n/R1#)_M#&cHR1#*Q1#VKOQ>QH#*Q1#V',
+  'KLQ>QH#(Qz?T&X-e:#)e&#&P8N#(e&#&^G#)u,e:&Z:Y1#%PlAe:#*e&#VKOQ>QH#*e&#VKLQ>QH#*P*e&#&U,V8#)e&#VKP',
+  '0QH#&P*jN##(Q1#VKS!#(_M#VKS!#(e&#VKS!#%PlBe:#&Qz@PlBe:#(T%U5QzAPVC#&QzBT&PjH#&b-&P8#(a3&_M##&a3&',
+  'e=#&b-&e=#(b-&]2>#(a3&]2T&#&a3Nb-#&b-Na3#)a3NQGNb-#)b-NQGNa3#*a3gG>u0&a3#*b-gG>u0&b-#(Y1a3&{>#(Y',
+  '1b-&{>#&P0P&b-#&P0P&a3#+Y1a3&{>>PlAe:#)]2>&P8N#)]2T&&P8N#&P0]2>#&P0]2T&#(P3PlC]2>#(P3PlC]2T&#&Pl',
+  'DT/T&#&PlDT/>#)]2T&u?]2>#)]2>&PJgF#)]2T&&PJgF#)]2>&RFY?#)]2T&&RFY?#)]2>&P0e=#(]2>&^G#)]2>&P0^G#(',
+  '%kB&^G#)]2T&&P0e=#)]2T&&P0^G#(T%U5QzCPlE#(T%U5u@PlE#)Z@#&P8P6#(zK&P8N#+W5RFQG&P0PLPD#+W5RFQG&W5P',
+  'LPD#)S.XN&P8N#)S.XN&cHR1#&hL_MhL#(QzD&P8N#&Z@&Y##*c#RGP?&U,V8#)pHRGT&RGP?#)Z@#NQ1##)Q1#NZ@##)Z@#',
+  'NS.XN#&P0[/RG#(P3PlFZ@PlG#(P=PlFZ@PlG#.Z@#&P3R1N>P3R1P6#)d(&PIR1N#(W2&QHaA#(W3&QHaA#)W2&]+P%N#)W',
+  '3&]+P%N#)W2T&]CRGP?#)W3T&]CRGP?#,W2T&]CRGP?&P8aA#,W3T&]CRGP?&P8aA#,W2T&]CRGP?&P8N#,W3T&]CRGP?&P8',
+  'N#-W2T&]CRGP?&P8NL#-W3T&]CRGP?&P8NO#&W2T&{@#&W3T&{@#*W2>q*VCRGP?#*W3>q*VCRGP?#(W2>VC{@#(W3>VC{@#',
+  '*W2NhMRGNW3#*W3NhMRGNW2#)W2NhLT&RG#)W3NhLT&RG#)W2NhLNW3#)W3NhLNW2#*W2NW3NhMRG#*W3NW2NhMRG#-W2N]C',
+  'RGNW3N]CRG#-W3N]CRGNW2N]CRG#)]CRGP?T&W2#)]CRGP?T&W3#,]CRGP?T&W2&P8aA#,]CRGP?T&W3&P8aA#)hMRGP?T&W',
+  '2#)hMRGP?T&W3#*hM]CRGP?T&W2#*hM]CRGP?T&W3#&hLT&W2#&hLT&W3#*hLNW2NZ@##*hLNW3NZ@##&P0uAW2#&P0uAW3#',
+  ')P0uAW2&^G#&W3u?W2#&W3gGW2#(W2Y1eNZ+#(W3Y1eNZ+#+W2Y1eNZ+N]CRG#+W3Y1eNZ+N]CRG#%PlHoM#%PlIoM#)PlHo',
+  'MT&RGP?#)PlIoMT&RGP?#)Z@#&QzEN#)e;Nq*Z@##)e<Nq*Z@##*e;Nq*VCRGP?#*e<Nq*VCRGP?#(e;NZ@##(e<NZ@##)e;',
+  'NVCRGP?#)e<NVCRGP?#)e;Nc#RGP?#)e<Nc#RGP?#*e;NVCc#RGP?#*e<NVCc#RGP?#%P0e;#%P0e<#&^4&P8#&^5&P8#)^4',
+  '&Q1#P6#)^5&Q1#P6#)^4&e&#P6#)^5&e&#P6#,^4PET&RGP?&P8N#,^5PET&RGP?&P8N#)^4PENZ@##)^5PENZ@##)^4PENS',
+  '.XN#)^5PENS.XN#*^4PENc#RGP?#*^5PENc#RGP?#*^4PENVCRGP?#*^5PENVCRGP?#)P&OS(Q5XN#)P&LS(Q5XN#%Y1^4#%',
+  'Y1^5#)Y1^4T&RGP?#)Y1^5T&RGP?#&^4N^5#&^5N^4#&^4N^4#&^5N^5#&^5gG^4#,^5gG>u0eNY?&^4#(e9PEn1S/#(Pk!&',
+  'p4XL#%QzFb-##QzG##QzH#&V%OZI#&V%QBZI#&V%Q0ZI#&PW;&Q3#)PLQGW5LkK#)P0PLQGOkK#)PLQGP0OkK#*P0PLQGP0O',
+  'kK#,RMY?ZEOzJPEP0PL#)V%QBZI&e=#)V%Q0ZI&^G#+V%Q0ZINV%QBZI#&P0QBZI#&P0Q0ZI#(P0PDVC##)TCP0PDVC##+f;',
+  'VCPV:&TCQzIc2#)PLU*&QHN#)PLU*&QHP6#)QBZI&QHP6#(hA&RFPD#(hA&S.XN#)W5PLQGPlJzM#*W5PLQG&RFPD#&W5[/X',
+  'N#&W5uAW2#&W5uAW3#*hM]CW2T&RGP?#*hM]CW3T&RGP?#(W5^KPlJzM#)T/W5PLQGXN#&P0^KXN#&P<PLQG#(bFP<PLQG#(',
+  'S4W#P<B#(S4WKP<B#(T=W#P<B#(T=WKP<B#(OLP<B#&Q<P4B#&S3P4B#&S/P4B#(S4W#P4B#(S4WKP4B#(T=W#P4B#(T=WKP',
+  '4B#(OLP4B#(Q0QBP4B#)Q+B&a*S/#)Q+B&a*S3#)Q<B&a*S/#)Q<B&a*S3#)P&&XLQ>P4#)P&&Z:Q>P4#+P&&QCLS2Q>P4#+',
+  'P&&Q;OS2Q>P4#)XM&OQ>P4#)XM&LQ>P4#)XM&XLQ>P4#)XM&Z:Q>P4#%Y;P&#&P4T/P&#&P<T/P&#(P4[B%P&#(P<[B%P&#%',
+  'P4uB#%P<uB#%P<PWC#%P4PWC#&RFP4PWC#&P4T/QH#&P4S,XM#&P<S,XM#&P4S,e>#&P<S,e>#&P4%XM#&P4%e>#&P<%e>#&',
+  'P4RF{A#&P<RF{A#&P4PL{A#&P<PL{A#)OB&%QH#&P=Q<bG#)OB&P*Q1#(RMQ<zHB#*Q<aGB&PLPD#+Q<aGB&P0PLPD#)Q<aG',
+  'BZEQG#)Q<aGW5Y?B#)Q<B&Y;gF#+Q<B&W/&PLPD#,Q<B&W/&P0PLPD#)Q<aGB&W/#,Q<aGB&W/&PLPD#-Q<aGB&W/&P0PLPD',
+  '#(Q<Bd+TF#)[3BU;Pl?O#)Z@#NQ<B#*_+S.XNNQ<B#+Q<BN_+c#RGP?#(Q+Bd+W3#(Q+Bd+^5#&Q<g>B#&Q+g>B#*_+S.XNN',
+  'Q+B#+Q+BN_+c#RGP?#)S.XNNQ<B#*Q<BNc#RGP?#*Q<BN_+S.XN#*Q+BN_+S.XN#(S/U6f&B#(V%]CS4B#(V%PWDT=B#&P<S',
+  ',W6#&P4%W6#&P<%W6#&P4^LuB#&P<^LuB#&PHT/QH#)PHuC&uCaA#)PHQH&QHaA#%PHQH#&PHP*gC#*]CS4B&q+]>#*PWDT=',
+  'B&q+W/#*]CS4B&RFW/#*PWDT=B&RFW/#+])BU;S/j8S4W##,V%])BU;S/j8S4W##&Q<U6B#&S3U6B#&Q+U6B#&S/U6B#(OLU',
+  '6B#(Q0QBU6B#(S4WKU6B#(S4W#U6B#(T=W#U6B#(T=WKU6B#(Q<U6e8B#(S3U6e8B#(Q+U6e8B#(S/U6e8B#)c3U6S(QHB#)',
+  'a)U6S(QHB#)Q<U6BP?QG#)S3U6BP?QG#)Q+U6BP?QG#)S/U6BP?QG&*S4WKU6BP?QG#*S4W#U6BP?QG#*T=W#U6BP?QG#*T=',
+  'WKU6BP?QG#+Q<U6B&P0RFPD!+Q<U6B&P0PLPD#+S3U6B&P0RFPD#+Q+U6B&P0RFPD!+Q+U6B&P0PLPD#+S/U6B&P0RFPD#&R',
+  'Fg%j.#&PLg%j.#+Q<U6BR4Q+U6B#,S3U6BQ<PES/U6B#+Q+U6BR4Q<U6B#,S/U6BQ<PES3U6B#(Q<U6kJbG#(S3U6kJbG#(Q',
+  '+U6kJbG#(S/U6kJbG#)Q<P4P*P<B#)S3P4P*P<B#)Q+P4P*P<B#)S/P4P*P<B#)a)U6LuDB#)a)U6Z:uDB#)a)U6OuDB#)a)',
+  'U6XLuDB#%o.O#%o.L#%PVGO#%PVGL#)PIZ<bGPlKa)#&Q+P4B%)0P!z0:QzJ#)q%PW6Q<_)U@#)q%QzKS3_)U@#)q%PW6Q+_',
+  ')U@#)q%QzLS/_)U@#(P4Q<_)U@#(P4S3_)U@#(P4Q+_)U@#(P4S/_)U@#+S/U6B&RMa*Q<#+S/U6B&RMa*Q+#+S3U6B&RMa*',
+  'Q<#+S3U6B&RMa*Q+#+Q<U6B&RMa*S3#+Q+U6B&RMa*S3#+Q<U6B&RMa*S/#+Q+U6B&RMa*S/#*P4a5S/>Q<B#*P4a5S/>Q+B',
+  '#*P4a5S3>Q<B#*P4a5S3>Q+B#*P4a5Q<>S3B#*P4a5Q+>S3B#*P4a5Q<>S/B#*P4a5Q+>S/B#(gHBQBO#(gHBQBL#(gHBQ0O',
+  '#(gHBQ0L#(gHBOQ0#(gHBLQ0#(gHBOQB#(gHBLQB#,S3P<BZEQG&RFQG#*Q0U@VK:j/Q5#&u?P<{=#)u?P<>P4{=#&u?P4{=',
+  '#)e@Q5&QKTF#%P*TF#&P*@TF#&P4P&i<#&P4XMi<#&RCP4uB#&RFP4PlL#%P4PlL#)P4S,bIS!i<#)P4S,e?S!i<#)P4S,a+',
+  'S!i<#)P4S,^LS!i<#&PkA5P3#(XLQ>P4QH#(Z:Q>P4QH#)QKPIZ8P4{B#*VLQKPIZ8P4{B#(P<PIZ8{B#)VLP<PIZ8{B#&P&',
+  'pJ[0#%QzM##%PQ-P%#&u55P3#&u55P=#&u55PI#&u55Q%##QzN##QzO##Q{!##Q{###Q{%##Q{&#&P<]3Q{(#(P4XMV5X-#(',
+  'PV?QK]3Q{)##Q{*##Q{+##Q{,##Q{-##Q{.##Q{/##Q{0##Q{1#(OQ>P4W6#(LQ>P4W6#)W6&OQ>P4#)W6&LQ>P4#*Q<aGB&',
+  'S!{C#*S3aGB&S!{C#*Q+aGB&S!{C#*S/aGB&S!{C#&PlM5P.#&PlM5P3##Q{2#(q,iF0Q{3#(q,iF0Q{4#(q,iF0Q{5#(q,i',
+  'F0Q{6#(q,iF0Q{7#(q,iF0Q{8#)Z@#&p>P6#%Q{90#%Q{:0#%sA0#%Q{;0#&TCLW!#&Q{<Q{=0#(R2)!PWE#(R2)!PWF#(R2',
+  ')!PWG#(R2)!PWH#(R2)!PWI#(R2)!PWJ#(R2)!PWK#(R2)!{D#(R2)!PWL#(R2)!q-#)R2)!Q&q-#(R2)!P7#(R2)!PWM#(R',
+  '2)!PWN#(R2)!PWO#(R2)!uE#(R2)!PX!#(R2)!PX##(R2)!PX%#(R2)!PX&#(R2)!PX(#(R2)!PX)#(R2)!PX*#(R2)!PX+#',
+  '(R2)!PX,#(R2)!PlN#(R2)!XK#(R2)!PX-#(R2)!mK#(R2)!uF#(R2)!UF#(R2)!g,#(R2)!{E#(R2)!PX.#)R2)!PlOR&#(',
+  'R2)!YK#)R2)!%[A#+R2)!%[A&W/#(R2)![7#*R2)!q.%[A#)R2)!cD[A#*R2)!q.cD[A#(R2)!m4#(R2)!o?#(R2)!Pm!#)R',
+  '2)!Pm#:#)R2)!Pm%uE#)R2)!Pm&uF#(R2%!PWE#(R2%!PWF#(R2%!PWG#(R2%!PWH#(R2%!PWI#(R2%!PWJ#(R2%!PWK#(R2',
+  '%!{D#(R2%!PWL#(R2%!q-#)R2%!Q&q-#(R2%!P7#(R2%!PWM#(R2%!PWN#(R2%!PWO#(R2%!uE#(R2%!PX!#(R2%!PX##(R2',
+  '%!PX%#(R2%!PX&#(R2%!PX(#(R2%!PX)#(R2%!PX*#(R2%!PX+#(R2%!PX,#(R2%!PlN#(R2%!XK#(R2%!PX-#(R2%!mK#(R',
+  '2%!uF#(R2%!UF#(R2%!g,#(R2%!{E#(R2%!PX.#)R2%!PlOR&#(R2%!YK#)R2%!%[A#+R2%!%[A&W/#(R2%![7#*R2%!q.%[',
+  'A#)R2%!cD[A#*R2%!q.cD[A#(R2%!m4#(R2%!o?#(R2%!Pm!#)R2%!Pm#:#)R2%!Pm%uE#)R2%!Pm&uF#++)!Q@&P0QG#++%',
+  '!Q@&P0QG#++)!Q@&PJS.#*+)!TE&PD#*+)!Q2&W/#*+%!:&PD#++%!S;&S2PD#*+)!SB&YL#*+%!SB&YL#*+)!S>&YL#*+%!',
+  'S>&YL#*+)!T%&YL#*+%!T%&YL#(+)!V##*+)!S&&Q!#)+)!RC:#)+)!RCV##++%!SC&LQ!#*+)!U+&Q!#*+%!U+&Q!#*+%!S',
+  'C&_8#)+)!Q>SB#)+%!Q>SB#)+%!Q{>^>#*+%!P5&Pk,#++%!RCQ2&W/#,+%!P2&R+RBaA#*+!%)RCP5#)+YN%!U3#(P:!)SC',
+  '#++)!Q3&o5W/#++)!T%&o5W/#(Q-)!Pm(#(Q-%!Pm(#(Q-)!Pm)#(Q-%!Pm)#(Q-)!_7#(Q-%!_7#(Q-)!Pm*#(Q-%!Pm*#(',
+  'Q-)!{F#(Q-%!{F#(Q-)!Pm+#(Q-%!Pm+#(Q-)!{G#(Q-%!{G#(Q-)!Pm,#(Q-%!Pm,#(Q-)!Pm-#(Q-%!Pm-#(Q-)!Pm.#(Q',
+  '-%!Pm.#(Q-)!{H#(Q-%!{H#(Q-)!Pm/#(Q-%!Pm/#(Q-)!]##(Q-%!]##(Q-)!ZL#(Q-%!ZL#(Q-)!wH#(Q-%!wH#(Q-)!P2',
+  '#(Q-%!P2#(Q-)!X.#(Q-%!X.#(Q-)!]K#(Q-%!]K#(Q-)!PX/#(Q-%!PX/#(Q-)!b!#(Q-%!b!#(Q-)!p=#(Q-%!p=#(Q-)!',
+  'g4#(Q-%!g4#(Q-)!z+#(Q-%!z+#(Q-)!b;#(Q-%!b;#(Q-)!{I#(Q-%!{I#)Q-)!l2QF#)Q-%!l2QF#*Q-)!KQ-Y,#*Q-%!K',
+  'Q-Y,#)Q-)!j&{F#)Q-%!j&{F#)Q-)!l2{H#)Q-%!l2{H#)Q-)!l2ZL#)Q-%!l2ZL#)Q-)!j&ZL#)Q-%!j&ZL#*Q-)!KQ-{I#',
+  '*Q-%!KQ-{I#(Q-)!o7#(Q-%!o7#)Q-)!eAk)#)Q-%!eAk)#*Q-)!KQ-k)#*Q-%!KQ-k)#*Q-)!KQ-a;#*Q-%!KQ-a;#)Q-)!',
+  'Pm0o;#)Q-%!Pm0o;#)Q-)!l2o<#)Q-%!l2o<#*Q-)!KQ-o<#*Q-%!KQ-o<#*Q-)!KQ-R&#*Q-%!KQ-R&#)Q-)!Pm1R&#)Q-%',
+  '!Pm1R&#*Q-)!KQ-Pm2#*Q-%!KQ-Pm2#*Q-)!KQ-n2#*Q-%!KQ-n2#*Q-)!KQ-o=#*Q-%!KQ-o=#*Q-)!KQ-Pm3#*Q-%!KQ-P',
+  'm3#*Q-)!KQ-m3#*Q-%!KQ-m3#*Q-)!KfBm3#*Q-%!KfBm3#*Q-)!KfBz)#*Q-%!KfBz)#*Q-)!KfBdB#*Q-%!KfBdB#*Q-)!',
+  'KfBPX0#*Q-%!KfBPX0#&Q-0o9#(Q-0]#]K#(Q-0X.]K#&Q-0Q{?#(Q-0b!]K#(Q-0z+]K#(Q-0m3PX/#)Q-)!j&k)#)Q-%!j',
+  '&k)#)Q-)!j&o=#)Q-%!j&o=#(Q-FZLN#(Q-FPm4Q{@#(Q-FPm4Pm5#)Q-)!Pm6o;#)Q-%!Pm6o;*)Q-KfBX,UE#*Q-KfBPVE',
+  ']+P%#*Q-KfBQ{A]+P%#)Q-KfBPR*q/#(Q-SFP.Q>#&Q-X,UE#&Q-Q{Bq/#(Q6%!Z9#(Q6%!xE#(Q6%!mD#(Q6%!xF#(Q6%!W',
+  'B#(Q6%!xG#(Q6%!s=#(Q6%!xH#(Q6%!VK#(Q6%!p)#(Q6%!xI#(Q6%!_C#(Q6%!t##(Q6%!V5#(Q6%!xJ#(Q6%!xK#(Q6%!p',
+  '.#(Q6%!o>#(Q6%!mE#(Q6%!iI#(Q6%!xL#(Q6%!xM#(Q6%!xN#(Q6%!t%#(Q6%![2#(Q6%!xO#(Q6%!c>#(Q6%!t&#(Q6%!y',
+  '!#(Q6%!y##(Q6%!y%#(Q6%!y&#(Q6%!y(#(Q6%!YE#(Q6%!t(#(Q6%!^.#(Q6%!p/#(Q6%!y)%(Q6%!p0*(Q6%!p1&&W9!S)',
+  '#&W9!Q{C#&W9!Q{D#&W9!Q{E#&W9!Q{F#)W9!Pm7Pm8PX1#&W9!PX1#&W9!Q{G#&W9!Q{H#&W9!Q{I#&W9!Q{J#&W9!Q{K#&',
+  'W9!Q{L#&W9!PS*#(W9!l3PS*#&W9!Q{M#&W9!{J#)W9!Pm7Pm8{J#(W9!l3{J#&W9!Q{N#&W9!oH#&W9!Pm9#(W9!l3Pm9#&',
+  'W9!Pm:#(W9!l3Pm:#&W9!-#&W9!PX2#(W9!Q{OPX2#(W9!l3PX2#&W9!Q|!#&W9!Pm;#&W9!PhM#(W9!l3Q|##(W9!l3f%#&',
+  'W9!Pm<#&W9!YK#&W9!Pd=#&W9!Q|%#&W9!PX3#(W9!l3PX3#(W9!Q|&PX3#&W9!Q|(#&W9!Q|)#&W9!Q|*#&W9!i>#&W9!Q|',
+  '+#&W9!Q|,#&W9!Q|-#&W9!Q|.#&W9!Q|/#&W9!PhH#&W9!Pm=#(W9!Q|0Pm=#&W9!Q|1#&W9!c1#&W9![7,)W9P:!Q|2P%#&',
+  'W9[#P%3&W9T<m2#&I(Q|3#&I(Q|4#&I(Q|5#&I(Q|6#&I(Q|7#&I(Q|8#&I(Q|9#&I(Q|:#&I(Q|;#&I(Q|<#(I(ZHtB#&I(',
+  'Q|=#&I(Q|>#&I(Q|?#&I(Q|@#&I(Q|A#&I(Q|B#&I(Q|C#&I(Q|D#&I(Q|E#&I(Q|F#&I(Q|G#&I(Q|H.&I(YD#&I(PX4#&I',
+  '(PX5#&I(Q|I#&I(Q|J#&I(Pm>#&I(PU7%&I(Q|K#&I(Q|L#&I(Q|M#&I(Q|N#&I(Q|O#&I(Q}!#&I(Q}#%&I({K#&I(Pm?#&',
+  'I(Pm@#&I(Q}%#&I(Q}&#&I(PmA#&I(PmB%&I(Q}(#&I(Q})#&I(Q}*#&I(Q}+#&I(Q},#&I(PX6#&I(Q}-%&I(Q}.#&I(Q}/',
+  '#&I(Q}0#&I(Q}1#&I(Q}2#&I(Q}3#&I(Q}4%&I(PX7#&I(Q}5#&I(Q}6#&I(Q}7#&I({L#&I(Q}8#&I(Q}9%&I(PmC#&I(Q}',
+  ':#&I(Q};#&I(Q}<#&I(Q}=#&I(PmD#&I(Q}>%&I(Q}?#&I(Q}@#&I(Q}A#&I(Q}B#&I(Q}C#&I(Q}D#&I(Q}E%(FP#!cB#(F',
+  'P#!b=#(FP#!b##(FP#!_:#(FP#!c%#(FP#!_;#(FP#!Q*#(FP#!_-#(FP#!b%#(FP#!WB#(FP#!P2#(FP#!XK#(FP#!cC#(F',
+  'P#!g+#(FP#!Z7#(FP#!R&#(FP#!d8#(FP#!^M#(FP#!UF#(FP#!PQA#(FP#!m4#(FP#!Q}F#(FP#!:#(FP#!b<#(FP#!PX8#',
+  ')FP#!PX9o@#(FP#!i>#(FP#!YK#)FP#!c&:#)FP#!V,[A#)FP#!cD[A#*FP#!c&cD[A#(LW!q0k/#)LW!Y;q0k/#&Oq0R%#&',
+  'Lq0R%#(OY;q0R%#(LY;q0R%#&[&PmEk/#([&Y;PmEk/#&Y;PX:k/#&OPX:R%#&LPX:R%#%[&P&#(O[&PmFR%#(L[&PmFR%#%',
+  'Q}GQ}H##PX;#%PmGPX;#&TCPmGPX;##Q}I#%Y;Q}J#%S/PmH#%S3PmH#&Y;^LW!#&P0b@eM#%VAtN#%q1PVH#&eM&U?#(S.&',
+  'RBN#(OR+PmIR%#(LR+PmIR%#(S.&P8N#(S.&P8P6#)OPLQG&zC#)LPLQG&zC#(XLOQ>R%#(XLLQ>R%#(Z:OQ>R%#(Z:LQ>R%',
+  '#(OaBP+R%#(LaBP+R%#&OP0Y!#&LP0Y!#*P3R1R4P.P8S<#*P.P8R4P3R1S<#(Q4PIP8S<#&Q%P8P%#&TC]+P%#%PLS.#%RB',
+  ']J#(_.[#PJP8#%RCW.#%[&P8#%[&W.#%RCeL#(n%&OPmJ#(n%&LPmJ#%RCn%#(XLQ>Z-##%Q}KY?#%Q}LY?#&Q}MX,UE#&PL',
+  'QER1#&p?PLU*##Q}N#%P0eM#%TCW.#(P0Q}O[MP%#(Y?&OPQB#&P0PV*P%#&VAR+j(#*VAR+j(&j(N#%R+j(#(R+j(&P8#&P',
+  '0RP!W.#%Y;^K#%W5n%#%PX<W.#%RP#P%#&RP%RP&P%#&RP(PR*q/#)X-PmK&LPmL#)X-PmK&OPmL#(Pj1#)e*#&PX<^+P%#&',
+  'PX<]+P%#)OP&R%&PD#)LP&R%&PD#*OP&R%&P0PD#*LP&R%&P0PD#(XLQ>OY!#(XLQ>LY!#(Z:Q>OY!#(Z:Q>LY!#%b@eMG&/',
+  'P-j9#&/P-PX=#(/P-j:P.#(/P-j:P3#(/P-j:P=#&/P-_F#&/P-Q5#&/P-PX>#(/P-q2P.#(/P-q2P3#&/P-PmM#&/P-PX?#',
+  '(/P-%P.#(/P-%P3#(/P-uGP.#(/P-uGP3#(/P-uGP=#(/P-uGPI#&/P-z?#&/P-PX@#(/P-PXAP.#(/P-PXAP3#(/P-](P.#',
+  '(/P-](P3#&/P-[C#&/P-PXB%&/P-RP)#&/P-c5#&/P-]3#&/P-PmN#&/P-PmO#&/P-RP*#(/P-dJP.#(/P-dJP3#&/P-gD#(',
+  '/P-PXCP.#(/P-PXCP3#*/P-uHQ>hNPn!#&/P-uI#&/P-q3#&/P-Pn##)/P-PXDPEPXE#&/P-hF#(/P-{MP.#(/P-{MP3#&/P',
+  '-PXF#&/P-PXG#(/P-_HPXG#(/P-q4P.#(/P-q4P3#(/P-q4P=#(/P-q4PI#&/P-Pn%#&/P-PXH#&/P-{N#&/P-Pn&#&/P-K#',
+  '(/P-q5P.#(/P-q5P3#&/P-{O#&/P-Pn(#(/P-|!P.#(/P-|!P3#(/P-|!P=#&/P-|##&/P-PXI#(/P-WKP.#(/P-WKP3#(/P',
+  '-_HmF#(/P-uH[%#&/P-[%#(/P-_Hn3#(/P-_H[8#&/P-{*#(/P-_HPn)#(/P-uHuJ#(/P-uJP.#(/P-uJP3#&/P-Pn*#(/P-',
+  '_H|%#(/P-RMP.#(/P-RMP3#(/P-_HRM#(/P-_HPn+#(/P-PXJP.#(/P-PXJP3#&/P-n+#&/P-l4#)/P-_HPn,PXK#(/P-_H_',
+  'I#(/P-_HgE#(/P-_HPXL#(/P-q6P.#(/P-q6P3#(/P-q6P=#(/P-_Hq6#&/P-]>#(/P-_Hj;#&/P-|&#&/P-PXM#(/P-_HhK',
+  '#(/P-_H|(#(/P-_HhO#(/P-uHPXN#(/P-uHuK#(/P-_HPXO#(/P-|)p!#(/P-_Hp!#(/P-|)|*#(/P-_H|*#(/P-|)l5#(/P',
+  '-_Hl5#&/P-uL#(/P-|)uL#(/P-_HuL1&PMP-P.#&PMP-U*#&PMP-P8#&PMP-c2#&PMP-j:#&PMP-Q!#&PMP-P3#&PMP-Pn-#',
+  '&PMP-_C#&PMP-RP+#&PMP-Pk+#&PMP-QD#(PMP-QBQ5#&PMP-PY!#&PMP-l-#&PMP-PX>#(PMP-S(Q5#&PMP-q2#&PMP-pL#',
+  '&PMP-RP,#&PMP-PY##)PMP-LS(Q5#(PMP-RP-PY%#&PMP-U!#&PMP-PmM#&PMP-PX?#&PMP-PX=#&PMP-rI#&PMP-RP.#&PM',
+  'P-X@#&PMP-PY%#&PMP-c4#&PMP-RP/#&PMP-dA#(PMP-dARP0#&PMP-RP1#&PMP-cD#&PMP-l6#&PMP-PY&#&PMP-RP2#&PM',
+  'P-RP3#&PMP-%#&PMP-uG#&PMP-RP4#&PMP-RP5#&PMP-l)#&PMP-RP6#&PMP-PY(#&PMP-RP7#&PMP-Pn.#&PMP-PY)#(PMP',
+  '-V%PX@#(PMP-Y;PX=#(PMP-RMRP8#(PMP-P3j<#&PMP-RP9#&PMP-pM#&PMP-PXA#&PMP-RP:#&PMP-PY*#&PMP-](#&PMP-',
+  'RP;#&PMP-Pn/#&PMP-[C#&PMP-PVH#&PMP-PXB#&PMP-?#&PMP-RP<#&PMP-PY+#&PMP-P&#&PMP-VC#&PMP-c5#&PMP-PhF',
+  '#&PMP-]3#&PMP-hN#&PMP-RP=#&PMP-UE#&PMP-PmN#&PMP-RP>#(PMP-a0VC#&PMP-RP?#&PMP-Pn0#&PMP-a6#&PMP-Pn1',
+  '#&PMP-dJ#&PMP-gD#&PMP-RP@#&PMP-Pn2#(PMP-P0TF#)PMP-Q>hNPn!#&PMP-Pn3#&PMP-RPA#&PMP-uI#&PMP-q3#&PMP',
+  '-RPB#&PMP-Pn##&PMP-Pn4#&PMP-QM#&PMP-Pn5#&PMP-RPC#&PMP-PQ1#&PMP-Pn6#)PMP-PXDPEPXE#&PMP-RPD#(PMP-Y',
+  ';PW0#&PMP-P<#&PMP-RPE#&PMP-_3#&PMP-hF#&PMP-Pn7#&PMP-B#&PMP-PY,#&PMP-{M#&PMP-Pn8#&PMP-RPF#&PMP-RP',
+  'G#&PMP-RPH#&PMP-PXF#&PMP-q7#&PMP-PXG#&PMP-Pn9#&PMP-q4#&PMP-PXH#&PMP-z-#&PMP-K#&PMP->#&PMP-RPI#&P',
+  'MP-n!#&PMP-q5#&PMP-{O#&PMP-RPJ#&PMP-Pn:#&PMP-RPK#&PMP-Pn(#&PMP-bJ#&PMP-RPL#&PMP-Pn;#&PMP-RPM#&PM',
+  'P-RPN#&PMP-|!#&PMP-|##&PMP-RPO#&PMP-Pn<#(PMP-uJPY%#&PMP-PXI#&PMP-WK#&PMP-mF#&PMP-[%#&PMP-n3#&PMP',
+  '-RQ!#&PMP-RQ##&PMP-|+#&PMP-Pn=#&PMP-[8#&PMP-aH#&PMP-RQ%#&PMP-{*#&PMP-Pn>#&PMP-Pn)#&PMP-RQ&#&PMP-',
+  'RQ(#&PMP-uJ#&PMP-Pn*#&PMP-|,#&PMP-RQ)#&PMP-RQ*#&PMP-|%#&PMP-RM#&PMP-Pn+#&PMP-PXJ#&PMP-RQ+#)PMP-V',
+  '%c7|(#&PMP-n+#&PMP-l4#&PMP-RQ,#&PMP-Q:#&PMP-PXK#(PMP-Pn,PXK#&PMP-RQ-#&PMP-bE#&PMP-_I#&PMP-gE#&PM',
+  'P-PXL#&PMP-q6#&PMP-]>#&PMP-RQ.#&PMP-j;#&PMP-|&#&PMP-p+#&PMP-n##&PMP-RQ/#(PMP-RQ0|,#&PMP-Pn?#&PMP',
+  '-PXM#&PMP-hK#&PMP-|(#&PMP-hO#&PMP-PY-#&PMP-PXN#&PMP-RQ1#&PMP-uK#&PMP-RQ2#&PMP-P4#&PMP-RQ3#&PMP-P',
+  'XO#&PMP-RQ4#&PMP-q8#&PMP-|-#&PMP-gI#&PMP-p!#&PMP-|*#&PMP-l5#&PMP-uL#&PMP-Pn@?*RAfCS8OP?L#*RAfCS8',
+  'NP?P6#,RAfCS8OP?PJ>L#,RAfCS8NP?PJ>P6#)RAfCS8X,n4#*RAfCS8n4ZEN#*RAfCS8n4ZEP6#*RAfCS8n4ZEO#+RAfCS8',
+  'n4ZEQCO#+RAfCS8n4ZEQCL#+RAfCS8n4ZEQ;O#(RAfCS8PY.)%RA_6#%RAW.#&RAX,UE#%RQ5P%#(l.RQ6PnA0#&RAi!P%#&',
+  'RAsIP%#&RADT,#&OW!R%#&LW!R%#(OP0W!R%#(LP0W!R%#&OZ<R%#&LZ<R%#(OP<Z<R%#(LP<Z<R%#(OP4j=R%#(LP4j=R%#',
+  '%|.P%#%RQ7P%#(O^6[8R%#(L^6[8R%#(OP<j=R%#(LP<j=R%#)OP<^6[8R%#)LP<^6[8R%#(OP<P&R%#(LP<P&R%#%[3Y?#)',
+  'TCP0f#[MP%#(P0f#[MP%#)R+P0f#[MP%#&|.P%Q:#&fDU:P.#&fDU:P3#&fDU:P=#&fDU:PI#&fDU:Q%#&fDU:QE#&fDU:R!',
+  '#&fDU:QD#&fDU:R*#(RAPnBR,P%#(RAcHR,P%#(RAPQ:R,P%#(RARQ8R,P%#)CTGP8R,P%#)CP0P8R,P%#%g0Y?#(PLuMj9P',
+  '%#+PLuMj9&h*bEP%#*PLuMj9P%QCQ>#-PLuMj9&h*bEP%QCQ>#*PLuMj9P%Q;Q>#&P*|.P%#*RAV6U*o-[#0#&fDU:U!#&fD',
+  'U:X>#&fDU:]%#(PLRAi!P%#%RQ9P%#&PW@RQ:P%#&RAP@[0#(RAQ>b/_6%(T)!%:#&T)!:#(T)!%P7#&T)!P7#(T)!%P+#&T',
+  ')!P+#(T)!%P5#&T)!P5#(T)!%P2#&T)!P2#&T)!Q*#&T)!S=#&T)!_##&T)!^C#&T)!_B#&T)!bB#&T)!a%#&T)!h=#&T)!^',
+  'B#&T)!dA#&T)!S0#&T)!X6#&T)!^J#&T)!g9#&T)!_A#&T)!f3#&T)!_E#&T)!_;#&T)!]F#&T)!f-#&T)!S+#&T)!S6#&T)',
+  '!aC#&T)!aF#(T)!%^D#&T)!^D#&T)!aE#&T)!Z7#&T)!_:#&T)!P?#&T)!a0#&T)!S##&T)!ZL#&T)![4#&T)!ZM#&T)!YC#',
+  '&T)!R&#&T)!T.#&T)!R:#&T)!Z;#&T)!aD#&T)!X.#&T)!dE#&T)!^1#&T)!e3#&T)!YE#&T)!cB#&T)!XK#&T)!]I#&T)!f',
+  '0#&T)!b&#&T)!RK#&T)!]##&T)!YJ#&T)![*#&T)!_?#(T)!%S)#&T)!S)#(T)!%YK#&T)!YK#(T)!%[7#&T)![7#&T)!R>#',
+  '&T)!b9#&T)!_0#&T)!b)#&T)!]K#(T)!%UM#&T)!UM#&T)!_D#&T)!^.#&T)!_!#&T)!R<#&T)!mG#(T)!%Q*#(T)!%a%&)F',
+  'n5h*bEP%#)Fn5PY/bEP%#(n5h*bEP%#(n5PY/bEP%#&T)i!P%#(T)h*i!P%#&T)[@RQ;#&n5P0eM#(PF!%:#&PF!:#(PF!%P',
+  '7#&PF!P7#(PF!%P+#&PF!P+#(PF!%P5#&PF!P5#(PF!%P2#&PF!P2#&PF!Q*#&PF!S=#&PF!_##&PF!^C#&PF!_B#&PF!bB#',
+  '&PF!a%#&PF!h=#&PF!^B#&PF!dA#&PF!S0#&PF!X6#&PF!^J#&PF!g9#&PF!_A#&PF!f3#&PF!_E#&PF!_;#&PF!]F#&PF!f',
+  '-#&PF!S+#&PF!S6#&PF!aC#&PF!aF#(PF!%^D#&PF!^D#&PF!aE#&PF!Z7#&PF!_:#&PF!P?#&PF!a0#&PF!S##&PF!ZL#&P',
+  'F![4#&PF!ZM#&PF!YC#&PF!R&#&PF!T.#&PF!R:#&PF!Z;#&PF!aD#&PF!X.#&PF!dE#&PF!^1#&PF!e3#&PF!YE#&PF!cB#',
+  '&PF!XK#&PF!]I#&PF!f0#&PF!b&#&PF!RK#&PF!]##&PF!YJ#&PF![*#&PF!_?#(PF!%S)#&PF!S)#(PF!%YK#&PF!YK#(PF',
+  '!%[7#&PF![7#&PF!R>#&PF!b9#&PF!_0#&PF!b)#&PF!]K#(PF!%UM#&PF!UM#&PF!_D#&PF!^.#&PF!_!#&PF!R<#&PF!mG',
+  '#(PF!%Q*#(PF!%a%#&PF!WJ#&PF!iN#&PF!b=#&PF!h0#&PFPJP8#(n5PnCbEP%#&PFi!P%#(PFh*i!P%#&PF[@PnD*&UC!P',
+  ';#&UC!TE#&UC!S&#&UC!V!#&UC!SJ#&UC!S;#&UC!R<#&UC!Q@#&UC!S9#&UC!S>#&UC!SB#&UC!U3#&UC!W4#&UC!TF#&UC',
+  '!RQ<#&UC!PnE#&UC!mN#&UC!Q2#&UC!T%#&UC!T?#&UC!Q3#&UC!:#&UC!P2#&UC!P5#&UC!h/#&UC!U-#&UC!iE#&UC!UB#',
+  '&UC!jO#&UC!Z9#&UC!WB#&UC!e/#&UC!eO#&UC!cC#&UC!P7#&UC!P+#&UC!uN#&UC!SC#&UC!_<#&UC!RQ=#&UC!PV(#*UC',
+  '!P2&P8N#&UC!sF%&C!k6#&C!y*#&C!PSK#&C!k7#&C!y1#&C!y2#&C!k8#&C!y+#&C!k9#&C!y3#&C!y4#&C!y5#&C!y6#&C',
+  '!PSL#&C!PSM#&C!y/#&C!k:#&C!k;#&C!y,#&C!y0#&C!k<#&C!y-#&C!iJ#&C!iK#&C!y.#&C!k=#&C!k>#&C!k?#&C!k@#',
+  '&C!kA#&C!:#&C![1#&C!S)#&C!s!#&C!t)#&C!P5#&C!PSH#&C!c1#&C!P2#&C!UM#&C!PSI#&C!Y0#&C![7#&C!P+#&C!PS',
+  'J#&C!^.#&C!_D#&C!YK#&C!iG#&C!-#&C!P7#%CiL#&C!PS6#&C!PS7#&C!PSG#&C!Pe=#&C!Pe>#&C!PSN#&C!Pe?#&C!Pe',
+  'A#&C!PeC#&C!PS8#&C!PSO#&C!PeE#&C!PS9#&C!Pe##&C!PS:#&C!Pe%#&C!PS;#&C!PS<#&C!Pe(#&C!PS=#&C!Pe*#&C!',
+  'PS>#&C!Pe+#&C!PS?#&C!PS@#&C!PSA#&C!PSB#&C!PSC#&C!PSD#&C!PeG#&C!PeH#&C!PSE#&C!Pe3#&C!PSF#&C!Pe6#&',
+  'C!Pe7#&C!Pe8#&C!Pe9#&C!Pe:#&C!Pe;#&C!Pe<#&C!RQ>%(RAaIRQ?P%#(RAaI_+P%#(RAaIP.P%#(RAaIP3P%#(RAaIP=',
+  'P%#(RAaIPIP%#(RAaIXLP%#(RAaIPJP%#(RAaIZ:P%#(RAaIj)P%#(RAaIj:P%#(RAaIe7P%#(RAaIx)P%#(RAaI{/P%#(RA',
+  'aIc4P%#(RAaI_CP%#&UC!^1#&UC!g9#&UC!kC#&UC!bB#&UC!Y=#&UC!PY0#&UC!XE#&UC!Ph9#&UC!tI#&UC!RQ@#&UC!RQ',
+  'A#&UC!PiL#&UC!d,#&UC!RQB#&UC!RQC#&UC!RQD#&UC!h3#&UC!e,#&UC!PnF#&UC!RQE#(UCP/!TE#(UCP/!S;#(UCP/!S',
+  '>#(UCP/!SB#&UC!RQF#&UC!PU3#&UC!PnG#(UCP/!S9#&UC!RQG#&UC!PTM#&UC!Y0#&UC!f.#&/PDS;#&/PDRQH#&/PDRQI',
+  '#&/PDRQJ#&/PDPgC#&/PDRQK#&/PDRQL#&/PD|/#&/PDRQM#&/PDRQN#&/PDRQO#&/PDRR!#&/PDRR##&/PDRR%#&/PDRR&#',
+  '&/PDR<#&/PDSB#&/PDQ3#&/PDTE#&/PDP_;#&/PDSJ#&/PDPnH#&/PDPnI#&/PDRR(#&/PDRR)#&/PDw:#&/PDRR*#&/PDRR',
+  '+#&/PDRR,#&/PDRR-#&/PDRR.#&/PDRR/#&/PDRR0#&/PDRR1#&/PDRR2#&/PDW41(PF!%_B#(PF!%^J#(PF!%_A#(PF!%P?',
+  '#(PF!%[4#(PF!%R&#(PF!%Z;#(PF!%dE#(PF!%YE#(PF!%]I#(PF!%YJ#(PF!%R>#(PF!%b9#(PF!%_0#(PF!%b)#(PF!%]K',
+  '#&R)Ck6#&R)Ck7#&R)Ck8#&R)Ck9#&R)Ck:#&R)Ck;#&R)Ck<#&R)CiJ#&R)CiK#&R)Ck=#&R)Ck>#&R)Ck?#&R)Ck@#&R)C',
+  'kA#(R)Ck6:#(R)Ck7:#(R)Ck8:#(R)Ck9:#(R)Ck::#(R)Ck;:#(R)Ck<:#(R)CiJ:#(R)CiK:#(R)Ck=:#(R)Ck>:#(R)Ck',
+  '?:#(R)Ck@:#(R)CkA:#(R)CiKP+#(R)uOS8RR3#)R)uOS8P2dE%&R)T4P.#&R)T4P3#&R)T4P=#&R)T4PI#&R)T4Q%#&R)T4',
+  'QE#&R)T4R!#&R)T4QD#&R)T4R*#&R)T4U!#&R)T4]3#&R)T4gD#&R)T4dJ#&R)T4PY1#&R)T4PnJ#&R)T4c4#&R)T4c5#&R)',
+  'T4PY2#&R)T4PnK#&R)T4PnL#&R)T4l7#&R)T4PnM#&R)T4PnN#&R)T4PnO#&R)T4Po!#&R)T4RR4#&R)T4PY3#&R)T4Po##&',
+  'R)T4Po%#&R)T4Po&#&R)T4Po(#&R)T4Po)#&R)T4RR5#&R)T4b2#&R)T4Pn:#&R)T4Po*#&P*T4]+#&P*T4RR6#&P*T4PY4#',
+  '&P*T4PnD#*P*DU!V5P4P&#*P*DX>V5P4P&#*P*D]%V5P4P&#*P*D]LV5P4P&#*P*DZNV5P4P&#*P*DbCV5P4P&#*P*D[+V5P',
+  '4P&#*P*DcNV5P4P&#%PkN##(P*DX>P.#(P*DX>P3#(P*DX>P=#(P*DX>PI#(P*DX>Q%#(P*DX>QE#(P*DX>R!#(P*DX>QD#(',
+  'P*DX>R*#&P*D]%#(P*D]%P.#(P*D]%P3#(P*D]%P=#(P*D]%PI#(P*D]%Q%#&P*Ck6#&P*Ck7#&P*Ck8#&P*Ck9#&P*Ck:#&',
+  'P*Ck;#&P*Ck<#&P*CiJ#&P*CiK#&P*Ck=#&P*Ck>#&P*Ck?#&P*Ck@#&P*CkA#(P*Ck6:#(P*Ck7:#(P*Ck8:#(P*Ck9:#(P',
+  '*Ck::#(P*Ck;:#(P*Ck<:#(P*CiJ:#(P*CiK:#(P*Ck=:#(P*Ck>:#(P*Ck?:#(P*Ck@:#(P*CkA:#(P*uOS8RR7#(P*uOS8',
+  'RR8#(P*CiJP+#&uOPnA0#&P*T4P.#&P*T4P3#&P*T4P=#&P*T4PI#&P*T4Q%#&P*T4QE#&P*T4R!#&P*T4QD#&P*T4R*#&P*',
+  'T4U!#&P*T4]3#&P*T4gD#&P*T4dJ#&P*T4PY1#&P*T4PnJ#&P*T4c4#&P*T4c5#&P*T4PY2#&P*T4PnK#&P*T4PnL#&P*T4l',
+  '7#&P*T4PnM#&P*T4PnN#&P*T4PnO#&P*T4Po!#&P*T4RR9#&P*T4hH#&P*T4q!#&P*T4RR:#&P*T4RR;#&P*T4Pk.#&P*T4R',
+  'R<#&P*T4RR=#&P*T4b2#&P*T4RR>#&P*T4RR?#&P*T4R/#&P*T4VD#&P*T4R+#&P*T4O#&P*T4L#&P*T4RR@#&P*T4RRA#&P',
+  '*T4Po##&P*T4Po%#&P*T4Po&#&P*T4Po(#&P*T4Po)#&P*T4|0#(P*D]%QE#(P*D]%R!#(P*D]%QD#(P*D]%R*#&P*D]L#(P',
+  '*D]LP.#(P*D]LP3#(P*D]LP=#(P*D]LPI#(P*D]LQ%#(P*D]LQE#(P*D]LR!#(P*D]LQD#(P*D]LR*#&P*DZN#)RAV60P!RR',
+  'B#)RAV60P!RRC#)RAV60P!RRD#)RAV60P!RRE#)RAV60P!PhE#)RAV60P!RRF#)RAV60P!RRG#)RAV60P!RRH#)RAV60P!RR',
+  'I#)RAV60P!RRJ#)RAV60P!RRK#)RAV60P!RRL#%P&PnI#%P&RRM#%P&PY5#&RRNRRO##&P*PF:#&P*PFP7#&P*PFP+#&P*PF',
+  'P5#&P*PFP2#&P*PFQ*#&P*PF_##&P*PF_B#&P*PFa%#&P*PF^B#&P*PFS0#&P*PF^J#&P*PF_A#&P*PF_E#&P*PF]F#&P*PF',
+  'S+#&P*PFaC#&P*PF^D#&P*PFZ7#&P*PFP?#&P*PFS##&P*PFZL#&P*PF[4#&P*PFZM#&P*PFYC#&P*PFR&#&P*PFZ;#&P*PF',
+  'dE#&P*PFYE#&P*PF]I#&P*PFRK#&P*PF]##&P*PFYJ#&P*PF[*#&P*PF_?#&P*PFS)#&P*PFYK#&P*PF[7#&P*PFR>#&P*PF',
+  'b9#&P*PF_0#&P*PFb)#&P*PF]K#&P*PFUM#&P*PF_D#&P*PF^.#&P*PF_!#(P&v!l7RS!#%P&RS##%P&RS%#%P&RS&#%P&RS',
+  '(#%P&RS)#%P&RS*#%P&RS+#%P&RS,#%P&RS-#%P&RS.#%P&RS/#%P&RS0#%P&RS1#%P&RS2#%P&RS3#%P&RS4#%P&RS5#%P&',
+  'RS6#%P&RS7#%P&RS8#%P&RS9#%P&RS:#%P&RS;#%P&RS<#%P&RS=#%P&RS>#%P&RS?#%P&RS@#%P&RSA#%P&RSB#%P&RSC#%',
+  'P&RSD#%P&RSE#%P&RSF#%P&RSG#%P&RSH#%P&RSI#%P&RSJ#%P&RSK#%P&RSL#%P&RSM#%P&RSN#%P&RSO#%P&RT!#%P&RT#',
+  '#%P&RT%#%P&RT&#%P&RT(#%P&RT)#%P&RT*#%P&RT+#%P&RT,#%P&RT-#%P&RT.#%P&RT/#%P&Pj>#%P&RT0#%P&RT1#%P&R',
+  'T2#%P&RT3#%P&RT4#%P&RT5#%P&RT6#%P&PY6#%P&RT7#%P&RT8#%P&RT9#%P&RT:#%P&RT;#%P&RT<#%P&RT=#%P&RT>#%P',
+  '&RT?#%P&RT@#%P&RTA#%P&PY7#%P&RTB#%P&RTC#%P&RTD#%P&RTE#%P&RTF#%P&RTG#%P&RTH#%P&RTI#%P&RTJ#%P&RTK#',
+  '%P&RTL#%P&RTM#*RAV60P!^7T,#*RAV60P!^7P.#*RAV60P!^7P3#*RAV60P!^7P=#*RAV60P!^7PI#*RAV60P!^7Q%#*RAV',
+  '60P!^7QE#*RAV60P!^7R!#*RAV60P!^7QD#*RAV60P!^7R*#*RAV60P!^7U!#*RAV60P!^7f:#*RAV60P!^7d&#*RAV60P!^',
+  '7l!#*RAV60P!^7l##*RAV60P!^7g@#*RAV60P!^7h4#*RAV60P!^7l%#*RAV60P!^7j1#*RAV60P!^7l&#*RAV60P!^7X>#*',
+  'RAV60P!^7Po+#*RAV60P!^7PY8#*RAV60P!^7Po,#*RAV60P!^7Po-#%P&RTN#%P&S6#%P&UB#%P&QG#%P&PiM#%P&RTO#%P',
+  '&PY9#&P&PY9Q4#&P&PY9v##%P&uN#(P&v!l7RU!#(P&v!l7RU##(P&v!l7RU%#(P&v!l7RU&#%P&RU(#&P&R:RU)#%P&S##&',
+  'P&YJ:#%P&RK#%P&Q*#%P&RU*#%P&PY:#%P&RU+#%P&RU,#%P&RU-#%P&RU.#%P&RU/#&P&YJV!#&P&YJS9#%P&RU0#%P&Po.',
+  '#%P&PnH#%P&RU1#%P&RU2#%P&RU3#%P&RU4#&P&YJQ@#%P&RU5#%P&RU6#%P&RU7#%P&RU8#%P&RU9#&P&YJS&#%P&|1#%P&',
+  'PY;#%P&|2#&P&|1Q4#&P&PY;Q4#&P&S&Q4#&P&|2Q4#&P&|1v##&P&PY;v##&P&S&v##&P&|2v##(P&S&R4Q3#)P&S&R4Q3Q',
+  '4#%P&R:#%P&v%#%P&Pi.#%P&RU:#%P&z/#(P&z/R4Q3#)P&z/R4Q3Q4#%P&RU;#%P&RU<#&P&YJQ3#%P&RU=#%P&RU>#%P&P',
+  'T@#&P&YJSC#%P&t3#%P&RU?#&P&t3PY7#%P&RU@#%P&RUA#&P&YJU+#%P&PQ3#%P&PTM#&P&PQ3PY7#&P&S>zE#&P&S&zE#%',
+  'P&h3#%P&RUB#%P&Po/#%P&Po0#(P&T?R4Po.#%P&f)#%P&Pa.#%P&RUC#%P&R&#%P&|/#%P&VK#%P&z,#&P&|2)#%P&RUD#%',
+  'P&RUE#%P&RUF#%P&RUG#%P&RUH#&P&PY:%#%P&RUI#%P&RUJ#%P&RUK#%P&P_K#%P&RUL#%P&RUM#%P&RUN#%P&PTC#%P&RU',
+  'O#(P&SCR4S&#(P&:R4S&#*RAV60P![6P.#*RAV60P![6P3#*RAV60P![6P=#*RAV60P![6PI#*RAV60P![6Q%#*RAV60P![6',
+  'QE#*RAV60P![6R!#*RAV60P![6QD#*RAV60P![6R*#*RAV60P![6U!#*RAV60P![6f:#*RAV60P![6d&#*RAV60P![6l!#*R',
+  'AV60P![6l##*RAV60P![6g@#*RAV60P![6h4#*RAV60P![6l%#*RAV60P![6j1#*RAV60P![6l&#*RAV60P![6X>#*RAV60P',
+  '![6Po+#*RAV60P![6PY8#*RAV60P![6Po,#*RAV60P![6Po-#*RAV60P![6|3#*RAV60P![6RV!#*RAV60P![6RV##*RAV60',
+  'P![6RV%#*RAV60P![6RV&#*RAV60P![6]%#*RAV60P![6RV(#%P&j>RbI)VNP!Y4RV){/#)VNP!Y4RV*c4#*VNP!RV+]GY4R',
+  'V,#(VNP!RV-RV.#&VNP!PQ2#&VNP!RV/#(VNP!Y4RV0#(VNP!q9|4#(VNP!%Po1#&VNP!RV1#&VNP!PVN#&VNP!RV2#&VNP!',
+  'RV3#(VNP!p,Po2#&VNP!RV4#&VNP!RV5#&VNP!Po3#*VNP!PY(V5Y4RV6#&VNP!RV7#&VNP!RV8#(VNP!Po4d+#&VNP!PY<#',
+  '(VNP!RV9RV:#&VNP!o.#&VNP!RV;#(VNP!p,Po1#(VNP!X@pN#(VNP!p,Po5#)VNP!Y4RV<dJ#)VNP!Y4RV=gD#&VNP!RV>#',
+  '&VNP!RV?#&VNP!RV@#(VNP!p,pL#&VNP!RVA#*VNP!Po6PEY4QK#(VNP!Y4Po7#&VNP!PVK#&VNP!RVB#&VNP!RVC#&VNP!P',
+  'o8#&VNP!PY=#&VNP!RVD#)VNP!RVEP?Po9#(VNP!PY>|4#(VNP!RVFPjA#&VNP!RVG#(VNP!Y4RVH#&VNP!RVI#(VNP!Y4Pn',
+  '?#)VNP!Y4RVJPVO#*VNP!Y4Po:RVKl)#&VNP!RVL#)VNP!Y4RVMRVN#&VNP!RVO#(VNP!Y4RW!#)VNP!Y4RW#gE#)VNP!Y4R',
+  'W%Pk?#&VNP!RW&#&VNP!RW(#(VNP!Po;RW)#(VNP!%Po5#(VNP!RW*PY?#(VNP!RW+PY?Yv)&-(PR<#&-(Po<#&-(P7#&-(R',
+  'W,#&-(RW-#&-(RW.#&-(b<#&-(RW/#&-(]G#&-(Po=#&-(:#&-(Pc+#&-(RW0#&-(Po>#&-(RW1#&-(wI#&-(|5#&-(P2#&-',
+  '(PY@#&-(|6#&-(P5#(-(i!P%!&-(g8#&-(PbO#&-(RW2#&-(aD#&-(RW3#&-(RW4#&-(RW5#&-(RW6#&-(RW7#&-(PYA#&-(',
+  'RW8#&-(T.#&-(RW9#&-(RW:#&-(RW;#&-(RW<#&-(RW=#&-(Q5#&-(f0#&-(RW>#&-(RW?#&-(cB#&-(RW@#&-(hB#&-(RWA',
+  '#&-(^1#&-(RWB#&-(RWC#&-(gJ#&-(RWD#&-(RWE#&-(eN#&-(RWF#&-(RWG#&-(RWH#&-(Po?#&-(RWI#&-(X.#&-(Po@#&',
+  '-(RWJ#&-(PoA#&-(RWK#&-(RWL#&-(RWM#&-(R:#&-(b3#&-(RWN#&-(RWO#&-(RX!#&-(|7#&-(RX##&-(b&#&-(PV,#&-(',
+  'PYB#&-(RX%#&-(e3#&-(PoB#&-(RX&#&-(RX(#&-(PoC#&-(RX)#&-(RX*#&-(RX+#&-(RX,#&-(RX-#&-(RX.#&-(RX/#&-',
+  '(PoD#&-(RX0#&-(RX1#&-(RX2#&-(RX3#&-(RX4#&-(RX5#&-(RX6#&-(m=#&-(RX7#&-(RX8#&-(RX9#&-(RX:#&-(RX;#&',
+  '-(RX<#&-(PoE#&-(RX=#&-(RX>#&-(sN#&-(RX?#&-(PoF#&-(RX@#&-(PoG#&-(RXA#&-(RXB#&-(RXC#&-(RXD#&-(RXE#',
+  '&-(RXF#&-(RXG#&-(RXH#&-(RXI#&-(RXJ#&-(RXK#&-(RXL#&-(PoH#&-(RXM#&-(RXN#&-(RXO#&-(RY!#&-(RY##&-(RY',
+  '%#&-(RY&#&-(RY(#&-(RY)#&-(RY*#&-(RY+#&-(RY,#&-(RY-#&-(RY.#&-(RY/#&-(RY0#&-(RY1#&-(RY2#&-(RY3#&-(',
+  'RY4#&-(RY5#&-(RY6#&-(RY7#&-(RY8#&-(RY9#&-(RY:#&-(RY;#&-(RY<#&-(RY=#&-(RY>#&-(RY?#&-(RY@#&-(RYA#&',
+  '-(RYB#&-(RYC#&-(RYD#&-(RYE#&-(PoI#&-(RYF#&-(RYG#&-(RYH#&-(RYI#&-(RYJ#&-(RYK#&-(RYL#&-(RYM#&-(RYN',
+  '#&-(RYO#&-(RZ!#&-(RZ##&-(PYC#&-(RZ%#&-(]##&-(RZ&#&-(RZ(#&-(RZ)#&-(RZ*#&-(RZ+#&-(RZ,#&-(RK#&-(u9#',
+  '&-(RZ-#&-(RZ.#&-(RZ/#&-(RZ0#&-(RZ1#&-(RZ2#&-(_?#&-(PoJ#&-(RZ3#&-([*#&-(RZ4#&-(RZ5#&-(YJ#&-(RZ6#&',
+  '-(RZ7#&-(RZ8#&-(RZ9#&-(RZ:#&-(PoK#&-(RZ;#&-(RZ<#&-(RZ=#&-(g4#&-(RZ>#&-(RZ?#&-(PYD#&-(YF#&-(RZ@#&',
+  '-(PoL#&-(e.#&-(RZA#&-(RZB#&-(RZC#&-(j!#&-(RZD#&-(RZE#&-(Pn0#&-(RZF#&-(RZG#&-(RZH#&-(RZI#&-(RZJ#&',
+  '-(RZK#&-(iN#&-(RZL#&-(UN#&-(RZM#&-(RZN#&-(RZO#&-(R[!#&-(R[##&-(WJ#&-(R[%#&-(R[&#&-(R[(#&-(h0#&-(',
+  'R[)#&-(R[*#&-(PoM#&-(R[+#&-(R[,#&-(mG#&-(R[-#&-(R[.#&-(PoN#&-(R[/#&-(R[0#&-(PYE#&-(R[1#&-(R[2#&-',
+  '(R[3#&-(R[4#&-(R[5#&-(aF#&-(R[6#&-(R[7#&-(l*#&-(R[8#&-(PoO#&-(R[9#&-(S6#&-(PUG#&-(R[:#&-(R[;#&-(',
+  'P8#&-(R[<#&-(a0#&-(R[=#&-(R[>#&-(_:#&-(R[?#&-(R[@#&-(R[A#&-(aE#&-(R[B#&-(R[C#&-(R[D#&-(Pc!#&-(R[',
+  'E#&-(aC#&-(a*#&-(R[F#&-(pE#&-(R[G#&-(Pp!#&-(R[H#&-(S+#&-(R[I#&-(Pp##&-(R[J#&-(R[K#&-(R[L#&-(Pp%#',
+  '&-(R[M#&-(P?#&-(XL#&-(R[N#&-(Z7#&-(R[O#&-(R]!#&-(R]##&-(^D#&-(Pp&#&-(R]%#&-(q:#&-(R]&#&-(R](#&-(',
+  'Pf,#&-(R])#&-(R]*#&-(R]+#&-(R],#&-(R]-#&-(R].#&-(X9#&-(R]/#&-(R]0#&-(R]1#&-(R]2#&-(R]3#&-(R]4#&-',
+  '(PT7#&-(R]5#&-(R]6#&-(Pf.#&-(R]7#&-(R]8#&-(R]9#&-(Pf+#&-(R]:#&-(R];#&-(Pp(#&-(R]<#&-(R]=#&-(PYF#',
+  '&-(R]>#&-(R]?#&-(R]@#&-(R]A#&-(R]B#&-(pA#&-(PYG#&-(R]C#&-(R]D#&-(PYH#&-(R]E#&-(R]F#&-(|8#&-(R]G#',
+  '&-(R]H#&-(R]I#&-(|9#&-(R]J#&-(R]K#&-(R]L#&-(R]M#&-(R]N#&-(R]O#&-(R^!#&-(R^##&-(R^%#&-(R^&#&-(R^(',
+  '#&-(R^)#&-(R^*#&-(PT>#&-(R^+#&-(R^,#&-(R^-#&-(R^.#&-(R^/#&-(R^0#&-(R^1#&-(R^2#&-(R^3#&-(R^4#&-(R',
+  '^5#&-(R^6#&-(ZL#&-(R^7#&-(R^8#&-(R^9#&-(R^:#&-(R^;#&-(S##&-(R^<#&-(R^=#&-(R^>#&-(R^?#&-(VC#&-(R^',
+  '@#&-(YC#&-(R^A#&-(R^B#&-(ZM#&-(R^C#&-(Pp)#&-(R^D#&-([4#&-(R^E#&-(R^F#&-(R^G#&-(R^H#&-(R^I#&-(PYI',
+  '#&-(R^J#&-(R^K#&-(R^L#&-(R^M#&-(R^N#&-(R^O#&-(PiH#&-(R_!#&-(R_##&-(R_%#&-(R_&#&-(R_(#&-(R_)#&-(R',
+  '_*#&-(R_+#&-(R_,#&-(R_-#&-(R_.#&-(R_/#&-(R_0#&-(R_1#&-(R_2#&-(R_3#&-(R_4#&-(R_5#&-(R_6#&-(R_7#&-',
+  '(R_8#&-(R_9#&-(R_:#&-(R_;#&-(VG#&-(|:#&-(R_<#&-(R_=#&-(Pp*#&-(R_>#&-(R_?#&-(R_@#&-(RO#&-(PYJ#&-(',
+  'R_A#&-(R_B#&-(R_C#&-(R_D#&-(R_E#&-(R_F#&-(a##&-(R_G#&-(R_H#&-(X=#&-(R_I#&-(R_J#&-(R_K#&-(^0#&-(R',
+  '_L#&-(R_M#&-(R_N#&-(R_O#&-(Ra!#&-(PU8#&-(Ra##&-(Ra%#&-(Pp+#&-(Ra&#&-(Ra(#&-(^C#&-(Ra)#&-(Ra*#&-(',
+  'Ra+#&-(Ra,#&-(Ra-#&-(Ra.#&-(Ra/#&-(S=#&-(q;#&-(Ra0#&-(Ra1#&-(Ra2#&-(Ra3#&-(Pp,#&-(Ra4#&-(dA#&-(R',
+  'a5#&-(Ra6#&-(Ra7#&-(h=#&-(Pp-#&-(Ra8#&-(Ra9#&-(bB#&-(Ra:#&-(Ra;#&-(|;#&-(Pp.#&-(Ra<#&-(_##&-(Pj=',
+  '#&-(Ra=#&-(Ra>#&-(Ra?#&-(Ra@#&-(RaA#&-(Q*#&-(Pp/#&-(RaB#&-(RaC#&-(PYK#&-(RaD#&-(RaE#&-(^B#&-(RaF',
+  '#&-(n6#&-(RaG#&-(a%#&-(RaH#&-(|<#&-(RaI#&-(_B#&-(RaJ#&-(RaK#&-(aJ#&-(RaL#&-(RaM#&-(Pf6#&-(RaN#&-',
+  '(RaO#&-(Rb!#&-(Rb##&-(Rb%#&-(oK#&-(Rb&#&-(Rb(#&-(Rb)#&-(Pp0#&-(Rb*#&-(Rb+#&-(Rb,#&-(Pf7#&-(Pp1#&',
+  '-(Rb-#&-(Rb.#&-(PT8#&-(Rb/#&-(Rb0#&-(Rb1#&-(Pf5#&-(Rb2#&-(Rb3#&-(Rb4#&-(Rb5#&-(Rb6#&-(Rb7#&-(Rb8',
+  '#&-(Rb9#&-(Rb:#&-(Rb;#&-(Rb<#&-(Rb=#&-(Rb>#&-(Rb?#&-(c/#&-(Rb@#&-(RbA#&-(RbB#&-(RbC#&-(RbD#&-(Rb',
+  'E#&-(RbF#&-(RbG#&-(RbH#&-(RbI#&-(Pp2#&-(RbJ#&-(RbK#&-(RbL#&-(RbM#&-(RbN#&-(RbO#&-(Rc!#&-(Rc##&-(',
+  'Rc%#&-(Rc&#&-(Rc(#&-(Rc)#&-(Rc*#&-(Pp3#&-(Rc+#&-(Rc,#&-(Rc-#&-(Rc.#&-(Pp4#&-(Rc/#&-(Rc0#&-(Rc1#&',
+  '-(Rc2#&-(Rc3#&-(Rc4#&-(Rc5#&-(Rc6#&-(UA#&-(Rc7#&-(Rc8#&-(Rc9#&-(Rc:#&-(Rc;#&-(Rc<#&-(mA#&-(Pp5#&',
+  '-(Rc=#&-(Pp6#&-(Rc>#&-(Pp7#&-(Rc?#&-(t(#&-(n2#&-(Rc@#&-(R&#&-(RcA#&-(RcB#&-(RcC#&-(RcD#&-(RcE#&-',
+  '(u4#&-(RcF#&-(]I#&-(P_<#&-(RcG#&-(YE#&-(RcH#&-(RcI#&-(Pp8#&-(UM#&-(Pp9#&-(RcJ#&-(Pp:#&-(RcK#&-(R',
+  'cL#&-(_!#&-(RcM#&-(RcN#&-(^.#&-(RcO#&-(Rd!#&-(Rd##&-(g9#&-(Rd%#&-(Rd&#&-(Rd(#&-(Rd)#&-(Rd*#&-(Rd',
+  '+#&-(X6#&-(Rd,#&-(Rd-#&-(Rd.#&-(Rd/#&-(Pp;#&-(Rd0#&-(f-#&-(Rd1#&-(Rd2#&-(_;#&-(Rd3#&-(Rd4#&-(Rd5',
+  '#&-(f3#&-(Pp<#&-(Rd6#&-(Pp=#&-(Rd7#&-(Rd8#&-(PnG#&-(Rd9#&-(Rd:#&-(Rd;#&-(Rd<#&-(Rd=#&-(y>#&-(Pp>',
+  '#&-(Rd>#&-(Rd?#&-(Rd@#&-(RdA#&-(eC#&-(RdB#&-(UL#&-(zL#&-(RdC#&-(RdD#&-(Pp?#&-(RdE#&-(RdF#&-(f)#&',
+  '-(RdG#&-(RdH#&-(iO#&-(RdI#&-(PYL#&-(RdJ#&-(PT+#&-(u+#&-(RdK#&-(RdL#&-(Pp@#&-(RdM#&-(PpA#&-(PpB#&',
+  '-(RdN#&-(RdO#&-(Re!#&-(Re##&-(Pm@#&-(Re%#&-(PpC#&-(Re&#&-(Re(#&-(Re)#&-(Re*#&-(Re+#&-({K#&-(Re,#',
+  '&-(Re-#&-(PmB#&-(Re.#&-(Re/#&-(PmA#&-(Re0#&-(Re1#&-(Pm?#&-(Re2#&-(Re3#&-(Re4#&-(Re5#&-(Re6#&-(Re',
+  '7#&-(Re8#&-(Re9#&-(Re:#&-(Re;#&-(Re<#&-(Re=#&-(Re>#&-(Re?#&-(Re@#&-(ReA#&-(ReB#&-(ReC#&-(PYM#&-(',
+  'ReD#&-(ReE#&-(ReF#&-(ReG#&-(ReH#&-(ReI#&-(ReJ#&-(ReK#&-(ReL#&-(PpD#&-(ReM#&-(ReN#&-(ReO#&-(Rf!#&',
+  '-(Rf##&-(Rf%#&-(Rf&#&-(Rf(#&-(Rf)#&-(QE#&-(^J#&-(Rf*#&-(Rf+#&-(Rf,#&-(Rf-#&-(PUJ#&-(Rf.#&-(S0#&-',
+  '(PpE#&-(Rf/#&-(Rf0#&-(Rf1#&-(PYN#&-(Rf2#&-(]F#&-(Rf3#&-(Rf4#&-(_E#&-(Rf5#&-(Rf6#&-(Rf7#&-(_A#&-(',
+  'Rf8#&-(Rf9#&-(|=#&-(Rf:#&-(Rf;#&-(Rf<#&-(Rf=#&-(Rf>#&-(Rf?#&-(Rf@#&-(RfA#&-(PX5#&-(RfB#&-(RfC#&-',
+  '(RfD#&-(RfE#&-(RfF#&-(RfG#&-(YD#&-(RfH#&-(RfI#&-(RfJ#&-(PU7#&-(RfK#&-(RfL#&-(Pm>#&-(RfM#&-(RfN#&',
+  '-(RfO#&-(PX4#&-(Rg!#&-(Rg##&-(Rg%#&-(Rg&#&-(Rg(#&-(Rg)#&-(Rg*#&-(Rg+#&-(Rg,#&-(_>#&-(Rg-#&-(Rg.#',
+  '&-(Rg/#&-(Rg0#&-(Rg1#&-(Rg2#&-(PT6#&-(Rg3#&-(Rg4#&-(Rg5#&-(c%#&-(Rg6#&-(Rg7#&-(Rg8#&-(PT4#&-(Rg9',
+  '#&-(Rg:#&-(Rg;#&-(Rg<#&-(Rg=#&-(Rg>#&-(Rg?#&-(Rg@#&-(RgA#&-(PpF#&-(RgB#&-(VB#&-(RgC#&-(RgD#&-(Rg',
+  'E#&-(RgF#&-(RgG#&-(RgH#&-(RgI#&-(g5#&-(RgJ#&-(RgK#&-(RgL#&-(^M#&-(RgM#&-(RgN#&-(yF#&-(RgO#&-(Rh!',
+  '#&-(Rh##&-(Rh%#&-(Rh&#&-(Rh(#&-(Rh)#&-(Rh*#&-(Rh+#&-(Rh,#&-(a/#&-(Rh-#&-(Rh.#&-(Rh/#&-(Rh0#&-(Pp',
+  'G#&-(Rh1#&-(Rh2#&-(Rh3#&-(PpH#&-(Rh4#&-(Rh5#&-(Rh6#&-(Rh7#&-(Rh8#&-(Rh9#&-(Rh:#&-(Rh;#&-(Rh<#&-(',
+  'Rh=#&-(Rh>#&-(Rh?#&-(Rh@#&-(RhA#&-(RhB#&-(PUH#&-(RhC#&-(RhD#&-(RhE#&-(RhF#&-(RhG#&-(RhH#&-(RhI#&',
+  '-(RhJ#&-(RhK#&-(RhL#&-(RhM#&-(RhN#&-(RhO#&-(Ri!#&-(Ri##&-(Ri%#&-(Ri&#&-(Ri(#&-(Ri)#&-(Ri*#&-(PpI',
+  '#&-(Ri+#&-(UF#&-(Ri,#&-(Ri-#&-(Ri.#&-(Ri/#&-(Ri0#&-(Ri1#&-(g*#&-(PpJ#&-(PpK#&-(Ri2#&-(Y&#&-(Ri3#',
+  '&-(Ri4#&-(Ri5#&-(cL#&-(Ri6#&-(Ri7#&-(PpL#&-(Ri8#&-(Ri9#&-(PQ6#&-(Ri:#&-(Ri;#&-(Ri<#&-(|-#&-(Ri=#',
+  '&-(R>#&-(PXB#&-(Ri>#&-(Ri?#&-(Ri@#&-(RiA#&-(RiB#&-(]K#&-(RiC#&-(RiD#&-(b)#&-(RiE#&-(RiF#&-(RiG#&',
+  '-(_0#&-(RiH#&-(RiI#&-(RiJ#&-(RiK#&-(RiL#&-(Ph>#&-(RiM#&-(RiN#&-(RiO#&-(Rj!#&-(Rj##&-(kC#&-(Rj%#&',
+  '-(Rj&#&-(Rj(#&-(Rj)#&-(Rj*#&-(Rj+#&-(Rj,#&-(Rj-#&-(Rj.#&-(kM#&-(Rj/#&-(g:#&-(Rj0#&-(Rj1#&-(Rj2#&',
+  '-(mI#&-(Rj3#&-(Rj4#&-(Rj5#&-(Rj6#&-(Rj7#&-(Rj8#&-(Rj9#&-(Rj:#&-(Rj;#&-(Rj<#&-(Rj=#&-(t-#&-(Rj>#&',
+  '-(Rj?#&-(Rj@#&-(RjA#&-(RjB#&-(RjC#&-(RjD#&-(PTA#&-(RjE#&-(PpM#&-(RjF#&-(y=#&-(RjG#&-(RjH#&-(RjI#',
+  '&-(t,#&-(RjJ#&-(RjK#&-(RjL#&-(RjM#&-(RjN#&-(RjO#&-(Rk!#&-(Rk##&-(Rk%#&-(Rk&#&-(Rk(#&-(Ph3#&-(Rk)',
+  '#&-(Rk*#&-(Rk+#&-(PpN#&-(Rk,#&-(Rk-#&-(Rk.#&-(Rk/#&-(Rk0#&-(Rk1#&-(Ph2#&-(Rk2#&-(PpO#&-(Rk3#&-(P',
+  'h1#&-(Rk4#&-(Rk5#&-(Rk6#&-(Rk7#&-(Rk8#&-(Pq!#&-(Rk9#&-(Rk:#&-(Rk;#&-(q<#&-(Rk<#&-(Rk=#&-(Rk>#&-(',
+  'Rk?#&-(Rk@#&-(RkA#&-(RkB#&-(RkC#&-(RkD#&-(Pq##&-(RkE#&-(RkF#&-(PYO#&-(RkG#&-(RkH#&-(RkI#&-(RkJ#&',
+  '-(RkK#&-(RkL#&-(RkM#&-(RkN#&-(RkO#&-(Pq%#&-(Rl!#&-(dB#&-(Pq&#&-(Rl##&-(Rl%#&-(Rl&#&-(Rl(#&-(Rl)#',
+  '&-(Rl*#&-(Rl+#&-(Rl,#&-(Rl-#&-(iD#&-(Pq(#&-(Rl.#&-(Rl/#&-(PT/#&-(Rl0#&-(Rl1#&-(Rl2#&-(cA#&-(Rl3#',
+  '&-(Rl4#&-(Rl5#&-(Rl6#&-(Rl7#&-(Rl8#&-(Rl9#&-(Rl:#&-(Rl;#&-(Pf%#&-(Rl<#&-(Rl=#&-(Rl>#&-(Rl?#&-(Rl',
+  '@#&-(RlA#&-(RlB#&-(PZ!#&-(RlC#&-(-#&-(RlD#&-(RlE#&-(RlF#&-(Pq)#&-(RlG#&-(RlH#&-(RlI#&-(RlJ#&-(Pq',
+  '*#&-(rN#&-(RlK#&-([7#&-(RlL#&-(x1#&-(RlM#&-(YK#&-(RlN#&-(RlO#&-(Rm!#&-(Rm##&-(Rm%#&-(PS,#&-(Rm&#',
+  '&-(Rm(#&-(Rm)(&-P-PpM#&-P-VG#&-P-Pp.#&-P-Pq&#&-P-PpB#&-P-PX5#&-P-Pp1#&-P-Pp-#&-P-]##&-P-Pp2#&-P-',
+  'Pp+#&-P-PoF#&-P-PoJ#&-P-[7#&-P-PYB#&-P-Pp3#&-P-Pp!#&-P-S=#&-P-Pp<#&-P-Pp@#&-P-Pp(#&-P-gJ#&-P-Pp0',
+  '#&-P-Pq(#&-P-^D#&-P-PY@#&-P-PpO#&-P-Pp;#&-P-PoC#&-P-PoI#&-P-PZ!#&-P-PoN#&-P-PQ6#&-P-PoM#&-P-X6#&',
+  '-P-g:#&-P-PpD#&-P-Pq!#&-P-Pp,#&-P-PpN#&-P-_!#&-P-aE#&-P-PpL#&-P-Pp*#&-P-PpA#&-P-Pp?#&-P-Pp>#&-P-',
+  'Pp4#&-P-PpI#&-P-Pp=#&-P-PpJ#&-P-^M#&-P-PpC#&-P-PoH#&-P-a%.&XA!T.#&XA!R:#&XA!WI#&XA!S6#&XA!S+#&XA',
+  '!W0#&XA!S=#&XA!Q*#&XA!VF#&XA!UG#&XA!UL#&XA!VB#&XA!e-#&XA!]!#&XA!cK#&XA!RK#&XA!S##&XA!RO#&XA!S0#&',
+  'XA!_>#&XA!X6#&XA!UA#&XA!R&#&XA!cM#&XA!iM#&XA!YF#&XA!UM#&XA!UF#&XA!S)#&XA!X;#&XA!:#&XA![1#&XA!P5#',
+  '&XA!iG#&XA!P7#&XA!P2#&XA!P+#&XA!_/#&XA!PZ##&XA!Y0#)XA!R,p9aC#)XA!R,S#b&#)XA!R,p9PhC#)XA!R,p9f0#)',
+  'XA!R,p9S##)XA!R,p9Rm*#&XAS<W.#(XAS<X,UE#&P9(Y=#&P9(Rm+#&P9(y7#&P9(yD#&P9(Rm,#&P9(j##&P9(Rm-#&P9(',
+  'p3#&P9(|>#&P9(Pq+#&P9(Rm.#&P9(Pq,#&P9(mL#&P9(kB#&P9(p4#&P9(t2#&P9(Rm/#&P9(Rm0#&P9(y8#&P9(t+#&P9(',
+  'p7#&P9(PZ%#&P9(mF#&P9(y;#&P9(t/#&P9(yE#&P9(Pf##&P9(p8#&P9(v&#&P9(p6#&P9(PT1#&P9(Pq-#&P9(t1#&P9(P',
+  'T%#&P9(PT.#&P9(Pf(#&P9(P7#&P9(VK#&P9(Z;#&P9(Pq.#&P9(_D#&P9(Rm1#&P9(X.#&P9(Rm2#&P9(aD#&P9(PZ&#&P9',
+  '(Pq/#&P9(Rm3#&P9(Pq0#&P9(g4#&P9(iN#&P9(aC#&P9(mJ#&P9(Rm4#&P9(Rm5#&P9(VG#&P9(b9#&P9(aF#&P9(PYF#&P',
+  '9(^J#&P9(p2#&P9(g9#&P9(PT5#&P9(y>#&P9(kC#&P9(q<#&P9(-#&P9(_##&P9(Pq1#&P9(^C#&P9(]##&P9(ZL#&P9(dB',
+  '#&P9(:#&P9(Z9#&P9(Rm6#&P9(R&#&P9(Pq2#&P9(UM#&P9(Rm7#&P9(R:#&P9(Y3#&P9(T.#&P9(tH#&P9(v%#&P9(Rm8#&',
+  'P9(Pq3#&P9(PR7#&P9(YF#&P9(WJ#&P9(S+#&P9(W0#&P9(XF#&P9(Rm9#&P9(RO#&P9(R>#&P9(S6#&P9(pA#&P9(S0#&P9',
+  '(UF#&P9(X6#&P9(_>#&P9(UL#&P9(UG#&P9(Pq4#&P9(S)#&P9(Q*#&P9(p)#&P9(v(#&P9(S=#&P9(RK#&P9(S##&P9(VE#',
+  '&P9(XE#&P9(Rm:#&P9(t<#&P9(t4#&P9(Rm;#&P9(t6#&P9(Rm<#&P9(Pq5#&P9(PZ(#&P9(Pq6#&P9(Rm=#&P9(Pq7#&P9(',
+  'PU,#&P9(Pq8#&P9(p:#&P9(PU/#&P9(Rm>#&P9(Rm?#&P9(p;#&P9(PgO#&P9(Pq9#&P9(Pq:#&P9(t;#&P9(PU*#&P9(Pq;',
+  '#&P9(Rm@#&P9(PTN#&P9(Pq<#&P9(Pq=#&P9(z%#&P9(t9#&P9(PZ)#&P9(RmA#&P9(PU##&P9(PU&#&P9(RmB#&P9(P+#&P',
+  '9(iI#&P9(dE#&P9(Pq>#&P9(g8#&P9(RmC#&P9(e3#&P9(RmD#&P9(^1#&P9(PZ*#&P9(Pq?#&P9(RmE#&P9(PZ+#&P9(j!#',
+  '&P9(mG#&P9(^D#&P9(PT9#&P9(RmF#&P9(RmG#&P9(^0#&P9(_0#&P9(aE#&P9(|9#&P9(_A#&P9(cL#&P9(f3#&P9(PT4#&',
+  'P9(PT+#&P9(mI#&P9(PYO#&P9(YK#&P9(_B#&P9(PZ,#&P9(bB#&P9(YJ#&P9([4#&P9(PT/#&P9(P2#&P9(V5#&P9(Pq@#&',
+  'P9(]I#&P9(PY6#&P9(_!#&P9(PV1#&P9(b&#&P9(PqA#&P9(f0#&P9(PZ-#&P9(|?#&P9(RmH#&P9(PqB#&P9(RmI#&P9(e.',
+  '#&P9(h0#&P9(P?#&P9(a!#&P9(PqC#&P9(RmJ#&P9(a##&P9(]K#&P9(a0#&P9(PYH#&P9(]F#&P9(g*#&P9(f-#&P9(PT6#',
+  '&P9(f)#&P9(g:#&P9(Pq##&P9([7#&P9(^B#&P9(PZ.#&P9(dA#&P9(_?#&P9(YC#&P9(iD#&P9(P5#&P9(WB#&P9(PqD#&P',
+  '9(YE#&P9(PqE#&P9(^.#&P9(RmK#&P9(XK#&P9(|@#&P9(cB#&P9(|A#&P9(PqF#&P9(RmL#&P9(RmM#&P9(|B#&P9(RmN#&',
+  'P9(f,#&P9(b=#&P9(Z7#&P9(Y4#&P9(v)#&P9(RmO#&P9(X=#&P9(b)#&P9(_:#&P9(|8#&P9(_E#&P9(Y&#&P9(_;#&P9(c',
+  '%#&P9(iO#&P9(f(#&P9(k+#&P9(c1#&P9(a%#&P9(PZ/#&P9(PZ0#&P9(h=#&P9(Rn!#&P9([*#&P9(ZM#&P9(PT0#&P9(_<',
+  '#&P9(|C#%P9W.#&P9X,UE#&P9]+P%#(P9(v*YF#(P9(v*Q*#(P9(v*t;#&P90Rn##&P90Rn%#&P90Rn&#&P90Pg6#&P90Rn(',
+  '#&P90yJ#&P90mH#&P90z9#&P90Rn)#&P90Rn*#&P90Rn+#&P90Rn,#&P90Rn-#&P94T,#&P94P.#&P94P3#&P94P=#&P94PI',
+  '#&P94Q%#&P94QE#&P94R!#&P94QD#&P94R*#(P9(v*RK#(P9(v*a09(P#)!PqG#(P#%!PqG#(P#)!{D#(P#%!{D#)P#)!TCk',
+  '*#)P#%!TCk*#(P#)!WN#(P#%!WN#(P#)!PX8#(P#%!PX8#)P#)!PX9o@#)P#%!PX9o@#)P#)!PqHUK#)P#%!PqHUK#)P#)!Y',
+  '@v+#)P#%!Y@v+#+P#)!g,&fEv+#+P#%!g,&fEv+#)P#)!c&i>#)P#%!c&i>#)P#)!TCYK#)P#%!TCYK#)P#)!c&:#)P#%!c&',
+  ':#*P#)!Y1V,[A#*P#%!Y1V,[A#)P#)!PqI[A#)P#%!PqI[A#+P#)!c&Y1V,[A#+P#%!c&Y1V,[A#(P#)!p0#(P#%!p0#)P#)',
+  '!TCd8#)P#%!TCd8#)P#)!d6_:#)P#%!d6_:#)P#)!d6_-#)P#%!d6_-#)P#)!d6b%#)P#%!d6b%#)P#)!|DP2#)P#%!|DP2#',
+  ')P#)!PqJP2#)P#%!PqJP2#*P#)!P0|DP2#*P#%!P0|DP2#(P#!Rn.P2#&FP#Rn/#)FP#U!m5##)FP#R-m5##)FP#RNm5##%R',
+  'n0Y##)FP#!PQ@b<#(FP#!P7#(FP#!-#(FP#!P+#)FP#!h-##(FP#!g,#)FP#!d6##(FP#!UK#&FP#j(#&FP#PqK#%P#j(#%P',
+  '#PqK#(P#)!PZ1#(P#%!PZ1#(P#)!PqL#(P#%!PqL#(P#)!PqM#(P#%!PqM#(P#)!PX6#(P#%!PX6#(P#)!PqN#(P#%!PqN#+',
+  'P#)!Z7&PJQ!#+P#%!Z7&PJQ!#(P#)!t7#(P#%!t7#(P#)!PqO#(P#%!PqO#(P#)!Pr!#(P#%!Pr!#(P#)!Pr##(P#%!Pr##(',
+  'P#)!PU4#(P#%!PU4#(P#)!mM#(P#%!mM#)P#)!P0P2#)P#%!P0P2#)P#)!eAP2#)P#%!eAP2#)P:!P#h-##)P:!P#d6##(FP',
+  '#!h,#)FP#!c&P5#&=!:#&=!Q*#&=!P+#&=!_B#&=!Y=#&=!t+#&=!PZ2#&=!P2#&=!dB#&=!P7#&=!RO#&=!R:#&=!z&#&=!',
+  'Pr%#&=!Pr&#&=!PZ3#&=!mH#&=!|E#&=!PZ4#&=!S&#&=!|F#&=!YJ#&=!z##&=!^J#&=!Pr(#&=!PZ5#&=!{L#&=!n6#&=!',
+  'Pr)#&=![4#&=!Pr*#&=!|G#&=!cL#&=!PZ6#&=!S)#&=!PZ7#&=!Pr+#&=!PZ8#&=!v&#&=!PZ9#&=!Pr,#&=!PZ:#&=!j##',
+  '&=!mL#&=!_0#&=!^0#&=!]##&=!ZL#&=!PZ;#&=!p.#&=!oB#&=!Pr-#&=!v(#&=!UA#&=!g*#&=!PZ<#&=!j!#&=!PZ=#&=',
+  '!UM#&=!S##&=!VG#&=!X.#&=!|H#&=!^B#&=!Pr.#&=!|I#&=!g-#&=!RK#&=!aC#&=!_##&=!_?#&=!q=#&=!m6#&=!v%#&',
+  '=!U!#&=!Pr/#&=!Pr0#&=!Rn1#&=!Rn2#&=!Rn3#(=FP%Rn4#(=FP%Rn5#%=Pr1#&=X,UE#%=[/#%=W.#%=eL#&=]+P%-*P:',
+  '!i#R,i=PV!#*P:!i#R,f%PV!#*P:!i#R,i=Pr2#*P:!i#R,f%Pr2#*P:!i#R,i=t,#*P:!i#R,f%t,#*P:!i#R,i=_0#*P:!',
+  'i#R,f%_0#*P:!wDY;R,QG#*P:!R/Y;R,QG#*P:!m1Y;R,QG#*P:!R+Y;R,QG#*P:!wEY;R,QG#+P:!wDY;i%R,QG#+P:!R/Y',
+  ';i%R,QG#+P:!m1Y;i%R,QG#+P:!R+Y;i%R,QG#+P:!wEY;i%R,QG#*P:!wDi%R,QG#*P:!R/i%R,QG#*P:!m1i%R,QG#*P:!',
+  'R+i%R,QG#*P:!wEi%R,QG#)P:!P8PLQG#(P:!P8c2#)P:!P8RFQG#*P:!Q;LZ<W!#)P:![&Q0B#)P:![&QBB#)P:![&^+P%#',
+  '*P:![&VA^+P%#*P:!R+VA^+P%#*P:!sB>R/R,#*P:!sB>R+R,#)+)!|JQF#)+%!|JQF#)+)!|JY,#)+%!|JY,#(+)!rM#(+%',
+  '!rM#(+)!Pr3#(+%!Pr3#(+)!Pr4#(+%!Pr4#(+)!|K#(+%!|K#*+)!|K&W.#*+%!|K&W.#)+!%)V!#)+!%)Q3#(+)!T8#(+%',
+  '!T8#(+)!z@#(+%!z@#(+)!UB#(+%!UB#(+)!pC#(+%!pC#++)!pC&RFQG#++%!pC&RFQG#(+)!f1#(+%!f1#++)!TCT?&P8#',
+  '++%!TCT?&P8#*+)!S>&PD#*+%!S>&PD#++)!S>&S2PD#++%!S>&S2PD#-+)!S>&PD>S2PD#-+%!S>&PD>S2PD#)+)!o4Q@#)',
+  '+%!o4Q@#++)!Q@&R/PD#++%!Q@&R/PD#,+)!P2&RMPD_,#,+%!P2&RMPD_,#*+)!P2&]H#*+%!P2&]H#(+)!XE#(+%!XE#,+',
+  ')!TE&PDd+YL#,+%!TE&PDd+YL#*+)!TE&v,#*+%!TE&v,#++)!TE&Pr5W/#++%!TE&Pr5W/#,+)!W4&PDd+YL#,+%!W4&PDd',
+  '+YL#++)!W4&S2PD#++%!W4&S2PD#)+)!Q2tL#)+%!Q2tL#)+)!|LtL#)+%!|LtL#++)!SC&S2PD#++%!SC&S2PD#(+)!PYE#',
+  '(+%!PYE#)+)!Pr6T%#)+%!Pr6T%#*+)!jM&PD#*+%!jM&PD#,+)!jM&PDd+YL#,+%!jM&PDd+YL#(+)!Pr7#(+%!Pr7#(+)!',
+  'e*#(+%!e*#(+)!p<#(+%!p<#(+)!Pr8#(+%!Pr8#&P:!o1#(+%!Rn6#(+%!fF#(+%!Rn7#(+%!Rn8#(+%!|L#)+!%)|L#(+%',
+  '!v-#(+%!j?#)+)!a2SJ#)+%!a2SJ#)+)!a2V!#)+%!a2V!#)+)!a2S9#*+)!RCa2S9#*+%!RCa2S9#)+)!RCQ@#)+%!RCQ@#',
+  ')+)!a2Q2#)+%!a2Q2#)+)!a2Q3#)+%!a2Q3#)+)!a2S;#)+%!a2S;#)P:!R+U,V8#&P:![/#)P:!V%Z@##(+)!Pr9#(+%!Pr',
+  '9#)+)!RCSB#-+%!Q@&Y:Q!>g)#(+!Rn9P8#*+)!R<&YL#*+%!R<&YL#*+)!T?&QG#*+%!T?&QG#++%!T?&]-Q!#++%!SB&]-',
+  'Q!#*+)!P;&v,#*+%!P;&v,#*+)!V!&PD#*+%!V!&PD#)+)!q>[1#)+%!q>[1#)+)!q>Y0#)+%!q>Y0#)+)!q>_/#)+%!q>_/',
+  '#++)!S9&b@PD#++%!S9&b@PD#++)!S>&b@PD#++%!S>&b@PD#++)!R<&b@PD#++%!R<&b@PD#++)!Q2&b@PD#++%!Q2&b@PD',
+  '#++)!Q3&b@PD#++%!Q3&b@PD#*+)!SB&Q!#*+)!TCS(P5#)+)!?S9#*+)!Q@&g)#*+)!%)P7#)+!%)W4#)+)!RCS>#)+)!RC',
+  'S;#*+)!U3&i;#(+)!^-#(+)!a=#(+%!a=#(+)!UK#(+%!UK#*+)!P+&PD#*+%!P+&PD#)+)!ZH:#)+%!ZH:#)+)!ZHP7#)+%',
+  '!ZHP7#)+)!ZHP+#)+%!ZHP+#*+)!KPZ>P2#*+%!KPZ>P2#)+)!Pr:U+#)+%!Pr:U+#++)!T?&]-Q!#*+)!Q3&Q!#++)!T%&]',
+  '-Q!#,+)!SJ&V%PD_,#,+%!SJ&V%PD_,#,+)!Q3&V%PD_,#,+%!Q3&V%PD_,**+)!Y1a2S9#*+%!Y1a2S9%)+%!P0jM%)+%!P',
+  '0w?#*+)!PJPr;Q3#*+%!PJPr;Q3#)+)!Pr<Q3#)+%!Pr<Q3=(P:!)T?#(P:!)V!#(P:!)W4#*+)!TCQ>SB#*+%!TCQ>SB#)+',
+  'q?!aBP7#*P:!)SB&PD#)P:!%GY0#*+!%)RCS&#)+q?!TCV!#)+q?!TCTE#)+q?!VAS&#)+q?!P7|M#)+q?!YIS&#(Y.Y/!:#',
+  '(Y.Y/!P7#(Y.Y/#Rn:#(Y.Y/!P+#(Y.Y/!P5#(Y.Y/!P2#(Y.Y/#Pr=#(Y.Y/!^B#(Y.Y/!f/#(Y.Y/!dA#(Y.Y/!Ph0#(Y.',
+  'Y/#X&#(Y.Y/!f)#(Y.Y/!g5#(Y.Y/!g:#(Y.Y/!Rn;#(Y.Y/!PTL#(Y.Y/!z(#(Y.Y/!PT7#(Y.Y/!Pr>#(Y.Y/!P?#(Y.Y/',
+  '!a!#(Y.Y/!a0#(Y.Y/!PqC#(Y.Y/!YC#(Y.Y/!b&#(Y.Y/!g6#(Y.Y/!f0#(Y.Y/!PqA#(Y.Y/!_?#(Y.Y/!]K#(Y.Y/!a##',
+  '(Y.Y/!PpG#(Y.Y/!]F#(Y.Y/!]I#)Y.Y/6#:#)Y.Y/6#P7#)Y.Y/6#P+#)Y.Y/6#P5#)Y.Y/6#XE#(Y.Y/|NtC#(Y.Y/|NtD',
+  '#(Y.Y/|NPr?#(Y.Y/|NRn<#)Y.Y/#Z#Pr=()S4U<SFP.Z.#)S4U<SFP.Q>#)S4U<SFP=c?#)S4U<SFP.oO#)S4U<SFP.Z4#)',
+  'S4U<SFP=x7#(S4U<Z.P%#(S4U<PZ?P%#(S4U<k4P%#(S4U<Rn=P%+&WE!Q*#&WE!VF#&WE!S=#&WE!UA#&WE!UL#&WE!VB#&',
+  'WE!UG#&WE!VE#&WE!S+#&WE!W0#&WE!S6#&WE!S##&WE!R:#&WE!WI#&WE!T.#&WE!RK#&WE!]!#&WE!cK#&WE!e-#&WE!UM',
+  '#&WE!_>#&WE!X6#(WE!%:#&WE!S)#&WE!R>#&WE!RO#&WE!UF#&WE!S0#&WE!R&#&WE!:#&WE!P7#&WE!P+#&WE!P5#&WE!P',
+  '2#&WE!a.#&WE!cM#&WE!YF#&WE!oK#&WE!Y=#(WETJ!UM#(WETJ!S)#&WE!X2#&WE!Y>#&WE!X9#&WE!Y-#(WE!Z#S)#(WE!',
+  'Rn>UF#(WE!h*R&#(WE!Rn?YF#(WETJ!R>#(WERn@!R>#&WE![(#(WETG]>P%#(WEP0]>P%#&WEP%c0#(WEP%P0c0-&U(#X&#',
+  '&U(#Z3#&U(!:#&U(!T8#&U(!P7#&U(!U0#&U(!P+#&U(!UI#(U(!QJQ2#(U(!QJZ!#(U(!QJQ@#(U(!QJZK#&U(!P5#&U(!Y',
+  '=#&U(!U-#&U(!P2#&U(!XE#&U(!UB#&U(!Q*#&U(!VF#&U(!S=#&U(!X;#&U(!UA#&U(!UL#&U(!VB#&U(!UG#&U(!ZD#&U(',
+  '!VE#&U(!X2#&U(!Y>#&U(!X9#&U(!YO#&U(!Y-#&U(!S+#&U(!W0#&U(!S6#&U(!XF#&U(!S##&U(!R:#&U(!WI#&U(!T.#&',
+  'U(!Y3#&U(!RK#&U(!S)#&U(!R>#&U(!RO#&U(!WJ#&U(!UF#&U(!YD#&U(!S0#&U(!R&#&U(!]?#(U(T<#RnA#(U(6#T8#(U',
+  '(6#P7#(U(6#U0#(U(6#P+#(U(6#UI#)U(6#QJQ2#)U(6#QJZ!#)U(6#QJQ@#)U(6#QJZK#(U(6#P5#(U(6#Y=#(U(6#U-#(U',
+  '(6#P2#(U(6#XE#(U(6#UB#&U(#YG#&U(#[(-%U([O#&U(P0[O#&U(4T,#&U(4P.#&U(4P3#&U(4P=#&U(4PI#&U(4Q%#&U(4',
+  'QE#&U(4R!#&U(4QD#&U(4R*+(FQ=4T,#(FQ=4P.#(FQ=4P3#(FQ=4P=#(FQ=4PI#(FQ=4Q%#(FQ=4QE#(FQ=4R!#(FQ=4QD#',
+  '(FQ=4R*#(FQ=!:#(FQ=!P+#(FQ=!Q*#(FQ=!S##(FQ=!R:#(FQ=!R>#(FQ=!iN#(FQ=#c.#(Q=#PRB[(#(Q=#[(YG#)Q=#P0',
+  '[(YG#(Q=#[(P3#(Q=#[(P=#(Q=#[(c.#&Q=#RnB#&Q=q;iL#%Q=h8#%Q=PZ@#&Q=#SG#&Q=RnCe,#&Q=!f1#(Q=6#f1#(X4V',
+  'G4T,#(X4VG4P.#(X4VG4P3#(X4VG4P=#(X4VG4PI#(X4VG4Q%#(X4VG4QE#(X4VG4R!#(X4VG4QD#(X4VG4R*#(X4VG!Q*#(',
+  'X4VG!VF#(X4VG!S=#(X4VG!UA#(X4VG!S0#(X4VG!UF#(X4VG!X6#(X4VG!VE#(X4VG!S+#(X4VG!Pr@#(X4VG!S##(X4VG!',
+  'R:#(X4VG!WI#(X4VG!RK#(X4VG!S6#(X4VG!T.#(X4VG!R>#(X4VG!S)#(X4VG!RO#(X4VG!UM#(X4VG!W0#(X4VG!R&#(X4',
+  'VG!WJ#(X4VG!UL#(X4VG!:#(X4VG!Y0#(X4VG!P7#(X4VG!XE#(X4VG6_/#(X4VG6P5#(X4VG6P+#(X4VG6Y=#(X4VG6P2#(',
+  'X4VGR,PrA#(X4VGR,PrB#)X4VGR,PrBPrA#(X4VG#PTO#(X4VG#RnD#&Z=!Q*#&Z=!S=#&Z=!UA#&Z=!S+#&Z=!S6#&Z=!S#',
+  '#&Z=!R:#&Z=!T.#&Z=!RK#&Z=!UL#&Z=!UG#&Z=!VE#&Z=!S0#&Z=!R>#&Z=!RO#&Z=!S)#&Z=!UM#&Z=!R&#&Z=!tH#&Z=!',
+  'v(#&Z=!pA#&Z=!RnE#&Z=!:#(Z=6#P7#(Z=6#P+#(Z=6#P5#(Z=6#U-#(Z=6#P2#(Z=6#UB#(Z=6#iG#(Z=6#PZA#(Z=T<#_',
+  '<#(Z=T<#R<#(Z=T<#Q2#(Z=T<#SB#%Z=YG0&Z=Z-P%#&CR9RnF#&CR9PrC#&CR9PrD#&CR9PrE#&CR9y3#&CR9PrF#&CR9PS',
+  'N#&CR9RnG#&CR9y4#&CR9y5#&CR9RnH#&CR9Pe@#&CR9y6#&CR9RnI#&CR9PeB#&CR9PeD#&CR9RnJ#&CR9PSO#&CR9RnK#&',
+  'CR9RnL#&CR9PeF#&CR9RnM#&CR9RnN#&CR9RnO#&CR9Ro!#&CR9Ro##&CR9Ro%#&CR9Ro&#&CR9Ro((&T5#Ro)#&T5#PrG#&',
+  'T5#Ro*#&T5#Ro+#&T5!:#(T5!P7Ro,#&T5!P7#&T5!U0#&T5!P+#(T5!R:Ro-#(T5!UAPrH#)T5!UAPrHRo.#&T5!P5#&T5!',
+  'U-#&T5!P2#&T5!Q*#(T5!Q*kH#(T5!Q*f7#&T5!S=#(T5!S=f7#&T5!UA#&T5!UL#(T5!ULf7#&T5!UG#(T5!VEf7#(T5!UG',
+  'kG#&T5!VE#&T5!X2#(T5!X2kG#&T5!X9#(T5!X9kG#(T5!S#f7#&T5!S+#(T5!S+f7#&T5!S6#(T5!S6kG#&T5!S##&T5!R:',
+  '#(T5!R:f7#&T5!T.#(T5!T.f7#&T5!RK#&T5!S)#&T5!R>#(T5!R>Ro/#&T5!RO#&T5!UM#(T5!S0f7#(T5!S0kG#&T5!S0#',
+  '&T5!R&#(T5#PrGRo0#(T56#Ro1#(T56#Ro2#(T56#PrI#)T56#PrIRo3#(T56#z7#)T56#z7Ro4#(T56#tE#)T56#Ro5Ro6#',
+  '(T56#PUM#(T5T<#Ro7#(T5T<#Ro8#(T5T<#Pj!#%T5Ro9#&T5OPrJ#&T5LPrJ#&T5eDRo:#&T5eDRo;#&T5eDRo<#&T5eDPi',
+  ':#&T5eDRo=#&T5eDRo>#&T5eDRo?#&T5eDtF#(T5eDtFtF#&T5eDPrK#(T5RCeDPrK%%T5Ro@#&T54T,#&T54P.#&T54P3#&',
+  'T54P=#&T54PI#&T54Q%#&T54QE#&T54R!#&T54QD#&T54R*)(T5eDRoARoB#&T5eDRoC#(PK!Y%X;#(PK!Y%VB#(PK!Y%ZD#',
+  '(PK!Y%Y-#(PK!Y%Y3#(PK#Y%PZB#)PKP:!Y%PrL#)PK!P1^8VE#)PK!P1^8YF#)PK!P1^8S=#)PK!P1^8X;#)PK!P1^8UG#)',
+  'PK!P1^8ZD#)PK!P1^8X9#)PK!P1^8YO#)PK!P1^8Y-#)PKP1^84T,#)PKP1^84P.#)PKP1^84P3#)PKP1^84P=#)PKP1^84P',
+  'I#)PKP1^84Q%#)PKP1^84QE#)PKP1^84R!#)PKP1^84QD#)PKP1^84R*#)PK!P1^8]?#)PK!P1^8S6#)PK!P1^8XF#)PK!P1',
+  '^8T.#)PK!P1^8Y3%&U#!:#&U#!P7#&U#!P+#&U#!P5#&U#!U-#&U#!P2#&U#!Q*#&U#!VF#&U#!S=#&U#!X;#&U#!RoD#&U#',
+  '!UA#&U#!VB#&U#!RoE#&U#!UG#&U#!ZD#&U#!RoF#&U#!q@#&U#!RoG#&U#!S+#&U#!W0#&U#!S6#&U#!XF#&U#!RoH#&U#!',
+  'S##&U#!X9#&U#!R:#&U#!RoI#&U#!WI#&U#!T.#&U#!Y3#&U#!RoJ#&U#!RK#&U#!m=#&U#!S)#&U#!R>#&U#!RO#&U#!WJ#',
+  '&U#!YD#&U#!S0#&U#!R&#(U#6#T8#(U#6#P7#(U#6#U0#(U#6#iE#(U#6#P+#(U#6#Y0#(U#6#P2#(U#6#U-#(U#6#UB#(U#',
+  '6#_/#(U#T<#S)#(U#T<#R>#(U#T<#RO#(U#T<#UM.(U#!P/S>#(U#!P/S9#(U#!P/_<#)U#T<#P/_<#(U#!P/PnE#(U#!P/S',
+  ';#(U#!P/R<#(U#!P/TE#(U#!P/T-#(U#!P/Q2#(U#!P/Q@#(U#!P/|O#)U#T<#P/S&#)U#T<#P/SB&&U#4T,#&U#4P.#&U#4',
+  'P3#&U#4P=#&U#4PI#&U#4Q%#&U#4QE#&U#4R!#&U#4QD#&U#4R*&&U#S<n7#&U#S<[O#(U#S<P0[O#(U#S<W5[O#(PK!^2S=',
+  '#(PK!^2UL#(PK!^2VB#(PK!^2UG#(PK!^2ZD#(PK!^2VE#(PK!^2X2#(PK!^2Y>#(PK!^2X9#(PK!^2YO#(PK!^2XF#(PK!^',
+  '2S##(PK!^2S0#(PK!^2R&#(PK!^2iM!(PK!^2]?#(PK!^2YF#)PKP:!^2PrL#(PK!^2cM#(PK!^2X6#(PK!^2R>#(PKl8^2P',
+  'i%#(PKl8^2RoK#(PKl8^2RoL#(PK0p-^+#(PK0p-P.#(PK0p-P3#(PK!p-R>#)PK#RoMb(R,#)PK#P1^8h;#)PK#P1^8h<#)',
+  'PK!mMxDVB#)PK!mMxDUF#)P1UN!R+^B#)P1UN!R/^B#)P1UN!R+f/#)P1UN!R/f/#)P1UN!R+PrM#)P1UN!R/PrM#)P1UN!R',
+  '+dA#)P1UN!R/dA#)P1UN!R+mA#)P1UN!R/mA#)P1UN!R+f)#)P1UN!R/f)#)P1UN!R+g5#)P1UN!R/g5#)P1UN!R+]F#)P1U',
+  'N!R/]F#)P1UN!R+iD#)P1UN!R/iD#)P1UN!R+a0#)P1UN!R/a0#)P1UN!R+P?#)P1UN!R/P?#)P1UN!R+a!#)P1UN!R/a!#)',
+  'P1UN!R+YC#)P1UN!R/YC#)P1UN!R+f0#)P1UN!R/f0#)P1UN!R+b&#)P1UN!R/b&#)P1UN!R+g6#)P1UN!R/g6#)P1UN!R+e',
+  '.#)P1UN!R/e.#)P1UN!R+_?#)P1UN!R/_?#)P1UN!R+[7#)P1UN!R/[7#)P1UN!R+]K#)P1UN!R/]K#)P1UN!R+a##)P1UN!',
+  'R/a##)P1UN!R+h0#)P1UN!R/h0#)P1UN!R+]I#)P1UN!R/]I#)P1UN!R+P2#)P1UN!R/P2#(P1UN_@z2#(P1UN6T8#(P1UN6',
+  'P7#(P1UN6_/#(P1UN6P+#(P1UN6P5#(P1UN6P2#(P1UN_@RoN#(P1UN6}!#(P1UN6RoO#(P1UN6p=#(P1UN6PhN#(P1UN6f1',
+  '#(P1UN6Z9#(P1UN6h3#)P1UNR,_@oN#)P1UNR,_@PrN#)P1UNR,_@a!#)P1UNR,_@Rp!=(P1UN0Pd##(P1UN0PrN#(P1UN0P',
+  'UL#)P1UN0]IRp##)P1UN0PZCPZC#(U7U8!P5#(U7U8!P2#(U7U8!VB#(U7U8!VE#(U7U8!X2#(U7U8!Y>#(U7U8!X9#(U7U8',
+  '!YO#(U7U8!Y-#(U7U8!UF#(U7U8!YD#)U7U86#U0#)U7U86#UI#)U7U86#PfN#)U7U86#UB#)U7U86#Rp%#&U7U8Rp&#(U7U',
+  '8Rp(Rp)#&U7U8PRC#)U7U8(v.P%#)U7U8_.v.P%#)U7U86#Z3#&U7U8YG/&I(Rp*#&I(Ph&#&I(PUC#&I(Rp+#&I(Ph%#&I(',
+  'z(&&I(Rp,#&I(Rp-#&I(PrO#&I(Rp.#&I(Rp/#&I(Pr>&&I(Ph4#&I(Ph7#&I(Rp0#&I(Ph6#&I(k*#&I(Ph5.&I(Rp1#&I(',
+  'Rp2#&I(Rp3#&I(Rp4#&I(Rp5#&I(Rp6#&I(Rp7%&I(m=#&I(PoG#&I(PoD#&I(Rp8#&I(Rp9#&I(sN#&I(PoE%)+%!h)V##)',
+  '+%!:Rp:#)+%!PZDP5#)+%!h)P5#*+%!P5&v,#)+%!Pm5V!#++%!?S9&i;#,+%!Q@&VAPV=Q3#,+%!Q@&P0PJS.#++%!Q@&PJ',
+  'RB#*+%!S&&i;#*+%!R<&i;#*+%!eO&i;#)+%!PZDP2#++%!PZDP2&PD#++%!S(P2&PD#)+%!VAY0#++%!RCY0&PD#,+%!RCY',
+  '0&RFPD#*+%!RCP2Ps!#,+%!RCP2Ps!&PD#)+%!Rp;Q2#,+!%)Q2&La-#*+%!Q2u7Ps##)+%!P0Q2#*+%!Q2&i;#++%!P0Q2&',
+  'i;#)+%!?Q2#++%!?Q2&RB#)+%!Pc-a;#,+%!P+&V%La-#-+%!P+QG&V%La-#(+%!}##)+%!RC}##++%!P+&OQ!#(+%!^-#,+',
+  '%!^-&R+LRB#,+%!^-&R+OPs%#,+%!TF&R+LRB#,+%!TF&RMOa-#0+%!TF&RMOa->R+LRB#.+%!TF&RMOa-&Ps%#,+%!T-&V%',
+  'La-#)P:W<&VAW<#(P:!%rM#,P:!%Q@&VAPV=Q3#+P:!%Q@&PJS.#+P:!%P+&OQ!#)+%!Rp<i>#)+%!c&P5#)+%!S(Y0#(+%!',
+  'Po>#)+%!VAV##)H!%)UK#,+%!h([@&Y:Q!#,+%!wB[@&Y:Q!#,+%!RCQ2&PJS.#)P:!%RCU+#(P:!OZI#(P:!LZI)(Q7%!:#',
+  '(Q7%!P5#(Q7%!P7#(Q7%!P2#(Q7%!P+#(Q7%!SC#(Q7%!S=#(Q7%!Q*#(Q7%!h=#(Q7%!^C#(Q7%!dA#(Q7%!bB#(Q7%!PfC',
+  '#(Q7%!R&#(Q7%!YE#(Q7%!Z;#(Q7%!]I#(Q7%!dE#(Q7%!w>#(Q7%!RO#(Q7%!X=#(Q7%!VG#(Q7%!a##(Q7%!^0#(Q7%!Pf',
+  'D#(Q7%!RK#(Q7%![*#(Q7%!]##(Q7%!_?#(Q7%!YJ#(Q7%!S##(Q7%!PT>#(Q7%!PT?#(Q7%!ZM#(Q7%!ZL#(Q7%!YC#(Q7%',
+  '![4#(Q7%!PT@#(Q7%!PfE#(Q7%!PfF#(Q7%!PfG#(Q7%!PTA#(Q7%!PTB#(Q7%!PfH#(Q7%!S0#(Q7%!Q3#(Q7%!_E#(Q7%!',
+  '^J#(Q7%!]F#(Q7%!_A#(Q7%!PTC#(Q7%!S6#(Q7%!S+#(Q7%!_:#(Q7%!Z7#(Q7%!aF#(Q7%!aC#(Q7%!a0#(Q7%!aE#(Q7%',
+  '!PfI#(Q7%!yO#(Q7%!PTD#(Q7%!PTE#(Q7%!PTF#(Q7%!PTG#(Q7%!PTH#(Q7%!PfJ#(Q7%!]!#(Q7%!d8#(Q7%!mK#(Q7%!',
+  'yI#(Q7%!yH#(Q7%!PfK#(Q7%!UM#(Q7%!^.#(Q7%!_D#(Q7%!_!#(Q7%!g8#(Q7%!PfL#(Q7%!S)#(U7U8!Ps&#(U7U8!PUL',
+  '#(U7U8!z1#(U7U8!PYC#(U7U8!R:#(U7U8!S##(U7U8!Rp=#(U7U8!PZE#(U7U8!Rp>#(U7U8!Ps(#(U7U8!Rp?#(U7U8!Rp',
+  '@#(U7U8!f%#(U7U8!RpA#(U7U8!iI#(U7U8!P7#(U7U8!RpB#(U7U8!RpC#(U7U8!RpD#(U7U8!RpE#(U7U8!RpF#(U7U8!T',
+  '.#(U7U8!t&#(U7U8!RpG#(U7U8!RpH#(U7U8!RpI#(U7U8!RpJ#)U7U8!Ps&l9#)U7U8!z1l9#)U7U8!PYCl9#)U7U8!R:l9',
+  '#)U7U8!S#l9#)U7U8!PZEl9#)U7U8!Ps(l9#)U7U8!P7l9#)U7U86#RpK#)U7U86#RpL#)U7U86#RpM#)U7U86#RpN#)U7U8',
+  '6#RpO#)U7U86#Rq!#)U7U86#Rq##)U7U86#PZF#&U7U8Rq%#(U7U8fFPs)#(U7U8Rq&Ps)&(U7U84T,#(U7U84P.#(U7U84P',
+  '3#(U7U84P=#(U7U84PI#(U7U84Q%#(U7U84QE#(U7U84R!#(U7U84QD#(U7U84R*Ts3&CT(Rq(#&CT(Rq)#&CT(Rq*#&CT(R',
+  'q+#&CT(Rq,#&CT(Rq-#&CT(Rq.#&CT(Rq/#&CT(Rq0#&CT(Rq1#&CT(Rq2#&CT(Rq3#&CT(Rq4#&CT(Rq5#&CT(Rq6#&CT(R',
+  'q7#&CT(Rq8#&CT(Rq9#&CT(Rq:#&CT(Rq;#&CT(Rq<#&CT(Rq=#&CT(Rq>)&CR#Rq?#&CR#Rq@#&CR#y+#&CR#RqA#&CR#Pr',
+  'C#&CR#PrD#&CR#RqB#&CR#PrE#&CR#RqC#&CR#RqD#&CR#PrF#&CR#RqE#&CR#RqF#&CR#RqG#&CR#RqH#&CR#RqI#&CR#Rq',
+  'J#&CR#RqK#&CR#Pe!#&CR#RqL#&CR#RqM#&CR#RqN#&CR#RqO#&CR#Rr!#&CR#PS:#&CR#Rr##&CR#Rr%#&CR#y,#&CR#PS;',
+  '#&CR#PS<#&CR#Pe&#&CR#Pe-#&CR#Rr&#&CR#Rr(#&CR#Rr)#&CR#Rr*#&CR#PSA#&CR#Pe.#&CR#Pe/#&CR#Pe0#&CR#Rr+',
+  '#&CR#Rr,#&CR#Rr-#&CR#Rr.#&CR#Rr/#&CR#Rr0#&CR#y.#&CR#Rr1#&CR#Rr2Sa)&/3Rr3#&/3Rr4#&/3Rr5#&/3Rr6#&/',
+  '3Rr7#&/3Rr8#&/3Rr9#&/3Rr:#&/3Rr;#&/3Rr<#&/3Rr=#&/3Rr>#&/3Rr?#&/3Rr@#&/3RrA#&/3RrB#&/3RrC#&/3RrD#',
+  '&/3RrE#&/3RrF#&/3RrG#&/3RrH#&/3RrI#&/3RrJ#&/3RrK#&/3RrL#&/3RrM#&/3RrN#&/3RrO#&/3Rs!#&/3Rs##&/3Rs',
+  '%#&/3Rs&#&/3Rs(#&/3Rs)#&/3Rs*#&/3Rs+#&/3Rs,#&/3Rs-#&/3Rs.#&/3Rs/#&/3Rs0#&/3Rs1#&/3Rs2#&/3Rs3#&/3',
+  'Rs4#&/3Rs5#&/3Rs6#&/3Rs7#&/3Rs8#&/3Rs9#&/3Rs:#&/3Rs;#&/3Rs<#&/3Rs=#&/3Rs>#&/3Rs?#&/3Rs@#&/3RsA#&',
+  '/3RsB#&/3RsC#&/3RsD#&/3RsE#&/3RsF#&/3RsG#&/3RsH#&/3RsI#&/3RsJ#&/3RsK#&/3RsL#&/3RsM#&/3RsN#&/3RsO',
+  '#&/3Rt!#&/3Rt##&/3Rt%#&/3Rt&#&/3Rt(#&/3Rt)#&/3Rt*#&/3Rt+#&/3Rt,#&/3Rt-#&/3Rt.#&/3Rt/#&/3Rt0#&/3R',
+  't1#&/3Rt2#&/3Rt3#&/3Rt4#&/3Rt5#&/3Rt6#&/3Rt7#&/3Rt8#&/3Rt9#&/3Rt:#&/3Rt;#&/3Rt<#&/3Rt=#&/3Rt>#&/',
+  '3Rt?#&/3Rt@#&/3RtA#&/3RtB#&/3RtC#&/3RtD#&/3RtE#&/3RtF#&/3RtG#&/3RtH#&/3RtI#&/3RtJ#&/3RtK#&/3RtL#',
+  '&/3RtM#&/3RtN#&/3RtO#&/3Ru!#&/3Ru##&/3Ru%#&/3Ru&#&/3Ru(#&/3Ru)#&/3Ru*#&/3Ru+#&/3Ru,#&/3Ru-#&/3Ru',
+  '.#&/3Ru/#&/3Ru0#&/3Ru1#&/3Ru2#&/3Ru3#&/3Ru4#&/3Ru5#&/3Ru6#&/3Ru7#&/3Ru8#&/3Ru9#&/3Ru:#&/3Ru;#&/3',
+  'Ru<#&/3Ru=#&/3Ru>#&/3Ru?#&/3Ru@#&/3RuA#&/3RuB#&/3RuC#&/3RuD#&/3RuE#&/3RuF#&/3RuG#&/3RuH#&/3RuI#&',
+  '/3RuJ#&/3RuK#&/3RuL#&/3RuM#&/3RuN#&/3RuO#&/3Rv!#&/3Rv##&/3Rv%#&/3Rv&#&/3Rv(#&/3Rv)#&/3Rv*#&/3Rv+',
+  '#&/3Rv,#&/3Rv-#&/3Rv.#&/3Rv/#&/3Rv0#&/3Rv1#&/3Rv2#&/3Rv3#&/3Rv4#&/3Rv5#&/3Rv6#&/3Rv7#&/3Rv8#&/3R',
+  'v9#&/3Rv:#&/3Rv;#&/3Rv<#&/3Rv=#&/3Rv>#&/3Rv?#&/3Rv@#&/3RvA#&/3RvB#&/3RvC#&/3RvD#&/3RvE#&/3RvF#&/',
+  '3RvG#&/3RvH#&/3RvI#&/3RvJ#&/3RvK#&/3RvL#&/3RvM#&/3RvN#&/3RvO#&/3Rw!#&/3Rw##&/3Rw%#&/3Rw&#&/3Rw(#',
+  '&/3Rw)#&/3Rw*#&/3Rw+#&/3Rw,#&/3Rw-#&/3Rw.#&/3Rw/#&/3Rw0#&/3Rw1#&/3Rw2#&/3Rw3#&/3Rw4#&/3Rw5#&/3Rw',
+  '6#&/3Rw7#&/3Rw8#&/3Rw9#&/3Rw:#&/3Rw;#&/3Rw<#&/3Rw=#&/3Rw>#&/3Rw?#&/3Rw@#&/3RwA#&/3RwB#&/3RwC#&/3',
+  'RwD#&/3RwE#&/3RwF#&/3RwG#&/3RwH#&/3RwI#&/3RwJ#&/3RwK#&/3RwL#&/3RwM#&/3RwN#&/3RwO#&/3Rx!#&/3Rx##&',
+  '/3Rx%#&/3Rx&#&/3Rx(#&/3Rx)#&/3Rx*#&/3Rx+#&/3Rx,#&/3Rx-#&/3Rx.#&/3Rx/#&/3Rx0#&/3Rx1#&/3Rx2#&/3Rx3',
+  '#&/3Rx4#&/3Rx5#&/3Rx6#&/3Rx7#&/3Rx8#&/3Rx9#&/3Rx:#&/3Rx;#&/3Rx<#&/3Rx=#&/3Rx>#&/3Rx?#&/3Rx@#&/3R',
+  'xA#&/3RxB#&/3RxC#&/3RxD#&/3RxE#&/3RxF#&/3RxG#&/3RxH#&/3RxI#&/3RxJ#&/3RxK#&/3RxL#&/3RxM#&/3RxN#&/',
+  '3RxO#&/3Ry!#&/3Ry##&/3Ry%#&/3Ry&#&/3Ry(#&/3Ry)#&/3Ry*#&/3Ry+#&/3Ry,#&/3Ry-#&/3Ry.#&/3Ry/#&/3Ry0#',
+  '&/3Ry1#&/3Ry2#&/3Ry3#&/3Ry4#&/3Ry5#&/3Ry6#&/3Ry7#&/3Ry8#&/3Ry9#&/3Ry:#&/3Ry;#&/3Ry<#&/3Ry=#&/3Ry',
+  '>#&/3Ry?#&/3Ry@#&/3RyA#&/3RyB#&/3RyC#&/3RyD#&/3RyE#&/3RyF#&/3RyG#&/3RyH#&/3RyI#&/3RyJ#&/3RyK#&/3',
+  'RyL#&/3RyM#&/3RyN#&/3RyO#&/3Rz!#&/3Rz##&/3Rz%#&/3Rz&#&/3Rz(#&/3Rz)#&/3Rz*#&/3Rz+#&/3Rz,#&/3Rz-#&',
+  '/3Rz.#&/3Rz/#&/3Rz0#&/3Rz1#&/3Rz2#&/3Rz3#&/3Rz4#&/3Rz5#&/3Rz6#&/3Rz7#&/3Rz8#&/3Rz9#&/3Rz:#&/3Rz;',
+  '#&/3Rz<#&/3Rz=#&/3Rz>#&/3Rz?#&/3Rz@&&/3RzA#&/3RzB#&/3RzC#&/3RzD#&/3RzE#&/3RzF#&/3RzG#&/3RzH#&/3R',
+  'zI#&/3RzJ#&/3RzK#&/3RzL#&/3RzM#&/3RzN#&/3RzO#&/3R{!#&/3R{##&/3R{%#&/3R{&#&/3R{(#&/3R{)#&/3R{*#&/',
+  '3R{+#&/3R{,#&/3R{-#&/3R{.#&/3R{/#&/3R{0#&/3R{1#&/3R{2#&/3R{3#&/3R{4#&/3R{5#&/3R{6#&/3R{7#&/3R{8#',
+  '&/3R{9#&/3R{:#&/3R{;#&/3R{<#&/3R{=#&/3R{>#&/3R{?#&/3R{@#&/3R{A#&/3R{B#&/3R{C#&/3R{D#&/3R{E#&/3R{',
+  'F#&/3R{G#&/3R{H#&/3R{I#&/3R{J#&/3R{K#&/3R{L#&/3R{M#&/3R{N#&/3R{O#&/3R|!#&/3R|##&/3R|%#&/3R|&#&/3',
+  'R|(#&/3R|)#&/3R|*#&/3R|+#&/3R|,#&/3R|-#&/3R|.#&/3R|/#&/3R|0#&/3R|1#&/3R|2#&/3R|3#&/3R|4#&/3R|5#&',
+  '/3R|6#&/3R|7#&/3R|8#&/3R|9#&/3R|:#&/3R|;#&/3R|<#&/3R|=#&/3R|>#&/3R|?#&/3R|@#&/3R|A#&/3R|B#&/3R|C',
+  '#&/3R|D#&/3R|E#&/3R|F#&/3R|G#&/3R|H#&/3R|I#&/3R|J#&/3R|K#&/3R|L#&/3R|M#&/3R|N#&/3R|O#&/3R}!#&/3R',
+  '}##&/3R}%K(+%GP_4#(+%Gg4#(+%GR}&#(+%GR}(#(+%GR})#*+%GRMQ3S;#(+%Gw:1)SN%Gg-wK#)SN%Gg-oA#)SN%Gg-PQ',
+  'F#)SN%GPQHwK#)SN%Gg-PQG*)R0!h1&Pb0#(R0]JR}*R}+#*R0Gx(h1h1wN#(R0!PVDf*#(R0!f8QF#(R0!f8x%#(R0!f8YE',
+  '#(R0!f8X7#(R0!f8x&#)R0!f8P/a?#(R0!f8e+#(R0!f8PR(#)R0!PVDQ1##*R0![2&[2P8#*R0![2&x#P8#,R0![2&^N>[2',
+  'P8#,R0![2&^N>x#P8#)R0!QF&wN#)R0!QF&wO#)R0!QF&PR##)R0!oD&^N#)R0!c)&^N#)R0!x%&^N#)R0!YE&PR##)R0!oC',
+  '&^N#)R0!d9&^N%)R0!m6&^N#)R0!h1&^N#*R0!P/X7&^N#)R0!X7&^N#)R0!x&&^N%)R0!a?&^N%)R0!W8&^N#)R0!c*&^N%',
+  '*R0!P/XK&^N#)R0!XK&^N%)R0!PR%&^N#)R0!PR&&^N#)R0!e+&^N#)R0![2&^N#)R0!PR(&^N#)R0!oC&PR!#)R0!oD&x!#',
+  ')R0!X7&x!#)R0!XK&x!#(R0GQFx&#*,!QFx+PG5#*,!QFx+P/5#),!s-PG5#),!s-P/5#),!s-Q&5#),!s-SH5#),!i@PG5#',
+  '),!i@P/5#),!i@Q&5#),!i@SH5#),!s/PG5#),!s/P/5#),!s/Q&5#),!s/SH5#),!s,PG5#),!s,P/5#),!s,Q&5#),!s,S',
+  'H5#),!s.PG5#),!s.P/5#),!s.Q&5#),!s.SH5#),!oGPG5#),!oGP/5#),!oGQ&5#),!oGSH5#),!s3PG5#),!s3P/5#),!',
+  's3Q&5#),!s3SH5#),!s4PG5#),!s4P/5#),!s4Q&5#),!s4SH5#),!s1PG5#),!s1P/5#),!s1Q&5#),!s1SH5#),!s0PG5#',
+  '),!s0P/5#),!s0Q&5#),!s0SH5#),!m8PG5#),!m8P/5#),!m8Q&5#),!m8SH5#),!s2PG5#),!s2P/5#),!s2Q&5#),!s2S',
+  'H5#),!PR.PG5#),!PR.P/5#),!PR-PG5#),!PR-P/5#),!PR/PG5#),!PR/P/5#),!PR,PG5#),!PR,P/5#),!PR1PG5#),!',
+  'PR1P/5#),!PR0PG5#),!PR0P/5#),!f+PG5#),!f+P/5#),!f+Q&5#),!f+SH5#),!h2PG5#),!h2P/5#),!h2Q&5#),!h2S',
+  'H5#),!s6PG5#),!s6P/5#),!s6Q&5#),!s6SH5#),!s5PG5#),!s5P/5#),!s5Q&5#),!s5SH5#*,!V;s+PG5#*,!V;s+P/5',
+  '#),!s7PG5#),!s7P/5#),!s7Q&5#),!s7SH5#,,!X<&Q,NPG5#,,!X<&Q,NP/5#*,!X<k2PG5#*,!X<k2P/5#*,!X<k2Q&5#',
+  '*,!X<k2SH5#*,!X<s8PG5#*,!X<s8P/5#*,!X<s8Q&5#*,!X<s8SH5#*,!Q,iAPG5#*,!Q,iAP/5#-,!Q,iA&U/NPG5#-,!Q',
+  ',iA&U/NP/5#(,0P8N#(,0P8P6#),0P3R1N#),0P3R1P6#),0P=R1N#),0P=R1P6#+,0P=R1U;S/N#+,0P=R1U;S/P6#),0PI',
+  'R1N#),0PIR1P6#*,0P0PLQGP6#*,0P3R1k3N#*,0P3R1k3P6#&,0RB#),0%YMN#),0%YMP6#(,0x+N5),!_<PG5#),!_<P/5',
+  '#),!_<Q&5#),!_<SH5#),!P+PG5#),!P+P/5#),!Y0PG5#),!Y0P/5#),!YKPG5#),!YKP/5#,,!P+&U/NPG5#),!b=PG5#)',
+  ',!b=P/5#*,!g1Y0PG5#*,!g1Y0P/5#*,!g1YKPG5#*,!g1YKP/5#),!P5PG5#),!P5P/5#),!P5Q&5#),!P5SH5#-,!v/Ps*',
+  'g1QFV4Q&5#-,!v/Ps*g1QFV4SH5#.,GQ,&U/N&QFPG5#.,GQ,&U/N&QFP/5#.,GQ,&U/N&[1PG5#.,GQ,&U/N&[1P/5#.,GQ',
+  ',&U/N&Y<PG5#.,GQ,&U/N&Y<P/5#.,GQ,&U/N&P+PG5#.,GQ,&U/N&P+P/5#.,GQ,&U/N&Y0PG5#.,GQ,&U/N&Y0P/5#.,GQ',
+  ',&U/N&YKPG5#.,GQ,&U/N&YKP/5#.,GQ,&U/N&P5PG5#.,GQ,&U/N&P5P/5#.,GQ,&U/N&P5Q&5#1,Gv/g1Q,&U/N&QFV4PG',
+  '5#1,Gv/g1Q,&U/N&QFV4P/5#1,Gv/g1Q,&U/N&QFV4Q&5#*,!d=Q,PG5#*,!d=Q,P/5#*,!d=Q,Q&5#*,!d=Q,SH5#.,GQ,&',
+  'U/N&S:PG5#.,GQ,&U/N&RHPG5#.,GQ,&U/N&Q(PG5#/,GQ,&U/N&QFV4PG5#.,GQ,&U/N&Q,PG5#+,GY+&S:PG5#+,GY+&RH',
+  'PG5#+,GY+&V:PG5#+,GY+&Q(PG5#,,GY+&QFV4PG5#+,GY+&Q,PG5#+,GX#&S:PG5#+,GX#&RHPG5#+,GX#&V:PG5#+,GX#&',
+  'Q(PG5#,,GX#&QFV4PG5#+,GX#&Q,PG5#+,G^O&S:PG5#+,G^O&Q(PG5#,,G^O&QFV4PG5#+,G^O&Q,PG5#+,GS:&RHPG5#+,',
+  'GS:&Q(PG5#+,GRH&S:PG5#+,GRH&Q(PG5#+,GV:&S:PG5#+,GV:&RHPG5#+,GV:&Q(PG5#+,GX1&S:PG5#+,GX1&RHPG5#+,',
+  'GX1&V:PG5#+,GX1&Q(PG5#+,G[)&RHPG5#+,G[)&Q(PG5#+,G[5&S:PG5#+,G[5&RHPG5#+,G[5&V:PG5#+,G[5&Q(PG5#+,',
+  'GYM&RHPG5#+,GYM&Q(PG5#+,Gd<&Q(PG5#+,GY,&S:PG5#+,GY,&Q(PG5#+,G^/&S:PG5#+,G^/&Q(PG5#+,GZ2&S:PG5#+,',
+  'GZ2&RHPG5#+,GZ2&V:PG5#+,GZ2&Q(PG5#,,GZ2&QFV4PG5#+,GZ2&Q,PG5#+,GZC&RHPG5#+,GZC&Q(PG5#,,GZC&QFV4PG',
+  '5#+,GZC&Q,PG5#+,GX7&QFPG5#+,GX7&S:PG5#+,GX7&RHPG5#+,GX7&V:PG5#+,GX7&UHPG5#+,GX7&Q(PG5#,,GX7&QFV4',
+  'PG5#+,GX7&Q,PG5#+,GUH&S:PG5#+,GUH&RHPG5#+,GUH&V:PG5#+,GUH&Q(PG5#,,GUH&QFV4PG5#+,GUH&Q,PG5#+,GQ(&',
+  'S:PG5#+,GQ(&RHPG5#+,GQ(&V:PG5#+,GQ(&Q(PG5#,,GQ(&QFV4PG5#+,GQ(&Q,PG5#+,GV;&S:PG5#+,GV;&RHPG5#+,GV',
+  ';&V:PG5#+,GV;&Q(PG5#,,GV;&QFV4PG5#+,GV;&Q,PG5#+,GX<&S:PG5#+,GX<&Q(PG5#,,GX<&QFV4PG5#+,GX<&Q,PG5#',
+  '+,GQ,&S:PG5#+,GQ,&RHPG5#+,GQ,&V:PG5#+,GQ,&Q(PG5#,,GQ,&QFV4PG5#+,GQ,&Q,PG5#,,Gk0&]<QFPG5#,,GZ1&]<',
+  'QFPG5#-,GQFV4&]<QFPG5#+,Gd>&s)PG5#+,Gd>&s*PG5#+,Gd>&d:PG5#+,Gd>&g.PG5#+,Gd>&d;PG5#,,Gd>&]<QFPG5#',
+  '.,GQ,&U/N&Z1P/5#.,GQ,&U/N&c+P/5#.,GQ,&U/N&Q(P/5#.,GQ,&U/N&V;P/5#/,GQ,&U/N&QFV4P/5#.,GQ,&U/N&Q,P/',
+  '5#+,GY+&Z1P/5#+,GY+&c+P/5#+,GY+&Q(P/5#+,GY+&V;P/5#,,GY+&QFV4P/5#+,GY+&Q,P/5#+,GX#&Z1P/5#+,GX#&c+',
+  'P/5#+,GX#&Q(P/5#+,GX#&V;P/5#,,GX#&QFV4P/5#+,GX#&Q,P/5#+,G^O&Z1P/5#+,G^O&c+P/5#+,G^O&Q(P/5#+,G^O&',
+  'V;P/5#,,G^O&QFV4P/5#+,G^O&Q,P/5#,,GZ2&QFV4P/5#+,GZ2&Q,P/5#,,GZC&QFV4P/5#+,GZC&Q,P/5#+,GX7&QFP/5#',
+  '+,GX7&UHP/5#+,GX7&Q(P/5#,,GX7&QFV4P/5#+,GX7&Q,P/5#+,GUH&Q(P/5#,,GUH&QFV4P/5#+,GUH&Q,P/5#+,GQ(&QF',
+  'P/5#+,GQ(&Q(P/5#+,GV;&Z1P/5#+,GV;&c+P/5#+,GV;&Q(P/5#+,GV;&V;P/5#,,GV;&QFV4P/5#+,GV;&Q,P/5#-,GQFV',
+  '4&]<QFP/5#+,GQ,&Z1P/5#+,GQ,&c+P/5#+,GQ,&Q(P/5#+,GQ,&V;P/5#,,GQ,&QFV4P/5#+,GQ,&Q,P/5#.,GQ,&U/N&S:',
+  'Q&5#.,GQ,&U/N&RHQ&5#.,GQ,&U/N&V:Q&5#.,GQ,&U/N&Q(Q&5#.,GQ,&U/N&X<Q&5#+,GY+&S:Q&5#+,GY+&RHQ&5#+,GY',
+  '+&V:Q&5#+,GY+&Q(Q&5#+,GY+&X<Q&5#+,GX#&S:Q&5#+,GX#&RHQ&5#+,GX#&V:Q&5#+,GX#&Q(Q&5#+,GX#&X<Q&5#+,G^',
+  'O&Q(Q&5#+,GS:&RHQ&5#+,GS:&Q(Q&5#+,GRH&S:Q&5#+,GRH&Q(Q&5#+,GV:&S:Q&5#+,GV:&Q(Q&5#+,GX1&S:Q&5#+,GX',
+  '1&RHQ&5#+,GX1&V:Q&5#+,GX1&Q(Q&5#+,G[)&RHQ&5#+,G[)&V:Q&5#+,G[)&Q(Q&5#+,G[5&S:Q&5#+,G[5&RHQ&5#+,G[',
+  '5&V:Q&5#+,G[5&Q(Q&5#+,GYM&RHQ&5#+,Gd<&Q(Q&5#+,GY,&S:Q&5#+,GY,&Q(Q&5#+,G^/&S:Q&5#+,G^/&Q(Q&5#+,GZ',
+  '2&S:Q&5#+,GZ2&RHQ&5#+,GZ2&V:Q&5#+,GZ2&Q(Q&5#+,GZC&RHQ&5#+,GZC&Q(Q&5#+,GX7&S:Q&5#+,GX7&RHQ&5#+,GX',
+  '7&V:Q&5#+,GX7&UHQ&5#+,GX7&Q(Q&5#+,GUH&S:Q&5#+,GUH&RHQ&5#+,GUH&V:Q&5#+,GUH&Q(Q&5#+,GUH&X<Q&5#+,GQ',
+  '(&S:Q&5#+,GQ(&RHQ&5#+,GQ(&V:Q&5#+,GQ(&Q(Q&5#+,GV;&S:Q&5#+,GV;&RHQ&5#+,GV;&V:Q&5#+,GV;&Q(Q&5#+,GV',
+  ';&X<Q&5#+,GX<&S:Q&5#+,GX<&Q(Q&5#,,GX<&]<QFQ&5#+,GQ,&S:Q&5#+,GQ,&RHQ&5#+,GQ,&V:Q&5#+,GQ,&Q(Q&5#+,',
+  'GQ,&X<Q&5#.,GQ,&U/N&Q(SH5#.,GQ,&U/N&X<SH5#+,GY+&Q(SH5#+,GY+&X<SH5#+,GX#&Q(SH5#+,GX#&X<SH5#+,G^O&',
+  'Q(SH5#+,G^O&X<SH5#+,GX1&Q(SH5#+,GX1&X<SH5#+,GY2&Q(SH5#+,GY2&X<SH5#+,GX7&UHSH5#+,GX7&Q(SH5#+,GUH&',
+  'Q(SH5#+,GV;&Q(SH5#+,GV;&X<SH5#+,GQ,&Q(SH5#+,GQ,&X<SH5#+,Gd>&d:SH5#+,Gd>&g.SH5#+,Gd>&d;SH5#,,GYM&',
+  'QFV4PG5#+,GYM&Q,PG5#,,GY,&QFV4PG5#+,GY,&Q,PG5#,,G^/&QFV4PG5#+,G^/&Q,PG5#,,GX1&QFV4PG5#+,GX1&Q,PG',
+  '5#,,GY2&QFV4PG5#+,GY2&Q,PG5#,,GRH&QFV4PG5#+,GRH&Q,PG5#,,GS:&QFV4PG5#+,GS:&Q,PG5#,,GV:&QFV4PG5#+,',
+  'GV:&Q,PG5#,,G[)&QFV4PG5#+,G[)&Q,PG5#,,G[5&QFV4PG5#+,G[5&Q,PG5#+,GY2&S:PG5#+,GY2&RHPG5#+,GY2&V:PG',
+  '5#+,GY2&Q(PG5#+,GY2&Z1PG5#+,GX1&Z1PG5#+,G[)&Z1PG5#+,G[5&Z1PG5#,,GYM&QFV4P/5#+,GYM&Q,P/5#,,GY,&QF',
+  'V4P/5#+,GY,&Q,P/5#,,G^/&QFV4P/5#+,G^/&Q,P/5#,,GX1&QFV4P/5#+,GX1&Q,P/5#,,GY2&QFV4P/5#+,GY2&Q,P/5#',
+  ',,GRH&QFV4P/5#+,GRH&Q,P/5#,,GS:&QFV4P/5#+,GS:&Q,P/5#,,GV:&QFV4P/5#+,GV:&Q,P/5#,,G[)&QFV4P/5#+,G[',
+  ')&Q,P/5#,,G[5&QFV4P/5#+,G[5&Q,P/5#+,GY2&S:P/5#+,GY2&RHP/5#+,GY2&V:P/5#+,GY2&Q(P/5#+,GY2&Z1P/5#+,',
+  'GX1&Z1P/5#+,G[)&Z1P/5#+,G[5&Z1P/5#+,GY2&S:Q&5#+,GY2&RHQ&5#+,GY2&V:Q&5#+,GY2&Q(Q&5#+,GX1&X<Q&5#+,',
+  'GY2&X<Q&5#+,GYM&Q(Q&5#+,GX1&S:SH5#+,GX1&RHSH5#+,GX1&V:SH5#+,GY2&S:SH5#+,GY2&RHSH5#+,GY2&V:SH5#+,',
+  'GYM&Q(SH5#+,Gd<&Q(SH5#+,GQF&m7P/5#+,GQF&m7PG5#&Ps+OY!#&Ps+LY!#(,GR},Ps,#),GoEv0R}-#),GoEv0R}.#),',
+  'GoEv0R}/#),GoEv0R}0#),GoEv0R}1#),GR}2}%R}3#(,G}%}&#(,GR}4}&#(,GR}5}&#),G}%R}6R}7#(,GR}8R}9#*,GR}',
+  ':}%R};R}<#(,GR}=}&#(,GR}>R}?#(,GR}@Ps,#-,GX#&S:&Q(Q&5#-,GX#&RH&S:P/5#-,GX#&RH&S:Q&5#-,GX#&RH&Q(Q',
+  '&5#-,GX#&V:&Q(Q&5#-,GX#&Q(&S:Q&5#-,GX#&Q(&RHQ&5#-,GX#&Q(&V:Q&5#-,GS:&Q(&RHP/5#-,GS:&Q(&RHQ&5#-,G',
+  'RH&Q(&Q,P/5#.,GRH&Q(&QFV4P/5#-,GX1&RH&S:Q&5#-,GX1&S:&RHQ&5#.,GX1&S:&QFV4P/5#-,GX1&Q(&RHP/5#-,GX1',
+  '&Q(&RHQ&5#-,GX1&Q(&S:Q&5#-,GX1&Q(&Q(P/5#-,GX1&Q(&Q(Q&5#-,G[)&RH&RHP/5#-,G[)&RH&RHQ&5#-,G[)&Q(&Q(',
+  'P/5#-,GY2&RH&Q(P/5#-,GY2&RH&Q(Q&5#-,GY2&S:&Q,P/5#-,GY2&Q(&V:P/5#-,GY2&Q(&V:Q&5#-,GY2&Q(&Q(P/5#-,',
+  'GY2&Q(&Q(Q&5#.,G[5&RH&QFV4P/5#-,G[5&V:&Q(P/5#-,G[5&V:&Q(Q&5#-,GYM&Q(&RHP/5#-,GYM&Q(&RHQ&5#-,GYM&',
+  'Q(&Q(Q&5#-,GYM&Q(&Q,P/5#-,GY,&S:&Q(P/5#-,GY,&Q(&Q(P/5#-,GY,&Q(&Q(Q&5#.,GY,&Q(&QFV4P/5#-,G^/&Q(&Q',
+  '(P/5#-,G^/&Q(&Q,P/5#.,G^/&Q(&QFV4P/5#-,GZ2&V:&Q(P/5#-,GZ2&V:&Q(Q&5#-,GZC&Q(&RHP/5#-,GZC&Q(&Q(P/5',
+  '#-,GUH&RH&Q(P/5#-,GUH&RH&Q,P/5#.,GUH&RH&QFV4P/5#-,GUH&S:&S:Q&5#-,GUH&S:&S:P/5#-,GUH&V:&Q(P/5#-,G',
+  'UH&V:&Q(Q&5#-,GUH&Q(&RHP/5#-,GUH&Q(&RHQ&5#-,GQ(&RH&S:Q&5#-,GQ(&RH&Q(Q&5#-,GQ(&RH&Q,P/5#-,GQ(&S:&',
+  'RHQ&5#-,GQ(&S:&Q(Q&5#-,GQ(&V:&S:Q&5#-,GQ(&V:&Q(Q&5&-,GQ(&S:&V:Q&5#-,GX<&Q(&S:Q&5#-,GX<&Q(&Q(Q&5#',
+  '-,GV;&RH&Q(Q&5#.,GV;&RH&QFV4P/5#-,GV;&S:&Q(P/5#-,GV;&S:&Q(Q&5#.,GV;&S:&QFV4P/5#-,GV;&Q(&Q,P/5#.,',
+  'GV;&Q(&QFV4P/5#-,GQ,&Q(&Q(P/5#-,GQ,&Q(&Q(Q&5#-,GY+&V:&Q,P/5#-,GX#&S:&Q,P/5#.,GX#&S:&QFV4P/5#-,GX',
+  '#&V:&Q,P/5#.,GX#&V:&QFV4P/5#-,GX#&Q(&Q,P/5#.,GX#&Q(&QFV4P/5#-,GS:&Q(&Q,P/5#.,GS:&RH&QFV4P/5#.,GS',
+  ':&Q(&QFV4P/5#.,GX1&V:&QFV4P/5#-,G[)&RH&Q,P/5#-,GY2&RH&Q,P/5#-,G[5&RH&Q,P/5#-,GUH&S:&Q,P/5#-,GUH&',
+  'Q(&Q,P/5#-,GQ,&RH&Q,P/5#-,GQ,&S:&Q,P/5#-,GQ,&Q(&Q,P/5#-,GQ(&Q(&Q,P/5#-,GZC&Q(&Q,P/5#-,GV;&RH&Q,P',
+  '/5#-,GZC&Q(&RHQ&5#-,GUH&RH&Q(Q&5#-,GY,&Q(&Q,P/5#-,GX7&Q(&Q,P/5#-,GV;&S:&RHQ&5#-,GQ(&V:&Q,P/5#-,G',
+  'UH&S:&Q(Q&5#-,GX7&Q(&Q(P/5#-,GUH&S:&Q(P/5#-,GV;&S:&RHP/5#-,GS:&RH&Q,P/5#-,GRH&S:&Q,P/5#-,GQ(&S:&',
+  'Q,P/5#-,GZ2&Q(&Q,P/5#-,GY+&RH&Q,P/5#-,GX7&Q(&Q(Q&5#-,GY,&S:&Q(Q&5#-,G[)&Q(&Q(Q&5#-,GX1&V:&Q,P/5#',
+  '-,GV;&S:&Q,P/5,(,GR}AR}BE.,GPs-Ps.d?Ps/UE#PG5#.,GR}CPs.d?Ps/UE#PG5#),GR}DPG5#),GR}EPG5#),GR}FPG5',
+  '#),GR}GPG5#),GR}HPG5#),Gs(PG5#),GPs0PG5#),GPs-PG5#),GPb8s(Ps0#&,GR}I#%R}J##),GR}KR}LR}M#),GR}NUM',
+  'R}O#),GSP!UMSP##%P@SP%!#SP&#%P@SP(!#SP)#%P@SP*!#SP+#%P@SP,!#SP-#%P@SP.!#SP/#%P@SP0!#SP1#%P@SP2!#',
+  'SP3#%P@SP4!#SP5#%P@SP6!#SP7#%P@SP8!#SP9#%P@SP:!#SP;#%P@SP<!#SP=#%P@SP>!#SP?#%P@SP@!#SPA#%P@SPB!#',
+  'SPC#%P@SPD!#SPE#)[-5P!PLW.#*[-5P!PLRAW.#+[-5P!PLRAX,UE#)[-5P!PL[/#)[-5P!PLeL#*[-5P!PL^+P%#*[-5P!',
+  'PL]+P%#,[-5P!PLOP<j=R%#,[-5P!PLLP<j=R%!,[-5P!PLLP<j=SPF#*[-5P!PLRFk5+(FGOQ>#(FGLQ>#)FP0S.OQ>#)FP',
+  '0S.LQ>#(FV9OQ>#(FV9LQ>#&FPs1V9#)FGOQ>P6#)FGLQ>P6#)FS.OQ>P6#)FS.LQ>P6#)FV9OQ>P6#)FV9LQ>P6#(FPs1V9',
+  'P6#)FP#rOOQ>#)FP#rOLQ>#+[-5P!PLP3P8PV+#*[-5P!PLb%Y?#*[-5P!PLWBY?#*[-5P!PLR+U*#+[-5P!PLg0R+U*#*[-',
+  '5P!PLOY!#*[-5P!PLLY!#+[-5P!PLOZAR%#+[-5P!PLLZAR%#,[-5P!PLO^6[8R%#,[-5P!PLL^6[8R%#,[-5P!PLOP4j=R%',
+  '#,[-5P!PLLP4j=R%#,[-5P!PLOP0W!R%#,[-5P!PLLP0W!R%#+[-5P!PLOW!R%#+[-5P!PLLW!R%#+[-5P!PLOZ<R%#+[-5P',
+  '!PLLZ<R%#,[-5P!PLOP<Z<R%#,[-5P!PLLP<Z<R%#%Ps2P8#&P<Ps2P8#+[-5P!PLOP&R%#+[-5P!PLLP&R%#%e8k&#%Ps3k',
+  '&#%g0k&#&P0g0k&#&e8R+U*#&Ps3R+U*#&g0R+U*#%%W.#&%RAW.#&%X,UE%%%eL#%%[/#&%]+P%#&%^+P%#&%b%Y?#&%OY!',
+  '#&%LY!#(%OZAR%#(%LZAR%#)%O^6[8R%#)%L^6[8R%#&%D##%%jK#%%Y##&%Q1##%%w9#&%W2##&%W3##&%Z@#%&%_+^K#&%',
+  'm/##&%rF##&%rG]G)(,m7PG5#),oF&m7N#(,s)PG5#&,W/SPG#(,s*PG5%(,d:PG5#(,d:SH5#(,g.PG5#(,g.SH5#(,d;PG',
+  '5#(,d;SH5#(,d>PG5#(,d>SH5#(,k1PG5#(,k1SH5#),!U/PG5#,,!QF&g/NPG5#,,!QF&g/NP/5#,,!QF&U/NPG5#,,!QF&',
+  'U/NP/5#,,!Y<&U/NPG5#,,!Y<&U/NP/5#,,!QF&U/P6PG5#,,!QF&U/P6P/5#,,!Q,&U/NPG5#,,!Q,&U/NP/5#,,!Q,&U/N',
+  'Q&5#,,!Q,&U/NSH5#),!QFPG5#),!QFP/5#),!Y+PG5#),!Y+P/5#),!Y+Q&5#),!Y+SH5#*,!X#x*PG5#*,!X#x*P/5#),!',
+  'X#PG5#),!X#P/5#),!X#Q&5#),!X#SH5#),!^OPG5#),!^OP/5#),!^OQ&5#),!^OSH5#),!S:PG5#),!S:P/5#),!S:Q&5#',
+  '),!S:SH5#),!RHPG5#),!RHP/5#),!RHQ&5#),!RHSH5#),!V:PG5#),!V:P/5#),!V:Q&5#),!V:SH5#),!a@PG5#),!a@P',
+  '/5#),!k0PG5#),!k0P/5#),!Z1PG5#),!Z1P/5#),!c+PG5#),!c+P/5#),!X1PG5#),!X1P/5#),!X1Q&5#),!X1SH5#),!',
+  'Y2PG5#),!Y2P/5#),!Y2Q&5#),!Y2SH5#),![)PG5#),![)P/5#),![)Q&5#),![)SH5#),![5PG5#),![5P/5#),![5Q&5#',
+  '),![5SH5#),!YMPG5#),!YMP/5#),!YMQ&5#),!YMSH5#),!d<PG5#),!d<P/5#),!d<Q&5#),!d<SH5#),!Y,PG5#),!Y,P',
+  '/5#),!Y,Q&5#),!Y,SH5#),!^/PG5#),!^/P/5#),!^/Q&5#),!^/SH5#),!Z2PG5#),!Z2P/5#),!Z2Q&5#),!Z2SH5#),!',
+  'ZCPG5#),!ZCP/5#),!ZCQ&5#),!ZCSH5#),!X7PG5#),!X7P/5#),!X7Q&5#),!X7SH5#),!UHPG5#),!UHP/5#),!UHQ&5#',
+  '),!UHSH5#),!Q(PG5#),!Q(P/5#),!Q(Q&5#),!Q(SH5#),!V;PG5#),!V;P/5#),!V;Q&5#),!V;SH5#),!X<PG5#),!X<P',
+  '/5#),!X<Q&5#),!X<SH5#),!Y<PG5#),!Y<P/5#*,!QFV4PG5#*,!QFV4P/5#),!Q,PG5#),!Q,P/5#),!Q,Q&5#),!Q,SH5',
+  '#.,GUH&QF&g/NPG5#.,GUH&QF&g/NP/5#.,GUH&QF&U/NPG5#.,GUH&QF&U/NP/5#.,GUH&QF&U/P6PG5#.,GUH&QF&U/P6P',
+  '/5#+,GUH&QFPG5#+,GUH&QFP/5&#SPH!&SPISPJP%!(T,g=PQ5_6!#SPK%&S7^+P%#&S7[MP%#&S7D##&S7m/##&S7rF##%S',
+  '7jK#%S7i:#&S7OY!#&S7LY!#%S7Y##&S7Q1##%S7W.#%S7w9#&S7X,UE#%S7^K#&S74T,#&S74P.#&S74P3#&S74P=#&S74P',
+  'I#&S74Q%#&S74QE#&S74R!#&S74QD#&S74R*#%S7[/#%S7eL#&S7W2##&S7Z@##&S7W3##&S7]+P%#&S7rG]G#)S7+)!:#)S',
+  '7+)!P;#)S7+)!T?#)S7+)!SJ#)S7+)!P5#)S7+)!V!#)S7+)!S9#)S7+)!SB#)S7+)!P7#)S7+)!U3#)S7+)!S>#)S7+)!Q@',
+  '#)S7+)!S&#)S7+)!R<#)S7+)!P2#)S7+)!TE#)S7+)!W4#)S7+)!Q2#)S7+)!Q3#)S7+)!S;#)S7+)!P+#)S7+)!SC#)S7+)',
+  '!U+#)S7+)!TF#)S7+)!T-#)S7+)!T%#(S7OP&R%#&S7_+^K#(S7LP&R%#&S7U,V8#&S7R+U*#&S7V0V8#)S7+%!:#)S7+%!P',
+  ';#)S7+%!T?#)S7+%!SJ#)S7+%!P5#)S7+%!V!#)S7+%!S9#)S7+%!SB#)S7+%!P7#)S7+%!U3#)S7+%!S>#)S7+%!Q@#)S7+',
+  '%!S&#)S7+%!R<#)S7+%!P2#)S7+%!TE#)S7+%!W4#)S7+%!Q2#)S7+%!Q3#)S7+%!S;#)S7+%!P+#)S7+%!SC#)S7+%!U+#)',
+  'S7+%!TF#)S7+%!T-#)S7+%!T%#(S7OZAR%#&S7PLU*#(S7LZAR%#%S7S.#(S7OP<Y!#(S7LP<Y!#(R?RAX,UE#(R?OZ<R%#(',
+  'R?LZ<R%#&R?RAW.#(R?PFPJP8#(R?PF!_!#)R?PF!%:#)R?PF!%P7#)R?PF!%P+#)R?PF!%P5#)R?PF!%P2#)R?PF!%S)#)R',
+  '?PF!%YK#)R?PF!%[7#)R?PF!%^D#)R?n5PnCbEP%#(R?PF!:#(R?PF!P7#(R?PF!P+#(R?PF!P5#(R?PF!P2#(R?PF!Q*#(R',
+  '?PF!_##(R?PF!_B#(R?PF!a%#(R?PF!^B#(R?PF!S0#(R?PF!^J#(R?PF!_A#(R?PF!_E#(R?PF!]F#(R?PF!S+#(R?PF!aC',
+  '#(R?PF!^D#(R?PF!Z7#(R?PF!P?#(R?PF!S##(R?PF!ZL#(R?PF![4#(R?PF!ZM#(R?PF!YC#(R?PF!R&#(R?PF!Z;#(R?PF',
+  '!dE#(R?PF!YE#(R?PF!]I#(R?PF!RK#(R?PF!]##(R?PF!YJ#(R?PF![*#(R?PF!_?#(R?PF!S)#(R?PF!YK#(R?PF![7#(R',
+  '?PF!R>#(R?PF!b9#(R?PF!_0#(R?PF!b)#(R?PF!]K#(R?PF!UM#(R?PF!R<#)R?PFh*bEP%#)R?PFPY/bEP%#&R?CiL#(R?',
+  'C!k6#(R?C!y*#(R?C!PSK#(R?C!k7#(R?C!y1#(R?C!y2#(R?C!k8#(R?C!y+#(R?C!k9#(R?C!y3#(R?C!y4#(R?C!y5#(R',
+  '?C!y6#(R?C!PSL#(R?C!PSM#(R?C!y/#(R?C!k:#(R?C!k;#(R?C!y,#(R?C!y0#(R?C!k<#(R?C!y-#(R?C!iJ#(R?C!iK#',
+  '(R?C!y.#(R?C!k=#(R?C!k>#(R?C!k?#(R?C!k@#(R?C!kA((R?C!:#(R?C![1#(R?C!S)#(R?C!s!#(R?C!t)#(R?C!P5&(',
+  'R?C!PSH#(R?C!c1#(R?C!P2#(R?C!UM#(R?C!PSI#(R?C!Y0&(R?C![7#(R?C!P+#(R?C!PSJ#(R?C!^.#(R?C!_D#(R?C!Y',
+  'K&(R?C!iG#(R?C!-#(R?C!P7(&S7P_M##&S7w;##&S7VC##%S7V9#&S7o4QG#&S7rJ##&S7PV1#%(R?SPLQKPL#&R?Q<B#&R',
+  '?S3B#&R?Q+B#&R?S/B#&R?P4P&#&R?P<QH/&PZGaIPkK#&PZGaI[##&PZGaIP_I#&SPMPs4S8#%Ps4S8&)EP;(Ps5:#)EP;(',
+  'SPNP5#)EP;(SPOP7#)EP;(SQ!P2#)EP;(SQ#P+#)EP;(Ps6S6#)EP;(SQ%_:#)EP;(Ps7aF#)EP;(SQ&a0#)EP;(SQ(aE#)E',
+  'P;(SQ)UG#)EP;(SQ*f(%)EP;(SQ+g:#)EP;(SQ,mI#)EP;(SQ-Q*#)EP;(SQ.a%#)EP;(SQ/_##)EP;(SQ0^B#)EP;(SQ1_B',
+  '#)EP;(SQ2RK#)EP;(SQ3[*#)EP;(SQ4]##)EP;(SQ5_?#)EP;(SQ6YJ#)EP;(Ps8S##)EP;(SQ7ZM#)EP;(SQ8ZL#)EP;(SQ',
+  '9YC#)EP;(SQ:[4#)EP;(Ps9R:#)EP;(SQ;XK#)EP;(SQ<X.#)EP;(SQ=b&#)EP;(SQ>e3#)EP;(SQ?a.#)EP;(SQ@y<#)EP;',
+  '(SQAt-#)EP;(SQBy=%)EP;(SQCR>#)EP;(SQDb)#)EP;(SQEb9#)EP;(Ps:]K#)EP;(SQF_0#)EP;(SQGS0#)EP;(Ps;_E#)',
+  'EP;(SQH^J#)EP;(SQI]F#)EP;(SQJ_A#)EP;(SQKS+#)EP;(Ps<Z7#)EP;(SQLaC#)EP;(Ps=P?#)EP;(SQM^D#)EP;(SQNU',
+  'M#)EP;(SQO^.#)EP;(SR!_D#)EP;(SR#_!%)EP;(SR%X6#)EP;(SR&_;%)EP;(SR(f-#)EP;(SR)PZH#)EP;(SR*SR+#)EP;',
+  '(SR,UB#)EP;(SR-PZ1#)EP;(SR.SR/#)EP;(SR0y?#)EP;(SR1P_C#)EP;(SR2SR3#)EP;(SR4SR5#)EP;(SR6SR7#)EP;(S',
+  'R8SR9#)EP;(SR:SR;#)EP;(SR<t7#)EP;(SR=P3&(EP;0SR>#(EP;0SR?#(EP;0SR@#(EP;0SRA#(EP;0SRB#(EP;0SRC#(E',
+  'P;0SRD#(EP;0SRE#(EP;0SRF#(EP;0SRG#(EP;0SRH#(EP;0SRI#(EP;0SRJ#(EP;0SRKG)EP;RDSRL_C#)EP;RDSRMl6#)E',
+  'P;RDSRNPY-#)EP;RDSROSS!#)EP;RDSS#SS%#)EP;RDSS&SS(#)EP;RDSS)Pn&#)EP;RDSS*{N#)EP;RDSS+SS,#)EP;RDSS',
+  '-SS.#)EP;RDSS/SS0#)EP;RDSS1Ps>#)EP;RDSS2uI#)EP;RDSS3SS4#)EP;RDSS5PXN#)EP;RDSS6SS7#)EP;RDSS8Ps?#)',
+  'EP;RDSS9SS:#)EP;RDSS;SS<#)EP;j4SS=SS>#)EP;j4SS?SS@#)EP;RDSSA}(#)EP;RDSSB|,#(EP;RDSSC#)EP;j4SSDSS',
+  'E#)EP;j4SSFSSG#)EP;RDSSHSSI#)EP;RDSSJ|%#(EP;RDSSK#)EP;RDSSLPs@#(EP;RDSSM#(EP;RDSSN#)EP;RDSSO[%#(',
+  'EP;RDST!#(EP;RDST##(EP;RDST%#)EP;j4ST&ST(#(EP;RDST)#(EP;RDST*#)EP;RDST+PXE#(EP;RDST,#(EP;RDST-#)',
+  'EP;RDST.ST/#)EP;RDST0ST1#(EP;RDST2#(EP;RDST3#(EP;RDST4#(EP;RDST5#(EP;RDST6#(EP;RDST7#(EP;RDST8#(',
+  'EP;RDST9#(EP;RDST:#)EP;RDST;PRE#(EP;RDST<#)EP;RDST=hN#(EP;RDST>#(EP;RDST?#(EP;RDST@#(EP;RDSTA#(E',
+  'P;RDSTB#(EP;RDSTC#(EP;RDSTD#(EP;RDSTE#(EP;RDSTF#(EP;RDSTG#(EP;RDSTH#)EP;RDSTI{6#)EP;RDSTJSTK#)EP',
+  ';RDSTLPsA#)EP;RDSTMPn7#)EP;RDSTNB#(EP;RDSTO#)EP;RDSU!SU##(EP;RDSU%#(EP;RDSU&#*EP;RDSU(SU)v1#)EP;',
+  'RDSU*v1#*EP;RDSU+v1})#)EP;RDSU,{0#(EP;RDSU-#(EP;RDSU.#)EP;j4SU/SU0#(EP;RDSU1#(EP;RDSU2#(EP;RDSU3',
+  '#(EP;RDSU4#(EP;RDSU5#)EP;RDSU6SU7#(EP;RDSU8#(EP;RDSU9#(EP;RDSU:#(EP;RDSU;#(EP;RDSU<#)EP;RD]4SU=#',
+  ')EP;RD]4SU>#)EP;RD]4SU?#)EP;RD]4SU@#)EP;RD]4SUA#)EP;RD]4SUB#)EP;RD]4SUC#)EP;RD]4SUD#)EP;RD]4SUE#',
+  ')EP;RD]4SUF#)EP;RD]4SUG#)EP;RD]4SUH#)EP;RD]4SUI#)EP;RD]4SUJ#)EP;RD]4SUK#)EP;RD]4SUL#)EP;RD]4SUM#',
+  ')EP;RD]4SUN#)EP;RD]4SUO#)EP;RD]4SV!#)EP;RD]4SV##)EP;RD]4SV%#)EP;RD]4SV&#)EP;RD]4SV(#)EP;RD]4SV)#',
+  ')EP;RD]4SV*#)EP;RD]4SV+#)EP;RD]4SV,#)EP;RD]4SV-*(W=_.[#U*#(W=_.[#P8#&W=dIP%)&W=DP.#&W=DP3#&W=DP=',
+  '#&W=DPI#&W=DQ%#&W=DQE#&W=DR!#&W=DQD#&W=DR*#&W=DU!#&W=DX>#&W=D]%#&W=D]L#&W=DZN#&W=DbC#&W=D[+#&W=D',
+  'cN#&W=DZ5#(W=DP.R-#(W=DP3R-#(W=DP=R-#(W=DPIR-#(W=DQ%R-#(W=DQER-#(W=DR!R-#(W=DQDR-#(W=DR*R-#(W=DP',
+  '.RN#(W=DP3RN#(W=DP=RN#(W=DPIRN#(W=DQ%RN#(W=DQERN#(W=DR!RN#(W=DQDRN#(W=DR*RN#(W=DU!RN#(W=DX>RN#(W',
+  '=D]%RN#(W=D]LRN#(W=DZNRN#(W=DbCRN#(W=D[+RN#(W=DcNRN#(W=DZ5RN((W=qAzGe%#(W=qAj)l:#(W=qAj:l:#(W=qA',
+  'e7l:#(W=qAx)l:#)W=PY)n8j)l:#)W=PsBn8j)l:#(W=n8j:l:#(W=n8e7l:#)HX(_*P.Z.#)HX(_*P.Q>#)HX(_*P.PV2#(',
+  'HX(_*Q%#(HX(_*ZN#)HX(_*Q%R-#)HX(_*Q%RN#)HX(_*ZNRN#)HX(_*Q%n9#)HX(_*U!n9#)HX(_*ZNn9#*HX(_*P.R-n9#',
+  '*HX(_*Q%R-n9#*HX(_*P.RNn9#*HX(_*Q%RNn9#)HX(_*Q%l;#)HX(_*U!l;#)HX(_*ZNl;#*HX(_*P.R-l;#*HX(_*Q%R-l',
+  ';#*HX(_*P.RNl;#*HX(_*U!RNl;#*HX(_*ZNRNl;#)HX(_*U!PZI#)HX(SV.P.SV/#(HX(i&P.#(HX(PZJP.#(HX(PZKP3#(',
+  'HX(i&P3#)HX(SV0P3PsC#)HX(PZKP3PsC#(HX(qBQ%#(HX(qBU!#*HX(qBU!Z#5#(HX(PZJU!#(HX(SV1U!#(HX(i&U!#(HX',
+  '(i&]%#(HX(qBZN#*HX(qBZNZ#5#(HX(PZJZN#(HX(i&ZN#)HX(i&P.R-#)HX(i&P=R-#)HX(PZKQ%R-#)HX(qBQ%R-#)HX(i',
+  '&Q%R-#)HX(SV2Q%R-#)HX(SV3Q%R-#)HX(i&P.RN#)HX(i&Q%RN#)HX(SV4Q%PZI#)HX(SV5ZNPZI#(HP.Q>##*HP.Q>#Z#5',
+  '#(HP3j*##(HP=c?##&HPc5##&HSV6##&HPV2##&HSV7##(HP3}*##(HP=}*##(HPI}*##(HQ%}*##&HSV8##(HSV9zG##&HS',
+  'V:##&HSV;##&HSV<##&HSV=##&HSV>##&HSV?##(HSV@zG##&HT,##(HP.Z.##&HSVA##&HSVB##%SVC#%&X/SVD##&X/SVE',
+  '##&X/SVF##&X/PsD##(X/SVGPsD##&X/SVH##&X/SVI##&X/SVJ##&X/SVK##&X/SVL##&X/d?##&X/SVM##%SVN0((H0b!]',
+  '=P((Y)XB#PsE#)Y)XB#SVO]>#)Y)XB#SW!]>#(Y)XB#SW##(Y)XB#PY&#(Y)XB#l6#(Y)XB#{6#(Y)XB#SW%#(Y)XB#SW&#(',
+  'Y)XB#B#(Y)XB#pM#(Y)XB#PW.#(Y)XB#PW##(Y)XB#SW(#(Y)XB#SW)#(Y)XB#PZB#(Y)XB#Pn-#(Y)XB#PsF#)Y)XB#PsGP',
+  'sH#(Y)XB#SW*#(Y)XB#SW+#(Y)XB#SW,#(Y)XB#SW-#(Y)XB#SW.#(Y)XB#PZL#(Y)XB#[%#(Y)XB#SW/#)Y)XB#SW0a-#(Y',
+  ')XB#eC#(Y)XB#{N#(Y)XB#PsI#(Y)XB#PsJ#(Y)XB#SW1#(Y)XB#p3#)Y)XB#PsHhN#(Y)XB#j@#(Y)XB#SW2#(Y)XB#PZM#',
+  '(Y)XB#SW3#)Y)XB#|5fE#(Y)XB#Pn@#(Y)XB#SW4#(Y)XB#SW5#)Y)XB#%PY+#)Y)XB#g0SW6#*Y)XB#Fb@PDQO&]5!:#&]5',
+  '!P5#&]5!P;#&]5!SW7#&]5!S9#&]5!SJ#&]5!P7#&]5!U+#&]5!T%#&]5!kD#&]5!U3#&]5!S>#&]5!W4#&]5!Q@#&]5!S&#',
+  '&]5!R<#&]5!|1#&]5!sF#&]5!P+#&]5!TE#&]5!z,#&]5!Q2#&]5!Q3#&]5!S;#&]5!PZN#&]5!Z9#&]5!WB#&]5!SB#&]5!',
+  'TF(&XC!:#&XC!SW8#&XC!SJ#&XC!Q@#&XC!SW9#&XC!Q2#&XC!SW:#&XC!PZH#&XC!W4#&XC!P;#&XC!S&#&XC!P2#&XC!SW',
+  ';#&XC!S;#&XC!mN#&XC!SW<#&XC!Q3#&XC!SW=#&XC!P+#&XC!sF#&XC!TF#&XC!R<#&XC!SW>#&XC!TE#&XC!|O#&XC!P7#',
+  '&XC!P5#&XC!SW?#&XC!S>#&XC!SW@#&XC!SWA#&XC!UI#&XC!S9#&XC!SWB#&XC!w:#&XC!SWC#&XC!_<#&XC!U0#&XC!SWD',
+  '#&XC!PZN#&XC!SWE#&XC!Z!#&XC!PY:#&XC!SWF#&XC!SWG#&XC!SWH#&XC!SWI#&XC!fG#&XC!SWJ4(Q-]Dk,P%#(Q-]D4P',
+  '.#(Q-]D4P3#(Q-]D4P=#(Q-]D4PI#(Q-]D4Q%#(Q-]D4QE#(Q-]D4R!#(Q-]D4QD#(Q-]D4R*#(Q-]DDU!#(Q-]DDX>#(Q-]',
+  'DD]%#(Q-]DD]L#(Q-]DDZN#(Q-]DDbC#(Q-]DD[+#(Q-]DDcN#(Q-]DDZ5#)Q-]DDP.R-#)Q-]DDP3R-#)Q-]DDP=R-#)Q-]',
+  'DDPIR-#)Q-]DDQ%R-#)Q-]DDQER-#)Q-]DDR!R-#)Q-]DDQDR-#)Q-]DDR*R-)(KP(!:#(KP(!cB#(KP(!a%#(KP(!_:#(KP',
+  '(!P5#(KP(!b=#(KP(!_;#(KP(!YE#(KP(!Y4#(KP(!P7#(KP(!Q*#(KP(!_-#(KP(!b%#(KP(!WB#(KP(!a;#(KP(!P2#(KP',
+  '(!XK#(KP(!Y&#(KP(!_B#(KP(!cC#(KP(!g+#(KP(!Z7#(KP(!P+#(KP(!SWK#(KP(!PT;#(KP(!PU5#(KP(!h,#(KP(!SWL',
+  '#(KP(!^M#(KP(!U0#(KP(!UI#(KP(!SWM#(KP(U:P.#(KP(U:Q%#(KP(U:U!#(KP(U:ZN.(KP(!c1#)KP(!PiEd8#)KP(!Pi',
+  'Dd8#&^!!SWN#&^!!SWO#&^!!SX!#&^!!SX##&^!!SX%#&^!!SX&#&^!!SX(#&^!!SX)#&^!!SX*#&^!!SX+#&^!!SX,#&^!!',
+  'SX-#&^!!SX.#&^!!SX/#&^!!SX0#&^!!SX1#&^!!SX2#&^!!Z5#&^!!SX3#&^!!SX4#&^!!SX5#&^!!SX6#&^!!SX7#&^!!S',
+  'X8#&^!!Pa,#&^!!SX9#(^!!R*R-*(KY8!Z9#(KY8!gJ#(KY8!SX:#(KY8!PsK#(KY8!P5#(KY8!SX;#(KY8!SX<#(KY8!{G#',
+  '(KY8!SX=#(KY8!P7#(KY8!SX>#(KY8!SX?#(KY8!SX@#(KY8!PsL#(KY8!SXA#(KY8!SXB#(KY8!SXC#(KY8!t:#(KY8!P1#',
+  '(KY8!P+#(KY8!SXD#(KY8!SXE#(KY8!SXF#(KY8!SXG#(KY8!g,#(KY8!P2#(KY8!XE#(KY8!h,#(KY8!R&#(KY8!SXH#(KY',
+  '8!SXI#(KY8!v+#(KY8!{E#(KY8!i>#(KY8!b<#(KY8!YK#(KY8!S)#(KY8!}!#)FKY8!Z9#)FKY8!PsK#)FKY8!{G#)FKY8!',
+  'PsL#)FKY8!t:*&[D!SXJ#&[D!a=#&[D!SXK#&[D!VF#&[D!a,#&[D!]I#&[D!_!#&[D!e(#&[D!SXL#&[D!m6#&[D!h1#&[D',
+  '!X7#&[D![2#&[D!d7#&[D!a?#&[D!SXM#&[D!W8#&[D!f3#&[D!SXN#&[D!Y,#&[D!e3#&[D!PsM#&[D!SXO#&[D!SY!#&[D',
+  '!SY##&[D!^/#&[D!P?#&[D!P7#&[D!P+#&[D!PX4%&[D_.q/#(KX%#:#(KX%#P7#(KX%#P+#(KX%#Q*#(KX%#_B#(KX%#S=#',
+  '(KX%#bB#(KX%#cM#(KX%#UL#(KX%#UG#(KX%#kC#(KX%#S+#(KX%#^D#(KX%#S6#(KX%#aF#(KX%#aE#(KX%#W0#(KX%#R:#',
+  '(KX%#T.#(KX%#YF#(KX%#S##(KX%#[4#(KX%#RK#(KX%#]##(KX%#YJ#(KX%#S)#(KX%#WJ#(KX%#iN#(KX%#R>#(KX%#_0#',
+  '(KX%#RO#(KX%#S0#(KX%#X6#(KX%#UF#(KX%#YD#(KX%#R&)(KX%#SY%#(KX%#SY&#(KX%#SY(#(KX%#SY)#(KX%#SY*#(KX',
+  '%#SY+#(KX%#SY,#(KX%#SY-#(KX%_.q/#(KX%DP.#(KX%DP3#(KX%DU!#(KX%DX>#(KX%DR-O)U2)!RMP7#)U2)!RMP5#)U2',
+  ')!RM:#)U2)!RMf.#)U2)!RMP2#)U2)!RMXE#)U2)!V%P7#)U2)!V%P5#)U2)!V%:#)U2)!V%f.#)U2)!V%P2#)U2)!V%XE#(',
+  'U2)!f1#(U2)!v2#(U2)!g8#(U2)!p6#(U2)!SB#(U2)!j##(U2)!p3#(U2)!p4#(U2)!p7#(U2)!yG#(U2)!p8#(U2)!PUB#',
+  '(U2)!PsN#(U2)!h,#(U2)!kB#(U2)!jL#(U2)!t2#(U2)!g+#(U2)!t/#(U2)!a;#(U2)!yE#(U2)!cC#(U2)!_-#(U2)!b%',
+  '#(U2)!WB#(U2)!eO#(U2)!rL#(U2)!PZO#)U2%!RMP7#)U2%!RMP5#)U2%!RM:#)U2%!RMf.#)U2%!RMP2#)U2%!RMXE#)U2',
+  '%!V%P7#)U2%!V%P5#)U2%!V%:#)U2%!V%f.#)U2%!V%P2#)U2%!V%XE#(U2%!f1#(U2%!v2#(U2%!g8#(U2%!p6#(U2%!SB#',
+  '(U2%!j##(U2%!p3#(U2%!p4#(U2%!p7#(U2%!yG#(U2%!p8#(U2%!PUB#(U2%!PsN#(U2%!h,#(U2%!kB#(U2%!jL#(U2%!t',
+  '2#(U2%!g+#(U2%!t/#(U2%!a;#(U2%!yE#(U2%!cC#(U2%!_-#(U2%!b%#(U2%!WB#(U2%!eO#(U2%!rL#(U2%!PZO#&XI!S',
+  'Y.#&XI!Pp%#&XI!SY/#&XI!mL#&XI!SY0#&XI!]F#&XI!SY1#&XI!Pl+#&XI!SY2#&XI!SY3#&XI!SY4#&XI!SY5#&XI!SY6',
+  '#&XI!SY7#&XI!SY8#&XI!Pq;#&XI!n8#&XI!SY9#&XI!SY:#&XI!SY;#&XI!SY<#&XI!SY=#&XI!SY>#&XI!PsO#&XI!WC#&',
+  'XI!SY?#&XI!V5#&XI!Ps@#&XI!b8#&XI!f.#&XI!SY@#&XI!W8#&XI!q6#&XI!SYA#&XI!l-#&XI!Q0#&XI!SYB#&XI!SYC#',
+  '&XI!}(#&XI!SYD#&XI!SYE#&XI!T&#&XI!qC#&XI!z=#&XI!SYF#&XI!n!#&XI!Pt!#&XI!SYG#&Z%!QF#&Z%!T.#&Z%!S+#',
+  '&Z%!UG#&Z%!cM#&Z%!VF#&Z%!SYH#&Z%!R>#&Z%!S0#&Z%!SYI#&Z%!XF#&Z%!Pt##&Z%!S=#&Z%!YF#&Z%!P[!#&Z%!Pc##',
+  '&Z%!SYJ#&Z%!SYK#&Z%!SYL#&Z%!Y<#&Z%!R&#&Z%!S)#&Z%!:#&Z%!P5#&Z%!P7#&Z%!P2#&Z%!P+#&Z%!T8#&Z%!Y=#&Z%',
+  '!XE&&Z%4T,#&Z%4P.#&Z%4P3#&Z%4P=#&Z%4PI#&Z%4Q%#&Z%4QE#&Z%4R!#&Z%4QD#&Z%4R*+(V()!:#(V()!U-#(V()!Y,',
+  '#(V()!f.#(V()!Pt%#(V()!VB#(V()!Pt&#(V()!P5#(V()!Pt(#(V()!R&#(V()!Pt)#(V()!P7#(V()!Q*#(V()!Pt*#(V',
+  '()!PX7#(V()!RO#(V()!RK#(V()!S##(V()!P2#(V()!Pt+#(V()!R:#(V()!Pt,#(V()!S0#(V()!UF#(V()!S+#(V()!Pt',
+  '-#(V()!]!#(V()!Pt.#(V()!cK#(V()!XF#(V()!P+#(V()!UM#(V()!VF#(V()!X;#(V()!X6#(V()!_>)(V(%!:#(V(%!U',
+  '-#(V(%!Y,#(V(%!f.#(V(%!Pt%#(V(%!VB#(V(%!Pt&#(V(%!P5#(V(%!Pt(#(V(%!R&#(V(%!Pt)#(V(%!P7#(V(%!Q*#(V',
+  '(%!Pt*#(V(%!PX7#(V(%!RO#(V(%!RK#(V(%!S##(V(%!P2#(V(%!Pt+#(V(%!R:#(V(%!Pt,#(V(%!S0#(V(%!UF#(V(%!S',
+  '+#(V(%!Pt-#(V(%!]!#(V(%!Pt.#(V(%!cK#(V(%!XF#(V(%!P+#(V(%!UM#(V(%!VF#(V(%!X;#(V(%!X6#(V(%!_>)&Z&!',
+  ':#&Z&!cB#&Z&!iO#&Z&!^M#&Z&!_:#&Z&!|8#&Z&!v)#&Z&!iE#&Z&!P5#&Z&!f,#&Z&!h=#&Z&!PQ?#&Z&!YE#&Z&!P7#&Z',
+  '&!f(#&Z&!a%#&Z&!X=#&Z&!SYM#&Z&![*#&Z&!ZM#&Z&!S##&Z&!k+#&Z&!P2#&Z&!XK#&Z&!y<#&Z&!b)#&Z&!PpH#&Z&!_',
+  'E#&Z&!Y&#&Z&!Z7#&Z&!Y4#&Z&!P+#&Z&!b=#&Z&!p5#&Z&!T-#&Z&!_;#&Z&!c%#&Z&!b##&Z&!SYN#&Z&!PU5-(X)X*!SY',
+  'O#(X)X*!oD#(X)X*!PQE#(X)X*!PoO#(X)X*!P[##(X)X*!SZ!#(X)X*!Pt/#(X)X*!SZ##(X)X*!SZ%#(X)X*!VB#(X)X*!',
+  'SZ&#(X)X*!_>#(X)X*!SZ(#(X)X*!UF#(X)X*!Pt0#(X)X*!SZ)#(X)X*!SZ*#(X)X*!SZ+#(X)X*!l,#(X)X*!SZ,#(X)X*',
+  '!SZ-#(X)X*!SZ.#(X)X*!SZ/#(X)X*!SZ0#(X)X*!SZ1#(X)X*!SZ2#(X)X*!^-#(X)X*!SZ3#(X)X*!Pt1#(X)X*!t%#(X)',
+  'X*!SZ4#(X)X*!SZ5#(X)X*!SZ6#(X)X*!SZ7#(X)X*!V5#(X)X*!SZ8#(X)X*!SZ9#(X)X*!SZ:#(X)X*!PpF#(X)X*!qD#(',
+  'X)X*!SZ;#(X)X*!|-#(X)X*!SZ<#(X)X*!SZ=#(X)X*!SZ>#(X)X*!PhG#(X)X*!SZ?#(X)X*!SZ@#(X)X*!Pt##(X)X*!SZ',
+  'A#(X)X*!PQJ#(X)X*!SZB0(X)X*SZCP%#(V3)!:#(V3)!sN#(V3)!cB#(V3)!iO#(V3)!^M#(V3)!_:#(V3)!v)#(V3)!iE#',
+  '(V3)!P5#(V3)!f,#(V3)!S=%(V3)!R&#(V3)!iM#(V3)!P7#(V3)!Pt2#(V3)!f(#(V3)!Q*#(V3)!RO#(V3)!]?#(V3)![*',
+  '#(V3)!ZM#(V3)!k+#(V3)!P2#(V3)!XK#(V3)!a.#(V3)!b)%(V3)!_E#(V3)!Y&#(V3)!Z7#(V3)!Y4#(V3)!P+#(V3)!b=',
+  '#(V3)!p5%(V3)!T-#(V3)!_;%(V3%!:#(V3%!sN#(V3%!cB#(V3%!iO#(V3%!^M#(V3%!_:#(V3%!v)#(V3%!iE#(V3%!P5#',
+  '(V3%!f,#(V3%!S=%(V3%!R&#(V3%!iM#(V3%!P7#(V3%!Pt2#(V3%!f(#(V3%!Q*#(V3%!RO#(V3%!]?#(V3%![*#(V3%!ZM',
+  '#(V3%!k+#(V3%!P2#(V3%!XK#(V3%!a.#(V3%!b)%(V3%!_E#(V3%!Y&#(V3%!Z7#(V3%!Y4#(V3%!P+#(V3%!b=#(V3%!p5',
+  '%(V3%!T-#(V3%!_;P<(E:#SZD#(E:#SZE#(E:#SZF#(E:#SZG#(E:#SZH#(E:#SZI#(E:#SZJ#(E:#SZK#(E:#SZL#(E:#SZ',
+  'M#(E:#SZN#(E:#SZO#(E:#S[!#(E:#S[##(E:#S[%#(E:#S[&#(E:#S[(#(E:#S[)#(E:#S[*#(E:#S[+#(E:#S[,#(E:#S[',
+  '-#(E:#S[.#(E:#S[/#(E:#S[0#(E:#S[1#(E:#S[2#(E:#S[3#(E:#S[4#(E:#S[5#(E:#S[6#(E:#S[7#(E:#S[8#(E:#S[',
+  '9#(E:#S[:#(E:#S[;#(E:#S[<#(E:#S[=#(E:#S[>#(E:#S[?#(E:#S[@#(E:#S[A#(E:#S[B#(E:#S[C#(E:#S[D#(E:#S[',
+  'E#(E:#S[F#(E:#S[G#(E:#S[H#(E:#S[I#(E:#S[J#(E:#S[K#(E:#S[L#(E:#S[M#(E:#S[N#(E:#S[O#(E:#S]!#(E:#S]',
+  '##(E:#S]%#(E:#S]&#(E:#S](#(E:#S])#(E:#S]*#(E:#S]+#(E:#S],#(E:#S]-#(E:#S].#(E:#S]/#(E:#S]0#(E:#S]',
+  '1#(E:#S]2#(E:#S]3#(E:#S]4#(E:#S]5#(E:#S]6#(E:#S]7#(E:#S]8#(E:#S]9#(E:#S]:#(E:#S];#(E:#S]<#(E:#S]',
+  '=#(E:#S]>#(E:#S]?#(E:#S]@#(E:#Pt3#(E:#Pt4#(E:#Pt5#(E:#Pt6#(E:#Pt7#(E:#Pt8#(E:#Pt9#(E:#Pt:#(E:#Pt',
+  ';#(E:#S]A#(E:#S]B#(E:#Pt<#(E:#Pt=#(E:#Pt>#(E:#S]C#(E:#S]D#(E:#S]E#(E:#Pt?#(E:#Pt@#(E:#PtA#(E:#Pt',
+  'B#(E:#PtC#(E:#PtD#(E:#PtE#(E:#PtF#(E:#PtG#(E:#PtH#(E:#PtI#(E:#PtJ#(E:#PtK#(E:#PtL#(E:#PtM#(E:#Pt',
+  'N#(E:#PtO#(E:#Pu!#(E:#S]F#(E:#Pu##(E:#Pu%#(E:#Pu&#(E:#Pu(#(E:#Pu)#(E:#Pu*#(E:#Pu+#(E:#Pu,#(E:#Pu',
+  '-#(E:#Pu.#(E:#Pu/#(E:#Pu0#(E:#Pu1#(E:#Pu2#(E:#Pu3#(E:#Pu4#(E:#Pu5#(E:#Pu6#(E:#Pu7#(E:#Pu8#(E:#Pu',
+  '9#(E:#Pu:#(E:#Pu;#(E:#Pu<#(E:#Pu=#(E:#Pu>#(E:#Pu?#(E:#Pu@#(E:#PuA#(E:#PuB#(E:#PuC#(E:#PuD#(E:#Pu',
+  'E#(E:#PuF#(E:#PuG#(E:#PuH#(E:#PuI#(E:#PuJ#(E:#PuK#(E:#S]G#(E:#S]H#(E:#S]I#(E:#S]J#(E:#S]K#(E:#S]',
+  'L#(E:#S]M#(E:#S]N#(E:#S]O#(E:#S^!#(E:#S^##(E:#S^%#(E:#S^&#(E:#S^(#(E:#S^)#(E:#S^*#(E:#S^+#(E:#S^',
+  ',#(E:#S^-#(E:#PuL#(E:#PuM#(E:#PuN#(E:#PuO#(E:#Pv!#(E:#Pv##(E:#Pv%#(E:#Pv&#(E:#Pv(#(E:#Pv)#(E:#Pv',
+  '*#(E:#Pv+#(E:#Pv,#(E:#Pv-#(E:#Pv.#(E:#Pv/#(E:#Pv0#(E:#Pv1#(E:#Pv2#(E:#Pv3#(E:#Pv4#(E:#Pv5#(E:#Pv',
+  '6#(E:#Pv7#(E:#S^.#(E:#S^/#(E:#S^0#(E:#S^1#(E:#S^2#(E:#S^3#(E:#S^4#(E:#S^5#(E:#S^6#(E:#S^7#(E:#S^',
+  '8#(E:#S^9#(E:#S^:#(E:#S^;#(E:#S^<#(E:#S^=#(E:#S^>#(E:#S^?#(E:#S^@#(E:#S^A#(E:#S^B#(E:#S^C#(E:#S^',
+  'D#(E:#S^E#(E:#S^F#(E:#S^G#(E:#S^H#(E:#S^I#(E:#S^J#(E:#S^K#(E:#S^L#(E:#S^M#(E:#S^N#(E:#S^O#(E:#S_',
+  '!#(E:#S_##(E:#S_%#(E:#S_&#(E:#S_(#(E:#S_)#(E:#S_*#(E:#S_+#(E:#S_,#(E:#S_-#(E:#S_.#(E:#S_/#(E:#S_',
+  '0#(E:#S_1#(E:#S_2#(E:#S_3#(E:#S_4#(E:#S_5#(E:#S_6#(E:#S_7#(E:#S_8#(E:#S_9#(E:#S_:#(E:#S_;#(E:#S_',
+  '<#(E:#S_=#(E:#S_>#(E:#S_?#(E:#S_@#(E:#S_A#(E:#S_B#(E:#S_C#(E:#S_D#(E:#S_E#(E:#S_F#(E:#S_G#(E:#S_',
+  'H#(E:#S_I#(E:#S_J#(E:#S_K#(E:#S_L#(E:#S_M#(E:#S_N#(E:#S_O#(E:#Sa!#(E:#Sa##(E:#Sa%#(E:#Sa&#(E:#Sa',
+  '(#(E:#Sa)#(E:#Sa*#(E:#Sa+#(E:#Sa,#(E:#Sa-#(E:#Sa.#(E:#Sa/#(E:#Sa0#(E:#Sa1#(E:#Sa2#(E:#Sa3#(E:#Sa',
+  '4#(E:#Sa5#(E:#Sa6#(E:#Sa7#(E:#Sa8#(E:#Sa9#(E:#Sa:#(E:#Sa;#(E:#Sa<#(E:#Sa=#(E:#Sa>#(E:#Sa?#(E:#Sa',
+  '@#(E:#SaA.)E:#SaB:#)E:#SaCP;#)E:#SaDSJ#)E:#SaEP5#)E:#SaFV!#)E:#SaGSB#)E:#SaHU3#)E:#SaIS>#)E:#SaJ',
+  'Q@#)E:#SaKSaL#)E:#SaMSaN#)E:#SaOSb!#)E:#Sb#Sb%#)E:#Sb&U+#)E:#Sb(TF#)E:#Sb)T-#)E:#Sb*UK#)E:#Sb+Sb',
+  ',#)E:#Sb-Sb.#)E:#Sb/Sb0#)E:#Sb1Sb2#)E:#Sb3f(/(E:#Sb4#(E:#Sb5#(E:#Sb6#(E:#Sb7#(E:#Sb8#(E:#Sb9#(E:',
+  '#Sb:#(E:#Sb;=)P:!%)T8#)P:!]<_9[/#*P:!]<Q>_9[/#(P:!%[1#)P:!%)P;#*P:!%P;&Q!%)P:!%h([@#,P:!%h([@&Y:',
+  'Q!#+P:!%h([@&_8#)P:!%wA[@#*P:!%SJ&W/#*P:!%SJ&Q!#,P:!%SJ&Q!>W/#)P:!%TCP5#+P:!%Y1TCS(P5#)P:!%PQ9[@',
+  '#)P:!%Pa/[%#)P:!%)S9#*P:!%S9&Q!#+P:!%)S9&Q!#*P:!%SB&PD#)P:!%)SB#*P:!%rM&Q!#-P:!%_LU3&PD>Q!#)P:!%',
+  'Pa2[@#)P:!%Pa3[@#*P:!%Q@&g)#+P:!%)Q@&g)#-P:!%Q@&Y:Q!>g)#(P:!%w@#+P:!%w@&Y:Q!#)P:!%RCT-#+P:!%RCT-',
+  '&g)#*P:!%P2&PD#)P:!%)Y0#)P:!%Y1UK#(P:!%W4#,P:!%RCQ2&RMa-#/P:!%RCQ2&RMa->Y:Q!#*P:!%Q2&W/#*P:!%Q2&',
+  'k!#)P:!%)Q2#+P:!%Pa1[@&_8#)P:!%wB[@#,P:!%wB[@&Y:Q!#)P:!%wC[@#+P:!%S;&Y:Q!#+P:!%SC&LQ!%)P:!%)T-#*',
+  'P:!ZHUE&PD#+P:!TCZHUE&PD#(P:!PQ8g(#(P:!PQ7g(#(P:!Pa(g(#(P:!Pa)g(#+P:!Y:g(&Y:Q!#*P:!%Q3&_8P>&WL(:',
+  '#&WL(P5#&WL(P7#&WL(P2#&WL(P+#&WL(UG&&WL(g:%&WL(Q*#&WL(a%#&WL(_##&WL(^B#&WL(_B#&WL(RO#&WL(X=#&WL(',
+  'VG#&WL(a##&WL(^0#&WL(RK#&WL([*#&WL(]##&WL(_?#&WL(YJ#&WL(S##&WL(ZM#&WL(ZL#&WL(YC#&WL([4#&WL(R:#&W',
+  'L(XK#&WL(X.#&WL(b&#&WL(e3#&WL(R>#&WL(b)#&WL(b9#&WL(]K#&WL(_0#&WL(S0#&WL(_E#&WL(^J#&WL(]F#&WL(_A#',
+  '&WL(S+#&WL(Z7#&WL(aC#&WL(P?#&WL(^D#&WL(UM#&WL(^.#&WL(_D#&WL(_!%&WL(cM#&WL(p5(&WL(X6&&WL(f-#([E[F',
+  '!bK#([E[F!b>#([E[F!c)#([E[F!i(#([E[F!YE#([E[F!Y<#([E[F!d9#([E[F!cG#([E[F!g2#([E[F!d-#([E[F!c,#([',
+  'E[F!d.#([E[F!a?#([E[F!W8#([E[F!c*#([E[F!f*#([E[F!XK#([E[F!c-#([E[F!l<#([E[F!e+#([E[F![2#([E[F!b?',
+  '%([E[FZ-##([E[FDP.#([E[FDP3#([E[FDP=#([E[FDU!#([E[FDX>#)[E[FDP.R-#)[E[FDP.RN#)[E[FDU!RN#&[<!bK#&',
+  '[<!b>#&[<!c)#&[<!i(#&[<!YE#&[<!Y<#&[<!d9#&[<!cG#&[<!g2#&[<!d-#&[<!c,#&[<!d.#&[<!a?#([<!P/W8#&[<!',
+  'W8#&[<!c*#&[<!f*#&[<!XK#&[<!c-#&[<!l<#&[<!e+#&[<![2#&[<!b?#&[<a+P[%#&[<^LP[%#&[<DP.#&[<DP3#&[<DP',
+  '=#&[<DPI#&[<DQ%#&[<DU!#&[<DX>#(Z(!P/bK#&Z(!bK#(Z(!P/b>#&Z(!b>#&Z(!c)#&Z(!i(#(Z(!P/YE#&Z(!YE#&Z(!',
+  'Y<#&Z(!d9#&Z(!cG#&Z(!g2#(Z(!P/d-#&Z(!d-#(Z(!P/c,#&Z(!c,#(Z(!P/d.#&Z(!d.#(Z(!P/a?#&Z(!a?#(Z(!P/W8',
+  '#&Z(!W8#&Z(!c*#&Z(!f*#&Z(!XK#&Z(!c-#&Z(!l<#&Z(!e+#(Z(!P/[2#&Z(![2#&Z(!b?-&Z(DP.#&Z(DP3#&Z(DP=#&Z',
+  '(DPI#(Z(Sb<DPI#&Z(DQ%#&Z(DU!#&Z(DX>#(Z(DP.R-P)&^9!bK#&^9!b>#&^9!c)#&^9!Sb=#&^9!YE#&^9!Y<#&^9!Pv8',
+  '#&^9!cG#&^9!g2#&^9!d-#&^9!c,#&^9!d.#&^9!a?#&^9!W8#&^9!c*#&^9!Pv9#&^9!XK#&^9!c-#&^9!l<%&^9![2#&^9',
+  '!b?*&^9DP.#&^9DQ%#&^9DU!#&^9DX>#(^9DP.R-#&]6!Sb>#&]6!oD#&]6!Sb?#&]6!Sb@#&]6!YE#&]6!PX0#&]6!SbA#&',
+  ']6!Pb2#&]6!m6#&]6!h1#&]6!X7#&]6!SbB#&]6!a?#&]6!W8#&]6!SbC#&]6!Y,#&]6!XK#&]6!PsM#&]6!PR&#&]6!SbD#',
+  '&]6![2#&]6!b!#&]6DP.#&]6DU!#&]6DX>#(]6DP.R-#&]6DP3#&]6DP=(&]6_.[##&^#!:#&^#!P;#&^#!S9#&^#!SJ#&^#',
+  '!P5#&^#!SC#&^#!P7#&^#!T-#&^#!S>#&^#!Q@#&^#!S&#&^#!R<#&^#!P2#&^#!Q2#&^#!|O#&^#!S;#&^#!P+#&^#!V!#&',
+  '^#!W4#&^#!Q3#&^#!PZN#&^#!Z9#&^#!WB#&^#!PU8#&^#!sF#&^#!T?*&^#_9P%P9(R@[=!:#(R@[=!P5#(R@[=!P7#(R@[',
+  '=!P2#(R@[=!S)#(R@[=!UM#(R@[=!T.#(R@[=!SbE#(R@[=!R:#(R@[=!RK#(R@[=!S##(R@[=!Pv:#(R@[=!ZM#(R@[=!Pv',
+  ';#(R@[=!R>#(R@[=!Pv<#(R@[=!RO#(R@[=!VF#(R@[=!iM#(R@[=!S0#(R@[=!Pv=#(R@[=!_E#(R@[=!Q*#(R@[=!a.#(R',
+  '@[=!S+#(R@[=!Pv>#(R@[=!Z7#(R@[=!Pv?#(R@[=!P?#(R@[=!S6#(R@[=0SbF#(R@[=0SbG#(R@T7!:#(R@T7!P5#(R@T7',
+  '!P7#(R@T7!P2#(R@T7!S)#(R@T7!UM#(R@T7!T.#(R@T7!R:#(R@T7!RK#(R@T7!S##(R@T7!ZM#(R@T7!R>#(R@T7!RO#(R',
+  '@T7!VF#(R@T7!iM#(R@T7!S0#)R@T7!YIS0#(R@T7!_E#(R@T7!Q*#(R@T7!a.#(R@T7!S+#(R@T7!Z7#(R@T7!P?#(R@T7!',
+  'S6))R@T7SFf:i)#)R@T7SFP.Q>#(R@T7l8SbH#(R@T7l8SbI#(R@T7DP.#(R@T7DP3#(R@T7DP=#(R@T7DPI#(R@T7DQ%#(R',
+  '@T7DQE#(R@T7DR!#(R@T7DQD#(R@T7DR*#(R@T7DU!#(R@T7DX>#(R@T7D]%#(R@T7D]L#(R@T7DZN#(R@T7DbC#(R@T7D[+',
+  '&)R@T7DP.R-#)R@T7DP3R-#)R@T7DP=R-#)R@T7DPIR-#)R@T7DQ%R-#)R@T7DQER-#)R@T7DR!R-#)R@T7DQDR-#)R@T7DR',
+  '*R-#)R@T7DP.RN#)R@T7DP3RN#)R@T7DP=RN#)R@T7DPIRN#)R@T7DQ%RN#)R@T7DQERN#)R@T7DR!RN#)R@T7DQDRN#)R@T',
+  '7DR*RN#)R@T7DU!RN#)R@T7DX>RN#)R@T7D]%RN#)R@T7D]LRN#)R@T7DZNRN#)R@T7DbCRN#)R@T7D[+RN#)R@T7DcNRN#)',
+  'R@T7DZ5RN#*R@T7DP.R-RN#*R@T7DP3R-RN#*R@T7DP=R-RN#*R@T7DPIR-RN#*R@T7DQ%R-RN#*R@T7DQER-RN#*R@T7DR!',
+  'R-RN#*R@T7DQDR-RN#*R@T7DR*R-RN#)R@T7SFP.SbJ#)R@T7SFP3i)#)R@T7SFP=i)#)R@T7SFPIi)#)R@T7SFQ%i)#)R@T',
+  '7SFQEi)#)R@T7SFR!i)#)R@T7SFQDi)#)R@T7SFR*i)#)R@T7SFU!i)#&V=!:#(V=6#P7#(V=6#P+#)V=6#QJQ2%(V=6#P5#',
+  '(V=6#P2*(V=6cJP%#)V=#P0RBP6#&V=#X&#&V=#Z3#&V=!Q*#&V=!VF#&V=!S=#&V=!X;%&V=!UL#&V=!VB#&V=!UG%&V=!V',
+  'E#&V=!X2#&V=!Y>#&V=!X9#&V=!YO#&V=!Y-#&V=!S+#&V=!W0#&V=!S6#&V=!XF#&V=!S##&V=!R:#&V=!WI#&V=!T.#&V=',
+  '!Y3#&V=!RK#&V=!S)#&V=!R>#&V=!RO#&V=!WJ#&V=!UF#&V=!YD#&V=!S0#&V=!X6#&V=!R&#&V=!PS0#&V=!SbK#&V=!Pc',
+  '8#&V=!SbL&(V=#QGN#&V=#SbM#(V=#P8P6)%V=YG#&V=4P.#&V=4P3#&V=4P=#&V=4PI#&V=DU!#&V=DX>#(V=DP.R-#(V=D',
+  'P.RN#(V=SFP.Q>,&V=S<P8#(V=S<%QH#&V=S<QH#(V=S<pOQG#&V=S<SbN#&V=S<}+#&V=S<[O#(V=S<P0[O#&V=S<PW),)K',
+  'T=VO!YE#)KT=VO!d.#)KT=VO!cG#)KT=VO!a?#)KT=VO!l<#)KT=VO!Y<#)KT=VO![2#)KT=VO!e+#)KT=VO!b>#)KT=VO!b',
+  '?#)KT=VO!PUJ#)KT=VO!c,#)KT=VO!W8#)KT=VO!SbO#)KT=VO!c-#)KT=VO!c*#)KT=VO!f,#)KT=VO!QF#)KT=VO!Pv9#)',
+  'KT=VO!Sc!#)KT=VO!c)#)KT=VO!i(#)KT=VO!Sc##)KT=VO!g2#)KT=VO!Pv8#)KT=VO!Sc%#)KT=VO!d-#)KT=VO!Sc&#)K',
+  'T=VO!Sc(#)KT=VODP.#)KT=VODZN#)KT=VOS%[0#)KS4VO!X<#)KS4VO!UH#)KS4VO!RH#)KS4VO!Q(#)KS4VO!ZC#)KS4VO',
+  '!Y<#)KS4VO!Sc)#)KS4VO!Z1#)KS4VO!Y+#)KS4VO!X##)KS4VO!Sc*#)KS4VO!X7#)KS4VO!V;#)KS4VO!V:#)KS4VO![)#',
+  ')KS4VO!Sc+#)KS4VO!Z2#)KS4VO!QF#)KS4VO!Y,#)KS4VO![5#)KS4VO!Sc,#)KS4VO!a@#)KS4VO!^/#)KS4VO!YM#)KS4',
+  'VO!c+#)KS4VO!k0#)KS4VO!Q,#)KS4VO!^O#)KS4VO!d<#)KS4VODP.#)KS4VODU!#)KS4VODX>E&X5!bK#&X5!b>#&X5!Pb',
+  'D#&X5!c)#&X5!Sc-#&X5!i(#&X5!YE#&X5!Y<#&X5#]@#&X5!d9#&X5!Sc.#&X5!Sc/#&X5!Sc0#&X5!cG#&X5!g2#&X5!d-',
+  '#&X5!c,#&X5!Sc1#&X5!PbI#&X5!d.#&X5!Sc2#&X5!Sc3#&X5!a?#&X5!W8#&X5!c*#&X5!f*#&X5!Sc4#&X5!XK#&X5!f,',
+  '#&X5!c-#&X5!l<#&X5!Sc5#&X5!Sc6#&X5!e+#&X5![2#&X5!Sc7#&X5!b?#(X5a>P%N#(X5a>P%P6)&X5DP.#&X5DQ%#&X5',
+  'DU!#&X5DX>#(X5DP.R-#&X5S<W6#&X5S<P[%#*X5S<P0P8m<P8#)X5S<P8m<P8#&X5S<P8#(X5S<P3R1#(X5S<U*iL.&WM!:',
+  '#&WM!T8#&WM!z@#&WM!Sc8#&WM!Z9#&WM!Pv@#&WM![1#&WM!PvA#&WM!P5#&WM!Y=#&WM!P2#&WM!XE#&WM!P7#&WM!U0#&',
+  'WM!P+#&WM!UI#&WM!a%#&WM!p5#&WM!PmD#&WM!Sc9#&WM!h=#&WM!PT8#&WM!b##&WM!iO#&WM!f(#&WM!Z7#&WM!Y4#&WM',
+  '!_:#&WM!v)#&WM!t8#&WM!XK#&WM!f,#&WM!cB#&WM!|@#&WM!Pp6#&WM!Sc:#&WM!Sc;#&WM!ZM#&WM!PT0#&WM!Sc<#&WM',
+  '![*#&WM!Sc=#&WM!Sc>#&WM!c1#&WM!b=#&WM!b)#&WM!X=#&WM!_E#&WM!_;#&WM!Y&#&WM!c%#&WM!Sc?#&WM!Sc@#&WM!',
+  'YE(&WMa>P%#+u<P3R1R4P.P8S<#+%P3R1R4P.P8S<#+T/P3R1R4P.P8S<#+T/P.P8R4P3R1S<#+T/P3PvBR4P.RBS<#+T/P.',
+  'RBR4P3PvBS<#(W>]*!bK#(W>]*!b>#(W>]*!c)#(W>]*!i(#(W>]*!YE#(W>]*!Y<#(W>]*!d9#(W>]*!cG#(W>]*!g2#(W>',
+  ']*!d-#(W>]*!c,#(W>]*!d.#(W>]*!a?#(W>]*!W8#(W>]*!c*#(W>]*!f*#(W>]*!XK#(W>]*!c-#(W>]*!l<#(W>]*!e+#',
+  '(W>]*![2#(W>]*!b?&(W>]*DP.#(W>]*DP3#(W>]*DP=#(W>]*DPI#(W>]*DU!#(W>]*DX>#)W>]*DP.R-#)W>]*DP.RN#(W',
+  '>WF!bK#(W>WF!b>#(W>WF!c)#(W>WF!i(#(W>WF!YE#(W>WF!PvC#(W>WF!d9#(W>WF!cG#(W>WF!g2#(W>WF!d-#(W>WF!c',
+  ',#(W>WF!d.#(W>WF!PvD#(W>WF!W8#(W>WF!c*#(W>WF!XK#(W>WF!c-#(W>WF![2#(W>WF!b?*(W>WFDP.#(W>WFDP3#(W>',
+  'WFDP=#(W>WFDPI#(W>WFDU!#(W>WFDX>#)W>WFDP.R-#)W>WFDP.RN#(]7WF!bK#(]7WF!b>#(]7WF!c)#(]7WF!i(#(]7WF',
+  '!YE#(]7WF!PvC#(]7WF!d9#(]7WF!cG#(]7WF!d-#(]7WF!c,#(]7WF!d.#(]7WF!PvD#(]7WF!W8#(]7WF!c*#(]7WF!XK#',
+  '(]7WF!c-#(]7WF![2#(]7WF!b?,(]7WFZ-P%#)]7WFRCZ-P%#*]7WFPIR1&X-#*]7WFPIR1&P81(]7WFDP.#(]7WFDP3#(]7',
+  'WFDP=#(]7WFDPI#(]7WFDU!#(]7WFDX>#)]7WFDP.R-PI)KUO!YA:#)KUO![G:#)KUO![G[1#)KUO!YAP7#)KUO![GP7#)KU',
+  'O![GP5#)KUO!YAP2#)KUO!YAY0#)KUO![GY0#)KUO!YA_N#)KUO![G_N#)KUO!YAPvE#)KUO![GPvE#)KUO!YAx2#)KUO![G',
+  'x2#)KUO!YAPvF#)KUO![GPvF#)KUO!YAm:#)KUO![Gm:#)KUO!YAScA#)KUO!YAv3#)KUO![Gv3#)KUO!YAf1#)KUO![Gf1#',
+  ')KUO!YAPvG#)KUO![GPvG#)KUO!YAPvH#)KUO![GPvH#)KUO!YAPvI#)KUO![GPvI#)KUO!YAbA#)KUO![GbA#)KUO!YAScB',
+  '#)KUO!YAScC#)KUO!YAb%#)KUO!YAZ9#)KUO!YAp1#)KUO![Gp1#)KUO!YA},#)KUO![G},#)KUO!YA}-#)KUO![G}-#)KUO',
+  '!YAqE#)KUO![GqE#)KUO![Ge/#)KUO!YAeO#)KUO![GScD#)KUO!YAz<#)KUO!YAPY@#)KUO!YAP[&#)KUO!YAv4#)KUO![G',
+  'v4#)KUO!YAs>#)KUO![Gs>#)KUO!YAP[(#)KUO![GP[(#)KUO!YAP[)#)KUO![GP[)#)KUO!YAPR=#)KUO![GPR=#)KUO!YA',
+  'ScE#)KUO!YAd?#)KUO!YAScF#)KUO!YAWC#)KUO![GWC#)KUO!YAa;#)KUO![Ga;#)KUO!YA]G#)KUO![G]G#)KUO!YAPvJ#',
+  ')KUO![GPvJ#)KUO!YAwI#)KUO!YAScGP0)KS-)!:#)KS-)!T8#)KS-)!P[##)KS-)!PvK#)KS-)!v4#)KS-)!}-#)KS-)!Pv',
+  'L#)KS-)!PvM#)KS-)!>#)KS-)!P5#*KS-)!PV.P5#)KS-)!Y=#)KS-)!h,#)KS-)!PvN#)KS-)!PvO#)KS-)!h/#)KS-)!P7',
+  '#)KS-)!U0#)KS-)!Pw!#)KS-)!oN#)KS-)!oJ#)KS-)!Pw##)KS-)!_-#)KS-)!Pw%#)KS-)!b%#)KS-)!WB#)KS-)!qE#)K',
+  'S-)!P2#)KS-)!XE#*KS-)!}.Y0#*KS-)!}/Y0#)KS-)!Pw&#)KS-)!z<#)KS-)!Pw(#)KS-)!cC#*KS-)!V%cC#)KS-)!g+#',
+  ')KS-)!Pw)#)KS-)!e*#)KS-)!},#)KS-)!Pw*#)KS-)!oA#)KS-)!P+#)KS-)!UI#*KS-)!}._/#*KS-)!}/_/#)KS-)!PY5',
+  '#)KS-)!v3#)KS-)!Pw+#*KS-)!Pw,##)KS-)!o12)KS-%!:#)KS-%!T8#)KS-%!P[##)KS-%!PvK#)KS-%!v4#)KS-%!}-#)',
+  'KS-%!PvL#)KS-%!PvM#)KS-%!>#)KS-%!P5#*KS-%!PV.P5#)KS-%!Y=#)KS-%!h,#)KS-%!PvN#)KS-%!PvO#)KS-%!h/#)',
+  'KS-%!P7#)KS-%!U0#)KS-%!Pw!#)KS-%!oN#)KS-%!oJ#)KS-%!Pw##)KS-%!_-#)KS-%!Pw%#)KS-%!b%#)KS-%!WB#)KS-',
+  '%!qE#)KS-%!P2#)KS-%!XE#*KS-%!}.Y0#*KS-%!}/Y0#)KS-%!Pw&#)KS-%!z<#)KS-%!Pw(#)KS-%!cC#*KS-%!V%cC#)K',
+  'S-%!g+#)KS-%!Pw)#)KS-%!e*#)KS-%!},#)KS-%!Pw*#)KS-%!oA#)KS-%!P+#)KS-%!UI#*KS-%!}._/#*KS-%!}/_/#)K',
+  'S-%!PY5#)KS-%!v3#)KS-%!Pw+#*KS-%!Pw,##)KS-%!o1,(KS-DP.#(KS-DQ%#(KS-DU!#(KS-DZN#)KS-DP.R-#)KS-DP.',
+  'RN#(X:X3!:#(X:X3!T.#(X:X3!R:#(X:X3!S+#(X:X3!X2#(X:X3!UG#(X:X3!UL#(X:X3!R&#(X:X3!VF#(X:X3!YF#(X:X',
+  '3!S6#(X:X3!X9#(X:X3!R>#(X:X3!a/#(X:X3!X6#(X:X3!S0#(X:X3!UF#(X:X3!Q*#(X:X3!S=#(X:X3!RO#(X:X3!RK#(',
+  'X:X3!S##(X:X3!UM#)X:X3!Pw-UM#(X:X3!S)#)X:X3!Pw-S)#(X:X3!UA#(X:X3!VE#(X:X3!WJ#(X:X36:#(X:X36P7#(X',
+  ':X36P+#(X:X36P5#(X:X36P2#(X:X3P%ScH#)X:X3P%S#ScI#(X:X3#ScJ#(X:X3#ScK#(X:X3#ScL#(X:X3#ScM-(X:X34T',
+  ',#(X:X34P.#(X:X34P3#(X:X34P=#(X:X34PI#(X:X34Q%#(X:X34QE#(X:X34R!#(X:X34QD#(X:X34R*UC&[H4P.#&[H4P',
+  '3#&[H4P=#&[H4PI#&[H4Q%#&[H4QE#&[H4R!#&[H4QD#&[H4R*#&[HDU!#&[HDX>#&[HD]%#&[HD]L#&[HDZN#&[HDbC#&[H',
+  'D[+#&[HDcN#&[HDZ5#([HDP.R-#([HDP3R-#([HDP=R-#([HDPIR-#([HDQ%R-#([HDQER-#([HDR!R-#([HDQDR-#([HDR*',
+  'R-#([HSFP.Q>#([HSFP.Z.#([HSFP.e7#([HSFP3j*%&XO!ScN#&XO!cB#&XO!XK#&XO!PT;#&XO!Y4#&XO!_E#&XO!c8#&X',
+  'O!ScO#&XO!Sd!#&XO!iM#&XO!cM#&XO!a@#&XO!z8#&XO!R>#&XO!i?#&XO!X6#&XO!UG#&XO!x##&XO![2#&XO![)#&XO![',
+  '5#&XO!S+#&XO!_;#&XO!Pt/#&XO!Sd##&XO!YF#&XO!WJ#)XO!WJZ#5#&XO!ZC#&XO!X7#&XO!Sd%#&XO!h2#&XO!UH#&XO!',
+  'x.#&XO!W8#&XO!j?#&XO!Y<#&XO!v2#&XO!PZO#&XO!Sd&#&XO!rN#&XO!e*%(XOFU/P%#(XOFg/P%#&XOPj,P%&*XO!UH&P',
+  '8N#*XO!rN&U,NPG(KTH!bK#)KTH!P/bK#(KTH!b>#)KTH!P/b>#(KTH!c)#(KTH!YE#)KTH!P/YE#(KTH!Y<#(KTH!d9#(KT',
+  'H!cG#(KTH!d-#(KTH!c,#(KTH!d.#(KTH!a?#(KTH!W8#)KTH!P/W8#,KTH!P/W8&PLW/#(KTH!c*#(KTH!f*#)KTH!Z#f*#',
+  '(KTH!XK#(KTH!c-#)KTH!P/c-#,KTH!P/c-&PLW/#(KTH!Sd(#(KTH![2#(KTH!b?#)KTH!P/b?#,KTH!P/b?&PLW/#(KTHD',
+  'P.#(KTHDP3#(KTHDP=#(KTHDPI#(KTHDQ%#(KTHDU!#(KTHDX>#(KTHD]%#)KTHDP.R-#)KTHSFP.Q>#(KTHGSd)-&TH!bK#',
+  '&TH!b>#&TH!c)#&TH!YE#&TH!Y<#&TH!d9#&TH!cG#&TH!d-#&TH!c,#&TH!d.#&TH!a?#&TH!W8#&TH!c*#&TH!f*#&TH!X',
+  'K#&TH!c-#&TH!Sd*#&TH![2#&TH!b?#&TH!Sd+#&TH!Pw.#&TH_%[2#(THFP8P6#)THFP3R1P6#(THFP8N#)THFP3R1N#(TH',
+  'FZ+N#(THFZ+P6#(THFQ!N#(THFQ!P6#)THFRMQ!P6#(THFe+P6#(THFPDP6#&THDP.#&THDU!#&THDX>#(THDP.R-#)THS<P',
+  '3PLu.#+THS<P3PLu.&R1#)THS<QH&P8#*THS<P3bL&R1#*THS<Q>QH&P8;(K^:!bK#(K^:!b>#(K^:!Sd,#(K^:!Y<#(K^:!',
+  'd9#)K^:!P/cG#(K^:!d-#(K^:!c,#(K^:!d.#(K^:!a?#(K^:!W8#(K^:!c*#(K^:!XK#(K^:!c-#(K^:!e+#(K^:![2#(K^',
+  ':!b?#(K^:!Pw.#)K^:FP8N#)K^:FP8P6#*K^:FP3R1N#*K^:FP3R1P6#(K^:S<QG#)K^:S<P3u.#)K^:S<P3R1#)K^:S<PIR',
+  '1K&]E!bK#(]E!%bK#&]E!b>#&]E!c)#&]E!i(#&]E!YE#&]E!Y<#(]E!Sd-Y<#&]E!d9#&]E!cG#&]E!d-#&]E!c,#&]E!d.',
+  '#&]E!a?#&]E!W8#&]E!c*#&]E!f*#&]E!XK#&]E!e+#&]E![2#&]E!b?#&]EDP.#&]EDP3#&]EDP=#&]EDPI#&]EDU!#&]ED',
+  'X>#(]EDP.R-9&_4!bK#&_4!b>#&_4!c)#&_4!i(#&_4!YE#&_4!Y<#&_4!d9#&_4!cG#&_4!g2#&_4!d-#&_4!c,#&_4!d.#',
+  '&_4!a?#&_4!W8#&_4!c*#&_4!f*#&_4!XK#&_4!c-#&_4!l<#&_4!e+#&_4![2#&_4!b?#&_4GSd..&RL#[(#&RL#X&#&RL#',
+  'Z3#&RL#p##&RL#p%#&RL!:#&RL!T8#&RL!P7#&RL!U0#&RL!P+#&RL!UI#(RL!QJQ2#(RL!QJZ!#(RL!QJQ@#(RL!QJZK#&R',
+  'L!P5#&RL!U-#&RL!P2#&RL!UB#&RL!Q*#&RL!VF#&RL!S=#&RL!X;#&RL!UA#&RL!UL#&RL!VB#&RL!UG#&RL!ZD#&RL!VE#',
+  '&RL!X2#&RL!Y>#&RL!X9#&RL!YO#&RL!Y-#&RL!S+#&RL!W0#&RL!S6#&RL!XF#&RL!S##&RL!R:#&RL!WI#&RL!T.#&RL!Y',
+  '3#&RL!RK#&RL!S)#&RL!R>#&RL!RO#&RL!WJ#&RL!UF#&RL!YD#&RL!S0#&RL!R&#&RL!]?#)RL!KR3m;#)RL!KR3a/#)RL!',
+  'KR3s@#(RL6#T8#)RL6#Sd/T8#(RL6#P7#(RL6#U0#(RL6#P+#(RL6#UI#)RL6#QJQ2#)RL6#QJZ!#)RL6#QJQ@#)RL6#QJZK',
+  '#(RL6#P5#(RL6#U-#(RL6#P2#(RL6#UB#%RLYG#%RL[O#&RLP0[O#&RLS<P8#(RLS<P0P8#&RLS<U*#(RLS<pOQG#&RLS<}+',
+  ')&RLDP.#&RLDP3#&RLDP=#&RLDPI#&RLDQ%#&RLDQE#&RLDR!#&RLDQD#&RLDR*#&RLDU!#&RLDX>#&RLD]%#&RLD]L#&RLD',
+  'ZN#&RLDbC#&RLD[+#&RLDcN#&RLDZ5#(RLDP.R-#(RLDP.RN#&RL4T,#&RL4P.#&RL4P3#&RL4P=#&RL4PI#&RL4Q%#&RL4Q',
+  'E#&RL4R!#&RL4QD#&RL4R*#)RL#KR3YG#*RL!KR3V%P5#*RL!KR3V%P2#+RL6#KR3V%P5#+RL6#KR3V%P2#)RL!KR3]?.&RL',
+  'Dm2#&V>#[(#&V>#X&#&V>#Z3#&V>!:#&V>!T8#&V>!P7#&V>!U0#&V>!P+#&V>!UI#&V>!P5#&V>!U-#&V>!P2#&V>!UB#&V',
+  '>!Q*#&V>!VF#&V>!S=#&V>!X;#&V>!UA#&V>!UL#&V>!VB#&V>!UG#&V>!ZD#&V>!VE#&V>!X2#&V>!Y>#&V>!X9#&V>!Pc1',
+  '#&V>!YO#&V>!i?#&V>!Y-#&V>!S+#&V>!W0#&V>!S6#&V>!XF#&V>!S##&V>!R:#&V>!WI#&V>!T.#&V>!Y3#&V>!RK#&V>!',
+  'S)#&V>!R>#&V>!RO#&V>!WJ#&V>!UF#&V>!YD#&V>!S0#&V>!R&#(V>6#T8#(V>6#P7#(V>6#U0#(V>6#P+#(V>6#UI#(V>6',
+  '#P5#(V>6#U-#(V>6#P2#(V>6#UB#&V>#YG#&V>#^A#&V>a>##&V>Sd0##&V>D##&V>Z-P%#(V>P0Z-P%#%V>[O#&V>P0[O#)',
+  'V>6#QJQ2/(V>D#N&(ZO[!!Pc.#(ZO[!!YM#(ZO[!!Sd1#(ZO[!!Sd2#(ZO[!!Sd3#(ZO[!!Pw/#(ZO[!!Pw0#(ZO[!!Sd4#(',
+  'ZO[!!Sd5#(ZO[!!PT?#(ZO[!!Z>#(ZO[!!Sd6#(ZO[!!{J#(ZO[!!Sd7#(ZO[!!RH#(ZO[!!Pg-#(ZO[!!Sd8#(ZO[!!Sd9#',
+  '(ZO[!!f.#(ZO[!!Sd:#(ZO[!!PV(#(ZO[!!PZ##(ZO[!!s##(ZO[!!h/#(ZO[!!Pw1,(ZO[!4T,#(ZO[!4P.#(ZO[!4P3#(Z',
+  'O[!4P=#(ZO[!4PI#(ZO[!4Q%#(ZO[!4QE#(ZO[!4R!#(ZO[!4QD#(ZO[!4R*+&V-#[(#&V-#X&#&V-#Z3#&V-!T8#&V-!P7#',
+  '&V-!P+#&V-!P5#&V-!y@#&V-!PbL#&V-!t0#&V-!Pw2#&V-!z*#&V-!PT,#&V-!Pf8#&V-!Pf/#&V-!Sd;#&V-!Pf&#&V-!P',
+  'bJ#&V-!PUC#&V-!Pf-#&V-!PrO#&V-!Sd<#&V-!mH#&V-!s<#&V-!Pf*#&V-!Sd=#&V-!oI#&V-!yK#&V-!Pf9#&V-!x0#&V',
+  '-!Sd>#&V-!PT##&V-!Sd?#&V-!oH#&V-!s;#&V-!t*#&V-!t.#&V-!y:#&V-!g3#(V-6#:#(V-6#P7#(V-6#U0#(V-6#P+#(',
+  'V-6#UI#(V-6#P5#(V-6#U-#(V-6#P2#(V-6#UB#(V-6#rL#&V-P2P%#&V-UBP%#%V-YG#%V-Sd@%&V-4T,#&V-4P.#&V-4P3',
+  '#&V-4P=#&V-4PI#&V-4Q%#&V-4QE#&V-4R!#&V-4QD#&V-4R*#&V-Z-P%#%V-[O#&V-P0[O#&V-]+P%#&V-!Ph/#(V-6#T8#',
+  '(V-6#iE#&V-!Pf!-&Z,!:#&Z,!P7#&Z,!P+#&Z,!P5#&Z,!P2#&Z,!Q*#&Z,!VF#&Z,!S=#&Z,!X;#&Z,!UL#&Z,!VB#&Z,!',
+  'UG#&Z,!ZD#&Z,!VE#&Z,!X2#&Z,!Y>#&Z,!X9#&Z,!YO#&Z,!Y-#&Z,!S+#&Z,!W0#&Z,!S6#&Z,!XF#&Z,!S##&Z,!R:#&Z',
+  ',!WI#&Z,!T.#&Z,!Y3#&Z,!RK#&Z,!R>#&Z,!RO#&Z,!WJ#&Z,!S0#&Z,!R&#&Z,!a/#&Z,#^A#&Z,a>##&Z,Z-P%#&Z,GPw',
+  '3.&T##[(#&T##X&#&T##Z3#&T#!:#&T#!T8#&T#!P7#&T#!U0#&T#!P+#&T#!UI#(T#!QJQ2#(T#!QJZ!#(T#!QJQ@#(T#!Q',
+  'JZK#&T#!P5#&T#!U-#&T#!P2#&T#!UB#&T#!Q*#&T#!VF#&T#!S=#&T#!X;#&T#!UA#&T#!UL#&T#!VB#&T#!UG#&T#!ZD#&',
+  'T#!VE#&T#!X2#&T#!Y>#&T#!X9#&T#!YO#&T#!Y-#&T#!S+#&T#!W0#&T#!S6#&T#!XF#&T#!S##&T#!R:#&T#!WI#&T#!T.',
+  '#&T#!Y3#&T#!RK#&T#!S)#&T#!R>#&T#!RO#&T#!]?#&T#!WJ#&T#!UF#&T#!YD#&T#!S0#&T#!R&#(T#6#T8#(T#6#P7#(T',
+  '#6#U0#(T#6#P+#(T#6#UI#)T#6#QJQ2#)T#6#QJZ!#)T#6#QJQ@#)T#6#QJZK#(T#6#P5#(T#6#U-#(T#6#P2#(T#6#UB#&T',
+  '##YG#&T##c.#&T##p##&T##p%#%T#e,#%T#[O#&T#P0[O#&T#a>##%T#[##&T#iBP%#&T##^A#(T#6P:P%#)T#SdAV%6P%#&',
+  'T#SdBP%#)T#6#PR>P5#(T##VA[(#&T#4T,#&T#4P.#&T#4P3#&T#4P=#&T#4PI#&T#4Q%#&T#4QE#&T#4R!#&T#4QD#&T#4R',
+  '*#%T#SdC#&T##SG#%T#PZ@#&T#SdD##&T#Z-tC#&T#Z-tD%(S*YI4P.#(S*YI4P3#(S*YI4P=#(S*YI4PI#(S*YI4Q%#(S*Y',
+  'I4QE#(S*YI4R!#(S*YI4QD#(S*YI4R*#(S*YIDU!#(S*YIDX>#(S*YID]%#(S*YID]L#(S*YIDZN#(S*YIDbC#(S*YID[+#(',
+  'S*YIDcN#(S*YIDZ5#)S*YIDP.R-#)S*YIDP.RN0&W,!:#&W,!T8#&W,!P7#&W,!P+#&W,!P5#&W,!U-#&W,!P2#&W,!UB#&W',
+  ',!Q*#&W,!VF#&W,!S=#&W,!oK#&W,!X;#&W,!UA#&W,!UL#&W,!VB#&W,!UG#&W,!sD%&W,!VE#&W,!X2#&W,!Y>#&W,!X9#',
+  '&W,!YO#&W,!Y-#&W,!S+#&W,!W0#&W,!S6#&W,!x6#&W,!XF#&W,!S##&W,!R:#&W,!WI#&W,!T.#&W,!m=#&W,!Y3#&W,!R',
+  'K#&W,!S)#&W,!R>#&W,!RO#&W,!WJ#&W,!S0#&W,!R&#&W,!]?#(W,6#T8#(W,6#P7#(W,6#U0#(W,6#P+#(W,6#P5#(W,6#',
+  'U-#(W,6#P2#(W,6#UB#&W,#X&#&W,#YG#&W,#^A#&W,#d>#%W,[O#&W,P0[O#&W,_.[##&W,Z-P%#(W,P0Z-P%#&W,a>##&W',
+  ',#k1P:&Z6!:#&Z6!P7#&Z6!P+#&Z6!P5#&Z6!Q*#&Z6!VF#&Z6!S=%&Z6!X;%&Z6!UL#&Z6!VB#&Z6!UG#&Z6!sD%&Z6!VE#',
+  '&Z6!X2#&Z6!Y>#&Z6!X9#&Z6!x6#&Z6!YO#&Z6!Y-#&Z6!S+#&Z6!W0#&Z6!S6#&Z6!XF#&Z6!S##&Z6!R:#&Z6!WI#&Z6!T',
+  '.%&Z6!Y3#&Z6!RK#&Z6!S)#&Z6!R>#&Z6!RO#&Z6!WJ#&Z6!S0#&Z6!R&#&Z6!a/#&Z6!i?#&Z6Z-P%+&V7!:#&V7!T8#&V7',
+  '!P7#&V7!U0#&V7!P+#&V7!UI#&V7!P5#&V7!U-#&V7!P2#&V7!UB#&V7!Q*#&V7!VF#&V7!S=#&V7!oK#&V7!X;#&V7!UA#&',
+  'V7!UL#&V7!VB#&V7!UG#&V7!sD#&V7!ZD#&V7!VE#&V7!X2#&V7!Y>#&V7!X9#&V7!x6#&V7!a/#&V7!YO#&V7!Y-#&V7!S+',
+  '#&V7!W0#&V7!S6#&V7!XF#&V7!S##&V7!R:#&V7!WI#&V7!T.#&V7!m=#&V7!Y3#&V7!RK#&V7!S)#&V7!R>#&V7!RO#&V7!',
+  'WJ#&V7!UF#&V7!S0#&V7!R&#&V7#X&#(V76#T8#(V76#P7#(V76#U0#(V76#P+#(V76#UI#(V76#P5#(V76#U-#(V76#P2#(',
+  'V76#UB#&V7#^A#&V7#YG*&V74T,#&V74P.#&V74P3#&V74P=#&V74PI#&V74Q%#&V74QE#&V74R!#&V74QD#&V74R*+)TI#F',
+  'X&N#&TI#[(#&TI#X&#&TI#Z3%&TI!:#&TI!T8#&TI!P7#&TI!U0#&TI!P+#&TI!UI#(TI!QJQ2#(TI!QJQ@&&TI!Y=#&TI!U',
+  '-&&TI!XE#&TI!UB#&TI!Q*#&TI!VF#&TI!S=#&TI!X;#&TI!UA#&TI!UL#&TI!VB#&TI!UG#&TI!ZD#&TI!VE#&TI!X2#&TI',
+  '!Y>#&TI!X9#&TI!YO#&TI!Y-#&TI!S+#&TI!W0#&TI!S6#&TI!XF#&TI!S#%&TI!R:#&TI!WI#&TI!T.#&TI!Y3#&TI!RK#&',
+  'TI!S)#&TI!R>%&TI!RO#&TI!]?%&TI!WJ#&TI!UF#&TI!YD#&TI!S0#&TI!R&%&Fe6P6#&TI#^A#&TI#c.#(TI6#T8#(TI6#',
+  'P7#(TI6#U0#(TI6#P+#(TI6#UI#)TI6#QJQ2#)TI6#QJZ!&(TI6#Y=#(TI6#U-&(TI6#XE#(TI6#UB#&TI#YG&%TIe,+(TIU',
+  'BcJP%*&TI#Pw4#(TI!XGX&#)TI!XGP0X&#(TI!QJZ!#(TI!QJZK#)TI6#QJQ@#)TI6#QJZK&(FTI4T,#(FTI4P.#(FTI4P3#',
+  '(FTI4P=#(FTI4PI#(FTI4Q%#(FTI4QE((FTI!:#(FTI!Q*#(FTI!S##(FTI!iN#(FTI!R:R,&SL!:#&SL!T8#&SL!P7#&SL!',
+  'U0#&SL!P+#&SL!UI#(SL!QJQ2#(SL!QJZ!#(SL!QJQ@#(SL!QJZK#&SL!P5#&SL!U-#&SL!P2#&SL!UB#&SL!Q*#&SL!VF#&',
+  'SL!S=#&SL!X;#&SL!UA#&SL!Pw5#&SL!UL#&SL!VB#&SL!UG#&SL!ZD#&SL!VE#&SL!Pw6#&SL!X2#&SL!Y>#&SL!X9#&SL!',
+  'YO#&SL!Y-#&SL!S+#&SL!W0#&SL!S6#&SL!XF#&SL!S##&SL!q@#&SL!R:#&SL!WI#&SL!T.#&SL!Y3#&SL!RK#&SL!Pw7#&',
+  'SL!S)#&SL!R>#&SL!i?#&SL!RO#&SL!k.#&SL!UM#&SL!UF#&SL!YD#&SL!S0#&SL!R&#(SL6#T8#(SL6#P7#(SL6#U0#(SL',
+  '6#P+#(SL6#UI#)SL6#QJQ2#)SL6#QJZ!#)SL6#QJQ@#)SL6#QJZK#(SL6#P5#(SL6#U-#(SL6#P2#(SL6#UB#&SL#YG#&SL#',
+  '[(#&SL#X&#&SL#Z3#&SL#^A#&SL#c.#(SL#P/X&#%SLe,#%SLSdE#%SL[O#&SLP0[O#%SLW.#&SLq;iL#&SLa>##&SL4T,#&',
+  'SL4P.#&SL4P3#&SL4P=#&SL4PI#&SL4Q%#&SL4QE#&SL4R!#&SL4QD#&SL4R*#&SLP0W.#&SLPZ?P%%&SLPV-##&SLiBP%#(',
+  'SL!XGX&#&SL#p##&SL#p%C%U)PRC#&U)!:#&U)!T8#&U)!P7#&U)!U0#&U)!P+#&U)!UI#(U)!QJQ2#(U)!QJZ!#(U)!QJQ@',
+  '#(U)!QJZK#&U)!P5#&U)!U-#&U)!P2#&U)!UB#&U)!Q*#&U)!VF#&U)!S=#&U)!X;#&U)!UA#&U)!UL#&U)!VB#&U)!UG#&U',
+  ')!ZD#&U)!VE#&U)!X2#&U)!Y>#&U)!X9#&U)!YO#&U)!Y-#&U)!S+#&U)!W0#&U)!S6#&U)!XF#&U)!S##&U)!R:#&U)!WI#',
+  '&U)!T.#&U)!Y3#&U)!RK#&U)!S)#&U)!R>#&U)!RO#&U)!WJ#&U)!UF#&U)!YD#&U)!S0#&U)!R&#(U)6#T8#(U)6#P7#(U)',
+  '6#U0#(U)6#P+#(U)6#UI#)U)6#QJQ2#)U)6#QJZ!#)U)6#QJQ@#)U)6#QJZK#(U)6#P5#)U)6#V%P5#(U)6#U-#(U)6#P2#)',
+  'U)6#V%P2#(U)6#UB#&U)#[(#&U)#X&#&U)#Z3#&U)#YG#&U)#^A#&U)#c.#%U)SdF#&U)a>##%U)e,-&U)4T,#&U)4P.#&U)',
+  '4P3#&U)4P=#&U)4PI#&U)4Q%#&U)4QE#&U)4R!#&U)4QD#&U)4R*RG&SG!:#&SG!T8#&SG!P7#&SG!U0#&SG!P+#&SG!UI#(',
+  'SG!QJQ2#(SG!QJZ!#(SG!QJQ@#(SG!QJZK#&SG!P5#&SG!U-#&SG!P2#&SG!UB#&SG!Q*#&SG!VF#&SG!S=#&SG!X;#&SG!U',
+  'A#&SG!UL#&SG!VB#&SG!UG#&SG!ZD#&SG!VE#&SG!X2#&SG!Y>#&SG!X9#&SG!YO#&SG!Y-#&SG!S+#&SG!W0#&SG!S6#&SG',
+  '!XF#&SG!S##&SG!R:#&SG!WI#&SG!T.#&SG!Y3#&SG!RK#&SG!S)#&SG!R>#&SG!RO#&SG!WJ#&SG!UF#&SG!YD#&SG!S0#&',
+  'SG!R&#(SG6#T8#(SG6#P7#(SG6#U0#(SG6#P+#(SG6#UI#)SG6#QJQ2#)SG6#QJZ!&(SG6#P5#(SG6#U-#(SG6#P2#(SG6#U',
+  'B#&SG#[(#&SG#X&#&SG#Z3#&SG#YG#&SG#^A#&SG#SG#%SG[O#&SGP0[O#&SG[#P8#&SG[#QG#&SGv.tC#&SGv.tD#&SGv.P',
+  'r?#)SGZ*PEg#P%#,SGZ-P%&v5>uDSdG#,SGZ-P%&v5>Y;l=#,SGZ-P%&gB>Y;l=#-SGZ-P%&gB>Y;P0l=#-SGZ-P%&gB>Y;W',
+  '5l=#)SGZ-P%P0RB#+SGZ-P%P0RB&gB#*SGZ-P%&P0l=#*SGZ-P%&W5l=#*SGZ-P%&g>l=#*SGZ-P%&SdHl=#+SGZ-P%&bL>g',
+  'B#,SGZ-P%&bL>P3Pw8#,SGZ-P%&bL>PIPw8#)SG!SdIZ#P7#)SG!PRDZ#P7#)SG!PRDZ#U0#(SG!Z#P+#)SG6#Z#P+#)SG6#',
+  'Z#UIG&U9!:#&U9!T8#&U9!P7#&U9!U0#&U9!P+#&U9!UI#(U9!QJQ2#(U9!QJZ!#(U9!QJQ@#(U9!QJZK#&U9!P5#&U9!U-#',
+  '&U9!P2#&U9!UB#&U9!Q*#&U9!VF#&U9!S=#&U9!X;#&U9!UA#&U9!UL#&U9!VB#&U9!UG#&U9!ZD#&U9!VE#&U9!X2#&U9!Y',
+  '>#&U9!X9#&U9!YO#&U9!Y-#&U9!S+#&U9!W0#&U9!S6#&U9!XF#&U9!S##&U9!R:#&U9!WI#&U9!T.#&U9!Y3#&U9!RK#&U9',
+  '!S)#&U9!R>#&U9!RO#&U9!WJ#&U9!UF#&U9!YD#&U9!S0#&U9!R&#&U9!]?#(U96#T8#(U96#P7#(U96#U0#(U96#P+#(U96',
+  '#UI#)U96#QJQ2#)U96#QJZ!#)U96#QJQ@#)U96#QJZK#(U96#P5#(U96#U-#(U96#P2#(U96#UB#&U9#X&#&U9#Z3#&U9#YG',
+  '#&U9#SdJ#%U9[O#&U9P0[O#&U9a>##&U9#SdK0&U94T,#&U94P.#&U94P3#&U94P=#&U94PI#&U94Q%#&U94QE#&U94R!#&U',
+  '94QD#&U94R*+(Q9dG&VH#&Q9VLdG#)Q9P0dG&VH#)Q9W5dG&VH#)Q9dG&P0VH#)Q9VLdG&VH#*Q9VLdG&P0VH#&Q9VAdG#*Q',
+  '9VAdG&P0VH#&Q9v6dG#)Q9v6dG&VH#*Q9v6dG&P0VH#+Q9RCv6dG&P0VH8&V?!:#&V?!T8#&V?!P7#&V?!U0#&V?!P+#&V?!',
+  'UI#&V?!P5#&V?!U-#&V?!P2#&V?!UB#&V?!Q*#&V?!VF#&V?!S=#&V?!X;#&V?!UA#&V?!UL#&V?!VB#&V?!UG#&V?!ZD#&V',
+  '?!VE#&V?!X2#&V?!Y>#&V?!X9#&V?!YO#&V?!Y-#&V?!S+#&V?!W0#&V?!S6#&V?!XF#&V?!S##&V?!R:#&V?!WI#&V?!T.#',
+  '&V?!Y3#&V?!RK#&V?!S)#&V?!R>#&V?!RO#&V?!WJ#&V?!UF#&V?!S0#&V?!R&#&V?!a/#&V?#X&#&V?#Z3#(V?6#T8#(V?6',
+  '#P7#(V?6#U0#(V?6#P+#(V?6#UI#(V?6#P5#(V?6#U-#(V?6#P2#(V?6#UB#&V?#YG#&V?#^A#(V?!YIVF#&V?a>#+&V?4T,',
+  '#&V?4P.#&V?4P3#&V?4P=#&V?4PI#&V?4Q%#&V?4QE#&V?4R!#&V?4QD#&V?4R*P/&VI!Q*#&VI!VF#&VI!UA#&VI!S##&VI',
+  '!S+#(VI!Z#S+#&VI!R:#&VI!WI#&VI!T.#&VI!RK#&VI!UG#&VI!VB#&VI!W0#&VI!R>#&VI!RO#&VI!S0#&VI!VE#&VI!R&',
+  '#&VI!:#&VI!S6#&VI!XF#&VI!S=#(VI!Z#S=#&VI!X;#&VI!Y3#&VI!ZD#(VI!Z#T.&)VIT<#SHRO#)VIT<#SHR>#*VIT<#S',
+  'HSdLR>#(VI6#:#(VI6#T8#(VI6#P7#(VI6#U0#(VI6#P+#(VI6#UI#(VI6#P5#(VI6#PR?#(VI6#P2#(VI6#U-#(VI6#h3#&',
+  'VI#SdM)&VI4T,#&VI4P.#&VI4P3#&VI4P=#&VI4PI#&VI4Q%#&VI4QE#&VI4R!#&VI4QD#&VI4R*#&VIDU!#&VIDX>#(VI#%',
+  'Z-#&VI#Z-#&VI#SdN#&VI0iN#&VI!UL#&VI!X2#&VI!Y>#&VI!X9#&VI!YO#&VI!Y-#&VI!]?S.&W7!:#&W7!T8#&W7!P7#&',
+  'W7!U0#&W7!P+#&W7!UI#&W7!P5#&W7!U-#&W7!P2#&W7!UB#&W7!Q*#&W7!VF#&W7!S=#&W7!X;#&W7!UA#&W7!UL#&W7!VB',
+  '#&W7!UG#&W7!ZD#&W7!VE#&W7!X2#&W7!Y>#&W7!X9#&W7!YO#&W7!Y-#&W7!S+#&W7!W0#&W7!S6#&W7!XF#&W7!S##&W7!',
+  'R:#&W7!WI#&W7!T.#&W7!Y3#&W7!RK#&W7!S)#&W7!R>#&W7!RO#&W7!WJ#&W7!UF#&W7!YD#&W7!S0#&W7!R&#&W7!a/#(W',
+  '76#T8#(W76#P7#(W76#U0#(W76#P+#(W76#UI#)W76#QJQ2#)W76#QJZ!#(W76#P5#(W76#U-#(W76#P2#(W76#UB#&W7#X&',
+  '#&W7#Z3#&W7#YG#&W7#^A#&W7a>#Q1)TLTM)!z*#)TLTM)!:#)TLTM)!_D#)TLTM)!YK#)TLTM)!S)#)TLTM)![7#)TLTM)!',
+  'U0#)TLTM)!UI#)TLTM)!P5#)TLTM)!P2#)TLTM)!e/#)TLTM)!S=#)TLTM)!^B#)TLTM)!qE#)TLTM)!Pw9#)TLTM)!z;#)T',
+  'LTM)!PY0#)TLTM)!m>#)TLTM)!t8#)TLTM)!PZF#)TLTM)!S6#)TLTM)!]G#)TLTM)!h3#)TLTM)!^1#)TLTM)!e3#)TLTM)',
+  '!Pw:#)TLTM)!Pw;#)TLTM)!Pw<#)TLTM)!p/#)TLTM)!Pw=#)TLTM)!t:#)TLTM)!Pw>#)TLTM%!z*#)TLTM%!:#)TLTM%!_',
+  'D#)TLTM%!YK#)TLTM%!S)#)TLTM%![7#)TLTM%!U0#)TLTM%!UI#)TLTM%!P5#)TLTM%!P2#)TLTM%!e/#)TLTM%!S=#)TLT',
+  'M%!^B#)TLTM%!qE#)TLTM%!Pw9#)TLTM%!z;#)TLTM%!PY0#)TLTM%!m>#)TLTM%!t8#)TLTM%!PZF#)TLTM%!S6#)TLTM%!',
+  ']G#)TLTM%!h3#)TLTM%!^1#)TLTM%!e3#)TLTM%!Pw:#)TLTM%!Pw;#)TLTM%!Pw<#)TLTM%!p/#)TLTM%!Pw=#)TLTM%!t:',
+  '#)TLTM%!Pw>#(TLTM4T,#(TLTM4P.#(TLTM4P3#(TLTM4P=#(TLTM4PI#(TLTM4Q%#(TLTM4QE#(TLTM4R!#(TLTM4QD#(TL',
+  'TM4R*#(TLTMDU!#(TLTMDX>#(TLTMD]%#(TLTMD]L#(TLTMDZN#(TLTMDbC#(TLTMD[+#(TLTMDcN#(TLTMDZ51&TLTMe,#(',
+  'V)V*!:#(V)V*!T8#(V)V*!P7#(V)V*!U0#(V)V*!P+#(V)V*!UI#(V)V*!P5&(V)V*!P2&(V)V*!Q*#(V)V*!VF#(V)V*!S=',
+  '#(V)V*!X;#(V)V*!UA#(V)V*!UL#(V)V*!VB#(V)V*!UG%(V)V*!VE#(V)V*!X2%(V)V*!X9#(V)V*!YO#(V)V*!Y-#(V)V*',
+  '!S+#(V)V*!W0#(V)V*!S6#(V)V*!XF#(V)V*!S##(V)V*!R:#(V)V*!WI#(V)V*!T.#(V)V*!Y3#(V)V*!RK#(V)V*!S)#(V',
+  ')V*!x5#(V)V*!R>#(V)V*!RO#(V)V*!WJ#(V)V*!UF#(V)V*!YD#(V)V*!S0#(V)V*!R&#(V)V*!]?#(V)V*!X6#)V)V*6#T',
+  '8#)V)V*6#P7#)V)V*6#U0#)V)V*6#P+#)V)V*6#UI#)V)V*6#P5%)V)V*6#U-#)V)V*6#P2&(V)V*#X&#(V)V*#[(#(V)V*#',
+  'PS1#&V)V*YG#)V)V*i*v7##(V)V*SHS)#(V)V*Q&R>#(V)V*SHR>#(V)V*#^A#(V)V*P0[O#(V)V*q;iL#*V)V*Z*PEg#P%.',
+  '(V)V*4T,#(V)V*4P.#(V)V*4P3#(V)V*4P=#(V)V*4PI#(V)V*4Q%#(V)V*4QE#(V)V*4R!#(V)V*4QD#(V)V*4R*P?&VJ!:',
+  '#&VJ!T8#&VJ!P7#&VJ!U0#&VJ!P+#&VJ!UI#(VJ!QJQ2#(VJ!QJZ!&&VJ!P5#&VJ!U-#&VJ!P2#&VJ!UB#&VJ!Q*#&VJ!VF#',
+  '&VJ!S=#&VJ!X;#&VJ!UA#&VJ!UL#&VJ!VB#&VJ!UG#&VJ!ZD#&VJ!VE#&VJ!X2#&VJ!Y>#&VJ!X9#&VJ!YO#&VJ!Y-#&VJ!S',
+  '+#&VJ!W0#&VJ!S6#&VJ!XF#&VJ!S##&VJ!R:#&VJ!WI#&VJ!T.#&VJ!Y3#&VJ!RK#&VJ!S)#&VJ!R>#&VJ!RO#&VJ!WJ#&VJ',
+  '!UF#&VJ!YD#&VJ!S0#&VJ!R&#&VJ!]?#&VJ!a/#(VJ6#T8#(VJ6#P7#(VJ6#U0#(VJ6#P+#(VJ6#UI#)VJ6#QJQ2#)VJ6#QJ',
+  'Z!&(VJ6#P5#(VJ6#U-#(VJ6#P2#(VJ6#UB#&VJ#X&#&VJ#Z3#&VJ#YG#&VJ#c.#&VJ#SG#%VJPZ@#)VJ6#PR>P5@(V+P&!:#',
+  ')V+P&6#P7#)V+P&6#_/#)V+P&6#P+#)V+P&6#P5#)V+P&6#Y0#)V+P&6#P2#)V+P&6#U-#)V+P&6#UB#*V+P&6#TCP7#)V+P',
+  '&6cJP%#(V+P&!Q*#(V+P&!VF#(V+P&!S=#(V+P&!X;#(V+P&!UA#(V+P&!UL#(V+P&!VB#(V+P&!UG#(V+P&!VE#(V+P&!X2',
+  '#(V+P&!Y>#(V+P&!X9#(V+P&!YO#(V+P&!Y-#(V+P&!S+#(V+P&!W0#(V+P&!S6#(V+P&!XF#(V+P&!S##(V+P&!R:#(V+P&',
+  '!WI#(V+P&!T.#(V+P&!Y3#(V+P&!RK#(V+P&!]!#(V+P&!cK#(V+P&!e-#(V+P&!sL#(V+P&!_>#(V+P&!X6#(V+P&!p*#(V',
+  '+P&!S)#(V+P&!R>#(V+P&!RO#(V+P&!WJ#(V+P&!UF#(V+P&!YD#(V+P&!S0#(V+P&!R&#(V+P&!sM#)V+P&P/T<P%#(V+P&',
+  '#YG#(V+P&#[(#*V+P&#[(&VH#*V+P&#cI&VH#(V+P&#X&#(V+P&#Z3#)V+P&v8!R>#)V+P&}0!S)#)V+P&}0!R>#)V+P&}0!',
+  'RO#)V+P&}0!WJ#)V+P&Q&]>P%#)V+P&sI]>P%#(V+P&P%g7#(V+P&P%c0#)V+P&P%P0c0#)V+P&P%RMg7#*V+P&Q&Pw?]>P%',
+  '#*V+P&sIPw?]>P%#&V+P&Pw@-&U%!:#(U%6#P7#(U%6#_/#(U%6#P+#(U%6#P5#(U%6#P2#(U%6#Y0#(U%6#U-#(U%6#UB#)',
+  'U%6#QJQ2#)U%6#QJQ@#(U%6cJP%#&U%!Q*#&U%!VF#&U%!S=#&U%!X;#&U%!UA#&U%!UL#&U%!VB#&U%!UG#&U%!ZD#&U%!V',
+  'E#&U%!X2#&U%!Y>#&U%!X9#&U%!YO#&U%!Y-#&U%!S+#&U%!W0#&U%!S6#&U%!XF#&U%!S##&U%!R:#&U%!WI#&U%!T.#&U%',
+  '!Y3#&U%!RK#&U%!]!#&U%!cK#&U%!e-#&U%!_>#&U%!X6#&U%!p*#&U%!S)#&U%!R>#&U%!RO#&U%!WJ#&U%!UF#&U%!YD#&',
+  'U%!S0#&U%!R&#&U%!sM#&U%#p##&U%#p%#(U%v8!R>#(U%v8!RO#(U%v8!UF#(U%v8!S0#)U%P/T<#S9#)U%P/T<#S>#)U%P',
+  '/T<#_<#)U%P/T<#SJ#)U%P/T<#R<#)U%P/T<#P;#)U%P/T<#S&#)U%P/T<#Q2#)U%P/T<#Q@#)U%P/T<#mN#)U%P/T<#Q3#)',
+  'U%P/T<#p*#&U%#X&#&U%#Z3#&U%s?P%#%U%Pw@#&U%P%g7#&U%P%c0#(U%P%P0c0#&U%P%Pw4#.U%]>P%&]3>c5>W5PwA#-U',
+  '%]>P%&]3>c5>PwA#+U%]>P%&]3>c5#&U%PwBtC#&U%PwBtD2(89fHZ;#(89fHPh(#(89fH]I#(89fHt<#(89fHR&#(89fHg3',
+  '#(89fHPw3#(89fHSdO#(89fHSe!#(89fHSe##(89fHSe%#(89fHSe&#&89Se(#&89Se)#&89Se*#&89P_E#)W?W@W;!R:#)W',
+  '?W@W;!Q*#)W?W@W;!RO#)W?W@W;!RK#)W?W@W;!S6#)W?W@W;!X6#)W?W@W;!WJ#)W?W@W;!UA#)W?W@W;!R&#)W?W@W;!S=',
+  '#)W?W@W;!VF#)W?W@W;!S0#)W?W@W;!T.#)W?W@W;!UL#)W?W@W;!S+#)W?W@W;!W0#)W?W@W;!S##)W?W@W;!WI#)W?W@W;',
+  '!R>#)W?W@W;!YF#)W?W@W;!VB#)W?W@W;!:#)W?W@W;!P5#)W?W@W;!P7#)W?W@W;!P2#)W?W@W;!P+#)W?W@W;!p=#)W?W@',
+  'W;!}!#*W?W@W;!P/TE#*W?W@W;!P/S>#*W?W@W;!P/S;#*W?W@W;!P/S&#*W?W@W;!P/R<#*W?W@W;!P/Q@#*W?W@W;!P/U+',
+  '#*W?W@W;!P/_<#*W?W@W;!P/T-#*W?W@W;cHR,RM#)W?W@W;cHR,#*W?W@W;iBZHUE#+W?W@W;cHR,RMP/#*W?W@W;cHR,P/',
+  '#+W?W@W;iBZHUEP/#*W?W@W;iBR,RM#)W?W@W;iBR,#+W?W@W;iBR,RMP/#*W?W@W;iBR,P/#)W?W@W;P[*R,#*W?W@W;ZHU',
+  'E[;#+W?W@W;P[*R,RMP/#*W?W@W;P[*R,P/#*W?W@W;}1R,RM#)W?W@W;}1R,#)W?W@W;ZHUE#+W?W@W;}1R,RMP/#*W?W@W',
+  ';}1R,P/#*W?W@W;ZHUEP/U!&SM!:#&SM!T8#&SM!P7#&SM!U0#&SM!P+#&SM!UI#(SM!QJQ2#(SM!QJZ!#(SM!QJQ@%&SM!P',
+  '5#&SM!U-#&SM!P2#&SM!UB#&SM!Q*#&SM!VF#&SM!S=#&SM!X;#&SM!UA#&SM!UL#&SM!VB#&SM!UG#&SM!ZD#&SM!VE#&SM',
+  '!X2#&SM!Y>#&SM!X9#&SM!YO#&SM!Y-#&SM!S+#&SM!W0#&SM!S6#&SM!XF#&SM!S##&SM!R:#&SM!WI#&SM!T.#&SM!Y3#&',
+  'SM!RK#&SM!S)#&SM!R>#&SM!RO#&SM!WJ#&SM!UF#&SM!YD#&SM!S0#&SM!R&#(SM6#T8#(SM6#P7#(SM6#U0#(SM6#P+#(S',
+  'M6#UI#)SM6#QJQ2#)SM6#QJZ!#)SM6#QJQ@%(SM6#P5#(SM6#U-#(SM6#P2#(SM6#UB#&SM#[(#&SM#X&#&SM#Z3#&SM#YG#',
+  '&SM#c.#%SM[O#&SMP0[O#&SM_.[##&SMq;Se+#&SMq;Se,/&SM4T,#&SM4P.#&SM4P3#&SM4P=#&SM4PI#&SM4Q%#&SM4QE#',
+  '&SM4R!#&SM4QD#&SM4R*#&SMDP.#&SMDP3#&SMDP=#&SMDPI#&SMDQ%#&SMDQE#&SMDR!#&SMDQD#&SMDR*#&SMDU!#&SMDX',
+  '>#&SMD]%#&SMD]L#&SMDZN#&SMDbC#&SMD[+#&SMDcN#&SMDZ5#(SMP[+e%P%(&V@]>P%#&V@P%c0#&V@!Q*#&V@!VF#&V@!',
+  'S=#&V@!UA#&V@!UL#&V@!VB#&V@!UG#&V@!VE#&V@!S+#&V@!W0#&V@!S6#&V@!S##&V@!R:#&V@!WI#&V@!T.#&V@!RK#&V',
+  '@!]!#&V@!cK#&V@!e-#&V@!UM#&V@!_>#&V@!X6#&V@!p*#&V@!S)#&V@!R>#&V@!RO#&V@!UF#&V@!S0#&V@!R&#&V@!:&(',
+  'V@TJ!Q*#(V@TJ!VF#(V@TJ!S=#(V@TJ!UA#(V@TJ!UL#(V@TJ!VB#(V@TJ!UG#(V@TJ!VE#(V@TJ!S+#(V@TJ!W0#(V@TJ!S',
+  '6#(V@TJ!S##(V@TJ!R:#(V@TJ!WI#(V@TJ!T.#(V@TJ!RK#(V@TJ!]!#(V@TJ!cK#(V@TJ!e-#(V@TJ!UM#(V@TJ!_>#(V@T',
+  'J!X6%(V@TJ!S)#(V@TJ!R>#(V@TJ!RO#(V@TJ!UF#(V@TJ!S0#(V@TJ!R&#(V@TJ!:#(V@6#T8#(V@6#P7#(V@6#P+#(V@6#',
+  'P5#(V@6#P2#&V@#X&#&V@#[(PB(UDR.!:#(UDR.!T8#(UDR.!P7#(UDR.!U0#(UDR.!P+#(UDR.!UI#(UDR.!P5%(UDR.!U-',
+  '#(UDR.!P2%(UDR.!UB#(UDR.!Q*#(UDR.!VF#(UDR.!S=#(UDR.!X;#(UDR.!UA#(UDR.!UL#(UDR.!VB#(UDR.!UG#(UDR.',
+  '!ZD#(UDR.!VE#(UDR.!X2#(UDR.!Y>#(UDR.!X9#(UDR.!YO#(UDR.!Y-#(UDR.!S+#(UDR.!W0#(UDR.!S6#(UDR.!XF#(U',
+  'DR.!S##(UDR.!R:#(UDR.!WI#(UDR.!T.#(UDR.!Y3#(UDR.!RK#(UDR.!S)#(UDR.!R>#(UDR.!RO#(UDR.!WJ#(UDR.!UF',
+  '#(UDR.!YD#(UDR.!S0#(UDR.!R&#(UDR.!]?#(UDR.!sM#(UDR.!Pi7#(UDR.!PUF#)UDR.6#T8#)UDR.6#P7#)UDR.6#U0#',
+  ')UDR.6#P+#)UDR.6#UI#*UDR.6#QJQ2()UDR.6#P5%)UDR.6#U-#)UDR.6#P2%)UDR.6#UB#(UDR.#X&#(UDR.#Z3#(UDR.#',
+  '^A#(UDR.#cI#(UDR.#PS1#&UDR.YG#&UDR.Se-#&UDR.Se.-(UDR.4T,#(UDR.4P.#(UDR.4P3#(UDR.4P=#(UDR.4PI#(UD',
+  'R.4Q%#(UDR.4QE#(UDR.4R!#(UDR.4QD#(UDR.4R*+(W%R.!:#(W%R.!T8#(W%R.!P7#(W%R.!U0#(W%R.!P+#(W%R.!UI%(',
+  'W%R.!Y=#(W%R.!U-%(W%R.!XE#(W%R.!UB#(W%R.!S)#(W%R.!WJ#(W%R.!T.#(W%R.!Y3#(W%R.!RK#(W%R.!Q*#(W%R.!V',
+  'F#(W%R.!S+#(W%R.!W0#(W%R.!RO#(W%R.!S=#(W%R.!X;#(W%R.!S6#(W%R.!XF#(W%R.!S##(W%R.!UL#(W%R.!VB#(W%R',
+  '.!X2#(W%R.!Y>#(W%R.!]?#(W%R.!UG#(W%R.!ZD#(W%R.!X9#(W%R.!YO#(W%R.!UA#(W%R.!R:#(W%R.!WI#(W%R.!R&#(',
+  'W%R.!R>#(W%R.!S0#)W%R.6#T8#)W%R.6#P7#)W%R.6#U0#)W%R.6#P+#)W%R.6#UI%)W%R.6#Y=#)W%R.6#U-%)W%R.6#XE',
+  '#)W%R.6#UB#(W%R.#X&#(W%R.#Z3#&W%R.YG#&W%R.e,,(W%R.4T,#(W%R.4P.#(W%R.4P3#(W%R.4P=#(W%R.4PI#(W%R.4',
+  'Q%#(W%R.4QE#(W%R.4R!#(W%R.4QD#(W%R.4R*V&&^H!Q*#&^H!S=#&^H!UA#&^H!R:#&^H!T.#&^H!RK#&^H!S+#&^H!S6#',
+  '&^H!S##&^H!UL#&^H!UG#&^H!VE#&^H!S)#&^H!R>#&^H!RO#&^H!WJ#&^H!S0#&^H!:#%^HSe/#(^H6#P7#(^H6#P+#(^H6',
+  '#P5#(^H6#P2#%^HSe0#(^HZ*PEZ-S,&XA!Se14(R3SFP.Se2#(R3SFP.Pc9#(R3SFP.Se3#(R3SFP.P[,#(R3SFP.Pc:#(R3',
+  'SFP.P[-#(R3SFP=Pc;#(R3SFP=Se4#(R3SFP.Pc<#(R3SFP.Se5#(R3SFP.Se6#(R3SFP.PRG#(R3SFP.Z4#(R3SFP=Pc=#(',
+  'R3SFP=x7#(R3SFP.PRH#(R3SFP.Z.#(R3SFP.Se7#(R3SFP.Se8#(R3SFP=c?#)R3SFSe9PVASe:#&R3#P_?#&R3#Se;#&R3',
+  '#Se<#&R3#Se=#&R3#Se>#&R3#Se?#&R3#Se@#&R3#SeA#&R3#SeB#&R3#SeC#&R3#v9#&R3#SeD#&R3#SeE#&R3#SeF#&R3#',
+  'SeG#(R3SeHPwC##(R3PY)PwC##&R3SeI##(R3hOP[.##(R3PwDPRF##(R3PwDD##&R3PVF##(R3>m>##&R3SeJ##&R3Pk(##',
+  '(R3VKPo2##(R3SeKZE##&R3#SeL#&R3#SeM2)R3S<Z*PEg##&.#:#).#:<:#).#:<aK#*.#:<_JYB#).#:<R&#).#:<[>#*.',
+  '#:<d/WG#).#:<bM#).#:<]8#&.#PZH#&.#_N#).#_N<i+#*.#_N<n:WG#).#_N<j>#*.#_N<_JYB#).#_N<R&#*.#_N<[>WG',
+  '#).#_N<}2#).#_N<W&#).#_N<P[/#-.#_N<P+Q1P+Q1P+#(.#_NWG#&.#aL#).#aL<}3#*.#aL<_JYB#+.#aL<[*Q1WB#).#',
+  'aL<fI#).#aL<c9#&.#m:#&.#oJ#).#oJ<qF#+.#oJ<}4Q1_K#&.#bA#).#bA<bA#).#bA<P[0#).#bA<_K#).#bA<R&#).#b',
+  'A<v:#).#bA<_##).#bA<Y&#).#bA<fJ#&.#SeN#&.#bK#&.#}5#).#}5<Y&#&.#Z9#).#Z9R4Z9#).#Z9P=<#-.#Z9Q1l>l?',
+  'Z9Q1l>#*.#Z9Q1l>Q4#&.#P[1#&.#SeO#&.#PwE#).#PwE<aJ#&.#Sf!#&.#Sf##&.#WC#).#WCPwFYB#).#WCPwGYB#0.#W',
+  'CR4WCl@R4l@l@R4l@b3#+.#WCR4WCR4WC#1.#WCR4WCR4WC[9WCR4WCR4WC#&.#i+#&.#P[2#&.#T.#&.#aK#&.#Sf%#&.#v',
+  ';#&.#v<#).#v<R4v<#&.#}3#&.#QG#&.#Sf&#&.#aD#).#aD<:#).#aD<]0#*.#aD<[>WG#&.#^1#*.#^1R4^1_N#*.#^1R4',
+  '^1iI#).#^1[9^1#&.#}6#).#}6R4}6#&.#gJ#&.#Sf(#&.#S6#&.#]M#,.#]M]9<:Q1n;#*.#]M]9<}5#*.#]M]9<}3#*.#]',
+  'M]9<aD#*.#]M]9<S=#,.#]M]9<S=Q1n;#*.#]M]9<^C#*.#]M]9<n<#*.#]M]9<bN#*.#]M]9<R&#*.#]M]9<tI#,.#]M]9<',
+  'tIQ1^0#*.#]M]9<i,#*.#]M]9<RO#*.#]M]9<^0#,.#]M]9<^0Q1PwH#*.#]M]9<fF#*.#]M]9<ZM#,.#]M]9<b3Q1b3#*.#',
+  ']M]9<^J#*.#]M]9<c9#,.#]M]9<d0Q1n<#*.#]M]9<fJ#&.#Sf)#&.#PwI#&.#PwJ#&.#Sf*#&.#aF#&.#PwK#&.#n=#).#n',
+  '=<Y&#&.#P[0#&.#}7#+.#}7d1P+WG_3#&.#_3#&.#aE#).#aER4aE#(.#aEWG#(.#aEc:#&.#qG#).#qG<i-#&.#Sf+#&.#[',
+  ',#&.#Sf,#&.#Sf-#&.#P[3#&.#n:#(.#n:WG#).#n:WGWG#&.#Sf.#&.#Sf/#&.#P5#).#P5<b3#,.#P5R4P5W8R4W8#&.#f',
+  'G#-.#fG<:Q1R&Q1S6#).#fG<]0#).#fG<]##).#fG<i.#).#fG<Y&#).#fG<P+#&.#Sf0#&.#Sf1#&.#_-#&.#WB#).#WB<_',
+  'J#*.#WB<_JYB#).#WB<[*#).#WB[9WB#).#WBl?WB#(.#WBQ4#&.#PwL#&.#qF#&.#i-#&.#[I#).#[I<:#+.#[I<:Q1fK#-',
+  '.#[I<:Q1fK<fK#).#[I<Z9#).#[I<aK#*.#[I<n:WG#+.#[I<n:WGWG#).#[I<R&#*.#[I<R&WG#*.#[I<[>WG#).#[I<d1#',
+  '*.#[I<d1Q4#).#[I<qH#).#[I<RO#+.#[I<fK<fK#).#[I<VG#).#[I<^0#).#[I<d0#).#[I<]@#&.#S=#(.#S=WG#&.#U=',
+  '#-.#U=<:Q1S6Q1R&#+.#U=<:Q1R&#+.#U=<:Q1[>#,.#U=<aLYBQ1g%#).#U=<Z9#).#U=<WC#+.#U=<i+Q1j>#).#U=<aK#',
+  '+.#U=<QGQ1R>#).#U=<gJ#+.#U=<gJQ1R>#).#U=<S6#).#U=<aF#+.#U=<n=<Y&#).#U=<qG#).#U=<_-#+.#U=<_-Q1RO#',
+  ').#U=<WB#,.#U=<WB<_JYB#*.#U=<_JYB#).#U=<]0#).#U=<^C#).#U=<n>#+.#U=<n>Q1:#+.#U=<n<Q1_A#-.#U=<R&Q1',
+  '^0Q1i-#).#U=<qI#+.#U=<qIQ1RO#+.#U=<Z;Q1VG#).#U=<lA#*.#U=<[>WG#-.#U=<P[4Q1dEQ1WC#).#U=<i,#).#U=<d',
+  '1#).#U=<}8#+.#U=<}8Q1fK#+.#U=<qHQ1Z9#).#U=<RO#+.#U=<[*Q1WB#).#U=<]##).#U=<W8#+.#U=<W8R4W8#).#U=<',
+  'R:#).#U=<i.#).#U=<qJ#).#U=<Y&#+.#U=<Y&Q1q:#).#U=<qK#).#U=<q)#).#U=<c9#).#U=<P+#).#U=<]@#+.#U=<]@',
+  'Q1aE#).#U=R4U=#&.#}9#).#}9[9}9#&.#i/#,.#i/R4i/]0R4]0#&.#j>#-.#j>i/R4i/]0R4]0#&.#Sf2#&.#Sf3#&.#mD',
+  '#&.#_J#(.#_JYB#).#_JR4_J#).#_J[9_J#&.#]0#&.#Sf4#&.#Sf5#&.#P[5#).#P[5<aJ#&.#^C#).#^C<P5#).#^C<P+#',
+  ').#^C[9^C#&.#n>#).#n>R4n>#).#n>[9n>#&.#Sf6#&.#n<#(.#n<WG#&.#qL#+.#qL<:Q1[>#*.#qL<_JYB#).#qL<[>#+',
+  '.#qL<^0Q1[>#).#qL<R:#&.#Sf7#&.#_K#).#_K[9_K#).#_K<aK#).#_K<c9#(.#_KYB#&.#bB#).#bB[9bB#&.#n?#).#n',
+  '?<i,#,.#n?<i,<[>WG#).#n?<W8#+.#n?<i.Q1l@#(.#n?WG#&.#bN#+.#bN<:Q1aJ#).#bN<aJ#*.#bNR4bNn@#&.#PwM#&',
+  '.#P[6#).#P[6<Y&#&.#|;#&.#PwN#&.#Sf8#&.#Sf9#&.#R&#(.#R&YB#(.#R&WG#&.#qI#&.#Z;#).#Z;<WC#).#Z;<i+#)',
+  '.#Z;<aK#).#Z;<_3#).#Z;<i/#).#Z;<P[7#).#Z;<W8#).#Z;<Y&#).#Z;<P+#&.#dE#&.#lA#).#lA<Z9#).#lA<qI#).#',
+  'lA<d1#).#lA<P[8#).#lA<]@#&.#Sf:#&.#P7#(.#P7:#&.#P[9#&.#v=#*.#v=R4v=gJ#*.#v=R4v=Q4#&.#PwO#&.#[>#(',
+  '.#[>PwK#(.#[>b9#/.#[>R4[>qMR4qM]@R4]@#(.#[>WG#&.#Px!#*.#Px!<_JYB#&.#Sf;#&.#d,#).#d,<c9#).#d,[9d,',
+  '#).#d,l?d,#(.#d,Q4#&.#}2#&.#VK#&.#tI#&.#P[4#&.#Q*#).#Q*<:#).#Q*<m:#+.#Q*<m:Q1qH#).#Q*<i+#).#Q*<a',
+  'K#).#Q*<}3#).#Q*<QG#).#Q*<aD#).#Q*<qF#).#Q*<i-#).#Q*<S=#).#Q*<j>#*.#Q*<_JYB#).#Q*<]0#-.#Q*<]0Q1f',
+  'IQ1:#).#Q*<^C#).#Q*<n<#+.#Q*<_KQ1qJ#+.#Q*<_K[9_K#).#Q*<bB#).#Q*<PwN#).#Q*<[>#).#Q*<d,#).#Q*<i,#)',
+  '.#Q*<_##).#Q*<}8#).#Q*<VG#).#Q*<^0#).#Q*<[*#+.#Q*<[*Q1aE#+.#Q*<[*Q1^C#+.#Q*<[*Q1Z7#).#Q*<]##+.#Q',
+  '*<]#Q1dK#).#Q*<ZM#).#Q*<W8#).#Q*<X.#).#Q*<_0#).#Q*<S0#).#Q*<qJ#).#Q*<UF#).#Q*<Y&#).#Q*<qK#).#Q*<',
+  'cL#).#Q*<Px##).#Q*<Px%#).#Q*<mE#).#Q*<P+#).#Q*<d0#).#Q*<]@#+.#Q*<}:<R:#).#Q*<fJ#).#Q*<g9#&.#P[:#',
+  ').#P[:[9P[:#&.#Px&#&.#Px(#&.#v:#&.#Sf<#&.#P[;#).#P[;R4P[;#&.#i,#*.#i,<[>WG#&.#v>#).#v><aK#).#v>[',
+  '9v>#&.#Sf=#&.#Sf>#&.#d1#..#d1W&<P+R4W&<P+#0.#d1R4d1W&<P+R4W&<P+#&.#Px)#&.#_##).#_#<aK#).#_#<P+#)',
+  '.#_#<]@#&.#}8#&.#P[7#&.#Sf?#&.#Sf@#&.#]9#).#]9R4]9#&.#_B#0.#_BR4Z;<i+_BR4Z;<i+#&.#qH#&.#Px*#).#P',
+  'x*[;5#&.#SfA#&.#};#(.#};WG#&.#Px+#&.#aJ#).#aJl?aJ#&.#qN#&.#SfB#&.#RO#&.#W&#).#W&<:#-.#W&<:Q1S6Q1',
+  'R&#+.#W&<:Q1]0#+.#W&<:Q1fK#).#W&<bA#).#W&<Z9#+.#W&<WCPwFYB#).#W&<aK#).#W&<aD#).#W&<PwI#).#W&<WB#',
+  ').#W&<S=#).#W&<]0#).#W&<bN#+.#W&<bNQ1bN#).#W&<R&#).#W&<qI#+.#W&<Z;<W8#*.#W&<[>WG#).#W&<d,#+.#W&<',
+  'd,Q1R&#+.#W&<d,Q1^0#).#W&<_##).#W&<P[7#).#W&<qH#).#W&<};#-.#W&<};Q1Z;Q1:#).#W&<W&#).#W&<P[8#).#W',
+  '&<^0#).#W&<P[<#).#W&<[*#+.#W&<[*Q1WB#).#W&<bM#).#W&<ZM#+.#W&<Y&Q1q)#-.#W&<}4Q1_KQ1qF#,.#W&<}4Q1_',
+  'KYB#).#W&<jA#+.#W&<jAQ1jA#).#W&<q)#).#W&<S5#).#W&<c9#/.#W&<Z7Q1:Q1_AQ1S##).#W&<P+#+.#W&<P+Q1:#-.',
+  '#W&<P+Q1P+Q1P+#+.#W&<d0Q1WC#).#W&<]@#).#W&<fJ#(.#W&Q4#&.#d/#).#d/<Y&#+.#d/<Y&Q1q)#(.#d/WG#,.#d/W',
+  'GR4d/WGY&#&.#SfC#&.#fK#).#fK<fK#&.#UH#).#UH<aJ#+.#UH<aJQ1_0#&.#VG#&.#SfD#&.#SfE#&.#P[8#&.#^0#).#',
+  '^0<aK#&.#ZF#).#ZF<bA#).#ZF<aK#).#ZF<i-#*.#ZF<i-YB#*.#ZF<_JYB#+.#ZF<Z;<aK#).#ZF<d,#).#ZF<Px(#).#Z',
+  'F<v:#+.#ZF<v:Q1WC#).#ZF<_##+.#ZF<ROQ1WC#).#ZF<W&#+.#ZF<[*Q1WB#).#ZF<ZM#).#ZF<[4#+.#ZF<^JQ1WC#+.#',
+  'ZF<Px,Q1^1#).#ZF<l@#(.#ZFYB#).#ZF[9ZF#).#ZFl?ZF#(.#ZFQ4#(.#ZFc:#&.#qO#&.#n@#).#n@R4n@#).#n@l?n@#',
+  '(.#n@c:#&.#P[=#&.#P[<#&.#fF#).#fFR4fF#,.#fFR4fF]0R4]0#&.#RK#).#RK<c9#(.#RKWG#&.#SfF#&.#Pw0#&.#Pd',
+  '?#&.#n;#&.#PwH#&.#[*#&.#P[>#&.#]##&.#}<#&.#YJ#).#YJR4YJ#&.#}=#(.#}=WG#&.#SfG#&.#SfH#&.#bM#).#bM<',
+  ':#).#bM<aJ#).#bM<X6#).#bMR4bM#-.#bMR4bM<:Q1S##).#bM[9bM#&.#r!#).#r!<:#+.#r!<:Q1aF#).#r!<aF#(.#r!',
+  'WG#&.#S##&.#Px-#&.#l>#(.#l>VA#*.#l><cLYB#).#l>l?l>#&.#SfI#(.#Px.Px/#&.#Px.#&.#Px0#&.#ZM#).#ZM<:#',
+  ').#ZM<]@#(.#ZMc:#&.#ZL#).#ZL<P5#&.#SfJ#&.#P[?#*.#P[?<_JYB#,.#P[?<]0Q1_JYB#&.#^%#).#^%<Z9#).#^%<W',
+  'C#+.#^%<WCQ1WC#).#^%<bN#,.#^%<[*Q1_JYB#).#^%<ZM#).#^%<W8#).#^%<Y&#,.#^%<Y&Q1:Z9#+.#^%<Y&Q1WC#-.#',
+  '^%<Y&Q1WCQ1WC#+.#^%<d0Q1WC#).#^%<fJ#&.#SfK#&.#[4#&.#v?#&.#W8#*.#W8d/<]0#*.#W8d/<n;#*.#W8d/<i.#/.',
+  '#W8d/<i.R4W8d/<i.#*.#W8d/<fJ#(.#W8YB#).#W8R4W8#).#W8[9W8#,.#W8[9W8d/R4d/#&.#dK#*.#dKaL<P[2#*.#dK',
+  'aL<aD#*.#dKaL<[,#*.#dKaL<bN#+.#dKaL<[>WG#*.#dKaL<v:#*.#dKaL<RO#*.#dKaL<ZM#*.#dKaL<Px1#*.#dKaL<d0',
+  '#*.#dK]9<aD#+.#dK]9<aDP+#&.#R:#&.#o2#&.#P[.#&.#b3#&.#Px2#&.#X.#).#X.<:#).#X.<_N#).#X.<aD#).#X.<^',
+  '1#).#X.<P5#).#X.<P7#).#X.<P[9#).#X.<P+#).#X.<d0#).#X.[9X.#&.#r##).#r#<v>#).#r#<]@#).#r#<X6#).#r#',
+  'l?r##&.#R>#&.#SfL#&.#b9#&.#_0#&.#S0#(.#]8Px/#&.#]8#).#]8<:#).#]8<aE#).#]8<qG#).#]8<R&#).#]8<i,#)',
+  '.#]8<aJ#).#]8<fF#).#]8<]##).#]8<W8#).#]8<i.#).#]8<qK#).#]8<g%#).#]8<d0#).#]8<Px3#).#]8<j?#).#]8<',
+  'j%#).#]8<fJ#).#]8R4]8#(.#]8WG#&.#i.#*.#i.W&<i+#&.#SfM#&.#qJ#&.#UF#&.#fI#).#fI<:#).#fI<aK#).#fI<_',
+  'K#).#fI<ZM#).#fI<jA#).#fI<q:#).#fI<P+#+.#fI<P+Q1:#&.#Px4#&.#SfN#&.#fL#&.#Y&#(.#Y&dE#/.#Y&R4Y&i/R',
+  '4i/]0R4]0#/.#Y&R4Y&g%R4g%]0R4]0#&.#SfO#&.#Sg!#&.#P[/#&.#Sg##&.#Sg%#&.#qK#).#qK<:#).#qK<d,#&.#eE#',
+  ').#eE<:#).#eE<v<#).#eE<}6#).#eE<}7#).#eE<]0#).#eE<[>#*.#eE<[>WG#).#eE<qN#).#eE<P[<#).#eE<}=#).#e',
+  'E<i.#&.#Sg&#&.#qM#(.#v?YB!(.#qMYB#,.#v?R4v?gJR4gJ!,.#qMR4qMgJR4gJ#&.#}4#&.#cL#*.#cLR4VAcL#&.#jA#',
+  '&.#Sg(#&.#^J#(.#^JWG#&.#Px##&.#}>#*.#}>R4}>jA#&.#Px,#&.#Px1#&.#_A#).#_AR4_A#&.#Sg)#&.#Sg*#&.#Px%',
+  '#&.#q)#&.#Sg+#&.#|=#&.#Sg,#&.#S+#(.#S+Y##).#S+<Z;#).#S+<]##(.#S+WG#&.#g%#/.#g%R4g%ZLR4ZL_3R4_3#(',
+  '.#g%Q4#&.#S5#).#S5<aD#).#S5<bN#).#S5<Y&#).#S5<cL#).#S5<l@#).#S5<]@#&.#c9#&.#mE#&.#Z7#(.#Z7WG#&.#',
+  'aC#(.#aCYB#&.#PZE#&.#mO#).#mO<c9#).#mOR4mO#/.#mOR4mOi/R4i/]0R4]0#&.#^D#&.#l@#&.#Pi?#&.#v-#&.#q:#',
+  ',.#q:R4q:X6R4X6#&.#P+#(.#P+bN#).#P+P+P+#/.#P+R4P+R:R4R:]0R4]0#,.#P+R4P+|=R4|=#..#P+R4P+P+TCR4P+T',
+  'C#&.#d0#&.#Px3#&.#]@#(.#]@qN#).#]@<aK#).#]@<]##-.#]@<P+Q1P+Q1P+#..#]@<P+Q1P+Q1P+WG#(.#]@WG#(.#]@',
+  'c:#*.#]@c:<aK#&.#Sg-#&.#j?#).#j?<W&#+.#j?<[*Q1S6#).#j?<fI#).#j?<P+#&.#Sg.#&.#}:#).#}:<d1#).#}:<R',
+  ':#&.#iI#(.#iIWG#&.#j%#).#j%[9j%#(.#j%c:#&.#fM#+.#fM<:Q1R&#+.#fM<:Q1S##).#fM<bA#).#fM<R&#).#fM<W8',
+  '#).#fM<d0#+.#fM<d0Q1WC#+.#fM<d0Q1aD#&.#Sg/#&.#Sg0#&.#Sg1#&.#^&#).#^&<:#).#^&<P[2#).#^&<QG#).#^&<',
+  'P[3#).#^&<S=#).#^&<j>#*.#^&<_JYB#).#^&<]0#).#^&<bB#).#^&<R&#).#^&<[>#).#^&<d,#).#^&<P[4#).#^&<_#',
+  '#).#^&<fF#).#^&<}<#).#^&<R:#).#^&<Y&#).#^&<}>#).#^&<^D#+.#^&<P+Q1bN#).#^&<]@#).#^&<r%#&.#r%#).#r',
+  '%<P+#&.#fJ#).#fJ<:#).#fJ<_B#).#fJ<aJ#).#fJ<c9#&.#Sg2#&.#Sg3#&.#Sg4#&.#Sg5#&.#Px5#).#Px5<d1#&.#Sg',
+  '6#&.#X6#(.#X6YB#*.#X6Q4<aJ#&.#Sg7#&.#Sg8#&.#Sg9#&.#g9#).#g9R4g9#&.#Sg:#&.#Px6#).#Px6PwGYB#&.#Sg;',
+  '#&.#Px7#&.#f3#&.#P[@#).#P[@<:#&.#Sg<#&.#Sg=#(.#Pp/v@#).#_N<W8#).#aL<:#).#}5<Sg>#,.#]M]9<d0Q1n;#&',
+  '.#Sg?#).#_3Q1cL#).#qG<Y&#).#[I<bN#).#[I<Y&#-.#U=<Z9Q1i,Q1:#).#U=<i+#&.#Sg@#&.#SgA#&.#SgB#).#Q*<P',
+  '[1#).#Q*<SgC#).#Q*<_K#).#Q*<bN#+.#Q*<Z;<i+#).#Q*<fF#).#Q*<R:#).#Q*<SgD#).#Q*<^D#).#Q*<fM#).#W&<^',
+  'C#*.#ZFc:<aK#+.#ZF<i-Q1fK#).#ZF<cL#&.#Pn%#).#r!<X6#&.#SgE#&.#P[A#&.#SgF#).#^%<v<#).#^%<^C#*.#v?V',
+  'LZ5X+#(.#Px2Y##&.#SgG#*.#]8<[>WG#&.#SgH#).#j?<[*#(.#P+P+Q3).S%#P3WC#).S%#P=WC#).S%#PIWC#).S%#Q%W',
+  'C#).S%#QEWC#).S%#R!WC#).S%#QDWC#).S%#R*WC#).S%#P=_3#).S%#PI_3#).S%#Q%_3#).S%#QE_3#).S%#R!_3#).S%',
+  '#QD_3#).S%#R*_3#).S%#PIP+#).S%#Q%P+#).S%#QEP+#).S%#R!P+#).S%#QDP+#).S%#R*P+#).S%#P.jB#).S%#P3jB#',
+  ').S%#P=jB#).S%#PIjB#).S%#Q%jB#).S%#QEjB#).S%#R!jB#).S%#QDjB#).S%#R*jB#).S%#P.vA#).S%#P3vA#).S%#P',
+  '=vA#).S%#PIvA#).S%#Q%vA#).S%#P3fL#).S%#P=fL#+.S%#P=fL[;5#).S%#PIfL#).S%#Q%fL#).S%#QEfL#).S%#R!fL',
+  '#).S%#QDfL#).S%#R*fL#).S%#P.r&#).S%#P3r&#).S%#P=r&#+.S%#P=r&[;5#).S%#PIr&#).S%#Q%r&#,.S%#fL<j>Q1',
+  '_3#,.S%#fL<j>Q1}<#).S%#P.r(#).S%#P3r(#).S%#P=r(#+.S%#P=r([;5#).S%#PIr(#).S%#Q%r(#+.S%#P=[;5SgI#+',
+  '.S%#P=[;5SgJ#+.S%#PI[;5P[B#+.S%#PI[;5SgK#,.S%#PI[;5P[B:#,.S%#PI[;5P[BP;#+.S%#QE[;5SgL#+.S%#R![;5',
+  'SgM#,.S%#R![;5}2:#,.S%#R![;5}2P;#+.S%#QD[;5SgN#+.S%#QD[;5SgO#+.S%#R*[;5Px8#+.S%#R*[;5Sh!#+.S%#R*',
+  '[;5Sh##,.S%#R*[;5Px8:#*.S%#P3WCYB#*.S%#P=WCYB#*.S%#PIWCYB#*.S%#Q%WCYB#*.S%#QEWCYB#).S%#P.nA#).S%',
+  '#P3nA#).S%#P=nA#).S%#PInA#+.S%#PInA[;5#).S%#Q%nA#+.S%#Q%nA[;5#(.S%#Sh%#(.S%#Sh&#).S%#P.Px9#).S%#',
+  'P3Px9#*.S%#P.e7_3#*.S%#P3j*_3#*.S%#Q%PjF_3#,.S%#P.e7[;5:#,.S%#P3j*[;5:#*.S%#P.Z4WC#*.S%#P.Z.WC#+',
+  '.S%#KP[CP.PV6#+.S%#KP[CP.Z.#*.S%#P.Z.|;#*.S%#P.Q>|;#*.S%#v@P.e7#*.S%#v@P3j*#).S%#v@]L#).S%#v@ZN#',
+  '+.S%#PIP+[;5#+.S%#Q%P+[;5#+.S%#QEP+[;5#+.S%#R!P+[;5#+.S%#QDP+[;5#+.S%#R*P+[;5%+.S<#KP[C_.q/#).S<',
+  '#PL[/#).S<#S2[/#).S<#S2Pj2#).S<#S2Sh(0*.#_N<W8YB#).#_N<jA#).#m:<i-#*.#aK<_3YB#).#v;<aL#).#v;<ZL#',
+  ').#v;<X6#+.#^1R4^1<Px-#).#S6<c9#).#]M<aJ#).#n=<[>#+.#n=<P+P+P+#).#P[0<]@#).#[,<P[1#).#[,<WC#+.#[',
+  ',<WC]GO#).#[,<}7#).#[,<P[3#).#[,<qF#).#[,<S=#).#[,<^C#*.#[,<n<WG#).#[,<_K#).#[,<R&#).#[,<Z;#*.#[',
+  ',<[>WG#).#[,<d1#).#[,<aJ#).#[,<qN#+.#[,<qNQ1d1#).#[,<Sh)#).#[,<UH#+.#[,<UH<aJ#+.#[,<P[=Q1_K#).#[',
+  ',<n;#).#[,<P[>#).#[,<]##).#[,<ZL#).#[,<X.#).#[,<Y&#*.#[,<^JWG#).#fG<aJ#).#fG<b3#(.#qFTF#).#i-[9i',
+  '-#*.#[Ic:<WC#*.#[Ic:<Z;#+.#[Ic:<[>WG#*.#[Ic:<RO#*.#[Ic:<fK#*.#[Ic:<[*#*.#[Ic:<P[>#*.#[Ic:<_A#).#',
+  '[I<_A#).#U=<v;#*.#U=<n=WG#,.#U=<[,<[>WG#+.#U=<[,<d1#).#U=<PwL#).#U=<S=#+.#U=<]0Q1aF#+.#U=<]0Q1ZM',
+  '#+.#U=<R&Q1:#+.#U=<qNQ1d1#).#U=<UH#+.#U=<UH<aJ#).#U=<P[=#).#U=<bM#).#U=<ZM#+.#U=<ZMQ1fG#+.#U=<ZM',
+  'Q1^C#).#U=<eE#).#U=<Px7#*.#}9VLZ5X+#).#P[5<P+#+.#_K<_K[9_K#*.#n?<[>WG#+.#bNQ1_K<c9#).#R&YBWG#-.#',
+  'Z;<WCR4Z;<WC#).#Q*<^1#).#Q*<Q*#+.#Q*<P+P+P+#).#Q*<j%#+.#W&<f3R4f3#&.#Sh*#&.#Sh+#&.#Sh,#&.#Sh-#&.',
+  '#Px:#&.#Sh.#&.#Sh/#*.#Px;R4Px;WG#&.#Sh0#).#Px<R4Px<#&.#Sh1#&.#Sh2#&.#Sh3#&.#Sh4#&.#Sh5#&.#Sh6#&.',
+  '#Sh7#&.#Sh8#&.#Sh9#&.#Sh:#&.#Sh;#&.#Sh<#&.#Sh=#&.#Sh>#&.#Sh?#&.#Sh@#&.#ShA#&.#ShB#&.#r)#).#r)<bB',
+  '#).#r)<[>#+.#r)<b3Q1qO#-.#r)<b3Q1b3Q1qO#+.#r)<d0Q1T.#&.#ShC#&.#ShD#&.#ShE#&.#ShF#&.#ShG#&.#ShH#&',
+  '.#ShI#&.#ShJ#&.#ShK#&.#ShL#&.#gK#).#gK<WC#).#gK<aK#+.#gK<n:WGWG#).#gK<qH#).#gK<RO#).#gK<mE#).#gK',
+  '<Z7#).#gK<d0#).#gK<]@#).#gK<r%#&.#ShM#&.#i0#).#i0<qG#).#i0<S=#).#i0<[>#*.#i0<[>WG#).#i0<ZL#-.#i0',
+  '<b3Q1b3Q1qO#+.#i0<P[/Q1_##).#i0<]@#).#i0<r%#&.#ShN#&.#ShO#*.#ZFWG<WC#).#ZF<_3#).#ZF<qI#).#ZF<b3#',
+  '-.#ZF<b3Q1b3Q1qO#).#ZF<c9#).#]#Q1Px=#+.#bMR4bM<S=#+.#bMR4bM<i,#*.#^%<n=WG#).#^%<_K#).#^%<PwM#).#',
+  '^%<Z;#).#^%<Px)#).#^%<Px:#).#^%<n;#+.#^%<b3Q1b3#).#^%<P+#+.#^%<P+Q1P+#).#^%<r%#*.#]8WG<R&#).#]8<',
+  'WB#+.#]8<Y&]GO#).#]8<c9#(.#Px4YB#).#Y&R4Y&#).#Y&Q1lA#).#Y&Q1Px0#).#Y&Q1qJ#+.#jAQ1[,<ZL#+.#jAQ1fG',
+  '<Z9#).#^J<c9#).#c9Q1]8#*.#v-<_JYB#*.#v-<P=_3#(.#fMVA#).#fM<]@#).#^&<PwJ#).#^&<Si!#).#^&<qO#&.#Px',
+  '=#+.#f3R4f3Q1qJ#+.#P[@<P=_3YBP_M&SD#Si##&SD#Si%#&SD#Si&#&SD#Si(#&SD#Si)#&SD#Si*#&SD#Si+#&SD#Si,#',
+  '&SD#Si-#&SD#Si.#&SD#Si/#&SD#Si0#&SD#Si1#&SD#Si2#&SD#Si3#&SD#Si4#&SD#Si5#&SD#Si6#&SD#Si7#&SD#Si8#',
+  '&SD#Si9#&SD#Si:#&SD#Si;#&SD#Si<#&SD#Si=#&SD#Si>#&SD#Si?#&SD#Si@#&SD#SiA#&SD#SiB#&SD#SiC#&SD#SiD#',
+  '&SD#SiE#&SD#SiF#&SD#SiG#&SD#SiH#&SD#SiI#&SD#SiJ#&SD#SiK#&SD#SiL#&SD#SiM#&SD#SiN#&SD#SiO#&SD#Sj!#',
+  '&SD#Sj##&SD#Sj%#&SD#Sj&#&SD#Sj(#&SD#Sj)#&SD#Sj*#&SD#Sj+#&SD#Sj,#&SD#Sj-#&SD#Sj.#&SD#Sj/#&SD#Sj0#',
+  '&SD#Sj1#&SD#Sj2#&SD#Sj3#&SD#Sj4#&SD#Sj5#&SD#Sj6#&SD#Sj7#&SD#Sj8#&SD#Sj9#&SD#Sj:#&SD#Sj;#&SD#Sj<#',
+  '&SD#Sj=#&SD#Sj>#&SD#Sj?#&SD#Sj@#&SD#SjA#&SD#SjB#&SD#SjC#&SD#SjD#&SD#SjE#&SD#SjF#&SD#SjG#&SD#SjH#',
+  '&SD#SjI#&SD#SjJ#&SD#SjK#&SD#SjL#&SD#SjM#&SD#SjN#&SD#SjO#&SD#Sk!#&SD#Sk##&SD#Sk%#&SD#Sk&#&SD#Sk(#',
+  '&SD#Sk)#&SD#Sk*#&SD#Sk+#&SD#Sk,#&SD#Sk-#&SD#Sk.#&SD#Sk/2&2*Px>#&2*Px?#&2*Px@#&2*PxA#&2*PxB#&2*Sk',
+  '0#&2*PxC#&2*Sk1#&2*Sk2#&2*PxD#&2*PxE#&2*PxF#&2*PxG#&2*PxH#&2*PxI#&2*PxJ#&2*PxK#&2*Sk3#&2*PxL#&2*',
+  'PxM#&2*PxN#&2*Sk4#&2*PxO#&2*Py!#&2*Py##&2*Py%#&2*Py&#&2*Py(#&2*Py)#&2*Py*#&2*Py+#&2*Py,#&2*Py-#&',
+  '2*Py.#&2*Py/#&2*Py0#&2*Py1#&2*Sk5#&2*Py2#&2*Py3#&2*Py4#&2*Py5#&2*Py6#&2*Py7#&2*Py8#&2*Py9#&2*Sk6',
+  '#&2*Py:#&2*Py;#&2*Sk7#&2*Py<#&2*Sk8#&2*Py=#&2*Py>#&2*Py?#&2*Py@#&2*PyA#&2*PyB#&2*PyC#&2*PyD#&2*P',
+  'yE#&2*PyF#&2*PyG#&2*PyH#&2*PyI#&2*PyJ#&2*PyK#&2*PyL#&2*PyM#&2*PyN#&2*PyO#&2*Pz!#&2*Pz##&2*Pz%#&2',
+  '*Pz&#&2*Pz(#&2*Pz)#&2*Pz*#&2*Pz+#&2*Pz,#&2*Ps6#&2*Ps:#&2*Ps9#&2*Ps<#&2*Ps=#&2*Sk9#&2*Ps8#&2*Ps7#',
+  '&2*Ps5#&2*Ps;#&2*Sk:#&2*Sk;#&2*Sk<#&2*Sk=#&2*Sk>#&2*Sk?#&2*Sk@#&2*SkA#&2*SkB#&2*SkC#&2*SkD#&2*Sk',
+  'E#&2*SkF#&2*SkG#&2*SkH#&2*SkI#&2*SkJ#&2*SkK#&2*SkL#&2*SkM#&2*SkN#&2*SkO#&2*Sl!#&2*Sl##&2*Sl%#&2*',
+  'Sl&#&2*Sl(#&2*Sl)#&2*Sl*#&2*Sl+#&2*Sl,#&2*Sl-#&2*Sl.#&2*Sl/#&2*Sl0#&2*Sl1#&2*Sl2#&2*Sl3#&2*Sl4#&',
+  '2*Sl5#&2*Sl6#&2*Sl7#&2*Sl8#&2*Sl9#&2*Sl:#&2*Sl;#&2*Sl<#&2*Sl=#&2*Sl>#&2*Sl?#&2*Sl@#&2*SlA#&2*SlB',
+  '#&2*SlC#&2*SlD#&2*SlE#&2*SlF#&2*SlG#&2*SlH#&2*SlI#&2*SlJ#&2*SlK#&2*SlL#&2*SlM#&2*SlN#&2*SlO#&2*S',
+  'm!#&2*Sm##&2*Sm%#&2*Sm&#&2*Sm(#&2*Sm)#&2*Sm*#&2*Sm+#&2*Sm,#&2*Sm-#&2*Sm.#&2*Sm/#&2*Sm0#&2*Sm1#&2',
+  '*Sm2#&2*Sm3#&2*Sm4#&2*Sm5#&2*Sm6#&2*Sm7#&2*Sm8#&2*Sm9#&2*Sm:#&2*Sm;#&2*Sm<#&2*Sm=#&2*Sm>#&2*Sm?#',
+  '&2*Sm@#&2*SmA#&2*SmB#&2*SmC#&2*SmD#&2*SmE#&2*SmF#&2*SmG#&2*SmH#&2*SmI#&2*SmJ#&2*SmK#&2*SmL#&2*Sm',
+  'M#&2*SmN#&2*SmO#&2*Sn!#&2*Sn##&2*Sn%#&2*Sn&#&2*Sn(#&2*Sn)#&2*Sn*#&2*Sn+#&2*Sn,#&2*Sn-#&2*Sn.#&2*',
+  'Sn/#&2*Sn0#&2*Sn1#&2*Sn2#&2*Sn3#&2*Sn4#&2*Sn5#&2*Sn6#&2*Sn7#&2*Sn8#&2*Sn9#&2*Sn:#&2*Sn;#&2*Sn<#&',
+  '2*Sn=#&2*Sn>#&2*Sn?#&2*Sn@#&2*SnA#&2*SnB#&2*SnC#&2*SnD#&2*SnE#&2*SnF#&2*SnG#&2*SnH#&2*SnI#&2*SnJ',
+  '#&2*SnK#&2*SnL#&2*SnM#&2*SnN#&2*SnO#&2*So!#&2*So##&2*So%#&2*So&#&2*So(#&2*So)#&2*So*#&2*So+#&2*S',
+  'o,#&2*So-#&2*So.#&2*So/#&2*So0#&2*So1#&2*So2#&2*So3#&2*So4#&2*So5#&2*So6#&2*So7#&2*So8#&2*So9#&2',
+  '*So:#&2*So;#&2*So<#&2*So=#&2*So>#&2*So?#&2*So@#&2*SoA#&2*SoB#&2*SoC#&2*SoD#&2*SoE#&2*SoF#&2*SoG#',
+  '&2*SoH#&2*SoI#&2*SoJ#&2*SoK#&2*SoL#&2*SoM#&2*SoN#&2*SoO#&2*Sp!#&2*Sp##&2*Sp%#&2*Sp&#&2*Sp(#&2*Sp',
+  ')#&2*Sp*#&2*Sp+#&2*Sp,#&2*Sp-#&2*Sp.#&2*Sp/#&2*Sp0#&2*Sp1#&2*Sp2#&2*Sp3#&2*Sp4#&2*Sp5#&2*Sp6#&2*',
+  'Sp7#&2*Sp8#&2*Sp9#&2*Sp:#&2*Sp;#&2*Sp<#&2*Sp=#&2*Sp>#&2*Sp?#&2*Sp@#&2*SpA#&2*SpB#&2*SpC#&2*SpD#&',
+  '2*SpE#&2*SpF#&2*SpG#&2*SpH#&2*SpI#&2*SpJ#&2*SpK#&2*SpL#&2*SpM#&2*SpN#&2*SpO#&2*Sq!#&2*Sq##&2*Sq%',
+  '#&2*Sq&#&2*Sq(#&2*Sq)#&2*Sq*#&2*Sq+#&2*Sq,#&2*Sq-#&2*Sq.#&2*Sq/#&2*Sq0#&2*Sq1#&2*Sq2#&2*Sq3#&2*S',
+  'q4#&2*Sq5#&2*Sq6#&2*Sq7#&2*Sq8#&2*Sq9#&2*Sq:#&2*Sq;#&2*Sq<#&2*Sq=#&2*Sq>#&2*Sq?#&2*Sq@#&2*SqA#&2',
+  '*SqB#&2*SqC#&2*SqD#&2*SqE#&2*SqF#&2*SqG#&2*SqH#&2*SqI#&2*SqJ#&2*SqK#&2*SqL#&2*SqM#&2*SqN#&2*SqO#',
+  '&2*Sr!#&2*Sr##&2*Sr%#&2*Sr&#&2*Sr(#&2*Sr)#&2*Sr*#&2*Sr+#&2*Sr,#&2*Sr-#&2*Sr.#&2*Sr/#&2*Sr0#&2*Sr',
+  '1#&2*Sr2#&2*Sr3#&2*Sr4#&2*Sr5#&2*Sr6#&2*Sr7#&2*Sr8#&2*Sr9#&2*Sr:#&2*Sr;#&2*Sr<#&2*Sr=#&2*Sr>#&2*',
+  'Sr?#&2*Sr@#&2*SrA#&2*SrB#&2*SrC#&2*SrD#&2*SrE#&2*SrF#&2*SrG#&2*SrH#&2*SrI#&2*SrJ#&2*SrK#&2*SrL#&',
+  '2*SrM#&2*SrN#&2*SrO#&2*Ss!#&2*Ss##&2*Ss%#&2*Ss&#&2*Ss(#&2*Ss)#&2*Ss*#&2*Ss+#&2*Ss,#&2*Pz-#&2*Ss-',
+  '#&2*Ss.#&2*Pz.#&2*Pz/#&2*Ss/#&2*Pz0#&2*Pz1#&2*Pz2#&2*Pz3#&2*Pz4#&2*Pz5#&2*Pz6#&2*Ss0#&2*Pz7#&2*P',
+  'z8#&2*Ss1#&2*Ss2#&2*Ss3#&2*Ss4#&2*Ss5#&2*Ss6#&2*Ss7#&2*Ss8#&2*Pz9#&2*Pz:#&2*Pz;#&2*Ss9#&2*Pz<#&2',
+  '*Ss:#&2*Pz=#&2*Ss;#&2*Pz>#&2*Pz?#&2*Pz@#&2*PzA#&2*PzB#&2*Ss<#&2*PzC#&2*PzD#&2*Ss=#&2*PzE#&2*PzF#',
+  '&2*PzG#&2*PzH#&2*Ss>#&2*PzI#&2*PzJ#&2*PzK#&2*Ss?#&2*PzL#&2*PzM#&2*Ss@#&2*SsA#&2*PzN#&2*PzO#&2*P{',
+  '!#&2*P{##&2*P{%#&2*P{&#&2*P{(#&2*SsB#&2*P{)#&2*P{*#&2*P{+#&2*P{,#&2*SsC#&2*SsD#&2*SsE#&2*SsF#&2*',
+  'SsG#&2*SsH#&2*SsI#&2*SsJ#&2*SsK#&2*SsL#&2*SsM#&2*SsN#&2*SsO#&2*St!#&2*St##&2*St%#&2*St&#&2*St(#&',
+  '2*St)#&2*St*#&2*St+#&2*St,#&2*St-#&2*St.#&2*St/#&2*St0#&2*St1#&2*St2#&2*St3#&2*St4#&2*St5#&2*St6',
+  '#&2*St7#&2*St8#&2*St9#&2*St:#&2*St;#&2*St<#&2*St=#&2*St>#&2*St?#&2*St@#&2*StA#&2*StB#&2*StC#&2*S',
+  'tD#&2*StE#&2*StF#&2*StG#&2*StH#&2*StI#&2*StJ#&2*StK#&2*StL#&2*StM#&2*StN#&2*StO#&2*Su!#&2*Su##&2',
+  '*Su%#&2*Su&#&2*Su(#&2*Su)#&2*Su*#&2*Su+#&2*Su,#&2*Su-#&2*Su.#&2*Su/#&2*Su0#&2*Su1#&2*Su2#&2*Su3#',
+  '&2*Su4#&2*Su5#&2*Su6#&2*Su7#&2*Su8#&2*Su9#&2*Su:#&2*Su;#&2*Su<#&2*Su=#&2*Su>#&2*Su?#&2*Su@#&2*Su',
+  'A#&2*SuB#&2*SuC#&2*SuD#&2*SuE#&2*SuF#&2*SuG#&2*SuH#&2*SuI#&2*SuJ#&2*SuK#&2*SuL#&2*SuM#&2*SuN#&2*',
+  'SuO#&2*Sv!#&2*Sv##&2*Sv%#&2*Sv&#&2*Sv(#&2*Sv)#&2*Sv*#&2*Sv+#&2*Sv,#&2*Sv-#&2*Sv.#&2*Sv/#&2*Sv0#&',
+  '2*Sv1#&2*Sv2#&2*Sv3#&2*Sv4#&2*Sv5#&2*Sv6#&2*Sv7#&2*Sv8#&2*Sv9#&2*Sv:#&2*Sv;#&2*Sv<#&2*Sv=#&2*Sv>',
+  '#&2*Sv?#&2*Sv@#&2*SvA#&2*SvB#&2*SvC#&2*SvD#&2*SvE#&2*SvF#&2*SvG#&2*SvH#&2*SvI#&2*SvJ#&2*SvK#&2*S',
+  'vL#&2*SvM#&2*SvN#&2*SvO#&2*Sw!#&2*Sw##&2*Sw%#&2*Sw&#&2*Sw(#&2*Sw)#&2*Sw*#&2*Sw+#&2*Sw,#&2*Sw-#&2',
+  '*Sw.#&2*Sw/#&2*Sw0#&2*Sw1#&2*Sw2#&2*Sw3#&2*Sw4#&2*Sw5#&2*Sw6#&2*Sw7#&2*Sw8#&2*Sw9#&2*Sw:#&2*Sw;#',
+  '&2*Sw<#&2*Sw=#&2*Sw>#&2*Sw?#&2*Sw@#&2*SwA#&2*SwB#&2*SwC#&2*SwD#&2*SwE#&2*SwF#&2*SwG#&2*SwH#&2*Sw',
+  'I#&2*SwJ#&2*SwK#&2*SwL#&2*SwM#&2*SwN#&2*SwO#&2*Sx!#&2*Sx##&2*Sx%#&2*Sx&#&2*Sx(#&2*Sx)#&2*Sx*#&2*',
+  'Sx+#&2*Sx,#&2*Sx-#&2*Sx.#&2*Sx/#&2*Sx0#&2*Sx1#&2*Sx2#&2*Sx3#&2*Sx4#&2*Sx5#&2*Sx6#&2*Sx7#&2*Sx8#&',
+  '2*Sx9#&2*Sx:#&2*Sx;#&2*Sx<#&2*Sx=#&2*Sx>#&2*Sx?#&2*Sx@#&2*SxA#&2*SxB#&2*SxC#&2*SxD#&2*SxE#&2*SxF',
+  '#&2*SxG#&2*SxH#&2*SxI#&2*SxJ#&2*SxK#&2*SxL#&2*SxM#&2*SxN#&2*SxO#&2*Sy!#&2*Sy##&2*Sy%#&2*Sy&#&2*S',
+  'y(#&2*Sy)#&2*Sy*#&2*Sy+#&2*Sy,#&2*Sy-#&2*Sy.#&2*Sy/#&2*Sy0#&2*Sy1#&2*Sy2#&2*Sy3#&2*Sy4#&2*Sy5#&2',
+  '*Sy6#&2*Sy7#&2*Sy8#&2*Sy9#&2*Sy:#&2*Sy;#&2*Sy<#&2*Sy=#&2*Sy>#&2*Sy?#&2*Sy@#&2*SyA#&2*SyB#&2*SyC#',
+  '&2*SyD#&2*SyE#&2*SyF#&2*SyG#&2*SyH#&2*SyI#&2*SyJ#&2*SyK#&2*SyL#&2*SyM#&2*SyN#&2*SyO#&2*Sz!#&2*Sz',
+  '##&2*Sz%#&2*Sz&#&2*Sz(#&2*Sz)#&2*Sz*#&2*Sz+#&2*Sz,#&2*Sz-#&2*Sz.#&2*Sz/#&2*Sz0#&2*Sz1#&2*Sz2#&2*',
+  'Sz3#&2*Sz4#&2*Sz5#&2*Sz6#&2*Sz7#&2*Sz8#&2*Sz9#&2*Sz:#&2*Sz;#&2*Sz<#&2*Sz=#&2*Sz>#&2*Sz?#&2*Sz@#&',
+  '2*SzA#&2*SzB#&2*SzC#&2*SzD#&2*SzE#&2*SzF#&2*SzG#&2*SzH#&2*SzI#&2*SzJ#&2*SzK#&2*SzL#&2*SzM#&2*SzN',
+  '#&2*SzO#&2*S{!#&2*S{##&2*S{%#&2*S{&#&2*S{(#&2*S{)#&2*S{*#&2*S{+#&2*S{,#&2*S{-#&2*S{.#&2*S{/#&2*S',
+  '{0#&2*S{1#&2*S{2#&2*S{3#&2*S{4#&2*S{5#&2*S{6#&2*S{7#&2*S{8#&2*S{9#&2*S{:#&2*S{;#&2*S{<#&2*S{=#&2',
+  '*S{>#&2*S{?#&2*S{@#&2*S{A#&2*S{B#&2*S{C#&2*S{D#&2*S{E#&2*S{F#&2*S{G#&2*S{H#&2*S{I#&2*S{J#&2*S{K#',
+  '&2*S{L#&2*S{M#&2*S{N#&2*S{O#&2*S|!#&2*S|##&2*S|%#&2*S|&#&2*S|(#&2*S|)#&2*S|*#&2*S|+#&2*S|,#&2*S|',
+  '-#&2*S|.#&2*S|/#&2*S|0#&2*S|1#&2*S|2#&2*S|3#&2*S|4#&2*S|5#&2*S|6#&2*S|7#&2*S|8#&2*S|9#&2*S|:#&2*',
+  'S|;#&2*S|<#&2*S|=#&2*S|>#&2*S|?#&2*S|@#&2*S|A#&2*S|B#&2*S|C#&2*S|D#&2*S|E#&2*S|F#&2*S|G#&2*S|H#&',
+  '2*S|I#&2*S|J#&2*S|K#&2*S|L#&2*S|M#&2*S|N#&2*S|O#&2*S}!#&2*S}##&2*S}%#&2*S}&#&2*S}(#&2*S})#&2*S}*',
+  '#&2*S}+#&2*S},#&2*S}-#&2*S}.#&2*S}/#&2*S}0#&2*S}1#&2*S}2#&2*S}3#&2*S}4#&2*S}5#&2*S}6#&2*S}7#&2*S',
+  '}8#&2*S}9#&2*S}:#&2*S};#&2*S}<#&2*S}=#&2*S}>#&2*S}?#&2*S}@#&2*S}A#&2*S}B#&2*S}C#&2*S}D#&2*S}E#&2',
+  '*S}F#&2*S}G#&2*S}H#&2*S}I#&2*S}J#&2*S}K#&2*S}L#&2*S}M#&2*S}N#&2*S}O#&2*TP!#&2*TP##&2*TP%#&2*TP&#',
+  '&2*TP(#&2*TP)#&2*TP*#&2*TP+#&2*TP,#&2*TP-#&2*TP.#&2*TP/#&2*TP0#&2*TP1#&2*TP2#&2*TP3#&2*TP4#&2*TP',
+  '5#&2*TP6#&2*TP7#&2*TP8#&2*TP9#&2*TP:#&2*TP;#&2*TP<#&2*TP=#&2*TP>#&2*TP?#&2*TP@#&2*TPA#&2*TPB#&2*',
+  'TPC#&2*TPD#&2*TPE#&2*TPF#&2*TPG#&2*TPH#&2*TPI#&2*TPJ#&2*TPK#&2*TPL#&2*TPM#&2*TPN#&2*TPO#&2*TQ!#&',
+  '2*TQ##&2*TQ%#&2*TQ&#&2*TQ(#&2*TQ)#&2*TQ*#&2*TQ+#&2*TQ,#&2*TQ-#&2*TQ.#&2*TQ/#&2*TQ0#&2*TQ1#&2*TQ2',
+  '#&2*TQ3#&2*TQ4#&2*TQ5#&2*TQ6#&2*TQ7#&2*TQ8#&2*TQ9#&2*TQ:#&2*TQ;#&2*TQ<#&2*TQ=#&2*TQ>#&2*TQ?#&2*T',
+  'Q@#&2*TQA#&2*TQB#&2*TQC#&2*TQD#&2*TQE#&2*TQF#&2*TQG#&2*TQH#&2*TQI#&2*TQJ#&2*TQK#&2*TQL#&2*TQM#&2',
+  '*TQN#&2*TQO#&2*TR!#&2*TR##&2*TR%#&2*TR&#&2*TR(#&2*TR)#&2*TR*#&2*TR+#&2*TR,#&2*TR-#&2*TR.#&2*TR/#',
+  '&2*TR0#&2*TR1#&2*TR2#&2*TR3#&2*TR4#&2*TR5#&2*TR6#&2*TR7#&2*TR8#&2*TR9#&2*TR:#&2*TR;#&2*TR<#&2*TR',
+  '=#&2*TR>#&2*TR?#&2*TR@#&2*TRA#&2*TRB#&2*TRC#&2*TRD#&2*TRE#&2*TRF%(2*PLm2#(2*RFm2#*2*}?]GXLg!#*2*',
+  '}?]GZ:g!#*2*}?]GXLZ*#*2*}?]GZ:Z*#(2*_,PJ#(2*k%PVB#(2*Z*PVBQRH&A*Px>#&A*Px?#&A*Px@#&A*PxA#&A*PxB#',
+  '&A*PxC#&A*PxD#&A*PxE#&A*PxF#&A*PxG#&A*TRG#&A*PxH#&A*PxI#&A*PxJ#&A*PxK#&A*PxL#&A*PxM#&A*PxN#&A*Px',
+  'O#&A*Py!#&A*Py##&A*Py%#&A*Py&#&A*Py(#&A*Py)#&A*Py*#&A*Py+#&A*TRH#&A*Py,#&A*Py-#&A*Py.#&A*Py/#&A*',
+  'Py0#&A*Py1#&A*Py2#&A*Py3#&A*Py4#&A*Py5#&A*Py6#&A*Py7#&A*Py8#&A*TRI#&A*Py9#&A*Py:#&A*TRJ#&A*Py;#&',
+  'A*Py<#&A*Py=#&A*Py>#&A*Py?#&A*Py@#&A*TRK#&A*TRL#&A*PyA#&A*PyB#&A*PyC#&A*PyD#&A*PyE#&A*PyF#&A*PyG',
+  '#&A*PyH#&A*PyI#&A*PyJ#&A*PyK#&A*PyL#&A*PyM#&A*PyN#&A*PyO#&A*Pz!#&A*Pz##&A*Pz%#&A*Pz&#&A*Pz(#&A*T',
+  'RM#&A*TRN#&A*TRO#&A*Pz)#&A*Pz*#&A*Pz+#&A*Pz,#&A*TS!#&A*TS##&A*TS%#&A*TS&#&A*TS(#&A*TS)#&A*TS*#&A',
+  '*TS+#&A*TS,#&A*TS-#&A*TS.#&A*TS/#&A*TS0#&A*TS1#&A*TS2#&A*TS3#&A*TS4#&A*TS5#&A*TS6#&A*TS7#&A*TS8#',
+  '&A*TS9#&A*TS:#&A*TS;#&A*TS<#&A*TS=#&A*TS>#&A*TS?#&A*TS@#&A*TSA#&A*TSB#&A*TSC#&A*TSD#&A*TSE#&A*TS',
+  'F#&A*TSG#&A*TSH#&A*TSI#&A*TSJ#&A*TSK#&A*TSL#&A*TSM#&A*TSN#&A*TSO#&A*TT!#&A*TT##&A*TT%#&A*TT&#&A*',
+  'TT(#&A*TT)#&A*TT*#&A*TT+#&A*TT,#&A*TT-#&A*TT.#&A*TT/#&A*TT0#&A*TT1#&A*TT2#&A*TT3#&A*TT4#&A*TT5#&',
+  'A*TT6#&A*TT7#&A*TT8#&A*TT9#&A*TT:#&A*TT;#&A*TT<#&A*TT=#&A*TT>#&A*TT?#&A*TT@#&A*TTA#&A*TTB#&A*TTC',
+  '#&A*TTD#&A*TTE#&A*TTF#&A*TTG#&A*TTH#&A*TTI#&A*TTJ#&A*TTK#&A*TTL#&A*TTM#&A*TTN#&A*TTO#&A*TU!#&A*T',
+  'U##&A*TU%#&A*TU&#&A*TU(#&A*TU)#&A*TU*#&A*TU+#&A*TU,#&A*TU-#&A*TU.#&A*TU/#&A*TU0#&A*TU1#&A*TU2#&A',
+  '*TU3#&A*TU4#&A*TU5#&A*TU6#&A*TU7#&A*TU8#&A*TU9#&A*TU:#&A*TU;#&A*TU<#&A*TU=#&A*TU>#&A*TU?#&A*TU@#',
+  '&A*TUA#&A*TUB#&A*TUC#&A*TUD#&A*TUE#&A*TUF#&A*TUG#&A*TUH#&A*TUI#&A*TUJ#&A*TUK#&A*TUL#&A*TUM#&A*TU',
+  'N#&A*TUO#&A*TV!#&A*TV##&A*TV%#&A*TV&#&A*TV(#&A*TV)#&A*TV*#&A*TV+#&A*TV,#&A*TV-#&A*TV.#&A*TV/#&A*',
+  'TV0#&A*TV1#&A*TV2#&A*TV3#&A*TV4#&A*TV5#&A*TV6#&A*TV7#&A*TV8#&A*TV9#&A*TV:#&A*TV;#&A*TV<#&A*TV=#&',
+  'A*TV>#&A*TV?#&A*TV@#&A*TVA#&A*TVB#&A*TVC#&A*TVD#&A*TVE#&A*TVF#&A*TVG#&A*TVH#&A*TVI#&A*TVJ#&A*TVK',
+  '#&A*TVL#&A*TVM#&A*TVN#&A*TVO#&A*TW!#&A*TW##&A*TW%#&A*TW&#&A*TW(#&A*TW)#&A*TW*#&A*TW+#&A*TW,#&A*T',
+  'W-#&A*TW.#&A*TW/#&A*TW0#&A*TW1#&A*TW2#&A*TW3#&A*TW4#&A*TW5#&A*TW6#&A*TW7#&A*TW8#&A*TW9#&A*TW:#&A',
+  '*TW;#&A*TW<#&A*TW=#&A*TW>#&A*TW?#&A*TW@#&A*TWA#&A*TWB#&A*TWC#&A*TWD#&A*TWE#&A*TWF#&A*TWG#&A*TWH#',
+  '&A*TWI#&A*TWJ#&A*TWK#&A*TWL#&A*TWM#&A*TWN#&A*TWO#&A*TX!#&A*TX##&A*TX%#&A*TX&#&A*TX(#&A*TX)#&A*TX',
+  '*#&A*TX+#&A*TX,#&A*TX-#&A*TX.#&A*TX/#&A*TX0#&A*TX1#&A*TX2#&A*TX3#&A*TX4#&A*TX5#&A*TX6#&A*TX7#&A*',
+  'TX8#&A*TX9#&A*TX:#&A*TX;#&A*TX<#&A*TX=#&A*TX>#&A*TX?#&A*TX@#&A*TXA#&A*TXB#&A*TXC#&A*TXD#&A*TXE#&',
+  'A*TXF#&A*TXG#&A*TXH#&A*TXI#&A*TXJ#&A*Pt3#&A*Pt4#&A*Pt5#&A*Pt6#&A*Pt7#&A*Pt8#&A*Pt9#&A*Pt:#&A*TXK',
+  '#&A*Pt;#&A*Pt<#&A*Pt=#&A*Pt>#&A*TXL#&A*Pt?#&A*Pt@#&A*PtA#&A*PtB#&A*PtC#&A*PtD#&A*PtE#&A*PtF#&A*P',
+  'tG#&A*PtH#&A*PtI#&A*PtJ#&A*PtK#&A*PtL#&A*PtM#&A*PtN#&A*TXM#&A*PtO#&A*Pu!#&A*TXN#&A*TXO#&A*TY!#&A',
+  '*Pu##&A*Pu%#&A*Pu&#&A*Pu(#&A*TY##&A*TY%#&A*TY&#&A*Pu)#&A*Pu*#&A*Pu+#&A*Pu,#&A*Pu-#&A*Pu.#&A*Pu/#',
+  '&A*Pu0#&A*Pu1#&A*Pu2#&A*Pu3#&A*Pu4#&A*Pu5#&A*Pu6#&A*Pu7#&A*Pu8#&A*Pu9#&A*Pu:#&A*Pu;#&A*Pu<#&A*Pu',
+  '=#&A*Pu>#&A*Pu?#&A*TY(#&A*Pu@#&A*PuA#&A*PuB#&A*PuC#&A*PuD#&A*TY)#&A*PuE#&A*PuF#&A*PuG#&A*PuH#&A*',
+  'TY*#&A*PuI#&A*PuJ#&A*PuK#&A*TY+#&A*TY,#&A*TY-#&A*TY.#&A*TY/#&A*TY0#&A*TY1#&A*TY2#&A*TY3#&A*TY4#&',
+  'A*TY5#&A*TY6#&A*TY7#*A*TY8R>T&b9#&A*TY9#&A*TY:#&A*TY;#&A*TY<#&A*TY=#&A*TY>#&A*TY?#&A*TY@#&A*TYA#',
+  '&A*TYB#&A*TYC#(A*TYDQD#&A*TYE#&A*TYF#&A*TYG#&A*TYH#&A*TYI#&A*TYJ#&A*TYK#&A*TYL#&A*TYM#&A*TYN#&A*',
+  'TYO#&A*TZ!#&A*TZ##&A*TZ%#&A*TZ&#&A*TZ(#*A*TZ)k%l8P%#*A*TZ*Z*l8P%#&A*TZ+#&A*TZ,#&A*TZ-#&A*TZ.#&A*',
+  'TZ/#&A*TZ0#&A*TZ1#&A*TZ2#&A*TZ3#&A*TZ4#&A*TZ5#&A*TZ6#&A*TZ7#&A*TZ8#&A*TZ9#&A*TZ:#&A*TZ;#&A*TZ<#&',
+  'A*TZ=#&A*TZ>#&A*TZ?#&A*TZ@#&A*TZA#&A*TZB#&A*TZC#&A*TZD#&A*TZE#&A*TZF#&A*TZG#&A*TZH#&A*TZI#&A*TZJ',
+  '#&A*TZK#&A*TZL#&A*TZM#&A*TZN#&A*TZO#&A*T[!#&A*T[##&A*T[%#&A*T[&#&A*T[(#&A*T[)#&A*T[*#&A*T[+#&A*T',
+  '[,#&A*T[-#&A*T[.#&A*T[/#&A*T[0#&A*T[1#&A*T[2#&A*T[3#&A*T[4#&A*T[5#&A*T[6#&A*T[7#&A*T[8#&A*T[9#&A',
+  '*T[:#&A*T[;#&A*T[<#&A*T[=#&A*T[>#&A*T[?#&A*T[@#&A*T[A#&A*T[B#&A*T[C#&A*T[D#&A*T[E#&A*T[F#&A*T[G#',
+  '&A*T[H#&A*T[I#&A*T[J#&A*T[K#&A*T[L#&A*T[M#&A*T[N#&A*T[O#&A*T]!#&A*T]##&A*T]%#&A*T]&#&A*T](#&A*T]',
+  ')#&A*T]*#&A*T]+#&A*PuL#&A*PuM#&A*PuN#&A*PuO#&A*Pv!#&A*Pv##&A*T],#&A*Pv%#&A*Pv&#&A*Pv(#&A*Pv)#&A*',
+  'Pv*#&A*Pv+#&A*T]-#&A*Pv,#&A*Pv-#&A*T].#&A*T]/#&A*T]0#&A*Pv.#&A*Pv/#&A*T]1#&A*Pv0#&A*Pv1#&A*Pv2#&',
+  'A*Pv3#&A*Pv4#&A*Pv5#&A*Pv6#&A*Pv7Se.)=!TAP{-lB#)=!TAT]2PcN#*=!TAv9lBP{.#*=!TAv9lBP{/#)=!TAoIlB#(',
+  '=!TAT]3#)=!TAP{0lB#)=!TAPYMlB#*=!TAT]4R:q<#+=!TAv9R:q<P{.#+=!TAv9R:q<P{/#(=!TAT]5#)=!TA^DP[D#(=!',
+  'TAT]6#(=!TAT]7#(=!TAT]8#(=!TAT]9#(=!TAT]:#(=!TAT];#(=!TAT]<#(=!TAT]=#(=!TA|F#(=!TAT]>#(=!TAT]?#)',
+  '=!TAP[E|<#)=!TA}@T]@#(=!TAT]A#(=!TAT]B#(=!TAT]C#(=!TAT]D#)=!TAe2P{1#)=!TAT]EP[F#*=!TAP+PZ6P{2#(=',
+  '!TAT]F#)=!TA}@P{3#(=!TAT]G#(=!TAT]H#(=!TAT]I#(=!TAT]J#(=!TAT]K#)=!TAR:P[G#)=!TApAP[G#(=!TAT]L#(=',
+  '!TAT]M#(=!TAT]N#(=!TAPoB#(=!TAT]O#(=!TAT^!#(=!TAT^##(=!TAT^%#(=!TAT^&#(=!TAn6#(=!TAT^(#(=!TAT^)#',
+  '(=!TAT^*#(=!TAT^+#(=!TAT^,#(=!TAT^-#(=!TAT^.#(=!TAT^/#(=!TAT^0#)=!TAu9T^1#(=!TAT^2#(=!TA}@#*=!TA',
+  'P[HP[IP{4#)=!TAPq%T^3#(=!TAT^4#(=!TAP{5#(=!TAT^5#(=!TAPZ0#(=!TAP{6#(=!TAP{7#(=!TAP{8#(=!TAPV&#(=',
+  '!TAP{9#(=!TAPYN#(=!TAP{:#(=!TAP{;#(=!TAP[J#(=!TAdB#(=!TAT^6#(=!TAPZ7#(=!TAkB#(=!TA^0#(=!TAPS)#(=',
+  '!TAP{<#(=!TAT^7#(=!WHT^8#)=!WH^DT^9#(=!WHT^:#)=!WHd5^D#)=!WHP{=}A#)=!WHtHT^;#(=!WHT^<#(=!WHT^=#(',
+  '=!WHT^>#(=!WHT^?#(=!WHT^@#)=!WHT^AP[G#*=!WHUHP[I}B#)=!WHT^BT^C#)=!WH|9T^D#(=!WHT^E#(=!WHPo?#)=!W',
+  'H^DP{>#)=!WHPpKT^F#(=!WHT^G#)=!WHlBP{?#)=!WHP[KT^H#)=!WHdB}A#(=!WHT^I#(=!WHT^J#(=!WHT^K#(=!WHT^L',
+  '#(=!WHT^M#(=!WHT^N#)=!WHT^OP{@#)=!WHT_!PZ*#(=!WHT_##(=!WHT_%#(=!WHT_&#(=!WHT_(#(=!WHP{A#)=!WHP{A',
+  'T/#(=!WHT_)#(=!WHP{B#(=!WHT_*#(=!WHT_+#(=!WHT_,#(=!WHT_-#)=!WHP[FT_.#(=!WHT_/#(=!WHT_0#(=!WHmL#(',
+  '=!WHT_1#)=!WHRKT_2#)=!WHRKT_3#(=!WHP[E#(=!WHP{C#(=!WHT_4#(=!WHRK#(=!WHT_5#(=!WHP[L#)=!SIP{-P[D#(',
+  '=!SIPYM#(=!SIP{4#(=!SIT_6#(=!SIPZ0#(=!SIT_7#(=!SIT_8#(=!SIT_9#(=!SIT_:#(=!SIT_;#*=!SIT_<T_=P{D#)',
+  '=!SIT_>P[K#(=!SIP{E#(=!SIT_?#(=!SIT_@#)=!SIq=T_A#(=!SIT_B#(=!SIT_C#(=!SIT_D#)=!SIYKT_E#(=!SIT_F#',
+  '(=!SIT_G#(=!SIT_H#(=!SIP[K#(=!SIT_I#(=!SIT_J#(=!SIy@#(=!SIPZ5#(=!SIT_K#(=!SIT_L#(=!SIP{F#)=!SIP{',
+  '0T_M#(=!SIT_N#)=!SIT_O}B#(=!SITa!#(=!SITa##)=!SIRKTa%#(=!SIP{3#(=!SITa&#(=!SIPYJ#(=!SITa(#(=!SIT',
+  'a)#(=!SITa*#(=!SITa+#(=!SITa,#(=!SIP{G#(=!SITa-#(=!SITa.#(=!SITa/#(=!SITa0#(=!SITa1#(=!SITa2#(=!',
+  'SI_0#(=!SIPZ4#(=!SIUH#(=!SITa3#)=!SITa4P[L#(=!SITa5#(=!SIn6#(=!SIPZ,#(=!SIP{6#(=!SITa6#(=!SI^0#(',
+  '=!SI|<#(=!SIP{7#(=!SIP[L#(=!SITa7#(=!SITa8#(=!SITa9#(=!SITa:#)=!SIPYKP{5#(=!SITa;#(=!SIP{H#)=!SI',
+  'RKP{>#(=!SIoH#(=!SIPYG#(=!SITa<#(=!SITa=#(=!SIPZ&#(=!SIP[D#(=!SIP{8#(=!SITa>#(=!SITa?#(=!SIP{I#)',
+  '=!SIq=Ta@#(=!SIP{J#(=!SIP{K#(=!SIP{L#(=!SIP{M#(=!SIP{N#)=!SIoBP{O#)=!SIoBTaA#(=!SITaB#(=!SIP{<#(',
+  '=!SITaC#(=!SIP|!#(=!SIqD#(=!SIm6#(=!RETaD#(=!REPp9#(=!REq<#(=!RElB#(=!RETaE#(=!RETaF#(=!RETaG#(=',
+  '!RETaH#(=!RETaI#(=!RE}B#(=!RETaJ#(=!RETaK#(=!REy;#(=!RETaL#(=!RETaM#(=!RETaN#(=!RETaO#(=!RETb!#(',
+  '=!REP{B#(=!REn6#(=!RETb##(=!RETb%#(=!REPpE#(=!RETb&#(=!RETb(#(=!RETb)#(=!REP[F#(=!RETb*#(=!RErJ#',
+  '(=!RETb+#)=!RETb,Tb-#(=!RETb.#(=!RE^D#(=!REPw2#(=!RETb/#(=!RETb0#(=!REPZ%#(=!RETb1#(=!RETb2#(=!R',
+  'ETb3#(=!RETb4#(=!RETb5#(=!RETb6#(=!RETb7#(=!RETb8#(=!REfF#(=!RETb9#(=!REq=#(=!RETb:#(=!REPV&#(=!',
+  'REP{9#(=!REPYN#(=!REP{J#(=!REP{I#(=!RETb;#(=!RETb<#(=!RETb=#(=!RETb>#(=!RETb?#(=!RETb@#(=!REPo@#',
+  '(=!RETbA#(=!RETbB#(=!REP[E#(=!REP{C#(=!RETbC#(=!RETbD#(=!RETbE#(=!REb3#(=!REPq*#(=!REP{H#(=!RE}A',
+  '#(=!RETbF#(=!REPx+#(=!RETbG#(=!RETbH#(=!REPp##(=!REP{D#(=!RETbI#(=!RETbJ#(=!RETbK#(=!RETbL#(=!RE',
+  'TbM#(=!RETbN#(=!RETbO#(=!REP[I#(=!REP{F#(=!REP|##(=!RE_B#)=!RE|IK#(=!REPZ2#(=!REP|%#(=!REdB#(=!R',
+  'Ez&#(=!REPr&#(=!REPZ3#(=!RES&#(=!RE|F#(=!REYJ#(=!REz##(=!REPr(#(=!RE{L#(=!RE[4#(=!REcL#(=!REPZ9#',
+  '(=!REj##(=!REZL#(=!REP[H#(=!RETc!#(=!REP{@#(=!RE|H#)=!RE|Iu)#(=!REaC#(=!REPr/#)=!REq=R!#(=!RETc#',
+  '#(=!REyJ#(=!QAPYG#(=!QATc%#(=!QAP{E#(=!QAPYJ#(=!QATc&#(=!QATc(#(=!QAyK#(=!QAPj?#(=!QATc)#(=!QATc',
+  '*#(=!QATc+#(=!QAPZ<#(=!QAmB#(=!QAPi-#(=!QATc,#(=!QAPp:#(=!QAmF#(=!QAP{1#(=!QAP{:#(=!QAp:#(=!QAPY',
+  'K#(=!QAP{=#(=!QAP{;#(=!QAPp5#(=!QAP[J#(=!QATc-#(=!QATc.#(=!QATc/#(=!QATc0#(=!QAP{K#(=!QATc1#(=!Q',
+  'Ay:#(=!QATc2#(=!QAPq3#(=!QATc3#(=!QATc4#(=!QAPr1#(=!QAu9#(=!QAPcO#(=!QATc5#(=!QATc6#)=!QATc7}A#(',
+  '=!QAd5#(=!QATc8#)=!QA|ETc9#)=!QATc:}B#(=!QATc;#(=!QATc<#(=!QATc=#(=!QATc>#(=!QAb&#(=!QATc?#(=!QA',
+  'Tc@#(=!QATcA#(=!QAP{?#(=!QATcB#(=!QATcC#(=!QAP[M#(=!QAe3#(=!QATcD#(=!QATcE#(=!QATcF#(=!QATcG#(=!',
+  'QATcH#(=!QA|>#(=!QATcI#(=!QATcJ#(=!QATcK#(=!QAv-#(=!QATcL#(=!QAPm<#)=!QAdBTcM#(=!QAPZ!#(=!QATcN#',
+  '(=!QATcO#(=!QATd!#(=!QATd##(=!QATd%#(=!QAP{G#(=!QATd&#(=!QATd(#(=!QAn6#(=!QAPw1#(=!QATd)#(=!QATd',
+  '*#(=!QAYF#(=!QATd+#(=!QATd,#(=!QATd-#(=!QATd.#)=!QAdB^3#(=!QATd/#(=!QATd0#(=!QAP{L#(=!QATd1#(=!Q',
+  'AP{2#(=!QAP{M#(=!QAP|##)=!QAj!P7#(=!QATd2#(=!QATd3#(=!QATd4#(=!QA|<#(=!QATd5#(=!QA}@#(=!QATd6#(=',
+  '!QATd7#)=!QAR:P|&#)=!QAj!PY3#(=!QAPZ=#(=!QAv&#(=!QA:#(=!QAP|%#(=!QAP2#(=!QAP7#(=!QATd8#)=!QAR:Td',
+  '9#(=!QAmH#(=!QATd:#*=!QA|EPoKpI#(=!QAP{N#(=!QATd;#(=!QATd<#(=!QATd=#)=!QA|GTd>#)=!QA|GPY!#(=!QAP',
+  'Z6#(=!QATd?#(=!QAPr+#(=!QAPZ8#)=!QAv&Td@#(=!QAPr,#(=!QAPZ:#(=!QAmL#(=!QAkB#(=!QA^0#(=!QA]##(=!QA',
+  'PZ;#(=!QAp.#(=!QATdA#(=!QAUA#(=!QAg*#(=!QAP[H#)=!QAj!TdB#(=!QAS##(=!QAX.#(=!QA|H#(=!QA^B#(=!QAg-',
+  '#(=!QARK#(=!QAPt1#(=!QATdC#(=!QA_##(=!QAe2#(=!QAU!#(=!QATdD#(=!QATdE#(=!WOQ*#(=!WOP+#(=!WO_B#(=!',
+  'WOY=#(=!WOt+#(=!WOPZ2#(=!WOdB#(=!WORO#(=!WOz&#(=!WOPr%#(=!WOPZ3#(=!WOmH#(=!WO|E#(=!WOPZ4#(=!WOS&',
+  '#(=!WO|F#(=!WOz##(=!WO^J#(=!WOPZ5#(=!WO{L#(=!WOn6#(=!WOPr)#(=!WO[4#(=!WOPr*#(=!WO|G#(=!WOcL#(=!W',
+  'OS)#(=!WOPZ7#(=!WOPZ8#(=!WOPZ9#(=!WOPZ:#(=!WOj##(=!WO_0#(=!WOZL#(=!WOPZ;#(=!WOoB#(=!WOPr-#(=!WOv',
+  '(#(=!WOg*#(=!WOPZ<#(=!WOPZ=#(=!WOUM#(=!WOVG#(=!WO|H#(=!WO^B#(=!WOPr.#(=!WO|I#(=!WORK#(=!WO_?#(=!',
+  'WOq=#(=!WOm6#(=!WOv%#(=!WOPr0#(=!WOTdF,&Y9!S+#&Y9!z)#&Y9![7#&Y9!x.#&Y9!T.#&Y9!S6#&Y9!:#&Y9!^>#&Y',
+  '9!PcJ#&Y9!TdG#&Y9!TdH#&Y9!yF#&Y9!TdI#&Y9!X?#&Y9!P[J#&Y9!P[A#&Y9!R:#&Y9!XE#&Y9!P2#&Y9!]K#&Y9!p2#&',
+  'Y9!TdJ#&Y9!PZA#&Y9!UM#&Y9!P5#&Y9!^B#&Y9!Pt0#&Y9!RO#&Y9!TdK#&Y9!b9#&Y9!TdL%&Y94T,#&Y94P.#&Y94P3#&',
+  'Y94P=#&Y94PI#&Y94Q%#&Y94QE#&Y94R!#&Y94QD#&Y94R*)%Y9[O#&Y9P0[O#&T:!TdM#&T:!TdN#&T:!P[)#&T:!|5#&T:',
+  '!Pc*#&T:!z.#&T:!s>#&T:!Po=#&T:!TdO#&T:!Te!#&T:!Te##&T:!Te%#&T:!v3#&T:!v4#&T:!Te&#&T:!|6#&T:!Te(#',
+  '&T:!P[&#&T:!P[(#&T:!Po<#&T:!Te)#&T:!z;#&T:!Te*#&T:!Te+#&T:!Te,#&T:!Te-#&T:!Te.#&T:!P|(#&T:!Te/#&',
+  'T:!Te0#&T:!Te1#&T:!Te2#(T:!P/_<#(T:!RMP|)#(T:!V%P|*#(T:!V%P|(#&T:!Te3#&T:!P|*#&T:!Te4#&T:!P|)#&T',
+  ':!Te5#&T:!Te6#&T:!Te7#&T:!Te8#&T:!Te9#&T:!P|+#&T:!Te:#&T:!Te;#&T:!Q*#&T:!VF#&T:!S=#&T:!UA#&T:!S0',
+  '#&T:!S)#&T:!UM#&T:!R:#&T:!VE#&T:!WI#&T:!T.#&T:!RK#&T:!S##&T:!R&#&T:!RO#&T:!Pr@#&T:!S+#&T:!S6#&T:',
+  '!R>#&T:!q@#&T:!UF#&T:!UL#&T:!]!#&T:!X;#&T:!Te<#&T:!W0#&T:!cM#&T:!YF#&T:!XF#&T:!VB#&T:!X6%&T:4T,#',
+  '&T:4P.#&T:4P3#&T:4P=#&T:4PI#&T:4Q%#&T:4QE#&T:4R!#&T:4QD#&T:4R*+(Z)Z>!Te=#(Z)Z>!Q*#(Z)Z>!_E#(Z)Z>',
+  '!YF#(Z)Z>!|A#(Z)Z>!Pq)#(Z)Z>!Pw/#(Z)Z>!Te>#(Z)Z>!Te?#(Z)Z>!g:#(Z)Z>!Te@#(Z)Z>!UM#(Z)Z>!f-#(Z)Z>!',
+  'PZ+#(Z)Z>!a0#(Z)Z>!iO#(Z)Z>!TeA#(Z)Z>!P?#(Z)Z>!T.#(Z)Z>!mG#(Z)Z>!TeB#(Z)Z>!R:#(Z)Z>!TeC#(Z)Z>!:#',
+  '(Z)Z>!P2#(Z)Z>!XE#(Z)Z>!P+#(Z)Z>!Y=#(Z)Z>!P5#(Z)Z>!P7&)Z)Z>FR/R,#)Z)Z>FR+R,#)Z)Z>Fm1R,#)Z)Z>FTeD',
+  'R,#)Z)Z>FTeER,#(Z)Z>X,UE/(R8Q)6TeF#(R8Q)6TeG#(R8Q)6TeH#(R8Q)6TeI#(R8Q)6TeJ#(R8Q)6TeK#(R8Q)6TeL#(',
+  'R8Q)6TeM#(R8Q)6TeN#(R8Q)6TeO#(R8Q)6Tf!#(R8Q)6Tf##(R8Q)6Tf%#(R8Q)6Tf&#(R8Q)6Tf(#(R8Q)6Tf)#(R8Q)6T',
+  'f*#(R8Q)6Tf+#(R8Q)6Tf,#(R8Q)6Tf-#(R8Q)6Tf.#(R8Q)6Tf/#(R8Q)6Px&#(R8Q)6Tf0#(R8Q)6Tf1#(R8Q)6Tf2#(R8',
+  'Q)6Tf3#(R8Q)6Tf4#(R8Q)T<Tf5#(R8Q)T<Tf6#(R8Q)T<Tf7#(R8Q)T<W;#(R8Q)T<Tf8#(R8Q)T<Tf9#(R8Q)T<Tf:#(R8',
+  'Q)T<Tf;#(R8Q)T<Tf<#(R8Q)T<Tf=#(R8Q)T<Tf>#(R8Q)T<Tf?#(R8Q)T<Tf@#(R8Q)T<TfA#(R8Q)T<TfB#(R8Q)T<TfC#',
+  '(R8Q)T<TfD#(R8Q)T<UB#(R8Q)T<TfE#(R8Q)T<TfF#)R8Q)P%c8TfG#)R8Q)P%c8]F#)R8Q)P%c8TfH#)R8Q)P%c8TfI#)R',
+  '8Q)P%c8TfJ#)R8Q)P%c8TfK#)R8Q)P%c8TfL#)R8Q)#nBTfM#*R8Q)#nBTfNTfO#)R8Q)#c8Tg!#)R8Q)#nBTg##)R8Q)#nB',
+  'Tg%#)R8Q)#}CTg&#)R8Q)#}C]=#)R8Q)#}CTg(#)R8Q)#}CTg)#)R8Q)#nBTg*#)R8Q)#P|,Tg+#)R8Q)#nBTg,#)R8Q)#P[',
+  '9Pm;#(R8Q)#Tg-#*R8Q)#c8Tg.P[N/(R8Q)4T,#(R8Q)4P.#(R8Q)4P3#(R8Q)4P=#(R8Q)4PI#(R8Q)4Q%#(R8Q)4QE#(R8',
+  'Q)4R!#(R8Q)4QD#(R8Q)4R*%(R8Q)DgL#(R8Q)DP[+#)R8Q)DU!k,#(R8Q)Dm5#)R8Q)DR-m5#)R8Q)DU!Tg/#(R8Q)DTg0%',
+  ')R8Q)#nBTg1#(R8Q)#Tg2#(R8Q)#PYI#)R8Q)#Tg3PYI#)R8Q)#Pj)Tg4#(R8Q)#Tg5#(R8Q)#Tg6#(R8Q)#Tg7#(R8Q)#Tg',
+  '8#(R8Q)#pC#)R8Q)#Tg9Tg:#)R8Q)#P|,Tg;#(R8Q)#b!#(R8Q)#Tg<#(R8Q)#Tg=#,R8Q)#c8Tg>Tg?P|-P|-#*R8Q)#c8T',
+  'g@TgA#)R8Q)#c8P|.#*R8Q)#c8P|.TgB#*R8Q)#c8TgCTgD#*R8Q)#c8TgETgF*)R8Q)a6#TgG#)R8Q)a6#TgH#)R8Q)a6#T',
+  'gI#)R8Q)a6#TgJ#)R8Q)a6#TgK#)R8Q)a6#t9#)R8Q)a6#TgL#)R8Q)a6#TgM#)R8Q)a6#TgN#)R8Q)a6#TgO#)R8Q)a6#Th',
+  '!#)R8Q)a6#Th##)R8Q)a6#Th%#)R8Q)a6#Th&#)R8Q)a6#Th(#)R8Q)a6#PX1#)R8Q)a6#Th)#)R8Q)a6#Th*#)R8Q)a6#Th',
+  '+_A(T*)!S&#(T*)!Q3#(T*)!SC#(T*)!U+#(T*)!P|/#(T*)!T%#(T*)!P|0#(T*)!TE#(T*)!S;#(T*)!S9#(T*)!V!#(T*',
+  ')!P7#(T*)!S>#(T*)!:#(T*)!U3#(T*)!P5#(T*)!P;#(T*)!T?#(T*)!P+#(T*)!YK#(T*)!Q@#(T*)!W4#(T*)!SB!(T*)',
+  '!|/#(T*)!_<!(T*)!P|1#(T*)!TF#(T*)!SJ#(T*)!Y0#(T*)!R<#(T*)!Q2#(T*)!P2#(T*)!U-#(T*)!T-#(T*%!S&#(T*',
+  '%!Q3#(T*%!SC#(T*%!U+#(T*%!P|/#(T*%!T%#(T*%!P|0#(T*%!TE#(T*%!S;#(T*%!S9#(T*%!V!#(T*%!P7#(T*%!S>#(',
+  'T*%!:#(T*%!U3#(T*%!P5#(T*%!P;#(T*%!T?#(T*%!P+#(T*%!YK#(T*%!Q@#(T*%!W4#(T*%!SB!(T*%!|/#(T*%!_<!(T',
+  '*%!P|1#(T*%!TF#(T*%!SJ#(T*%!Y0#(T*%!R<#(T*%!Q2#(T*%!P2#(T*%!U-#(T*%!T-#&T*4T,#&T*4P.#&T*4P3#&T*4',
+  'P=#&T*4PI#&T*4Q%#&T*4QE#&T*4R!#&T*4QD#&T*4R*#&T*DU!#&T*Df:#&T*Dd&#&T*Dl!#&T*Dl##&T*Dg@#&T*Dh4#&T',
+  '*Dl%#&T*Dj1#&T*Dl&#)T*4P.Z#5#)T*4P3Z#5#)T*4P=Z#5#%T*W.#&T*X,UE#&T*0Th,#&T*^+s#Q2&QI!R:#&QI!T.#(Q',
+  'I!-R:#&QI!x9#&QI!RK#&QI!Pw7#(QI!YIRK#&QI!YF#&QI!WJ#&QI!Th-#&QI!S+#&QI!S6#(QI!-X2#(QI!-S+#&QI!X2#',
+  '&QI!X9#&QI!S##&QI!q@#(QI!-Y-#(QI!YIS##&QI!Y-#&QI!Th.#&QI!RO#&QI!Th/#&QI!k.#&QI!Th0#&QI!PU2#&QI!T',
+  'h1#&QI!Th2#&QI!Th3#&QI!Q*#&QI!S=#(QI!-Q*#&QI!a.#&QI!Th4#&QI!UA#&QI!Pw5#(QI!YIUA#&QI!R&#&QI!cM#&Q',
+  'I!X;#&QI!PRA#&QI!Th5#&QI!Th6#&QI!VE#&QI!Pw6#&QI!cK#&QI!sL#(QI!-cK#(QI!-sL#(QI!jCcK#&QI!UF#&QI!YD',
+  '#&QI!_>#&QI!Th7#&QI!]!#&QI!e-#(QI!-]!#&QI!S0#&QI!X6#&QI!Th8#&QI!{K#&QI!Th9#(QI!YI{K#&QI!Th:#&QI!',
+  'Th;#&QI!UM#&QI!f.#&QI!iM#&QI!Th<#&QI!Th=#&QI!Th>#&QI!Z7#&QI!d8#&QI!Th?))QI#T<P:QG#&QI!PR:#&QI#P|',
+  '2#(QI#jCPa5#(QI#jCP|2#(QI6#:#(QI6#T8#(QI6#Th@#(QI6#Z9#(QI6#e/#(QI6#P2#(QI6#XE#(QI6#_!#(QI6#U+#(Q',
+  'I6#P5#(QI6#WB#(QI6#eO#(QI6#ThA#(QI6#P7#(QI6#}!#(QI6#Pt!#(QI6#ThB#(QI6#PQ>#(QI6#b<#(QI6#U0#(QI6#u',
+  'N#(QI6#PU6#(QI6#P+#(QI6#p=#(QI6#ThC#(QI6#ThD#(QI6#UI#(QI6#ThE#(QI6#ThF#(QI6#T-#(QI6#-#(QI6#[1#(Q',
+  'I6#PvA#(QI6#z=#)QI6#cEz=#(QI6#cC#)QI6#cEcC#(QI6#U-#(QI6#iE#(QI6#UB#(QI6#jO#(QI6#R<#(QI6#_<#(QI6#',
+  'ThG#(QI6#ThH#(QI6#ThI#(QI6#ThJ#(QI6#ThK#(QI6#PwO#(QI6#PZA#(QI6#ThL#(QI6#}#,&QIR,L#(QIR,XLL#&QIR,',
+  'N#&QIR,P6#&QI!h;#&QI!iH#&QI!mC#&QI!h<#&QI!xC#&QI!P[O#&QI!}D#(QI!jCt!#(QI!jCh;#(QI!jCmC#(QI!jCh<#',
+  '(QI!jCxC#(QI!jC}DP9&7i!P%#&P)i!P%#(Ki#Q!P%#(Ki#i!P%#(M%?iL0)P|3Z#P|4P%UL#)P|3Z#P|4P%ThMRVO%7ThN#',
+  '%7ThO#%7Ti!#%7Ti##%7Ti%#%7Ti&#%7Ti(#%7Ti)#%7Ti*#%7Ti+#%7Ti,#%7Ti-#%7Ti.#%7Ti/#%7Ti0#%7Ti1#%7Ti2#',
+  '%7Ti3#%7Ti4#%7Ti5#%7Ti6#%7Ti7#%7Ti8#%7Ti9#%7Ti:#%7Ti;#%7Ti<#%7Ti=#%7Ti>#%7Ti?#%7Ti@#%7TiA#%7TiB#',
+  '%7TiC#%7TiD#%7TiE#%7TiF#%7TiG#%7TiH#%7TiI#%7TiJ#%7TiK#%7TiL#%7TiM#%7TiN#%7TiO#%7Tj!#%7Tj##%7Tj%#',
+  '%7Tj&#%7Tj(#%7Tj)#%7Tj*#%7Tj+#%7Tj,#%7Tj-#%7Tj.#%7Tj/#%7Tj0#%7Tj1#%7Tj2#%7Tj3#%7Tj4#%7Tj5#%7Tj6#',
+  '%7Tj7#%7Tj8#%7Tj9#%7Tj:#%7Tj;#%7Tj<#%7Tj=#%7Tj>#%7Tj?#%7Tj@#%7TjA#%7TjB#%7TjC#%7TjD#%7TjE#%7TjF#',
+  '%7TjG#%7TjH#%7TjI#%7TjJ#%7TjK#%7TjL#%7TjM#%7TjN#%7TjO#%7Tk!#%7Tk##%7Tk%#%7Tk&#%7Tk(#%7Tk)#%7Tk*#',
+  '%7Tk+#%7Tk,#%7Tk-#%7Tk.#%7Tk/#%7Tk0#%7Tk1#%7Tk2#%7Tk3#%7Tk4#%7Tk5#%7Tk6#%7Tk7#%7Tk8#%7Tk9#%7Tk:#',
+  '%7Tk;#%7Tk<#%7Tk=#%7Tk>#%7Tk?#%7Tk@#%7TkA#%7TkB#%7TkC#%7TkD#%7TkE#%7TkF#%7TkG#%7TkH#%7TkI#%7TkJ#',
+  '%7TkK#%7TkL#%7TkM#%7TkN#%7TkO#%7Tl!#%7Tl##%7Tl%#%7Tl&#%7Tl(#%7Tl)#%7Tl*#%7Tl+#%7Tl,#%7Tl-#%7Tl.#',
+  '%7Tl/#%7Tl0#%7Tl1#%7Tl2#%7Tl3#%7Tl4#%7Tl5#%7Tl6#%7Tl7#%7Tl8#%7Tl9#%7Tl:#%7Tl;#%7Tl<#%7Tl=#%7Tl>#',
+  '%7Tl?#%7Tl@#%7TlA#%7TlB#%7TlC#%7TlD#%7TlE#%7TlF#%7TlG#%7TlH#%7TlI#%7TlJ#%7TlK#%7TlL#%7TlM#%7TlN#',
+  '%7TlO#%7Tm!#%7Tm##%7Tm%#%7Tm&#%7Tm(#%7Tm)#%7Tm*#%7Tm+#%7Tm,#%7Tm-#%7Tm.#%7Tm/#%7Tm0#%7Tm1#%7Tm2#',
+  '%7Tm3#%7Tm4#%7Tm5#%7Tm6#%7Tm7#%7Tm8#%7Tm9#%7Tm:#%7Tm;#%7Tm<#%7Tm=#%7Tm>#%7Tm?#%7Tm@#%7TmA#%7TmB#',
+  '%7TmC#%7TmD#%7TmE#%7TmF#%7TmG#%7TmH#%7TmI#%7TmJ#%7TmK#%7TmL#%7TmM#%7TmN#%7TmO#%7Tn!#%7Tn##%7Tn%#',
+  '%7Tn&#%7Tn(#%7Tn)#%7Tn*#%7Tn+#%7Tn,#%7Tn-#%7Tn.#%7Tn/#%7Tn0#%7Tn1#%7Tn2#%7Tn3#%7Tn4#%7Tn5#%7Tn6#',
+  '%7Tn7#%7Tn8#%7Tn9#%7Tn:#%7Tn;#%7Tn<#%7Tn=#%7Tn>#%7Tn?#%7Tn@#%7TnA#%7TnB#%7TnC#%7TnD#%7TnE#%7TnF#',
+  '%7TnG#%7TnH#%7TnI#%7TnJ#%7TnK#%7TnL#%7TnM#%7TnN#%7TnO#%7To!#%7To##%7To%#%7To&#%7To(#%7To)#%7To*#',
+  '%7To+#%7To,#%7To-#%7To.#%7To/#%7To0#%7To1#%7To2#%7To3#%7To4#%7To5#%7To6#%7To7#%7To8#%7To9#%7To:#',
+  '%7To;#%7To<#%7To=#%7To>#%7To?#%7To@#%7ToA#%7ToB#%7ToC#%7ToD#%7ToE#%7ToF#%7ToG#%7ToH#%7ToI#%7ToJ#',
+  '%7ToK#%7ToL#%7ToM#%7ToN#%7ToO#%7Tp!#%7Tp##%7Tp%#%7Tp&#%7Tp(#%7Tp)#%7Tp*#%7Tp+#%7Tp,#%7Tp-#%7Tp.#',
+  '%7Tp/#%7Tp0#%7Tp1#%7Tp2#%7Tp3#%7Tp4#%7Tp5#%7Tp6#%7Tp7#%7Tp8#%7Tp9#%7Tp:#%7Tp;#%7Tp<#%7Tp=#%7Tp>#',
+  '%7Tp?#%7Tp@#%7TpA#%7TpB#%7TpC#%7TpD#%7TpE#%7TpF#%7TpG#%7TpH#%7TpI#%7TpJ#%7TpK#%7TpL#%7TpM#%7TpN#',
+  '%7TpO#%7Tq!#%7Tq##%7Tq%#%7Tq&#%7Tq(#%7Tq)#%7Tq*#%7Tq+#%7Tq,#%7Tq-#%7Tq.#%7Tq/#%7Tq0#%7Tq1#%7Tq2#',
+  '%7Tq3#%7Tq4#%7Tq5#%7Tq6#%7Tq7#%7Tq8#%7Tq9#%7Tq:#%7Tq;#%7Tq<#%7Tq=#%7Tq>#%7Tq?#%7Tq@#%7TqA#%7TqB#',
+  '%7TqC#%7TqD#%7TqE#%7TqF#%7TqG#%7TqH#%7TqI#%7TqJ#%7TqK#%7TqL#%7TqM#%7TqN#%7TqO#%7Tr!#%7Tr##%7Tr%#',
+  '%7Tr&#%7Tr(#%7Tr)#%7Tr*#%7Tr+#%7Tr,#%7Tr-#%7Tr.#%7Tr/#%7Tr0#%7Tr1#%7Tr2#%7Tr3#%7Tr4#%7Tr5#%7Tr6#',
+  '%7Tr7#%7Tr8#%7Tr9#%7Tr:#%7Tr;#%7Tr<#%7Tr=#%7Tr>#%7Tr?#%7Tr@#%7TrA#%7TrB#%7TrC#%7TrD#%7TrE#%7TrF#',
+  '%7TrG#%7TrH#%7TrI#%7TrJ#%7TrK#%7TrL#%7TrM#%7TrN#%7TrO#%7Ts!#%7Ts##%7Ts%#%7Ts&#%7Ts(#%7Ts)#%7Ts*#',
+  '%7Ts+#%7Ts,#%7Ts-#%7Ts.#%7Ts/#%7Ts0#%7Ts1#%7Ts2#%7Ts3#%7Ts4#%7Ts5#%7Ts6#%7Ts7#%7Ts8#%7Ts9#%7Ts:#',
+  '%7Ts;#%7Ts<#%7Ts=#%7Ts>#%7Ts?#%7Ts@#%7TsA#%7TsB#%7TsC#%7TsD#%7TsE#%7TsF#%7TsG#%7TsH#%7TsI#%7TsJ#',
+  '%7TsK#%7TsL#%7TsM#%7TsN#%7TsO#%7Tt!#%7Tt##%7Tt%#%7Tt&#%7Tt(#%7Tt)#%7Tt*#%7Tt+#%7Tt,#%7Tt-#%7Tt.#',
+  '%7Tt/#%7Tt0#%7Tt1#%7Tt2#%7Tt3#%7Tt4#%7Tt5#%7Tt6#%7Tt7#%7Tt8#%7Tt9#%7Tt:#%7Tt;#%7Tt<#%7Tt=#%7Tt>#',
+  '%7Tt?#%7Tt@#%7TtA#%7TtB#%7TtC#%7TtD#%7TtE#%7TtF#%7TtG#%7TtH#%7TtI#%7TtJ#%7TtK#%7TtL#%7TtM#%7TtN#',
+  '%7TtO#%7Tu!#%7Tu##%7Tu%#%7Tu&#%7Tu(#%7Tu)#%7Tu*#%7Tu+#%7Tu,#%7Tu-#%7Tu.#%7Tu/#%7Tu0#%7Tu1#%7Tu2#',
+  '%7Tu3#%7Tu4#%7Tu5#%7Tu6#%7Tu7#%7Tu8#%7Tu9#%7Tu:#%7Tu;#%7Tu<#%7Tu=#%7Tu>#%7Tu?#%7Tu@#%7TuA#%7TuB#',
+  '%7TuC#%7TuD#%7TuE#%7TuF#%7TuG#%7TuH#%7TuI#%7TuJ#%7TuK#%7TuL#%7TuM#%7TuN#%7TuO#%7Tv!#%7Tv##%7Tv%#',
+  '%7Tv&#%7Tv(#%7Tv)#%7Tv*#%7Tv+#%7Tv,#%7Tv-#%7Tv.#%7Tv/#%7Tv0#%7Tv1#%7Tv2#%7Tv3#%7Tv4#%7Tv5#%7Tv6#',
+  '%7Tv7#%7Tv8#%7Tv9#%7Tv:#%7Tv;#%7Tv<#%7Tv=#%7Tv>#%7Tv?#%7Tv@#%7TvA#%7TvB#%7TvC#%7TvD#%7TvE#%7TvF#',
+  '%7TvG#%7TvH#%7TvI#%7TvJ#%7TvK#%7TvL#%7TvM#%7TvN#%7TvO#%7Tw!#%7Tw##%7Tw%#%7Tw&#%7Tw(#%7Tw)#%7Tw*#',
+  '%7Tw+#%7Tw,#%7Tw-#%7Tw.#%7Tw/#%7Tw0#%7Tw1#%7Tw2#%7Tw3#%7Tw4#%7Tw5#%7Tw6#%7Tw7#%7Tw8#%7Tw9#%7Tw:#',
+  '%7Tw;#%7Tw<#%7Tw=#%7Tw>#%7Tw?#%7Tw@#%7TwA#%7TwB#%7TwC#%7TwD#%7TwE#%7TwF#%7TwG#%7TwH#%7TwI#%7TwJ#',
+  '%7TwK#%7TwL#%7TwM#%7TwN#%7TwO#%7Tx!#%7Tx##%7Tx%#%7Tx&#%7Tx(#%7Tx)#%7Tx*#%7Tx+#%7Tx,#%7Tx-#%7Tx.#',
+  '%7Tx/#%7Tx0#%7Tx1#%7Tx2#%7Tx3#%7Tx4#%7Tx5#%7Tx6#%7Tx7#%7Tx8#%7Tx9#%7Tx:#%7Tx;#%7Tx<#%7Tx=#%7Tx>#',
+  '%7Tx?#%7Tx@#%7TxA#%7TxB#%7TxC#%7TxD#%7TxE#%7TxF#%7TxG#%7TxH#%7TxI#%7TxJ#%7TxK#%7TxL#%7TxM#%7TxN#',
+  '%7TxO#%7Ty!#%7Ty##%7Ty%#%7Ty&#%7Ty(#%7Ty)#%7Ty*#%7Ty+#%7Ty,#%7Ty-#%7Ty.#%7Ty/#%7Ty0#%7Ty1#%7Ty2#',
+  '%7Ty3#%7Ty4#%7Ty5#%7Ty6#%7Ty7#%7Ty8#%7Ty9#%7Ty:#%7Ty;#%7Ty<#%7Ty=#%7Ty>#%7Ty?#%7Ty@#%7TyA#%7TyB#',
+  '%7TyC#%7TyD#%7TyE#%7TyF#%7TyG#%7TyH#%7TyI#%7TyJ#%7TyK#%7TyL#%7TyM#%7TyN#%7TyO#%7Tz!#%7Tz##%7Tz%#',
+  '%7Tz&#%7Tz(#%7Tz)#%7Tz*#%7Tz+#%7Tz,#%7Tz-#%7Tz.#%7Tz/#%7Tz0#%7Tz1#%7Tz2#%7Tz3#%7Tz4#%7Tz5#(M%?Tz',
+  '6#(M%?Tz7#(M%?Tz8#(M%?Tz9#(M%?Tz:#(M%?Tz;#(M%?Tz<#(M%?Tz=#(M%?Tz>#(M%?Tz?#(M%?Tz@#(M%?TzA#(M%?Tz',
+  'B#(M%?TzC#(M%?TzD#(M%?TzE#(M%?TzF#(M%?TzG#(M%?TzH#(M%?TzI#(M%?TzJ#(M%?TzK#(M%?TzL#(M%?TzM#(M%?Tz',
+  'N#(M%?TzO#(M%?T{!#(M%?T{##(M%?T{%#(M%?T{&#(M%?T{(#(M%?T{)#(M%?T{*#(M%?T{+#(M%?T{,#(M%?T{-#(M%?T{',
+  '.#(M%?T{/#(M%?T{0#(M%?T{1#(M%?T{2#(M%?T{3#(M%?T{4#(M%?T{5#(M%?T{6#(M%?T{7#(M%?T{8#(M%?T{9#(M%?T{',
+  ':#(M%?T{;#(M%?T{<#(M%?T{=#(M%?T{>#(M%?T{?#(M%?T{@#(M%?T{A#(M%?T{B#(M%?T{C#(M%?T{D#(M%?T{E#(M%?T{',
+  'F#(M%?T{G#(M%?T{H#(M%?T{I#(M%?T{J#(M%?T{K#(M%?T{L#(M%?T{M#(M%?T{N#(M%?T{O#(M%?T|!#(M%?T|##(M%?T|',
+  '%#(M%?T|&#(M%?T|(#(M%?T|)#(M%?T|*#(M%?T|+#(M%?T|,#(M%?T|-#(M%?T|.#(M%?T|/#(M%?T|0#(M%?T|1#(M%?T|',
+  '2#(M%?T|3#(M%?T|4#(M%?T|5#(M%?T|6#(M%?T|7#(M%?T|8#(M%?T|9#(M%?T|:#(M%?T|;#(M%?T|<#(M%?T|=#(M%?T|',
+  '>#(M%?T|?#(M%?T|@#(M%?T|A#(M%?T|B#(M%?T|C#(M%?T|D#(M%?T|E#(M%?T|F#(M%?T|G#(M%?T|H#(M%?T|I#(M%?T|',
+  'J#(M%?T|K#(M%?T|L#(M%?T|M#(M%?T|N#(M%?T|O#(M%?T}!#(M%?T}##(M%?T}%#(M%?T}&#(M%?T}(#(M%?T})#(M%?T}',
+  '*#(M%?T}+#(M%?T},#(M%?T}-#(M%?T}.#(M%?T}/#(M%?T}0#(M%?T}1#(M%?T}2#(M%?T}3#(M%?T}4#(M%?T}5#(M%?T}',
+  '6#(M%?T}7#(M%?T}8#(M%?T}9#(M%?T}:#(M%?T};#(M%?T}<#(M%?T}=#(M%?T}>#(M%?T}?#(M%?T}@#(M%?T}A#(M%?T}',
+  'B#(M%?T}C#(M%?T}D#(M%?T}E#(M%?T}F#(M%?T}G#(M%?T}H#(M%?T}I#(M%?T}J#(M%?T}K#(M%?T}L#(M%?T}M#(M%?T}',
+  'N#(M%?T}O#(M%?UP!#(M%?UP##(M%?UP%#(M%?UP&#(M%?UP(#(M%?UP)#(M%?UP*#(M%?UP+#(M%?UP,#(M%?UP-#(M%?UP',
+  '.#(M%?UP/#(M%?UP0#(M%?UP1#(M%?UP2#(M%?UP3#(M%?UP4#(M%?UP5#(M%?UP6#(M%?UP7#(M%?UP8#(M%?UP9#(M%?UP',
+  ':#(M%?UP;#(M%?UP<#(M%?UP=#(M%?UP>#(M%?UP?#(M%?UP@#(M%?UPA#(M%?UPB#(M%?UPC#(M%?UPD#(M%?UPE#(M%?UP',
+  'F#(M%?UPG#(M%?UPH#(M%?UPI#(M%?UPJ#(M%?UPK#(M%?UPL#(M%?UPM#(M%?UPN#(M%?UPO#(M%?UQ!#(M%?UQ##(M%?UQ',
+  '%#(M%?UQ&#(M%?UQ(#(M%?UQ)#(M%?UQ*#(M%?UQ+#(M%?UQ,#(M%?UQ-#(M%?UQ.#(M%?UQ/#(M%?UQ0#(M%?UQ1#(M%?UQ',
+  '2#(M%?UQ3#(M%?UQ4#(M%?UQ5#(M%?UQ6#(M%?UQ7#(M%?UQ8#(M%?UQ9#(M%?UQ:#(M%?UQ;#(M%?UQ<#(M%?UQ=#(M%?UQ',
+  '>#(M%?UQ?#(M%?UQ@#(M%?UQA#(M%?UQB#(M%?UQC#(M%?UQD#(M%?UQE#(M%?UQF#(M%?UQG#(M%?UQH#(M%?UQI#(M%?UQ',
+  'J#(M%?UQK#(M%?UQL#(M%?UQM#(M%?UQN#(M%?UQO#(M%?UR!#(M%?UR##(M%?UR%#(M%?UR&#(M%?UR(#(M%?UR)#(M%?UR',
+  '*#(M%?UR+#(M%?UR,#(M%?UR-#(M%?UR.#(M%?UR/#(M%?UR0#(M%?UR1#(M%?UR2#(M%?UR3#(M%?UR4#(M%?UR5#(M%?UR',
+  '6#(M%?UR7#(M%?UR8#(M%?UR9#(M%?UR:#(M%?UR;#(M%?UR<#(M%?UR=#(M%?UR>#(M%?UR?#(M%?UR@#(M%?URA#(M%?UR',
+  'B#(M%?URC#(M%?URD#(M%?URE#(M%?URF#(M%?URG#(M%?URH#(M%?URI#(M%?URJ#(M%?URK#(M%?URL#(M%?URM#(M%?UR',
+  'N#(M%?URO#(M%?US!#(M%?US##(M%?US%#(M%?US&#(M%?US(#(M%?US)#(M%?US*#(M%?US+#(M%?US,#(M%?US-#(M%?US',
+  '.#(M%?US/#(M%?US0#(M%?US1#(M%?US2#(M%?US3#(M%?US4#(M%?US5#(M%?US6#(M%?US7#(M%?US8#(M%?US9#(M%?US',
+  ':#(M%?US;#(M%?US<#(M%?US=#(M%?US>#(M%?US?#(M%?US@#(M%?USA#(M%?USB#(M%?USC#(M%?USD#(M%?USE#(M%?US',
+  'F#(M%?USG#(M%?USH#(M%?USI#(M%?USJ#(M%?USK#(M%?USL#(M%?USM#(M%?USN#(M%?USO#(M%?UT!#(M%?UT##(M%?UT',
+  '%#(M%?UT&#(M%?UT(#(M%?UT)#(M%?UT*#(M%?UT+#(M%?UT,#(M%?UT-#(M%?UT.#(M%?UT/#(M%?UT0#(M%?UT1#(M%?UT',
+  '2#(M%?UT3#(M%?UT4#(M%?UT5#(M%?UT6#(M%?UT7#(M%?UT8#(M%?UT9#(M%?UT:#(M%?UT;#(M%?UT<#(M%?UT=#(M%?UT',
+  '>#(M%?UT?#(M%?UT@#(M%?UTA#(M%?UTB#(M%?UTC#(M%?UTD#(M%?UTE#(M%?UTF#(M%?UTG#(M%?UTH#(M%?UTI#(M%?UT',
+  'J#(M%?UTK#(M%?UTL#(M%?UTM#(M%?UTN#(M%?UTO#(M%?UU!#(M%?UU##(M%?UU%#(M%?UU&#(M%?UU(#(M%?UU)#(M%?UU',
+  '*#(M%?UU+#(M%?UU,#(M%?UU-#(M%?UU.#(M%?UU/#(M%?UU0#(M%?UU1#(M%?UU2#(M%?UU3#(M%?UU4#(M%?UU5#(M%?UU',
+  '6#(M%?UU7#(M%?UU8#(M%?UU9#(M%?UU:#(M%?UU;#(M%?UU<#(M%?UU=#(M%?UU>#(M%?UU?#(M%?UU@#(M%?UUA#(M%?UU',
+  'B#(M%?UUC#(M%?UUD#(M%?UUE#(M%?UUF#(M%?UUG#(M%?UUH#(M%?UUI#(M%?UUJ#(M%?UUK#(M%?UUL#(M%?UUM#(M%?UU',
+  'N#(M%?UUO#(M%?UV!#(M%?UV##(M%?UV%#(M%?UV&#(M%?UV(#(M%?UV)#(M%?UV*#(M%?UV+#(M%?UV,#(M%?UV-#(M%?UV',
+  '.#(M%?UV/#(M%?UV0#(M%?UV1#(M%?UV2#(M%?UV3#(M%?UV4#(M%?UV5#(M%?UV6#(M%?UV7#(M%?UV8#(M%?UV9#(M%?UV',
+  ':#(M%?UV;#(M%?UV<#(M%?UV=#(M%?UV>#(M%?UV?#(M%?UV@#(M%?UVA#(M%?UVB#(M%?UVC#(M%?UVD#(M%?UVE#(M%?UV',
+  'F#(M%?UVG#(M%?UVH#(M%?UVI#(M%?UVJ#(M%?UVK#(M%?UVL#(M%?UVM#(M%?UVN#(M%?UVO#(M%?UW!#(M%?UW##(M%?UW',
+  '%#(M%?UW&Sm/(PF!eFh;#(PF!eFiH#(PF!eFmC#(PF!eFh<%(PF!eFP[O#(PF!eF}D#)PF!eFnCt!#)PF!eFnCh;#)PF!eFn',
+  'CiH#)PF!eFnCmC#)PF!eFnCh<%)PF!eFnCP[O#)PF!eFnC}D%(PF!YIP5#&P>!UW(!(T)!YIc1#&P>!UW)#&P>!UW*#&P>!U',
+  'W+#&P>!UW,#&P>!UW-#&P>!UW.#&P>!UW/#&P>!UW0#&P>!UW1#&P>!UW2#&P>!UW3#&P>!UW4#&P>!UW5#&P>!UW6#&P>!U',
+  'W7#&P>!UW8#&P>!UW9#&P>!UW:#&P>!UW;#&P>!UW<#&P>!UW=#&P>!UW>#&P>!UW?#&P>!UW@#&P>!UWA#&P>!UWB#&P>!U',
+  'WC#&P>!UWD#&P>!UWE#&P>!UWF#&P>!UWG#&P>!UWH#&P>!UWI#&P>!UWJ#&P>!UWK#&P>!UWL#&P>!UWM#&P>!UWN#&P>!U',
+  'WO#&P>!UX!#&P>!UX##&P>!UX%#&P>!UX&#&P>!UX(#&P>!UX)#&P>!UX*#&P>!UX+#&P>!UX,#&P>!UX-#&P>!UX.#&P>!U',
+  'X/#&P>!UX0#&P>!UX1#&P>!UX2#&P>!UX3#&P>!UX4#&P>!UX5#&P>!UX6#&P>!UX7#&P>!Pv=#&P>!UX8#&P>!UX9#&P>!U',
+  'X:#&P>!UX;#&P>!UX<#&P>!UX=#&P>!UX>#&P>!UX?#&P>!UX@#&P>!UXA#&P>!UXB#&P>!UXC#&P>!UXD#&P>!UXE#&P>!U',
+  'XF#&P>!UXG#&P>!UXH#&P>!UXI#&P>!UXJ#&P>!UXK#&P>!UXL#&P>!UXM#&P>!UXN#&P>!UXO#&P>!UY!#&P>!UY##&P>!U',
+  'Y%#&P>!UY&#&P>!UY(#&P>!UY)#&P>!UY*#&P>!UY+#&P>!UY,#&P>!Pv>#&P>!UY-#&P>!UY.#&P>!UY/#&P>!UY0#&P>!U',
+  'Y1#&P>!UY2#&P>!UY3#&P>!UY4#&P>!UY5#&P>!UY6#&P>!UY7#&P>!UY8#&P>!UY9#&P>!UY:#&P>!UY;#&P>!Pv?#&P>!U',
+  'Y<#&P>!UY=#&P>!UY>#&P>!UY?#&P>!UY@#&P>!UYA#&P>!UYB#&P>!UYC#&P>!UYD#&P>!UYE#&P>!UYF#&P>!UYG#&P>!U',
+  'YH#&P>!UYI#&P>!UYJ#&P>!Pv:#&P>!UYK#&P>!UYL#&P>!UYM#&P>!UYN#&P>!UYO#&P>!UZ!#&P>!UZ##&P>!UZ%#&P>!U',
+  'Z&#&P>!UZ(#&P>!UZ)#&P>!UZ*#&P>!UZ+#&P>!UZ,#&P>!UZ-#&P>!UZ.#&P>!UZ/#&P>!UZ0#&P>!UZ1#&P>!Pv;#&P>!U',
+  'Z2#&P>!UZ3#&P>!UZ4#&P>!UZ5#&P>!UZ6#&P>!UZ7#&P>!UZ8#&P>!UZ9#&P>!UZ:#&P>!UZ;#&P>!UZ<#&P>!UZ=#&P>!U',
+  'Z>#&P>!UZ?#&P>!UZ@#&P>!UZA#&P>!UZB#&P>!UZC#&P>!UZD#&P>!UZE#&P>!UZF#&P>!UZG#&P>!UZH#&P>!UZI#&P>!U',
+  'ZJ#&P>!UZK#&P>!UZL#&P>!UZM#&P>!UZN#&P>!UZO#&P>!U[!#&P>!U[##&P>!U[%#&P>!U[&#&P>!U[(#&P>!U[)#&P>!U',
+  '[*#&P>!U[+#&P>!U[,#&P>!U[-#&P>!U[.#&P>!U[/#&P>!U[0#&P>!U[1#&P>!U[2#&P>!U[3#&P>!U[4#&P>!U[5#&P>!U',
+  '[6#&P>!U[7#&P>!U[8#&P>!U[9#&P>!U[:#&P>!U[;#&P>!U[<#&P>!U[=#&P>!U[>#&P>!U[?#&P>!U[@#&P>!U[A#&P>!U',
+  '[B#&P>!U[C#&P>!U[D#&P>!U[E#&P>!U[F#&P>!U[G#&P>!U[H#&P>!U[I#&P>!U[J#&P>!U[K#&P>!U[L#&P>!U[M#&P>!U',
+  '[N#&P>!U[O#&P>!U]!#&P>!U]##&P>!U]%#&P>!U]&#&P>!Pe5#&P>!U](#&P>!U])#&P>!U]*#&P>!U]+#&P>!U],#&P>!U',
+  ']-#&P>!U].#&P>!U]/#&P>!U]0#&P>!U]1#&P>!U]2#&P>!Pv<#&P>!U]3#&P>!U]4#&P>!U]5#&P>!U]6#&P>!U]7#&P>!U',
+  ']8#&P>!U]9#&P>!U]:#&P>!U];#&P>!U]<#&P>!U]=#&P>!U]>#&P>!U]?#&P>!U]@#&P>!U]A#&P>!U]B#&P>!U]C#&P>!U',
+  ']D#&P>!U]E#&P>!U]F#&P>!U]G#&P>!U]H#&P>!U]I#&P>!U]J#&P>!U]K#&P>!U]L#&P>!U]M#&P>!U]N#&P>!U]O#&P>!U',
+  '^!#&P>!U^##&P>!U^%#&P>!U^&#&P>!U^(#&P>!U^)#&P>!U^*#&P>!U^+#&P>!U^,#&P>!U^-#&P>!U^.#&P>!U^/#&P>!U',
+  '^0#&P>!U^1#&P>!U^2#&P>!U^3#&P>!U^4#&P>!U^5#&P>!U^6#(T)!YIg8#(PF!YI-#(PF!YIc1#(PF!YIg8P%(T)!%_D#(',
+  'T)!%^.#(T)!%_!6(PF!%_D#(PF!%^.#(PF!%_!#(PF!%R<-%P)U^7#%P)U^8#%P)U^9#%P)U^:#%P)U^;#%P)U^<#%P)U^=#',
+  '%P)U^>#%P)U^?#%P)U^@#%P)U^A#%P)U^B#%P)U^C#%P)U^D#%P)U^E#%P)U^F#%P)U^G#%P)U^H#%P)U^I#%P)U^J#%P)U^',
+  'K#%P)U^L#%P)U^M#%P)U^N#%P)U^O#%P)U_!#%P)U_##%P)U_%#%P)U_&#%P)U_(#%P)U_)#%P)U_*#%P)U_+#%P)U_,#%P)',
+  'U_-#%P)U_.#%P)U_/#%P)U_0#%P)U_1#%P)U_2#%P)U_3#%P)U_4#%P)U_5#%P)U_6#%P)U_7#%P)U_8#%P)U_9#%P)U_:#%',
+  'P)U_;#%P)U_<#%P)U_=#%P)U_>#%P)U_?#%P)U_@#%P)U_A#%P)U_B#%P)U_C#%P)U_D#%P)U_E#%P)U_F#%P)U_G#%P)U_H',
+  '#%P)U_I#%P)U_J#%P)U_K#%P)U_L#%P)U_M#%P)U_N#%P)U_O#%P)Ua!#%P)Ua##%P)Ua%#%P)Ua&#%P)Ua(#%P)Ua)#%P)U',
+  'a*#%P)Ua+#%P)Ua,#%P)Ua-#%P)Ua.#%P)Ua/#%P)Ua0#%P)Ua1#%P)Ua2#%P)Ua3#%P)Ua4#%P)Ua5#%P)Ua6#%P)Ua7#%P',
+  ')Ua8#%P)Ua9#%P)Ua:#%P)Ua;#%P)Ua<#%P)Ua=#%P)Ua>#%P)Ua?#%P)Ua@#%P)UaA#%P)UaB#%P)UaC#%P)UaD#%P)UaE#',
+  '%P)UaF#%P)UaG#%P)UaH#%P)UaI#%P)UaJ#%P)UaK#%P)UaL#%P)UaM#%P)UaN#%P)UaO#%P)Ub!#%P)Ub##%P)Ub%#%P)Ub',
+  '&#%P)Ub(#%P)Ub)#%P)Ub*#%P)Ub+#%P)Ub,#%P)Ub-#%P)Ub.#%P)Ub/#%P)Ub0#%P)Ub1#%P)Ub2#%P)Ub3#%P)Ub4#%P)',
+  'Ub5#%P)Ub6#%P)Ub7#%P)Ub8#%P)Ub9#%P)Ub:#%P)Ub;#%P)Ub<#%P)Ub=#%P)Ub>#%P)Ub?#%P)Ub@#%P)UbA#%P)UbB#%',
+  'P)UbC#%P)UbD#%P)UbE#%P)UbF#%P)UbG#%P)UbH#%P)UbI#%P)UbJ#%P)UbK#%P)UbL#%P)UbM#%P)UbN#%P)UbO#%P)Uc!',
+  '#%P)Uc##%P)Uc%#%P)Uc&#%P)Uc(#%P)Uc)#%P)Uc*#%P)Uc+#%P)Uc,#%P)Uc-#%P)Uc.#%P)Uc/#%P)Uc0#%P)Uc1#%P)U',
+  'c2#%P)Uc3#%P)Uc4#%P)Uc5#%P)Uc6#%P)Uc7#%P)Uc8#%P)Uc9#%P)Uc:#%P)Uc;#%P)Uc<#%P)Uc=#%P)Uc>#%P)Uc?#%P',
+  ')Uc@#%P)UcA#%P)UcB#%P)UcC#%P)UcD#%P)UcE#%P)UcF#%P)UcG#%P)UcH#%P)UcI#%P)UcJ#%P)UcK#%P)UcL#%P)UcM#',
+  '%P)UcN#%P)UcO#%P)Ud!#%P)Ud##%P)Ud%#%P)Ud&#%P)Ud(#%P)Ud)#%P)Ud*#%P)Ud+#%P)Ud,#%P)Ud-#%P)Ud.#%P)Ud',
+  '/#%P)Ud0#%P)Ud1#%P)Ud2#%P)Ud3#%P)Ud4#%P)Ud5#%P)Ud6#%P)Ud7#%P)Ud8#%P)Ud9#%P)Ud:#%P)Ud;#%P)Ud<#%P)',
+  'Ud=#%P)Ud>#%P)Ud?#%P)Ud@#%P)UdA#%P)UdB#%P)UdC#%P)UdD#%P)UdE#%P)UdF#%P)UdG#%P)UdH#%P)UdI#%P)UdJ#%',
+  'P)UdK#%P)UdL#%P)UdM#%P)UdN#%P)UdO#%P)Ue!#%P)Ue##%P)Ue%#%P)Ue&#%P)Ue(#%P)Ue)#%P)Ue*#%P)Ue+#%P)Ue,',
+  '#%P)Ue-#%P)Ue.#%P)Ue/#%P)Ue0#%P)Ue1#%P)Ue2#%P)Ue3#%P)Ue4#%P)Ue5#%P)Ue6#%P)Ue7#%P)Ue8#%P)Ue9#%P)U',
+  'e:#%P)Ue;#%P)Ue<#%P)Ue=#%P)Ue>#%P)Ue?#%P)Ue@#%P)UeA#%P)UeB#%P)UeC#%P)UeD#%P)UeE#%P)UeF#%P)UeG#%P',
+  ')UeH#%P)UeI#%P)UeJ#%P)UeK#%P)UeL#%P)UeM#%P)UeN#%P)UeO#%P)Uf!#%P)Uf##%P)Uf%#%P)Uf&#%P)Uf(#%P)Uf)#',
+  '%P)Uf*#%P)Uf+#%P)Uf,#%P)Uf-#%P)Uf.#%P)Uf/#%P)Uf0#%P)Uf1#%P)Uf2#%P)Uf3#%P)Uf4#%P)Uf5#%P)Uf6#%P)Uf',
+  '7#%P)Uf8#%P)Uf9#%P)Uf:#%P)Uf;#%P)Uf<#%P)Uf=#%P)Uf>#%P)Uf?#%P)Uf@#%P)UfA#%P)UfB#%P)UfC#%P)UfD#%P)',
+  'UfE#%P)UfF#%P)UfG#%P)UfH#%P)UfI#%P)UfJ#%P)UfK#%P)UfL#%P)UfM#%P)UfN#%P)UfO#%P)Ug!#%P)Ug##%P)Ug%#%',
+  'P)Ug&#%P)Ug(#%P)Ug)#%P)Ug*#%P)Ug+#%P)Ug,#%P)Ug-#%P)Ug.#%P)Ug/#%P)Ug0#%P)Ug1#%P)Ug2#%P)Ug3#%P)Ug4',
+  '#%P)Ug5#%P)Ug6#%P)Ug7#%P)Ug8#%P)Ug9#%P)Ug:#%P)Ug;#%P)Ug<#%P)Ug=#%P)Ug>#%P)Ug?#%P)Ug@#%P)UgA#%P)U',
+  'gB#%P)UgC#%P)UgD#%P)UgE#%P)UgF#%P)UgG#%P)UgH#%P)UgI#%P)UgJ#%P)UgK#%P)UgL#%P)UgM#%P)UgN#%P)UgO#%P',
+  ')Uh!#%P)Uh##%P)Uh%#%P)Uh&#%P)Uh(#%P)Uh)#%P)Uh*#%P)Uh+#%P)Uh,#%P)Uh-#%P)Uh.#%P)Uh/#%P)Uh0#%P)Uh1#',
+  '%P)Uh2#%P)Uh3#%P)Uh4#%P)Uh5#%P)Uh6PW9&QO!SB#&QO!TF#&QO!TE#&QO!S;#&QO!V!#&QO!S>#&QO!Q@#&QO!P;#&QO',
+  '!SJ#&QO!SC#&QO!S9#&QO!Q2#(QO!TER<#(QO!SJQ3#(QO!V!R<#(QO!S>S&#(QO!Q2Q3#&QO!kD#(QO!jDP|5#&QO!P|5#&',
+  'QO!z,#(QO!jDU3#&QO!Uh7#&QO!PU3#&QO!Uh8#&QO!S&#&QO!R<#&QO!U3#&QO!Q3#(QO!S&R<#(QO!R<S&#(QO!U3S&#(Q',
+  'O!Q3U3#)QO!S&&P8#)QO!R<&P8#)QO!U3&P8#,QO!U3&R1aA>N#)QO!Q3&P8#*QO!Q3&P8P6#(QO!S&Q3#(QO!R<Q3#(QO!U',
+  '3Q3#(QO!Q3Q3#)QO!S&R<Q3#)QO!R<S&Q3#)QO!U3S&Q3#)QO!Q3U3Q3#*QO!U3Q3&P8#(QO!U3R<#)QO!U3R<Q3#(QO!Q3S',
+  ';#)QO!Q3S;Q2#(QO!Q3TE#)QO!Q3TEQ2#(QO!S;Q3#)QO!S;Q2Q3#&QO!U+#&QO!Uh9#(QO!U+Q2#(QO!Q3R<#(QO!Q3S&#)',
+  'QO!S>Q2Q3#)QO!S9Q2Q3#(QO!Q3S>#)QO!Q3S>Q2#&QO!:#(QO!jDv2#&QO!tB#&QO!P2#&QO!Uh:#&QO!P7#&QO!P5#&QO!',
+  'b<#(QO!V%P7#&QO!}##&QO!Y=#(QO!jDh/#(QO!P|6P7#(QO!jDY=#(QO!RMP7#&QO!c1#&QO!P+#&QO!iG#&QO!P]!#(QO!',
+  'P+R<#(QO!RMP+#(QO!P|6P+#&QO!PZ##(QO!jDP+#&QO!Uh;#&QO!v2#&QO!jO#&QO!UM#&QO!_!#&QO!_D#&QO!P|7#&QO!',
+  'Uh<#(QO!v7P+#(QO!v7P2#(QO!v7P7#(QO!v7:#(QO!P|8Z9#(QO!P|8h3#(QO!jDWB#(QO!jDZ9#(QO!jDV5#(QO!QJS&*)',
+  'QO[?ORFlC#)QO[?m1RFlC#)QO[?LRFlC#)QO[?R+PLlC#)QO[?m1PLlC#)QO[?R/PLlC#(QO[?_OlC#)QO[?_OtMlC#(QO[?',
+  '_OP|9#(QO[?_OW/#)QO[?_OP5Q!#)QO[?_OP7Q!#)QO[?_OP|9Q!((QO[?R/T+#)QO[?R/PW5T+#(QO[?R/V0#)QO[?R/RMV',
+  '0#(QO[?R/P8#(QO[?R/QH#(QO[?R/U*#(QO[?R/[3#(QO[?R/PL,(QO[?R+T+#)QO[?R+PW5T+#(QO[?R+V0#)QO[?R+RMV0',
+  '#(QO[?R+P8#(QO[?R+QH#(QO[?R+U*#(QO[?R+[3#(QO[?R+PL#(QO[?R+B&)QO#P2&X-#(QOUh=!t@#&QOP0P%#)QOS<Uh>',
+  'X,UE#(}E}F!P]##(}E}FUh?P]##(}E}FQBPY*#(}E}FQ0PY*QcI-Q.FP%vBlDQ3fNV5O#,Q.FP%lDQ3fNV5O#*Q.FP%P]%V5',
+  'O#+Q.FP%vBlDV5O#*Q.FP%lDV5O#*Q.FP%P|:V5O#+Q.FP%nDeGV5O#*Q.FP%eGV5O#*Q.FP%r*V5O#-Q.FP%nDeGQ3r+V5O',
+  '#,Q.FP%eGQ3r+V5O#,Q.FP%r*Q3r+V5O#-Q.FP%vBlDQ3fNV5L#,Q.FP%lDQ3fNV5L#*Q.FP%P]%V5L#+Q.FP%vBlDV5L#*Q',
+  '.FP%lDV5L#*Q.FP%P|:V5L#+Q.FP%nDeGV5L#*Q.FP%eGV5L#*Q.FP%r*V5L#-Q.FP%nDeGQ3r+V5L#,Q.FP%eGQ3r+V5L#,',
+  'Q.FP%r*Q3r+V5L#*Q.FP%P]%Q3fN#+Q.FP%nDeGQ3fN#*Q.FP%P]&nDeG#*Q.FP%eGQ3fN#)Q.FP%eGP]&#*Q.FP%r*Q3fN#',
+  '*Q.FP%nDeGP]&#)Q.FP%vBr*#(Q.FP%Uh@#(Q.FP%V5#(Q.FP%UhA#(Q.FP%}G#(Q.FP%UhB#(Q.FP%UhC#(Q.FP%UhD#(Q.',
+  'FP%UhE#(Q.FP%UhF#(Q.FP%UhG#(Q.FP%UhH#(Q.FP%UhI#(Q.FP%UhJ#*Q.FP%}HV5O&*Q.FdFu@P%UhK#*Q.FdFu@P%UhL',
+  '#*Q.FdFu@P%UhM#(Q.FP%P|;#)Q.FP%P|<P|;#(Q.FP%UhN#(Q.FP%P](#+Q.FP%P](&PLPD#(Q.FP%P])#)Q.FP%P])UhO#',
+  '(Q.FP%Ui!#)Q.FP%P|=P|>#(Q.FP%Ui##(Q.FP%Ui%#)Q.FUi&PLP|?#)Q.FP%a5P|?#(Q.FP%}H#*Q.FQ;dFu@[0#(Q.vCP',
+  ':Ui(#(Q.vCP:Ui)#)Q.vCP:}IP|@#(Q.vCP:}H#(Q.vCP:P[N.&Q.RIP|A#(Q.RIP|AP|B#&Q.RIUi*#)Q.RIUi+SCUi,#&Q',
+  '.RIP|C#&Q.RIUi-#&Q.RIP]*#)Q.RIP]*Q3Ui.#&Q.RIP|D#(Q.RIP|DvD#*Q.RIP]*&P|=P|>#&Q.RIP|E#&Q.RIUi/#&Q.',
+  'RIlE#(Q.RIvEUi0#(Q.RIvEP|B#(Q.RIvEUi1#(Q.RIvEUi2#(Q.RIvEUi3#(Q.RIlF}J#(Q.RIlFP]+#(Q.RIlFlG#(Q.RI',
+  'lF}K#)Q.RIlFgM}J#)Q.RIlFgMP]+#)Q.RIlFgMlG#)Q.RIlFgM}K#(Q.RIP0lE#(Q.RITCP|E#&Q.RIUi4#&Q.RIUi5#&Q.',
+  'RIP])#&Q.RIP](#(Q.RIgNP]+#(Q.RIgNlG#(Q.RIgN}K#(Q.RIgN}G#(Q.RIP|<P|C#)Q.RIgNgMlG#(Q.RIgNP|F#)Q.RI',
+  'gNgM}G#)Q.RIgNr,}J#)Q.RIgNr,lG#)Q.RIgNr,vD#)Q.RIgNr,gM#&Q.RI}L#)Q.RI}LQ3r-#(Q.RI}LUi6#)Q.RI}LQ3f',
+  'N#&Q.RI}H#&Q.RIP[N#&Q.RIm4#&Q.RIUi7#&Q.RIUi8#&Q.RIgO#)Q.RIgOQ3r-#)Q.RIgOQ3fN#+Q.RIgOQ3r-P7fN#+Q.',
+  'RIgOQ3fNP7r-#(Q.RIgOP|G#*Q.RIgOP|GQ3r-#)Q.RIgOQ3Ui9#*Q.RIgOQ3Ui:Ui;#+Q.RIgOQ3r-P7Ui<#&Q.RIUi=#(Q',
+  '.RIgOvD#(Q.RI[.}J#(Q.RI[.Ui>#(Q.RI[.Ui?#(Q.RI[.Ui@#(Q.RI[.}M#(Q.RI[.vD#(Q.RI[.UiA#(Q.RI[.P|F#)Q.',
+  'RI[.}GUiB#(Q.RI[.r,#(Q.RI[.UiC#(Q.RI[.P|H#)Q.RI[.r,gM#)Q.RI[.P|HgM#+Q.RI[.}N&TGlE#+Q.RI[.r.&TGlE',
+  '#(Q.RI[.}N#(Q.RI[.r.#+Q.RI[.r.&P0lE#(Q.RI[.}O#)Q.RI[.}O}M#&Q.RIvF#(Q.RIvFUiD#(Q.RIvFUiE#(Q.RIvFU',
+  'iF#(Q.RIvFUiG#(Q.RI[.UiH#(Q.RI[.UiI#(Q.RI[.UiJ#&Q.RIr/#(Q.RIr/lG#(Q.RIr/}K#)Q.RIr/h!lG#)Q.RIr/gM',
+  'lG#)Q.RIr/gMvD#(Q.RI[.h!#)Q.RI[.h!}M#,Q.RI[.h!}N&TGlE#,Q.RI[.h!r.&TGlE#)Q.RI[.h!}N#)Q.RI[.h!r.#,',
+  'Q.RI[.h!r.&P0lE#)Q.RI[.h!}O#*Q.RI[.h!}O}M#)Q.RI[.h!UiK#&Q.RIUiL#&Q.RIUiM#&Q.RIUiN#&Q.RIUiO#&Q.RI',
+  'Uj!P5(PCJ0U4#(PCJ0Uj##(PCJ0XJ#)PCJ0P],PP!#)PCJ0P],nE#)PCJ0P]-PP!#)PCJ0P]-nE#(PCJ0Uj%#(PCJ0Uj&#(P',
+  'CJ0P].#(PCJ0P|I#)PCJ0P|InE#(PCJ0Uj(#)PCJ0P|JPP!#)PCJ0P]/PP!#(PCJ0Pa;#(PCJ0vG#(PCJ0P]0#)PCJ0P]0nE',
+  '#(PCJ0Uj)#(PCJ0Uj*#)PCJ0P|KaM#)PCJ0vHaM#(PCJ0Uj+#(PCJ0Uj,#(PCJ0Uj-#)PCJ0P]1aM#)PCJ0PP#aM#)PCJ0vG',
+  'aM#(PCJ0Uj.#(PCJ0Uj/#)PCJ0P|LUj0#)PCJ0Uj1aM#)PCJ0Uj2aM#)PCJ0P|MaM#(PCJ0Uj3#(PCJ0PP%#(PCJ0Uj4#)PC',
+  'J0P|NaM#(PCJ0Uj5#(PCJ0Uj6#(PCJ0P|O#)PCJ0P]2aM#*PCJ0P]2Uj7Uj8#)PCJ0P}!aM#(PCJ0P}##(PCJ0Uj9#(PCJ0P',
+  'P&#(PCJ0Uj:#(PCJ0P]3#(PCJ0Uj;#*PCJ0P|JP]/^(#)PCJ0aNaM#(PCJ0Uj<#)PCJ0PP(aM#)PCJ0Uj=PP(#(PCJ0P}%#(',
+  'PCJ0P}&#(PCJ0P}(#)PCJ0P})aM#(PCJ0Uj>#)PCJ0P]4aM#)PCJ0P].aM#(PCJ0Uj?#(PCJ0P}*#(PCJ0Uj@#)PCJ0P}(P]',
+  '5#)PCJ0PP(P]5#(PCJ0UjA#(PCJ0UjB#)PCJ0P]1^(#)PCJ0P|K^(#)PCJ0P],^(#(PCJ0UjC#(PCJ0UjD#(PCJ0UjE#(PCJ',
+  '0UjF#)PCJ0P}%^(#*PCJ0vG^(k(#*PCJ0PP#^(k(#(PCJ0UjG#)PCJ0P]0^(#*PCJ0P}+UjH^(#(PCJ0UjI#(PCJ0UjJ#(PC',
+  'J0UjK#(PCJ0UjL#)PCJ0UjMP]1#)PCJ0P]-^(#)PCJ0P|N^(#)PCJ0P}&^(#(PCJ0UjN#(PCJ0UjO#(PCJ0Uk!#)PCJ0P].^',
+  '(#)PCJ0P]4^(#)PCJ0P},P]4#(PCJ0Uk##(PCJ0Uk%#)PCJ0PP(^(#(PCJ0Uk&#)PCJ0P]2^(#(PCJ0Uk(#)PCJ0P})^(#(P',
+  'CJ0Uk)#)PCJ0P|O^(#)PCJ0Uk*PP%#(PCJ0Uk+#(PCJ0Uk,#(PCJ0Uk-#(PCJ0Uk.#(PCJ0Uk/#(PCJ0Uk0#(PCJ0Uk1#(PC',
+  'J0Uk2#(PCJ0P}-#)PCJ0P},P}-#)PCJ0P}!^(#)PCJ0P}.Uk3#)PCJ0P}.P]/#)PCJ0P}#P}/#*PCJ0Uk4o9Uk5#(PCJ0Uk6',
+  '#(PCJ0Uk7#)PCJ0P}0nF#)PCJ0P}0k(#(PCJ0P|L#)PCJ0PP%k(#)PCJ0nEaM#)PCJ0P]6aM#)PCJ0P]6P]5#)PCJ0P]6^(#',
+  ')PCJ0P|M^(#(PCJ0vI#(PCJ0nE#(PCJ0Uk8#(PCJ0Uk9#(PCJ0PQ;#*PCJ0r0Uk:P}1#*PCJ0r0PP&P]7#*PCJ0r0Uk;P]7#',
+  '*PCJ0r0Uk<P]7#*PCJ0r0Uk=P}1#*PCJ0vH^(k(#*PCJ0vHvJP]8#*PCJ0vHvJP}2#(PCJ0PP)#+PCJ0PP)vJP]8nF#+PCJ0',
+  'PP)vJP]8k(#*PCJ0PP)vJP}2#(PCJ0Uk>#(PCJ0Uk?#(PCJ0Uk@#(PCJ0UkA#*PCJ0lHP}3P}4#)PCJ0lHUkB#)PCJ0lHP}4',
+  '#)PCJ0lHUkC#)PCJ0lHUkD#)PCJ0lHP}5#)PCJ0lHUkE#*PCJ0lHP}3P}5#*PCJ0eHP}6eI#+PCJ0eHP}7P}6eI#*PCJ0eHP',
+  '}8eI#+PCJ0eHP}7P}8eI#*PCJ0eHUkFeI#)PCJ0eHUkG#*PCJ0eHP]9eI#+PCJ0eHP]9P}9eI#*PCJ0eHP}9eI#*PCJ0eHP}',
+  ':eI#*PCJ0UkHP};P}<#*PCJ0P}+P};P}<#)PCJ0P]:UkI#)PCJ0P]:P}=#)PCJ0P]:P}>#*PCJ0eHUkJeI#*PCJ0eHUkKeI#',
+  '+PCJ0eHP}:P]9eI#*PCJ0P}?R<P}/#*PCJ0P}?R<UkL#+PCJ0UkMo9aNP}@#(PCJ0UkN#(PCJ0UkO#+PCJ0aNaMUl!Ul##*P',
+  'CJ0aNnGR:#*PCJ0aNnGP}*#*PCJ0aNUl%eI#*PCJ0aNnGaF#+PCJ0aNPP*Ul&aF#*PCJ0aNnGa%#*PCJ0aNnGf-#+PCJ0aNn',
+  'GZLnF#+PCJ0aNnGZLk(#+PCJ0aNP}AvKP}>#+PCJ0aNP}AvKP}=#+PCJ0Ul(PP*vKP}B!+PCJ0aNPP*vKP}B#+PCJ0aNPP*v',
+  'KUl)#)PCJ0aNUl*#)PCJ0P];Ul+#)PCJ0P];Ul,#)PCJ0P];Ul-#+PCJ0aNP7nHP}C#*PCJ0aNUl.Ul/#)PCJ0nHP}D#)PCJ',
+  '0nIP}D#)PCJ0nIP}C#+PCJ0nIvIPP&lI#+PCJ0nIP}EP]3lI#+PCJ0nIP}F|6lI#+PCJ0nIP}GP}HlI#+PCJ0nHvIPP&lI#+',
+  'PCJ0nHP}EP]3lI#+PCJ0nHP}F|6lI#+PCJ0nHP}GP}HlI#)PCJ0P}InI#)PCJ0P}InH#*PCJ0PP+vIUl0#*PCJ0PP+vIUl1#',
+  ')PCJ0PP+nE#)PCJ0PP+vL#)PCJ0lJvL#*PCJ0lJvLP}J#*PCJ0lJvLP}K#*PCJ0lJvLP}L#)PCJ0lJPP,#*PCJ0lJPP,P}J#',
+  '*PCJ0lJPP,P}K#*PCJ0lJPP,P}L#)PCJ0Ul2Ul3#)PCJ0Ul4jO#(PCJ0PQ=#)PCJ0nJR:#)PCJ0nJP}@#)PCJ0nJS=#)PCJ0',
+  'nJaF#)PCJ0nJa%#)PCJ0nJf-#)PCJ0nJZL#*PCJ0vG^(P}M#*PCJ0PP#^(P}M#*PCJ0vG^(nF#*PCJ0PP#^(nF#)PCJ0PP%n',
+  'F#*PCJ0vH^(nF/(J0TGr1#(J0P0r1#(J0P/r1#)J0_+P/r1#(J0e8r1#(J0V%r1#)J0Oj9##)J0Lj9##(J0j9R1#(J0a@P}N',
+  '#(J0S6Ul5#&J0P}N#&J0Ul6#(J0P]<Ul7#(J0P]<Ul8#(J0P]<Ul9#&J0PQ<#(J0PQ<P6#(J0P]=P%#&J0Ul:#&J0Ul;#&J0',
+  'R%#(J0Ul<l+#(J0Ul=l+#(J0Ul>l+#(J0Ul?l+#(J0Ul@l+#(J0UlAl+#(J0UlBP}O#(J0UlCP}O#(J0S9i1#*J0S9i1r2PP',
+  '-#*J0S9i1r2Z)#(J0T?i1#(J0V!i1#*J0V!i1r2PP-#*J0V!i1r2Z)#(J0q8UlD#(J0q8UlE&)J0e5n8b2#(J0P0m0#(J0P0',
+  'n,#(J0n,Q0#(J0n,QB#(J0PW%Q0#(J0PW%QB#(J0m0Q0#(J0m0QB#)J0Z.R,m0#)J0Z.R,n,#(J0UlFP]>#(J0PYLP]>#(J0',
+  'r2PP-#(J0r2Z)#(J0QP!PP-#(J0QP!Z)#(J0UlGb2#(J0P]?b2#(J0Q>b2#(J0Z.b2#(J0Z4b2#(J0oOb2#(J0P[-b2#(J0P',
+  '[,b2#*J0P.R-QP#b2#(J0TF^I#(J0Q1^I#)J0QHTF^I#)J0P&^IP<#)J0P&^IP4#*J0S!^IQ0P<#*J0S!^IQ0P4#*J0S!^IO',
+  'P<#*J0S!^IOP4#*J0S!^ILP<#*J0S!^ILP4#*J0S!^IQBP<#*J0S!^IQBP4#+J0S!^IQ0LP<#+J0S!^IQ0LP4#)J0]3^IP<#',
+  ')J0]3^IP4#*J0QP%^IQBP<#*J0QP%^IQBP4#(J0Y!^I#(J0UlH^I#(J0^IP4#(J0PQ*^I#)J0QP&^IP<#)J0QP&^IP4#&J0W',
+  '<#(J0P]?]O#(J0Q>]O#(J0Z.]O#(J0Z4]O#(J0oO]O#(J0P[-]O#(J0P[,]O#*J0P.R-QP#]O#(J0FgF#)J0FUlIgF#(J0FQ',
+  'P(#(J0FQP)#(J0FQP*#(J0P]@QP(#(J0P]@QP)#(J0P]@QP*#)J0FUlJP8#(J0FUlK#(J0FUlL#(J0FUlM#(J0FUlN#(J0FU',
+  'lO#(J0k%QP+#(J0Z*QP+#(J0k%pE#(J0Z*pE#(J0k%QP,#(J0Z*QP,#(J0k%QP-#(J0Z*QP-#(J0FV8#(J0FUm!#(J0FUm##',
+  '(J0FUm%#(J0FUm&#(J0FUm(#(J0FUm)#(J0FUm*#(J0QP.Q0#(J0QP.QB#(J0FUm+#(J0FUm,#(J0FP|@#(J0FUm-#(J0Fr3',
+  '#)J0FP0bJ#)J0FW5bJ#&J0Um.#&J0Um/#&J0T%#&J0Um0#&J0Um1#&J0Um2#&J0Um3#&J0Um4#)J0PY<]Oc2#*J0PY<]OYCc',
+  '2#&J0Um5#&J0PP.#(J0VAPP.#(J0PP.c2#(J0PP.Q0#(J0VHUm6#(J0VHUm7#(J0VHUm8#(J0VHUm9#(J0VHUm:#(J0VHUm;',
+  '#(J0VHUm<#(J0VHUm=#(J0VHUm>#(J0VHUm?#(J0VHUm@#&J0UmA#&J0UmB#)J0Z*PEUmC#(J0w<c2#)J0FQBpM#)J0FQ0pM',
+  '#(J0FUmD#)J0FUmEUmF#(J0P]AP%#)J0P]AQ0P%#)J0Q>P]AP%#(J0QP/Q0#(J0QP/QB#(J0&UmG#&J0QP0#(J0QP0u(#&J0',
+  'UmH#&J0|M#&J0QP1#(J0P]BP<#(J0P]BP4#&J0P]C#(J0P]CP4#(J0P]DP<#(J0P]DP4#(J0QP2P<#(J0QP2P4#)J0|MPP/b',
+  '2#)J0|Mr4b2#(J0QP1b2#(J0P]Bb2#(J0P]Cb2#(J0P]Db2#+J0lKP]ElLlMPP/#+J0lKP]ElLlMr4#,J0lKP]ElLlMPP/QP',
+  '3#+J0lKvMlLlMPP/#+J0lKvMlLlMr4#,J0lKvMlLlMr4QP3#,J0lKvMlLlMr4UmI#,J0lKvMlLlMr4UmJ#&J0UmK#)J0QP4T',
+  '?i1#)J0QP4V!i1#(J0P&P;#&J0UmL#&J0UmM#&J0UmN#&J0QP5#&J0UmO#&J0QP6#&J0QP7#(J0QP7QP8#(J0QP5QP8#(J0Q',
+  'P6Un!#(J0Un#Un%#)J0h#T?i1#*J0h#Z*PEkO#)J0h#P/]O#)J0h#Un&P%#)J0h#P]?]O#)J0h#Q>]O#+J0h#Z.]OgFQB#+J',
+  '0h#Z.]OgFQ0#+J0h#Z4]OgFQB#+J0h#Z4]OgFQ0#)J0h#n,##&J0Un(#&J0Un):(H]:U5QP9#(H]:U5QP:#(H]:U5Un*#(H]',
+  ':U5QP;#(H]:U5QP<#(H]:U5Un+#(H]:U5QP=#(H]:U5QP>#(H]:U5Un,#(H]:U5Un-#(H]:U5QP?#(H]:U5QP@#(H]:U5QPA',
+  '#(H]:U5QPB#(H]:U5Un.#(H]:U5Un/#(H]:U5QPC#(H]:U5QPD#(H]:U5QPE#(H]:U5Un0#(H]:U5Un1#(H]:U5Un2#(H]:U',
+  '5QPF#(H]:U5QPG#(H]:U5QPH#(H]:U5QPI#(H]:U5QPJ#(H]:U5QPK#(H]:U5QPL#(HZ?U5QP9#(HZ?U5QP:#(HZ?U5QP;#(',
+  'HZ?U5QP<#(HZ?U5QP=#(HZ?U5QP>#(HZ?U5QP?#(HZ?U5QP@#(HZ?U5QPA#(HZ?U5QPB#(HZ?U5QPC#(HZ?U5QPD#(HZ?U5Q',
+  'PE#(HZ?U5QPF#(HZ?U5QPG#(HZ?U5Un3#(HZ?U5Un4#(HZ?U5Un5#(HZ?U5Un6#(HZ?U5Un7#(HZ?U5Un8#(HZ?U5Un9#(HZ',
+  '?U5Un:#(HZ?U5Un;#(HZ?U5Un<#(HZ?U5Un=#(HZ?U5Un>#(HZ?U5Un?#(HZ?U5Un@#(HZ?U5UnA#(HZ?U5UnB#(HZ?U5UnC',
+  '#(HZ?U5QPH#(HZ?U5QPI#(HZ?U5QPJ#(HZ?U5QPK#(HZ?U5QPL#(FHJPk/#(FHJPk0#(FHJPk1#&HJr0R;&a7U:T,#&a7U:P',
+  '.#&a7U:P3#&a7U:P=#&a7U:PI#&a7U:Q%#&a7U:QE#&a7U:R!#&a7U:QD#&a7U:R*#&a7U:U!#&a7U:f:#&a7U:d&#&a7U:l',
+  '!#&a7U:l##&a7U:g@#&a7U:h4#&a7U:l%#&a7U:j1#&a7U:l&1&j4P!c4#(j5P!UnDc4#(j5P!P]Fc4#(j5P!QPM{/#(j5P!',
+  'QPMP]F#&j5P!c4#&U.P!VD#(U.P!X,QH#&U.P!UnE#&U.P!UnF#(U.P!Po:%#&U.P!UnG#&U.P!UnH#&U.P!PVK#(U.P!UnI',
+  'b8#)U.P!UnJT&UnK#&U.P!UnL#&U.P!UnM#&U.P!PY=#&U.P!UnN#&U.P!Po*#&U.P!r5#(U.P!q9fE#&U.P!PQ2#&U.P!Po',
+  '3#&U.P!UnO#&U.P!Uo!#&U.P!Uo##&U.P!Uo%#&U.P!P]G#&U.P!Uo&#&U.P!Uo(#&U.P!Uo)#&U.P!Uo*#&U.P!Uo+#(U.P',
+  '!@Uo,#&U.P!Uo-#&U.P!Uo.#&U.P!Uo/#&U.P!Uo0#&U.P!PY>#&U.P!Uo1#&U.P!Uo2#&U.P!Uo3#&U.P!Uo4#)U.P!P{OT',
+  '&Uo5#&U.P!PjD#)U.P!Uo6P?Po9#&U.P!Uo7#&U.P!Uo8#&U.P!Uo9#&U.P!Uo:#&U.P!PA#&U.P!Uo;#&U.P!Uo<#)U.P!U',
+  'o=T&Uo>#&U.P!Uo?#&U.P!n8#&U.P!PQL#&U.P!Uo@#&U.P!UoA#(U.P!Y1X@#&U.P!UoB#(U.P!PY>VK#&U.P!UoC#&U.P!',
+  'UoD#&U.P!UoE#&U.P!UoF#&U.P!Pk##&U.P!UoG#&U.P!Po;#&U.P!QPN#&U.P!Po6#&U.P!UoH#&U.P!UoI#&U.P!UoJ#&U',
+  '.P!UoK#&U.P!UoL#&U.P!PY?#&U.P!UoM#&U.P!UoN#&U.P!UoO#&U.P!Up!#)U.P!V5Y4Up##&U.P!Up%#&U.P!Up&#&U.P',
+  '!Up(.)b4b5e%4P.#)b4b5e%4P3#)b4b5e%4P=#)b4b5e%4PI#)b4b5e%4Q%#)b4b5e%4QE#)b4b5e%4R!#)b4b5e%4QD#)b4',
+  'b5e%4R*#)b4b5gL4P.#)b4b5gL4P3#)b4b5gL4P=#)b4b5gL4PI#)b4b5gL4Q%#)b4b5gL4QE#)b4b5gL4R!#)b4b5gL4QD#',
+  ')b4b5gL4R*#(RAnKP%P.#(RAnKP%P3#(RAnKP%P=#(RAnKP%PI#(RAnKP%Q%#&nKP%P.#&nKP%Q%R((1@):#(1@)P;#(1@)T',
+  '?#(1@)SJ#(1@)P5#(1@)V!#(1@)S9#(1@)SB#(1@)P7#(1@)U3#(1@)S>#(1@)Q@#(1@)S&#(1@)R<#(1@)P2#(1@)TE#(1@',
+  ')W4#(1@)Q2#(1@)Q3#(1@)S;#(1@)P+#(1@)SC#(1@)U+#(1@)TF#(1@)T-#(1@)T%#(1@%:#(1@%P;#(1@%T?#(1@%SJ#(1',
+  '@%P5#(1@%V!#(1@%S9#(1@%SB#(1@%P7#(1@%U3#(1@%S>#(1@%Q@#(1@%S&#(1@%R<#(1@%P2#(1@%TE#(1@%W4#(1@%Q2#',
+  '(1@%Q3#(1@%S;#(1@%P+#(1@%SC#(1@%U+#(1@%TF#(1@%T-#(1@%T%#(1P():#(1P()P;#(1P()T?#(1P()SJ#(1P()P5#(',
+  '1P()V!#(1P()S9#(1P()SB#(1P()P7#(1P()U3#(1P()S>#(1P()Q@#(1P()S&#(1P()R<#(1P()P2#(1P()TE#(1P()W4#(',
+  '1P()Q2#(1P()Q3#(1P()S;#(1P()P+#(1P()SC#(1P()U+#(1P()TF#(1P()T-#(1P()T%#(1P(%:#(1P(%P;#(1P(%T?#(1',
+  'P(%SJ#(1P(%P5#(1P(%V!#(1P(%S9%(1P(%P7#(1P(%U3#(1P(%S>#(1P(%Q@#(1P(%S&#(1P(%R<#(1P(%P2#(1P(%TE#(1',
+  'P(%W4#(1P(%Q2#(1P(%Q3#(1P(%S;#(1P(%P+#(1P(%SC#(1P(%U+#(1P(%TF#(1P(%T-#(1P(%T%#)1@P():#)1@P()P;#)',
+  '1@P()T?#)1@P()SJ#)1@P()P5#)1@P()V!#)1@P()S9#)1@P()SB#)1@P()P7#)1@P()U3#)1@P()S>#)1@P()Q@#)1@P()S',
+  '&#)1@P()R<#)1@P()P2#)1@P()TE#)1@P()W4#)1@P()Q2#)1@P()Q3#)1@P()S;#)1@P()P+#)1@P()SC#)1@P()U+#)1@P',
+  '()TF#)1@P()T-#)1@P()T%#)1@P(%:#)1@P(%P;#)1@P(%T?#)1@P(%SJ#)1@P(%P5#)1@P(%V!#)1@P(%S9#)1@P(%SB#)1',
+  '@P(%P7#)1@P(%U3#)1@P(%S>#)1@P(%Q@#)1@P(%S&#)1@P(%R<#)1@P(%P2#)1@P(%TE#)1@P(%W4#)1@P(%Q2#)1@P(%Q3',
+  '#)1@P(%S;#)1@P(%P+#)1@P(%SC#)1@P(%U+#)1@P(%TF#)1@P(%T-#)1@P(%T%#(1?):%(1?)T?#(1?)SJ&(1?)S9&(1?)U',
+  '3#(1?)S>&(1?)R<#(1?)P2#(1?)TE#(1?)W4%(1?)Q3#(1?)S;#(1?)P+#(1?)SC#(1?)U+#(1?)TF#(1?)T-#(1?)T%#(1?',
+  '%:#(1?%P;#(1?%T?#(1?%SJ%(1?%V!%(1?%SB#(1?%P7#(1?%U3#(1?%S>#(1?%Q@#(1?%S&#(1?%R<%(1?%TE#(1?%W4#(1',
+  '?%Q2#(1?%Q3#(1?%S;#(1?%P+#(1?%SC#(1?%U+#(1?%TF#(1?%T-#(1?%T%#)1@?):#)1@?)P;#)1@?)T?#)1@?)SJ#)1@?',
+  ')P5#)1@?)V!#)1@?)S9#)1@?)SB#)1@?)P7#)1@?)U3#)1@?)S>#)1@?)Q@#)1@?)S&#)1@?)R<#)1@?)P2#)1@?)TE#)1@?',
+  ')W4#)1@?)Q2#)1@?)Q3#)1@?)S;#)1@?)P+#)1@?)SC#)1@?)U+#)1@?)TF#)1@?)T-#)1@?)T%#)1@?%:#)1@?%P;#)1@?%',
+  'T?#)1@?%SJ#)1@?%P5#)1@?%V!#)1@?%S9#)1@?%SB#)1@?%P7#)1@?%U3#)1@?%S>#)1@?%Q@#)1@?%S&#)1@?%R<#)1@?%',
+  'P2#)1@?%TE#)1@?%W4#)1@?%Q2#)1@?%Q3#)1@?%S;#)1@?%P+#)1@?%SC#)1@?%U+#)1@?%TF#)1@?%T-#)1@?%T%#(1SE)',
+  ':#(1SE)P;%(1SE)SJ#(1SE)P5#(1SE)V!#(1SE)S9&(1SE)U3#(1SE)S>#(1SE)Q@#(1SE)S&#(1SE)R<#(1SE)P2#(1SE)T',
+  'E#(1SE)W4%(1SE)Q3#(1SE)S;#(1SE)P+#(1SE)SC#(1SE)U+#(1SE)TF#(1SE)T-%(1SE%:#(1SE%P;#(1SE%T?#(1SE%SJ',
+  '#(1SE%P5#(1SE%V!#(1SE%S9#(1SE%SB#(1SE%P7#(1SE%U3#(1SE%S>#(1SE%Q@#(1SE%S&#(1SE%R<#(1SE%P2#(1SE%TE',
+  '#(1SE%W4#(1SE%Q2#(1SE%Q3#(1SE%S;#(1SE%P+#(1SE%SC#(1SE%U+#(1SE%TF#(1SE%T-#(1SE%T%#(1SK):#(1SK)P;%',
+  '(1SK)SJ#(1SK)P5#(1SK)V!#(1SK)S9%(1SK)P7#(1SK)U3#(1SK)S>#(1SK)Q@#(1SK)S&%(1SK)P2((1SK)Q3#(1SK)S;#',
+  '(1SK)P+#(1SK)SC#(1SK)U+#(1SK)TF#(1SK)T-%(1SK%:#(1SK%P;#(1SK%T?#(1SK%SJ#(1SK%P5#(1SK%V!#(1SK%S9#(',
+  '1SK%SB#(1SK%P7#(1SK%U3#(1SK%S>#(1SK%Q@#(1SK%S&#(1SK%R<#(1SK%P2#(1SK%TE#(1SK%W4#(1SK%Q2#(1SK%Q3#(',
+  '1SK%S;#(1SK%P+#(1SK%SC#(1SK%U+#(1SK%TF#(1SK%T-#(1SK%T%#)1@SE):#)1@SE)P;#)1@SE)T?#)1@SE)SJ#)1@SE)',
+  'P5#)1@SE)V!#)1@SE)S9#)1@SE)SB#)1@SE)P7#)1@SE)U3#)1@SE)S>#)1@SE)Q@#)1@SE)S&#)1@SE)R<#)1@SE)P2#)1@',
+  'SE)TE#)1@SE)W4#)1@SE)Q2#)1@SE)Q3#)1@SE)S;#)1@SE)P+#)1@SE)SC#)1@SE)U+#)1@SE)TF#)1@SE)T-#)1@SE)T%#',
+  ')1@SE%:#)1@SE%P;#)1@SE%T?#)1@SE%SJ#)1@SE%P5#)1@SE%V!#)1@SE%S9#)1@SE%SB#)1@SE%P7#)1@SE%U3#)1@SE%S',
+  '>#)1@SE%Q@#)1@SE%S&#)1@SE%R<#)1@SE%P2#)1@SE%TE#)1@SE%W4#)1@SE%Q2#)1@SE%Q3#)1@SE%S;#)1@SE%P+#)1@S',
+  'E%SC#)1@SE%U+#)1@SE%TF#)1@SE%T-#)1@SE%T%#(1P,):#(1P,)P;#(1P,)T?#(1P,)SJ#(1P,)P5#(1P,)V!#(1P,)S9#',
+  '(1P,)SB#(1P,)P7#(1P,)U3#(1P,)S>#(1P,)Q@#(1P,)S&#(1P,)R<#(1P,)P2#(1P,)TE#(1P,)W4#(1P,)Q2#(1P,)Q3#',
+  '(1P,)S;#(1P,)P+#(1P,)SC#(1P,)U+#(1P,)TF#(1P,)T-#(1P,)T%#(1P,%:#(1P,%P;#(1P,%T?#(1P,%SJ#(1P,%P5#(',
+  '1P,%V!#(1P,%S9#(1P,%SB#(1P,%P7#(1P,%U3#(1P,%S>#(1P,%Q@#(1P,%S&#(1P,%R<#(1P,%P2#(1P,%TE#(1P,%W4#(',
+  '1P,%Q2#(1P,%Q3#(1P,%S;#(1P,%P+#(1P,%SC#(1P,%U+#(1P,%TF#(1P,%T-#(1P,%T%#)1P,@):#)1P,@)P;#)1P,@)T?',
+  '#)1P,@)SJ#)1P,@)P5#)1P,@)V!#)1P,@)S9#)1P,@)SB#)1P,@)P7#)1P,@)U3#)1P,@)S>#)1P,@)Q@#)1P,@)S&#)1P,@',
+  ')R<#)1P,@)P2#)1P,@)TE#)1P,@)W4#)1P,@)Q2#)1P,@)Q3#)1P,@)S;#)1P,@)P+#)1P,@)SC#)1P,@)U+#)1P,@)TF#)1',
+  'P,@)T-#)1P,@)T%#)1P,@%:#)1P,@%P;#)1P,@%T?#)1P,@%SJ#)1P,@%P5#)1P,@%V!#)1P,@%S9#)1P,@%SB#)1P,@%P7#',
+  ')1P,@%U3#)1P,@%S>#)1P,@%Q@#)1P,@%S&#)1P,@%R<#)1P,@%P2#)1P,@%TE#)1P,@%W4#)1P,@%Q2#)1P,@%Q3#)1P,@%',
+  'S;#)1P,@%P+#)1P,@%SC#)1P,@%U+#)1P,@%TF#)1P,@%T-#)1P,@%T%#)1P,P():#)1P,P()P;#)1P,P()T?#)1P,P()SJ#',
+  ')1P,P()P5#)1P,P()V!#)1P,P()S9#)1P,P()SB#)1P,P()P7#)1P,P()U3#)1P,P()S>#)1P,P()Q@#)1P,P()S&#)1P,P(',
+  ')R<#)1P,P()P2#)1P,P()TE#)1P,P()W4#)1P,P()Q2#)1P,P()Q3#)1P,P()S;#)1P,P()P+#)1P,P()SC#)1P,P()U+#)1',
+  'P,P()TF#)1P,P()T-#)1P,P()T%#)1P,P(%:#)1P,P(%P;#)1P,P(%T?#)1P,P(%SJ#)1P,P(%P5#)1P,P(%V!#)1P,P(%S9',
+  '#)1P,P(%SB#)1P,P(%P7#)1P,P(%U3#)1P,P(%S>#)1P,P(%Q@#)1P,P(%S&#)1P,P(%R<#)1P,P(%P2#)1P,P(%TE#)1P,P',
+  '(%W4#)1P,P(%Q2#)1P,P(%Q3#)1P,P(%S;#)1P,P(%P+#)1P,P(%SC#)1P,P(%U+#)1P,P(%TF#)1P,P(%T-#)1P,P(%T%#*',
+  '1P,@P():#*1P,@P()P;#*1P,@P()T?#*1P,@P()SJ#*1P,@P()P5#*1P,@P()V!#*1P,@P()S9#*1P,@P()SB#*1P,@P()P7',
+  '#*1P,@P()U3#*1P,@P()S>#*1P,@P()Q@#*1P,@P()S&#*1P,@P()R<#*1P,@P()P2#*1P,@P()TE#*1P,@P()W4#*1P,@P(',
+  ')Q2#*1P,@P()Q3#*1P,@P()S;#*1P,@P()P+#*1P,@P()SC#*1P,@P()U+#*1P,@P()TF#*1P,@P()T-#*1P,@P()T%#*1P,',
+  '@P(%:#*1P,@P(%P;#*1P,@P(%T?#*1P,@P(%SJ#*1P,@P(%P5#*1P,@P(%V!#*1P,@P(%S9#*1P,@P(%SB#*1P,@P(%P7#*1',
+  'P,@P(%U3#*1P,@P(%S>#*1P,@P(%Q@#*1P,@P(%S&#*1P,@P(%R<#*1P,@P(%P2#*1P,@P(%TE#*1P,@P(%W4#*1P,@P(%Q2',
+  '#*1P,@P(%Q3#*1P,@P(%S;#*1P,@P(%P+#*1P,@P(%SC#*1P,@P(%U+#*1P,@P(%TF#*1P,@P(%T-#*1P,@P(%T%#(1W-):#',
+  '(1W-)P;#(1W-)T?#(1W-)SJ#(1W-)P5#(1W-)V!#(1W-)S9#(1W-)SB#(1W-)P7#(1W-)U3#(1W-)S>#(1W-)Q@#(1W-)S&#',
+  '(1W-)R<#(1W-)P2#(1W-)TE#(1W-)W4#(1W-)Q2#(1W-)Q3#(1W-)S;#(1W-)P+#(1W-)SC#(1W-)U+#(1W-)TF#(1W-)T-#',
+  '(1W-)T%#(1W-%:#(1W-%P;#(1W-%T?#(1W-%SJ#(1W-%P5#(1W-%V!#(1W-%S9#(1W-%SB#(1W-%P7#(1W-%U3#(1W-%S>#(',
+  '1W-%Q@#(1W-%S&#(1W-%R<#(1W-%P2#(1W-%TE#(1W-%W4#(1W-%Q2#(1W-%Q3#(1W-%S;#(1W-%P+#(1W-%SC#(1W-%U+#(',
+  '1W-%TF#(1W-%T-#(1W-%T%#)1P(%_LP7#)1P(%_LU3&(1@)V##(1@)a=#(1@)_7#(1@)a,#(1@)Z0#(1@)e(#(1@)WA#(1@)',
+  '^@#(1@)WN#(1@)aO#(1@)d7#(1@)YJ#(1@)[4#(1@)cA#(1@)[N#(1@)X.#(1@)]=#)1@)^@0#(1@)^,#(1@)b!#(1@)XD#(',
+  '1@)^>#(1@)^-#(1@)b;#(1@)UK#&1@pG#(1@%V##(1@%a=#(1@%_7#(1@%a,#(1@%Z0#(1@%e(#(1@%WA#(1@%^@#(1@%WN#',
+  '(1@%aO#(1@%d7#(1@%YJ#(1@%[4#(1@%cA#(1@%[N#(1@%X.#(1@%]=#)1@%P/^,#(1@%^,#(1@%b!#(1@%XD#(1@%^>#(1@',
+  '%^-#(1@%b;#(1@%UK#(1@h%pF#(1@Z00#(1@^@0#(1@aO0#(1@^>0#(1@]=0#(1@X.0#(1P()V##(1P()a=#(1P()_7#(1P(',
+  ')a,#(1P()Z0#(1P()e(#(1P()WA#(1P()^@#(1P()WN#(1P()aO#(1P()d7#(1P()YJ#(1P()[4#(1P()cA#(1P()[N#(1P(',
+  ')X.#(1P()]=#)1P()^@0#(1P()^,#(1P()b!#(1P()XD#(1P()^>#(1P()^-#(1P()b;#(1P()UK#&1P(pG#(1P(%V##(1P(',
+  '%a=#(1P(%_7#(1P(%a,#(1P(%Z0#(1P(%e(#(1P(%WA#(1P(%^@#(1P(%WN#(1P(%aO#(1P(%d7#(1P(%YJ#(1P(%[4#(1P(',
+  '%cA#(1P(%[N#(1P(%X.#(1P(%]=#)1P(%P/^,#(1P(%^,#(1P(%b!#(1P(%XD#(1P(%^>#(1P(%^-#(1P(%b;#(1P(%UK#(1',
+  'P(h%pF#(1P(Z00#(1P(^@0#(1P(aO0#(1P(^>0#(1P(]=0#(1P(X.0#)1@P()V##)1@P()a=#)1@P()_7#)1@P()a,#)1@P(',
+  ')Z0#)1@P()e(#)1@P()WA#)1@P()^@#)1@P()WN#)1@P()aO#)1@P()d7#)1@P()YJ#)1@P()[4#)1@P()cA#)1@P()[N#)1',
+  '@P()X.#)1@P()]=#*1@P()^@0#)1@P()^,#)1@P()b!#)1@P()XD#)1@P()^>#)1@P()^-#)1@P()b;#)1@P()UK#(1@P(pG',
+  '#)1@P(%V##)1@P(%a=#)1@P(%_7#)1@P(%a,#)1@P(%Z0#)1@P(%e(#)1@P(%WA#)1@P(%^@#)1@P(%WN#)1@P(%aO#)1@P(',
+  '%d7#)1@P(%YJ#)1@P(%[4#)1@P(%cA#)1@P(%[N#)1@P(%X.#)1@P(%]=#*1@P(%P/^,#)1@P(%^,#)1@P(%b!#)1@P(%XD#',
+  ')1@P(%^>#)1@P(%^-#)1@P(%b;#)1@P(%UK#)1@P(h%pF#)1@P(Z00#)1@P(^@0#)1@P(aO0#)1@P(^>0#)1@P(]=0#)1@P(',
+  'X.0#)1P,@)V##)1P,@)a=#)1P,@)_7#)1P,@)a,#)1P,@)Z0#)1P,@)e(#)1P,@)WA#)1P,@)^@#)1P,@)WN#)1P,@)aO#)1',
+  'P,@)d7#)1P,@)YJ#)1P,@)[4#)1P,@)cA#)1P,@)[N#)1P,@)X.#)1P,@)]=#*1P,@)^@0#)1P,@)^,#)1P,@)b!#)1P,@)X',
+  'D#)1P,@)^>#)1P,@)^-#)1P,@)b;#)1P,@)UK#(1P,@pG#)1P,@%V##)1P,@%a=#)1P,@%_7#)1P,@%a,#)1P,@%Z0#)1P,@',
+  '%e(#)1P,@%WA#)1P,@%^@#)1P,@%WN#)1P,@%aO#)1P,@%d7#)1P,@%YJ#)1P,@%[4#)1P,@%cA#)1P,@%[N#)1P,@%X.#)1',
+  'P,@%]=#*1P,@%P/^,#)1P,@%^,#)1P,@%b!#)1P,@%XD#)1P,@%^>#)1P,@%^-#)1P,@%b;#)1P,@%UK#)1P,@h%pF#)1P,@',
+  'Z00#)1P,@^@0#)1P,@aO0#)1P,@^>0#)1P,@]=0#)1P,@X.0#*1P,@P()V##*1P,@P()a=#*1P,@P()_7#*1P,@P()a,#*1P',
+  ',@P()Z0#*1P,@P()e(#*1P,@P()WA#*1P,@P()^@#*1P,@P()WN#*1P,@P()aO#*1P,@P()d7#*1P,@P()YJ#*1P,@P()[4#',
+  '*1P,@P()cA#*1P,@P()[N#*1P,@P()X.#*1P,@P()]=#+1P,@P()^@0#*1P,@P()^,#*1P,@P()b!#*1P,@P()XD#*1P,@P(',
+  ')^>#*1P,@P()^-#*1P,@P()b;#*1P,@P()UK#)1P,@P(pG#*1P,@P(%V##*1P,@P(%a=#*1P,@P(%_7#*1P,@P(%a,#*1P,@',
+  'P(%Z0#*1P,@P(%e(#*1P,@P(%WA#*1P,@P(%^@#*1P,@P(%WN#*1P,@P(%aO#*1P,@P(%d7#*1P,@P(%YJ#*1P,@P(%[4#*1',
+  'P,@P(%cA#*1P,@P(%[N#*1P,@P(%X.#*1P,@P(%]=#+1P,@P(%P/^,#*1P,@P(%^,#*1P,@P(%b!#*1P,@P(%XD#*1P,@P(%',
+  '^>#*1P,@P(%^-#*1P,@P(%b;#*1P,@P(%UK#*1P,@P(h%pF#*1P,@P(Z00#*1P,@P(^@0#*1P,@P(aO0#*1P,@P(^>0#*1P,',
+  '@P(]=0#*1P,@P(X.0#(1@)o8#(1@%o8&(1@4T,#(1@4P.#(1@4P3#(1@4P=#(1@4PI#(1@4Q%#(1@4QE#(1@4R!#(1@4QD#(',
+  '1@4R*#(1SK4T,#(1SK4P.#(1SK4P3#(1SK4P=#(1SK4PI#(1SK4Q%#(1SK4QE#(1SK4R!#(1SK4QD#(1SK4R*#(1P,4T,#(1',
+  'P,4P.#(1P,4P3#(1P,4P=#(1P,4PI#(1P,4Q%#(1P,4QE#(1P,4R!#(1P,4QD#(1P,4R*#)1P,@4T,#)1P,@4P.#)1P,@4P3',
+  '#)1P,@4P=#)1P,@4PI#)1P,@4Q%#)1P,@4QE#)1P,@4R!#)1P,@4QD#)1P,@4R*#(1W-4T,#(1W-4P.#(1W-4P3#(1W-4P=#',
+  '(1W-4PI#(1W-4Q%#(1W-4QE#(1W-4R!#(1W-4QD#(1W-4R*#&;R=Q8#&;bOQ8#&;d2Q8#&;lNQ8#&;[JQ8#&;b6Q8#(;R=Q8',
+  '])#(;bOQ8])#*;R=R5hCQ8])#);R=Q8[&PP0#(;R=Q8r6#(;R=Q8a8#);R=Q8a8R+#(;bOQ8QPO#(;R=Q8PJ#(;bOQ8PJ#);',
+  'R=Q8PJ])#*;R=Q8PJ[&P]H#);R=Q8PJa8#*;R=Q8Q0PJa8#*;R=Q8a8PJQ0#);R=Q8PJ];#+;R=Q8PJ];Q8])#+;R=Q8PJ];',
+  'PJ])#*;R=Q8PJ];r6#*;R=Q8PJ];a8#);R=Q8PJeA#);bOQ8PJeA#*;R=PJ])R4Q8#*;R=Q8])R4PJ#);R=Q8PJR5#);bOQ8',
+  'PJR5#+;R=Q8PJZBR5])#+;R=Q8PJ])R5ZB#*;R=Q8PJR5])#,;R=Q8PJa8c;R5ZG#,;R=Q8Q0PJa8R5ZG#,;R=Q8Q0PJa8R5',
+  '];#,;R=Q8a8PJQ0R5ZG#,;R=Q8PJQ0c;R5a9#*;R=Q8PJR5r6#*;R=Q8PJR5P*#*;R=Q8PJR5q+#*;R=Q8PJR5a8#+;R=R5^',
+  '3Q8PJZB#+;R=Q8PJ];R5ZG#,;R=Q8PJ];R5ZG];#,;R=Q8PJ];R5ZG])#+;R=PJR5q+Q8Q0#+;R=Q8R5q+PJQ0#,;R=Q8PJ]',
+  ';a8R5ZG#+;R=Q8PJeAR5ZG#+;R=Q8PJ];R5a9#,;R=Q8PJ];r6R5a9#+;R=PJR5r6Q8Q0#+;R=Q8R5r6PJQ0#+;R=PJR5P*Q',
+  '8Q0#+;R=PJR5P*Q8a8#,;R=Q8R5nLb8PJQ0#,;R=Q8R5nLVKPJQ0#+;R=Q8R5P*PJQ0#+;R=Q8PJR5];a8#+;R=Q8PJR5nLb',
+  '8#*;R=Q8PJR5nL#,;R=PJR5nLb8Q8Q0#,;R=PJR5nLb8Q8eA#+;R=PJR5nLQ8Q0#+;R=Q8R5q+PJa8#(;^)PI[K#);^)PI[K',
+  '])#);^)PI[Ka8#);^)PI[K];#*;^)PI[K];r7#);lOPI[K];#*;R=PI[K];])#);[JPI[K];#);^)Q%[Kc;#*;^)nMQ%[Kc;',
+  '#+;^)Q%[Kc;PI])#,;^)nMQ%[Kc;PI])#*;^)Q%[Kc;])#+;^)nMQ%[Kc;])#+;^)Q%[Kc;R5a9#);d2Q%[Kc;#*;d2Q%[Kc',
+  ';S(#*;[JQ%[Kc;S(#);lNQ%[Kc;#*;^)Q%[Kc;a8#,;^)Q%[Kc;a8R5ZG#,;^)Q%[Kc;a8YCR5#%;^)#);^)^3q1Up)#&;^)',
+  'nM#(;^)R5ZG#);^)nMR5ZG#(;^)R5])#(;^)R5a9#*;^)r7Q8R5ZG#(;^)r7VD#*;^)r7VDR5ZG#+;^)r7VDR5ZG])#(;^)r',
+  '7V,#%;lO#(;lOR5ZG#(;lOYCR5#(;lOR5a9#&;i2QQ!#%;i2#&;d2S(#%;d2#);d2S(R5ZG#(;d2R5ZG#);d2S(YCR5#(;d2',
+  'YCR5#);d2S(R5a9#(;d2R5a9#&;PP1S(#%;PP1#%;bO#%;lN#(;lNR5ZG#(;lNYCR5#(;lNR5a9#&;[JS(#);[JS(R5a9#%;',
+  '[J#&;[J%#);[JS(R5ZG#(;[JR5ZG#);[JS(YCR5#(;[JYCR5#*;[JR5ZGQQ#Q8#*;[JR5^3PJRB#%;b6#);R=Q8PJRB#);bO',
+  'Q8PJRB#);[JQ8PJRB#);b6Q8PJRB#&;[JV,#*;R=Q8PJRB])#*;R=Q8PJRB];#*;[JQ8PJRB];#(;R=V,QB#*;R=V,QBQQ%Z',
+  'B#*;R=V,QBQQ%a5#*;R=V,QBUp*P*#(;R=V,Q0#*;R=R5hCV,Q0#(;bOV,Q0#(;lNV,Q0#(;b6V,Q0#);R=V,[&PP0#(;R=V',
+  ',])#);R=V,Up+R5#(;R=V,R5#(;[JV,R5#);R=V,Q8R5#);[JV,Q8R5#,;b6V,Q8R5Q8R5b8#+;b6V,Q8R5Q8R5#(;R=V,Q8',
+  '#(;bOV,Q8#(;[JV,Q8#(;b6V,Q8#);R=Q8PJV,#);bOQ8PJV,#);[JQ8PJV,#&;[JRB#);b6Q8PJV,#*;R=Q8PJX-V,#*;bO',
+  'Q8PJX-V,#(;R=RBQB#,;[JRBQBQ8R5Q!PJ#,;b6RBQBPJR5Q8X-#(;R=RBQ0#);R=RB[&PP0#(;R=RBV,#(;bORBV,#(;lNR',
+  'BV,#(;b6RBV,#(;R=RBPJ#);R=RBPJ];#*;R=RBPJ[&P]H#(;R=RBQ8#(;R=RBR5#(;i2RBR5#);R=Q8RBV,#);bOQ8RBV,#',
+  '*;PP1Q8RBV,V5#*;i2Q8RBV,b8#*;i2Q8RBV,VK#*;i2Q8RBV,hC#);d2Q8RBV,#);[JQ8RBV,#*;b6Q8RBV,b8#);b6Q8RB',
+  'V,#(;R=PJQB#&;[JPJ#(;R=PJQ0#(;bOPJQ0#);R=PJ[&PP0#*;R=PJQ0R5ZG#(;i2PJR5#);R=PJR5V,#(;R=PJV,#);R=P',
+  'JRBV,#);bOPJRBV,#*;PP1PJRBV,V5#);d2PJRBV,#);[JPJRBV,#*;b6PJRBV,b8#*;b6PJRBV,VK#);b6PJRBV,#*;bOPJ',
+  'RBV,])#*;lOPJRBV,];#+;lOPJRBV,];ZG#+;i2PJRBV,];b8#+;i2PJRBV,];VK#*;i2PJRBV,];#(;[JQ8a8#);R=Q8R5Z',
+  'G#);[JQ8R5ZG#+;R=Q8R5ZGR5S2#+;R=Q8R5ZGR5];#+;R=Q8R5ZGR5])#+;R=Q8R5ZGQ8])#+;R=Q8R5ZGQQ&])#+;R=Q8R',
+  '5ZGQ8QPO#+;R=Q8R5a9Q8ZB#+;R=Q8R5a9Q8])#);R=Q8R5Q!#);R=Q8R5QQ!#+;R=Q8R5Z+R5aA#+;lOQ8R5Z+R5aA#+;R=',
+  'Q8R5Z+R5hC#);R=Q8R5QH#(;d2Q8R5#);d2Q8R5S(#);[JQ8R5S(#);[JQ8R5T/#(;[JQ8R5#);[JQ8R5%#);b6Q8R5b8#);',
+  'b6Q8R5VK#(;b6Q8R5#&;R=R5#(;R=R5nM#);R=R5ZGS2#);R=R5ZG];#);R=R5ZG])#(;R=R5a9#*;R=R5^3Q8PJ#*;R=R5^',
+  '3PJRB#*;R=R5^3RBV,#*;R=R5hCP3[K#*;R=R5R4P3[K#*;R=R5hCP=[K#*;R=R5hCPI[K#+;R=R5R4PI[&P]H#%;R=#&;R=',
+  'nM#&;P]ITG#&;P]Ie5#&;P]I^3#&;P]JTG#&;P]Je5#&;P]J^3#&;P]KTG#&;P]Ke5#&;P]K^3#&;q5TG#&;q5e5#&;q5^3#',
+  '&;x,TG#&;x,e5#&;x,^3#&;PV<P]L#&;PV<^3#(;r8T/TG#(;r8%TG#(;r8T/e5#(;r8%e5#&;r8PP2#(;r9T/TG#(;r9%TG',
+  '#(;r9T/e5#(;r9%e5#&;r9PP2#(;r8r9_5#);nNQ0QBT/#);nNQ0QB%#(;nNQ0PP2#(;nNQBPP2#*;nNQ0QB_5T/#*;nNQ0Q',
+  'B_5%#*;nNZGP?ZGq##(;TNi3r5#(;U>i3r5#);TNTGZB%#);TNTGZBS,#);TNTGZBT/#);TNTGZBjE#);TNTGdLi4#(;TNP0',
+  'ZB#);TNP0dLi4#(;TNP0_5#*;TNP0_5dLi4#&;TNX-#);TNW5ZBm!#);TNW5dLi4#(;TNW5_5#*;TNW5_5dLi4#(;TNr3%#(',
+  ';TNr3S,#(;TNr3T/#(;TNZ<%#(;TNZ<S,#(;TNZ<T/#(;TNZ<c<#(;TNdI%#(;TNdIS,#(;TNdIT/#(;TNQ5%#(;TNQ5S,#(',
+  ';TNQ5T/#(;TNf&%#(;TNf&S,#(;TNf&T/#(;TNr:%#(;TNr:S,#(;TNr:T/#(;i5d3TG#(;i5d3P0#(;i5d3_5#(;i5d4TG#',
+  '(;i5d4P0#(;i5d4_5#&;i5PP3#);i5_Gn7TG#);i5_Gn7P0#);i5_Gn7W5#(;c=m#%#(;c=m#S,#(;c=m#T/#(;c=m#jE#(;',
+  'c=m%%#(;c=m%S,#(;c=m%T/#(;c=m%jE#);c=^3m#%#);c=^3m#S,#);c=^3m#T/#);c=^3m#jE#);c=^3m%%#);c=^3m%S,',
+  '#);c=^3m%T/#);c=^3m%jE#);U>TGZB%#);U>TGZBS,#);U>TGZBT/#);U>TGZBjE#);U>TGdLi4#(;U>P0ZB#);U>P0dLi4',
+  '#(;U>P0_5#*;U>P0_5dLi4#&;U>X-#);U>W5ZBm!#);U>W5dLi4#);U>W5_5m!#*;U>W5_5dLi4#&;U>r3#(;U>Z<%#(;U>Z',
+  '<S,#(;U>Z<T/#&;U>dI#(;U>Q5%#(;U>Q5S,#(;U>Q5T/#(;U>f&%#(;U>f&S,#(;U>f&T/#(;U>r:%#(;U>r:S,#(;U>r:T',
+  '/#(;nOd4TG#(;nOd4P0#(;nOd4_5#(;nOd3TG#(;nOd3P0#(;nOd3_5#&;nOPP3#);TNZ+Z.%#);TNZ+Z.S,#);TNZ+Z.T/#',
+  ');TNZ+Z.jE#);TNZ+vN%#);TNZ+vNS,#);TNZ+vNT/#);TNZ+vNjE#*;TNZ+QQ(QH%#*;TNZ+QQ(QHS,#(;TNdM%#(;TNdMS',
+  ',#(;TNdMT/#(;TN]H%#(;TN]HS,#(;TN]HT/#);TN]H%P0#*;TN[3Z+P0%#*;TN[3Z+P0S,#*;TN[3Z+P0T/#*;TN[3Z+W5%',
+  '#*;TN[3Z+W5S,#*;TN[3Z+W5T/#);TNZ+j8ZB#);TNa5X-%#);TNa5X-S,#&;d3TG#&;d3P0#&;d3Z##&;TNPP3#*;TNZ+X!',
+  'jFb,#*;TNdMX!jFb,#*;TN]HX!jFb,#*;TN[3X!jFb,#*;d3TGX!jFb,#*;d3P0X!jFb,#*;d3_5X!jFb,#);TNZ+X!o!#);',
+  'TNdMX!o!#);TN]HX!o!#);TN[3X!o!#);d3TGX!o!#);d3P0X!o!#);d3_5X!o!#*;TN[3S2u=%#*;TN[3S2u=S,#*;TN[3S',
+  '2u=T/#*;U>Z+X!bH%#*;U>Z+X!bHT/#+;U>dMX!bH%P0#+;U>dMX!bHT/P0#+;U>dMX!bH%W5#+;U>dMX!bHT/W5#+;U>]HX',
+  '!bH%TG#+;U>]HX!bHT/TG#+;U>]HX!bH%P0#+;U>]HX!bHT/P0#*;U>[3X!bH%#*;U>[3X!bHT/#);d4TGX!bH#);d4P0X!b',
+  'H#);d4_5X!bH#*;U>Z+X!b.%#*;U>Z+X!b.T/#+;U>dMX!b.%P0#+;U>dMX!b.T/P0#,;U>dMX!b.W5%W5#,;U>dMX!b.W5T',
+  '/W5#+;U>]HX!b.%TG#+;U>]HX!b.T/TG#+;U>]HX!b.%P0#+;U>]HX!b.T/P0#*;U>[3X!b.%#*;U>[3X!b.T/#);d4TGX!b',
+  '.#);d4P0X!b.#);d4_5X!b.#(;U>Z+%#(;U>Z+S,#(;U>Z+T/#(;U>Z+jE#(;U>Z+Up,#(;U>dM%#(;U>]H%#(;U>[3z?#(;',
+  'U>[3%#(;U>[3T/#&;d4TG#&;d4P0#&;d4_5#(;U>PP3hA#*;TN_GQH%TG#*;TN_GQHS,TG#*;TN_GQH%P0#*;TN_GQHS,P0#',
+  ',;U>_GQHX!b,%TG#,;U>_GQHX!b,S,TG#,;U>_GQHX!b,T/TG#,;U>_GQHX!b,%P0#,;U>_GQHX!b,S,P0#,;U>_GQHX!b,T',
+  '/P0#*;TNdLQHjFTG#*;TNdLQHjFP0#+;U>dLQHX!b,TG#+;U>dLQHX!b,P0#);TNi3bLTG#);TNi3bLP0#+;U>i3bLX!b,TG',
+  '#+;U>i3bLX!b,P0#(;i6U@%#(;i6U@T/#&;i6Up-#&;i6Pl(#&;i6o##&;i6QQ)#&;i6QQ*#(;i6QQ*_5#);i6Up.Up/P]>#',
+  '&;i6Up0#%;]>#&;]>Up1#(;]>TNZB#(;]>TNUp2#(;]>U>ZB#(;]>TNZ+#(;]>U>Z+#(;]>m!QH#+;Q:}IpJgIa9PP4#,;Q:',
+  '}IpJgIQ0T&QB#-;Q:}IpJgIQ0T&QBPP4#(;o%ZBQ0#(;o%ZBY@#(;o%ZBQB#);PP5o%Y@QB#);PP5o%QBY@#);PP5o%Q0Y@#',
+  ');PP5o%Y@Q0#&;P]MY@#&;P]Mr5#&;P]Mo&#&;^;S(#&;^;Up3#&;^;Y1#(;hFQQ+TG#(;hFQQ+e5#(;^;Q>S(#(;^;f8S(#',
+  '(;^;Q>Y1#(;^;Up4m!#&;hFUp5#&;P]NQ0#&;P]NQB#&;P]NQQ,#&;vOZB#(;vOZBP0#(;vOZB_5#&;PP6ZB#(;PP6ZBP0#(',
+  ';PP6ZB_5#&;vOa5#&;PP6a5#&;vOPlK#&;r;Up6#&;r;Y@#&;r;QQ-#(;o#r;R/#(;o#r;PJ#(;o#r;R+#%;QQ.#&;gIY@#&',
+  ';gIr5#&;gIP]O#&;gIUp7#(;qCQQ/b8#(;qCUp8VK#);qCUp9%QQ0#);qCUp:%QQ0#&;P]=Up;#&;P]=Up<#(;X@Y1Y@#(;X',
+  '@Y1a9#(;X@Y1r5#&;X@u-#(;X@u-o&#(;X@u-S(#&;X@{&#(;X@{&o&#(;X@{&S(#(;X@S(QH#(;X@S(a9#(;X@S(o&#(;X@',
+  'S(uC#);X@S(uCo&#);X@S(uCQQ1#(;X@S(j/#);X@S(j/o&#);X@S(j/QQ1#&;X@r<#(;X@r<a9#(;X@r<o&#&;X@o##(;X@',
+  'o#a9#(;X@o#QQ-#(;m&Up=|4#);|:Q;R4QC#);|:QCR4Q;#&;X@pN#(;X@P]OTG#(;X@P]OP0#);bJQQ2b8Up>#(;bJUp?m&',
+  '#);bJa*^3m&#*;bJa*QQ#aAX@#);bJaAX@QQ)#);bJUp@UpAUpB#);bJVDQQ2b8#);bJVDaAX@#%;o(#&;o(m!#(;o(V5bJ#',
+  ');o(V5bJm!#(;o(V5m&#);o(V5m&m!#(;o(UpCm&#&;TNQQ3#&;U>QQ3#%;QQ4#%;n##%;UpD#(;w!p&UpE#(;w!p&UpF#);',
+  'UpGw!p&QQ5#);UpHw!p&QQ5#);w!PP4ZEUpI#(;QQ6ZBUpJ#(;QQ6a5r3#&;UpKUpL#+;QCPn>PP4ZEp&UpM#&;m(UpN#&;m',
+  '(UpO#&;m(Uq!#&;m(Uq##&;m(Uq%#&;m(Uq&#&;m(Uq(#&;m(Uq)#%;i3#&;Uq*_6#&;Uq+_6#&;l/Uq,#&;l/g=#&;l/Uq-',
+  '#(;l/]>QQ4#&;l/Uq.#(;l/Uq/Uq0#%;W.#&;X,UE#%;eL#%;[/#%;Y!4&;b/QQ7#&;b/QQ8#&;b/QQ9#&;b/QQ:#&;b/QQ;',
+  '%&;c<QQ7#&;c<QQ8#&;c<QQ9#&;c<QQ:#&;c<QQ;#&;c<Uq1#&;c<Uq2#&;c<Uq3#&;c<Uq4#&;c<Uq5#&;c<Uq6#&;c<Uq7',
+  '#&;c<Uq8#&;c<Uq9#&;c<Uq:j)++%!PQ9[@&Uq;#*+%!TC?S9#*+!%)RCS9#)+%!TCS>#++!%)Q@&g)#++%!w@&Y:Q!#++%!',
+  'RCT-&g)#)+%!TCeO#/+%!RCQ2&RMa->Y:Q!#-+%!S;&Q!>Y:Q!#++!Y:g(&Y:Q!#++%!a;&P0QG#-+%!a;&P0QG>_8#++%!R',
+  'CS;&_8#++!VAZHUE&_8#*+!^?T?&_8#*+!%)RCS>#*+%!Q@&k!#,+%!wA[@&]-Q!#-+%!Q@&g)>]-Q!#++%!eO&]-Q!#,+%!',
+  'RCQ2&]-Q!#-+%!Q2&k!>]-Q!#,+%!wC[@&]-Q!#++%!f!&]-Q!#,+%!wA[@&Y:Q!#-+%!P7&PD>Y:Q!#++%!P2&Y:Q!#,+%!',
+  'wC[@&Y:Q!#++%!T?&Y:Q!#*+%!Q3&_8T*(FR2!PWE#(FR2!PWF#(FR2!PWG#(FR2!PWH#(FR2!PWI#(FR2!PWJ#(FR2!PWK%',
+  '(FR2!PWL#(FR2!q-#)FR2!Q&q-#(FR2!P7#(FR2!PWM#(FR2!PWN#(FR2!PWO#(FR2!uE#(FR2!PX!#(FR2!PX##(FR2!PX%',
+  '#(FR2!PX&#(FR2!PX(#(FR2!PX)#(FR2!PX*#(FR2!PX+#(FR2!PX,&(FR2!PX-#(FR2!mK#(FR2!uF#(FR2!UF#(FR2!g,#',
+  '(FR2!{E#(FR2!PX.%(FR2!YK#)FR2!%[A%(FR2![7#*FR2!q.%[A#)FR2!cD[A#*FR2!q.cD[A#(FR2!m4SJ)V.V/Q)!RK#)',
+  'V.V/Q)!]!#)V.V/Q)!Uq<#)V.V/Q)!S+#)V.V/Q)!R&#)V.V/Q)!S##)V.V/Q)!cM#)V.V/Q)!Uq=#)V.V/Q)!UL#)V.V/Q)',
+  '!RO#)V.V/Q)!S0#)V.V/Q)!X6#)V.V/Q)!Uq>#)V.V/Q)!Uq?#)V.V/Q)!Q*#)V.V/Q)!S6#)V.V/Q)!VE#)V.V/Q)!PUH#)',
+  'V.V/Q)!WJ#)V.V/Q)!Uq@#)V.V/Q)!UqA#)V.V/Q)!YF#)V.V/Q)!R>#)V.V/Q)!a.#)V.V/Q)!S)#)V.V/Q)!UqB#)V.V/Q',
+  ')!R:#)V.V/Q)!PmC#)V.V/Q)!UqC#)V.V/Q)!yO#)V.V/Q)!UqD#)V.V/Q)!RH#)V.V/Q)!PiG#)V.V/Q)!x9#)V.V/Q)!S=',
+  '#)V.V/Q)!a/#)V.V/Q)!:#)V.V/Q)!T8#)V.V/Q)!P7#)V.V/Q)!P+#)V.V/Q)!P2#)V.V/Q)!XE#)V.V/Q)!P5#)V.V/Q)!',
+  'Y=#)V.V/Q)!U+((V.V/Q)UqE#(V.V/Q)UqF#(V.V/Q)UqG#(V.V/Q)UqH#(V.V/Q)UqI#(V.V/Q)UqJ#(V.V/Q)UqK#*V.V/',
+  'Q)#P!_F#*V.V/Q)#P!UqL#*V.V/Q)#P!l/#*V.V/Q)#P!UqM#*V.V/Q)#P!UqN#*V.V/Q)#P]!P]!#)V.V/Q)(|C&)V.V/Q)',
+  '4T,#)V.V/Q)4P.#)V.V/Q)4P3#)V.V/Q)4P=#)V.V/Q)4PI#)V.V/Q)4Q%#)V.V/Q)4QE#)V.V/Q)4R!#)V.V/Q)4QD#)V.V',
+  '/Q)4R*))V.V/Q)l8UqO#)V.V/Q)P*ULV1&[L!R:#&[L!T.#&[L!S+#&[L!S6#&[L!Q*#&[L!S=#&[L!RK#&[L!S##&[L!UA#',
+  '&[L!S0#&[L!VB#&[L!S)#&[L!UM#&[L!UG#&[L!R&#&[L!R>#&[L!RO#&[L!P7#([L!w#P7#&[L!uN#([L!w#uN#&[L!P+#&',
+  '[L!P5#([L!w#P5#&[L!t)#([L!w#t)#&[L!P2#&[L![1#([L!w#[1#&[L!:#([L#cHR,6&W:!T8#&W:!:#&W:!T.#&W:!UL#',
+  '&W:!S6#&W:!S=#&W:!S)#&W:!WI#&W:!RO#&W:!S##&W:!R:#&W:!S+#&W:!W0#&W:!YF#&W:!S0#&W:!UF#&W:!UG#&W:!X',
+  '6#&W:!UM#&W:!WJ#&W:!Q*#&W:!P2#&W:!UB#&W:!R>#&W:!RK#&W:!VF#&W:!R&#&W:!P5#&W:!P7#&W:!UA#&W:!P+#&W:',
+  '!Ur!#&W:!]!#&W:!PUF#&W:!PnF#&W:!Ur##&W:!e/#&W:!PU6#&W:!V5#&W:!WB#&W:!Pv@#&W:!VE#&W:!Ur%#&W:!Ur&#',
+  '&W:R,Pp&#&W:R,Ur(#&W:R,PZC#&W:R,Ur)#&W:4T,#&W:4P.#&W:4P3#&W:4P=#&W:4PI#&W:4Q%#&W:4QE#&W:4R!#&W:4',
+  'QD#&W:4R**&W:Ur*#m5&I(Ur+#&I(Ur,#&I(Ur-#&I(Ur.#&I(Ur/#&I(Ur0#&I(Ur1%(I(b7PeI#&I(Ur2#&I(Ur3#&I(Ur',
+  '4%(I(b7yM#(I(b7Pf<%(I(b7PeL#(I(b7PeM#(I(b7PeN#(I(b7Pf=#(I(b7Pf>#(I(b7yA#(I(b7Pf)#(I(b7yC#(I(b7Pf',
+  '2#(I(b7Pf3#(I(b7Pf4#(I(b7Pf?#(I(b7Pf@#(I(b7yN#(I(b7PfA%)PNPO(Pz-_##)PNPO(Pz.Q*#)PNPO(Pz/_B#)PNPO',
+  '(Ur5PT1#)PNPO(Ur6a%#)PNPO(Ur7t9#)PNPO(Ur8^B#)PNPO(Ur9Ur:#)PNPO(Pz0_D#)PNPO(Pz1UM#)PNPO(Pz2g8#)PN',
+  'PO(Ur;yD#)PNPO(Ur<^.#)PNPO(Ur=t4#)PNPO(Ur>_!#)PNPO(Ur?Ur@#)PNPO(UrAP|7#)PNPO(UrBUrC#)PNPO(UrDUrE',
+  '#)PNPO(UrFUrG#)PNPO(Pz3}<#)PNPO(Pz4_C#)PNPO(Pz5UrH#)PNPO(UrIg-#)PNPO(UrJe2#)PNPO(UrKPh@#)PNPO(Ur',
+  'LUrM#)PNPO(Pz6aD#)PNPO(Pz7T.#)PNPO(Pz8^1#)PNPO(UrNp3#)PNPO(UrOcB#)PNPO(Us!Pq5#)PNPO(Us#f0#)PNPO(',
+  'Pz9P7#)PNPO(Pz::#)PNPO(Pz;P+#)PNPO(Us%Y=#)PNPO(Us&P5#)PNPO(Us(XE#)PNPO(Us)P2#)PNPO(Us*iE#)PNPO(U',
+  's+VK#)PNPO(Us,VK#)PNPO(Us-Z9#)PNPO(Us.WB#)PNPO(Pz?^J#)PNPO(Pz@S0#)PNPO(PzA_A#)PNPO(Us/mF#)PNPO(U',
+  's0_E#)PNPO(Us1t;#)PNPO(Us2]F#)PNPO(Us3Us4#)PNPO(PzEVG#)PNPO(PzFRO#)PNPO(PzG^0#)PNPO(Us5y8#)PNPO(',
+  'Us6X=#)PNPO(Us7p;#)PNPO(Us8a##*PNPO(Us9RMX=#)PNPO(Pz<aF#)PNPO(Pz=S6#)PNPO(Pz>aE#)PNPO(Us:p7#)PNP',
+  'O(Us;Pq9#)PNPO(Us<a0#)PNPO(PzBaC#)PNPO(PzCS+#)PNPO(PzD^D#)PNPO(Us=p4#)PNPO(Us>Z7#)PNPO(Us?p:#)PN',
+  'PO(Us@P?#)PNPO(PzHkC#)PNPO(PzIUG#)PNPO(PzJmI#)PNPO(UsAp8#)PNPO(UsBf(#)PNPO(UsCPq<#)PNPO(UsDg:#*P',
+  'NPO(UsERMg:#)PNPO(PzK-#)PNPO(PzLS)#)PNPO(PzMYK#)PNPO(UsFp6#)PNPO(UsGc1#)PNPO(UsHz%#)PNPO(UsI[7#)',
+  'PNPO(PzNg4#)PNPO(PzOYF#)PNPO(P{!j!#)PNPO(UsJmL#)PNPO(UsKf,#)PNPO(UsLPU,#)PNPO(UsMe.#)PNPO(UsNUsO',
+  '#)PNPO(Ut!PcL#)PNPO(P{#P[A#)PNPO(P{%Ut##)PNPO(P{&W8#)PNPO(Ut%PS)#)PNPO(Ut&Ut(#)PNPO(Ut)Z;#)PNPO(',
+  'P{)R&#)PNPO(Ut*dE#)PNPO(P{(y7#)PNPO(Ut+YE#)PNPO(P{*t<#)PNPO(Ut,]I#)PNPO(Ut-Ut.#)PNPO(Ut/Ut0#)PNP',
+  'O(Ut1Pq.#)PNPO(Ut2Pq2#)PNPO(Ut3Pq>#)PNPO(Ut4PqE#)PNPO(Ut5PY6#)PNPO(Ut6Ut7#)PNPO(Ut8Pq1#)PNPO(P{+',
+  'v(#)PNPO(Ut9PZ,#)PNPO(Ut:Pq-#)PNPO(Ut;PZ/#)PNPO(Ut<PZ)#)PNPO(Ut=PZ.#)PNPO(Ut>Ut?#)PNPO(Ut@UtA#*P',
+  'NPO(UtBRMPZ/#*PNPO(UtCRMPZ)#*PNPO(UtDRMPZ.#)PNPO(UtE^C#)PNPO(UtFS=#)PNPO(UtGbB#)PNPO(UtHt1#)PNPO',
+  '(UtIUtJ#)PNPO(UtKUtL#)PNPO(UtMPqD#)PNPO(UtNPq@#)PNPO(UtOUu!#)PNPO(Uu#X.#)PNPO(Uu%R:#)PNPO(Uu&e3#',
+  ')PNPO(Uu(j##)PNPO(Uu)XK#)PNPO(Uu*t6#)PNPO(Uu+b&#)PNPO(Uu,PZ&#)PNPO(Uu-tH#)PNPO(Uu.PZ*#)PNPO(Uu/|',
+  '>#)PNPO(Uu0|>#)PNPO(Uu1|A#)PNPO(Uu2PZ(#)PNPO(Uu3PZ-#)PNPO(Uu4Uu5#*PNPO(Uu6RM|A#*PNPO(Uu7RMPZ(#*P',
+  'NPO(Uu8RMPZ-#)PNPO(Uu9Pq/#)PNPO(Uu:v%#)PNPO(Uu;Pq?#)PNPO(P{,Pq+#)PNPO(Uu<PqF#)PNPO(Uu=Pq6#)PNPO(',
+  'Uu>|?#)PNPO(Uu?Pq0#)PNPO(Uu@PR7#)PNPO(UuAPZ+#)PNPO(UuBPq,#)PNPO(UuC|B#)PNPO(UuDPq7#)PNPO(UuEPqB#',
+  ')PNPO(UuFR>#)PNPO(UuGPYF#)PNPO(UuHpA#)PNPO(UuI|9#)PNPO(UuJPZ%#)PNPO(UuK|8#)PNPO(UuLPq:#)PNPO(UuM',
+  'PYH#)PNPO(UuNPq4#)PNPO(UuOPYO#)PNPO(Uv!v&#)PNPO(Uv#Pq=#)PNPO(Uv%iN#)PNPO(Uv&WJ#)PNPO(Uv(mG#)PNPO',
+  '(Uv)kB#)PNPO(Uv*b=#)PNPO(Uv+Pq8#)PNPO(Uv,h0#)PNPO(Uv-Uv.#)PNPO(Uv/Uv0#)PNPO(Uv1Uv2#)PNPO(Uv3Uv4#',
+  ')PNPO(Uv5Uv6&(PNPO4P.#(PNPO4P3#(PNPO4P=#(PNPO4PI#(PNPO4Q%#(PNPO4QE#(PNPO4R!#(PNPO4QD#(PNPO4R*#)P',
+  'NPOFDUv7#)PNPOFDgL#)PNPOFDP[+#)PNPOFDk,#*PNPOFDU!k,#*PNPOFDR-k,#)PNPOFDm5N(T>)!P^!#(T>)!QQ<#(T>)',
+  '!P[M#(T>)!QQ=#(T>)!T.#(T>)!QQ>#(T>)!XK#(T>)!|@#(T>)!R>#(T>)!P5#(T>)!YF#(T>)!P7#(T>)!P2#(T>)!XF#(',
+  'T>)!QQ?#(T>)!Y<#(T>)!W8#(T>)!X7#(T>)!S)#(T>)!P+#(T>)!QQ@#(T>)!^-#(T>)!R&#(T>)!P[!#(T>)!S=#(T>)!V',
+  'E#(T>)!^D#(T>)!q@#(T>)!WJ#(T>)!VF#(T>)!|B#(T>)!z8#(T>)!|?#(T>)!UF#(T>%!P^!#(T>%!QQ<#(T>%!P[M#(T>',
+  '%!QQ=#(T>%!T.#(T>%!QQ>#(T>%!XK#(T>%!|@#(T>%!R>#(T>%!P5#(T>%!YF#(T>%!P7#(T>%!P2#(T>%!XF#(T>%!QQ?#',
+  '(T>%!Y<#(T>%!W8#(T>%!X7#(T>%!S)#(T>%!P+#(T>%!QQ@#(T>%!^-#(T>%!R&#(T>%!P[!#(T>%!S=#(T>%!VE#(T>%!^',
+  'D#(T>%!q@#(T>%!WJ#(T>%!VF#(T>%!|B#(T>%!z8#(T>%!|?#(T>%!UF#&T>P^!|C#&T>6|C#&T>s?P%#%T>U/#&T>T<P:#',
+  '(T>Uv8T<P:#%T>^A#&T>PR:P%)&T>4T,#&T>4P.#&T>4P3#&T>4P=#&T>4PI#&T>4Q%#&T>4QE#&T>4R!#&T>4QD#&T>4R*)',
+  '(T>Q&^+P%#(T>Q&]+P%bJ(U<R7DP.#(U<R7DP3#(U<R7DP=#(U<R7DPI#(U<R7DQ%#(U<R7DQE#(U<R7DR!#(U<R7DQD#(U<',
+  'R7DR*#(U<R7DU!#(U<R7DX>#(U<R7D]%#(U<R7D]L#(U<R7DZN#(U<R7DbC#(U<R7D[+#(U<R7DcN#(U<R7DZ5#)U<R7DP.R',
+  '-#)U<R7DP3R-#)U<R7DP=R-#)U<R7DPIR-#)U<R7DQ%R-#)U<R7DQER-#)U<R7DR!R-#)U<R7DQDR-#)U<R7DR*R-#)U<R7D',
+  'P.RN#)U<R7DP3RN#)U<R7DP=RN#)U<R7DPIRN#)U<R7DQ%RN#)U<R7DQERN#)U<R7DR!RN#)U<R7DQDRN#)U<R7DR*RN#)U<',
+  'R7DU!RN#)U<R7DX>RN#)U<R7D]%RN#)U<R7D]LRN#)U<R7DZNRN#)U<R7DbCRN#)U<R7D[+RN#)U<R7DcNRN#)U<R7DZ5RN#',
+  '(U<R7DP^##(U<R7DUv9#(U<R7P^#P%#(U<R7DUv:#(U<R7DUv;#)U<R7Di*P.#)U<R7Di*P3#)U<R7Di*P=#)U<R7Di*PI#)',
+  'U<R7Di*Q%#)U<R7Di*QE#)U<R7Di*R!#)U<R7Di*QD#)U<R7Di*R*#&U<R7PZ?#)U<R7SFP.Z.#)U<R7SFP.Q>#)U<R7SFP=',
+  'c?#(U<R7k4P%#)U<R7DZ#P.#)U<R7DZ#P3#*U<R7DZ#U!RN#)U<R7Z#P^#P%PE(W1R7DP.#(W1R7DP3#(W1R7DP=#(W1R7DP',
+  'I#(W1R7DQ%#(W1R7DQE#(W1R7DR!#(W1R7DQD#(W1R7DR*#(W1R7DU!#(W1R7DX>#(W1R7D]%#(W1R7D]L#(W1R7DZN#(W1R',
+  '7DbC#(W1R7D[+#(W1R7DcN#(W1R7DZ5#)W1R7DP.R-#)W1R7DP3R-#)W1R7DP=R-#)W1R7DPIR-#)W1R7DQ%R-#)W1R7DQER',
+  '-#)W1R7DR!R-#)W1R7DQDR-#)W1R7DR*R-#)W1R7DP.RN#)W1R7DP3RN#)W1R7DP=RN#)W1R7DPIRN#)W1R7DQ%RN#)W1R7D',
+  'QERN#)W1R7DR!RN#)W1R7DQDRN#)W1R7DR*RN#)W1R7DU!RN#)W1R7DX>RN#)W1R7D]%RN#)W1R7D]LRN#)W1R7DZNRN#)W1',
+  'R7DbCRN#)W1R7D[+RN#)W1R7DcNRN#)W1R7DZ5RN#&W1R7Uv<#)W1R7Z#DP3#)W1R7Z#DP=#)W1R7Z#DPI#)W1R7Z#DQ%#)W',
+  '1R7Z#DQE#)W1R7Z#DR!#)W1R7Z#DQD#)W1R7Z#DR*#)W1R7Z#DU!#*W1R7Z#DPIR-#*W1R7Z#DQER-#*W1R7Z#DP3RN#*W1R',
+  '7Z#DU!RN#)W1R7SFP.Q>#)W1R7SFP.PV6S7&,1QF#&,1Y+#&,1S:#&,1a@%&,1Y<#&,1c+#&,1RH#&,1YM#&,1Q,#&,1X7#&',
+  ',1UH#&,1Q(#&,1V;#&,1X1#&,1Y,#&,1Z2#&,1[)#&,1ZC#&,1Z1#&,1Y2#&,1X##&,1^O#&,1V:#&,1k0#&,1[5#&,1d<#&',
+  ',1^/#(,1_LY+#(,1_LV;#(,1_LZ2#(,1_LZC%(,1Q&Y+#(,1Q&S:%(,1Q&X<&(,1Q&RH%(,1Q&Q,#(,1Q&X7#(,1Q&UH#(,1',
+  'Q&Q(#(,1Q&V;#(,1Q&X1#(,1Q&Y,#(,1Q&Z2#(,1Q&[)#(,1Q&ZC%(,1Q&Y2#(,1Q&X##(,1Q&^O#(,1Q&V:%(,1Q&[5%(,1',
+  'Q&^/+(,1c7S:)(,1c7RH%(,1c7Q,%(,1c7UH%(,1c7V;#(,1c7X1#(,1c7Y,%(,1c7[)#(,1c7ZC%(,1c7Y2&(,1c7V:%(,1',
+  'c7[5%(,1c7^/%),1c7_LV;%),1c7_LZC%(,1^?Y+#(,1^?S:%(,1^?X<&(,1^?RH#(,1^?YM#(,1^?Q,#(,1^?X7%(,1^?Q(',
+  '#(,1^?V;#(,1^?X1#(,1^?Y,#(,1^?Z2#(,1^?[)#(,1^?ZC%(,1^?Y2#(,1^?X##(,1^?^O#(,1^?V:%(,1^?[5#(,1^?d<',
+  '#(,1^?^/#),1^?_LY+%),1^?_LZ2%(,1^*QF#(,1^*Y+#(,1^*S:#(,1^*a@#(,1^*X<#(,1^*Y<#(,1^*c+#(,1^*RH#(,1',
+  '^*YM#(,1^*Q,%(,1^*UH#(,1^*Q(#(,1^*V;#(,1^*X1#(,1^*Y,#(,1^*Z2#(,1^*[)#(,1^*ZC#(,1^*Z1#(,1^*Y2#(,1',
+  '^*X##(,1^*^O#(,1^*V:#(,1^*k0#(,1^*[5#(,1^*d<#(,1^*^/*(,1SKY+#(,1SKS:#(,1SKa@%(,1SKY<#(,1SKc+#(,1',
+  'SKRH#(,1SKYM#(,1SKQ,%(,1SKUH#(,1SKQ(#(,1SKV;#(,1SKX1#(,1SKY,#(,1SKZ2#(,1SK[)#(,1SKZC#(,1SKZ1#(,1',
+  'SKY2#(,1SKX##(,1SK^O#(,1SKV:#(,1SKk0#(,1SK[5#(,1SKd<#(,1SK^/P-,,1XNQ(&RH&oF#*,1XNRH&a@U+(Y5QMW#g',
+  'E#(Y5QMT=gE#(Y5QMWKgE#(Y5QMS4gE#(Y5QMaHl5#(Y5QMm)l5#(Y5QMP<l5#)Y5QMP.PEjG#)Y5QMP3PEjG#)Y5QMP=PEj',
+  'G#)Y5QMPIPEjG#)Y5QMQ%PEjG#)Y5QMQEPEjG#)Y5QMR!PEjG#)Y5QMQDPEjG#)Y5QMR*PEjG#)Y5QMP.PEjH#)Y5QMP3PEj',
+  'H#)Y5QMP=PEjH#)Y5QMPIPEjH#)Y5QMQ%PEjH#)Y5QMQEPEjH#)Y5QMR!PEjH#)Y5QMQDPEjH#)Y5QMR*PEjH#)Y5QMP.PEb',
+  'L#)Y5QMP3PEbL#)Y5QMP=PEbL#)Y5QMPIPEbL#)Y5QMQ%PEbL#)Y5QMQEPEbL#)Y5QMR!PEbL#)Y5QMQDPEbL#)Y5QMR*PEb',
+  'L#&Y5QMUv=#&Y5QMUv>#&Y5QMPXF#&Y5QMUv?#&Y5QMUv@#&Y5QMUvA#&Y5QMUvB#&Y5QMUvC#&Y5QMPP7#&Y5QMfE)(S@QM',
+  'RFfE#&S@QMUvD#&S@QMUvE#&S@QMUvF#&S@QMUvG#&S@QMUvH#&S@QMUvI#&S@QMUvJ#&S@QMUvK#&S@QMUvL#&S@QMUvM#&',
+  'S@QMUvN#&S@QMUvO#&S@QMUw!#&S@QMUw##&S@QMUw%#&S@QMUw&#&S@QMUw(#&S@QMUw)#&S@QMUw*#&S@QMUw+#&S@QMUw',
+  ',#&S@QMUw-#&S@QMUw.#&S@QMUw/#&S@QMUw0#&S@QMUw1#&S@QMUw2#&S@QMUw3#&S@QMUw4#&S@QMUw5#&S@QMUw6#&S@Q',
+  'MUw7#&S@QMUw8#&S@QMUw9#&S@QMUw:#&S@QMUw;#&S@QMUw<#&S@QMUw=#&S@QMUw>#&S@QMUw?#&S@QMUw@#&S@QMUwA#&',
+  'S@QMUwB#&S@QMUwC#&S@QMUwD#&S@QMUwE#&S@QMUwF#&S@QMUwG#&S@QMUwH#(S@QMPLfE#&S@QMUwI#&S@QMUwJ#&S@QMU',
+  'wK#&S@QMUwL#&S@QMUwM#&S@QMUwN#&S@QMUwO#&S@QMUx!#&S@QMUx##&S@QMUx%#&S@QMUx&#&S@QMUx(#&S@QMUx)#&S@',
+  'QMUx*#&S@QMUx+#&S@QMUx,#&S@QMUx-#&S@QMUx.#&S@QMUx/#&S@QMUx0#&S@QMUx1#&S@QMUx2#&S@QMUx3#&S@QMUx4#',
+  '&S@QMUx5#&S@QMUx6#&S@QMUx7#&S@QMUx8#&S@QMUx9#&S@QMUx:#&S@QMUx;#&S@QMUx<#&S@QMUx=#&S@QMUx>#&S@QMU',
+  'x?#&S@QMUx@#&S@QMUxA#&S@QMUxB#&S@QMUxC#&S@QMUxD#&S@QMUxE#&S@QMUxF#&S@QMUxG#&S@QMUxH#&S@QMUxI#&S@',
+  'QMUxJ#&S@QMUxK#&S@QMUxL#&S@QMUxM1&U&TBfE#)U&TBPP8PEdN#)U&TBP3PEdN#)U&TBP=PEdN#)U&TBPIPEdN#)U&TBQ',
+  '%PEdN#)U&TBQEPEdN#)U&TBR!PEdN#)U&TBQDPEdN#)U&TBR*PEdN#)U&TBU!PEdN#)U&TBPP9PEdN#)U&TB]BPEdN#)U&TB',
+  'c6PEdN#)U&TBb0PEdN&)U&TBPP8PEc!#)U&TBP3PEc!#)U&TBP=PEc!#)U&TBPIPEc!#)U&TBQ%PEc!#)U&TBQEPEc!#)U&T',
+  'BR!PEc!#)U&TBQDPEc!#)U&TBR*PEc!#)U&TBU!PEc!#)U&TBPP9PEc!#)U&TB]BPEc!#)U&TBc6PEc!#)U&TBb0PEc!#(U&',
+  'TBaHPP7%)U&TBPP8PEdO#)U&TBP3PEdO#)U&TBP=PEdO#)U&TBPIPEdO#)U&TBQ%PEdO#)U&TBQEPEdO#)U&TBR!PEdO#)U&',
+  'TBQDPEdO#)U&TBR*PEdO#)U&TBU!PEdO#)U&TBPP9PEdO#)U&TB]BPEdO#)U&TBc6PEdO#)U&TBb0PEdO#(U&TBP4PP7%)U&',
+  'TBPP8PEe!#)U&TBP3PEe!#)U&TBP=PEe!#)U&TBPIPEe!#)U&TBQ%PEe!#)U&TBQEPEe!#)U&TBR!PEe!#)U&TBQDPEe!#)U',
+  '&TBR*PEe!#)U&TBU!PEe!#)U&TBPP9PEe!#)U&TB]BPEe!#)U&TBc6PEe!#)U&TBb0PEe!#(U&TBP<PP7#&U&TBUxN#&U&TB',
+  'UxO#&U&TBUy!#&U&TBUy##&U&TBUy%#&U&TBUy&#&U&TBUy(#&U&TBUy)#&U&TBUy*#&U&TBUy+#&U&TBUy,#&U&TBUy-#&U',
+  '&TBUy.#&U&TBUy/#&U&TBUy0#&U&TBUy1#&U&TBUy2#&U&TBUy3#&U&TBUy4#&U&TBUy5#&U&TBUy6#&U&TBUy7/(4T,X,UE',
+  '#&4T,W.#&4P.W.#&4P3W.#&4P=W.#&4PIW.#&4Q%W.#&4QEW.#&4R!W.#&4QDW.#&4R*W.#)[:P*P,4T,#*[:SAP*P,4T,#(',
+  'P*T,&c2#&P*a)B#*P*m/#&PY.n(#)R)+)!:#)R)+)!P;#)R)+)!T?#)R)+)!SJ#)R)+)!P5#)R)+)!V!#)R)+)!S9#)R)+)!',
+  'SB#)R)+)!P7#)R)+)!U3#)R)+)!S>#)R)+)!Q@#)R)+)!S&#)R)+)!R<#)R)+)!P2#)R)+)!TE#)R)+)!W4#)R)+)!Q2#)R)',
+  '+)!Q3#)R)+)!S;#)R)+)!P+#)R)+)!SC#)R)+)!U+#)R)+)!TF#)R)+)!T-#)R)+)!T%#+^6[8i7+)!Q3#*P*P(+)!T?#*P*',
+  'P(+)!Q2#%P*Po0#%P*Uy8#%Uy90#)Q4+)!:#)Q4+)!P;#)Q4+)!T?#)Q4+)!SJ#)Q4+)!P5#)Q4+)!V!#)Q4+)!S9#)Q4+)!',
+  'SB#)Q4+)!P7#)Q4+)!U3#)Q4+)!S>#)Q4+)!Q@#)Q4+)!S&#)Q4+)!R<#)Q4+)!P2#)Q4+)!TE#)Q4+)!W4#)Q4+)!Q2#)Q4',
+  '+)!Q3#)Q4+)!S;#)Q4+)!P+#)Q4+)!SC#)Q4+)!U+#)Q4+)!TF#)Q4+)!T-#)Q4+)!T%#%Q4w>#%Q4t3#%Q4Uy:#%Q4|O#%Q',
+  '4Uy;#%Q4QQA#*SAP*+)!:#*SAP*+)!P;#*SAP*+)!T?#*SAP*+)!SJ#*SAP*+)!P5#*SAP*+)!V!#*SAP*+)!S9#*SAP*+)!',
+  'SB#*SAP*+)!P7#*SAP*+)!U3#*SAP*+)!S>#*SAP*+)!Q@#*SAP*+)!S&#*SAP*+)!R<#*SAP*+)!P2#*SAP*+)!TE#*SAP*',
+  '+)!W4#*SAP*+)!Q2#*SAP*+)!Q3#*SAP*+)!S;#*SAP*+)!P+#*SAP*+)!SC#*SAP*+)!U+#*SAP*+)!TF#*SAP*+)!T-#*S',
+  'AP*+)!T%#&[&P|+##&[&Uy<##&[&Uy=##%P*Po/#)P*T?&PY.n(#&P*P]FkI#*SAQ4+)!:#*SAQ4+)!P;#*SAQ4+)!T?#*SA',
+  'Q4+)!SJ#*SAQ4+)!P5#*SAQ4+)!V!#*SAQ4+)!S9#*SAQ4+)!SB#*SAQ4+)!P7#*SAQ4+)!U3#*SAQ4+)!S>#*SAQ4+)!Q@#',
+  '*SAQ4+)!S&#*SAQ4+)!R<#*SAQ4+)!P2#*SAQ4+)!TE#*SAQ4+)!W4#*SAQ4+)!Q2#*SAQ4+)!Q3#*SAQ4+)!S;#*SAQ4+)!',
+  'P+#*SAQ4+)!SC#*SAQ4+)!U+#*SAQ4+)!TF#*SAQ4+)!T-#*SAQ4+)!T%#+eASAQ4+)!TE#&SAQ4P[&#&SAQ4R:#&SAQ4S0#',
+  '&SAQ4_N#&SAQ4QQA#%P&Uy>#%Q4Uy?#%Q4Uy@#%Q4t?#%Q4UyA#%Q4T;#%Q4_<#%Q4PP:#%Q4P_H#)Q4Q0&^+P%#%Q4UyB#&',
+  'Q4P=SJ#&Q4j:u!#&Q4P3S>#&Q4PIS>#&Q4QDS>#(Q4Q%]JP.#(Q4R!]JP.#(Q4PY8]JP3#&Q4bCTE#)Q4P.R-X>TE#)Q4+%!',
+  'SJ#%Q4UyC#%Q4UyD#%Q4UyE#%Q4UyF#%Q4UyG#%Q4UyH#%Q4UyI#&P^%PY(0P1)^<[00!:#)^<[00!P;#)^<[00!T?#)^<[0',
+  '0!SJ#)^<[00!P5#)^<[00!V!#)^<[00!S9#)^<[00!SB#)^<[00!P7#)^<[00!U3#)^<[00!S>#)^<[00!Q@#)^<[00!S&#)',
+  '^<[00!R<#)^<[00!P2#)^<[00!TE#)^<[00!W4#)^<[00!Q2#)^<[00!Q3#)^<[00!S;#)^<[00!P+#)^<[00!SC#)^<[00!',
+  'U+#)^<[00!TF#)^<[00!T-#)^<[00!T%#&P&T)UyJ#&Q4PFUyK#&Q4PFS02(Q4/X0UyL#(Q4/X0UyM#(Q4/X0UyN#&Q4PF_:',
+  '#(Q4/X0QQB#(Q4/X0UyO#(Q4/X0Uz!#(Q4/X0Uz##(Q4/X0Uz%#(Q4/X0Uz&#(Q4/X0Uz(#(Q4/X0Uz)#(Q4/X0Uz*#(Q4/X',
+  '0Uz+#(Q4/X0Uz,#(Q4/X0Uz-#(Q4/X0Uz.#(Q4/X0Uz/#(Q4/X0Uz0#(Q4/X0Uz1#(Q4/X0Uz2#(Q4/X0Uz3#(Q4/X0Uz4#(',
+  'Q4/X0Uz5#(Q4/X0Uz6#(Q4/X0Uz7#(Q4/X0QQC#(Q4/X0Uz8#(Q4/X0Uz9#(Q4/X0Uz:#(Q4/X0Uz;#(Q4/X0Uz<#(Q4/X0U',
+  'z=#(Q4/X0QQD#(Q4/X0Uz>#(Q4/X0Uz?#(Q4/X0Uz@#(Q4/X0UzA#(Q4/X0UzB#(Q4/X0UzC#(Q4/X0UzD#(Q4/X0UzE#(Q4',
+  '/X0UzF#(Q4/X0UzG)*^6[8i7/X0UzH#*^6[8i7/X0QQC#*^6[8i7/X0QQB#*^6[8i7/X0UzI#*^6[8i7/X0UzJ#*^6[8i7/X',
+  '0QQD#*^6[8i7/X0UzK#*^6[8i7/X0UzL#*^6[8i7/X0UzM,&P*T4UzN#&P*T4UzO3(cE0P!j!#(cE0P!^0#(cE0P!U{!#(cE',
+  '0P!cA#(cE0P!U{##(cE0P!U{%R;#U{&##U{(#%Y1u2#&|0&U{)#&QQER4U{*##QQE#&QQF]GU{+#&U{,R4QQG##U{-#&o6]G',
+  '|0#%dJ[3##U{.#%U{/tA#&c4PP;U{0#&c4PP;U{1#&c4PP;U{2#&PP;&U{3#&T;]30#(QQHpO]30#(j)Z.]30#(QQHQQI]30',
+  '#&X,]30#(QQJQQI]30#(PW!Z.]30#(QQJpO]30#%pO]3#(T;]3&Q:#)j)Z.]3&Q:#)PW!Z.]3&Q:#(X,]3&Q:#&c5&Q:#%U{',
+  '4W6#%U{5W6##QQK#%P4QQL#%P<c5#)P<c5&%hG#(P<c5PW+hG#*P<c5PW+hG&n+#&hG&n+#&hG&PW*#&hG&u3#&hG&U{6##U',
+  '{7#&gEQQ/Q:#%u4q3##U{8##U{9##U{:##U{;#%U{<hN#%U{=hN#%q1hN##U{>#%u4QQM##U{?#%U{@QQN##U{A##U{B##U{',
+  'C##QQN#&n!PEU{D#&n!PEq7##U{E#&PI_IU{F#%U{G_I#%U{H_I#(_IQQ,VKgE##U{I##U{J##U{K##U{L##Pn4##U{M##U{',
+  'N##U{O##U|!##U|##%aHQQO#%m)QQO##U|%##U|&##U|(##U|)##U|*#&Pn3PEU|+#&{OV5|&#%U|,a-#%q7U|-#%q7fA#%U',
+  '|.q7#&U|/>q7#%U|0P^&##U|1##QR!#%Pj:U|2#&U|3Pn5QR###U|4##U|5##U|6#%U|7QR%#)hKP^(&v6U|8#&d6l-QR&#%',
+  'U|9l-#%l-QR&##U|:##QR(#%U|;QG##U|<##U|=##U|>#%U|?|7##U|@#%U|AQ5#&|7PEPP<##U|B#&{,>q2#&U|Cu7Ps##(',
+  'U|DPP=>u+#%|,r=#%U|Er=#%QR)QR*#%QR+}=#&QR,QR+U|F#%r>PP=#){,>q2&U|G#(PP=&U|HU|I##U|J##gH#%U|KU|L#',
+  '%U|MP^(##U|N#%P^)hN#%Pn2P^)##U|O#%U}!U}###P^*#%P^+U}%#%U}&fA#%U}(hN#%eAU})#%U}*QR-#%l.QR.#%U}+U}',
+  ',#%gEU}-#&]3U}.U}/#%PY4U}0#%U}1zL#*](&a*V5Y4O#&QR/PEU}2#%P^,w%#%U}3gH#(Ju/&U}4#%U}5QR0#%PnBU}6#%',
+  'eKU}7#({3Pk:Ju6#({3PR9Ju6#%QR1U}8#%U}9U}:#%U};j;#%U}<{0#%QR2U}=#(U}>u>>hK##QR0#%U}?PP>##U}@##U}A',
+  '#%U}BU}C#%XLn2#%U}DPW0##U}E#%U}Fw&#%U}GQR3#%QR4QR5#%PVEPp7#%U}HP^-##U}I#%QR5l*##U}J#&tOU&U}K#%J]',
+  'O#&e5Ju6##U}L##U}M#%Ju/##U}N##U}O#%JVP!#(P^.VP#&VP%#(QR6QR7>fA#(QR8>QR8QR9#&VP&>VP(#%VP)f@##VP*#',
+  '#VP+##VP,#%VP-w%##VP.#%j;P^/#%VP/QR:#%VP0QR:##VP1#%qAVP2##VP3#%P^/VP4#%P^/l,#(QR;PYA>fA##VP5#)Pn',
+  '6QR<m*>fA#)l-QR<m*>VP6#)PX>QR6VP7>fA#&PW*VP8l)##VP9#&VP:&u2#%w(P^0#%pIQQG##QQF#&VP;pIw(#%VP<w(##',
+  'QR=#%QR=VP=#%Pj8VP>##VP?#%pIw(#&pI&VP@#%P^1w(#&l.P^2P^1#&QR>P^2P^1##VPA##PVI#&VPBVPCP^-##QR?#%P^',
+  '3QR?#%VPDQR@##PY4#%VPEQR@##VPF#%VPGVPH#%l.PW/#%QR>PW/#%P<QRA#%P4QRA#&P^4P<f@#&P^4P4f@##PZM#%P4PZ',
+  'M##VPI#(VPJQR7>VPK#&pM>B##VPL#(jIP:w)VPM#(jIP:w)PkD#(jIP:w)PkE#(jIP:w)PkF#(jIP:w)PkG##|-##o)##|5',
+  '#%dJVPN##uI##|###VPO##QRB##eC##l5##VQ!##QRC##VQ###z?##j;##{N##VQ%##PXH##w*##VQ&##VQ(##q3##|+##Ps',
+  '>##P^5##VQ)#%n7[8##VQ*##VQ+##VQ,#%VQ-QRD##hK#%QR)hK##VQ.##uL#%VQ/P^6#%r>P^6#&VQ0r>P^6##|(##VQ1##',
+  'VQ2##VQ3#%VQ4QRE#%VQ5QRE##VQ6#%o)Q:#%uIQ:#%|#Q:#%QRBQ:#%eCQ:#%l5Q:#%VQ7QRC#%j;Q:#%w*Q:#%q3Q:#%|+',
+  'Q:#%PXOQ:#%VQ8Q:#%VQ9Q:#%QRFQ:#%VQ:Q:#%|+gI#%PXCVQ;##VQ<##^;##hF##n!##gI##X@##bJ#)P<Q0U;m+Q8#)P<',
+  'QBU;m+Q8#)P<OU;m+Q8#)P<LU;m+Q8#&VQ=[C##&P^4[C##&PP:[C##&PP?Q0##&PP?QB##&VQ>j<##&S(j<###QRG#%PP@n',
+  '2##VQ?##VQ@##VQA##VQB##QRH##VQC##VQD#%PP@PXI##VQE##VQF##VQG#%VQHn)#%VQIn)#%VQJn)#%PP@QRI#%PP@VQK',
+  '##VQL#&VQMVKPPA#&VQNVKPPA##VQO##VR!##_C##l6##Po7#)_C>l6q9j<#(P3g-q9j<#(P3VR#q9j<#%PPBVR%#(l6&VR&',
+  'QQ.#&VR(&VR)#(_F&VR*n##)_C&VR+X.VR,#&_C&Pn.#%P^7_C#%P^7l6##r>#%P^0VR-##VR.#%l.VR/#%l.VR0##PXM#%r',
+  '>VR1#%VR2QRJ#%QRJVR3##VR4##PVM#&m.VR5_F##VR6##VR7##VR8#%VR9PZ>#%Q:VR:##VR;#%VR<u>##VR=##VR>#%r<P',
+  '%#%P^3!##RB#%VR?PY,##r<##QR/#&VR@&](##VRA#%VRB](#%o4](#%P3c!#%VRC](#%VRD](#&](&B#%l4](#%m)](#%uK',
+  '](#%P^8](#&](&gH#%QRKc!#%](QR-#*XMVRE&:P8aA#&{!QKVRF#%P^90##VRG#%P^:0#%VRH0#&VRIPPC0##QQL#%Y?0#&',
+  'VRJPEt6#%VRKVRL#%QRL0#%n3P^*#%P^;P^*#%P<tO#&R-VRM0#%QRMzO#%h&VRN#&PHm/##%PRFTB#(PPD&rJ##(PPD&m/#',
+  '#(PPD&Pj<##(PPD&w;##&QRM&VRO#+w+&S3P^<>rJ###VS!#%QRNP^=##VS###VS%#%PPEw,#%QROXB##VS&#%o0o*#&S(o0',
+  'o*#&hE&_8#&hEw-Q0##P^>#%VS(P^>#%TBQ8#(w+&S3P^<#(w+&S/P^<#%QGw+##VS)##P^?#%e)P^?##VS*#%ZBQS!#%_9Q',
+  'S!#%QS#VS+##VS,##QS%#(QS%&VS-PY!#%Y1r?#%S(r?#%m)r?#%l4r?#%r@r?##VS.#%l7VS/##VS0##VS1#%f9PPF##VS2',
+  '#%PYDP^-#%QS&QS(#&VS3VS4VS5#%VS6VS7#%VS8QS)#%VS9QS)##VS:#%VS;0#%VS<j6#)j6&S/BN#)Y1PPG&QS*f@#)Y1P',
+  'PG&[&f@#)S(PPG&[&f@#)S(PPG&QS*f@##VS=#%|.[%##QS+#%w.PPH#+w.PPH&Q+B]GO#%VS>VS?#&w.PPHVS@#&YCw.VSA',
+  '#&QS(&u.##PP>#&PP>&VSB#%QR4PP>##VSC##QS,##VSD#%QR1VSE#%VSFVSG#%VSHVSI#&VSJQ+bG#+c3Q+>Q<S(QHbG#/c',
+  '3Q+>Q<S(QHbG&P*P._,#+c3S/>S3S(QHbG#+a)S/>S3S(QHbG#&R+QS-0#&R/QS-0#(o+&x:PD##o+#)o+&P.bE[3#)o+&P=',
+  'bEP^@##QS.#%{!VSK#&a+QS/r=#&^LQS/r=#(PPI&VSLqD#(Y1PPI&j.##j.##PPI#%S(PPI##n*#(n*&x:PD##QS##%PQ+0',
+  '#%QS,rA#)fE&Q<BN#)Z*&Q<BN#-V5&^+P%&OLBN#)VSM&Q+BN#)XL&S3BN#)YCP.hCj10#%Pj@U!#*w/0P!+)P^A#*w/0P!+',
+  '%P^A#(w/0P!VSN#(w/0P!P]L#)w/0P!+P^A##gD#%{!VSO##QS0##{.#&Pp)>PXD##VT!##VT###VT%##VT&#%VT(fA#*QEZ',
+  '8W6&PJP8#(l.0P!VT)#%v5VT*#&P4P&rA#&P<P&rA#&T/aHQH#&T/l4QH#&T/r@XM#&T/l4XM#&%r@XM#&%l4XM#&bIaHS!#',
+  '&e?aHS!#(bI%aHS!#(e?%aHS!#)Q;LeBP<QH#)QCLeBP<QH#&P*X-P^B#)X-P^B&vNP6#%X-P^B#*hJOu&&P=R1#*hJLu&&P',
+  '=R1#(0P!VT+VT,#&P<+X-#&PH+X-#%VT-X-#%e,0#&PsJPEPVN##VT.##VT/##VT0#(VT1&R*VT2#&P^&PEVT3#(]NQ:P.fO',
+  '#(]NQ:P3fO#(]NQ:P=fO#(]NQ:PIfO#(]NQ:Q%fO#(]NQ:QEfO#(]NQ:R!fO#(]NQ:QDfO#(]NQ:R*fO#(]NQ:U!fO#(]NQ:',
+  'f:fO#(]NQ:d&fO#&]NQ:VT4#&]NQ:VT5#&]NQ:VT6#&]NQ:VT7#&]NQ:VT8#&]NQ:VT9#&]NQ:VT:#&]NQ:VT;#&]NQ:VT<#',
+  '&]NQ:VT=#&]NQ:VT>#&]NQ:VT?#%Lo+#*Lo+&P.bE[3#*Lo+&P=bEP^@##QS1#(QS1&bEP^@#%VT@n*##r?##VTA#%VTB]N#',
+  '(P4PVM>Pk=#%YCVTC##Pl-#)_CVKVTDj3VTE#&VTFT&VTG#%Pk7QS2##QS3#%QS3VTH##VTI#%_CVTJ#(O[Cf9PPF#(f9PPF',
+  '&hE#(L[Cf9PPF#&P<QS4f9#&P4QS4f9#)f9V5XLPEVTK#&VTLw.PPH#&fEPEj6#%QS5j6#&j6&u3#%P^Cj6#(qDR4QS5j6#%',
+  'VTMVTN#%P4P^?#&Q;O{8#(Q;OVTOqD#(Q;OPl,qD#&Q;OVU!#&Q;OVU##&OPl3[C#(RCPP:[C##)[&[C&[KQS6#*TC[&[C&[',
+  'KQS6#(TCPP?Q0##(TCPP?QB##&TCPl2[C#*TC[C&PJi3_=#-[&[C&PW@^3PJ>RB[K#*P<QBU;O[CQ8#)aBP<OU;Q8#)aBP<L',
+  'U;Q8#)aBP4OU;Q8#)aBP4LU;Q8#)P4OU;m+Q8#)P4LU;m+Q8#)aBP<Q0U;Q8#)aBP<QBU;Q8#)aBP4Q0U;Q8#)aBP4QBU;Q8',
+  '#)P4Q0U;m+Q8#)P4QBU;m+Q8#%P4](#%QS7P^=#&u/>o)#&P=VU%VU&##QS8#%VU(VU)#)P4h-[8PPEw,#)P<h-[8PPEw,#(',
+  'd6[8PPEw,#%Pl1VU*#%VU+u/#&P.rAo)#&P3rAo)#&P=rAo)##VU,#&KQRNP^=#%h-w,##u!#%QS8P^D#%PYDP^D#&QROXBP',
+  '^D#&w0&g##)w0&g#>P^E#&w0&P^E#&})&P^E#&})&VU-#(})&Z9TF#%P4o*##o*#%S(o*#&TBQ8VU.#&TBo0Q5#%o0VU/#%c',
+  'F]O#&cF]OhE#&cF]Oo2##]O#%]OhE#%]Oo2#%cFw0#%cFhE#%cFQS9##w0##hE##QS9##VU0#&n7]Oo2#&n7P^>o2#%QS7QS',
+  ':##VU1##VU2##P]##*c3L>Ou&bG#%x:TF#(PY=QS;QS<0#(Po8QS;QS<0##VU3#%Kj.#%VU4QS+#(hE&P*g##%PY2w+#%n%q',
+  '2##m&#(VU5]>VKPPA#&P=gBN#&P=gBP6#&P=gBO#&P=gBL#&On3jJ#&Ln3jJ#&P3n3P^F#&P=n3P^F#&OP^;jJ#&LP^;jJ#&',
+  'OP^9jJ#&LP^9jJ#%P^GjJ#&u3P^GjJ#%u3P^G#(e@Q5&e@#&e@?TF#)e@Q5&?TF#(e@@?TF#*e@Q5&@?TF#&QKdIP%#)e@Q5',
+  '&@dI#%VU6u9#%VU7VU8#%VU9VU:#&VU;PEVU<#&PPAPEVU=##VU>#%w1Q:#)w1Q:&_(^;#)Q:&P^HPEP]G#)_(Q:&S(X@#,_',
+  '(Q:&S(X@>_(^;#,_(Q:&S(X@>P^IPPC#,_(Q:&S(X@>QS=^;#(_(Q:&VU?#(_(Q:&QS>#%QS?Q:#)_(Q:&_(^;#(Q:VU@VUA',
+  'PP<#%QS@Q:#)_(Q:&QSA^;#(_(Q:&QS2#%VUBQ:#%Y@Q:#%VUCQ:#%VUDQ:#(Q:&P^IPPC#%VUEQ:#%VUFQ:#%VUGQ:#%PPJ',
+  'Q:#(Q:VUH:r<#)PPJQ:&_(^;#)PPJQ:&Y1^;#(Q:&P^JbJ#+Q:&P^JbJ>QS?hF#+Q:&P^JbJ>QS=^;#%QSBQ:#%VUIQ:#%VU',
+  'JQ:#%P^KQ:#%P^LQ:#%VUKQ:#)Q:&VULPEVUM#(QSBhBQS@Q:#){1Q:&S(X@#%VUNQ:#%VUOQ:#%QSCQ:#%VV!Q:#%VV#Q:#',
+  '%VV%Q:#&VV&P^LQ:#(Q:&S(X@#%VV(Q:#+Q:&S(X@>P^IPPC#(Q:VV)VKVV*#%VV+Q:#%VV,Q:#%P^:Q:#%QRLQ:#&Q:u7X@',
+  '#(Q:&VV-P^%#*w1eCQ:&_(^;#*eCQ:&P^HPEP]G#*_(eCQ:&S(X@#*_(eCQ:&QSA^;#)eCQ:&VV.u-#*PPJeCQ:&Y1^;#&P^',
+  'KeCQ:#&P^LeCQ:#&QSCeCQ:#&PPK{1Q:#&PPK_(Q:#%VV/Q:#(Q:&QSD^;#)Q:&YCVV0QSE#(Q:&PP:QSE#&_FVV1VV2#%VV',
+  '3w*#%VV4w*#%VV5w*#)VV6_FQSFP.[C#*_FQSFQQ&j<VKVV7#%_F{1#(_F&P^KQ:#(_F&VV8j<#(S4WKU;_I#(T=WKU;_I#(',
+  'S4W#U;_I#(T=W#U;_I#)RCS4WKU;_I#)RCT=WKU;_I#)RCS4W#U;_I#)RCT=W#U;_I#)S4WKU;j@_I#)T=WKU;j@_I#)S4W#',
+  'U;j@_I#)T=W#U;j@_I#*PHS4WKU;j@_I#*PHT=WKU;j@_I#*PHS4W#U;j@_I#*PHT=W#U;j@_I#(S4WKU;m,#(T=WKU;m,#(',
+  'S4W#U;m,#(T=W#U;m,#)PHS4WKU;m,#)PHT=WKU;m,#)PHS4W#U;m,#)PHT=W#U;m,#(QSGPPLP&VH#+QSGPPLP&VHVKP4P&',
+  '#(QSHPPLP&VH#+QSHPPLP&VHVKP4P&#%Q<w2#%S3w2#%Q+w2#%S/w2#(?Ge*VH#)PH?Ge*VH#(GS(e*VH#)PHGS(e*VH#&PH',
+  'jKVH#&o5jKVH#,P,PHP0RCW.[MP%VH#+P,PHP0W.[MP%VH#,P,PHR+P0W.[MP%VH#&PHtNVH#&P,tNVH#(PHP,tNVH#&[BPH',
+  '^K#([BPH_+^K#%PPMw&#&_+PPMw&##w2##VV9#%Pn1QSI#%PPNl,#%QSJP^M#)QSJP^M&dHgI##P^M##VV:#%QKVV;##VV<#',
+  '#QSK#%QSKl,##P^N#%w3P^N##VV=#%P^NUE##VV>##VV?#%gDQSL#%PPBl,#&w3PPBl,##QSM#%w3QSM##QSN#%w3QSN#%VV',
+  '@VVA#%VVBPW-#%VVCVVD##VVE##VVF#%l)PPN#%PV*PPN#%l)VVG#%VVHVVI##PZL##VVJ##VVK#&RFu8QK#&PLu8QK#%P^0',
+  '##(PPBVVLQRKQK#(_9f@V5P^2##Pn/#&YCPW,##%QSO0#&YCQSO0#*PYBQT!VKVVMm90#(a0VCQT!0#&VVNdJ0#&VVOdJ0##',
+  'VW!#%YCVW###QT##%l)QT###PsE#%YCVW%#%VW&[9#%VW(0#%VW)0##VW*#%r>0##VW+#%dJVW,##VW-##P^O##PsA#%VW.e',
+  'K##VW/#%VW0VW1#%OQT%#(S!&cEpN#%VW2##&P*m.PV4#%VW30#%VW40#&VW5>QT&#%P^:VW6#%QT(VW7#%VW8n*##VW9#&m',
+  '9PEVW:#%VW;##%QT(VW<##VW=##VW>#%VW?VW@##VWA##VWB*%VWCVWD##{0#%RBVWE#&{.>QS0##PW.#%}(q8##VWF#%PPN',
+  'Pn8#%QT)Pn;#&bIP^,l0#%bIl0#&bI%l0#%%l0#%VWGl0#%l0QPN#%l0VWH(#QS&#&w3gDQSL#%VWIQSI#%VWJPZL##QT*#%',
+  'QT)QT*##VWK##VWL#%P^CVWM##VWN#%VWOVX!#%VX#PW-#%QR2Pl.((RJ0P!VX%#(RJ0P!qC#(RJ0P!gD#(RJ0P!c4#(RJ0P',
+  '!dJ#(RJ0P!VX&#)RJ0P!PPOVX(#)RJ0P!PPOVX)#)RJ0P!PPOVX*#)RJ0P!PPOVX+#(RJ0P!QT+#(RJ0P!VX,#(RJ0P!VX-#',
+  '(RJ0P!P_!#)RJ0P!VX.P_!#)RJ0P!P4P_!#)RJ0P!{2w4#)RJ0P!{2VX/#)RJ0P!{2VX0#(RJ0P!VX1#(RJ0P!hO#(RJ0P!V',
+  'X2#(RJ0P!VX3#(RJ0P!VX4#)RJ0P!P_#hO#)RJ0P!P_#VX5#(RJ0P!|%#(RJ0P!VX6#)RJ0P!PQ!o,#)RJ0P!PQ!VX7#*RJ0',
+  'P!P_%PEPQ!#*RJ0P!PQ#PEPQ!#)RJ0P!rBo,#)RJ0P!VX8o,#*RJ0P!w4PErB#*RJ0P!P_%PErB#*RJ0P!P_%PEVX9#)RJ0P',
+  '!rBQT,#+RJ0P!hOPErBQT,#,RJ0P!w4PEhOPErB#(RJ0P!VX:#)RJ0P!VX;o,#)RJ0P!VX<o,#)RJ0P!rCo,#*RJ0P!w4PEr',
+  'C#*RJ0P!hOPErC#,RJ0P!w4PEhOPErC#*RJ0P!QT+PErC#*RJ0P!PQ#PErC#*RJ0P!PQ#PEVX=#(RJ0P!PQ##(RJ0P!VX>#(',
+  'RJ0P!VX?#(RJ0P!VX@#(RJ0P!VXA#(RJ0P!VXB#(RJ0P!VXC#(RJ0P!VXD#(RJ0P!VXE#(RJ0P!VXF#(RJ0P!VXG#(RJ0P!V',
+  'XH#)RJ0P!VXIo,#(RJ0P!VXJ#(RJ0P!VXK#)RJ0P!VXLVXM#(RJ0P!VXN#(RJ0P!VXO#(RJ0P!VY!#(RJ0P!VY##(RJ0P!}(',
+  '#(RJ0P!{M#(RJ0P!VY%#(RJ0P!P[6#(RJ0P!Pp8#(RJ0P!VY&#(RJ0P!VY(#(RJ0P!VY)#)RJ0P!VY*VY+#*RJ0P!VY,PEVY',
+  '-#(RJ0P!Pk>#(RJ0P!v5#)RJ0P!VY.v5#(RJ0P!VY/#(RJ0P!QT-#(RJ0P!VY0#)RJ0P!j;Pi<#(RJ0P!QT.#)RJ0P!|7QT.',
+  '#(RJ0P!P_&#)RJ0P!VY1P_&#(RJ0P!VY2#*RJ0P!P_(QT/P_(#*RJ0P!P_(QT/VY3#(RJ0P!VY4#(RJ0P!VY5#(RJ0P!VY6#',
+  '(RJ0P!VY7#(RJ0P!VY8#(RJ0P!VY9#(RJ0P!VY:#(RJ0P!VY;#(RJ0P!VY<#(RJ0P!VY=#(RJ0P!VY>#(RJ0P!VY?#(RJ0P!',
+  'PkL#*RJ0P!P^OPEVY@#*RJ0P!P^OPEVYA#(RJ0P!VYB#(RJ0P!^7#(RJ0P!|0#(RJ0P!VYC#(RJ0P!PRE#)RJ0P!Q>Pb)#)R',
+  'J0P!Q>PjE1)P4a+PQ%LS!#)P4bIPQ%LS!#)P4^LPQ%LS!#)P4e?PQ%LS!#(P4PPK%QH#(S,@P<QH#&@P<QH#&PHP<QH#([BP',
+  'HP<QH#(rDPHP<QH#*P<QHj2P4%QH#%e)P_)#&P4u<P&#(P4PPK%P&#&QKP<P&#&S,P<P&#&@P<P&#&PHP<P&#([BPHP<P&#(',
+  'rDPHP<P&#+P<P&j2P4[B%P&#*P<P&j2P4S,P&#%P&P_)#&P4u<XM#(P4[B%XM#(P4S,%XM#+P<XMj2P4[B%XM#*P<XMj2P4S',
+  ',XM#%XMP_)#&P4u<e>#(P4[B%e>#(P4S,%e>#*P<e>j2P4%e>#&x3HX-#&QKHX-#&S,HX-#&@HX-#([B@HX-#([BPHHX-#(r',
+  'DPHHX-#%x3gC#%QKgC#%S,gC#%@gC#%PHgC#&[BPHgC#&rDPHgC#(QKQ%b1Y##(S,Q%b1Y##(@Q%b1Y##(PHQ%b1Y##)[BPH',
+  'Q%b1Y##)rDPHQ%b1Y##(QKQEb1Y##(S,QEb1Y##(@QEb1Y##(PHQEb1Y##)[BPHQEb1Y##)rDPHQEb1Y##(QKQDb1Y##(S,Q',
+  'Db1Y##(@QDb1Y##(PHQDb1Y##)[BPHQDb1Y##)QKP=Z8P4W6#)S,P=Z8P4W6#(P=Z8P4W6#)S,P=Z8j7W6#)QKPIZ8P4W6#)',
+  'S,PIZ8P4W6#(PIZ8P4W6#)S,PIZ8j7W6#*_+QKPIZ8j7W6#)QKQ%Z8P4W6#)PHQ%Z8P4W6#)S,QEZ8P4W6#)PHQEZ8P4W6#(',
+  'QEZ8j7W6#)S,QDZ8P4W6#)PHQDZ8P4W6#*[BPHQDZ8P4W6#)PHQDZ8j7W6#)QKd&Z8P4W6#)PHd&Z8P4W6#)PHd&Z8j7W6#%',
+  'P*S!#&SAP*S!#%P*P&#&SAP*P&,&T/r@QH#&T/uKQH#&T/m)QH#&T/P^8QH#&T/P_*QH#&T/aHP&#&T/l4P&#&T/r@P&#&T/',
+  'uKP&#&T/m)P&#&T/P^8P&#&T/P_*P&)&PHZ@#4*Q<B&%S!U@#*S3B&%S!U@#*Q+B&%S!U@#*S/B&%S!U@#*Q<B&S,S!U@#*S',
+  '3B&S,S!U@#*Q+B&S,S!U@#*S/B&S,S!U@#*Q<B&T/S!U@#*S3B&T/S!U@#*Q+B&T/S!U@#*S/B&T/S!U@)*Q<B&%_)U@#*S3',
+  'B&%_)U@#*Q+B&%_)U@#*S/B&%_)U@#)Q<B&_)U@#)S3B&_)U@#)Q+B&_)U@#)S/B&_)U@#*PHQ<B&_)U@#*PHS3B&_)U@#*P',
+  'HQ+B&_)U@#*PHS/B&_)U@#+PHQ<B&T/_)U@#+PHS3B&T/_)U@#+PHQ+B&T/_)U@#+PHS/B&T/_)U@#*Q<U6B&pB^=#*S3U6B',
+  '&pB^=#*Q+U6B&pB^=#*S/U6B&pB^=#*Q<U6B&S,^=#*S3U6B&S,^=#*Q+U6B&S,^=#*S/U6B&S,^=#*Q<U6B&@^=#*S3U6B&',
+  '@^=#*Q+U6B&@^=#*S/U6B&@^=#*Q<U6B&PH^=#*S3U6B&PH^=#*Q+U6B&PH^=#*S/U6B&PH^=#+Q<U6B&[BPH^=#+S3U6B&[',
+  'BPH^=#+Q+U6B&[BPH^=#+S/U6B&[BPH^=#&Q<PQ&B#&S3PQ&B#&Q+PQ&B#&S/PQ&B#&Q<Q4B#&S3Q4B#&Q+Q4B#&S/Q4B#&Q',
+  '<m-B#&S3m-B#&Q+m-B#&S/m-B#(Q<PHm-B#(S3PHm-B#(Q+PHm-B#(S/PHm-B#&Q<PHB#&S3PHB#&Q+PHB#&S/PHB-&Q<P,B',
+  '#&S3P,B#&Q+P,B#&S/P,B#(S4WKP,B#(S4W#P,B#(T=W#P,B#(T=WKP,B#(OLP,B#(Q0QBP,B+)YHQ<QKS1B#)YHS3QKS1B#',
+  ')YHQ+QKS1B#)YHS/QKS1B#*YHS4WKQKS1B#*YHS4W#QKS1B#*YHT=W#QKS1B#*YHT=WKQKS1B#(YHQ<S1B#(YHS3S1B#(YHQ',
+  '+S1B#(YHS/S1B#)YHS4WKS1B#)YHS4W#S1B#)YHT=W#S1B#)YHT=WKS1B#)YHQ<S,S1B#)YHS3S,S1B#)YHQ+S,S1B#)YHS/',
+  'S,S1B#*YHS4WKS,S1B#*YHS4W#S,S1B#*YHT=W#S,S1B#*YHT=WKS,S1B#)YHQ<PHS1B#)YHS3PHS1B#)YHQ+PHS1B#)YHS/',
+  'PHS1B#*YHS4WKPHS1B#*YHS4W#PHS1B#*YHT=W#PHS1B#*YHT=WKPHS1B#*YHQ<[BPHS1B#*YHS3[BPHS1B#*YHQ+[BPHS1B',
+  '#*YHS/[BPHS1B#+YHS4WK[BPHS1B#+YHS4W#[BPHS1B#+YHT=W#[BPHS1B#+YHT=WK[BPHS1B-&Q<S!U@#&S3S!U@#&Q+S!U',
+  '@#&S/S!U@#*Q<P<Bm<S!U@#*S3P<Bm<S!U@#*Q+P<Bm<S!U@#*S/P<Bm<S!U@#)Q<B&hJW/#)S3B&hJW/#)Q+B&hJW/#)S/B',
+  '&hJW/#)PHB^=g=P.#*PHB^=g=P3j*#*PHB^=g=P.Q>#*PHB^=g=P.e7#(Q<VYDP<B#)Q+Z:P_+P<B#)Q<XLP_+P<B#)Q+XLP',
+  '_+P<B#(Q<PW8P<B#(Q+PW7P<B#(Q<PW7P<B#(Q+PW8P<B#)Q<PW9eBP<B#)Q+PW9eBP<B#)Q<PW:eBP<B#)Q+PW:eBP<B#)P',
+  '<B^=g=P.#*P<B^=g=P3j*&*BU;S3j8S4WK#+BU;Q+j8u:T=WKPG*P*X-P_,&PIR1#*P*X-P_,&P3R1#&P*X-P_,#*OQ>QH&P',
+  'IR1#*OQ>QH&P=R1#*OQ>QH&P3R1#)OQ>QH&P8#&OQ>QH#&PQ(w-Q!#(PQ(w-hJQ!#)PQ(w-Q!&P8#*PQ(w-hJQ!&P8#%VYE[',
+  'K#%P<](#%P_*](#%VYF[C#%VYGQ:#%VYHQ:#&Q:&QQK#%VYIQ:#%VYJQ:#&Q:&VYK#%VYLQ:#%QT0Q:#(#PEY4QS>#&PY3[*',
+  '[C#([&fEPE[C#%wMPW2#%wLPW2##VYM#+[C&Q8>PJ[KeA#)P7P^3VYN[C##(Q:&VYOn2#%VZ!Q:#%VZ#Q:#)QSDV5Y4b.VZ%',
+  '#%VZ&Q:#%VZ(Q:#%Q:q1#%VZ)Q:#)Q:&P.VZ*[&#)w1Q:&W6^;#-w1Q:&P.T/>P.%hF#*Q:&i3P_-Y1m&#*VZ+Q:&P]LP_-X',
+  '@#-_(Q:&_(^;>[CP_-X@#)Q:&S(X@VZ,#)VZ-Q:&VZ.]>#%P_.l6##VZ/#&VZ0Q0|4##VZ1##VZ2#&_CVKVZ3#%PmOP^)##V',
+  'Z4#&_FVZ5VZ6##VZ7##VZ8#%VZ9VZ:##VZ;#%dJVZ<##VZ=#%VZ>P^%#%VZ?tO#&q8&VZ@#%QR,VZA#%VZBr=##PY##%k2q4',
+  '##VZC#&j)m9w%#&j:m9w%#&e7m9w%#%VZDVZE#&VZFQR3VZG#%VZHPY,#(VZIm*>fA##VZJ#%P^CXB##VZK##VZL##VZM##V',
+  'ZN##QR###VZO#%V[!QR!#%m)V[##(V[%P[.PEPP<#%V[&QT1##PsO#&r=PEV[(##V[)##V[*##V[+##V[,#%V[-QR(#%V[.Q',
+  '5##V[/#&P^&&PY##&u+&V[0##V[1##V[2##PoA##V[3#&PYLPE{O##V[4#%V[5PP<#%V[6m)##V[7#%]3P^(##V[8#,_(Q:&',
+  '_(^;>P=c!#%V[9Q:#(_(Q:&V[:#+Q:&P^+[%>P^+n2#+Q:&V[;^;>g0X@#%V[<Q:#%V[=Q:##V[>#%V[?Q:#(Q:q9fEP^H#(',
+  'Q:&V[@^;##Pi6#%V[AQT2##V[B#%V[CQR9#%n,n)##V[D#%V[EQ:##V[F##V[G#%V[HQ:##PsI##V[I##PYA##V[J##V[K#%',
+  'PoLQ:##V[L##PY-##V[M##V[N##V[O##QR%##V]!#%V]#Q:#%V]%Q:##V]&##V](##V])##QR;##V]*##V]+##V],##V]-##',
+  'V].##V]/##V]0##V]1##V]2##Pn=##V]3##V]4##V]5##V]6##V]7##V]8##V]9##V]:##V];##PUE##V]<##PX?#%V]=q3#',
+  '%V]>V]?#(jIPQ)aHn##(jIPQ)ZAn##&jIPQ)V]@#(jIPQ)P<n###|&##a-##{*##|*##V]A##V]B#%PW1V]C#(n!&V]DV]E#',
+  '%V]FPW&#%V]GPW&#%QT3_G#%QT3a-#%V]HV]I##V]J#%hOV]K#%Pk<Q5##V]L##V]M##V]N##V]O##V^!#%V^#QR*#%l-PR)',
+  '#%jJV^%##V^&#%V^(_F#%V^)_F#%V^*_F#&Q:&V^+##QT4##PY&#%P^7QT4#%V^,_F#&_F&V^-#(_FVKV^.V^/#%_FV^0#(_',
+  'FVK}+pJ##V^1##V^2##V^3##V^4##V^5##V^6##V^7##V^8#%r@](#%V^9zL##V^:##V^;##QT2##V^<#&aHV^=j6##V^>#&',
+  'V^?V^@kO#%V^AV^B#%V^C_3#&V^DP0V^E##V^F##V^G#%gDV^H##V^I##P_&##V^J##QT%#%V^KPP=#&V^LPEPX@#&fAPEV^',
+  'M#%PW1P|!#%V^NQRF##V^O##V_!#&V_#PE{4#&QGPEQT-##V_%##V_&#%V_(V_)#&Y@T!b0#&Y@T!c6#&Y@T!f=#&Y@T!f>#',
+  '&Y@T!]B#&Y@T!f?#*P<T!]BVLP_/X+#*P4T!]BVLP_/X+#*Y@T!]BVLP_/X+#*P<T!b0VLZ5X+#*P<T!c6VLZ5X+#*P<T!f=',
+  'VLZ5X+#*P<T!f>VLZ5X+#*P<T!]BVLZ5X+#*P<T!f?VLZ5X+#*P4T!b0VLZ5X+#*P4T!c6VLZ5X+#*P4T!f=VLZ5X+#*P4T!',
+  'f>VLZ5X+#*P4T!]BVLZ5X+#*P4T!f?VLZ5X+#*Y@T!b0VLZ5X+#*Y@T!c6VLZ5X+#*Y@T!f=VLZ5X+#*Y@T!f>VLZ5X+#*Y@',
+  'T!]BVLZ5X+#*Y@T!f?VLZ5X+#,P<T!]BVLP.R-P_0X+#,P4T!]BVLP.R-P_0X+#,Y@T!]BVLP.R-P_0X+#(P<T!RCb0#(P<T',
+  '!RCc6#(P<T!RCf=#(P<T!RCf>#(P<T!RC]B#(P<T!RCf?#(P4T!RCb0#(P4T!RCc6#(P4T!RCf=#(P4T!RCf>#(P4T!RC]B#',
+  '(P4T!RCf?#(Y@T!RCb0#(Y@T!RCc6#(Y@T!RCf=#(Y@T!RCf>#(Y@T!RC]B#(Y@T!RCf?#,P<T!]BVLP3R-|3X+#,P4T!]BV',
+  'LP3R-|3X+#,Y@T!]BVLP3R-|3X+#,P<T!b0VLP3R-[+X+#,P<T!c6VLP3R-[+X+#,P<T!f=VLP3R-[+X+#,P<T!f>VLP3R-[',
+  '+X+#,P<T!]BVLP3R-[+X+#,P<T!f?VLP3R-[+X+#,P4T!b0VLP3R-[+X+#,P4T!c6VLP3R-[+X+#,P4T!f=VLP3R-[+X+#,P',
+  '4T!f>VLP3R-[+X+#,P4T!]BVLP3R-[+X+#,P4T!f?VLP3R-[+X+#,Y@T!b0VLP3R-[+X+#,Y@T!c6VLP3R-[+X+#,Y@T!f=V',
+  'LP3R-[+X+#,Y@T!f>VLP3R-[+X+#,Y@T!]BVLP3R-[+X+#,Y@T!f?VLP3R-[+X+#,P<T!]BVLP=R-g@X+#,P4T!]BVLP=R-g',
+  '@X+#,Y@T!]BVLP=R-g@X+#&P<T!rE#&P4T!rE#&Y@T!rE#*P<T!rEVLZ5X+#*P4T!rEVLZ5X+#*Y@T!rEVLZ5X+#&P<T!QT5',
+  '#&P<T!QT6#&P<T!QT7#&P4T!QT5#&P4T!QT6#&P4T!QT71&e#aHQT8#&e#aHQT9#&e#aHP^5#&e#aHj;#&e#aHv1#&e#aHQT',
+  ':#&e#aHQT;#&e#P4QT8#&e#P4QT9#&e#P4P^5#&e#P4j;#&e#P4v1#&e#P4QT:#&e#P4QT;&%V_*V_+#%V_,V_-##V_.##{+',
+  '#%PcKQRI(&V_/PEPn<#%V_0V_1##V_2##V_3##V_4(#V_5##V_6##V_7##PsF#%V_8V_9##V_:#%V_;QR..%V_<V_=##Pk4#',
+  '#V_>##PY+#%V_?QT&##V_@#%P^,{6##V_A#%RMq8##V_B#%PsGPZB##V_C##V_D##Q!##QT<##QS:##V_E#%V_FV_G##V_H#',
+  '#V_I#%o)V_J##V_K##Pl/##V_L##P_##%QT<fA#%Pk5TB#%R+QS.##V_M(#PXL##V_N##QRD##V_O#%Va!Va###PY1##z-##',
+  '}+##Va%#%cFQT=#&QT=&Va&*%Va(](##Va)#%P|&QT0#%P_._C#%P_._F#&_F&QRG/#Va*#%n*QQM##Ps?##QT1##Va+##Va',
+  ',##Va-#%Va.PsB##Va/##Pn9+%Va0Q:#%Va1Q:#,Q:&S(^;>[CR4X@#(Q:&Va2hF#(Q:&S2X@#&Y;U*Q:#%Po4|:##P^F-+[',
+  'C&Q8i3>R5eA#%Q+[C#%Q<[C#&q1QB[C#&q1Q0[C#)Q8U;]GY4Va3#%](j<.%Q?Va4#%Q?Va5#%Q?Va6#%Q?Va7#%Q?Va8#%Q',
+  '?Va9#%Q?Va:#%Q?Va;#%Q?Va<#%Q?Va=#%Q?Va>#%Q?Va?#%Q?Va@#%Q?VaA#%Q?VaB#%Q?VaC#%Q?VaD#%Q?VaE#%Q?VaF#',
+  '%Q?VaG#%Q?VaH#%Q?VaI#%Q?VaJ#%Q?VaK#%Q?VaL#%Q?VaM#%Q?VaN#%Q?VaO#%Q?Vb!#%Q?Vb##%Q?Vb%#%Q?Vb&#%Q?Vb',
+  '(#%Q?Vb)#%Q?Vb*#%Q?Vb+#%Q?Vb,#%Q?Vb-#%Q?Vb.#%Q?Vb/#%Q?Vb0#%Q?Vb1#%Q?Vb2#%Q?Vb3#%Q?Vb4#%Q?Vb5#%Q?',
+  'Vb6#%Q?Vb7#%Q?Vb8#%Q?Vb9#%Q?Vb:#%Q?Vb;#%Q?Vb<#%Q?Vb=#%Q?Vb>#%Q?Vb?#%Q?Vb@#%Q?VbA#%Q?VbB#%Q?VbC#.',
+  'Q;OQ?S2Q;PJOP?Q;VD#.Q;OQ?S2Q;PJOP?Q;L#.Q;OQ?S2QCPJOP?Q;VD#.Q;OQ?S2QCPJOP?Q;L#-Q;OQ?S2QCOP?Q;VD#.',
+  'Q;LQ?S2QCPJOP?QCVD#.Q;LQ?S2QCPJOP?QCL#.Q;LQ?S2Q;PJOP?QCVD#.Q;LQ?S2Q;PJOP?QCL#-Q;LQ?S2Q;OP?QCVD#/',
+  'Q;LQ?S2Q;PJOP?QCPJL#.Q;LQ?S2Q;VDP?Q;PJL#.Q;LQ?S2Q;OP?Q;PJL#.Q;LQ?S2Q;VDP?QCPJL#.Q;LQ?S2Q;OP?QCPJ',
+  'L#-Q;LQ?S2Q;VDP?QCL#.Q;OQ?S2QCVDP?QCPJL#.Q;OQ?S2QCOP?QCPJL#.Q;OQ?S2QCVDP?Q;PJL#.Q;OQ?S2QCOP?Q;PJ',
+  'L#-Q;OQ?S2QCVDP?Q;L#/Q;OQ?S2QCPJOP?Q;PJL#.QCLQ?S2Q;PJOP?Q;VD#.QCLQ?S2Q;PJOP?Q;L#.QCLQ?S2QCPJOP?Q',
+  ';VD#.QCLQ?S2QCPJOP?Q;L#-QCLQ?S2QCOP?Q;VD#.QCOQ?S2QCPJOP?QCVD#.QCOQ?S2QCPJOP?QCL#.QCOQ?S2Q;PJOP?Q',
+  'CVD#.QCOQ?S2Q;PJOP?QCL#-QCOQ?S2Q;OP?QCVD#/QCOQ?S2Q;PJOP?QCPJL#.QCOQ?S2Q;VDP?Q;PJL#.QCOQ?S2Q;OP?Q',
+  ';PJL#.QCOQ?S2Q;VDP?QCPJL#.QCOQ?S2Q;OP?QCPJL#-QCOQ?S2Q;VDP?QCL#.QCLQ?S2QCVDP?QCPJL#.QCLQ?S2QCOP?Q',
+  'CPJL#.QCLQ?S2QCVDP?Q;PJL#.QCLQ?S2QCOP?Q;PJL#-QCLQ?S2QCVDP?Q;L#/QCLQ?S2QCPJOP?Q;PJL#-QC>L>Q;_9P=c',
+  '?Q?#-O>Q;>L_9P=c?Q?#-QC>O>Q;_9P=c?Q?#-O>QC>L_9P=c?Q?#)O_9P.Z.Q?#)QC_9P.Z.Q?#)L_9P.Z.Q?#)Q;_9P.Z.',
+  'Q?#(PLP.Z4QT>#(PLP.Z4QT?#(PLP.Z4QT@#(PLP.Z4QTA#(PLP.Z4QTB#(PLP.Z4QTC#(RFP.Z4QT>#(RFP.Z4QT?#(RFP.',
+  'Z4QT@#(RFP.Z4QTA#(RFP.Z4QTB#(RFP.Z4QTC#*O>Q;P.Z4Q?#*O>QCP.Z4Q?#*L>QCP.Z4Q?#*L>Q;P.Z4Q?#*QC>Q;P.Z',
+  '4Q?#(RFP.Z4VbD#(QCP.Z.Q?#(QCP=d%Q?#(QCQ%d%Q?#(QCP=c?Q?#(QCR!d%Q?#(LP.Z.Q?#(LP=d%Q?#(LQ%d%Q?#(LP=',
+  'c?Q?#(LR!d%Q?#(OQ>S,d*#(LQ>S,d*#(QCQ>S,d*#(Q;Q>S,d*#&gAS,d*#-QCQ>Q?>Q;Q>gAS,d*#-QCQ>gAS,d*>Q;Q>Q',
+  '?%-OQ>gAS,d*>LQ>Q?#&PPMw&b/#(gAPPMw&b/#&PHRFb/#*QCOP?Q;Lb/#*QCLP?Q;Ob/#*QC>Q;_9Q>Q?#*O>L_9Q>Q?#)',
+  'QCO_9S,d*#)QCL_9S,d*#)Q;L_9S,d*#)Q;O_9S,d*#-Q5QNQKS2QCVDP?PJO#-Q5QNQKS2QCVDP?PJL#-Q5QNQKS2PJOP?Q',
+  ';VD#-Q5QNQKS2PJLP?Q;VD#0Q5QNQKS2QCVDP?PJOP?Q;VD#0Q5QNQKS2QCVDP?PJLP?Q;VD#0Q5QNQKS2PJOP?Q;VDP?PJL',
+  '#0Q5QNQKS2PJOP?QCVDP?PJL#3Q5QNQKS2QCVDP?PJO>PJLP?Q;VD#3Q5QNQKS2QCVDP?PJL>PJOP?Q;VD#3Q5QNQKS2QCVD',
+  'P?PJLP?Q;VDP?PJO#3Q5QNQKS2QCVDP?PJOP?Q;VDP?PJL#3Q5QNQKS2PJOP?QCVDP?PJLP?Q;VD#3Q5QNQKS2PJLP?QCVDP',
+  '?PJOP?Q;VD#)Q5QNQKS2XM#+Q5QNQKRF&PLPD#%VbEu1#&gAdIP%#(OQ>P^._C#(LQ>P^._C#*gAS/B&a*Q<#-Q<B>QC>Q;P',
+  '.Z4Q?#-Q+B>QC>Q;P.Z4Q?#+S/B>LP.Z4Q?#+S3B>LP.Z4Q?#&OQ>o*#&LQ>o*#&VbFHX-#(LS(Q4P8#&SAS2X-#+SAS2PJL',
+  'P?Q;VD#&SAS2XM#*P<PHgC&cEpN#*Oe7P<LU;Q8#*PJe7P<LU;Q8#*Le7P<LU;Q8#(SAQ4]+P%#%m*kI#)m*kI&VbG[&#(m*',
+  'kIQTDO#(m*kIQTDL#(m*kI&QRH#&P<bIPl7J&i84T,#&i84P.#&i84P3#&i84P=#&i84PI#&i84Q%#&i84QE#&i84R!#&i84',
+  'QD#&i84R*r^3&/3VbH#&/3VbI#&/3VbJ#&/3VbK#&/3VbL#&/3VbM#&/3VbN#&/3VbO#&/3Vc!#&/3Vc##&/3Vc%#&/3Vc&#',
+  '&/3Vc(#&/3Vc)#&/3Vc*#&/3Vc+#&/3Vc,#&/3Vc-#&/3Vc.#&/3Vc/#&/3Vc0#&/3Vc1#&/3Vc2#&/3Vc3#&/3Vc4#&/3Vc',
+  '5#&/3Vc6#&/3Vc7#&/3Vc8#&/3Vc9#&/3Vc:#&/3Vc;#&/3Vc<#&/3Vc=#&/3Vc>#&/3Vc?#&/3Vc@#&/3VcA#&/3VcB#&/3',
+  'VcC#&/3VcD#&/3VcE#&/3VcF#&/3VcG#&/3VcH#&/3VcI#&/3VcJ#&/3VcK#&/3VcL#&/3VcM#&/3VcN#&/3VcO#&/3Vd!#&',
+  '/3Vd##&/3Vd%#&/3Vd&#&/3Vd(#&/3Vd)#&/3Vd*#&/3Vd+#&/3Vd,#&/3Vd-#&/3Vd.#&/3Vd/#&/3Vd0#&/3Vd1#&/3Vd2',
+  '#&/3Vd3#&/3Vd4#&/3Vd5#&/3Vd6#&/3Vd7#&/3Vd8#&/3Vd9#&/3Vd:#&/3Vd;#&/3Vd<#&/3Vd=#&/3Vd>#&/3Vd?#&/3V',
+  'd@#&/3VdA#&/3VdB#&/3VdC#&/3VdD#&/3VdE#&/3VdF#&/3VdG#&/3VdH#&/3VdI#&/3VdJ#&/3VdK#&/3VdL#&/3VdM#&/',
+  '3VdN#&/3VdO#&/3Ve!#&/3Ve##&/3Ve%#&/3Ve&#&/3Ve(#&/3Ve)#&/3Ve*#&/3Ve+#&/3Ve,#&/3Ve-#&/3Ve.#&/3Ve/#',
+  '&/3Ve0#&/3Ve1#&/3Ve2#&/3Ve3#&/3Ve4#&/3Ve5#&/3Ve6#&/3Ve7#&/3Ve8#&/3Ve9#&/3Ve:#&/3Ve;#&/3Ve<#&/3Ve',
+  '=#&/3Ve>#&/3Ve?#&/3Ve@#&/3VeA#&/3VeB#&/3VeC#&/3VeD#&/3VeE#&/3VeF#&/3VeG#&/3VeH#&/3VeI#&/3VeJ#&/3',
+  'VeK#&/3VeL#&/3VeM#&/3VeN#&/3VeO#&/3Vf!#&/3Vf##&/3Vf%#&/3Vf&#&/3Vf(#&/3Vf)#&/3Vf*#&/3Vf+#&/3Vf,#&',
+  '/3Vf-#&/3Vf.#&/3Vf/#&/3Vf0#&/3Vf1#&/3Vf2#&/3Vf3#&/3Vf4#&/3Vf5#&/3Vf6#&/3Vf7#&/3Vf8#&/3Vf9#&/3Vf:',
+  '#&/3Vf;#&/3Vf<#&/3Vf=#&/3Vf>#&/3Vf?#&/3Vf@#&/3VfA#&/3VfB#&/3VfC#&/3VfD#&/3VfE#&/3VfF#&/3VfG#&/3V',
+  'fH#&/3VfI#&/3VfJ#&/3VfK#&/3VfL#&/3VfM#&/3VfN#&/3VfO#&/3Vg!#&/3Vg##&/3Vg%#&/3Vg&#&/3Vg(#&/3Vg)#&/',
+  '3Vg*#&/3Vg+#&/3Vg,#&/3Vg-#&/3Vg.#&/3Vg/#&/3Vg0#&/3Vg1#&/3Vg2#&/3Vg3#&/3Vg4#&/3Vg5#&/3Vg6#&/3Vg7#',
+  '&/3Vg8#&/3Vg9#&/3Vg:#&/3Vg;#&/3Vg<#&/3Vg=#&/3Vg>#&/3Vg?#&/3Vg@#&/3VgA#&/3VgB#&/3VgC#&/3VgD#&/3Vg',
+  'E#&/3VgF#&/3VgG#&/3VgH#&/3VgI#&/3VgJ#&/3VgK#&/3VgL#&/3VgM#&/3VgN#&/3VgO#&/3Vh!#&/3Vh##&/3Vh%#&/3',
+  'Vh&#&/3Vh(#&/3Vh)#&/3Vh*#&/3Vh+#&/3Vh,#&/3Vh-#&/3Vh.#&/3Vh/#&/3Vh0#&/3Vh1#&/3Vh2#&/3Vh3#&/3Vh4#&',
+  '/3Vh5#&/3Vh6#&/3Vh7#&/3Vh8#&/3Vh9#&/3Vh:#&/3Vh;#&/3Vh<#&/3Vh=#&/3Vh>#&/3Vh?#&/3Vh@#&/3VhA#&/3VhB',
+  '#&/3VhC#&/3VhD#&/3VhE#&/3VhF#&/3VhG#&/3VhH#&/3VhI#&/3VhJ#&/3VhK#&/3VhL#&/3VhM#&/3VhN#&/3VhO#&/3V',
+  'i!#&/3Vi##&/3Vi%#&/3Vi&#&/3Vi(#&/3Vi)#&/3Vi*#&/3Vi+#&/3Vi,#&/3Vi-#&/3Vi.#&/3Vi/#&/3Vi0#&/3Vi1#&/',
+  '3Vi2#&/3Vi3#&/3Vi4#&/3Vi5#&/3Vi6#&/3Vi7#&/3Vi8#&/3Vi9#&/3Vi:#&/3Vi;#&/3Vi<#&/3Vi=#&/3Vi>#&/3Vi?#',
+  '&/3Vi@#&/3ViA#&/3ViB#&/3ViC#&/3ViD#&/3ViE#&/3ViF#&/3ViG#&/3ViH#&/3ViI#&/3ViJ#&/3ViK#&/3ViL#&/3Vi',
+  'M#&/3ViN#&/3ViO#&/3Vj!#&/3Vj##&/3Vj%#&/3Vj&#&/3Vj(#&/3Vj)#&/3Vj*#&/3Vj+#&/3Vj,#&/3Vj-#&/3Vj.#&/3',
+  'Vj/#&/3Vj0#&/3Vj1#&/3Vj2#&/3Vj3#&/3Vj4#&/3Vj5#&/3Vj6#&/3Vj7#&/3Vj8#&/3Vj9#&/3Vj:#&/3Vj;#&/3Vj<#&',
+  '/3Vj=#&/3Vj>#&/3Vj?#&/3Vj@#&/3VjA#&/3VjB#&/3VjC#&/3VjD#&/3VjE#&/3VjF#&/3VjG#&/3VjH#&/3VjI#&/3VjJ',
+  '#&/3VjK#&/3VjL#&/3VjM#&/3VjN#&/3VjO#&/3Vk!#&/3Vk##&/3Vk%#&/3Vk&#&/3Vk(#&/3Vk)#&/3Vk*#&/3Vk+#&/3V',
+  'k,#&/3Vk-#&/3Vk.#&/3Vk/#&/3Vk0#&/3Vk1#&/3Vk2#&/3Vk3#&/3Vk4#&/3Vk5#&/3Vk6#&/3Vk7#&/3Vk8#&/3Vk9#&/',
+  '3Vk:#&/3Vk;#&/3Vk<#&/3Vk=#&/3Vk>#&/3Vk?#&/3Vk@#&/3VkA#&/3VkB#&/3VkC#&/3VkD#&/3VkE#&/3VkF#&/3VkG#',
+  '&/3VkH#&/3VkI#&/3VkJ#&/3VkK#&/3VkL#&/3VkM#&/3VkN#&/3VkO#&/3Vl!#&/3Vl##&/3Vl%#&/3Vl&#&/3Vl(#&/3Vl',
+  ')#&/3Vl*#&/3Vl+#&/3Vl,#&/3Vl-#&/3Vl.#&/3Vl/#&/3Vl0#&/3Vl1#&/3Vl2#&/3Vl3#&/3Vl4#&/3Vl5#&/3Vl6#&/3',
+  'Vl7#&/3Vl8#&/3Vl9#&/3Vl:#&/3Vl;#&/3Vl<#&/3Vl=#&/3Vl>#&/3Vl?#&/3Vl@#&/3VlA#&/3VlB#&/3VlC#&/3VlD#&',
+  '/3VlE#&/3VlF#&/3VlG#&/3VlH#&/3VlI#&/3VlJ#&/3VlK#&/3VlL#&/3VlM#&/3VlN#&/3VlO#&/3Vm!#&/3Vm##&/3Vm%',
+  '#&/3Vm&#&/3Vm(#&/3Vm)#&/3Vm*#&/3Vm+#&/3Vm,#&/3Vm-#&/3Vm.#&/3Vm/#&/3Vm0#&/3Vm1#&/3Vm2#&/3Vm3#&/3V',
+  'm4#&/3Vm5#&/3Vm6#&/3Vm7#&/3Vm8#&/3Vm9#&/3Vm:#&/3Vm;#&/3Vm<#&/3Vm=#&/3Vm>#&/3Vm?#&/3Vm@#&/3VmA#&/',
+  '3VmB#&/3VmC#&/3VmD#&/3VmE#&/3VmF#&/3VmG#&/3VmH#&/3VmI#&/3VmJ#&/3VmK#&/3VmL#&/3VmM#&/3VmN#&/3VmO#',
+  '&/3Vn!#&/3Vn##&/3Vn%#&/3Vn&#&/3Vn(#&/3Vn)#&/3Vn*#&/3Vn+#&/3Vn,#&/3Vn-#&/3Vn.#&/3Vn/#&/3Vn0#&/3Vn',
+  '1#&/3Vn2#&/3Vn3#&/3Vn4#&/3Vn5#&/3Vn6#&/3Vn7#&/3Vn8#&/3Vn9#&/3Vn:#&/3Vn;#&/3Vn<#&/3Vn=#&/3Vn>#&/3',
+  'Vn?#&/3Vn@#&/3VnA#&/3VnB#&/3VnC#&/3VnD#&/3VnE#&/3VnF#&/3VnG#&/3VnH#&/3VnI#&/3VnJ#&/3VnK#&/3VnL#&',
+  '/3VnM#&/3VnN#&/3VnO#&/3Vo!#&/3Vo##&/3Vo%#&/3Vo&#&/3Vo(#&/3Vo)WfU0%Vo*S5C%S5_6#&S5^+P%#&S5[MP%#&S',
+  '5D##&S5m/##&S5rF##%S5jK#%S5i:#&S5OY!#&S5LY!#%S5Y##&S5Q1##%S5W.#%S5w9#&S5X,UE#%S5^K#&S54T,#&S54P.',
+  '#&S54P3#&S54P=#&S54PI#&S54Q%#&S54QE#&S54R!#&S54QD#&S54R*#%S5[/#%S5eL#&S5W2##&S5Z@##&S5W3##&S5]+P',
+  '%#&S5rG]G#)S5+)!:#)S5+)!P;#)S5+)!T?#)S5+)!SJ#)S5+)!P5#)S5+)!V!#)S5+)!S9#)S5+)!SB#)S5+)!P7#)S5+)!',
+  'U3#)S5+)!S>#)S5+)!Q@#)S5+)!S&#)S5+)!R<#)S5+)!P2#)S5+)!TE#)S5+)!W4#)S5+)!Q2#)S5+)!Q3#)S5+)!S;#)S5',
+  '+)!P+#)S5+)!SC#)S5+)!U+#)S5+)!TF#)S5+)!T-#)S5+)!T%#(S5OP&R%#&S5_+^K#(S5LP&R%#&S5U,V8#&S5R+U*#&S5',
+  'V0V8#)S5+%!:#)S5+%!P;#)S5+%!T?#)S5+%!SJ#)S5+%!P5#)S5+%!V!#)S5+%!S9#)S5+%!SB#)S5+%!P7#)S5+%!U3#)S',
+  '5+%!S>#)S5+%!Q@#)S5+%!S&#)S5+%!R<#)S5+%!P2#)S5+%!TE#)S5+%!W4#)S5+%!Q2#)S5+%!Q3#)S5+%!S;#)S5+%!P+',
+  '#)S5+%!SC#)S5+%!U+#)S5+%!TF#)S5+%!T-#)S5+%!T%#(S5OZAR%#&S5PLU*#(S5LZAR%#%S5S.#%w8S5QM%P@Vo+!#Vo,',
+  '#%P@Vo-!#Vo.#%P@Vo/!#Vo0#%P@Vo1!#Vo2#%P@Vo3!#Vo4#%P@Vo5!#Vo6#%P@Vo7!#Vo8#%P@Vo9!#Vo:#%P@Vo;!#Vo<',
+  '#%P@Vo=!#Vo>#%P@Vo?!#Vo@#%P@VoA!#VoB#%P@VoC!#VoD#%P@VoE!#VoF#%P@VoG!#VoH#%P@VoI!#VoJ#%P@VoK!#VoL',
+  '#%P@VoM!#VoN#%P@VoO!#Vp!#%P@Vp#!#Vp%#%P@Vp&!#Vp(#%P@Vp)!#Vp*#%P@Vp+!#Vp,#%P@Vp-!#Vp.#%P@Vp/!#Vp0',
+  '#%P@Vp1!#Vp2#%P@Vp3!#Vp4#%P@Vp5!#Vp6#%P@Vp7!#Vp8#%P@Vp9!#Vp:#%P@Vp;!#Vp<#%P@Vp=!#Vp>#%P@Vp?!#Vp@',
+  '#%P@VpA!#VpB#%P@VpC!#VpD#%P@VpE!#VpF#%P@VpG!#VpH#%P@VpI!#VpJ#%P@VpK!#VpL#%P@VpM!#VpN#%P@VpO!#Vq!',
+  '#%P@Vq#!#Vq%#%P@Vq&!#Vq(#%P@Vq)!#Vq*#%P@Vq+!#Vq,#%P@Vq-!#Vq.#%P@Vq/!#Vq0#%P@Vq1!#Vq2#%P@Vq3!#Vq4',
+  '#%P@Vq5!#Vq6#%P@Vq7!#Vq8#%P@Vq9!#Vq:#%P@Vq;!#Vq<#%P@Vq=!#Vq>#%P@Vq?!#Vq@#%P@VqA!#VqB#%P@VqC!#VqD',
+  '#%P@VqE!#VqF#%P@VqG!#VqH#%P@VqI!#VqJ#%P@VqK!#VqL#%P@VqM!#VqN#%P@VqO!#Vr!#%P@Vr#!#Vr%#%P@Vr&!#Vr(',
+  '#%P@Vr)!#Vr*#%P@Vr+!#Vr,#%P@Vr-!#Vr.#%P@Vr/!#Vr0#%P@Vr1!#Vr2#%P@Vr3!#Vr4#%P@Vr5!#Vr6#%P@Vr7!#Vr8',
+  '#%P@Vr9!#Vr:#%P@Vr;!#Vr<#%P@Vr=!#Vr>#%P@Vr?!#Vr@#%P@VrA!#VrB#%P@VrC!#VrD#%P@VrE!#VrF#%P@VrG!#VrH',
+  '#%P@VrI!#VrJ#%P@VrK!#VrL#%P@VrM!#VrN#%P@VrO!#Vs!#%P@Vs#!#Vs%#%P@Vs&!#Vs(#%P@Vs)!#Vs*#%P@Vs+!#Vs,',
+  '#%P@Vs-!#Vs.#%P@Vs/!#Vs0#%P@Vs1!#Vs2#%P@Vs3!#Vs4#%P@Vs5!#Vs6#%P@Vs7!#Vs8#%P@Vs9!#Vs:#%P@Vs;!#Vs<',
+  '#%P@Vs=!#Vs>#%P@Vs?!#Vs@#%P@VsA!#VsB#%P@VsC!#VsD#%P@VsE!#VsF#%P@VsG!#VsH#%P@VsI!#VsJ#%P@VsK!#VsL',
+  '#%P@VsM!#VsN#%P@VsO!#Vt!#%P@Vt#!#Vt%#%P@Vt&!#Vt(#%P@Vt)!#Vt*#%P@Vt+!#Vt,#%P@Vt-!#Vt.#%P@Vt/!#Vt0',
+  '#%P@Vt1!#Vt2#%P@Vt3!#Vt4#%P@Vt5!#Vt6#%P@Vt7!#Vt8#%P@Vt9!#Vt:#%P@Vt;!#Vt<#%P@Vt=!#Vt>#%P@Vt?!#Vt@',
+  '#%P@VtA!#VtB#%P@VtC!#VtD#%P@VtE!#VtF#%P@VtG!#VtH#%P@VtI!#VtJ#%P@VtK!#VtL#%P@VtM!#VtN#%P@VtO!#Vu!',
+  '#%P@Vu#!#Vu%#%P@Vu&!#Vu(#%P@Vu)!#Vu*#%P@Vu+!#Vu,#%P@Vu-!#Vu.#%P@Vu/!#Vu0#%P@Vu1!#Vu2#%P@Vu3!#Vu4',
+  '#%P@Vu5!#Vu6#%P@Vu7!#Vu8#%P@Vu9!#Vu:#%P@Vu;!#Vu<#%P@Vu=!#Vu>#%P@Vu?!#Vu@#%P@VuA!#VuB#%P@VuC!#VuD',
+  '#%P@VuE!#VuF#%P@VuG!#VuH#%P@VuI!#VuJ#%P@VuK!#VuL#%P@VuM!#VuN#%P@VuO!#Vv!#%P@Vv#!#Vv%#%P@Vv&!#Vv(',
+  '#%P@Vv)!#Vv*#%P@Vv+!#Vv,#%P@Vv-!#Vv.#%P@Vv/!#Vv0#%P@Vv1!#Vv2#%P@Vv3!#Vv4#%P@Vv5!#Vv6#%P@Vv7!#Vv8',
+  '#%P@Vv9!#Vv:#%P@Vv;!#Vv<#%P@Vv=!#Vv>#%P@Vv?!#Vv@#%P@VvA!#VvB#%P@VvC!#VvD#%P@VvE!#VvF#%P@VvG!#VvH',
+  '#%P@VvI!#VvJ#%P@VvK!#VvL#%P@VvM!#VvN#%P@VvO!#Vw!#%P@Vw#!#Vw%#%P@Vw&!#Vw(#%P@Vw)!#Vw*#%P@Vw+!#Vw,',
+  '#%P@Vw-!#Vw.#%P@Vw/!#Vw0#%P@Vw1!#Vw2#%P@Vw3!#Vw4#%P@Vw5!#Vw6#%P@Vw7!#Vw8#%P@Vw9!#Vw:#%P@Vw;!#Vw<',
+  '#%P@Vw=!#Vw>#%P@Vw?!#Vw@#%P@VwA!#VwB#%P@VwC!#VwD#%P@VwE!#VwF#%P@VwG!#VwH#%P@VwI!#VwJ#%P@VwK!#VwL',
+  '#%P@VwM!#VwN#%P@VwO!#Vx!#%P@Vx#!#Vx%#%P@Vx&!#Vx(#%P@Vx)!#Vx*#%P@Vx+!#Vx,#%P@Vx-!#Vx.#%P@Vx/!#Vx0',
+  '#%P@Vx1!#Vx2#%P@Vx3!#Vx4#%P@Vx5!#Vx6#%P@Vx7!#Vx8#%P@Vx9!#Vx:#%P@Vx;!#Vx<#%P@Vx=!#Vx>#%P@Vx?!#Vx@',
+  '#%P@VxA!#VxB#%P@VxC!#VxD#%P@VxE!#VxF#%P@VxG!#VxH#%P@VxI!#VxJ#%P@VxK!#VxL#%P@VxM!#VxN#%P@VxO!#Vy!',
+  '#%P@Vy#!#Vy%#%P@Vy&!#Vy(#%P@Vy)!#Vy*#%P@Vy+!#Vy,#%P@Vy-!#Vy.#%P@Vy/!#Vy0#%P@Vy1!#Vy2#%P@Vy3!#Vy4',
+  '#%P@Vy5!#Vy6#%P@Vy7!#Vy8#%P@Vy9!#Vy:#%P@Vy;!#Vy<#%P@Vy=!#Vy>#%P@Vy?!#Vy@#%P@VyA!#VyB#%P@VyC!#VyD',
+  '#%P@VyE!#VyF#%P@VyG!#VyH#%P@VyI!#VyJ#%P@VyK!#VyL#%P@VyM!#VyN#%P@VyO!#Vz!#%P@Vz#!#Vz%',
+].join('');
+
+const CJK_UNIFIED_RANGES: Array<[number, number]> = [
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0x20000, 0x2a6df],
+  [0x2a700, 0x2b738],
+  [0x2b740, 0x2b81d],
+  [0x2b820, 0x2cea1],
+  [0x2ceb0, 0x2ebe0],
+  [0x30000, 0x3134a],
+];
+
+const CJK_UNIFIED_PREFIX = 'CJK UNIFIED IDEOGRAPH-';
+const HANGUL_SYLLABLE_PREFIX = 'HANGUL SYLLABLE ';
+const HANGUL_BASE = 0xac00;
+const HANGUL_LEADS = ['G', 'GG', 'N', 'D', 'DD', 'R', 'M', 'B', 'BB', 'S', 'SS', '', 'J', 'JJ', 'C', 'K', 'T', 'P', 'H'];
+const HANGUL_VOWELS = [
+  'A', 'AE', 'YA', 'YAE', 'EO', 'E', 'YEO', 'YE', 'O', 'WA', 'WAE',
+  'OE', 'YO', 'U', 'WEO', 'WE', 'WI', 'YU', 'EU', 'YI', 'I',
+];
+const HANGUL_TAILS = [
+  '', 'G', 'GG', 'GS', 'N', 'NJ', 'NH', 'D', 'L', 'LG', 'LM', 'LB', 'LS', 'LT',
+  'LP', 'LH', 'M', 'B', 'BS', 'S', 'SS', 'NG', 'J', 'C', 'K', 'T', 'P', 'H',
+];
+
+let nameTable: Map<string, number> | null = null;
+
+/**
+ * Decode NAMES on first use
+ */
+function loadNames(): Map<string, number> {
+  if (nameTable) return nameTable;
+
+  const words = WORDS.split(' ');
+  const table = new Map<string, number>();
+  let i = 0;
+  const next = (): number => {
+    let n = 0;
+    let digit = CONTINUATION.indexOf(NAMES[i]);
+    while (digit !== -1) {
+      n = (n + digit + 1) * BASE;
+      digit = CONTINUATION.indexOf(NAMES[++i]);
+    }
+    return n + TERMINAL.indexOf(NAMES[i++]);
+  };
+
+  let codePoint = 0;
+  while (i < NAMES.length) {
+    codePoint += next();
+    const parts: string[] = [];
+    for (let count = next(); count > 0; count--) {
+      parts.push(words[next()]);
+    }
+    table.set(parts.join(' '), codePoint);
+  }
+
+  nameTable = table;
+  return table;
+}
+
+/**
+ * Longest entry of `options` that `text` starts with at `index` (Hangul
+ * jamo are read greedily, like unicodedata)
+ */
+function longestJamo(text: string, index: number, options: string[]): number {
+  let best = -1;
+  options.forEach((option, i) => {
+    if (text.startsWith(option, index) && (best === -1 || option.length > options[best].length)) {
+      best = i;
+    }
+  });
+  return best;
+}
+
+function hangulSyllable(jamo: string): number | undefined {
+  const lead = longestJamo(jamo, 0, HANGUL_LEADS);
+  if (lead === -1) return undefined;
+  let index = HANGUL_LEADS[lead].length;
+  const vowel = longestJamo(jamo, index, HANGUL_VOWELS);
+  if (vowel === -1) return undefined;
+  index += HANGUL_VOWELS[vowel].length;
+  const tail = longestJamo(jamo, index, HANGUL_TAILS);
+  if (index + HANGUL_TAILS[tail].length !== jamo.length) return undefined;
+  return HANGUL_BASE + (lead * HANGUL_VOWELS.length + vowel) * HANGUL_TAILS.length + tail;
+}
+
+function cjkUnifiedIdeograph(hex: string): number | undefined {
+  if (!/^[0-9A-F]{4,5}$/.test(hex)) return undefined;
+  const codePoint = parseInt(hex, 16);
+  return CJK_UNIFIED_RANGES.some(([first, last]) => codePoint >= first && codePoint <= last) ? codePoint : undefined;
+}
+
+/**
+ * Code point of a Unicode character name or alias, as unicodedata.lookup()
+ * resolves it: stored names ignore case, algorithmic names must be uppercase
+ */
+export function lookupCharacterName(name: string): number | undefined {
+  if (name.startsWith(CJK_UNIFIED_PREFIX)) {
+    return cjkUnifiedIdeograph(name.slice(CJK_UNIFIED_PREFIX.length));
+  }
+  if (name.startsWith(HANGUL_SYLLABLE_PREFIX)) {
+    return hangulSyllable(name.slice(HANGUL_SYLLABLE_PREFIX.length));
+  }
+  return loadNames().get(name.replace(/[a-z]+/g, letters => letters.toUpperCase()));
+}